@@ -1,7 +1,21 @@
+import { useCallback, useState } from 'react';
 import ClientsPage from './pages/ClientsPage';
+import SignInPage from './pages/SignInPage';
+import { clearAdminToken, getAdminToken } from './api/auth';
 
 function App() {
-  return <ClientsPage />;
+  const [signedIn, setSignedIn] = useState(() => getAdminToken() !== null);
+
+  const handleSignOut = useCallback(() => {
+    clearAdminToken();
+    setSignedIn(false);
+  }, []);
+
+  if (!signedIn) {
+    return <SignInPage onSignedIn={() => setSignedIn(true)} />;
+  }
+
+  return <ClientsPage onSignOut={handleSignOut} />;
 }
 
 export default App;
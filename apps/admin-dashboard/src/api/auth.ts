@@ -0,0 +1,38 @@
+const AUTH_API_URL = 'http://localhost:3001/api/auth';
+
+// The admin API only accepts the login token of a user whose role is ADMIN
+const ADMIN_TOKEN_KEY = 'jobrun_admin_token';
+
+export function getAdminToken(): string | null {
+  return localStorage.getItem(ADMIN_TOKEN_KEY);
+}
+
+export function clearAdminToken(): void {
+  localStorage.removeItem(ADMIN_TOKEN_KEY);
+}
+
+export function adminAuthHeaders(): Record<string, string> {
+  const token = getAdminToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+export async function signIn(email: string, password: string): Promise<string> {
+  const response = await fetch(`${AUTH_API_URL}/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password }),
+  });
+  const json = await response.json().catch(() => null);
+
+  if (!response.ok || !json?.success) {
+    throw new Error(json?.error?.message || 'Sign-in failed');
+  }
+
+  // The admin API checks the role too; this just says so up front
+  if (json.data.user.role !== 'ADMIN') {
+    throw new Error('This account is not an admin');
+  }
+
+  localStorage.setItem(ADMIN_TOKEN_KEY, json.data.token);
+  return json.data.token;
+}
@@ -1,3 +1,5 @@
+import { adminAuthHeaders } from './auth';
+
 const API_BASE_URL = 'http://localhost:3001/api/admin';
 
 export class ApiError extends Error {
@@ -15,7 +17,7 @@ export async function apiGet<T>(path: string): Promise<T> {
   const url = `${API_BASE_URL}${path}`;
 
   try {
-    const response = await fetch(url);
+    const response = await fetch(url, { headers: adminAuthHeaders() });
 
     if (!response.ok) {
       throw new ApiError(
@@ -50,7 +52,7 @@ export async function apiPatch<T>(path: string, body: any): Promise<T> {
   try {
     const response = await fetch(url, {
       method: 'PATCH',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...adminAuthHeaders() },
       body: JSON.stringify(body),
     });
 
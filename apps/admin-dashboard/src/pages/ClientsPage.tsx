@@ -18,7 +18,11 @@ interface ClientUpdateResponse {
   client: Client;
 }
 
-function ClientsPage() {
+interface ClientsPageProps {
+  onSignOut: () => void;
+}
+
+function ClientsPage({ onSignOut }: ClientsPageProps) {
   const [clients, setClients] = useState<Client[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -33,7 +37,10 @@ function ClientsPage() {
         const data = await apiGet<ClientsResponse>('/clients');
         setClients(data.clients);
       } catch (err) {
-        if (err instanceof ApiError) {
+        // Expired, revoked or demoted: sign in again
+        if (err instanceof ApiError && err.statusCode === 401) {
+          onSignOut();
+        } else if (err instanceof ApiError) {
           setError(`Error ${err.statusCode}: ${err.message}`);
         } else {
           setError('Unknown error occurred');
@@ -44,7 +51,7 @@ function ClientsPage() {
     }
 
     fetchClients();
-  }, []);
+  }, [onSignOut]);
 
   async function handleMuteToggle(client: Client) {
     const newMutedState = !client.opsAlertsMuted;
@@ -180,7 +187,22 @@ function ClientsPage() {
 
   return (
     <div style={{ padding: '24px', fontFamily: 'system-ui, -apple-system, sans-serif' }}>
-      <h1 style={{ marginBottom: '24px' }}>Clients</h1>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '24px' }}>
+        <h1 style={{ margin: 0 }}>Clients</h1>
+        <button
+          onClick={onSignOut}
+          style={{
+            padding: '8px 16px',
+            background: 'none',
+            border: '1px solid #ddd',
+            borderRadius: '4px',
+            cursor: 'pointer',
+            fontSize: '14px'
+          }}
+        >
+          Sign out
+        </button>
+      </div>
 
       {loading && <p>Loading clients...</p>}
 
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { signIn } from '../api/auth';
+
+interface SignInPageProps {
+  onSignedIn: () => void;
+}
+
+function SignInPage({ onSignedIn }: SignInPageProps) {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      await signIn(email, password);
+      onSignedIn();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  const inputStyle = {
+    display: 'block',
+    width: '100%',
+    padding: '8px',
+    marginTop: '4px',
+    marginBottom: '16px',
+    border: '1px solid #ddd',
+    borderRadius: '4px',
+    boxSizing: 'border-box' as const
+  };
+
+  return (
+    <div style={{ padding: '24px', fontFamily: 'system-ui, -apple-system, sans-serif', maxWidth: '360px' }}>
+      <h1 style={{ marginBottom: '24px' }}>Admin sign-in</h1>
+
+      {error && (
+        <div style={{
+          padding: '16px',
+          background: '#fee',
+          border: '1px solid #c00',
+          borderRadius: '4px',
+          color: '#c00',
+          marginBottom: '16px'
+        }}>
+          <strong>Error:</strong> {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit}>
+        <label>
+          Email
+          <input type="email" required value={email} onChange={(e) => setEmail(e.target.value)} style={inputStyle} />
+        </label>
+        <label>
+          Password
+          <input type="password" required value={password} onChange={(e) => setPassword(e.target.value)} style={inputStyle} />
+        </label>
+        <button
+          type="submit"
+          disabled={submitting}
+          style={{
+            padding: '8px 16px',
+            background: '#007bff',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: submitting ? 'not-allowed' : 'pointer',
+            fontWeight: 'bold',
+            fontSize: '14px',
+            opacity: submitting ? 0.6 : 1
+          }}
+        >
+          {submitting ? 'Signing in...' : 'Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+export default SignInPage;
@@ -0,0 +1,39 @@
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- MESSAGE DELIVERY STATUS TRACKING
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+--
+-- Adds per-message Twilio delivery state so we can tell a customer whose
+-- reply never arrived apart from one who ignored us.
+--
+-- SAFETY GUARANTEES:
+-- - Additive only (nullable columns, no backfill required)
+-- - Idempotent (can be re-run safely)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+-- Step 1: Create MessageDeliveryStatus enum
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'MessageDeliveryStatus') THEN
+    CREATE TYPE "MessageDeliveryStatus" AS ENUM (
+      'QUEUED',
+      'SENT',
+      'DELIVERED',
+      'UNDELIVERED',
+      'FAILED',
+      'RECEIVED'
+    );
+    RAISE NOTICE 'Created enum: MessageDeliveryStatus';
+  ELSE
+    RAISE NOTICE 'Enum MessageDeliveryStatus already exists';
+  END IF;
+END $$;
+
+-- Step 2: Add delivery tracking columns to messages
+ALTER TABLE "messages" ADD COLUMN IF NOT EXISTS "delivery_status" "MessageDeliveryStatus";
+ALTER TABLE "messages" ADD COLUMN IF NOT EXISTS "delivery_error_code" TEXT;
+ALTER TABLE "messages" ADD COLUMN IF NOT EXISTS "delivery_updated_at" TIMESTAMP(3);
+ALTER TABLE "messages" ADD COLUMN IF NOT EXISTS "delivered_at" TIMESTAMP(3);
+ALTER TABLE "messages" ADD COLUMN IF NOT EXISTS "failed_at" TIMESTAMP(3);
+
+-- Step 3: Index for failure queries (timeline, metrics)
+CREATE INDEX IF NOT EXISTS "messages_delivery_status_idx" ON "messages"("delivery_status");
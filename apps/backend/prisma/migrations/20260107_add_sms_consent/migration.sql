@@ -0,0 +1,108 @@
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- SMS CONSENT (STOP / START / HELP COMPLIANCE)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+--
+-- 1. sms_consents: current opt-in/opt-out state per client + customer number
+-- 2. sms_consent_events: append-only audit trail of consent keywords
+--
+-- SAFETY GUARANTEES:
+-- - Additive only (new tables, no existing data touched)
+-- - Idempotent (can be re-run safely)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 1: CREATE ENUMS
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'SmsConsentStatus') THEN
+    CREATE TYPE "SmsConsentStatus" AS ENUM ('OPTED_IN', 'OPTED_OUT');
+    RAISE NOTICE 'Created enum: SmsConsentStatus';
+  ELSE
+    RAISE NOTICE 'Enum SmsConsentStatus already exists';
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'SmsConsentAction') THEN
+    CREATE TYPE "SmsConsentAction" AS ENUM ('OPT_OUT', 'OPT_IN', 'HELP');
+    RAISE NOTICE 'Created enum: SmsConsentAction';
+  ELSE
+    RAISE NOTICE 'Enum SmsConsentAction already exists';
+  END IF;
+END $$;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 2: CREATE SMS_CONSENTS TABLE
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables WHERE table_name = 'sms_consents'
+  ) THEN
+    CREATE TABLE "sms_consents" (
+      "id" TEXT NOT NULL,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      "client_id" TEXT NOT NULL,
+      "customer_id" TEXT,
+      "phone" TEXT NOT NULL,
+      "status" "SmsConsentStatus" NOT NULL DEFAULT 'OPTED_IN',
+      "last_keyword" TEXT,
+      "opted_out_at" TIMESTAMP(3),
+      "opted_in_at" TIMESTAMP(3),
+
+      CONSTRAINT "sms_consents_pkey" PRIMARY KEY ("id"),
+      CONSTRAINT "sms_consents_client_id_fkey" FOREIGN KEY ("client_id")
+        REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+      CONSTRAINT "sms_consents_customer_id_fkey" FOREIGN KEY ("customer_id")
+        REFERENCES "customers"("id") ON DELETE SET NULL ON UPDATE CASCADE
+    );
+
+    CREATE UNIQUE INDEX "sms_consents_client_id_phone_key" ON "sms_consents"("client_id", "phone");
+    CREATE INDEX "sms_consents_customer_id_idx" ON "sms_consents"("customer_id");
+    CREATE INDEX "sms_consents_status_idx" ON "sms_consents"("status");
+
+    RAISE NOTICE 'Created sms_consents table';
+  ELSE
+    RAISE NOTICE 'Table sms_consents already exists';
+  END IF;
+END $$;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 3: CREATE SMS_CONSENT_EVENTS TABLE (AUDIT TRAIL)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables WHERE table_name = 'sms_consent_events'
+  ) THEN
+    CREATE TABLE "sms_consent_events" (
+      "id" TEXT NOT NULL,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "client_id" TEXT NOT NULL,
+      "customer_id" TEXT,
+      "phone" TEXT NOT NULL,
+      "action" "SmsConsentAction" NOT NULL,
+      "keyword" TEXT NOT NULL,
+      "previous_status" "SmsConsentStatus",
+      "new_status" "SmsConsentStatus",
+      "message_sid" TEXT,
+      "source" TEXT NOT NULL DEFAULT 'SMS',
+
+      CONSTRAINT "sms_consent_events_pkey" PRIMARY KEY ("id")
+    );
+
+    CREATE INDEX "sms_consent_events_client_id_phone_idx" ON "sms_consent_events"("client_id", "phone");
+    CREATE INDEX "sms_consent_events_created_at_idx" ON "sms_consent_events"("created_at");
+    CREATE INDEX "sms_consent_events_action_idx" ON "sms_consent_events"("action");
+
+    RAISE NOTICE 'Created sms_consent_events table';
+  ELSE
+    RAISE NOTICE 'Table sms_consent_events already exists';
+  END IF;
+END $$;
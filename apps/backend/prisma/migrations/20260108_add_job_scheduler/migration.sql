@@ -0,0 +1,113 @@
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- JOB SCHEDULER (CRON JOBS + RUN HISTORY)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+--
+-- Replaces ad-hoc setInterval loops with a database-backed scheduler:
+-- 1. scheduled_jobs: one row per job (cron, pause flag, retry state, lock)
+-- 2. job_runs: run history (trigger, attempt, duration, error, result)
+--
+-- SAFETY GUARANTEES:
+-- - Additive only (new tables)
+-- - Idempotent (can be re-run safely)
+-- - Job rows are created by the application on startup, not here
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 1: CREATE ENUMS
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'JobRunStatus') THEN
+    CREATE TYPE "JobRunStatus" AS ENUM ('RUNNING', 'SUCCEEDED', 'FAILED');
+    RAISE NOTICE 'Created enum: JobRunStatus';
+  ELSE
+    RAISE NOTICE 'Enum JobRunStatus already exists';
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'JobRunTrigger') THEN
+    CREATE TYPE "JobRunTrigger" AS ENUM ('SCHEDULE', 'RETRY', 'MANUAL');
+    RAISE NOTICE 'Created enum: JobRunTrigger';
+  ELSE
+    RAISE NOTICE 'Enum JobRunTrigger already exists';
+  END IF;
+END $$;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 2: CREATE SCHEDULED_JOBS TABLE
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables WHERE table_name = 'scheduled_jobs'
+  ) THEN
+    CREATE TABLE "scheduled_jobs" (
+      "id" TEXT NOT NULL,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      "name" TEXT NOT NULL,
+      "description" TEXT,
+      "cron_expression" TEXT NOT NULL,
+      "paused" BOOLEAN NOT NULL DEFAULT false,
+      "max_retries" INTEGER NOT NULL DEFAULT 0,
+      "retry_delay_seconds" INTEGER NOT NULL DEFAULT 60,
+      "retry_attempt" INTEGER NOT NULL DEFAULT 0,
+      "next_run_at" TIMESTAMP(3),
+      "last_run_at" TIMESTAMP(3),
+      "last_status" "JobRunStatus",
+      "locked_by" TEXT,
+      "locked_until" TIMESTAMP(3),
+      "lock_timeout_seconds" INTEGER NOT NULL DEFAULT 900,
+
+      CONSTRAINT "scheduled_jobs_pkey" PRIMARY KEY ("id")
+    );
+
+    CREATE UNIQUE INDEX "scheduled_jobs_name_key" ON "scheduled_jobs"("name");
+    CREATE INDEX "scheduled_jobs_paused_next_run_at_idx" ON "scheduled_jobs"("paused", "next_run_at");
+
+    RAISE NOTICE 'Created scheduled_jobs table';
+  ELSE
+    RAISE NOTICE 'Table scheduled_jobs already exists';
+  END IF;
+END $$;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 3: CREATE JOB_RUNS TABLE
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables WHERE table_name = 'job_runs'
+  ) THEN
+    CREATE TABLE "job_runs" (
+      "id" TEXT NOT NULL,
+      "job_id" TEXT NOT NULL,
+      "job_name" TEXT NOT NULL,
+      "trigger" "JobRunTrigger" NOT NULL,
+      "status" "JobRunStatus" NOT NULL DEFAULT 'RUNNING',
+      "attempt" INTEGER NOT NULL DEFAULT 1,
+      "instance_id" TEXT NOT NULL,
+      "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "finished_at" TIMESTAMP(3),
+      "duration_ms" INTEGER,
+      "error" TEXT,
+      "result" JSONB,
+
+      CONSTRAINT "job_runs_pkey" PRIMARY KEY ("id"),
+      CONSTRAINT "job_runs_job_id_fkey" FOREIGN KEY ("job_id")
+        REFERENCES "scheduled_jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE
+    );
+
+    CREATE INDEX "job_runs_job_id_started_at_idx" ON "job_runs"("job_id", "started_at");
+    CREATE INDEX "job_runs_status_idx" ON "job_runs"("status");
+
+    RAISE NOTICE 'Created job_runs table';
+  ELSE
+    RAISE NOTICE 'Table job_runs already exists';
+  END IF;
+END $$;
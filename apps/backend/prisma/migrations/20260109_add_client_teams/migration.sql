@@ -0,0 +1,114 @@
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- CLIENT TEAMS (MEMBERSHIPS + INVITATIONS)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+--
+-- 1. client_memberships: per-client role for each dashboard user
+-- 2. client_invitations: email-token invitations (token stored hashed)
+-- 3. Backfill: every existing CLIENT user becomes OWNER of their client
+--
+-- SAFETY GUARANTEES:
+-- - Additive only (users table untouched)
+-- - Idempotent (can be re-run safely)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 1: CREATE ENUM
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'ClientMemberRole') THEN
+    CREATE TYPE "ClientMemberRole" AS ENUM ('OWNER', 'DISPATCHER', 'TECHNICIAN', 'READ_ONLY');
+    RAISE NOTICE 'Created enum: ClientMemberRole';
+  ELSE
+    RAISE NOTICE 'Enum ClientMemberRole already exists';
+  END IF;
+END $$;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 2: CREATE CLIENT_MEMBERSHIPS TABLE
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables WHERE table_name = 'client_memberships'
+  ) THEN
+    CREATE TABLE "client_memberships" (
+      "id" TEXT NOT NULL,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      "client_id" TEXT NOT NULL,
+      "user_id" TEXT NOT NULL,
+      "role" "ClientMemberRole" NOT NULL,
+      "invited_by_id" TEXT,
+
+      CONSTRAINT "client_memberships_pkey" PRIMARY KEY ("id"),
+      CONSTRAINT "client_memberships_client_id_fkey" FOREIGN KEY ("client_id")
+        REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+      CONSTRAINT "client_memberships_user_id_fkey" FOREIGN KEY ("user_id")
+        REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE
+    );
+
+    CREATE UNIQUE INDEX "client_memberships_client_id_user_id_key" ON "client_memberships"("client_id", "user_id");
+    CREATE INDEX "client_memberships_user_id_idx" ON "client_memberships"("user_id");
+
+    RAISE NOTICE 'Created client_memberships table';
+  ELSE
+    RAISE NOTICE 'Table client_memberships already exists';
+  END IF;
+END $$;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 3: CREATE CLIENT_INVITATIONS TABLE
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables WHERE table_name = 'client_invitations'
+  ) THEN
+    CREATE TABLE "client_invitations" (
+      "id" TEXT NOT NULL,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "client_id" TEXT NOT NULL,
+      "email" TEXT NOT NULL,
+      "role" "ClientMemberRole" NOT NULL,
+      "token_hash" TEXT NOT NULL,
+      "invited_by_id" TEXT,
+      "expires_at" TIMESTAMP(3) NOT NULL,
+      "accepted_at" TIMESTAMP(3),
+      "accepted_by_id" TEXT,
+      "revoked_at" TIMESTAMP(3),
+
+      CONSTRAINT "client_invitations_pkey" PRIMARY KEY ("id"),
+      CONSTRAINT "client_invitations_client_id_fkey" FOREIGN KEY ("client_id")
+        REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE
+    );
+
+    CREATE UNIQUE INDEX "client_invitations_token_hash_key" ON "client_invitations"("token_hash");
+    CREATE INDEX "client_invitations_client_id_email_idx" ON "client_invitations"("client_id", "email");
+
+    RAISE NOTICE 'Created client_invitations table';
+  ELSE
+    RAISE NOTICE 'Table client_invitations already exists';
+  END IF;
+END $$;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 4: BACKFILL OWNERS FROM EXISTING CLIENT USERS
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+DECLARE
+  backfilled INTEGER;
+BEGIN
+  INSERT INTO "client_memberships" ("id", "updated_at", "client_id", "user_id", "role")
+  SELECT 'cm_' || "id", CURRENT_TIMESTAMP, "clientId", "id", 'OWNER'
+  FROM "users"
+  WHERE "role" = 'CLIENT' AND "clientId" IS NOT NULL
+  ON CONFLICT ("client_id", "user_id") DO NOTHING;
+
+  GET DIAGNOSTICS backfilled = ROW_COUNT;
+  RAISE NOTICE 'Backfilled % owner memberships', backfilled;
+END $$;
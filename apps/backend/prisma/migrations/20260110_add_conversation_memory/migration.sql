@@ -0,0 +1,36 @@
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- CONVERSATION MEMORY
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+--
+-- 1. conversation_memory: one row per conversation holding the
+--    ConversationMemory state (declined slots, questions, loop counts,
+--    silenced flag) so it survives restarts and is shared across replicas
+--
+-- SAFETY GUARANTEES:
+-- - Additive only (no existing tables touched)
+-- - Idempotent (can be re-run safely)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables WHERE table_name = 'conversation_memory'
+  ) THEN
+    CREATE TABLE "conversation_memory" (
+      "conversation_id" TEXT NOT NULL,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      "state" JSONB NOT NULL,
+      "silenced" BOOLEAN NOT NULL DEFAULT false,
+      "last_interaction_at" TIMESTAMP(3) NOT NULL,
+
+      CONSTRAINT "conversation_memory_pkey" PRIMARY KEY ("conversation_id")
+    );
+
+    CREATE INDEX "conversation_memory_last_interaction_at_idx" ON "conversation_memory"("last_interaction_at");
+
+    RAISE NOTICE 'Created conversation_memory table';
+  ELSE
+    RAISE NOTICE 'Table conversation_memory already exists';
+  END IF;
+END $$;
@@ -0,0 +1,61 @@
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- RFC 5545 RECURRENCE
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+--
+-- 1. RecurrenceFrequency gains YEARLY
+-- 2. recurrence_rules: rrule string plus EXDATE/RDATE lists
+-- 3. recurrence_overrides: per-occurrence moves and cancellations
+--
+-- SAFETY GUARANTEES:
+-- - Additive only (existing rules keep working through the legacy fields)
+-- - Idempotent (can be re-run safely)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 1: EXTEND ENUM
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+ALTER TYPE "RecurrenceFrequency" ADD VALUE IF NOT EXISTS 'YEARLY';
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 2: RRULE COLUMNS
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+ALTER TABLE "recurrence_rules" ADD COLUMN IF NOT EXISTS "rrule" TEXT;
+ALTER TABLE "recurrence_rules" ADD COLUMN IF NOT EXISTS "exdates" TIMESTAMP(3)[] DEFAULT ARRAY[]::TIMESTAMP(3)[];
+ALTER TABLE "recurrence_rules" ADD COLUMN IF NOT EXISTS "rdates" TIMESTAMP(3)[] DEFAULT ARRAY[]::TIMESTAMP(3)[];
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 3: CREATE RECURRENCE_OVERRIDES TABLE
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables WHERE table_name = 'recurrence_overrides'
+  ) THEN
+    CREATE TABLE "recurrence_overrides" (
+      "id" TEXT NOT NULL,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      "recurrence_rule_id" TEXT NOT NULL,
+      "original_start" TIMESTAMP(3) NOT NULL,
+      "start" TIMESTAMP(3),
+      "end" TIMESTAMP(3),
+      "is_cancelled" BOOLEAN NOT NULL DEFAULT false,
+      "status" "BookingStatus",
+      "notes" TEXT,
+
+      CONSTRAINT "recurrence_overrides_pkey" PRIMARY KEY ("id"),
+      CONSTRAINT "recurrence_overrides_recurrence_rule_id_fkey" FOREIGN KEY ("recurrence_rule_id")
+        REFERENCES "recurrence_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE
+    );
+
+    CREATE UNIQUE INDEX "recurrence_overrides_recurrence_rule_id_original_start_key"
+      ON "recurrence_overrides"("recurrence_rule_id", "original_start");
+
+    RAISE NOTICE 'Created recurrence_overrides table';
+  ELSE
+    RAISE NOTICE 'Table recurrence_overrides already exists';
+  END IF;
+END $$;
@@ -0,0 +1,59 @@
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- ICALENDAR FEED & IMPORT
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+--
+-- 1. calendar_feeds: one hashed subscription token per client
+-- 2. blocked_times.externalSyncId: UID of the imported event
+-- 3. Lookup indexes for de-duplicating imports by UID
+--
+-- SAFETY GUARANTEES:
+-- - Additive only
+-- - Idempotent (can be re-run safely)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 1: CREATE CALENDAR_FEEDS TABLE
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables WHERE table_name = 'calendar_feeds'
+  ) THEN
+    CREATE TABLE "calendar_feeds" (
+      "id" TEXT NOT NULL,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      "client_id" TEXT NOT NULL,
+      "token_hash" TEXT NOT NULL,
+      "last_fetched_at" TIMESTAMP(3),
+
+      CONSTRAINT "calendar_feeds_pkey" PRIMARY KEY ("id"),
+      CONSTRAINT "calendar_feeds_client_id_fkey" FOREIGN KEY ("client_id")
+        REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE
+    );
+
+    CREATE UNIQUE INDEX "calendar_feeds_client_id_key" ON "calendar_feeds"("client_id");
+    CREATE UNIQUE INDEX "calendar_feeds_token_hash_key" ON "calendar_feeds"("token_hash");
+
+    RAISE NOTICE 'Created calendar_feeds table';
+  ELSE
+    RAISE NOTICE 'Table calendar_feeds already exists';
+  END IF;
+END $$;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 2: BLOCKED TIME SYNC ID
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+ALTER TABLE "blocked_times" ADD COLUMN IF NOT EXISTS "externalSyncId" VARCHAR;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 3: UID LOOKUP INDEXES
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+CREATE INDEX IF NOT EXISTS "bookings_clientId_externalSyncId_idx"
+  ON "bookings"("clientId", "externalSyncId");
+
+CREATE INDEX IF NOT EXISTS "blocked_times_clientId_externalSyncId_idx"
+  ON "blocked_times"("clientId", "externalSyncId");
@@ -0,0 +1,115 @@
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- CALDAV TWO-WAY SYNC
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+--
+-- 1. calendar_connections: a client's CalDAV collection and credentials
+-- 2. calendar_busy_times: busy intervals pulled from the collection
+-- 3. calendar_pushed_bookings: where each pushed booking lives remotely
+--
+-- SAFETY GUARANTEES:
+-- - Additive only
+-- - Idempotent (can be re-run safely)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 1: CREATE CALENDAR_CONNECTIONS TABLE
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables WHERE table_name = 'calendar_connections'
+  ) THEN
+    CREATE TABLE "calendar_connections" (
+      "id" TEXT NOT NULL,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      "client_id" TEXT NOT NULL,
+      "name" TEXT,
+      "collection_url" TEXT NOT NULL,
+      "username" TEXT NOT NULL,
+      "password_encrypted" TEXT NOT NULL,
+      "pull_enabled" BOOLEAN NOT NULL DEFAULT true,
+      "push_enabled" BOOLEAN NOT NULL DEFAULT true,
+      "last_synced_at" TIMESTAMP(3),
+      "last_error" TEXT,
+
+      CONSTRAINT "calendar_connections_pkey" PRIMARY KEY ("id"),
+      CONSTRAINT "calendar_connections_client_id_fkey" FOREIGN KEY ("client_id")
+        REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE
+    );
+
+    CREATE INDEX "calendar_connections_client_id_idx" ON "calendar_connections"("client_id");
+
+    RAISE NOTICE 'Created calendar_connections table';
+  ELSE
+    RAISE NOTICE 'Table calendar_connections already exists';
+  END IF;
+END $$;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 2: CREATE CALENDAR_BUSY_TIMES TABLE
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables WHERE table_name = 'calendar_busy_times'
+  ) THEN
+    CREATE TABLE "calendar_busy_times" (
+      "id" TEXT NOT NULL,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "connection_id" TEXT NOT NULL,
+      "client_id" TEXT NOT NULL,
+      "uid" TEXT NOT NULL,
+      "start" TIMESTAMP(3) NOT NULL,
+      "end" TIMESTAMP(3) NOT NULL,
+      "summary" TEXT,
+
+      CONSTRAINT "calendar_busy_times_pkey" PRIMARY KEY ("id"),
+      CONSTRAINT "calendar_busy_times_connection_id_fkey" FOREIGN KEY ("connection_id")
+        REFERENCES "calendar_connections"("id") ON DELETE CASCADE ON UPDATE CASCADE
+    );
+
+    CREATE UNIQUE INDEX "calendar_busy_times_connection_id_uid_start_key"
+      ON "calendar_busy_times"("connection_id", "uid", "start");
+    CREATE INDEX "calendar_busy_times_client_id_start_idx" ON "calendar_busy_times"("client_id", "start");
+
+    RAISE NOTICE 'Created calendar_busy_times table';
+  ELSE
+    RAISE NOTICE 'Table calendar_busy_times already exists';
+  END IF;
+END $$;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 3: CREATE CALENDAR_PUSHED_BOOKINGS TABLE
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables WHERE table_name = 'calendar_pushed_bookings'
+  ) THEN
+    CREATE TABLE "calendar_pushed_bookings" (
+      "id" TEXT NOT NULL,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      "connection_id" TEXT NOT NULL,
+      "booking_id" TEXT NOT NULL,
+      "href" TEXT NOT NULL,
+      "etag" TEXT,
+      "booking_version" TIMESTAMP(3) NOT NULL,
+
+      CONSTRAINT "calendar_pushed_bookings_pkey" PRIMARY KEY ("id"),
+      CONSTRAINT "calendar_pushed_bookings_connection_id_fkey" FOREIGN KEY ("connection_id")
+        REFERENCES "calendar_connections"("id") ON DELETE CASCADE ON UPDATE CASCADE
+    );
+
+    CREATE UNIQUE INDEX "calendar_pushed_bookings_connection_id_booking_id_key"
+      ON "calendar_pushed_bookings"("connection_id", "booking_id");
+
+    RAISE NOTICE 'Created calendar_pushed_bookings table';
+  ELSE
+    RAISE NOTICE 'Table calendar_pushed_bookings already exists';
+  END IF;
+END $$;
@@ -0,0 +1,107 @@
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- MULTI-RESOURCE SCHEDULING
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+--
+-- 1. resources: a client's technicians and vans, with skill tags
+-- 2. resourceId on weekly_availability, blocked_times and bookings
+--    (null keeps today's meaning: the whole business)
+--
+-- SAFETY GUARANTEES:
+-- - Additive only
+-- - Idempotent (can be re-run safely)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 1: CREATE ENUM
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'ResourceKind') THEN
+    CREATE TYPE "ResourceKind" AS ENUM ('STAFF', 'VEHICLE');
+    RAISE NOTICE 'Created enum: ResourceKind';
+  ELSE
+    RAISE NOTICE 'Enum ResourceKind already exists';
+  END IF;
+END $$;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 2: CREATE RESOURCES TABLE
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables WHERE table_name = 'resources'
+  ) THEN
+    CREATE TABLE "resources" (
+      "id" TEXT NOT NULL,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      "client_id" TEXT NOT NULL,
+      "name" TEXT NOT NULL,
+      "kind" "ResourceKind" NOT NULL DEFAULT 'STAFF',
+      "skills" TEXT[] DEFAULT ARRAY[]::TEXT[],
+      "active" BOOLEAN NOT NULL DEFAULT true,
+
+      CONSTRAINT "resources_pkey" PRIMARY KEY ("id"),
+      CONSTRAINT "resources_client_id_fkey" FOREIGN KEY ("client_id")
+        REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE
+    );
+
+    CREATE INDEX "resources_client_id_active_idx" ON "resources"("client_id", "active");
+
+    RAISE NOTICE 'Created resources table';
+  ELSE
+    RAISE NOTICE 'Table resources already exists';
+  END IF;
+END $$;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 3: RESOURCE COLUMNS
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+ALTER TABLE "weekly_availability" ADD COLUMN IF NOT EXISTS "resourceId" VARCHAR;
+ALTER TABLE "blocked_times" ADD COLUMN IF NOT EXISTS "resourceId" VARCHAR;
+ALTER TABLE "bookings" ADD COLUMN IF NOT EXISTS "resourceId" VARCHAR;
+
+CREATE INDEX IF NOT EXISTS "weekly_availability_clientId_resourceId_idx"
+  ON "weekly_availability"("clientId", "resourceId");
+
+CREATE INDEX IF NOT EXISTS "blocked_times_resourceId_idx"
+  ON "blocked_times"("resourceId");
+
+CREATE INDEX IF NOT EXISTS "bookings_resourceId_start_idx"
+  ON "bookings"("resourceId", "start");
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 4: FOREIGN KEYS
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- Hours and time off go with the resource; its bookings become unassigned
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'weekly_availability_resourceId_fkey'
+  ) THEN
+    ALTER TABLE "weekly_availability" ADD CONSTRAINT "weekly_availability_resourceId_fkey"
+      FOREIGN KEY ("resourceId") REFERENCES "resources"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'blocked_times_resourceId_fkey'
+  ) THEN
+    ALTER TABLE "blocked_times" ADD CONSTRAINT "blocked_times_resourceId_fkey"
+      FOREIGN KEY ("resourceId") REFERENCES "resources"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'bookings_resourceId_fkey'
+  ) THEN
+    ALTER TABLE "bookings" ADD CONSTRAINT "bookings_resourceId_fkey"
+      FOREIGN KEY ("resourceId") REFERENCES "resources"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+  END IF;
+END $$;
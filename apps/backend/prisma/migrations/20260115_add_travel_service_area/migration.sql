@@ -0,0 +1,38 @@
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- TRAVEL TIME & SERVICE AREA
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+--
+-- 1. bookings.location: job address, so slot finding can leave travel
+--    time between consecutive jobs
+-- 2. client_settings: base postcode, service radius, road factor and what
+--    to do with out-of-area leads
+--
+-- SAFETY GUARANTEES:
+-- - Additive only
+-- - Idempotent (can be re-run safely)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 1: CREATE ENUM
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'OutOfAreaAction') THEN
+    CREATE TYPE "OutOfAreaAction" AS ENUM ('FLAG', 'DECLINE');
+    RAISE NOTICE 'Created enum: OutOfAreaAction';
+  ELSE
+    RAISE NOTICE 'Enum OutOfAreaAction already exists';
+  END IF;
+END $$;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 2: COLUMNS
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+ALTER TABLE "bookings" ADD COLUMN IF NOT EXISTS "location" TEXT;
+
+ALTER TABLE "client_settings" ADD COLUMN IF NOT EXISTS "basePostcode" TEXT;
+ALTER TABLE "client_settings" ADD COLUMN IF NOT EXISTS "serviceRadiusMiles" DOUBLE PRECISION;
+ALTER TABLE "client_settings" ADD COLUMN IF NOT EXISTS "travelRoadFactor" DOUBLE PRECISION NOT NULL DEFAULT 1.3;
+ALTER TABLE "client_settings" ADD COLUMN IF NOT EXISTS "outOfAreaAction" "OutOfAreaAction" NOT NULL DEFAULT 'FLAG';
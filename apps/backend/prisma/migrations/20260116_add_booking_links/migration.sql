@@ -0,0 +1,64 @@
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- SELF-SERVICE BOOKING PAGE
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+--
+-- 1. booking_links: tokenised per-lead booking page links (token hash only)
+-- 2. LeadState BOOKED: the lead booked through their link
+-- 3. bookings: when the confirmation and reminder texts went out
+--
+-- SAFETY GUARANTEES:
+-- - Additive only
+-- - Idempotent (can be re-run safely)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 1: EXTEND ENUM
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+ALTER TYPE "LeadState" ADD VALUE IF NOT EXISTS 'BOOKED' BEFORE 'CLOSED';
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 2: CREATE BOOKING LINKS TABLE
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables WHERE table_name = 'booking_links'
+  ) THEN
+    CREATE TABLE "booking_links" (
+      "id" TEXT NOT NULL,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "client_id" TEXT NOT NULL,
+      "lead_id" TEXT NOT NULL,
+      "token_hash" TEXT NOT NULL,
+      "expires_at" TIMESTAMP(3) NOT NULL,
+      "used_at" TIMESTAMP(3),
+      "booking_id" TEXT,
+
+      CONSTRAINT "booking_links_pkey" PRIMARY KEY ("id"),
+      CONSTRAINT "booking_links_client_id_fkey" FOREIGN KEY ("client_id")
+        REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+      CONSTRAINT "booking_links_lead_id_fkey" FOREIGN KEY ("lead_id")
+        REFERENCES "leads"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+      CONSTRAINT "booking_links_booking_id_fkey" FOREIGN KEY ("booking_id")
+        REFERENCES "bookings"("id") ON DELETE SET NULL ON UPDATE CASCADE
+    );
+
+    CREATE UNIQUE INDEX "booking_links_token_hash_key" ON "booking_links"("token_hash");
+    CREATE UNIQUE INDEX "booking_links_booking_id_key" ON "booking_links"("booking_id");
+    CREATE INDEX "booking_links_client_id_idx" ON "booking_links"("client_id");
+    CREATE INDEX "booking_links_lead_id_idx" ON "booking_links"("lead_id");
+
+    RAISE NOTICE 'Created booking_links table';
+  ELSE
+    RAISE NOTICE 'Table booking_links already exists';
+  END IF;
+END $$;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 3: BOOKING MESSAGE COLUMNS
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+ALTER TABLE "bookings" ADD COLUMN IF NOT EXISTS "confirmationSentAt" TIMESTAMP(3);
+ALTER TABLE "bookings" ADD COLUMN IF NOT EXISTS "reminderSentAt" TIMESTAMP(3);
@@ -0,0 +1,17 @@
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- APPOINTMENT REMINDERS & CONFIRMATION
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+--
+-- 1. client_settings: reminder schedule (hours before the appointment) and
+--    how long after an unconfirmed booking ends it is marked MISSED
+-- 2. bookings.customerConfirmedAt: customer replied C to a reminder
+--
+-- SAFETY GUARANTEES:
+-- - Additive only
+-- - Idempotent (can be re-run safely)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+ALTER TABLE "client_settings" ADD COLUMN IF NOT EXISTS "reminderHoursBefore" INTEGER[] DEFAULT ARRAY[24, 2]::INTEGER[];
+ALTER TABLE "client_settings" ADD COLUMN IF NOT EXISTS "missedAfterMinutes" INTEGER NOT NULL DEFAULT 60;
+
+ALTER TABLE "bookings" ADD COLUMN IF NOT EXISTS "customerConfirmedAt" TIMESTAMP(3);
@@ -0,0 +1,76 @@
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- OUTBOUND MESSAGE QUEUE
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+--
+-- 1. OutboundMessageStatus enum
+-- 2. outbound_messages: persistent outbound SMS queue with quiet hours,
+--    scheduled sends, idempotency keys and dead-lettering
+--
+-- SAFETY GUARANTEES:
+-- - Additive only
+-- - Idempotent (can be re-run safely)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 1: ENUM
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'OutboundMessageStatus') THEN
+    CREATE TYPE "OutboundMessageStatus" AS ENUM ('QUEUED', 'SENDING', 'SENT', 'DEAD', 'CANCELLED');
+    RAISE NOTICE 'Created enum: OutboundMessageStatus';
+  ELSE
+    RAISE NOTICE 'Enum OutboundMessageStatus already exists';
+  END IF;
+END $$;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 2: CREATE OUTBOUND MESSAGES TABLE
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables WHERE table_name = 'outbound_messages'
+  ) THEN
+    CREATE TABLE "outbound_messages" (
+      "id" TEXT NOT NULL,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      "client_id" TEXT,
+      "customer_id" TEXT,
+      "conversation_id" TEXT,
+      "to_number" TEXT NOT NULL,
+      "from_number" TEXT NOT NULL,
+      "body" TEXT NOT NULL,
+      "source" TEXT NOT NULL,
+      "idempotency_key" TEXT,
+      "metadata" JSONB,
+      "status" "OutboundMessageStatus" NOT NULL DEFAULT 'QUEUED',
+      "respect_quiet_hours" BOOLEAN NOT NULL DEFAULT true,
+      "send_after" TIMESTAMP(3) NOT NULL,
+      "expires_at" TIMESTAMP(3),
+      "attempts" INTEGER NOT NULL DEFAULT 0,
+      "max_attempts" INTEGER NOT NULL DEFAULT 5,
+      "locked_until" TIMESTAMP(3),
+      "last_error" TEXT,
+      "last_error_code" TEXT,
+      "sent_at" TIMESTAMP(3),
+      "twilio_sid" TEXT,
+
+      CONSTRAINT "outbound_messages_pkey" PRIMARY KEY ("id"),
+      CONSTRAINT "outbound_messages_client_id_fkey" FOREIGN KEY ("client_id")
+        REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE
+    );
+
+    CREATE UNIQUE INDEX "outbound_messages_idempotency_key_key" ON "outbound_messages"("idempotency_key");
+    CREATE INDEX "outbound_messages_status_send_after_idx" ON "outbound_messages"("status", "send_after");
+    CREATE INDEX "outbound_messages_from_number_sent_at_idx" ON "outbound_messages"("from_number", "sent_at");
+    CREATE INDEX "outbound_messages_client_id_created_at_idx" ON "outbound_messages"("client_id", "created_at");
+
+    RAISE NOTICE 'Created outbound_messages table';
+  ELSE
+    RAISE NOTICE 'Table outbound_messages already exists';
+  END IF;
+END $$;
@@ -0,0 +1,73 @@
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- INBOUND WEBHOOK LEDGER
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+--
+-- 1. WebhookProvider and WebhookEventStatus enums
+-- 2. webhook_events: one row per inbound Twilio/Stripe event, keyed by
+--    provider id + event type, with the processing outcome for replays
+--    and re-drives
+--
+-- SAFETY GUARANTEES:
+-- - Additive only
+-- - Idempotent (can be re-run safely)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 1: ENUMS
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'WebhookProvider') THEN
+    CREATE TYPE "WebhookProvider" AS ENUM ('TWILIO', 'STRIPE');
+    RAISE NOTICE 'Created enum: WebhookProvider';
+  ELSE
+    RAISE NOTICE 'Enum WebhookProvider already exists';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'WebhookEventStatus') THEN
+    CREATE TYPE "WebhookEventStatus" AS ENUM ('PROCESSING', 'PROCESSED', 'FAILED');
+    RAISE NOTICE 'Created enum: WebhookEventStatus';
+  ELSE
+    RAISE NOTICE 'Enum WebhookEventStatus already exists';
+  END IF;
+END $$;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 2: CREATE WEBHOOK EVENTS TABLE
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables WHERE table_name = 'webhook_events'
+  ) THEN
+    CREATE TABLE "webhook_events" (
+      "id" TEXT NOT NULL,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      "provider" "WebhookProvider" NOT NULL,
+      "event_key" TEXT NOT NULL,
+      "event_type" TEXT NOT NULL,
+      "route" TEXT NOT NULL,
+      "client_id" TEXT,
+      "payload" JSONB NOT NULL,
+      "status" "WebhookEventStatus" NOT NULL DEFAULT 'PROCESSING',
+      "attempts" INTEGER NOT NULL DEFAULT 1,
+      "response_code" INTEGER,
+      "outcome" TEXT,
+      "last_error" TEXT,
+      "processed_at" TIMESTAMP(3),
+
+      CONSTRAINT "webhook_events_pkey" PRIMARY KEY ("id")
+    );
+
+    CREATE UNIQUE INDEX "webhook_events_provider_event_key_event_type_key"
+      ON "webhook_events"("provider", "event_key", "event_type");
+    CREATE INDEX "webhook_events_status_created_at_idx" ON "webhook_events"("status", "created_at");
+
+    RAISE NOTICE 'Created webhook_events table';
+  ELSE
+    RAISE NOTICE 'Table webhook_events already exists';
+  END IF;
+END $$;
@@ -0,0 +1,40 @@
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- ADMIN API KEYS
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+--
+-- 1. admin_api_keys: scoped, revocable keys for /api/admin (hash only)
+--
+-- SAFETY GUARANTEES:
+-- - Additive only
+-- - Idempotent (can be re-run safely)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables WHERE table_name = 'admin_api_keys'
+  ) THEN
+    CREATE TABLE "admin_api_keys" (
+      "id" TEXT NOT NULL,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "name" TEXT NOT NULL,
+      "key_prefix" TEXT NOT NULL,
+      "key_hash" TEXT NOT NULL,
+      "permissions" TEXT[],
+      "created_by" TEXT NOT NULL,
+      "expires_at" TIMESTAMP(3),
+      "last_used_at" TIMESTAMP(3),
+      "revoked_at" TIMESTAMP(3),
+      "revoked_by" TEXT,
+
+      CONSTRAINT "admin_api_keys_pkey" PRIMARY KEY ("id")
+    );
+
+    CREATE UNIQUE INDEX "admin_api_keys_key_hash_key" ON "admin_api_keys"("key_hash");
+    CREATE INDEX "admin_api_keys_revoked_at_idx" ON "admin_api_keys"("revoked_at");
+
+    RAISE NOTICE 'Created admin_api_keys table';
+  ELSE
+    RAISE NOTICE 'Table admin_api_keys already exists';
+  END IF;
+END $$;
@@ -0,0 +1,16 @@
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- AGENT TRIGGER MARKERS
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+--
+-- Sweeps that emit agent triggers mark what they have already emitted:
+-- 1. bookings.completedAt: job finished without being missed (JOB_COMPLETED)
+-- 2. conversations.noReplyTriggeredAt: last NO_REPLY_TIMEOUT for the thread
+--
+-- SAFETY GUARANTEES:
+-- - Additive only
+-- - Idempotent (can be re-run safely)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+ALTER TABLE "bookings" ADD COLUMN IF NOT EXISTS "completedAt" TIMESTAMP(3);
+
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "noReplyTriggeredAt" TIMESTAMP(3);
@@ -0,0 +1,103 @@
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- AGENT TASKS & REPORTS
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+--
+-- 1. TaskStatus enum
+-- 2. tasks: follow-ups raised by agents (CREATE_TASK), with an assignee
+--    and due date
+-- 3. agent_reports: reports produced by agents (GENERATE_REPORT)
+--
+-- SAFETY GUARANTEES:
+-- - Additive only
+-- - Idempotent (can be re-run safely)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 1: ENUMS
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'TaskStatus') THEN
+    CREATE TYPE "TaskStatus" AS ENUM ('OPEN', 'DONE', 'CANCELLED');
+    RAISE NOTICE 'Created enum: TaskStatus';
+  ELSE
+    RAISE NOTICE 'Enum TaskStatus already exists';
+  END IF;
+END $$;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 2: CREATE TASKS TABLE
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables WHERE table_name = 'tasks'
+  ) THEN
+    CREATE TABLE "tasks" (
+      "id" TEXT NOT NULL,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      "client_id" TEXT NOT NULL,
+      "title" TEXT NOT NULL,
+      "description" TEXT,
+      "status" "TaskStatus" NOT NULL DEFAULT 'OPEN',
+      "assignee_id" TEXT,
+      "due_at" TIMESTAMP(3),
+      "created_by" TEXT NOT NULL,
+      "customer_id" TEXT,
+      "conversation_id" TEXT,
+      "booking_id" TEXT,
+      "completed_at" TIMESTAMP(3),
+
+      CONSTRAINT "tasks_pkey" PRIMARY KEY ("id"),
+      CONSTRAINT "tasks_client_id_fkey" FOREIGN KEY ("client_id")
+        REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+      CONSTRAINT "tasks_assignee_id_fkey" FOREIGN KEY ("assignee_id")
+        REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE
+    );
+
+    CREATE INDEX "tasks_client_id_status_due_at_idx" ON "tasks"("client_id", "status", "due_at");
+    CREATE INDEX "tasks_assignee_id_idx" ON "tasks"("assignee_id");
+
+    RAISE NOTICE 'Created tasks table';
+  ELSE
+    RAISE NOTICE 'Table tasks already exists';
+  END IF;
+END $$;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 3: CREATE AGENT REPORTS TABLE
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables WHERE table_name = 'agent_reports'
+  ) THEN
+    CREATE TABLE "agent_reports" (
+      "id" TEXT NOT NULL,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "client_id" TEXT NOT NULL,
+      "agent_name" TEXT NOT NULL,
+      "report_type" TEXT NOT NULL,
+      "title" TEXT NOT NULL,
+      "summary" TEXT,
+      "data" JSONB NOT NULL,
+      "period_start" TIMESTAMP(3),
+      "period_end" TIMESTAMP(3),
+
+      CONSTRAINT "agent_reports_pkey" PRIMARY KEY ("id"),
+      CONSTRAINT "agent_reports_client_id_fkey" FOREIGN KEY ("client_id")
+        REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE
+    );
+
+    CREATE INDEX "agent_reports_client_id_report_type_created_at_idx"
+      ON "agent_reports"("client_id", "report_type", "created_at");
+
+    RAISE NOTICE 'Created agent_reports table';
+  ELSE
+    RAISE NOTICE 'Table agent_reports already exists';
+  END IF;
+END $$;
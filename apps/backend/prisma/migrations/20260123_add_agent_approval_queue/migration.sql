@@ -0,0 +1,83 @@
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- AGENT APPROVAL QUEUE
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+--
+-- 1. AgentProposalStatus enum
+-- 2. client_settings.actionPolicies: per action type auto | review | never
+-- 3. agent_proposals: agent outputs waiting for an owner to approve, edit
+--    or reject them (dashboard or SMS reply), expiring when stale
+--
+-- SAFETY GUARANTEES:
+-- - Additive only
+-- - Idempotent (can be re-run safely)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 1: ENUMS
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'AgentProposalStatus') THEN
+    CREATE TYPE "AgentProposalStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'EXPIRED', 'FAILED');
+    RAISE NOTICE 'Created enum: AgentProposalStatus';
+  ELSE
+    RAISE NOTICE 'Enum AgentProposalStatus already exists';
+  END IF;
+END $$;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 2: ACTION POLICIES
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+ALTER TABLE "client_settings" ADD COLUMN IF NOT EXISTS "actionPolicies" JSONB;
+
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- STEP 3: CREATE AGENT PROPOSALS TABLE
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.tables WHERE table_name = 'agent_proposals'
+  ) THEN
+    CREATE TABLE "agent_proposals" (
+      "id" TEXT NOT NULL,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      "client_id" TEXT NOT NULL,
+      "agent_name" TEXT NOT NULL,
+      "trigger" TEXT NOT NULL,
+      "customer_id" TEXT,
+      "conversation_id" TEXT,
+      "booking_id" TEXT,
+      "status" "AgentProposalStatus" NOT NULL DEFAULT 'PENDING',
+      "reason" TEXT NOT NULL,
+      "confidence" DOUBLE PRECISION NOT NULL,
+      "summary" TEXT NOT NULL,
+      "actions" JSONB NOT NULL,
+      "context" JSONB NOT NULL,
+      "reply_code" TEXT NOT NULL,
+      "expires_at" TIMESTAMP(3) NOT NULL,
+      "decided_at" TIMESTAMP(3),
+      "decided_by" TEXT,
+      "decided_via" TEXT,
+      "edited" BOOLEAN NOT NULL DEFAULT false,
+      "results" JSONB,
+      "error" TEXT,
+
+      CONSTRAINT "agent_proposals_pkey" PRIMARY KEY ("id"),
+      CONSTRAINT "agent_proposals_client_id_fkey" FOREIGN KEY ("client_id")
+        REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE
+    );
+
+    CREATE INDEX "agent_proposals_client_id_status_created_at_idx"
+      ON "agent_proposals"("client_id", "status", "created_at");
+    CREATE INDEX "agent_proposals_status_expires_at_idx"
+      ON "agent_proposals"("status", "expires_at");
+
+    RAISE NOTICE 'Created agent_proposals table';
+  ELSE
+    RAISE NOTICE 'Table agent_proposals already exists';
+  END IF;
+END $$;
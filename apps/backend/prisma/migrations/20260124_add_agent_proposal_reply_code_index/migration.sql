@@ -0,0 +1,32 @@
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+-- AGENT PROPOSAL REPLY CODES
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+--
+-- An owner approves by texting YES 1234, so a code may only belong to one
+-- of a client's PENDING proposals. Two proposals queued at once could both
+-- pick the same free code; this index makes the second insert fail (P2002)
+-- and ApprovalQueue picks again. Prisma can't declare partial indexes, so
+-- it lives here only.
+--
+-- Pending proposals already sharing a code are ambiguous by SMS: all but
+-- the newest are expired first (still visible on the dashboard).
+--
+-- SAFETY GUARANTEES:
+-- - Additive, apart from expiring duplicate codes
+-- - Idempotent (can be re-run safely)
+-- ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+UPDATE "agent_proposals" AS older
+SET "status" = 'EXPIRED', "decided_at" = NOW(), "updated_at" = NOW()
+WHERE older."status" = 'PENDING'
+  AND EXISTS (
+    SELECT 1 FROM "agent_proposals" AS newer
+    WHERE newer."client_id" = older."client_id"
+      AND newer."reply_code" = older."reply_code"
+      AND newer."status" = 'PENDING'
+      AND (newer."created_at", newer."id") > (older."created_at", older."id")
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS "agent_proposals_client_id_reply_code_pending_key"
+  ON "agent_proposals"("client_id", "reply_code")
+  WHERE "status" = 'PENDING';
@@ -0,0 +1,59 @@
+/**
+ * CREATE ADMIN USER
+ *
+ * Creates a login with role ADMIN (full /api/admin access). This is the only
+ * way to create one: POST /api/auth/register only creates CLIENT users.
+ *
+ * The password is read from ADMIN_PASSWORD so it stays out of shell history.
+ *
+ * Usage:
+ *   ADMIN_PASSWORD='...' npx ts-node scripts/create-admin-user.ts founder@jobrun.com
+ *
+ * Exit codes:
+ *   0 - Admin created
+ *   1 - Missing input, email already in use, or database error
+ */
+
+import bcrypt from "bcryptjs";
+import { prisma } from "../src/db";
+
+const MIN_PASSWORD_LENGTH = 12;
+
+async function main() {
+  const email = process.argv[2]?.trim().toLowerCase();
+  const password = process.env.ADMIN_PASSWORD;
+
+  try {
+    if (!email || !email.includes("@")) {
+      throw new Error("Usage: ADMIN_PASSWORD='...' npx ts-node scripts/create-admin-user.ts <email>");
+    }
+
+    if (!password || password.length < MIN_PASSWORD_LENGTH) {
+      throw new Error(`ADMIN_PASSWORD must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+
+    const existing = await prisma.user.findUnique({ where: { email } });
+
+    if (existing) {
+      throw new Error(`A user with email ${email} already exists (role ${existing.role})`);
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        email,
+        password: await bcrypt.hash(password, 10),
+        role: "ADMIN",
+      },
+    });
+
+    console.log(`✅ Admin created: ${user.email} (${user.id})`);
+    process.exit(0);
+  } catch (error) {
+    console.error("❌ Failed to create admin:", error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
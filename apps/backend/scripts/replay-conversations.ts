@@ -0,0 +1,69 @@
+/**
+ * REPLAY CONVERSATIONS
+ *
+ * Re-runs the AI against a client's real history and prints what changed
+ * (src/testing/ReplayHarness.ts). Nothing is written: no texts, leads,
+ * bookings, notifications or agent logs.
+ *
+ * USAGE:
+ *   npm run replay -- --client <clientId> --from 2026-01-01 --to 2026-02-01
+ *   npm run replay -- --client <clientId> --from 2026-01-01 --to 2026-02-01 --agent ChatAssistant
+ *
+ * OPTIONS:
+ *   --agent <name>   Replay that agent's logged runs instead of the SMS pipeline
+ *   --no-replies     Pipeline only: compare DIAL/RUNE decisions, skip LYRA
+ *   --limit <n>      Most cases to replay (default 200)
+ *   --json <path>    Also write the full report as JSON
+ *
+ * Set LLM_PROVIDER=fixture to replay against recorded LLM answers.
+ */
+
+import * as fs from 'fs';
+import { prisma } from '../src/db';
+import { formatReplayReport, runReplay } from '../src/testing/ReplayHarness';
+
+function option(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function parseDate(name: string): Date {
+  const value = option(name);
+  if (!value || Number.isNaN(Date.parse(value))) {
+    throw new Error(`--${name} must be a date, e.g. 2026-01-01`);
+  }
+  return new Date(value);
+}
+
+async function main() {
+  const clientId = option('client');
+  if (!clientId) {
+    throw new Error('--client is required');
+  }
+
+  const limit = option('limit');
+  const report = await runReplay({
+    clientId,
+    from: parseDate('from'),
+    to: parseDate('to'),
+    agent: option('agent'),
+    replies: !process.argv.includes('--no-replies'),
+    limit: limit ? Number(limit) : undefined,
+  });
+
+  console.log('');
+  console.log(formatReplayReport(report));
+
+  const jsonPath = option('json');
+  if (jsonPath) {
+    fs.writeFileSync(jsonPath, JSON.stringify(report, null, 2));
+    console.log(`\nFull report written to ${jsonPath}`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Replay failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
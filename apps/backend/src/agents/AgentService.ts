@@ -27,42 +27,128 @@ export class AgentService {
     message: string;
     customerPhone: string;
   }) {
+    const context = await this.buildContext({
+      clientId: params.clientId,
+      customerId: params.customerId,
+      conversationId: params.conversationId,
+      trigger: 'INBOUND_SMS',
+      message: params.message,
+      metadata: {
+        phone: params.customerPhone,
+      },
+    });
+
+    // Process through agent system
+    return await this.orchestrator.process(context);
+  }
+
+  /**
+   * Run a trigger emitted by a live path (agents/AgentTriggers.ts),
+   * restricted to the agents the client has enabled
+   */
+  async processTrigger(
+    params: {
+      clientId: string;
+      trigger: AgentTriggerType;
+      customerId?: string;
+      conversationId?: string;
+      bookingId?: string;
+      message?: string;
+      metadata?: Record<string, any>;
+    },
+    agents: string[]
+  ) {
+    const context = await this.buildContext(params);
+
+    return await this.orchestrator.process(context, { agents });
+  }
+
+  /**
+   * Agent names that respond to a trigger
+   */
+  getAgentsForTrigger(trigger: AgentTriggerType): string[] {
+    return this.orchestrator
+      .getRegistry()
+      .findAgentsByTrigger(trigger)
+      .map((agent) => agent.getName());
+  }
+
+  /**
+   * Re-run one agent on a past context without side effects. History and
+   * bookings are limited to what existed at `asOf`.
+   */
+  async dryRunAgent(
+    agentName: string,
+    params: {
+      clientId: string;
+      trigger: AgentTriggerType;
+      customerId?: string;
+      conversationId?: string;
+      bookingId?: string;
+      message?: string;
+      metadata?: Record<string, any>;
+    },
+    asOf: Date
+  ) {
+    const context = await this.buildContext(params, asOf);
+
+    return await this.orchestrator.dryRunAgent(agentName, context);
+  }
+
+  /**
+   * Load conversation history, client settings and customer data into a context
+   */
+  private async buildContext(params: {
+    clientId: string;
+    trigger: AgentTriggerType;
+    customerId?: string;
+    conversationId?: string;
+    bookingId?: string;
+    message?: string;
+    metadata?: Record<string, any>;
+  }, asOf?: Date): Promise<AgentContext> {
+    const asOfFilter = asOf ? { createdAt: { lte: asOf } } : {};
+
     // Fetch context data
     const [customer, conversation, clientSettings] = await Promise.all([
-      this.prisma.customer.findUnique({
-        where: { id: params.customerId },
-        include: {
-          bookings: {
-            orderBy: { createdAt: 'desc' },
-            take: 10,
-          },
-        },
-      }),
-      this.prisma.conversation.findUnique({
-        where: { id: params.conversationId },
-        include: {
-          messages: {
-            orderBy: { createdAt: 'asc' },
-            take: 50,
-          },
-        },
-      }),
+      params.customerId
+        ? this.prisma.customer.findUnique({
+            where: { id: params.customerId },
+            include: {
+              bookings: {
+                where: asOfFilter,
+                orderBy: { createdAt: 'desc' },
+                take: 10,
+              },
+            },
+          })
+        : null,
+      params.conversationId
+        ? this.prisma.conversation.findUnique({
+            where: { id: params.conversationId },
+            include: {
+              messages: {
+                where: asOfFilter,
+                orderBy: { createdAt: 'asc' },
+                take: 50,
+              },
+            },
+          })
+        : null,
       this.prisma.clientSettings.findUnique({
         where: { clientId: params.clientId },
       }),
     ]);
 
-    // Build agent context
-    const context: AgentContext = {
+    return {
       clientId: params.clientId,
       customerId: params.customerId,
       conversationId: params.conversationId,
-      trigger: 'INBOUND_SMS',
+      bookingId: params.bookingId,
+      trigger: params.trigger,
       input: {
         message: params.message,
-        metadata: {
-          phone: params.customerPhone,
-        },
+        metadata: params.metadata,
       },
       history: conversation?.messages.map((msg) => ({
         role: msg.direction === 'INBOUND' ? ('user' as const) : ('assistant' as const),
@@ -86,9 +172,6 @@ export class AgentService {
           }
         : undefined,
     };
-
-    // Process through agent system
-    return await this.orchestrator.process(context);
   }
 
   /**
@@ -113,6 +196,31 @@ export class AgentService {
     return await this.orchestrator.process(context);
   }
 
+  /**
+   * Customer asked to move a booking (replied R to a reminder)
+   */
+  async processRescheduleRequest(params: {
+    clientId: string;
+    customerId: string;
+    bookingId: string;
+    conversationId?: string;
+    message: string;
+  }) {
+    const context: AgentContext = {
+      clientId: params.clientId,
+      customerId: params.customerId,
+      conversationId: params.conversationId,
+      bookingId: params.bookingId,
+      trigger: 'INBOUND_SMS',
+      input: {
+        message: params.message,
+        metadata: { bookingReply: 'RESCHEDULE' },
+      },
+    };
+
+    return await this.orchestrator.processWithAgent('AutoReschedule', context);
+  }
+
   /**
    * Run daily briefing for a client
    */
@@ -139,6 +247,32 @@ export class AgentService {
     return await this.orchestrator.processWithAgent('Insights', context);
   }
 
+  /**
+   * Run daily payment reminders for a client
+   */
+  async runBillingNudges(clientId: string) {
+    const context: AgentContext = {
+      clientId,
+      trigger: 'DAILY_CRON',
+      input: {},
+    };
+
+    return await this.orchestrator.processWithAgent('BillingNudger', context);
+  }
+
+  /**
+   * Run monthly agents (revenue review) for a client
+   */
+  async runMonthlyReview(clientId: string) {
+    const context: AgentContext = {
+      clientId,
+      trigger: 'MONTHLY_CRON',
+      input: {},
+    };
+
+    return await this.orchestrator.process(context);
+  }
+
   /**
    * Process job completion (trigger review request)
    */
@@ -0,0 +1,188 @@
+/**
+ * AgentTriggers - domain events → Orchestrator
+ *
+ * Turns DomainEvents from the live paths into AgentTriggerType runs:
+ *   call.missed              → INBOUND_CALL
+ *   sms.received             → INBOUND_SMS
+ *   customer.created         → NEW_CUSTOMER
+ *   booking.conflict         → CALENDAR_CONFLICT
+ *   booking.completed        → JOB_COMPLETED
+ *   conversation.no_reply    → NO_REPLY_TIMEOUT
+ *   billing → DELINQUENT     → OVERDUE_PAYMENT
+ *
+ * RULES:
+ * - Agents are opt-in per client: ClientSettings.agentSettings[agentName]
+ *   must be { enabled: true }. The SMS pipeline already answers customers,
+ *   so nothing runs for a client who hasn't turned an agent on
+ * - Nothing runs while ClientControls.aiDisabled is set (agents are LLM-driven)
+ * - Runs happen off the emitting request; failures are logged only
+ */
+
+import { prisma } from '../db';
+import { DomainEvent, DomainEventType, onDomainEvent } from '../services/DomainEvents';
+import { AgentService } from './AgentService';
+import type { AgentTriggerType } from './base/types';
+import type { OrchestrationResult } from './engine/Orchestrator';
+
+export interface AgentTriggerRequest {
+  trigger: AgentTriggerType;
+  customerId?: string;
+  conversationId?: string;
+  bookingId?: string;
+  message?: string;
+  metadata?: Record<string, any>;
+}
+
+const TRIGGERING_EVENTS: DomainEventType[] = [
+  'call.missed',
+  'sms.received',
+  'customer.created',
+  'booking.conflict',
+  'booking.completed',
+  'conversation.no_reply',
+  'billing.status_changed',
+];
+
+let agentService: AgentService | null = null;
+let unsubscribers: (() => void)[] = [];
+
+function getAgentService(): AgentService {
+  if (!agentService) {
+    agentService = new AgentService(prisma);
+  }
+  return agentService;
+}
+
+/**
+ * The agent trigger for an event, or null if agents don't react to it
+ */
+export function toAgentTrigger(event: DomainEvent): AgentTriggerRequest | null {
+  switch (event.type) {
+    case 'call.missed':
+      return {
+        trigger: 'INBOUND_CALL',
+        customerId: event.customerId,
+        conversationId: event.conversationId,
+        metadata: { phone: event.from, callSid: event.callSid, missedCall: true },
+      };
+
+    case 'sms.received':
+      return {
+        trigger: 'INBOUND_SMS',
+        customerId: event.customerId,
+        conversationId: event.conversationId,
+        message: event.body,
+        metadata: { phone: event.from, messageId: event.messageId },
+      };
+
+    case 'customer.created':
+      return {
+        trigger: 'NEW_CUSTOMER',
+        customerId: event.customerId,
+        metadata: { phone: event.phone },
+      };
+
+    case 'booking.conflict':
+      return {
+        trigger: 'CALENDAR_CONFLICT',
+        bookingId: event.bookingId,
+        metadata: {
+          source: 'BOOKING',
+          requested: { start: event.start, end: event.end },
+          conflictingBookingIds: event.conflictingBookingIds,
+        },
+      };
+
+    case 'booking.completed':
+      return {
+        trigger: 'JOB_COMPLETED',
+        bookingId: event.bookingId,
+        customerId: event.customerId ?? undefined,
+      };
+
+    case 'conversation.no_reply':
+      return {
+        trigger: 'NO_REPLY_TIMEOUT',
+        conversationId: event.conversationId,
+        customerId: event.customerId ?? undefined,
+        metadata: { lastMessageAt: event.lastMessageAt },
+      };
+
+    case 'billing.status_changed':
+      if (event.toStatus !== 'DELINQUENT') return null;
+      return {
+        trigger: 'OVERDUE_PAYMENT',
+        metadata: { fromStatus: event.fromStatus, reason: event.reason },
+      };
+  }
+}
+
+/**
+ * Agents the client has turned on, or none while AI is disabled
+ */
+export async function getEnabledAgents(clientId: string): Promise<string[]> {
+  const [settings, controls] = await Promise.all([
+    prisma.clientSettings.findUnique({ where: { clientId }, select: { agentSettings: true } }),
+    prisma.clientControls.findUnique({ where: { clientId }, select: { aiDisabled: true } }),
+  ]);
+
+  if (controls?.aiDisabled) return [];
+
+  const agentSettings = settings?.agentSettings;
+  if (!agentSettings || typeof agentSettings !== 'object' || Array.isArray(agentSettings)) {
+    return [];
+  }
+
+  return Object.entries(agentSettings as Record<string, any>)
+    .filter(([, value]) => value?.enabled === true)
+    .map(([name]) => name);
+}
+
+/**
+ * Run the client's enabled agents for an event. Returns null when no
+ * agent was eligible to run.
+ */
+export async function dispatchAgentTrigger(event: DomainEvent): Promise<OrchestrationResult | null> {
+  const request = toAgentTrigger(event);
+  if (!request) return null;
+
+  const service = getAgentService();
+  const enabled = await getEnabledAgents(event.clientId);
+  const agents = service.getAgentsForTrigger(request.trigger).filter((name) => enabled.includes(name));
+
+  if (agents.length === 0) return null;
+
+  const result = await service.processTrigger({ clientId: event.clientId, ...request }, agents);
+
+  console.log('[AgentTriggers] Trigger processed', {
+    event: event.type,
+    trigger: request.trigger,
+    clientId: event.clientId,
+    candidates: agents,
+    agent: result.agentName ?? null,
+    success: result.success,
+    actionsExecuted: result.actionsExecuted ?? 0,
+    pendingApproval: result.pendingApproval ?? false,
+    error: result.error,
+  });
+
+  return result;
+}
+
+/**
+ * Subscribe the dispatcher to the domain event bus. Safe to call twice.
+ */
+export function registerAgentTriggers(): void {
+  if (unsubscribers.length > 0) return;
+
+  unsubscribers = TRIGGERING_EVENTS.map((type) =>
+    onDomainEvent(type, async (event) => {
+      await dispatchAgentTrigger(event);
+    })
+  );
+}
+
+export function unregisterAgentTriggers(): void {
+  unsubscribers.forEach((unsubscribe) => unsubscribe());
+  unsubscribers = [];
+}
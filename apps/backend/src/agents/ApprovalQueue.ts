@@ -0,0 +1,435 @@
+/**
+ * ApprovalQueue - agent actions waiting for a human decision
+ *
+ * The Orchestrator holds an agent's output here instead of running it when
+ * the agent's confidence is under its threshold, or when one of its actions
+ * is set to 'review' for the client (engine/ActionPolicies.ts). The owner
+ * is notified and approves (as proposed or edited) or rejects it from the
+ * dashboard, or by texting YES 1234 / NO 1234 back.
+ *
+ * RULES:
+ * - Proposals expire after 24 hours; stale suggestions are never run
+ * - Approval re-checks every payload and the client's policies, so an
+ *   edited proposal can't slip in an action the client never allows
+ * - A proposal is decided once: the claim out of PENDING is conditional,
+ *   so a double click or a Twilio retry can't run the actions twice
+ * - SMS decisions are only taken from the business's own phone number
+ * - Reply codes are unique among a client's pending proposals (partial
+ *   unique index); a code two proposals share anyway is refused by SMS
+ */
+
+import { randomInt } from 'crypto';
+import { AgentProposal, AgentProposalStatus, Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { NotificationService } from '../services/NotificationService';
+import { normalizeConsentPhone } from '../services/ConsentService';
+import { ActionExecutor } from './engine/ActionExecutor';
+import { parseActionPayload } from './engine/ActionPayloads';
+import { getActionPolicies, policyForActions } from './engine/ActionPolicies';
+import type { AgentAction, AgentContext, AgentOutput } from './base/types';
+
+export const PROPOSAL_TTL_HOURS = 24;
+
+export type ProposalReason = 'LOW_CONFIDENCE' | 'POLICY';
+
+export type DecisionChannel = 'dashboard' | 'sms';
+
+export type ProposalFailureReason = 'NOT_FOUND' | 'NOT_PENDING' | 'EXPIRED' | 'INVALID_ACTIONS' | 'ACTION_NOT_ALLOWED';
+
+export type ProposalDecisionResult =
+  | { success: true; proposal: AgentProposal }
+  | { success: false; reason: ProposalFailureReason; detail?: string };
+
+export type ApprovalReplyResult =
+  | { handled: false }
+  | { handled: true; decision: ApprovalDecision; proposalId: string | null; message: string };
+
+type ApprovalDecision = 'APPROVE' | 'REJECT';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Inserts tried before giving up on a free reply code
+const REPLY_CODE_ATTEMPTS = 5;
+
+const REPLY_PATTERN = /^(YES|Y|APPROVE|NO|N|REJECT)\s+(\d{4})$/;
+
+const APPROVE_KEYWORDS = ['YES', 'Y', 'APPROVE'];
+
+let executor: ActionExecutor | null = null;
+
+function getExecutor(): ActionExecutor {
+  if (!executor) {
+    executor = new ActionExecutor(prisma);
+  }
+  return executor;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  PROPOSING
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * A 4-digit code no other pending proposal of the client's is using
+ */
+async function allocateReplyCode(clientId: string): Promise<string> {
+  const pending = await prisma.agentProposal.findMany({
+    where: { clientId, status: 'PENDING' },
+    select: { replyCode: true },
+  });
+  const taken = new Set(pending.map((proposal) => proposal.replyCode));
+
+  let code: string;
+  do {
+    code = String(randomInt(1000, 10000));
+  } while (taken.has(code));
+
+  return code;
+}
+
+/**
+ * Insert a proposal with a free reply code. Proposals queued at the same
+ * moment can pick the same code; the loser's insert hits the partial unique
+ * index (P2002) and picks again.
+ */
+async function createWithReplyCode(
+  data: Omit<Prisma.AgentProposalUncheckedCreateInput, 'replyCode'>
+): Promise<AgentProposal> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.agentProposal.create({
+        data: { ...data, replyCode: await allocateReplyCode(data.clientId) },
+      });
+    } catch (error) {
+      const codeTaken = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+      if (!codeTaken || attempt >= REPLY_CODE_ATTEMPTS) throw error;
+    }
+  }
+}
+
+/**
+ * One line per action for the owner's text
+ */
+function describeActions(actions: AgentAction[]): string {
+  return actions
+    .map((action) => {
+      const message = typeof action.payload?.message === 'string' ? action.payload.message : null;
+      if (!message) return `- ${action.type}`;
+      return `- ${action.type}: "${message.length > 80 ? `${message.slice(0, 77)}...` : message}"`;
+    })
+    .join('\n');
+}
+
+/**
+ * The parts of a context the actions run against (no history or settings)
+ */
+function storedContext(context: AgentContext): Prisma.InputJsonObject {
+  return JSON.parse(
+    JSON.stringify({
+      clientId: context.clientId,
+      customerId: context.customerId,
+      conversationId: context.conversationId,
+      bookingId: context.bookingId,
+      trigger: context.trigger,
+      input: context.input,
+    })
+  );
+}
+
+/**
+ * Hold an agent's output for approval and let the owner know
+ */
+export async function proposeActions(params: {
+  agentName: string;
+  context: AgentContext;
+  output: AgentOutput;
+  reason: ProposalReason;
+  now?: Date;
+}): Promise<AgentProposal> {
+  const { agentName, context, output, reason } = params;
+  const now = params.now ?? new Date();
+
+  const proposal = await createWithReplyCode({
+    clientId: context.clientId,
+    agentName,
+    trigger: context.trigger,
+    customerId: context.customerId ?? null,
+    conversationId: context.conversationId ?? null,
+    bookingId: context.bookingId ?? null,
+    reason,
+    confidence: output.confidence,
+    summary: output.summary,
+    actions: output.actions as unknown as Prisma.InputJsonArray,
+    context: storedContext(context),
+    expiresAt: new Date(now.getTime() + PROPOSAL_TTL_HOURS * HOUR_MS),
+  });
+
+  console.log('[ApprovalQueue] Proposal queued', {
+    clientId: context.clientId,
+    proposalId: proposal.id,
+    agentName,
+    reason,
+    actions: output.actions.map((action) => action.type),
+  });
+
+  try {
+    const notified = await NotificationService.sendAgentNotification(context.clientId, {
+      agentName,
+      title: `${agentName} needs your approval`,
+      message:
+        `${output.summary}\n\n${describeActions(output.actions)}\n\n` +
+        `Reply YES ${proposal.replyCode} to approve or NO ${proposal.replyCode} to reject. ` +
+        `Expires in ${PROPOSAL_TTL_HOURS}h.`,
+      severity: 'WARNING',
+      type: 'approval_request',
+    });
+    if (notified.errors.length > 0) {
+      console.warn('[ApprovalQueue] Owner notification incomplete', { proposalId: proposal.id, errors: notified.errors });
+    }
+  } catch (error) {
+    // Still on the dashboard; the notification is a convenience
+    console.error('[ApprovalQueue] Owner notification failed', { proposalId: proposal.id, error });
+  }
+
+  return proposal;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  READING
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export function isProposalStatus(value: unknown): value is AgentProposalStatus {
+  return typeof value === 'string' && (Object.values(AgentProposalStatus) as string[]).includes(value);
+}
+
+export async function listProposals(
+  clientId: string,
+  filters: { status?: AgentProposalStatus; limit?: number } = {}
+): Promise<AgentProposal[]> {
+  return prisma.agentProposal.findMany({
+    where: { clientId, ...(filters.status && { status: filters.status }) },
+    orderBy: { createdAt: 'desc' },
+    take: filters.limit ?? 50,
+  });
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  DECIDING
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Finds a proposal that can still be decided; one found past its expiry is
+ * marked EXPIRED on the way
+ */
+async function findDecidable(
+  clientId: string,
+  proposalId: string,
+  now: Date
+): Promise<{ proposal: AgentProposal } | { reason: ProposalFailureReason }> {
+  const proposal = await prisma.agentProposal.findFirst({ where: { id: proposalId, clientId } });
+
+  if (!proposal) return { reason: 'NOT_FOUND' };
+  if (proposal.status !== 'PENDING') return { reason: 'NOT_PENDING' };
+
+  if (proposal.expiresAt <= now) {
+    await prisma.agentProposal.updateMany({
+      where: { id: proposal.id, status: 'PENDING' },
+      data: { status: 'EXPIRED', decidedAt: now },
+    });
+    return { reason: 'EXPIRED' };
+  }
+
+  return { proposal };
+}
+
+/**
+ * Run a pending proposal's actions - or the edited `actions` in their place.
+ * Marks it APPROVED, or FAILED when an action didn't go through (actions
+ * stop at the first failure, as they do when an agent runs them).
+ */
+export async function approveProposal(
+  clientId: string,
+  proposalId: string,
+  decision: { decidedBy: string; via: DecisionChannel; actions?: AgentAction[] },
+  now: Date = new Date()
+): Promise<ProposalDecisionResult> {
+  const found = await findDecidable(clientId, proposalId, now);
+  if (!('proposal' in found)) return { success: false, reason: found.reason };
+
+  const { proposal } = found;
+  const actions = decision.actions ?? (proposal.actions as unknown as AgentAction[]);
+
+  for (const action of actions) {
+    const parsed = parseActionPayload(action);
+    if (!parsed.success) {
+      return { success: false, reason: 'INVALID_ACTIONS', detail: parsed.error };
+    }
+  }
+
+  const policies = await getActionPolicies(clientId);
+  if (policyForActions(actions, policies) === 'never') {
+    return { success: false, reason: 'ACTION_NOT_ALLOWED' };
+  }
+
+  const claimed = await prisma.agentProposal.updateMany({
+    where: { id: proposal.id, status: 'PENDING' },
+    data: {
+      status: 'APPROVED',
+      decidedAt: now,
+      decidedBy: decision.decidedBy,
+      decidedVia: decision.via,
+      edited: decision.actions !== undefined,
+      actions: actions as unknown as Prisma.InputJsonArray,
+    },
+  });
+  if (claimed.count === 0) return { success: false, reason: 'NOT_PENDING' };
+
+  const context = proposal.context as unknown as AgentContext;
+  let results: Array<{ success: boolean; result?: any; error?: string }>;
+  try {
+    results = await getExecutor().executeActions(actions, context, proposal.agentName);
+  } catch (error) {
+    results = [{ success: false, error: error instanceof Error ? error.message : 'Unknown error' }];
+  }
+
+  const failure = results.find((result) => !result.success);
+  const updated = await prisma.agentProposal.update({
+    where: { id: proposal.id },
+    data: {
+      status: failure ? 'FAILED' : 'APPROVED',
+      results: JSON.parse(JSON.stringify(results)) as Prisma.InputJsonArray,
+      error: failure?.error ?? null,
+    },
+  });
+
+  console.log('[ApprovalQueue] Proposal approved', {
+    clientId,
+    proposalId: proposal.id,
+    via: decision.via,
+    edited: updated.edited,
+    status: updated.status,
+    error: updated.error,
+  });
+
+  return { success: true, proposal: updated };
+}
+
+export async function rejectProposal(
+  clientId: string,
+  proposalId: string,
+  decision: { decidedBy: string; via: DecisionChannel },
+  now: Date = new Date()
+): Promise<ProposalDecisionResult> {
+  const found = await findDecidable(clientId, proposalId, now);
+  if (!('proposal' in found)) return { success: false, reason: found.reason };
+
+  const claimed = await prisma.agentProposal.updateMany({
+    where: { id: proposalId, status: 'PENDING' },
+    data: { status: 'REJECTED', decidedAt: now, decidedBy: decision.decidedBy, decidedVia: decision.via },
+  });
+  if (claimed.count === 0) return { success: false, reason: 'NOT_PENDING' };
+
+  console.log('[ApprovalQueue] Proposal rejected', { clientId, proposalId, via: decision.via });
+
+  const proposal = await prisma.agentProposal.findUniqueOrThrow({ where: { id: proposalId } });
+  return { success: true, proposal };
+}
+
+/**
+ * Expire every pending proposal past its expiry (scheduled job)
+ */
+export async function expireProposals(now: Date = new Date()): Promise<{ expired: number }> {
+  const { count } = await prisma.agentProposal.updateMany({
+    where: { status: 'PENDING', expiresAt: { lte: now } },
+    data: { status: 'EXPIRED', decidedAt: now },
+  });
+
+  if (count > 0) {
+    console.log('[ApprovalQueue] Proposals expired', { count });
+  }
+
+  return { expired: count };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  SMS REPLIES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Detect "YES 1234" / "NO 1234". Whole-message matches only.
+ */
+export function parseApprovalReply(body: string | undefined): { decision: ApprovalDecision; code: string } | null {
+  if (!body) return null;
+
+  const match = body.trim().replace(/[.!]+$/, '').toUpperCase().match(REPLY_PATTERN);
+  if (!match) return null;
+
+  return { decision: APPROVE_KEYWORDS.includes(match[1]) ? 'APPROVE' : 'REJECT', code: match[2] };
+}
+
+const DECISION_FAILURE_MESSAGES: Record<ProposalFailureReason, string> = {
+  NOT_FOUND: 'No pending approval with that code.',
+  NOT_PENDING: 'That approval has already been decided.',
+  EXPIRED: 'That approval has expired.',
+  INVALID_ACTIONS: 'That approval can no longer be run. Check the dashboard.',
+  ACTION_NOT_ALLOWED: 'That approval includes an action your settings no longer allow.',
+};
+
+const AMBIGUOUS_CODE_MESSAGE = 'More than one approval uses that code. Decide it on the dashboard.';
+
+/**
+ * Applies a YES/NO code reply from the business's own phone. Not handled
+ * (so routing carries on as usual) for anyone else or any other text.
+ */
+export async function handleApprovalReply(params: {
+  clientId: string;
+  from: string;
+  body: string;
+}): Promise<ApprovalReplyResult> {
+  const reply = parseApprovalReply(params.body);
+  if (!reply) return { handled: false };
+
+  const client = await prisma.client.findUnique({
+    where: { id: params.clientId },
+    select: { phoneNumber: true },
+  });
+  if (!client?.phoneNumber || normalizeConsentPhone(client.phoneNumber) !== normalizeConsentPhone(params.from)) {
+    return { handled: false };
+  }
+
+  const matches = await prisma.agentProposal.findMany({
+    where: { clientId: params.clientId, replyCode: reply.code, status: 'PENDING' },
+    select: { id: true },
+    take: 2,
+  });
+  if (matches.length === 0) {
+    return { handled: true, decision: reply.decision, proposalId: null, message: DECISION_FAILURE_MESSAGES.NOT_FOUND };
+  }
+  // The index rules this out; never guess which one the owner meant
+  if (matches.length > 1) {
+    console.warn('[ApprovalQueue] Reply code matches more than one proposal', {
+      clientId: params.clientId,
+      replyCode: reply.code,
+    });
+    return { handled: true, decision: reply.decision, proposalId: null, message: AMBIGUOUS_CODE_MESSAGE };
+  }
+  const [proposal] = matches;
+
+  const decision = { decidedBy: normalizeConsentPhone(params.from), via: 'sms' as const };
+  const result =
+    reply.decision === 'APPROVE'
+      ? await approveProposal(params.clientId, proposal.id, decision)
+      : await rejectProposal(params.clientId, proposal.id, decision);
+
+  let message: string;
+  if (!result.success) {
+    message = DECISION_FAILURE_MESSAGES[result.reason];
+  } else if (result.proposal.status === 'REJECTED') {
+    message = `Rejected ${reply.code}. Nothing was done.`;
+  } else if (result.proposal.status === 'FAILED') {
+    message = `Approved ${reply.code}, but not every action went through. Check the dashboard.`;
+  } else {
+    message = `Approved ${reply.code}. Done.`;
+  }
+
+  return { handled: true, decision: reply.decision, proposalId: proposal.id, message };
+}
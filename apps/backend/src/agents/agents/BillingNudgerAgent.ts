@@ -11,7 +11,7 @@ export class BillingNudgerAgent extends BaseAgent {
     const config: AgentConfig = {
       name: 'BillingNudger',
       tier: 'ELITE',
-      triggers: ['OVERDUE_PAYMENT'],
+      triggers: ['OVERDUE_PAYMENT', 'DAILY_CRON'],
       priority: 75,
       enabled: true,
       confidenceThreshold: 0.8,
@@ -1,10 +1,20 @@
 /**
  * ActionExecutor - Executes structured actions from agents
+ *
+ * Every payload is parsed against its schema (ActionPayloads.ts) first;
+ * an action with a bad payload fails without touching anything.
  */
 
 import { PrismaClient } from '@prisma/client';
 import type { AgentAction, AgentContext } from '../base/types';
-import { addMessage } from '../../modules/conversation/service';
+import { ActionPayload, parseActionPayload } from './ActionPayloads';
+import { checkRecipientConsent } from '../../services/ConsentService';
+import { enqueueSms } from '../../services/OutboundQueue';
+import { NotificationService } from '../../services/NotificationService';
+import { SlotFinder } from '../../services/SlotFinder';
+import { createTask } from '../../services/TaskService';
+import { saveAgentReport } from '../../services/AgentReports';
+import { createDemoData } from '../../services/DemoDataService';
 
 export class ActionExecutor {
   private prisma: PrismaClient;
@@ -18,69 +28,72 @@ export class ActionExecutor {
    */
   async executeAction(
     action: AgentAction,
-    context: AgentContext
+    context: AgentContext,
+    agentName: string
   ): Promise<{ success: boolean; result?: any; error?: string }> {
+    const parsed = parseActionPayload(action);
+    if (!parsed.success) {
+      return { success: false, error: parsed.error };
+    }
+
+    const { action: typed } = parsed;
+
     try {
-      switch (action.type) {
+      switch (typed.type) {
         case 'SEND_MESSAGE':
-          return await this.executeSendMessage(action, context);
+          return await this.executeSendMessage(typed.payload, context);
 
         case 'CREATE_BOOKING':
-          return await this.executeCreateBooking(action, context);
+          return await this.executeCreateBooking(typed.payload, context);
 
         case 'UPDATE_BOOKING':
-          return await this.executeUpdateBooking(action, context);
+          return await this.executeUpdateBooking(typed.payload, context);
 
         case 'CANCEL_BOOKING':
-          return await this.executeCancelBooking(action, context);
+          return await this.executeCancelBooking(typed.payload, context);
 
         case 'SUGGEST_SLOTS':
-          return await this.executeSuggestSlots(action, context);
+          return await this.executeSuggestSlots(typed.payload, context);
 
         case 'ASK_FOR_DETAILS':
-          return await this.executeAskForDetails(action, context);
+          return await this.executeAskForDetails(typed.payload, context);
 
         case 'UPDATE_CUSTOMER':
-          return await this.executeUpdateCustomer(action, context);
+          return await this.executeUpdateCustomer(typed.payload, context);
 
         case 'CREATE_LEAD':
-          return await this.executeCreateLead(action, context);
+          return await this.executeCreateLead(typed.payload, context);
 
         case 'UPDATE_LEAD':
-          return await this.executeUpdateLead(action, context);
+          return await this.executeUpdateLead(typed.payload, context);
 
         case 'LOG_INSIGHT':
-          return await this.executeLogInsight(action, context);
+          return await this.executeLogInsight(typed.payload, context);
 
         case 'SEND_NOTIFICATION':
-          return await this.executeSendNotification(action, context);
+          return await this.executeSendNotification(typed.payload, context, agentName);
 
         case 'CREATE_TASK':
-          return await this.executeCreateTask(action, context);
+          return await this.executeCreateTask(typed.payload, context, agentName);
 
         case 'REQUEST_REVIEW':
-          return await this.executeRequestReview(action, context);
+          return await this.executeRequestReview(typed.payload, context);
 
         case 'SEND_PAYMENT_REMINDER':
-          return await this.executeSendPaymentReminder(action, context);
+          return await this.executeSendPaymentReminder(typed.payload, context);
 
         case 'GENERATE_REPORT':
-          return await this.executeGenerateReport(action, context);
+          return await this.executeGenerateReport(typed.payload, context, agentName);
 
         case 'UPDATE_SETTINGS':
-          return await this.executeUpdateSettings(action, context);
+          return await this.executeUpdateSettings(typed.payload, context);
 
         case 'CREATE_DEMO_DATA':
-          return await this.executeCreateDemoData(action, context);
+          return await this.executeCreateDemoData(typed.payload, context, agentName);
 
         case 'NO_ACTION':
           return { success: true, result: 'No action required' };
 
-        default:
-          return {
-            success: false,
-            error: `Unknown action type: ${action.type}`,
-          };
       }
     } catch (error) {
       return {
@@ -95,11 +108,12 @@ export class ActionExecutor {
    */
   async executeActions(
     actions: AgentAction[],
-    context: AgentContext
+    context: AgentContext,
+    agentName: string
   ): Promise<Array<{ success: boolean; result?: any; error?: string }>> {
     const results = [];
     for (const action of actions) {
-      const result = await this.executeAction(action, context);
+      const result = await this.executeAction(action, context, agentName);
       results.push(result);
       // Stop on first failure
       if (!result.success) {
@@ -111,8 +125,8 @@ export class ActionExecutor {
 
   // Action implementations
 
-  private async executeSendMessage(action: AgentAction, context: AgentContext) {
-    const { message, to } = action.payload;
+  private async executeSendMessage(payload: ActionPayload<'SEND_MESSAGE'>, context: AgentContext) {
+    const { message, idempotencyKey } = payload;
 
     if (!context.conversationId) {
       throw new Error('conversationId is required to send message');
@@ -122,21 +136,47 @@ export class ActionExecutor {
       throw new Error('customerId is required to send message');
     }
 
-    // Use conversation service to ensure foreign key constraints
-    const result = await addMessage({
-      conversationId: context.conversationId,
+    const [customer, client] = await Promise.all([
+      this.prisma.customer.findUnique({
+        where: { id: context.customerId },
+        select: { phone: true },
+      }),
+      this.prisma.client.findUnique({
+        where: { id: context.clientId },
+        select: { twilioNumber: true },
+      }),
+    ]);
+
+    if (!customer) {
+      throw new Error(`Customer ${context.customerId} does not exist`);
+    }
+
+    const consent = await checkRecipientConsent(context.clientId, customer.phone, 'agent');
+    if (!consent.allowed) {
+      return { success: false, error: consent.reason };
+    }
+
+    // Queued so proactive messages (follow-ups, review requests) wait for
+    // the client's quiet hours; replies to an inbound text go straight out.
+    // Recorded on the conversation once sent.
+    const result = await enqueueSms({
+      to: customer.phone,
+      from: client?.twilioNumber || process.env.TWILIO_NUMBER!,
+      body: message,
+      source: 'agent',
       clientId: context.clientId,
       customerId: context.customerId,
-      direction: 'OUTBOUND',
-      type: 'SMS',
-      body: message,
+      conversationId: context.conversationId,
+      idempotencyKey,
+      quietHours: context.trigger !== 'INBOUND_SMS',
+      metadata: { trigger: context.trigger },
     });
 
     return { success: true, result };
   }
 
-  private async executeCreateBooking(action: AgentAction, context: AgentContext) {
-    const { customerId, serviceType, startTime, endTime, notes } = action.payload;
+  private async executeCreateBooking(payload: ActionPayload<'CREATE_BOOKING'>, context: AgentContext) {
+    const { customerId, startTime, endTime, notes } = payload;
 
     const targetCustomerId = customerId || context.customerId;
 
@@ -157,8 +197,8 @@ export class ActionExecutor {
       data: {
         clientId: context.clientId,
         customerId: targetCustomerId,
-        start: new Date(startTime),
-        end: new Date(endTime),
+        start: startTime,
+        end: endTime,
         status: 'NEW',
         notes,
       },
@@ -167,8 +207,8 @@ export class ActionExecutor {
     return { success: true, result };
   }
 
-  private async executeUpdateBooking(action: AgentAction, context: AgentContext) {
-    const { bookingId, updates } = action.payload;
+  private async executeUpdateBooking(payload: ActionPayload<'UPDATE_BOOKING'>, context: AgentContext) {
+    const { bookingId, updates } = payload;
 
     const result = await this.prisma.booking.update({
       where: { id: bookingId || context.bookingId! },
@@ -178,8 +218,8 @@ export class ActionExecutor {
     return { success: true, result };
   }
 
-  private async executeCancelBooking(action: AgentAction, context: AgentContext) {
-    const { bookingId, reason } = action.payload;
+  private async executeCancelBooking(payload: ActionPayload<'CANCEL_BOOKING'>, context: AgentContext) {
+    const { bookingId, reason } = payload;
 
     const result = await this.prisma.booking.update({
       where: { id: bookingId || context.bookingId! },
@@ -192,25 +232,31 @@ export class ActionExecutor {
     return { success: true, result };
   }
 
-  private async executeSuggestSlots(action: AgentAction, context: AgentContext) {
-    // This returns data but doesn't persist - just formats available slots
-    const { slots } = action.payload;
-    return { success: true, result: { slots } };
+  private async executeSuggestSlots(payload: ActionPayload<'SUGGEST_SLOTS'>, context: AgentContext) {
+    // Read-only: the slots come back in the result for the agent's message
+    const { limit, ...request } = payload;
+
+    const slots = await SlotFinder.findAvailableSlots({ clientId: context.clientId, ...request });
+
+    return {
+      success: true,
+      result: {
+        slots: slots.slice(0, limit).map((slot) => ({
+          start: slot.start.toISOString(),
+          end: slot.end.toISOString(),
+          ...(slot.resourceId && { resourceId: slot.resourceId }),
+        })),
+      },
+    };
   }
 
-  private async executeAskForDetails(action: AgentAction, context: AgentContext) {
+  private async executeAskForDetails(payload: ActionPayload<'ASK_FOR_DETAILS'>, context: AgentContext) {
     // Send message asking for more information
-    return this.executeSendMessage(
-      {
-        type: 'SEND_MESSAGE',
-        payload: { message: action.payload.message },
-      },
-      context
-    );
+    return this.executeSendMessage({ message: payload.message }, context);
   }
 
-  private async executeUpdateCustomer(action: AgentAction, context: AgentContext) {
-    const { customerId, updates } = action.payload;
+  private async executeUpdateCustomer(payload: ActionPayload<'UPDATE_CUSTOMER'>, context: AgentContext) {
+    const { customerId, updates } = payload;
 
     const targetCustomerId = customerId || context.customerId;
 
@@ -226,8 +272,8 @@ export class ActionExecutor {
     return { success: true, result };
   }
 
-  private async executeCreateLead(action: AgentAction, context: AgentContext) {
-    const { phone, name, notes } = action.payload;
+  private async executeCreateLead(payload: ActionPayload<'CREATE_LEAD'>, context: AgentContext) {
+    const { phone, name, notes } = payload;
 
     // Create or find customer first (Lead requires customerId)
     const customer = await this.prisma.customer.upsert({
@@ -263,8 +309,8 @@ export class ActionExecutor {
     return { success: true, result };
   }
 
-  private async executeUpdateLead(action: AgentAction, context: AgentContext) {
-    const { leadId, updates } = action.payload;
+  private async executeUpdateLead(payload: ActionPayload<'UPDATE_LEAD'>, context: AgentContext) {
+    const { leadId, updates } = payload;
 
     const result = await this.prisma.lead.update({
       where: { id: leadId },
@@ -274,62 +320,75 @@ export class ActionExecutor {
     return { success: true, result };
   }
 
-  private async executeLogInsight(action: AgentAction, context: AgentContext) {
-    const { category, insight, data } = action.payload;
+  private async executeLogInsight(payload: ActionPayload<'LOG_INSIGHT'>, context: AgentContext) {
+    const { category, insight, data } = payload;
 
-    // Store in a generic insights table or log
+    // Kept in the agent log with the rest of the agent's output
     console.log(`[INSIGHT] ${category}: ${insight}`, data);
     return { success: true, result: { category, insight, data } };
   }
 
-  private async executeSendNotification(action: AgentAction, context: AgentContext) {
-    // Similar to send message but for admin notifications
-    const { message, type } = action.payload;
-    console.log(`[NOTIFICATION] ${type}: ${message}`);
-    return { success: true, result: { type, message } };
-  }
+  private async executeSendNotification(
+    payload: ActionPayload<'SEND_NOTIFICATION'>,
+    context: AgentContext,
+    agentName: string
+  ) {
+    // To the business owner, not the customer
+    const result = await NotificationService.sendAgentNotification(context.clientId, { agentName, ...payload });
 
-  private async executeCreateTask(action: AgentAction, context: AgentContext) {
-    const { title, description, dueDate } = action.payload;
+    if (!result.smsSent && !result.emailSent) {
+      return { success: false, error: result.errors.join('; ') || 'No notification channel available' };
+    }
 
-    // Could create a Task model or just log for now
-    console.log(`[TASK] ${title}: ${description}`, { dueDate });
-    return { success: true, result: { title, description, dueDate } };
+    return { success: true, result };
   }
 
-  private async executeRequestReview(action: AgentAction, context: AgentContext) {
-    const { message } = action.payload;
+  private async executeCreateTask(payload: ActionPayload<'CREATE_TASK'>, context: AgentContext, agentName: string) {
+    const result = await createTask(context.clientId, {
+      title: payload.title,
+      description: payload.description,
+      dueAt: payload.dueDate,
+      assigneeId: payload.assigneeId,
+      createdBy: agentName,
+      customerId: context.customerId,
+      conversationId: context.conversationId,
+      bookingId: context.bookingId,
+    });
 
-    return this.executeSendMessage(
-      {
-        type: 'SEND_MESSAGE',
-        payload: { message },
-      },
-      context
-    );
+    if (!result.success) {
+      return { success: false, error: `Task not created: ${result.reason}` };
+    }
+
+    return { success: true, result: result.task };
   }
 
-  private async executeSendPaymentReminder(action: AgentAction, context: AgentContext) {
-    const { message, amount } = action.payload;
+  private async executeRequestReview(payload: ActionPayload<'REQUEST_REVIEW'>, context: AgentContext) {
+    return this.executeSendMessage({ message: payload.message }, context);
+  }
 
-    return this.executeSendMessage(
-      {
-        type: 'SEND_MESSAGE',
-        payload: { message },
-      },
-      context
-    );
+  private async executeSendPaymentReminder(payload: ActionPayload<'SEND_PAYMENT_REMINDER'>, context: AgentContext) {
+    return this.executeSendMessage({ message: payload.message }, context);
   }
 
-  private async executeGenerateReport(action: AgentAction, context: AgentContext) {
-    const { reportType, data } = action.payload;
+  private async executeGenerateReport(
+    payload: ActionPayload<'GENERATE_REPORT'>,
+    context: AgentContext,
+    agentName: string
+  ) {
+    const { reportType, title, ...report } = payload;
+
+    const result = await saveAgentReport(context.clientId, {
+      agentName,
+      reportType,
+      title: title || reportType,
+      ...report,
+    });
 
-    console.log(`[REPORT] ${reportType}`, data);
-    return { success: true, result: { reportType, data } };
+    return { success: true, result: { reportId: result.id, reportType, title: result.title } };
   }
 
-  private async executeUpdateSettings(action: AgentAction, context: AgentContext) {
-    const { updates } = action.payload;
+  private async executeUpdateSettings(payload: ActionPayload<'UPDATE_SETTINGS'>, context: AgentContext) {
+    const { updates } = payload;
 
     const result = await this.prisma.clientSettings.update({
       where: { clientId: context.clientId },
@@ -339,11 +398,17 @@ export class ActionExecutor {
     return { success: true, result };
   }
 
-  private async executeCreateDemoData(action: AgentAction, context: AgentContext) {
-    const { dataType, count } = action.payload;
+  private async executeCreateDemoData(
+    payload: ActionPayload<'CREATE_DEMO_DATA'>,
+    context: AgentContext,
+    agentName: string
+  ) {
+    const result = await createDemoData(context.clientId, payload.dataType, payload.count);
+
+    if (!result.success) {
+      return { success: false, error: `Demo data not created: ${result.reason}` };
+    }
 
-    console.log(`[DEMO] Creating ${count} ${dataType} records`);
-    // Implementation depends on data type
-    return { success: true, result: { dataType, count } };
+    return { success: true, result: { dataType: payload.dataType, created: result.created } };
   }
 }
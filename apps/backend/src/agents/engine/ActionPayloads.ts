@@ -0,0 +1,204 @@
+/**
+ * ActionPayloads - typed payload for every agent action
+ *
+ * Payloads come out of an LLM, so ActionExecutor parses each one against
+ * its schema before running it. A payload that doesn't parse fails the
+ * action with the schema's message; unknown keys are dropped, so an agent
+ * can only write the fields listed here.
+ */
+
+import { z } from 'zod';
+import { BookingStatus, CustomerState, LeadState } from '@prisma/client';
+import type { AgentAction, AgentActionType } from '../base/types';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  FIELDS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const id = z.string().min(1);
+
+const text = z.string().trim().min(1);
+
+// ISO 8601, with or without an offset
+const dateTime = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), 'Invalid date')
+  .transform((value) => new Date(value));
+
+const atLeastOneField = <T extends z.ZodRawShape>(shape: T) =>
+  z.object(shape).refine((updates) => Object.values(updates).some((value) => value !== undefined), {
+    message: 'No supported fields to update',
+  });
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  SCHEMAS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const message = z.object({ message: text });
+
+export const NOTIFICATION_SEVERITIES = ['INFO', 'WARNING', 'CRITICAL'] as const;
+
+export const DEMO_DATA_TYPES = ['customers', 'conversations', 'bookings', 'all'] as const;
+
+export const ACTION_PAYLOAD_SCHEMAS = {
+  SEND_MESSAGE: z.object({
+    message: text,
+    idempotencyKey: z.string().optional(),
+  }),
+
+  CREATE_BOOKING: z
+    .object({
+      customerId: id.optional(),
+      serviceType: z.string().optional(),
+      startTime: dateTime,
+      endTime: dateTime,
+      notes: z.string().optional(),
+    })
+    .refine((booking) => booking.endTime > booking.startTime, {
+      message: 'endTime must be after startTime',
+      path: ['endTime'],
+    }),
+
+  UPDATE_BOOKING: z.object({
+    bookingId: id.optional(),
+    updates: atLeastOneField({
+      start: dateTime.optional(),
+      end: dateTime.optional(),
+      status: z.nativeEnum(BookingStatus).optional(),
+      notes: z.string().optional(),
+      location: z.string().optional(),
+    }),
+  }),
+
+  CANCEL_BOOKING: z.object({
+    bookingId: id.optional(),
+    reason: z.string().optional(),
+  }),
+
+  SUGGEST_SLOTS: z.object({
+    durationMinutes: z.number().int().min(15).max(12 * 60).default(60),
+    // Search from this day; today when omitted
+    preferredDate: dateTime.optional(),
+    searchDaysAhead: z.number().int().min(1).max(60).optional(),
+    requiredSkills: z.array(text).optional(),
+    location: z.string().optional(),
+    // Number of slots to offer
+    limit: z.number().int().min(1).max(10).default(3),
+  }),
+
+  ASK_FOR_DETAILS: message,
+
+  UPDATE_CUSTOMER: z.object({
+    customerId: id.optional(),
+    updates: atLeastOneField({
+      name: text.optional(),
+      email: z.string().email().optional(),
+      state: z.nativeEnum(CustomerState).optional(),
+    }),
+  }),
+
+  CREATE_LEAD: z.object({
+    phone: z.string().optional(),
+    name: z.string().optional(),
+    notes: z.string().optional(),
+  }),
+
+  UPDATE_LEAD: z.object({
+    leadId: id,
+    updates: atLeastOneField({
+      state: z.nativeEnum(LeadState).optional(),
+      jobType: z.string().optional(),
+      urgency: z.string().optional(),
+      location: z.string().optional(),
+      requestedTime: z.string().optional(),
+      notes: z.string().optional(),
+    }),
+  }),
+
+  LOG_INSIGHT: z.object({
+    category: text,
+    insight: text,
+    data: z.unknown().optional(),
+  }),
+
+  SEND_NOTIFICATION: z.object({
+    message: text,
+    title: text.max(120).optional(),
+    severity: z.enum(NOTIFICATION_SEVERITIES).default('INFO'),
+    // Free-form label, e.g. daily_briefing, conflict
+    type: z.string().optional(),
+  }),
+
+  CREATE_TASK: z.object({
+    title: text.max(200),
+    description: z.string().optional(),
+    dueDate: dateTime.optional(),
+    // User id of a member of the client's team
+    assigneeId: id.optional(),
+  }),
+
+  REQUEST_REVIEW: message,
+
+  SEND_PAYMENT_REMINDER: z.object({
+    message: text,
+    amount: z.number().nonnegative().optional(),
+  }),
+
+  GENERATE_REPORT: z.object({
+    reportType: text.max(60),
+    title: text.max(200).optional(),
+    summary: z.string().optional(),
+    data: z.record(z.unknown()).default({}),
+    periodStart: dateTime.optional(),
+    periodEnd: dateTime.optional(),
+  }),
+
+  // Pricing is deliberately missing: agents never change prices
+  UPDATE_SETTINGS: z.object({
+    updates: atLeastOneField({
+      businessName: text.optional(),
+      services: z.string().optional(),
+      availability: z.string().optional(),
+      website: z.string().optional(),
+      serviceArea: z.string().optional(),
+    }),
+  }),
+
+  CREATE_DEMO_DATA: z.object({
+    dataType: z.enum(DEMO_DATA_TYPES).default('all'),
+    count: z.number().int().min(1).max(25).default(5),
+  }),
+
+  NO_ACTION: z.object({}),
+} satisfies Record<AgentActionType, z.ZodTypeAny>;
+
+export type ActionPayload<T extends AgentActionType> = z.output<(typeof ACTION_PAYLOAD_SCHEMAS)[T]>;
+
+/**
+ * An action whose payload has been parsed; switching on `type` narrows
+ * `payload` to that action's shape
+ */
+export type ParsedAction = {
+  [T in AgentActionType]: { type: T; payload: ActionPayload<T> };
+}[AgentActionType];
+
+export type ParseActionResult = { success: true; action: ParsedAction } | { success: false; error: string };
+
+export function parseActionPayload(action: AgentAction): ParseActionResult {
+  const schema: z.ZodTypeAny | undefined = (ACTION_PAYLOAD_SCHEMAS as Record<string, z.ZodTypeAny>)[action.type];
+
+  if (!schema) {
+    return { success: false, error: `Unknown action type: ${action.type}` };
+  }
+
+  const parsed = schema.safeParse(action.payload ?? {});
+
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+      .join('; ');
+    return { success: false, error: `Invalid ${action.type} payload: ${issues}` };
+  }
+
+  return { success: true, action: { type: action.type, payload: parsed.data } as ParsedAction };
+}
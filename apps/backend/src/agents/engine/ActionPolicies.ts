@@ -0,0 +1,127 @@
+/**
+ * ActionPolicies - which agent actions run unattended
+ *
+ * Each action type has a policy per client:
+ *   auto   → runs as soon as the agent proposes it
+ *   review → held in the approval queue for an owner (agents/ApprovalQueue.ts)
+ *   never  → the agent's output is refused outright
+ *
+ * Anything that cancels work, changes settings or chases money is reviewed
+ * by default; clients override per type in ClientSettings.actionPolicies.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../db';
+import type { AgentAction, AgentActionType } from '../base/types';
+import { ACTION_PAYLOAD_SCHEMAS } from './ActionPayloads';
+
+export const ACTION_POLICIES = ['auto', 'review', 'never'] as const;
+
+export type ActionPolicy = (typeof ACTION_POLICIES)[number];
+
+export type ActionPolicies = Record<AgentActionType, ActionPolicy>;
+
+const ACTION_TYPES = Object.keys(ACTION_PAYLOAD_SCHEMAS) as AgentActionType[];
+
+export const DEFAULT_ACTION_POLICIES: Partial<Record<AgentActionType, ActionPolicy>> = {
+  CANCEL_BOOKING: 'review',
+  UPDATE_SETTINGS: 'review',
+  SEND_PAYMENT_REMINDER: 'review',
+};
+
+// Strictest wins when an output mixes policies
+const POLICY_RANK: Record<ActionPolicy, number> = { auto: 0, review: 1, never: 2 };
+
+export function isActionPolicy(value: unknown): value is ActionPolicy {
+  return typeof value === 'string' && (ACTION_POLICIES as readonly string[]).includes(value);
+}
+
+export function isActionType(value: unknown): value is AgentActionType {
+  return typeof value === 'string' && (ACTION_TYPES as string[]).includes(value);
+}
+
+/**
+ * Defaults with the client's stored overrides on top; unknown types and
+ * values are ignored
+ */
+export function resolveActionPolicies(stored: unknown): ActionPolicies {
+  const overrides =
+    stored && typeof stored === 'object' && !Array.isArray(stored) ? (stored as Record<string, unknown>) : {};
+
+  return Object.fromEntries(
+    ACTION_TYPES.map((type) => {
+      const override = overrides[type];
+      return [type, isActionPolicy(override) ? override : DEFAULT_ACTION_POLICIES[type] ?? 'auto'];
+    })
+  ) as ActionPolicies;
+}
+
+export async function getActionPolicies(clientId: string): Promise<ActionPolicies> {
+  const settings = await prisma.clientSettings.findUnique({
+    where: { clientId },
+    select: { actionPolicies: true },
+  });
+
+  return resolveActionPolicies(settings?.actionPolicies);
+}
+
+/**
+ * Picks the policies from a PUT body ({ CANCEL_BOOKING: 'auto', ... })
+ */
+export function parseActionPolicyUpdate(body: unknown): Partial<ActionPolicies> | string {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return 'Body must be an object of action type → policy';
+  }
+
+  const update: Partial<ActionPolicies> = {};
+  for (const [type, policy] of Object.entries(body)) {
+    if (!isActionType(type)) return `Unknown action type: ${type}`;
+    if (!isActionPolicy(policy)) return `${type} must be one of: ${ACTION_POLICIES.join(', ')}`;
+    update[type] = policy;
+  }
+
+  if (Object.keys(update).length === 0) {
+    return 'Nothing to update';
+  }
+
+  return update;
+}
+
+/**
+ * Store overrides on top of the client's existing ones; returns the full set
+ */
+export async function updateActionPolicies(
+  clientId: string,
+  update: Partial<ActionPolicies>
+): Promise<ActionPolicies> {
+  const settings = await prisma.clientSettings.findUnique({
+    where: { clientId },
+    select: { actionPolicies: true },
+  });
+
+  const current = settings?.actionPolicies;
+  const stored = {
+    ...(current && typeof current === 'object' && !Array.isArray(current) ? current : {}),
+    ...update,
+  } as Prisma.InputJsonObject;
+
+  await prisma.clientSettings.upsert({
+    where: { clientId },
+    create: { clientId, actionPolicies: stored },
+    update: { actionPolicies: stored },
+  });
+
+  console.log('[ActionPolicies] Policies updated', { clientId, update });
+
+  return resolveActionPolicies(stored);
+}
+
+/**
+ * The strictest policy among an output's actions
+ */
+export function policyForActions(actions: AgentAction[], policies: ActionPolicies): ActionPolicy {
+  return actions.reduce<ActionPolicy>((strictest, action) => {
+    const policy = policies[action.type] ?? 'auto';
+    return POLICY_RANK[policy] > POLICY_RANK[strictest] ? policy : strictest;
+  }, 'auto');
+}
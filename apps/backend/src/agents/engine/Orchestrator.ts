@@ -1,5 +1,10 @@
 /**
  * Orchestrator - Top-level agent orchestration and execution
+ *
+ * Before anything runs, an output is gated on the client's action policies
+ * (ActionPolicies.ts) and the agent's confidence threshold: 'never'
+ * actions are refused, while 'review' actions and low-confidence outputs
+ * are held in the approval queue (../ApprovalQueue.ts) for the owner.
  */
 
 import { PrismaClient } from '@prisma/client';
@@ -9,7 +14,10 @@ import { RateLimiter } from './RateLimiter';
 import { Safety } from './Safety';
 import { AgentLogger } from './Logger';
 import { ActionExecutor } from './ActionExecutor';
+import { ActionPolicies, getActionPolicies, policyForActions } from './ActionPolicies';
+import { ProposalReason, proposeActions } from '../ApprovalQueue';
 import type {
+  AgentConfig,
   AgentContext,
   AgentExecutionResult,
   AgentOutput,
@@ -20,10 +28,31 @@ export interface OrchestrationResult {
   agentName?: string;
   output?: AgentOutput;
   actionsExecuted?: number;
+  /** Output held in the approval queue instead of run */
+  pendingApproval?: boolean;
+  proposalId?: string;
   error?: string;
   executionTimeMs: number;
 }
 
+/** run it, refuse it, skip it (low confidence, nothing to hold) or hold it */
+export type OutputGate = 'run' | 'refuse' | 'skip' | ProposalReason;
+
+export interface DryRunResult {
+  success: boolean;
+  agentName: string;
+  output?: AgentOutput;
+  /** What the live path would do with the output */
+  gate?: OutputGate;
+  error?: string;
+  executionTimeMs: number;
+}
+
+export interface ProcessOptions {
+  /** Only these agents may run (a client's enabled agents) */
+  agents?: string[];
+}
+
 export class Orchestrator {
   private registry: AgentRegistry;
   private engine: AgentEngine;
@@ -53,12 +82,14 @@ export class Orchestrator {
   /**
    * Process incoming context and orchestrate agents
    */
-  async process(context: AgentContext): Promise<OrchestrationResult> {
+  async process(context: AgentContext, options: ProcessOptions = {}): Promise<OrchestrationResult> {
     const startTime = Date.now();
 
     try {
       // Find suitable agents
-      const candidates = this.registry.findAgentsForContext(context);
+      const candidates = this.registry
+        .findAgentsForContext(context)
+        .filter((agent) => !options.agents || options.agents.includes(agent.getName()));
 
       if (candidates.length === 0) {
         return {
@@ -68,6 +99,11 @@ export class Orchestrator {
         };
       }
 
+      const policies = await getActionPolicies(context.clientId);
+
+      // First low-confidence output; held only if no other agent is sure
+      let deferred: { agentName: string; output: AgentOutput } | null = null;
+
       // Try each candidate in priority order
       for (const agent of candidates) {
         const agentName = agent.getName();
@@ -117,26 +153,33 @@ export class Orchestrator {
           console.warn(`Agent ${agentName} warnings:`, safetyCheck.warnings);
         }
 
-        // Check confidence threshold
-        if (result.output.confidence < config.confidenceThreshold) {
+        // Check action policies and confidence threshold
+        const gate = this.gateOutput(result.output, config, policies);
+
+        if (gate === 'refuse') {
+          console.log(`Agent ${agentName} proposed an action this client never allows`);
+          continue; // Try next agent
+        }
+
+        if (gate === 'skip' || gate === 'LOW_CONFIDENCE') {
           console.log(
             `Agent ${agentName} confidence too low: ${result.output.confidence}`
           );
-          // Still execute if it's asking for clarification
-          if (
-            result.output.actions.length === 1 &&
-            result.output.actions[0].type === 'ASK_FOR_DETAILS'
-          ) {
-            // Allow this action
-          } else {
-            continue; // Try next agent
+          if (gate === 'LOW_CONFIDENCE' && !deferred) {
+            deferred = { agentName, output: result.output };
           }
+          continue; // Try next agent
+        }
+
+        if (gate === 'POLICY') {
+          return await this.holdForApproval(agentName, context, result.output, 'POLICY', startTime);
         }
 
         // Execute actions
         const actionResults = await this.actionExecutor.executeActions(
           result.output.actions,
-          context
+          context,
+          agentName
         );
 
         const successfulActions = actionResults.filter((r) => r.success).length;
@@ -160,6 +203,16 @@ export class Orchestrator {
         };
       }
 
+      if (deferred) {
+        return await this.holdForApproval(
+          deferred.agentName,
+          context,
+          deferred.output,
+          'LOW_CONFIDENCE',
+          startTime
+        );
+      }
+
       // No agent succeeded
       return {
         success: false,
@@ -205,9 +258,26 @@ export class Orchestrator {
       };
     }
 
+    const policies = await getActionPolicies(context.clientId);
+    const gate = this.gateOutput(result.output, agent.getConfig(), policies);
+
+    if (gate === 'refuse') {
+      return {
+        success: false,
+        agentName,
+        error: `Agent ${agentName} proposed an action this client never allows`,
+        executionTimeMs: Date.now() - startTime,
+      };
+    }
+
+    if (gate === 'POLICY' || gate === 'LOW_CONFIDENCE') {
+      return await this.holdForApproval(agentName, context, result.output, gate, startTime);
+    }
+
     const actionResults = await this.actionExecutor.executeActions(
       result.output.actions,
-      context
+      context,
+      agentName
     );
 
     const successfulActions = actionResults.filter((r) => r.success).length;
@@ -221,6 +291,89 @@ export class Orchestrator {
     };
   }
 
+  /**
+   * Run an agent without logging, rate limiting or executing anything
+   * (testing/ReplayHarness.ts)
+   */
+  async dryRunAgent(agentName: string, context: AgentContext): Promise<DryRunResult> {
+    const startTime = Date.now();
+
+    const agent = this.registry.getAgent(agentName);
+    if (!agent) {
+      return {
+        success: false,
+        agentName,
+        error: `Agent ${agentName} not found`,
+        executionTimeMs: Date.now() - startTime,
+      };
+    }
+
+    const result = await this.engine.executeAgent(agent, context);
+    if (!result.success || !result.output) {
+      return {
+        success: false,
+        agentName,
+        error: result.error,
+        executionTimeMs: Date.now() - startTime,
+      };
+    }
+
+    const policies = await getActionPolicies(context.clientId);
+
+    return {
+      success: true,
+      agentName,
+      output: result.output,
+      gate: this.gateOutput(result.output, agent.getConfig(), policies),
+      executionTimeMs: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Decide what happens to an output before any action runs
+   */
+  private gateOutput(output: AgentOutput, config: AgentConfig, policies: ActionPolicies): OutputGate {
+    const policy = policyForActions(output.actions, policies);
+    if (policy === 'never') return 'refuse';
+
+    // Asking for clarification still goes out at low confidence
+    const askingForDetails =
+      output.actions.length === 1 && output.actions[0].type === 'ASK_FOR_DETAILS';
+
+    if (output.confidence < config.confidenceThreshold && !askingForDetails) {
+      const actionable = output.actions.some((action) => action.type !== 'NO_ACTION');
+      return actionable ? 'LOW_CONFIDENCE' : 'skip';
+    }
+
+    return policy === 'review' ? 'POLICY' : 'run';
+  }
+
+  /**
+   * Queue an output for approval; counts as the agent's run for rate limits
+   */
+  private async holdForApproval(
+    agentName: string,
+    context: AgentContext,
+    output: AgentOutput,
+    reason: ProposalReason,
+    startTime: number
+  ): Promise<OrchestrationResult> {
+    const proposal = await proposeActions({ agentName, context, output, reason });
+
+    this.rateLimiter.recordExecution(agentName, context.clientId, context.customerId);
+    this.safety.markProcessed(context);
+
+    return {
+      success: true,
+      agentName,
+      output,
+      actionsExecuted: 0,
+      pendingApproval: true,
+      proposalId: proposal.id,
+      executionTimeMs: Date.now() - startTime,
+    };
+  }
+
   /**
    * Cleanup background tasks
    */
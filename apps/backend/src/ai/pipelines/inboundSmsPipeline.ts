@@ -4,7 +4,7 @@ import { runSentinelGuard, runOutboundSentinelGuard } from "../utils/sentinel";
 import { classifyIntent } from "../utils/dial";
 import { extractEntities } from "../utils/flow";
 import { decideAction, RuneInput } from "../../services/rune";
-import { generateReply } from "../utils/lyra";
+import { generateReply, getBookingUrl } from "../utils/lyra";
 import { logAiEvent } from "../utils/aiLogger";
 import { NotificationService } from "../../services/NotificationService";
 import {
@@ -15,7 +15,10 @@ import {
   markBookingSent,
   markClarificationAsked,
   markEscalated,
+  markOutOfArea,
 } from "../../services/vault";
+import { TravelTime } from "../../lib/geo/TravelTime";
+import { issueBookingLink } from "../../services/BookingLinkService";
 import {
   classifyIntentDeterministic,
   extractEntitiesDeterministic,
@@ -135,26 +138,22 @@ export async function handleInboundSms(
 
     console.log("5️⃣ RUNE: Deciding next action...");
 
-    // Build RUNE input
-    const hasBookingUrl = !!(
-      clientSettings?.metadata &&
-      typeof clientSettings.metadata === "object" &&
-      "bookingUrl" in clientSettings.metadata &&
-      clientSettings.metadata.bookingUrl
-    );
-
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
     // SYSTEMGATE: Can Send Booking Link?
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-    // Centralized guard check - replaces inline onboarding check
+    // Centralized guard check - replaces inline onboarding check.
+    // Every client has a booking URL: their own, or our hosted booking page
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-    const bookingGuard = canProcessBookingRequest(client, hasBookingUrl);
+    const bookingGuard = canProcessBookingRequest(client, true);
     const bookingLinkAllowed = bookingGuard.allowed;
 
-    if (hasBookingUrl && !bookingGuard.allowed) {
+    if (!bookingGuard.allowed) {
       console.warn(`[SystemGate] BOOKING_BLOCKED: ${bookingGuard.reason}`);
     }
 
+    // Service area: distance from the client's base, when both can be placed
+    const serviceArea = await TravelTime.checkServiceArea(client.id, entities.location || lead.location);
+
     const runeInput: RuneInput = {
       intent: intentResult.intent,
       certainty: intentResult.confidence,
@@ -169,12 +168,22 @@ export async function handleInboundSms(
       },
       config: {
         booking_link_enabled: bookingLinkAllowed,
+        ...(serviceArea && {
+          service_area: {
+            distance_miles: serviceArea.distanceMiles,
+            radius_miles: serviceArea.radiusMiles,
+            out_of_area: serviceArea.action,
+          },
+        }),
       },
     };
 
     const decision = decideAction(runeInput);
     console.log(`✅ RUNE: Action = ${decision.action}`);
     console.log(`   Reason: ${decision.reason}`);
+    if (decision.flags?.length) {
+      console.log(`   Flags: ${decision.flags.join(", ")}`);
+    }
 
     console.log("5️⃣b VAULT: Update lead with FLOW data...");
     lead = await updateLeadFromFlow({ lead, entities });
@@ -197,8 +206,22 @@ export async function handleInboundSms(
       lead = await markEscalated(lead.id);
     }
 
+    if (serviceArea && decision.flags?.includes("OUT_OF_AREA")) {
+      lead = await markOutOfArea(
+        lead,
+        `Outside service area: ${serviceArea.distanceMiles} mi from base (radius ${serviceArea.radiusMiles} mi)`
+      );
+    }
+
     console.log(`✅ VAULT: State = ${lead.state}, Flags = { sentBooking: ${lead.sentBooking}, askedClarify: ${lead.askedClarify}, escalated: ${lead.escalated} }`);
 
+    // Booking actions link to the client's own booking URL, or else to a
+    // hosted booking page issued for this lead
+    let bookingUrl = getBookingUrl(clientSettings);
+    if (!bookingUrl && (decision.action === "SEND_BOOKING_LINK" || decision.action === "SEND_BOOKING_AND_ALERT")) {
+      bookingUrl = (await issueBookingLink(lead)).url;
+    }
+
     // LYRA: Use AI or deterministic reply generation based on useAI flag
     console.log(`7️⃣ LYRA: Generating reply (${useAI ? 'AI' : 'DETERMINISTIC'})...`);
 
@@ -209,13 +232,12 @@ export async function handleInboundSms(
           entities,
           recentMessages: context.messages,
           businessName: client.businessName,
+          bookingUrl: bookingUrl || undefined,
         })
       : generateReplyDeterministic(
           decision.action as any,
           client.businessName,
-          clientSettings?.metadata && typeof clientSettings.metadata === 'object' && 'bookingUrl' in clientSettings.metadata
-            ? (clientSettings.metadata as any).bookingUrl
-            : undefined,
+          bookingUrl || undefined,
           entities as any
         );
 
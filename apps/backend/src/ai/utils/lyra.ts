@@ -24,6 +24,10 @@ export interface GenerateReplyParams {
   entities: ExtractedEntities;
   recentMessages: Message[];
   businessName?: string;
+  /** Link to send; defaults to the client's own booking URL */
+  bookingUrl?: string;
+  /** Replays (testing/ReplayHarness.ts): don't log parse failures */
+  dryRun?: boolean;
 }
 
 interface LyraInput {
@@ -46,7 +50,10 @@ interface LyraOutput {
   reply: string;
 }
 
-function getBookingUrl(clientSettings: ClientSettings | null): string | null {
+/**
+ * The client's own (external) booking URL, if they've set one
+ */
+export function getBookingUrl(clientSettings: ClientSettings | null): string | null {
   if (!clientSettings?.metadata || typeof clientSettings.metadata !== "object") {
     return null;
   }
@@ -151,7 +158,7 @@ Examples:
 "That sounds time-sensitive. Use this link to book immediately and we'll prioritise it: {booking_link}."
 
 ### 4. SEND_POLITE_DECLINE
-Used for spam, irrelevant messages, or services the client does not provide.
+Used for spam, irrelevant messages, services the client does not provide, or jobs outside the client's service area.
 Message style:
 - Polite.
 - Short.
@@ -253,7 +260,7 @@ export async function generateReply(
 ): Promise<string> {
   const { action, entities, recentMessages, clientSettings, businessName } = params;
 
-  const bookingUrl = getBookingUrl(clientSettings);
+  const bookingUrl = params.bookingUrl || getBookingUrl(clientSettings);
   const name = businessName || clientSettings?.businessName || "our business";
 
   // Build LYRA input
@@ -294,13 +301,15 @@ export async function generateReply(
     console.error("❌ LYRA JSON PARSE FAILED: Could not extract JSON");
     console.error("Raw LLM output:", response.content);
 
-    await logAiEvent({
-      clientId: clientSettings?.clientId || "unknown",
-      direction: "SYSTEM",
-      type: "EVENT",
-      content: "LYRA JSON parse failure: No valid JSON found",
-      metadata: { rawResponse: response.content, action },
-    }).catch(() => {});
+    if (!params.dryRun) {
+      await logAiEvent({
+        clientId: clientSettings?.clientId || "unknown",
+        direction: "SYSTEM",
+        type: "EVENT",
+        content: "LYRA JSON parse failure: No valid JSON found",
+        metadata: { rawResponse: response.content, action },
+      }).catch(() => {});
+    }
 
     return "__LYRA_PARSE_ERROR__";
   }
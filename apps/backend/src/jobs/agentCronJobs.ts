@@ -0,0 +1,205 @@
+/**
+ * AGENT CRON JOBS
+ *
+ * Fires the DAILY_CRON / WEEKLY_CRON / MONTHLY_CRON agent triggers for
+ * every live client, and sweeps for unanswered threads (NO_REPLY_TIMEOUT,
+ * dispatched through the domain event bus). Scheduled by jobs/definitions.ts.
+ *
+ * ELIGIBILITY:
+ * - Onboarding COMPLETE
+ * - Billing TRIAL_ACTIVE or ACTIVE
+ * - AI not disabled via ClientControls (agents are LLM-driven)
+ *
+ * A failure for one client never stops the sweep; per-client errors are
+ * returned in the run summary (JobRun.result) instead of failing the job,
+ * because retrying would re-run agents for clients that already succeeded.
+ */
+
+import { BillingStatus } from "@prisma/client";
+import { prisma } from "../db";
+import { AgentService } from "../agents/AgentService";
+import type { OrchestrationResult } from "../agents/engine/Orchestrator";
+import { emitDomainEvent } from "../services/DomainEvents";
+
+export interface AgentCronSummary {
+  clients: number;
+  succeeded: number;
+  failed: number;
+  errors: { clientId: string; agent: string; error: string }[];
+}
+
+type AgentRunner = (service: AgentService, clientId: string) => Promise<OrchestrationResult>;
+
+let agentService: AgentService | null = null;
+
+function getAgentService(): AgentService {
+  if (!agentService) {
+    agentService = new AgentService(prisma);
+  }
+  return agentService;
+}
+
+async function findAgentEligibleClients(): Promise<{ id: string; businessName: string }[]> {
+  const clients = await prisma.client.findMany({
+    where: {
+      onboardingState: { currentState: "COMPLETE" },
+      billing: {
+        status: { in: [BillingStatus.TRIAL_ACTIVE, BillingStatus.ACTIVE] },
+      },
+    },
+    select: {
+      id: true,
+      businessName: true,
+      controls: { select: { aiDisabled: true } },
+    },
+  });
+
+  return clients
+    .filter((client) => !client.controls?.aiDisabled)
+    .map(({ id, businessName }) => ({ id, businessName }));
+}
+
+async function runAgentsForAllClients(
+  label: string,
+  runners: Record<string, AgentRunner>
+): Promise<AgentCronSummary> {
+  const service = getAgentService();
+  const clients = await findAgentEligibleClients();
+
+  const summary: AgentCronSummary = {
+    clients: clients.length,
+    succeeded: 0,
+    failed: 0,
+    errors: [],
+  };
+
+  console.log(`🤖 [${label}] Running agents for ${clients.length} clients`);
+
+  for (const client of clients) {
+    for (const [agent, run] of Object.entries(runners)) {
+      try {
+        const result = await run(service, client.id);
+
+        if (result.success) {
+          summary.succeeded++;
+        } else {
+          summary.failed++;
+          summary.errors.push({ clientId: client.id, agent, error: result.error || "Unknown error" });
+        }
+      } catch (error) {
+        summary.failed++;
+        summary.errors.push({
+          clientId: client.id,
+          agent,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  console.log(`🤖 [${label}] Complete`, {
+    clients: summary.clients,
+    succeeded: summary.succeeded,
+    failed: summary.failed,
+  });
+
+  return summary;
+}
+
+/**
+ * DAILY_CRON: morning briefing + payment reminders
+ */
+export function runDailyAgentCron(): Promise<AgentCronSummary> {
+  return runAgentsForAllClients("DAILY_CRON", {
+    DailyBriefing: (service, clientId) => service.runDailyBriefing(clientId),
+    BillingNudger: (service, clientId) => service.runBillingNudges(clientId),
+  });
+}
+
+/**
+ * WEEKLY_CRON: weekly insights report
+ */
+export function runWeeklyAgentCron(): Promise<AgentCronSummary> {
+  return runAgentsForAllClients("WEEKLY_CRON", {
+    Insights: (service, clientId) => service.runWeeklyInsights(clientId),
+  });
+}
+
+/**
+ * MONTHLY_CRON: whichever agents subscribe to the monthly trigger
+ */
+export function runMonthlyAgentCron(): Promise<AgentCronSummary> {
+  return runAgentsForAllClients("MONTHLY_CRON", {
+    Monthly: (service, clientId) => service.runMonthlyReview(clientId),
+  });
+}
+
+// Our last text in a thread counts as unanswered after this long
+export const NO_REPLY_TIMEOUT_HOURS = 24;
+// Threads that went quiet longer ago than this are left alone
+const NO_REPLY_LOOKBACK_DAYS = 7;
+
+/**
+ * NO_REPLY_TIMEOUT: emit conversation.no_reply for customer threads whose
+ * last message is ours and has gone unanswered for NO_REPLY_TIMEOUT_HOURS.
+ * Each unanswered message triggers once (Conversation.noReplyTriggeredAt).
+ */
+export async function emitNoReplyTimeouts(now: Date = new Date()): Promise<{ emitted: number }> {
+  const cutoff = new Date(now.getTime() - NO_REPLY_TIMEOUT_HOURS * 60 * 60 * 1000);
+  const since = new Date(now.getTime() - NO_REPLY_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+  const threads = await prisma.message.findMany({
+    where: {
+      direction: "OUTBOUND",
+      createdAt: { gte: since, lte: cutoff },
+      conversation: { mode: "OPERATIONAL" },
+    },
+    distinct: ["conversationId"],
+    select: { conversationId: true },
+  });
+
+  let emitted = 0;
+
+  for (const { conversationId } of threads) {
+    if (!conversationId) continue;
+
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: conversationId },
+      select: {
+        clientId: true,
+        customerId: true,
+        noReplyTriggeredAt: true,
+        messages: { orderBy: { createdAt: "desc" }, take: 1, select: { direction: true, createdAt: true } },
+      },
+    });
+
+    const last = conversation?.messages[0];
+    if (!conversation || !last || last.direction !== "OUTBOUND" || last.createdAt > cutoff) continue;
+    if (conversation.noReplyTriggeredAt && conversation.noReplyTriggeredAt >= last.createdAt) continue;
+
+    // Conditional, so an overlapping sweep can't emit twice
+    const { count } = await prisma.conversation.updateMany({
+      where: {
+        id: conversationId,
+        OR: [{ noReplyTriggeredAt: null }, { noReplyTriggeredAt: { lt: last.createdAt } }],
+      },
+      data: { noReplyTriggeredAt: now },
+    });
+    if (count === 0) continue;
+
+    emitted++;
+    emitDomainEvent({
+      type: "conversation.no_reply",
+      clientId: conversation.clientId,
+      conversationId,
+      customerId: conversation.customerId,
+      lastMessageAt: last.createdAt,
+    });
+  }
+
+  if (emitted > 0) {
+    console.log("🤖 [NO_REPLY_TIMEOUT] Unanswered threads found", { emitted });
+  }
+
+  return { emitted };
+}
@@ -0,0 +1,196 @@
+/**
+ * Cron Expression Parser
+ *
+ * Minimal 5-field cron (minute hour day-of-month month day-of-week),
+ * evaluated in UTC. Supports "*", lists (1,15), ranges (1-5), steps
+ * (*\/15, 0-30/10), month/day names (JAN, MON) and the @hourly, @daily,
+ * @weekly, @monthly, @yearly shorthands.
+ *
+ * Day-of-month and day-of-week follow classic cron semantics: if both are
+ * restricted (neither starts with "*"), a day matches when EITHER matches.
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const SHORTHANDS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  nameOffset?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { name: 'day-of-week', min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 },
+];
+
+// Upper bound on search steps - enough for any valid expression within ~5 years
+const MAX_SEARCH_STEPS = 100_000;
+
+/**
+ * Parse a cron expression. Throws on invalid input.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const normalized = SHORTHANDS[trimmed.toLowerCase()] ?? trimmed;
+  const parts = normalized.split(/\s+/);
+
+  if (parts.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${parts.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) =>
+    parseField(part, FIELDS[i], expression)
+  );
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression: trimmed,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: !parts[2].startsWith('*'),
+    dayOfWeekRestricted: !parts[4].startsWith('*'),
+  };
+}
+
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Next time (UTC, whole minute) strictly after `after` that matches the schedule
+ */
+export function nextCronRun(schedule: CronSchedule | string, after: Date = new Date()): Date {
+  const cron = typeof schedule === 'string' ? parseCronExpression(schedule) : schedule;
+
+  const candidate = new Date(after.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    if (!cron.months.has(candidate.getUTCMonth() + 1)) {
+      candidate.setUTCMonth(candidate.getUTCMonth() + 1, 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!matchesDay(cron, candidate)) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!cron.hours.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (!cron.minutes.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    return candidate;
+  }
+
+  throw new Error(`Cron expression "${cron.expression}" has no matching time`);
+}
+
+function matchesDay(cron: CronSchedule, date: Date): boolean {
+  const domMatch = cron.daysOfMonth.has(date.getUTCDate());
+  const dowMatch = cron.daysOfWeek.has(date.getUTCDay());
+
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+function parseField(field: string, spec: FieldSpec, expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const item of field.split(',')) {
+    const [rangePart, stepPart] = item.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron expression "${expression}": bad step "${item}" in ${spec.name}`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (rangePart === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from, spec, expression);
+      end = parseValue(to, spec, expression);
+    } else {
+      start = parseValue(rangePart, spec, expression);
+      // "5/15" means "from 5 to max every 15"
+      end = stepPart === undefined ? start : spec.max;
+    }
+
+    if (start > end) {
+      throw new Error(`Invalid cron expression "${expression}": empty range "${item}" in ${spec.name}`);
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+
+  return values;
+}
+
+function parseValue(raw: string, spec: FieldSpec, expression: string): number {
+  const upper = raw.toUpperCase();
+  const nameIndex = spec.names ? spec.names.indexOf(upper) : -1;
+  const value = nameIndex >= 0 ? nameIndex + (spec.nameOffset ?? 0) : Number(raw);
+
+  if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+    throw new Error(`Invalid cron expression "${expression}": "${raw}" out of range for ${spec.name}`);
+  }
+
+  return value;
+}
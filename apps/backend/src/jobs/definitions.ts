@@ -0,0 +1,175 @@
+/**
+ * SCHEDULED JOB DEFINITIONS
+ *
+ * Single list of every background job the scheduler runs.
+ * Cron expressions are UTC. Schedules changed here take effect on the next
+ * deploy; pause/resume is controlled at runtime via /api/admin/jobs.
+ */
+
+import { registerJob } from "./scheduler";
+import { runTrialExpirationSweep, runDelinquencySweep } from "./trialExpirationJob";
+import { runDailyAgentCron, runWeeklyAgentCron, runMonthlyAgentCron, emitNoReplyTimeouts } from "./agentCronJobs";
+import { StuckClientDetector } from "../services/StuckClientDetector";
+import { runInvariantCheck } from "../services/RuntimeMonitor";
+import { ConversationMemory } from "../services/ConversationMemory";
+import { syncAllConnections } from "../services/CalDavSyncService";
+import { sendDueReminders, markMissedBookings, markCompletedBookings } from "../services/BookingReminderService";
+import { dispatchDueMessages } from "../services/OutboundQueue";
+import { pruneWebhookEvents } from "../services/WebhookLedger";
+import { expireProposals } from "../agents/ApprovalQueue";
+
+export function registerDefaultJobs(): void {
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // BILLING
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  registerJob({
+    name: "trial-expiration-sweep",
+    description: "Expire TRIAL_ACTIVE clients whose trial has ended",
+    cron: "0 * * * *",
+    handler: runTrialExpirationSweep,
+    maxRetries: 3,
+    retryDelaySeconds: 300,
+  });
+
+  registerJob({
+    name: "delinquency-sweep",
+    description: "Cancel DELINQUENT clients past the grace period (Phase 4 - not implemented yet)",
+    cron: "30 * * * *",
+    handler: runDelinquencySweep,
+    // Handler throws until Phase 4 lands; resume via admin once implemented
+    startPaused: true,
+  });
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // OPERATIONS MONITORING
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  registerJob({
+    name: "conversation-memory-cleanup",
+    description: "Delete conversation memory idle for more than 24 hours",
+    cron: "0 * * * *",
+    handler: async () => {
+      const purged = await ConversationMemory.purgeExpired();
+      return { purged };
+    },
+    maxRetries: 1,
+  });
+
+  registerJob({
+    name: "webhook-ledger-prune",
+    description: "Delete processed webhook ledger entries older than 30 days",
+    cron: "30 3 * * *",
+    handler: () => pruneWebhookEvents(),
+    maxRetries: 1,
+  });
+
+  // Production only, both switched off by DISABLE_RUNTIME_INVARIANTS
+  // (matches the old RuntimeMonitor behaviour)
+  if (process.env.NODE_ENV === "production") {
+    registerJob({
+      name: "runtime-invariant-check",
+      description: "Validate bootstrap invariants and alert on drift",
+      cron: "*/5 * * * *",
+      handler: runInvariantCheck,
+      lockTimeoutSeconds: 240,
+    });
+
+    registerJob({
+      name: "stuck-client-detection",
+      description: "Detect and log clients stuck in onboarding",
+      cron: "*/5 * * * *",
+      handler: async () => {
+        if (process.env.DISABLE_RUNTIME_INVARIANTS === "true") {
+          return { skipped: "DISABLE_RUNTIME_INVARIANTS" };
+        }
+        await StuckClientDetector.detectAndLog();
+      },
+      maxRetries: 1,
+      lockTimeoutSeconds: 240,
+    });
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // OUTBOUND MESSAGING
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  registerJob({
+    name: "outbound-dispatch",
+    description: "Send queued SMS that are due, retry failures and dead-letter abandoned sends",
+    cron: "* * * * *",
+    handler: () => dispatchDueMessages(),
+    lockTimeoutSeconds: 240,
+  });
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // CALENDAR SYNC
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  registerJob({
+    name: "caldav-sync",
+    description: "Pull busy time from and push bookings to connected CalDAV calendars",
+    cron: "*/10 * * * *",
+    handler: syncAllConnections,
+    lockTimeoutSeconds: 540,
+  });
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // CUSTOMER BOOKINGS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  registerJob({
+    name: "booking-reminders",
+    description: "Text customers the reminders due on their client's reminder schedule",
+    cron: "*/10 * * * *",
+    handler: () => sendDueReminders(),
+  });
+
+  registerJob({
+    name: "booking-missed-sweep",
+    description: "Mark reminded bookings nobody confirmed as MISSED once they're over, and the rest completed",
+    cron: "5,35 * * * *",
+    handler: async () => {
+      const now = new Date();
+      const { missed } = await markMissedBookings(now);
+      const { completed } = await markCompletedBookings(now);
+      return { missed, completed };
+    },
+  });
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // AGENT TRIGGERS (DAILY_CRON / WEEKLY_CRON / MONTHLY_CRON / NO_REPLY_TIMEOUT)
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  registerJob({
+    name: "agents-daily",
+    description: "DAILY_CRON: DailyBriefing + BillingNudger for live clients",
+    cron: "0 7 * * *",
+    handler: runDailyAgentCron,
+    lockTimeoutSeconds: 3600,
+  });
+
+  registerJob({
+    name: "agents-weekly",
+    description: "WEEKLY_CRON: Insights report for live clients",
+    cron: "0 8 * * MON",
+    handler: runWeeklyAgentCron,
+    lockTimeoutSeconds: 3600,
+  });
+
+  registerJob({
+    name: "agents-monthly",
+    description: "MONTHLY_CRON: monthly agents for live clients",
+    cron: "0 9 1 * *",
+    handler: runMonthlyAgentCron,
+    lockTimeoutSeconds: 3600,
+  });
+
+  registerJob({
+    name: "agents-no-reply-sweep",
+    description: "NO_REPLY_TIMEOUT: flag customer threads where our last text went unanswered",
+    cron: "15 * * * *",
+    handler: () => emitNoReplyTimeouts(),
+  });
+
+  registerJob({
+    name: "agents-proposal-expiry",
+    description: "Expire agent proposals left in the approval queue past 24 hours",
+    cron: "*/15 * * * *",
+    handler: () => expireProposals(),
+  });
+}
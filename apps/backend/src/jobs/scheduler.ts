@@ -0,0 +1,501 @@
+/**
+ * JOB SCHEDULER (DATABASE-BACKED CRON)
+ *
+ * Runs registered background jobs on cron schedules. All scheduling state
+ * lives in ScheduledJob rows so it survives restarts and is shared by
+ * every Railway replica.
+ *
+ * DESIGN PRINCIPLES:
+ * - Job handlers are registered in code; schedule/pause state lives in the DB
+ * - One run per job at a time across ALL replicas (row-level lock claim)
+ * - Locks expire (lockTimeoutSeconds) so a crashed replica can't wedge a job
+ * - Every run is recorded in JobRun (trigger, attempt, duration, error, result)
+ * - Failures retry with exponential backoff up to maxRetries, then wait for
+ *   the next cron slot
+ * - Cron expressions are evaluated in UTC
+ *
+ * LOCKING:
+ *   UPDATE scheduled_jobs SET locked_by = <instance>, locked_until = now + ttl
+ *   WHERE name = <job> AND (locked_until IS NULL OR locked_until < now) [AND due]
+ * Postgres re-checks the WHERE clause after acquiring the row lock, so only
+ * one replica's update affects a row - that replica owns the run.
+ */
+
+import os from 'os';
+import { JobRun, JobRunTrigger, Prisma, ScheduledJob } from '@prisma/client';
+import { prisma } from '../db';
+import { nextCronRun, parseCronExpression } from './cron';
+import {
+  metrics,
+  MetricJobRunSucceeded,
+  MetricJobRunFailed,
+  MetricJobRetriesExhausted,
+} from '../services/Metrics';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  TYPES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  cron: string;
+  handler: () => Promise<unknown>;
+  maxRetries?: number;
+  retryDelaySeconds?: number;
+  lockTimeoutSeconds?: number;
+  // Only applies when the row is first created; admins own the flag afterwards
+  startPaused?: boolean;
+}
+
+export interface JobSummary {
+  name: string;
+  description: string | null;
+  cronExpression: string;
+  paused: boolean;
+  registered: boolean;
+  running: boolean;
+  nextRunAt: Date | null;
+  lastRunAt: Date | null;
+  lastStatus: ScheduledJob['lastStatus'];
+  retryAttempt: number;
+  maxRetries: number;
+  lockedBy: string | null;
+  lockedUntil: Date | null;
+  lastRun: JobRun | null;
+}
+
+export type TriggerJobResult =
+  | { started: true; runId: string }
+  | { started: false; reason: 'NOT_FOUND' | 'NOT_REGISTERED' | 'LOCKED' };
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  STATE
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const DEFAULT_TICK_MS = 30 * 1000;
+
+const INSTANCE_ID =
+  process.env.RAILWAY_REPLICA_ID || `${os.hostname()}-${process.pid}`;
+
+const definitions = new Map<string, JobDefinition>();
+let tickInterval: NodeJS.Timeout | null = null;
+let tickInProgress = false;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  REGISTRATION
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Register a job handler. Throws on duplicate names or bad cron expressions
+ * so misconfiguration fails at startup, not at 3am.
+ */
+export function registerJob(definition: JobDefinition): void {
+  if (definitions.has(definition.name)) {
+    throw new Error(`Job "${definition.name}" is already registered`);
+  }
+
+  parseCronExpression(definition.cron);
+  definitions.set(definition.name, definition);
+}
+
+export function getRegisteredJobs(): JobDefinition[] {
+  return Array.from(definitions.values());
+}
+
+/**
+ * Create/update ScheduledJob rows for every registered job.
+ * Cron changes in code reschedule the job; the paused flag is never touched.
+ */
+export async function syncJobDefinitions(now: Date = new Date()): Promise<void> {
+  for (const def of definitions.values()) {
+    try {
+      const existing = await prisma.scheduledJob.findUnique({ where: { name: def.name } });
+
+      const policy = {
+        description: def.description,
+        maxRetries: def.maxRetries ?? 0,
+        retryDelaySeconds: def.retryDelaySeconds ?? 60,
+        lockTimeoutSeconds: def.lockTimeoutSeconds ?? 900,
+      };
+
+      if (!existing) {
+        await prisma.scheduledJob.create({
+          data: {
+            name: def.name,
+            cronExpression: def.cron,
+            paused: def.startPaused ?? false,
+            nextRunAt: nextCronRun(def.cron, now),
+            ...policy,
+          },
+        });
+        console.log(`🗓️  [SCHEDULER] Created job ${def.name} (${def.cron})`);
+        continue;
+      }
+
+      const cronChanged = existing.cronExpression !== def.cron;
+
+      await prisma.scheduledJob.update({
+        where: { id: existing.id },
+        data: {
+          ...policy,
+          ...((cronChanged || !existing.nextRunAt) && {
+            cronExpression: def.cron,
+            nextRunAt: nextCronRun(def.cron, now),
+            retryAttempt: 0,
+          }),
+        },
+      });
+
+      if (cronChanged) {
+        console.log(`🗓️  [SCHEDULER] Rescheduled ${def.name}: ${existing.cronExpression} → ${def.cron}`);
+      }
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        // Another replica created the row first - fine
+        continue;
+      }
+      console.error(`❌ [SCHEDULER] Failed to sync job ${def.name}:`, error);
+    }
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  LOCKING
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Atomically claim a job for this instance.
+ * `dueOnly` restricts the claim to unpaused jobs whose nextRunAt has passed.
+ */
+async function claimJob(job: ScheduledJob, now: Date, dueOnly: boolean): Promise<boolean> {
+  const claimed = await prisma.scheduledJob.updateMany({
+    where: {
+      id: job.id,
+      OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+      ...(dueOnly && { paused: false, nextRunAt: { lte: now } }),
+    },
+    data: {
+      lockedBy: INSTANCE_ID,
+      lockedUntil: new Date(now.getTime() + job.lockTimeoutSeconds * 1000),
+    },
+  });
+
+  if (claimed.count === 0) {
+    return false;
+  }
+
+  // A previous holder whose lock expired never finished its run
+  await prisma.jobRun.updateMany({
+    where: { jobId: job.id, status: 'RUNNING' },
+    data: {
+      status: 'FAILED',
+      finishedAt: now,
+      error: 'Abandoned: lock expired before the run finished',
+    },
+  });
+
+  return true;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  EXECUTION
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+async function startRun(job: ScheduledJob, trigger: JobRunTrigger): Promise<JobRun> {
+  return prisma.jobRun.create({
+    data: {
+      jobId: job.id,
+      jobName: job.name,
+      trigger,
+      attempt: trigger === 'MANUAL' ? 1 : job.retryAttempt + 1,
+      instanceId: INSTANCE_ID,
+    },
+  });
+}
+
+/**
+ * Run the handler for a claimed job, record the outcome, reschedule and
+ * release the lock. Never throws.
+ */
+async function executeRun(job: ScheduledJob, run: JobRun, def: JobDefinition): Promise<JobRun> {
+  const startedAt = Date.now();
+
+  console.log(`▶️  [SCHEDULER] ${job.name} started`, {
+    runId: run.id,
+    trigger: run.trigger,
+    attempt: run.attempt,
+    instanceId: INSTANCE_ID,
+  });
+
+  let error: string | null = null;
+  let result: unknown = null;
+
+  try {
+    result = await def.handler();
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const finishedAt = new Date();
+  const durationMs = finishedAt.getTime() - startedAt;
+  const succeeded = error === null;
+
+  try {
+    const finishedRun = await prisma.jobRun.update({
+      where: { id: run.id },
+      data: {
+        status: succeeded ? 'SUCCEEDED' : 'FAILED',
+        finishedAt,
+        durationMs,
+        error,
+        result: toJson(result),
+      },
+    });
+
+    await prisma.scheduledJob.update({
+      where: { id: job.id },
+      data: {
+        lastRunAt: finishedAt,
+        lastStatus: succeeded ? 'SUCCEEDED' : 'FAILED',
+        lockedBy: null,
+        lockedUntil: null,
+        ...reschedule(job, run.trigger, succeeded, finishedAt),
+      },
+    });
+
+    if (succeeded) {
+      metrics.increment(MetricJobRunSucceeded, { job: job.name });
+      console.log(`✅ [SCHEDULER] ${job.name} succeeded in ${durationMs}ms`);
+    } else {
+      metrics.increment(MetricJobRunFailed, { job: job.name });
+      console.error(`❌ [SCHEDULER] ${job.name} failed (attempt ${run.attempt}):`, error);
+    }
+
+    return finishedRun;
+  } catch (bookkeepingError) {
+    // Lock will expire on its own; the run is marked abandoned on next claim
+    console.error(`❌ [SCHEDULER] Failed to record run for ${job.name}:`, bookkeepingError);
+    return run;
+  }
+}
+
+/**
+ * Work out the next run time after a run finishes.
+ * Manual runs never move the schedule.
+ */
+function reschedule(
+  job: ScheduledJob,
+  trigger: JobRunTrigger,
+  succeeded: boolean,
+  now: Date
+): Partial<Pick<ScheduledJob, 'nextRunAt' | 'retryAttempt'>> {
+  if (trigger === 'MANUAL') {
+    return {};
+  }
+
+  if (succeeded) {
+    return { retryAttempt: 0, nextRunAt: nextCronRun(job.cronExpression, now) };
+  }
+
+  if (job.retryAttempt < job.maxRetries) {
+    const backoffSeconds = job.retryDelaySeconds * Math.pow(2, job.retryAttempt);
+    return {
+      retryAttempt: job.retryAttempt + 1,
+      nextRunAt: new Date(now.getTime() + backoffSeconds * 1000),
+    };
+  }
+
+  if (job.maxRetries > 0) {
+    metrics.increment(MetricJobRetriesExhausted, { job: job.name });
+    console.error(`🚨 [SCHEDULER] ${job.name} failed after ${job.maxRetries} retries - waiting for next schedule`);
+  }
+
+  return { retryAttempt: 0, nextRunAt: nextCronRun(job.cronExpression, now) };
+}
+
+function toJson(value: unknown): Prisma.InputJsonValue | typeof Prisma.JsonNull {
+  if (value === undefined || value === null) {
+    return Prisma.JsonNull;
+  }
+  return JSON.parse(JSON.stringify(value));
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  TICK
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Claim and start every due job. Handlers run in the background so a
+ * slow job never delays the others; the tick only waits for the claims.
+ *
+ * @returns names of the jobs this instance started
+ */
+export async function runDueJobs(now: Date = new Date()): Promise<string[]> {
+  const due = await prisma.scheduledJob.findMany({
+    where: {
+      paused: false,
+      nextRunAt: { lte: now },
+      name: { in: Array.from(definitions.keys()) },
+    },
+  });
+
+  const started: string[] = [];
+
+  for (const job of due) {
+    const def = definitions.get(job.name)!;
+
+    if (!(await claimJob(job, now, true))) {
+      continue; // Another replica has it
+    }
+
+    const run = await startRun(job, job.retryAttempt > 0 ? 'RETRY' : 'SCHEDULE');
+    started.push(job.name);
+
+    void executeRun(job, run, def);
+  }
+
+  return started;
+}
+
+async function tick(): Promise<void> {
+  if (tickInProgress) return;
+  tickInProgress = true;
+
+  try {
+    await runDueJobs();
+  } catch (error) {
+    console.error('❌ [SCHEDULER] Tick failed:', error);
+  } finally {
+    tickInProgress = false;
+  }
+}
+
+/**
+ * Start the scheduler loop. Set SCHEDULER_ENABLED=false to run a replica
+ * that serves HTTP only.
+ */
+export async function startJobScheduler(): Promise<void> {
+  if (process.env.SCHEDULER_ENABLED === 'false') {
+    console.log('⏸️  Job scheduler disabled (SCHEDULER_ENABLED=false)');
+    return;
+  }
+
+  if (tickInterval) {
+    return;
+  }
+
+  const tickMs = Number(process.env.SCHEDULER_TICK_MS) || DEFAULT_TICK_MS;
+
+  await syncJobDefinitions();
+
+  console.log('🗓️  Job scheduler started', {
+    instanceId: INSTANCE_ID,
+    tickSeconds: tickMs / 1000,
+    jobs: Array.from(definitions.keys()),
+  });
+
+  tickInterval = setInterval(() => {
+    void tick();
+  }, tickMs);
+
+  void tick();
+}
+
+export function stopJobScheduler(): void {
+  if (tickInterval) {
+    clearInterval(tickInterval);
+    tickInterval = null;
+    console.log('⏸️  Job scheduler stopped');
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  ADMIN OPERATIONS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export async function listJobs(): Promise<JobSummary[]> {
+  const now = new Date();
+  const jobs = await prisma.scheduledJob.findMany({
+    orderBy: { name: 'asc' },
+    include: {
+      runs: { orderBy: { startedAt: 'desc' }, take: 1 },
+    },
+  });
+
+  return jobs.map(({ runs, ...job }) => ({
+    name: job.name,
+    description: job.description,
+    cronExpression: job.cronExpression,
+    paused: job.paused,
+    registered: definitions.has(job.name),
+    running: !!job.lockedUntil && job.lockedUntil > now,
+    nextRunAt: job.nextRunAt,
+    lastRunAt: job.lastRunAt,
+    lastStatus: job.lastStatus,
+    retryAttempt: job.retryAttempt,
+    maxRetries: job.maxRetries,
+    lockedBy: job.lockedBy,
+    lockedUntil: job.lockedUntil,
+    lastRun: runs[0] ?? null,
+  }));
+}
+
+export async function getJobRuns(name: string, limit: number = 20): Promise<JobRun[] | null> {
+  const job = await prisma.scheduledJob.findUnique({ where: { name } });
+  if (!job) return null;
+
+  return prisma.jobRun.findMany({
+    where: { jobId: job.id },
+    orderBy: { startedAt: 'desc' },
+    take: limit,
+  });
+}
+
+/**
+ * Run a job now, outside its schedule. Works on paused jobs.
+ * Returns once the run has started; the handler continues in the background.
+ */
+export async function triggerJob(name: string): Promise<TriggerJobResult> {
+  const job = await prisma.scheduledJob.findUnique({ where: { name } });
+  if (!job) return { started: false, reason: 'NOT_FOUND' };
+
+  const def = definitions.get(name);
+  if (!def) return { started: false, reason: 'NOT_REGISTERED' };
+
+  if (!(await claimJob(job, new Date(), false))) {
+    return { started: false, reason: 'LOCKED' };
+  }
+
+  const run = await startRun(job, 'MANUAL');
+  void executeRun(job, run, def);
+
+  return { started: true, runId: run.id };
+}
+
+/**
+ * Pause or resume a job. Resuming recomputes nextRunAt so a long-paused
+ * job doesn't fire immediately for a slot it missed.
+ */
+export async function setJobPaused(name: string, paused: boolean): Promise<ScheduledJob | null> {
+  const job = await prisma.scheduledJob.findUnique({ where: { name } });
+  if (!job) return null;
+
+  return prisma.scheduledJob.update({
+    where: { id: job.id },
+    data: {
+      paused,
+      ...(!paused && {
+        retryAttempt: 0,
+        nextRunAt: nextCronRun(job.cronExpression, new Date()),
+      }),
+    },
+  });
+}
+
+/**
+ * Test hook: forget all registered handlers
+ */
+export function resetJobRegistry(): void {
+  definitions.clear();
+}
@@ -1,4 +1,5 @@
 import { prisma } from "../../db";
+import { ZonedTime } from "./ZonedTime";
 
 export interface AvailabilityRange {
   weekday: number;
@@ -7,14 +8,24 @@ export interface AvailabilityRange {
 }
 
 export class AvailabilityEngine {
+  /**
+   * Weekly hours for the day. A resource with hours of its own works
+   * those; one without works the business's opening hours.
+   */
   static async getAvailableRanges(
     clientId: string,
-    weekday: number
+    weekday: number,
+    resourceId?: string
   ): Promise<AvailabilityRange[]> {
+    const hasOwnHours = resourceId
+      ? (await prisma.weeklyAvailability.count({ where: { clientId, resourceId } })) > 0
+      : false;
+
     const availability = await prisma.weeklyAvailability.findMany({
       where: {
         clientId,
         weekday,
+        resourceId: hasOwnHours ? resourceId : null,
       },
       orderBy: {
         startTime: "asc",
@@ -28,14 +39,22 @@ export class AvailabilityEngine {
     }));
   }
 
+  /**
+   * Check "HH:MM" times against the weekly hours for the day.
+   * date is the calendar day (an instant or "YYYY-MM-DD"), read in the
+   * client's time zone. With resourceId, that resource's hours are used.
+   */
   static async isTimeAllowed(
     clientId: string,
-    date: Date,
+    date: Date | string,
     startTime: string,
-    endTime: string
+    endTime: string,
+    timeZone?: string,
+    resourceId?: string
   ): Promise<{ allowed: boolean; reason?: string }> {
-    const weekday = date.getDay();
-    const ranges = await this.getAvailableRanges(clientId, weekday);
+    const zone = timeZone ?? (await ZonedTime.forClient(clientId));
+    const weekday = ZonedTime.weekdayOf(ZonedTime.dateKey(date, zone));
+    const ranges = await this.getAvailableRanges(clientId, weekday, resourceId);
 
     if (ranges.length === 0) {
       return {
@@ -69,6 +88,7 @@ export class AvailabilityEngine {
       where: {
         clientId,
         weekday,
+        resourceId: null,
       },
     });
 
@@ -80,17 +100,19 @@ export class AvailabilityEngine {
     return hours * 60 + minutes;
   }
 
-  static formatTime(date: Date): string {
-    const hours = date.getHours().toString().padStart(2, "0");
-    const minutes = date.getMinutes().toString().padStart(2, "0");
-    return `${hours}:${minutes}`;
+  /**
+   * "HH:MM" of an instant in the given zone (server zone when omitted)
+   */
+  static formatTime(date: Date, timeZone?: string): string {
+    return ZonedTime.formatTime(date, timeZone);
   }
 
   static async createAvailability(
     clientId: string,
     weekday: number,
     startTime: string,
-    endTime: string
+    endTime: string,
+    resourceId?: string
   ) {
     return await prisma.weeklyAvailability.create({
       data: {
@@ -98,6 +120,7 @@ export class AvailabilityEngine {
         weekday,
         startTime,
         endTime,
+        resourceId,
       },
     });
   }
@@ -108,9 +131,12 @@ export class AvailabilityEngine {
     });
   }
 
+  /**
+   * The business's opening hours (resource hours are listed per resource)
+   */
   static async getAllAvailability(clientId: string) {
     return await prisma.weeklyAvailability.findMany({
-      where: { clientId },
+      where: { clientId, resourceId: null },
       orderBy: [{ weekday: "asc" }, { startTime: "asc" }],
     });
   }
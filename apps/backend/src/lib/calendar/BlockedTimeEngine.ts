@@ -1,4 +1,5 @@
 import { prisma } from "../../db";
+import { ZonedTime } from "./ZonedTime";
 
 export interface BlockedRange {
   id: string;
@@ -9,26 +10,32 @@ export interface BlockedRange {
   isAllDay: boolean;
 }
 
+/**
+ * Blocked times are calendar days in the client's time zone, stored as
+ * midnight UTC of that day (see ZonedTime.toStorageDate); start/end are
+ * wall-clock "HH:MM" on that day. A block with a resourceId is that
+ * resource's time off; one without closes the whole business.
+ */
 export class BlockedTimeEngine {
   static async isBlocked(
     clientId: string,
-    date: Date,
+    date: Date | string,
     startTime?: string,
-    endTime?: string
+    endTime?: string,
+    timeZone?: string,
+    resourceId?: string
   ): Promise<{ blocked: boolean; reason?: string }> {
-    const dateOnly = new Date(date);
-    dateOnly.setHours(0, 0, 0, 0);
-
-    const nextDay = new Date(dateOnly);
-    nextDay.setDate(nextDay.getDate() + 1);
+    const zone = timeZone ?? (await ZonedTime.forClient(clientId));
+    const dateKey = ZonedTime.dateKey(date, zone);
 
     const blockedTimes = await prisma.blockedTime.findMany({
       where: {
         clientId,
         date: {
-          gte: dateOnly,
-          lt: nextDay,
+          gte: ZonedTime.toStorageDate(dateKey),
+          lt: ZonedTime.toStorageDate(ZonedTime.addDays(dateKey, 1)),
         },
+        ...this.appliesTo(resourceId),
       },
     });
 
@@ -64,16 +71,22 @@ export class BlockedTimeEngine {
 
   static async findBlockedRanges(
     clientId: string,
-    startDate: Date,
-    endDate: Date
+    startDate: Date | string,
+    endDate: Date | string,
+    timeZone?: string,
+    resourceId?: string
   ): Promise<BlockedRange[]> {
+    const zone = timeZone ?? (await ZonedTime.forClient(clientId));
+    const lastDay = ZonedTime.dateKey(endDate, zone);
+
     const blocked = await prisma.blockedTime.findMany({
       where: {
         clientId,
         date: {
-          gte: startDate,
-          lte: endDate,
+          gte: ZonedTime.toStorageDate(ZonedTime.dateKey(startDate, zone)),
+          lt: ZonedTime.toStorageDate(ZonedTime.addDays(lastDay, 1)),
         },
+        ...this.appliesTo(resourceId),
       },
       orderBy: {
         date: "asc",
@@ -92,18 +105,23 @@ export class BlockedTimeEngine {
 
   static async createBlockedTime(
     clientId: string,
-    date: Date,
+    date: Date | string,
     start?: string,
     end?: string,
-    reason?: string
+    reason?: string,
+    timeZone?: string,
+    resourceId?: string
   ) {
+    const zone = timeZone ?? (await ZonedTime.forClient(clientId));
+
     return await prisma.blockedTime.create({
       data: {
         clientId,
-        date,
+        date: ZonedTime.toStorageDate(ZonedTime.dateKey(date, zone)),
         start,
         end,
         reason,
+        resourceId,
       },
     });
   }
@@ -123,6 +141,13 @@ export class BlockedTimeEngine {
     });
   }
 
+  /**
+   * Business-wide blocks, plus the resource's own time off when given
+   */
+  private static appliesTo(resourceId?: string) {
+    return resourceId ? { OR: [{ resourceId: null }, { resourceId }] } : { resourceId: null };
+  }
+
   private static timeToMinutes(time: string): number {
     const [hours, minutes] = time.split(":").map((n) => parseInt(n));
     return hours * 60 + minutes;
@@ -0,0 +1,267 @@
+/**
+ * CalDavClient - minimal RFC 4791 client for one calendar collection
+ *
+ * Just what two-way sync needs: check the collection, list VEVENT objects
+ * overlapping a time range (calendar-query REPORT), and PUT/DELETE single
+ * objects. Uses HTTP Basic auth, which Radicale, Nextcloud, Fastmail and
+ * iCloud (app passwords) all accept.
+ *
+ * Network and HTTP failures are returned, never thrown.
+ *
+ * Collection URLs come from tenants, so every request (including hrefs the
+ * server hands back) is refused unless its host resolves to a public
+ * address; see checkCalDavUrl. Redirects are not followed.
+ */
+
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+
+export interface CalDavCredentials {
+  /** Collection URL; a trailing slash is added if missing */
+  collectionUrl: string;
+  username: string;
+  password: string;
+}
+
+export interface CalDavObject {
+  /** Absolute URL of the calendar object resource */
+  href: string;
+  etag?: string;
+  ics: string;
+}
+
+export type CalDavResult<T> = ({ ok: true } & T) | { ok: false; status?: number; error: string };
+
+const REQUEST_TIMEOUT_MS = 15000;
+
+// Loopback, private, CGNAT, link-local (cloud metadata), multicast and reserved
+const INTERNAL_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+INTERNAL_ADDRESSES.addAddress("::", "ipv6");
+INTERNAL_ADDRESSES.addAddress("::1", "ipv6");
+INTERNAL_ADDRESSES.addSubnet("fc00::", 7, "ipv6");
+INTERNAL_ADDRESSES.addSubnet("fe80::", 10, "ipv6");
+INTERNAL_ADDRESSES.addSubnet("ff00::", 8, "ipv6");
+
+function isInternalAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return INTERNAL_ADDRESSES.check(mapped[1], "ipv4");
+  return INTERNAL_ADDRESSES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Hosts exempt from the address check, e.g. a local Radicale in development
+ * (CALDAV_ALLOWED_HOSTS=localhost,127.0.0.1)
+ */
+function allowedHosts(): string[] {
+  return (process.env.CALDAV_ALLOWED_HOSTS || "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Why this URL may not be requested, or null if it may. Every address the
+ * host resolves to must be public. fetch resolves the host again, so a DNS
+ * answer that changes in between (rebinding) is not caught here.
+ */
+export async function checkCalDavUrl(value: string): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return "Not a valid URL";
+  }
+
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return "Must be an http(s) URL";
+  }
+
+  const host = url.hostname.replace(/^\[(.*)\]$/, "$1").toLowerCase();
+  if (allowedHosts().includes(host)) return null;
+
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true, verbatim: true })).map((entry) => entry.address);
+  } catch {
+    return "CalDAV server host could not be resolved";
+  }
+
+  if (addresses.length === 0 || addresses.some(isInternalAddress)) {
+    return "CalDAV server address is not allowed";
+  }
+
+  return null;
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+function decodeXml(value: string): string {
+  const cdata = /^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/.exec(value);
+  if (cdata) return cdata[1];
+
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const n = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return String.fromCodePoint(n);
+    }
+    return XML_ENTITIES[code] ?? entity;
+  });
+}
+
+/**
+ * Text content of the first element with this local name, whatever its
+ * namespace prefix (D:, d:, C:, cal: or none)
+ */
+function elementText(xml: string, localName: string): string | undefined {
+  const match = new RegExp(`<(?:[\\w-]+:)?${localName}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${localName}>`, "i").exec(xml);
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+function elements(xml: string, localName: string): string[] {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${localName}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${localName}>`, "gi");
+  return Array.from(xml.matchAll(pattern), (match) => match[1]);
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+export class CalDavClient {
+  private readonly collectionUrl: string;
+  private readonly authorization: string;
+
+  constructor(credentials: CalDavCredentials) {
+    this.collectionUrl = credentials.collectionUrl.endsWith("/")
+      ? credentials.collectionUrl
+      : `${credentials.collectionUrl}/`;
+    this.authorization = `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString("base64")}`;
+  }
+
+  /**
+   * Confirms the URL is a calendar collection we can read
+   */
+  async checkCollection(): Promise<CalDavResult<{ displayName?: string }>> {
+    const body =
+      '<?xml version="1.0" encoding="utf-8"?>' +
+      '<d:propfind xmlns:d="DAV:"><d:prop><d:resourcetype/><d:displayname/></d:prop></d:propfind>';
+
+    const response = await this.request("PROPFIND", this.collectionUrl, body, { Depth: "0" });
+    if (!response.ok) return response;
+
+    if (!/<(?:[\w-]+:)?calendar[\s/>]/i.test(elementText(response.body, "resourcetype") || "")) {
+      return { ok: false, error: "URL is not a calendar collection" };
+    }
+
+    return { ok: true, displayName: elementText(response.body, "displayname")?.trim() || undefined };
+  }
+
+  /**
+   * Calendar objects with a VEVENT overlapping [rangeStart, rangeEnd).
+   * Recurring events come back whole (master plus exceptions).
+   */
+  async queryEvents(rangeStart: Date, rangeEnd: Date): Promise<CalDavResult<{ objects: CalDavObject[] }>> {
+    const body =
+      '<?xml version="1.0" encoding="utf-8"?>' +
+      '<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">' +
+      "<d:prop><d:getetag/><c:calendar-data/></d:prop>" +
+      '<c:filter><c:comp-filter name="VCALENDAR"><c:comp-filter name="VEVENT">' +
+      `<c:time-range start="${formatUtc(rangeStart)}" end="${formatUtc(rangeEnd)}"/>` +
+      "</c:comp-filter></c:comp-filter></c:filter>" +
+      "</c:calendar-query>";
+
+    const response = await this.request("REPORT", this.collectionUrl, body, { Depth: "1" });
+    if (!response.ok) return response;
+
+    const objects: CalDavObject[] = [];
+    for (const item of elements(response.body, "response")) {
+      const href = elementText(item, "href");
+      const ics = elementText(item, "calendar-data");
+      if (!href || !ics) continue;
+
+      objects.push({
+        href: new URL(href.trim(), this.collectionUrl).toString(),
+        etag: elementText(item, "getetag")?.trim(),
+        ics,
+      });
+    }
+
+    return { ok: true, objects };
+  }
+
+  /**
+   * Creates or replaces the object at href (default: <collection>/<uid>.ics)
+   */
+  async putEvent(uid: string, ics: string, href?: string): Promise<CalDavResult<{ href: string; etag?: string }>> {
+    const target = href ?? new URL(`${encodeURIComponent(uid)}.ics`, this.collectionUrl).toString();
+    const response = await this.request("PUT", target, ics, { "Content-Type": "text/calendar; charset=utf-8" });
+    if (!response.ok) return response;
+
+    return { ok: true, href: target, etag: response.etag };
+  }
+
+  /**
+   * Deletes an object; one that is already gone counts as deleted
+   */
+  async deleteEvent(href: string): Promise<CalDavResult<{}>> {
+    const response = await this.request("DELETE", href);
+    if (!response.ok && response.status !== 404) return response;
+    return { ok: true };
+  }
+
+  private async request(
+    method: string,
+    url: string,
+    body?: string,
+    headers: Record<string, string> = {}
+  ): Promise<CalDavResult<{ body: string; etag?: string }>> {
+    const refused = await checkCalDavUrl(url);
+    if (refused) {
+      return { ok: false, error: refused };
+    }
+
+    try {
+      const response = await fetch(url, {
+        method,
+        body,
+        // A redirect could point anywhere, including past checkCalDavUrl
+        redirect: "manual",
+        headers: {
+          Authorization: this.authorization,
+          ...(body && !headers["Content-Type"] ? { "Content-Type": "application/xml; charset=utf-8" } : {}),
+          ...headers,
+        },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      const text = await response.text();
+
+      if (response.status >= 300 && response.status < 400) {
+        return { ok: false, status: response.status, error: "CalDAV server redirected; use the calendar's final URL" };
+      }
+
+      if (!response.ok) {
+        const error =
+          response.status === 401 || response.status === 403
+            ? "CalDAV server rejected the credentials"
+            : `CalDAV ${method} failed with HTTP ${response.status}`;
+        return { ok: false, status: response.status, error };
+      }
+
+      return { ok: true, body: text, etag: response.headers.get("etag") || undefined };
+    } catch (error) {
+      return { ok: false, error: `CalDAV ${method} failed: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  }
+}
@@ -0,0 +1,377 @@
+/**
+ * ICalendar - RFC 5545 (.ics) reading and writing
+ *
+ * Covers what booking sync needs: VEVENTs with DTSTART/DTEND/DURATION,
+ * RRULE, EXDATE, RDATE, RECURRENCE-ID, STATUS, SUMMARY and DESCRIPTION.
+ * Times carry an IANA TZID (as Google, Apple and most exporters write them);
+ * VTIMEZONE blocks are not read or written, so an unknown TZID (e.g. a
+ * Windows zone name) falls back to the calendar's or the caller's zone.
+ */
+
+import { ZonedTime } from "./ZonedTime";
+
+export interface ICalDateTime {
+  /** Instant; for date-only values, midnight starting that day */
+  date: Date;
+  /** Calendar day ("YYYY-MM-DD") when the value is VALUE=DATE */
+  dateKey?: string;
+}
+
+export interface ICalEvent {
+  uid?: string;
+  summary?: string;
+  description?: string;
+  location?: string;
+  /** TENTATIVE, CONFIRMED or CANCELLED */
+  status?: string;
+  /** TRANSP:TRANSPARENT - shown in the calendar but not busy time */
+  transparent?: boolean;
+  start: ICalDateTime;
+  end?: ICalDateTime;
+  /** From DURATION, when there is no DTEND */
+  durationMs?: number;
+  /** RRULE value without the "RRULE:" prefix */
+  rrule?: string;
+  exdates: ICalDateTime[];
+  rdates: ICalDateTime[];
+  /** Set on an exception to one occurrence of the UID's series */
+  recurrenceId?: ICalDateTime;
+}
+
+export interface ICalCalendar {
+  name?: string;
+  timeZone?: string;
+  events: ICalEvent[];
+  /** Events that could not be read (e.g. no DTSTART) */
+  invalid: Array<{ uid?: string; error: string }>;
+}
+
+export type ICalParseResult =
+  | { ok: true; calendar: ICalCalendar }
+  | { ok: false; error: string };
+
+export interface ICalEventInput {
+  uid: string;
+  /** DTSTAMP: when the event last changed */
+  stamp: Date;
+  start: Date;
+  end: Date;
+  allDay?: boolean;
+  /** Write local times with this TZID instead of UTC (needed for RRULEs to follow DST) */
+  timeZone?: string;
+  summary?: string;
+  description?: string;
+  status?: "TENTATIVE" | "CONFIRMED" | "CANCELLED";
+  rrule?: string;
+  exdates?: Date[];
+  rdates?: Date[];
+  recurrenceId?: Date;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const DURATION_PATTERN = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+const DATE_TIME_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+const MAX_LINE_OCTETS = 75;
+
+function parseContentLine(line: string): ContentLine | null {
+  // NAME *(;PARAM=value) : value, where quoted param values may hold ; and :
+  let i = 0;
+  let inQuotes = false;
+  let nameEnd = -1;
+
+  for (; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && char === ";" && nameEnd < 0) nameEnd = i;
+    else if (!inQuotes && char === ":") break;
+  }
+
+  if (i >= line.length) return null;
+
+  const head = line.slice(0, i);
+  const value = line.slice(i + 1);
+  const name = (nameEnd < 0 ? head : head.slice(0, nameEnd)).toUpperCase();
+  const params: Record<string, string> = {};
+
+  if (nameEnd >= 0) {
+    const paramPattern = /;([A-Za-z0-9-]+)=("[^"]*"|[^;]*)/g;
+    let match: RegExpExecArray | null;
+    while ((match = paramPattern.exec(head)) !== null) {
+      params[match[1].toUpperCase()] = match[2].replace(/^"|"$/g, "");
+    }
+  }
+
+  return { name, params, value };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Splits a line into 75-octet chunks (continuations start with a space),
+ * never inside a UTF-8 character
+ */
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char, "utf8");
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+
+  return chunks.join("\r\n ");
+}
+
+export class ICalendar {
+  /**
+   * Reads a VCALENDAR. Floating and date-only times are read in the
+   * calendar's X-WR-TIMEZONE if valid, else timeZone.
+   */
+  static parse(text: string, timeZone?: string): ICalParseResult {
+    const lines = text
+      .replace(/\r?\n[ \t]/g, "")
+      .split(/\r?\n/)
+      .filter((line) => line.trim().length > 0)
+      .map(parseContentLine);
+
+    if (!lines.some((line) => line?.name === "BEGIN" && line.value.trim().toUpperCase() === "VCALENDAR")) {
+      return { ok: false, error: "Not an iCalendar file (no BEGIN:VCALENDAR)" };
+    }
+
+    const calendar: ICalCalendar = { events: [], invalid: [] };
+    const calendarZone = lines.find((line) => line?.name === "X-WR-TIMEZONE")?.value.trim();
+    if (calendarZone && ZonedTime.isValidTimeZone(calendarZone)) {
+      calendar.timeZone = calendarZone;
+    }
+    const zone = calendar.timeZone ?? timeZone;
+
+    const stack: string[] = [];
+    let current: ContentLine[] | null = null;
+
+    for (const line of lines) {
+      if (!line) continue;
+      const component = line.value.trim().toUpperCase();
+
+      if (line.name === "BEGIN") {
+        stack.push(component);
+        if (component === "VEVENT") current = [];
+        continue;
+      }
+
+      if (line.name === "END") {
+        stack.pop();
+        if (component === "VEVENT" && current) {
+          const result = this.readEvent(current, zone);
+          if ("error" in result) calendar.invalid.push(result);
+          else calendar.events.push(result);
+          current = null;
+        }
+        continue;
+      }
+
+      // Properties of nested components (VALARM) don't describe the event
+      if (current && stack[stack.length - 1] === "VEVENT") {
+        current.push(line);
+      } else if (stack.length === 1 && line.name === "X-WR-CALNAME") {
+        calendar.name = unescapeText(line.value).trim() || undefined;
+      }
+    }
+
+    return { ok: true, calendar };
+  }
+
+  /**
+   * Writes a VCALENDAR with CRLF line endings and folded lines
+   */
+  static serialize(calendar: { name?: string; timeZone?: string; events: ICalEventInput[] }): string {
+    const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", "PRODID:-//JobRun//Bookings//EN", "CALSCALE:GREGORIAN", "METHOD:PUBLISH"];
+
+    if (calendar.name) lines.push(`X-WR-CALNAME:${escapeText(calendar.name)}`);
+    if (calendar.timeZone) lines.push(`X-WR-TIMEZONE:${calendar.timeZone}`);
+
+    for (const event of calendar.events) {
+      lines.push(...this.writeEvent(event));
+    }
+
+    lines.push("END:VCALENDAR");
+    return lines.map(foldLine).join("\r\n") + "\r\n";
+  }
+
+  /**
+   * Length of a DURATION value in milliseconds, or null if malformed
+   */
+  static parseDuration(value: string): number | null {
+    const match = DURATION_PATTERN.exec(value.trim().toUpperCase());
+    if (!match || !/\d/.test(value)) return null;
+
+    const [, sign, weeks, days, hours, minutes, seconds] = match;
+    const total =
+      (Number(weeks || 0) * 7 + Number(days || 0)) * 86400 +
+      Number(hours || 0) * 3600 +
+      Number(minutes || 0) * 60 +
+      Number(seconds || 0);
+
+    return (sign === "-" ? -1 : 1) * total * 1000;
+  }
+
+  /**
+   * End of an event: DTEND, else DTSTART + DURATION, else the RFC default
+   * (one day for date-only events, zero length otherwise)
+   */
+  static endOf(event: ICalEvent, timeZone?: string): Date {
+    if (event.end) return event.end.date;
+    if (event.durationMs !== undefined) return new Date(event.start.date.getTime() + event.durationMs);
+    if (event.start.dateKey) return ZonedTime.startOfDay(ZonedTime.addDays(event.start.dateKey, 1), timeZone);
+    return event.start.date;
+  }
+
+  private static readEvent(lines: ContentLine[], timeZone?: string): ICalEvent | { uid?: string; error: string } {
+    const event: Partial<ICalEvent> & { exdates: ICalDateTime[]; rdates: ICalDateTime[] } = { exdates: [], rdates: [] };
+
+    for (const { name, params, value } of lines) {
+      switch (name) {
+        case "UID":
+          event.uid = value.trim() || undefined;
+          break;
+        case "SUMMARY":
+          event.summary = unescapeText(value);
+          break;
+        case "DESCRIPTION":
+          event.description = unescapeText(value);
+          break;
+        case "LOCATION":
+          event.location = unescapeText(value);
+          break;
+        case "STATUS":
+          event.status = value.trim().toUpperCase();
+          break;
+        case "TRANSP":
+          event.transparent = value.trim().toUpperCase() === "TRANSPARENT";
+          break;
+        case "RRULE":
+          event.rrule = value.trim();
+          break;
+        case "DURATION": {
+          const duration = this.parseDuration(value);
+          if (duration !== null) event.durationMs = duration;
+          break;
+        }
+        case "DTSTART":
+        case "DTEND":
+        case "RECURRENCE-ID": {
+          const parsed = this.parseDateTime(value, params, timeZone);
+          if (!parsed) return { uid: event.uid, error: `Invalid ${name} "${value}"` };
+          if (name === "DTSTART") event.start = parsed;
+          else if (name === "DTEND") event.end = parsed;
+          else event.recurrenceId = parsed;
+          break;
+        }
+        case "EXDATE":
+        case "RDATE":
+          for (const item of value.split(",")) {
+            // RDATE periods ("start/end" or "start/duration") keep just the start
+            const parsed = this.parseDateTime(item.split("/")[0], params, timeZone);
+            if (!parsed) return { uid: event.uid, error: `Invalid ${name} "${item}"` };
+            (name === "EXDATE" ? event.exdates : event.rdates).push(parsed);
+          }
+          break;
+      }
+    }
+
+    if (!event.start) {
+      return { uid: event.uid, error: "DTSTART is required" };
+    }
+
+    return event as ICalEvent;
+  }
+
+  private static parseDateTime(value: string, params: Record<string, string>, timeZone?: string): ICalDateTime | null {
+    const match = DATE_TIME_PATTERN.exec(value.trim());
+    if (!match) return null;
+
+    const [, year, month, day, hour, minute, second, utc] = match;
+    const fields = { year: Number(year), month: Number(month), day: Number(day) };
+
+    if (!hour || params.VALUE?.toUpperCase() === "DATE") {
+      const dateKey = `${year}-${month}-${day}`;
+      return { date: ZonedTime.startOfDay(dateKey, timeZone), dateKey };
+    }
+
+    const time = { ...fields, hour: Number(hour), minute: Number(minute), second: Number(second) };
+
+    if (utc) {
+      return { date: new Date(Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute, time.second)) };
+    }
+
+    // Some exporters write TZID=/Europe/London
+    const tzid = params.TZID?.replace(/^\//, "");
+    const zone = tzid && ZonedTime.isValidTimeZone(tzid) ? tzid : timeZone;
+    return { date: ZonedTime.fromParts(time, zone) };
+  }
+
+  private static writeEvent(event: ICalEventInput): string[] {
+    const zone = event.timeZone;
+    const dateValue = (date: Date) => ZonedTime.dateKey(date, zone).replace(/-/g, "");
+    const localValue = (date: Date) => {
+      const p = ZonedTime.parts(date, zone);
+      const pad = (n: number) => String(n).padStart(2, "0");
+      return `${p.year}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}${pad(p.second)}`;
+    };
+    const utcValue = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+    // NAME;params:value for a date, in the event's chosen form
+    const dateProperty = (name: string, dates: Date[]) => {
+      if (event.allDay) return `${name};VALUE=DATE:${dates.map(dateValue).join(",")}`;
+      if (zone) return `${name};TZID=${zone}:${dates.map(localValue).join(",")}`;
+      return `${name}:${dates.map(utcValue).join(",")}`;
+    };
+
+    const lines = ["BEGIN:VEVENT", `UID:${event.uid}`, `DTSTAMP:${utcValue(event.stamp)}`];
+
+    if (event.recurrenceId) lines.push(dateProperty("RECURRENCE-ID", [event.recurrenceId]));
+    lines.push(dateProperty("DTSTART", [event.start]));
+
+    if (event.allDay) {
+      // All-day DTEND is the exclusive next day
+      const startKey = ZonedTime.dateKey(event.start, zone);
+      const endKey = ZonedTime.dateKey(event.end, zone);
+      const exclusiveEnd = endKey > startKey ? endKey : ZonedTime.addDays(startKey, 1);
+      lines.push(`DTEND;VALUE=DATE:${exclusiveEnd.replace(/-/g, "")}`);
+    } else {
+      lines.push(dateProperty("DTEND", [event.end]));
+    }
+    if (event.rrule) lines.push(`RRULE:${event.rrule.replace(/^RRULE:/i, "")}`);
+    if (event.exdates?.length) lines.push(dateProperty("EXDATE", event.exdates));
+    if (event.rdates?.length) lines.push(dateProperty("RDATE", event.rdates));
+    if (event.summary) lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.status) lines.push(`STATUS:${event.status}`);
+
+    lines.push("END:VEVENT");
+    return lines;
+  }
+}
@@ -1,6 +1,7 @@
 import { BookingStatus } from "@prisma/client";
 import { prisma } from "../../db";
 import { RecurrenceEngine } from "./RecurrenceEngine";
+import { ZonedTime } from "./ZonedTime";
 
 export interface OverlappingBooking {
   id: string;
@@ -8,23 +9,44 @@ export interface OverlappingBooking {
   end: Date;
   customerName?: string;
   status: BookingStatus;
+  resourceId?: string;
 }
 
+export interface ExternalBusyOverlap {
+  id: string;
+  connectionId: string;
+  uid: string;
+  start: Date;
+  end: Date;
+  summary?: string;
+}
+
+/**
+ * Conflicts are checked against every occurrence of recurring bookings
+ * (RRULE expansion, EXDATE/RDATE and per-occurrence overrides), not just
+ * the first one.
+ *
+ * With a resourceId only that resource's bookings can conflict; other
+ * technicians and vans are busy on their own calendars.
+ */
 export class OverlapEngine {
   static async findOverlaps(
     clientId: string,
     start: Date,
     end: Date,
-    excludeBookingId?: string
+    excludeBookingId?: string,
+    resourceId?: string
   ): Promise<OverlappingBooking[]> {
     const bookings = await prisma.booking.findMany({
       where: {
         clientId,
+        ...(resourceId && { resourceId }),
         status: {
           notIn: ["CANCELLED"],
         },
         OR: [
           {
+            recurrenceRuleId: null,
             start: {
               lt: end,
             },
@@ -32,60 +54,52 @@ export class OverlapEngine {
               gt: start,
             },
           },
+          {
+            // Series that have started by the end of the window
+            recurrenceRuleId: { not: null },
+            start: {
+              lt: end,
+            },
+          },
         ],
       },
       include: {
-        recurrenceRule: true,
+        recurrenceRule: { include: { overrides: true } },
       },
     });
 
     const overlaps: OverlappingBooking[] = [];
+    const timeZone = bookings.some((booking) => booking.recurrenceRule)
+      ? await ZonedTime.forClient(clientId)
+      : undefined;
 
     for (const booking of bookings) {
       if (excludeBookingId && booking.id === excludeBookingId) {
         continue;
       }
 
-      if (booking.recurrenceRule) {
-        const occurrences = RecurrenceEngine.expandRule(
-          {
-            frequency: booking.recurrenceRule.frequency,
-            interval: booking.recurrenceRule.interval,
-            byWeekday: booking.recurrenceRule.byWeekday || undefined,
-            byMonthday: booking.recurrenceRule.byMonthday || undefined,
-            endDate: booking.recurrenceRule.endDate || undefined,
-            occurrences: booking.recurrenceRule.occurrences || undefined,
-          },
-          booking.start,
-          booking.end,
-          new Date(Math.min(start.getTime(), booking.start.getTime())),
-          new Date(Math.max(end.getTime(), booking.end.getTime())),
-          booking.id,
-          booking.recurrenceRule.id
-        );
+      // Occurrences starting up to one booking-length before the window can
+      // still run into it (overrides may lengthen one, so allow a day)
+      const duration = booking.end.getTime() - booking.start.getTime();
+      const lookBehind = Math.max(duration, 24 * 60 * 60 * 1000);
+      const occurrences = RecurrenceEngine.expandBooking(
+        booking,
+        new Date(start.getTime() - lookBehind),
+        end,
+        timeZone
+      );
 
-        for (const occurrence of occurrences) {
-          if (
-            occurrence.start < end &&
-            occurrence.end > start
-          ) {
-            overlaps.push({
-              id: booking.id,
-              start: occurrence.start,
-              end: occurrence.end,
-              customerName: booking.customerName || undefined,
-              status: booking.status,
-            });
-          }
-        }
-      } else {
-        if (booking.start < end && booking.end > start) {
+      for (const occurrence of occurrences) {
+        if (occurrence.status === "CANCELLED") continue;
+
+        if (occurrence.start < end && occurrence.end > start) {
           overlaps.push({
             id: booking.id,
-            start: booking.start,
-            end: booking.end,
+            start: occurrence.start,
+            end: occurrence.end,
             customerName: booking.customerName || undefined,
-            status: booking.status,
+            status: occurrence.status || booking.status,
+            resourceId: booking.resourceId || undefined,
           });
         }
       }
@@ -94,17 +108,53 @@ export class OverlapEngine {
     return overlaps;
   }
 
+  /**
+   * Busy time pulled from the client's connected calendars (CalDAV sync)
+   * that overlaps the window
+   */
+  static async findExternalConflicts(
+    clientId: string,
+    start: Date,
+    end: Date
+  ): Promise<ExternalBusyOverlap[]> {
+    const busyTimes = await prisma.calendarBusyTime.findMany({
+      where: {
+        clientId,
+        start: {
+          lt: end,
+        },
+        end: {
+          gt: start,
+        },
+      },
+      orderBy: {
+        start: "asc",
+      },
+    });
+
+    return busyTimes.map((busy) => ({
+      id: busy.id,
+      connectionId: busy.connectionId,
+      uid: busy.uid,
+      start: busy.start,
+      end: busy.end,
+      summary: busy.summary || undefined,
+    }));
+  }
+
   static async hasOverlap(
     clientId: string,
     start: Date,
     end: Date,
-    excludeBookingId?: string
+    excludeBookingId?: string,
+    resourceId?: string
   ): Promise<boolean> {
     const overlaps = await this.findOverlaps(
       clientId,
       start,
       end,
-      excludeBookingId
+      excludeBookingId,
+      resourceId
     );
     return overlaps.length > 0;
   }
@@ -0,0 +1,194 @@
+/**
+ * RRule - RFC 5545 recurrence rules
+ *
+ * Parses and formats the RRULE subset bookings need: FREQ (DAILY to YEARLY),
+ * INTERVAL, COUNT, UNTIL, BYDAY (with ordinals, e.g. 2TU / -1FR), BYMONTHDAY,
+ * BYMONTH, BYSETPOS and WKST. Time-of-day parts (BYHOUR, BYMINUTE, ...) are
+ * rejected: an occurrence always starts at the booking's local start time.
+ */
+
+export type RRuleFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export interface RRuleWeekday {
+  /** 0 = Sunday, like Date.getDay() */
+  weekday: number;
+  /** Ordinal within the month/year (2 = second, -1 = last); absent = every */
+  n?: number;
+}
+
+export interface ParsedRRule {
+  freq: RRuleFrequency;
+  interval: number;
+  count?: number;
+  /** Last allowed occurrence start (inclusive) */
+  until?: Date;
+  byDay: RRuleWeekday[];
+  byMonthDay: number[];
+  byMonth: number[];
+  bySetPos: number[];
+  /** First day of the week for WEEKLY intervals (0 = Sunday), default Monday */
+  wkst: number;
+}
+
+export type RRuleParseResult =
+  | { ok: true; rule: ParsedRRule }
+  | { ok: false; error: string };
+
+const DAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const FREQUENCIES: RRuleFrequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+const UNSUPPORTED_PARTS = ["BYSECOND", "BYMINUTE", "BYHOUR", "BYYEARDAY", "BYWEEKNO"];
+
+function parseIntList(value: string, min: number, max: number): number[] | null {
+  const numbers = value.split(",").map((part) => Number(part));
+  const valid = numbers.every((n) => Number.isInteger(n) && n !== 0 && Math.abs(n) >= min && Math.abs(n) <= max);
+  return valid ? numbers : null;
+}
+
+function parseUntil(value: string): Date | null {
+  // Date-only UNTIL covers the whole day; date-times are read as UTC
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (!match) return null;
+
+  const [, y, m, d, hh, mm, ss] = match;
+  const until = hh
+    ? Date.UTC(Number(y), Number(m) - 1, Number(d), Number(hh), Number(mm), Number(ss))
+    : Date.UTC(Number(y), Number(m) - 1, Number(d), 23, 59, 59);
+  return new Date(until);
+}
+
+export class RRule {
+  static parse(value: string): RRuleParseResult {
+    const body = value.trim().replace(/^RRULE:/i, "");
+    if (!body) {
+      return { ok: false, error: "Empty recurrence rule" };
+    }
+
+    const rule: ParsedRRule = { freq: "DAILY", interval: 1, byDay: [], byMonthDay: [], byMonth: [], bySetPos: [], wkst: 1 };
+    let hasFreq = false;
+
+    for (const part of body.split(";")) {
+      const [rawKey, rawValue] = part.split("=");
+      const key = rawKey?.trim().toUpperCase();
+      const val = rawValue?.trim().toUpperCase();
+
+      if (!key || !val) {
+        return { ok: false, error: `Malformed part "${part}"` };
+      }
+
+      if (UNSUPPORTED_PARTS.includes(key)) {
+        return { ok: false, error: `${key} is not supported` };
+      }
+
+      switch (key) {
+        case "FREQ":
+          if (!FREQUENCIES.includes(val as RRuleFrequency)) {
+            return { ok: false, error: `Unsupported FREQ "${val}"` };
+          }
+          rule.freq = val as RRuleFrequency;
+          hasFreq = true;
+          break;
+
+        case "INTERVAL": {
+          const interval = Number(val);
+          if (!Number.isInteger(interval) || interval < 1) {
+            return { ok: false, error: `Invalid INTERVAL "${val}"` };
+          }
+          rule.interval = interval;
+          break;
+        }
+
+        case "COUNT": {
+          const count = Number(val);
+          if (!Number.isInteger(count) || count < 1) {
+            return { ok: false, error: `Invalid COUNT "${val}"` };
+          }
+          rule.count = count;
+          break;
+        }
+
+        case "UNTIL": {
+          const until = parseUntil(val);
+          if (!until) {
+            return { ok: false, error: `Invalid UNTIL "${val}"` };
+          }
+          rule.until = until;
+          break;
+        }
+
+        case "BYDAY": {
+          for (const item of val.split(",")) {
+            const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(item);
+            const n = match?.[1] ? Number(match[1]) : undefined;
+            if (!match || n === 0 || (n !== undefined && Math.abs(n) > 53)) {
+              return { ok: false, error: `Invalid BYDAY "${item}"` };
+            }
+            rule.byDay.push(n === undefined ? { weekday: DAY_CODES.indexOf(match[2]) } : { weekday: DAY_CODES.indexOf(match[2]), n });
+          }
+          break;
+        }
+
+        case "BYMONTHDAY": {
+          const days = parseIntList(val, 1, 31);
+          if (!days) return { ok: false, error: `Invalid BYMONTHDAY "${val}"` };
+          rule.byMonthDay = days;
+          break;
+        }
+
+        case "BYMONTH": {
+          const months = parseIntList(val, 1, 12);
+          if (!months || months.some((m) => m < 0)) return { ok: false, error: `Invalid BYMONTH "${val}"` };
+          rule.byMonth = months;
+          break;
+        }
+
+        case "BYSETPOS": {
+          const positions = parseIntList(val, 1, 366);
+          if (!positions) return { ok: false, error: `Invalid BYSETPOS "${val}"` };
+          rule.bySetPos = positions;
+          break;
+        }
+
+        case "WKST":
+          if (!DAY_CODES.includes(val)) {
+            return { ok: false, error: `Invalid WKST "${val}"` };
+          }
+          rule.wkst = DAY_CODES.indexOf(val);
+          break;
+
+        default:
+          return { ok: false, error: `Unknown part "${key}"` };
+      }
+    }
+
+    if (!hasFreq) {
+      return { ok: false, error: "FREQ is required" };
+    }
+
+    if (rule.count !== undefined && rule.until) {
+      return { ok: false, error: "COUNT and UNTIL cannot both be set" };
+    }
+
+    if (rule.bySetPos.length > 0 && rule.byDay.length === 0 && rule.byMonthDay.length === 0 && rule.byMonth.length === 0) {
+      return { ok: false, error: "BYSETPOS needs another BYxxx part" };
+    }
+
+    return { ok: true, rule };
+  }
+
+  static format(rule: ParsedRRule): string {
+    const parts = [`FREQ=${rule.freq}`];
+
+    if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+    if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+    if (rule.until) parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")}`);
+    if (rule.byMonth.length > 0) parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+    if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+    if (rule.byDay.length > 0) {
+      parts.push(`BYDAY=${rule.byDay.map((d) => `${d.n ?? ""}${DAY_CODES[d.weekday]}`).join(",")}`);
+    }
+    if (rule.bySetPos.length > 0) parts.push(`BYSETPOS=${rule.bySetPos.join(",")}`);
+    if (rule.wkst !== 1) parts.push(`WKST=${DAY_CODES[rule.wkst]}`);
+
+    return parts.join(";");
+  }
+}
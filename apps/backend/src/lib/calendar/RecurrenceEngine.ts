@@ -1,4 +1,21 @@
-import { RecurrenceFrequency } from "@prisma/client";
+import {
+  BookingStatus,
+  RecurrenceFrequency,
+  RecurrenceOverride as RecurrenceOverrideRecord,
+  RecurrenceRule as RecurrenceRuleRecord,
+} from "@prisma/client";
+import { ParsedRRule, RRule, RRuleWeekday } from "./RRule";
+import { ZonedParts, ZonedTime } from "./ZonedTime";
+
+export interface RecurrenceOverride {
+  /** Start the rule generated for the occurrence being changed */
+  originalStart: Date;
+  start?: Date;
+  end?: Date;
+  isCancelled: boolean;
+  status?: BookingStatus;
+  notes?: string;
+}
 
 export interface RecurrenceRule {
   frequency: RecurrenceFrequency;
@@ -7,6 +24,13 @@ export interface RecurrenceRule {
   byMonthday?: string;
   endDate?: Date;
   occurrences?: number;
+  /** RFC 5545 RRULE; when set it replaces the legacy fields above */
+  rrule?: string;
+  /** Days dropped from the series (matched by calendar day in the client's zone) */
+  exdates?: Date[];
+  /** Extra occurrence starts */
+  rdates?: Date[];
+  overrides?: RecurrenceOverride[];
 }
 
 export interface BookingOccurrence {
@@ -17,8 +41,44 @@ export interface BookingOccurrence {
   recurrenceRuleId?: string;
   originalBookingId: string;
   occurrenceIndex?: number;
+  /** Start before any override; identifies the occurrence */
+  originalStart: Date;
+  isOverride: boolean;
+  status?: BookingStatus;
+  notes?: string;
+}
+
+/**
+ * Booking row as loaded with
+ * include: { recurrenceRule: { include: { overrides: true } } }
+ */
+export interface BookingWithRecurrence {
+  id: string;
+  start: Date;
+  end: Date;
+  recurrenceRule: (RecurrenceRuleRecord & { overrides?: RecurrenceOverrideRecord[] }) | null;
 }
 
+// Stops rules that can never match (BYMONTH=2;BYMONTHDAY=30) from spinning
+const MAX_PERIODS = 50000;
+
+function dayKey(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Occurrences repeat on the wall clock of timeZone (the client's zone), so a
+ * weekly 09:00 booking stays at 09:00 across DST changes. Without a zone the
+ * server's zone is used.
+ *
+ * Rules are RFC 5545 RRULEs (see RRule); legacy rows without one are read
+ * from frequency/interval/byWeekday/byMonthday, with CUSTOM meaning "every
+ * `interval` days". The booking's own start is always the first occurrence.
+ */
 export class RecurrenceEngine {
   static expandRule(
     rule: RecurrenceRule,
@@ -27,119 +87,396 @@ export class RecurrenceEngine {
     rangeStart: Date,
     rangeEnd: Date,
     bookingId: string,
-    recurrenceRuleId?: string
+    recurrenceRuleId?: string,
+    timeZone?: string
   ): BookingOccurrence[] {
-    const occurrences: BookingOccurrence[] = [];
-    let currentDate = new Date(baseStart);
+    const duration = baseEnd.getTime() - baseStart.getTime();
+    const parsed = this.toRRule(rule);
+    const excludedDays = new Set((rule.exdates || []).map((d) => ZonedTime.dateKey(d, timeZone)));
+    const overrides = new Map((rule.overrides || []).map((o) => [o.originalStart.getTime(), o]));
+    const inRange = (date: Date) => date >= rangeStart && date <= rangeEnd;
+
+    const generated: Array<{ start: Date; index?: number }> = [];
     let index = 0;
-    const maxOccurrences = rule.occurrences || 1000;
-
-    while (
-      currentDate <= rangeEnd &&
-      index < maxOccurrences &&
-      (!rule.endDate || currentDate <= rule.endDate)
-    ) {
-      if (currentDate >= rangeStart) {
-        if (this.matchesRule(rule, currentDate)) {
-          const duration = baseEnd.getTime() - baseStart.getTime();
-          const occurrenceStart = new Date(currentDate);
-          const occurrenceEnd = new Date(currentDate.getTime() + duration);
-
-          occurrences.push({
-            date: new Date(currentDate),
-            start: occurrenceStart,
-            end: occurrenceEnd,
-            isRecurring: true,
-            recurrenceRuleId,
-            originalBookingId: bookingId,
-            occurrenceIndex: index,
-          });
-        }
-      }
 
-      currentDate = this.getNextDate(rule, currentDate);
+    for (const start of this.generateStarts(parsed, baseStart, rangeEnd, timeZone)) {
+      if (start > rangeEnd) break;
+      if (start >= rangeStart) generated.push({ start, index });
       index++;
+    }
+
+    for (const rdate of rule.rdates || []) {
+      if (inRange(rdate) && !generated.some((g) => g.start.getTime() === rdate.getTime())) {
+        generated.push({ start: rdate });
+      }
+    }
+
+    const occurrences: BookingOccurrence[] = [];
+    const build = (originalStart: Date, index?: number): BookingOccurrence => {
+      const override = overrides.get(originalStart.getTime());
+      const start = override?.start ?? originalStart;
+      const end = override?.end ?? new Date(start.getTime() + duration);
+
+      return {
+        date: new Date(start),
+        start: new Date(start),
+        end,
+        isRecurring: true,
+        recurrenceRuleId,
+        originalBookingId: bookingId,
+        occurrenceIndex: index,
+        originalStart: new Date(originalStart),
+        isOverride: !!override,
+        status: override?.status,
+        notes: override?.notes,
+      };
+    };
+
+    for (const { start, index } of generated) {
+      if (excludedDays.has(ZonedTime.dateKey(start, timeZone))) continue;
+      if (overrides.get(start.getTime())?.isCancelled) continue;
 
-      if (index > maxOccurrences * 2) break;
+      const occurrence = build(start, index);
+      if (inRange(occurrence.start)) occurrences.push(occurrence);
     }
 
-    return occurrences;
+    // Occurrences moved into the range from outside it
+    for (const override of overrides.values()) {
+      if (override.isCancelled || !override.start || !inRange(override.start)) continue;
+      if (inRange(override.originalStart)) continue;
+      if (excludedDays.has(ZonedTime.dateKey(override.originalStart, timeZone))) continue;
+
+      occurrences.push(build(override.originalStart));
+    }
+
+    return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
   }
 
-  private static matchesRule(
-    rule: RecurrenceRule,
-    date: Date
-  ): boolean {
-    switch (rule.frequency) {
-      case "WEEKLY":
-        if (rule.byWeekday) {
-          const weekdays = rule.byWeekday.split(",").map((d) => parseInt(d));
-          return weekdays.includes(date.getDay());
-        }
-        return true;
+  /**
+   * Occurrences of any booking in a range: the expanded series for recurring
+   * bookings, the booking itself (if it starts in range) otherwise
+   */
+  static expandBooking(
+    booking: BookingWithRecurrence,
+    rangeStart: Date,
+    rangeEnd: Date,
+    timeZone?: string
+  ): BookingOccurrence[] {
+    if (!booking.recurrenceRule) {
+      if (booking.start < rangeStart || booking.start > rangeEnd) return [];
 
-      case "MONTHLY":
-        if (rule.byMonthday) {
-          const monthdays = rule.byMonthday.split(",").map((d) => parseInt(d));
-          return monthdays.includes(date.getDate());
-        }
-        return true;
+      return [
+        {
+          date: new Date(booking.start),
+          start: booking.start,
+          end: booking.end,
+          isRecurring: false,
+          originalBookingId: booking.id,
+          originalStart: booking.start,
+          isOverride: false,
+        },
+      ];
+    }
 
-      case "DAILY":
-      case "CUSTOM":
-        return true;
+    return this.expandRule(
+      this.fromRecord(booking.recurrenceRule),
+      booking.start,
+      booking.end,
+      rangeStart,
+      rangeEnd,
+      booking.id,
+      booking.recurrenceRule.id,
+      timeZone
+    );
+  }
+
+  static fromRecord(
+    record: RecurrenceRuleRecord & { overrides?: RecurrenceOverrideRecord[] }
+  ): RecurrenceRule {
+    return {
+      frequency: record.frequency,
+      interval: record.interval,
+      byWeekday: record.byWeekday || undefined,
+      byMonthday: record.byMonthday || undefined,
+      endDate: record.endDate || undefined,
+      occurrences: record.occurrences || undefined,
+      rrule: record.rrule || undefined,
+      exdates: record.exdates,
+      rdates: record.rdates,
+      overrides: (record.overrides || []).map((o) => ({
+        originalStart: o.originalStart,
+        start: o.start || undefined,
+        end: o.end || undefined,
+        isCancelled: o.isCancelled,
+        status: o.status || undefined,
+        notes: o.notes || undefined,
+      })),
+    };
+  }
 
-      default:
-        return true;
+  /**
+   * The rule as an RRULE. An unparseable stored rrule yields null (the
+   * booking then only occurs at its own start) rather than failing the
+   * whole calendar.
+   */
+  static toRRule(rule: RecurrenceRule): ParsedRRule | null {
+    if (rule.rrule) {
+      const result = RRule.parse(rule.rrule);
+      if (!result.ok) {
+        console.warn(`[RecurrenceEngine] Ignoring invalid rrule "${rule.rrule}": ${result.error}`);
+        return null;
+      }
+
+      const parsed = result.rule;
+      if (parsed.count === undefined && !parsed.until) {
+        if (rule.occurrences) parsed.count = rule.occurrences;
+        else if (rule.endDate) parsed.until = rule.endDate;
+      }
+      return parsed;
     }
+
+    const numbers = (value?: string) =>
+      (value || "").split(",").map((d) => parseInt(d)).filter((n) => !isNaN(n));
+
+    return {
+      freq: rule.frequency === "CUSTOM" ? "DAILY" : rule.frequency,
+      interval: rule.interval || 1,
+      count: rule.occurrences,
+      until: rule.occurrences ? undefined : rule.endDate,
+      byDay: rule.frequency === "WEEKLY" ? numbers(rule.byWeekday).map((weekday) => ({ weekday })) : [],
+      byMonthDay: rule.frequency === "MONTHLY" ? numbers(rule.byMonthday) : [],
+      byMonth: [],
+      bySetPos: [],
+      wkst: 1,
+    };
   }
 
-  private static getNextDate(rule: RecurrenceRule, current: Date): Date {
-    const next = new Date(current);
+  /**
+   * Rule-generated starts in order, beginning with baseStart (DTSTART),
+   * until the rule ends or the periods pass `limit`
+   */
+  private static *generateStarts(
+    rule: ParsedRRule | null,
+    baseStart: Date,
+    limit: Date,
+    timeZone?: string
+  ): Generator<Date> {
+    yield new Date(baseStart);
+    if (!rule || rule.count === 1) return;
+
+    const local = ZonedTime.parts(baseStart, timeZone);
+    const baseKey = ZonedTime.dateKey(baseStart, timeZone);
+    const limitKey = ZonedTime.dateKey(limit, timeZone);
+    let produced = 1;
+
+    for (let period = 0; period < MAX_PERIODS; period++) {
+      const { anchor, days } = this.periodDays(rule, local, baseKey, period);
+      if (anchor > limitKey) return;
 
-    switch (rule.frequency) {
-      case "DAILY":
-        next.setDate(next.getDate() + rule.interval);
+      for (const key of days) {
+        if (key <= baseKey) continue;
+
+        const { year, month, day } = ZonedTime.parseDateKey(key);
+        const start = ZonedTime.fromParts(
+          { year, month, day, hour: local.hour, minute: local.minute, second: local.second },
+          timeZone
+        );
+
+        if (rule.until && start > rule.until) return;
+        yield start;
+
+        produced++;
+        if (rule.count !== undefined && produced >= rule.count) return;
+      }
+    }
+  }
+
+  /**
+   * Calendar days of the nth FREQ period (every `interval` periods from the
+   * base), after BYxxx expansion/limits and BYSETPOS
+   */
+  private static periodDays(
+    rule: ParsedRRule,
+    base: ZonedParts,
+    baseKey: string,
+    period: number
+  ): { anchor: string; days: string[] } {
+    let anchor: string;
+    let days: string[];
+    const byMonthOk = (key: string) =>
+      rule.byMonth.length === 0 || rule.byMonth.includes(ZonedTime.parseDateKey(key).month);
+
+    switch (rule.freq) {
+      case "DAILY": {
+        anchor = ZonedTime.addDays(baseKey, period * rule.interval);
+        const { day, year, month } = ZonedTime.parseDateKey(anchor);
+        const monthDays = this.resolveMonthDays(rule.byMonthDay, year, month);
+        const weekdays = rule.byDay.map((d) => d.weekday);
+
+        days = [anchor].filter(
+          (key) =>
+            byMonthOk(key) &&
+            (rule.byMonthDay.length === 0 || monthDays.includes(day)) &&
+            (weekdays.length === 0 || weekdays.includes(ZonedTime.weekdayOf(key)))
+        );
         break;
+      }
+
+      case "WEEKLY": {
+        const weekStart = ZonedTime.addDays(baseKey, -((base.weekday - rule.wkst + 7) % 7));
+        anchor = ZonedTime.addDays(weekStart, period * 7 * rule.interval);
+        const weekdays = rule.byDay.length > 0 ? rule.byDay.map((d) => d.weekday) : [base.weekday];
 
-      case "WEEKLY":
-        next.setDate(next.getDate() + 7 * rule.interval);
+        days = [0, 1, 2, 3, 4, 5, 6]
+          .map((offset) => ZonedTime.addDays(anchor, offset))
+          .filter((key) => weekdays.includes(ZonedTime.weekdayOf(key)) && byMonthOk(key));
         break;
+      }
+
+      case "MONTHLY": {
+        const monthIndex = base.year * 12 + (base.month - 1) + period * rule.interval;
+        const year = Math.floor(monthIndex / 12);
+        const month = (monthIndex % 12) + 1;
+        anchor = dayKey(year, month, 1);
 
-      case "MONTHLY":
-        next.setMonth(next.getMonth() + rule.interval);
+        days = byMonthOk(anchor) ? this.daysInMonthMatching(rule, year, month, base.day) : [];
         break;
+      }
 
-      case "CUSTOM":
-        next.setDate(next.getDate() + rule.interval);
+      case "YEARLY": {
+        const year = base.year + period * rule.interval;
+        anchor = dayKey(year, 1, 1);
+
+        if (rule.byMonth.length === 0 && rule.byMonthDay.length === 0 && rule.byDay.length > 0) {
+          // BYDAY ordinals count within the year ("20MO" = 20th Monday)
+          const yearDays: string[] = [];
+          for (let month = 1; month <= 12; month++) {
+            for (let day = 1; day <= daysInMonth(year, month); day++) yearDays.push(dayKey(year, month, day));
+          }
+          days = this.matchByDay(yearDays, rule.byDay);
+        } else {
+          const months =
+            rule.byMonth.length > 0
+              ? rule.byMonth
+              : rule.byMonthDay.length > 0
+              ? [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]
+              : [base.month];
+          days = months.flatMap((month) => this.daysInMonthMatching(rule, year, month, base.day));
+        }
         break;
+      }
+    }
+
+    days = Array.from(new Set(days)).sort();
+
+    if (rule.bySetPos.length > 0) {
+      const picked = rule.bySetPos
+        .map((pos) => (pos > 0 ? days[pos - 1] : days[days.length + pos]))
+        .filter((key): key is string => !!key);
+      days = Array.from(new Set(picked)).sort();
+    }
+
+    return { anchor, days };
+  }
+
+  private static daysInMonthMatching(rule: ParsedRRule, year: number, month: number, baseDay: number): string[] {
+    const length = daysInMonth(year, month);
+
+    if (rule.byMonthDay.length > 0) {
+      const weekdays = rule.byDay.map((d) => d.weekday);
+      return this.resolveMonthDays(rule.byMonthDay, year, month)
+        .map((day) => dayKey(year, month, day))
+        .filter((key) => weekdays.length === 0 || weekdays.includes(ZonedTime.weekdayOf(key)));
+    }
+
+    if (rule.byDay.length > 0) {
+      const monthDays = Array.from({ length }, (_, i) => dayKey(year, month, i + 1));
+      return this.matchByDay(monthDays, rule.byDay);
+    }
+
+    // Months without the base day (the 31st) are skipped, per RFC 5545
+    return baseDay <= length ? [dayKey(year, month, baseDay)] : [];
+  }
+
+  /**
+   * BYMONTHDAY values as days of a month (-1 = last day)
+   */
+  private static resolveMonthDays(byMonthDay: number[], year: number, month: number): number[] {
+    const length = daysInMonth(year, month);
+    return byMonthDay
+      .map((day) => (day > 0 ? day : length + 1 + day))
+      .filter((day) => day >= 1 && day <= length);
+  }
+
+  /**
+   * Days of a month/year matching BYDAY, honouring ordinals (2TU, -1FR)
+   */
+  private static matchByDay(scope: string[], byDay: RRuleWeekday[]): string[] {
+    const matches: string[] = [];
+
+    for (const { weekday, n } of byDay) {
+      const candidates = scope.filter((key) => ZonedTime.weekdayOf(key) === weekday);
+
+      if (n === undefined) {
+        matches.push(...candidates);
+      } else {
+        const pick = n > 0 ? candidates[n - 1] : candidates[candidates.length + n];
+        if (pick) matches.push(pick);
+      }
     }
 
-    return next;
+    return matches;
   }
 
   static getOccurrenceDate(
     baseDate: Date,
     rule: RecurrenceRule,
-    occurrenceIndex: number
+    occurrenceIndex: number,
+    timeZone?: string
   ): Date {
     let date = new Date(baseDate);
+    let index = 0;
 
-    for (let i = 0; i < occurrenceIndex; i++) {
-      date = this.getNextDate(rule, date);
+    // Unbounded above: the rule's own end (or MAX_PERIODS) stops the walk
+    for (const start of this.generateStarts(this.toRRule(rule), baseDate, new Date(8.64e15), timeZone)) {
+      date = start;
+      if (index++ >= occurrenceIndex) break;
     }
 
     return date;
   }
 
+  /**
+   * Whether the series has an occurrence on the calendar day of `date`
+   */
   static isWithinSeries(
     date: Date,
     baseDate: Date,
-    rule: RecurrenceRule
+    rule: RecurrenceRule,
+    timeZone?: string
   ): boolean {
     if (date < baseDate) return false;
     if (rule.endDate && date > rule.endDate) return false;
 
-    return this.matchesRule(rule, date);
+    const day = ZonedTime.dateKey(date, timeZone);
+    const dayStart = ZonedTime.startOfDay(day, timeZone);
+    const dayEnd = new Date(ZonedTime.startOfDay(ZonedTime.addDays(day, 1), timeZone).getTime() - 1);
+
+    return this.expandRule(rule, baseDate, baseDate, dayStart, dayEnd, "", undefined, timeZone).length > 0;
+  }
+
+  /**
+   * Whether the rule generates an occurrence starting exactly at `start`
+   * (before overrides), e.g. to validate an override's originalStart
+   */
+  static isOccurrence(
+    rule: RecurrenceRule,
+    baseStart: Date,
+    start: Date,
+    timeZone?: string
+  ): boolean {
+    return this.expandRule({ ...rule, overrides: [] }, baseStart, baseStart, start, start, "", undefined, timeZone).some(
+      (occurrence) => occurrence.start.getTime() === start.getTime()
+    );
   }
 }
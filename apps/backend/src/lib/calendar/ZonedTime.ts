@@ -0,0 +1,237 @@
+import { prisma } from "../../db";
+
+/**
+ * ZonedTime - wall-clock arithmetic in a client's IANA time zone
+ *
+ * Availability ("08:00-17:00"), blocked times and recurrences are wall-clock
+ * rules in the client's zone, while bookings are instants. Everything here
+ * converts between the two with Intl, so results don't depend on the zone
+ * the server runs in and follow DST transitions:
+ * - a wall time skipped by spring-forward resolves to the same time after
+ *   the jump (01:30 on a London spring-forward day → 02:30 BST)
+ * - a wall time repeated by fall-back resolves to its first occurrence
+ *
+ * Calendar days are "YYYY-MM-DD" keys. BlockedTime.date stores the key as
+ * midnight UTC (see toStorageDate).
+ */
+
+export interface ZonedParts {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  /** 0 = Sunday, like Date.getDay() */
+  weekday: number;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const DATE_KEY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const HOUR_MS = 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string | undefined): Intl.DateTimeFormat {
+  const key = timeZone || "";
+  let formatter = formatters.get(key);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      weekday: "short",
+    });
+    formatters.set(key, formatter);
+  }
+
+  return formatter;
+}
+
+export class ZonedTime {
+  /** Same default as Client.timezone in the schema */
+  static readonly DEFAULT_TIMEZONE = "America/New_York";
+
+  /**
+   * Time zone for a client's calendar
+   * Falls back to the schema default when unset or not a valid IANA zone.
+   */
+  static async forClient(clientId: string): Promise<string> {
+    const client = await prisma.client.findUnique({
+      where: { id: clientId },
+      select: { timezone: true },
+    });
+
+    if (client?.timezone && this.isValidTimeZone(client.timezone)) {
+      return client.timezone;
+    }
+
+    if (client?.timezone) {
+      console.warn(`[ZonedTime] Invalid timezone "${client.timezone}" for client ${clientId}, using ${this.DEFAULT_TIMEZONE}`);
+    }
+
+    return this.DEFAULT_TIMEZONE;
+  }
+
+  static isValidTimeZone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Wall-clock fields of an instant in a zone
+   * (no zone = the server's, which is what Date getters use)
+   */
+  static parts(date: Date, timeZone?: string): ZonedParts {
+    const values: Record<string, string> = {};
+    for (const part of formatterFor(timeZone).formatToParts(date)) {
+      values[part.type] = part.value;
+    }
+
+    return {
+      year: Number(values.year),
+      month: Number(values.month),
+      day: Number(values.day),
+      hour: Number(values.hour),
+      minute: Number(values.minute),
+      second: Number(values.second),
+      weekday: WEEKDAYS.indexOf(values.weekday),
+    };
+  }
+
+  /**
+   * UTC offset of a zone at an instant, in minutes (BST = 60, EST = -300)
+   */
+  static offsetMinutes(date: Date, timeZone?: string): number {
+    const p = this.parts(date, timeZone);
+    const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+    const instant = Math.floor(date.getTime() / 1000) * 1000;
+    return Math.round((asUtc - instant) / 60000);
+  }
+
+  /**
+   * Instant at which a wall-clock time occurs in a zone
+   */
+  static fromParts(
+    fields: { year: number; month: number; day: number; hour?: number; minute?: number; second?: number },
+    timeZone?: string
+  ): Date {
+    const wallAsUtc = Date.UTC(
+      fields.year,
+      fields.month - 1,
+      fields.day,
+      fields.hour ?? 0,
+      fields.minute ?? 0,
+      fields.second ?? 0
+    );
+
+    // At most one transition within ±12h, so the answer uses one of these offsets
+    const before = this.offsetMinutes(new Date(wallAsUtc - 12 * HOUR_MS), timeZone);
+    const after = this.offsetMinutes(new Date(wallAsUtc + 12 * HOUR_MS), timeZone);
+
+    const candidates = Array.from(new Set([before, after]))
+      .map((offset) => wallAsUtc - offset * 60000)
+      .filter((instant) => {
+        const p = this.parts(new Date(instant), timeZone);
+        return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) === wallAsUtc;
+      });
+
+    if (candidates.length > 0) {
+      // Fall-back overlap: the earlier of the two occurrences
+      return new Date(Math.min(...candidates));
+    }
+
+    // Spring-forward gap: read the wall time with the pre-transition offset
+    return new Date(wallAsUtc - Math.min(before, after) * 60000);
+  }
+
+  /**
+   * Instant of "HH:MM" on a calendar day in a zone
+   */
+  static toInstant(dateKey: string, time: string, timeZone?: string): Date {
+    const { year, month, day } = this.parseDateKey(dateKey);
+    const [hour, minute] = time.split(":").map(Number);
+    return this.fromParts({ year, month, day, hour, minute }, timeZone);
+  }
+
+  /**
+   * Calendar day ("YYYY-MM-DD") of an instant in a zone.
+   * A bare "YYYY-MM-DD" string is already a calendar day and is returned as is,
+   * so date-only query params aren't shifted through UTC midnight.
+   */
+  static dateKey(date: Date | string, timeZone?: string): string {
+    if (typeof date === "string") {
+      if (DATE_KEY_PATTERN.test(date)) return date;
+      date = new Date(date);
+    }
+
+    const p = this.parts(date, timeZone);
+    return `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`;
+  }
+
+  static parseDateKey(dateKey: string): { year: number; month: number; day: number } {
+    const match = DATE_KEY_PATTERN.exec(dateKey);
+    if (!match) {
+      throw new Error(`Invalid calendar date: ${dateKey}`);
+    }
+    return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+  }
+
+  /**
+   * Day of week of a calendar day (0 = Sunday)
+   */
+  static weekdayOf(dateKey: string): number {
+    return this.toStorageDate(dateKey).getUTCDay();
+  }
+
+  static addDays(dateKey: string, days: number): string {
+    const date = this.toStorageDate(dateKey);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().slice(0, 10);
+  }
+
+  /**
+   * Midnight at the start of a calendar day in a zone
+   */
+  static startOfDay(dateKey: string, timeZone?: string): Date {
+    return this.toInstant(dateKey, "00:00", timeZone);
+  }
+
+  /**
+   * Calendar days are stored (BlockedTime.date) as midnight UTC
+   */
+  static toStorageDate(dateKey: string): Date {
+    return new Date(`${dateKey}T00:00:00.000Z`);
+  }
+
+  static fromStorageDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  /**
+   * "HH:MM" wall-clock time of an instant in a zone
+   */
+  static formatTime(date: Date, timeZone?: string): string {
+    const p = this.parts(date, timeZone);
+    return `${String(p.hour).padStart(2, "0")}:${String(p.minute).padStart(2, "0")}`;
+  }
+
+  /**
+   * Minutes since local midnight (wall clock, so 08:00 is 480 on any day)
+   */
+  static minutesOfDay(date: Date, timeZone?: string): number {
+    const p = this.parts(date, timeZone);
+    return p.hour * 60 + p.minute;
+  }
+}
@@ -0,0 +1,122 @@
+import { OutOfAreaAction } from "@prisma/client";
+import { prisma } from "../../db";
+import { Centroid, POSTCODE_AREA_CENTROIDS } from "./postcodeCentroids";
+
+/**
+ * TravelTime - offline distance and drive-time estimates between jobs
+ *
+ * Job locations are free text (Lead.location, Booking.location). Only a UK
+ * postcode in them can be placed, at its postcode area's centroid; anything
+ * else is "unknown" and never costs travel time or fails a radius check.
+ *
+ * Drive time is the straight-line distance times the client's road factor
+ * (1 = as the crow flies) at an average speed, rounded up to 5 minutes.
+ */
+
+export interface TravelSettings {
+  /** Where jobs are dispatched from; the centre of the service area */
+  basePostcode: string | null;
+  serviceRadiusMiles: number | null;
+  roadFactor: number;
+  outOfAreaAction: OutOfAreaAction;
+}
+
+export interface ServiceAreaCheck {
+  distanceMiles: number;
+  radiusMiles: number;
+  inArea: boolean;
+  action: OutOfAreaAction;
+}
+
+export const AVERAGE_SPEED_MPH = 30;
+export const DEFAULT_ROAD_FACTOR = 1.3;
+
+const EARTH_RADIUS_MILES = 3958.8;
+const ROUND_TO_MINUTES = 5;
+// "B49 5AB", "sw1a1aa" anywhere in the text, or a bare outward code ("B49")
+const FULL_POSTCODE = /\b([A-Z]{1,2})\d[A-Z\d]?\s*\d[A-Z]{2}\b/i;
+const OUTWARD_CODE = /^([A-Z]{1,2})\d[A-Z\d]?$/i;
+
+export class TravelTime {
+  /**
+   * Centroid for the postcode in a location, or null when there isn't one
+   * we know
+   */
+  static locate(location?: string | null): Centroid | null {
+    const text = location?.trim();
+    if (!text) return null;
+
+    const match = text.match(FULL_POSTCODE) || text.match(OUTWARD_CODE);
+    if (!match) return null;
+
+    return POSTCODE_AREA_CENTROIDS[match[1].toUpperCase()] ?? null;
+  }
+
+  /**
+   * Great-circle distance in miles
+   */
+  static distanceMiles(from: Centroid, to: Centroid): number {
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    const dLat = toRadians(to.lat - from.lat);
+    const dLng = toRadians(to.lng - from.lng);
+    const a =
+      Math.sin(dLat / 2) ** 2 +
+      Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+
+    return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+  }
+
+  /**
+   * Estimated drive time in minutes (0 within the same postcode area)
+   */
+  static minutesBetween(from: Centroid, to: Centroid, roadFactor: number = DEFAULT_ROAD_FACTOR): number {
+    const miles = this.distanceMiles(from, to) * roadFactor;
+    const minutes = (miles / AVERAGE_SPEED_MPH) * 60;
+
+    return Math.ceil(minutes / ROUND_TO_MINUTES) * ROUND_TO_MINUTES;
+  }
+
+  static async settingsFor(clientId: string): Promise<TravelSettings> {
+    const settings = await prisma.clientSettings.findUnique({
+      where: { clientId },
+      select: {
+        basePostcode: true,
+        serviceRadiusMiles: true,
+        travelRoadFactor: true,
+        outOfAreaAction: true,
+      },
+    });
+
+    return {
+      basePostcode: settings?.basePostcode ?? null,
+      serviceRadiusMiles: settings?.serviceRadiusMiles ?? null,
+      roadFactor: settings?.travelRoadFactor ?? DEFAULT_ROAD_FACTOR,
+      outOfAreaAction: settings?.outOfAreaAction ?? "FLAG",
+    };
+  }
+
+  /**
+   * How far a job is from the client's base against their service radius.
+   * Null when the client has no radius or either end can't be placed.
+   */
+  static async checkServiceArea(
+    clientId: string,
+    location?: string | null
+  ): Promise<ServiceAreaCheck | null> {
+    const site = this.locate(location);
+    if (!site) return null;
+
+    const settings = await this.settingsFor(clientId);
+    const base = this.locate(settings.basePostcode);
+    if (!base || settings.serviceRadiusMiles === null) return null;
+
+    const distanceMiles = Math.round(this.distanceMiles(base, site) * 10) / 10;
+
+    return {
+      distanceMiles,
+      radiusMiles: settings.serviceRadiusMiles,
+      inArea: distanceMiles <= settings.serviceRadiusMiles,
+      action: settings.outOfAreaAction,
+    };
+  }
+}
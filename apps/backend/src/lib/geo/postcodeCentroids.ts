@@ -0,0 +1,137 @@
+/**
+ * Centroids of the UK postcode areas (the letters before the first digit),
+ * bundled so travel estimates work offline. Precision is a few miles: good
+ * enough for travel buffers and service-area checks, not for routing.
+ */
+
+export interface Centroid {
+  lat: number;
+  lng: number;
+}
+
+export const POSTCODE_AREA_CENTROIDS: Record<string, Centroid> = {
+  AB: { lat: 57.15, lng: -2.11 }, // Aberdeen
+  AL: { lat: 51.75, lng: -0.34 }, // St Albans
+  B: { lat: 52.48, lng: -1.90 }, // Birmingham
+  BA: { lat: 51.38, lng: -2.36 }, // Bath
+  BB: { lat: 53.75, lng: -2.48 }, // Blackburn
+  BD: { lat: 53.79, lng: -1.75 }, // Bradford
+  BH: { lat: 50.72, lng: -1.88 }, // Bournemouth
+  BL: { lat: 53.58, lng: -2.43 }, // Bolton
+  BN: { lat: 50.83, lng: -0.14 }, // Brighton
+  BR: { lat: 51.40, lng: 0.02 }, // Bromley
+  BS: { lat: 51.45, lng: -2.59 }, // Bristol
+  BT: { lat: 54.60, lng: -5.93 }, // Belfast
+  CA: { lat: 54.89, lng: -2.93 }, // Carlisle
+  CB: { lat: 52.21, lng: 0.12 }, // Cambridge
+  CF: { lat: 51.48, lng: -3.18 }, // Cardiff
+  CH: { lat: 53.19, lng: -2.89 }, // Chester
+  CM: { lat: 51.74, lng: 0.47 }, // Chelmsford
+  CO: { lat: 51.89, lng: 0.90 }, // Colchester
+  CR: { lat: 51.37, lng: -0.10 }, // Croydon
+  CT: { lat: 51.28, lng: 1.08 }, // Canterbury
+  CV: { lat: 52.41, lng: -1.51 }, // Coventry
+  CW: { lat: 53.10, lng: -2.44 }, // Crewe
+  DA: { lat: 51.45, lng: 0.21 }, // Dartford
+  DD: { lat: 56.46, lng: -2.97 }, // Dundee
+  DE: { lat: 52.92, lng: -1.48 }, // Derby
+  DG: { lat: 55.07, lng: -3.61 }, // Dumfries
+  DH: { lat: 54.78, lng: -1.57 }, // Durham
+  DL: { lat: 54.52, lng: -1.55 }, // Darlington
+  DN: { lat: 53.52, lng: -1.13 }, // Doncaster
+  DT: { lat: 50.71, lng: -2.44 }, // Dorchester
+  DY: { lat: 52.51, lng: -2.09 }, // Dudley
+  E: { lat: 51.54, lng: -0.03 }, // London E
+  EC: { lat: 51.52, lng: -0.09 }, // London EC
+  EH: { lat: 55.95, lng: -3.19 }, // Edinburgh
+  EN: { lat: 51.65, lng: -0.08 }, // Enfield
+  EX: { lat: 50.72, lng: -3.53 }, // Exeter
+  FK: { lat: 56.00, lng: -3.78 }, // Falkirk
+  FY: { lat: 53.82, lng: -3.05 }, // Blackpool
+  G: { lat: 55.86, lng: -4.25 }, // Glasgow
+  GL: { lat: 51.86, lng: -2.24 }, // Gloucester
+  GU: { lat: 51.24, lng: -0.57 }, // Guildford
+  GY: { lat: 49.45, lng: -2.54 }, // Guernsey
+  HA: { lat: 51.58, lng: -0.34 }, // Harrow
+  HD: { lat: 53.65, lng: -1.78 }, // Huddersfield
+  HG: { lat: 53.99, lng: -1.54 }, // Harrogate
+  HP: { lat: 51.75, lng: -0.47 }, // Hemel Hempstead
+  HR: { lat: 52.06, lng: -2.72 }, // Hereford
+  HS: { lat: 58.21, lng: -6.39 }, // Outer Hebrides
+  HU: { lat: 53.74, lng: -0.33 }, // Hull
+  HX: { lat: 53.72, lng: -1.86 }, // Halifax
+  IG: { lat: 51.56, lng: 0.08 }, // Ilford
+  IM: { lat: 54.15, lng: -4.48 }, // Isle of Man
+  IP: { lat: 52.06, lng: 1.16 }, // Ipswich
+  IV: { lat: 57.48, lng: -4.22 }, // Inverness
+  JE: { lat: 49.19, lng: -2.11 }, // Jersey
+  KA: { lat: 55.61, lng: -4.50 }, // Kilmarnock
+  KT: { lat: 51.41, lng: -0.30 }, // Kingston upon Thames
+  KW: { lat: 58.98, lng: -2.96 }, // Kirkwall
+  KY: { lat: 56.11, lng: -3.16 }, // Kirkcaldy
+  L: { lat: 53.41, lng: -2.98 }, // Liverpool
+  LA: { lat: 54.05, lng: -2.80 }, // Lancaster
+  LD: { lat: 52.24, lng: -3.38 }, // Llandrindod Wells
+  LE: { lat: 52.64, lng: -1.13 }, // Leicester
+  LL: { lat: 53.32, lng: -3.83 }, // Llandudno
+  LN: { lat: 53.23, lng: -0.54 }, // Lincoln
+  LS: { lat: 53.80, lng: -1.55 }, // Leeds
+  LU: { lat: 51.88, lng: -0.42 }, // Luton
+  M: { lat: 53.48, lng: -2.24 }, // Manchester
+  ME: { lat: 51.39, lng: 0.50 }, // Rochester
+  MK: { lat: 52.04, lng: -0.76 }, // Milton Keynes
+  ML: { lat: 55.79, lng: -3.99 }, // Motherwell
+  N: { lat: 51.57, lng: -0.11 }, // London N
+  NE: { lat: 54.98, lng: -1.61 }, // Newcastle upon Tyne
+  NG: { lat: 52.95, lng: -1.15 }, // Nottingham
+  NN: { lat: 52.24, lng: -0.90 }, // Northampton
+  NP: { lat: 51.58, lng: -3.00 }, // Newport
+  NR: { lat: 52.63, lng: 1.30 }, // Norwich
+  NW: { lat: 51.55, lng: -0.19 }, // London NW
+  OL: { lat: 53.54, lng: -2.12 }, // Oldham
+  OX: { lat: 51.75, lng: -1.26 }, // Oxford
+  PA: { lat: 55.85, lng: -4.42 }, // Paisley
+  PE: { lat: 52.57, lng: -0.24 }, // Peterborough
+  PH: { lat: 56.40, lng: -3.43 }, // Perth
+  PL: { lat: 50.38, lng: -4.14 }, // Plymouth
+  PO: { lat: 50.82, lng: -1.09 }, // Portsmouth
+  PR: { lat: 53.76, lng: -2.70 }, // Preston
+  RG: { lat: 51.45, lng: -0.97 }, // Reading
+  RH: { lat: 51.24, lng: -0.17 }, // Redhill
+  RM: { lat: 51.58, lng: 0.18 }, // Romford
+  S: { lat: 53.38, lng: -1.47 }, // Sheffield
+  SA: { lat: 51.62, lng: -3.94 }, // Swansea
+  SE: { lat: 51.47, lng: -0.06 }, // London SE
+  SG: { lat: 51.90, lng: -0.20 }, // Stevenage
+  SK: { lat: 53.41, lng: -2.15 }, // Stockport
+  SL: { lat: 51.51, lng: -0.59 }, // Slough
+  SM: { lat: 51.36, lng: -0.19 }, // Sutton
+  SN: { lat: 51.56, lng: -1.78 }, // Swindon
+  SO: { lat: 50.90, lng: -1.40 }, // Southampton
+  SP: { lat: 51.07, lng: -1.79 }, // Salisbury
+  SR: { lat: 54.91, lng: -1.38 }, // Sunderland
+  SS: { lat: 51.54, lng: 0.71 }, // Southend-on-Sea
+  ST: { lat: 53.00, lng: -2.18 }, // Stoke-on-Trent
+  SW: { lat: 51.46, lng: -0.17 }, // London SW
+  SY: { lat: 52.71, lng: -2.75 }, // Shrewsbury
+  TA: { lat: 51.02, lng: -3.10 }, // Taunton
+  TD: { lat: 55.62, lng: -2.81 }, // Galashiels
+  TF: { lat: 52.68, lng: -2.45 }, // Telford
+  TN: { lat: 51.20, lng: 0.27 }, // Tonbridge
+  TQ: { lat: 50.46, lng: -3.53 }, // Torquay
+  TR: { lat: 50.26, lng: -5.05 }, // Truro
+  TS: { lat: 54.57, lng: -1.23 }, // Middlesbrough
+  TW: { lat: 51.45, lng: -0.33 }, // Twickenham
+  UB: { lat: 51.53, lng: -0.40 }, // Southall
+  W: { lat: 51.51, lng: -0.20 }, // London W
+  WA: { lat: 53.39, lng: -2.59 }, // Warrington
+  WC: { lat: 51.52, lng: -0.12 }, // London WC
+  WD: { lat: 51.66, lng: -0.40 }, // Watford
+  WF: { lat: 53.68, lng: -1.50 }, // Wakefield
+  WN: { lat: 53.55, lng: -2.63 }, // Wigan
+  WR: { lat: 52.19, lng: -2.22 }, // Worcester
+  WS: { lat: 52.59, lng: -1.98 }, // Walsall
+  WV: { lat: 52.59, lng: -2.13 }, // Wolverhampton
+  YO: { lat: 53.96, lng: -1.08 }, // York
+  ZE: { lat: 60.15, lng: -1.15 }, // Lerwick
+};
@@ -1,11 +1,37 @@
 /**
- * LLMClient - OpenAI-only LLM client
+ * LLMClient - Provider-agnostic LLM client
+ *
+ * Every LLM call in the system (Sentinel, Dial, Flow, Lyra, onboarding,
+ * AgentEngine) goes through LLMClient, which delegates to one LLMProvider.
+ *
+ * SELECTION:
+ * - LLM_PROVIDER=openai  (default) → OpenAI API (OPENAI_API_KEY)
+ * - LLM_PROVIDER=local             → OpenAI-compatible endpoint such as
+ *                                    llama.cpp or Ollama (LLM_LOCAL_BASE_URL)
+ * - LLM_PROVIDER=fixture           → recorded responses keyed by prompt hash,
+ *                                    no network (LLM_FIXTURES_PATH)
+ *
+ * Constructing an LLMClient never throws: a missing key only fails the
+ * generate() call that needs it. Tests can inject a provider directly with
+ * setLLMProvider() or new LLMClient(provider).
  */
 
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
 import OpenAI from 'openai';
 
-export type LLMProvider = 'openai';
-export type LLMModel = 'gpt-4' | 'gpt-4o' | 'gpt-4o-mini' | 'gpt-3.5-turbo';
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  TYPES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type LLMProviderName = 'openai' | 'local' | 'fixture';
+
+/** Model names the agents are tuned for (see ModelRouter) */
+export type OpenAIModel = 'gpt-4' | 'gpt-4o' | 'gpt-4o-mini' | 'gpt-3.5-turbo';
+
+/** Any model the configured provider understands, e.g. "llama3.1:8b" */
+export type LLMModel = OpenAIModel | (string & {});
 
 export interface LLMRequest {
   model: LLMModel;
@@ -24,41 +50,48 @@ export interface LLMResponse {
     totalTokens: number;
   };
   model: string;
-  provider: LLMProvider;
+  provider: LLMProviderName;
 }
 
-export class LLMClient {
-  private openai: OpenAI;
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  generate(request: LLMRequest): Promise<LLMResponse>;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  OPENAI PROVIDER
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const OPENAI_MODEL_MAP: Record<OpenAIModel, string> = {
+  'gpt-4': 'gpt-4-turbo-preview',
+  'gpt-4o': 'gpt-4o',
+  'gpt-4o-mini': 'gpt-4o-mini',
+  'gpt-3.5-turbo': 'gpt-3.5-turbo',
+};
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'openai';
+  protected openai: OpenAI;
 
-  constructor() {
-    if (!process.env.OPENAI_API_KEY) {
+  constructor(options: { apiKey?: string; baseURL?: string } = {}) {
+    const apiKey = options.apiKey ?? process.env.OPENAI_API_KEY;
+
+    if (!apiKey) {
       throw new Error('OPENAI_API_KEY environment variable is required');
     }
 
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+    this.openai = new OpenAI({ apiKey, baseURL: options.baseURL });
   }
 
   /**
-   * Generate completion with OpenAI
+   * Model name sent to the API for a requested model
    */
-  async generate(request: LLMRequest): Promise<LLMResponse> {
-    return await this.generateOpenAI(request);
+  protected resolveModel(model: LLMModel): string {
+    return OPENAI_MODEL_MAP[model as OpenAIModel] || model || 'gpt-4o-mini';
   }
 
-  /**
-   * Generate with OpenAI
-   */
-  private async generateOpenAI(request: LLMRequest): Promise<LLMResponse> {
-    const modelMap: Record<string, string> = {
-      'gpt-4': 'gpt-4-turbo-preview',
-      'gpt-4o': 'gpt-4o',
-      'gpt-4o-mini': 'gpt-4o-mini',
-      'gpt-3.5-turbo': 'gpt-3.5-turbo',
-    };
-
-    const model = modelMap[request.model] || 'gpt-4o-mini';
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const model = this.resolveModel(request.model);
 
     const messages: OpenAI.ChatCompletionMessageParam[] = [
       {
@@ -89,21 +122,274 @@ export class LLMClient {
         totalTokens: response.usage?.total_tokens || 0,
       },
       model,
-      provider: 'openai',
+      provider: this.name,
     };
   }
 }
 
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  LOCAL (OPENAI-COMPATIBLE) PROVIDER
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * llama.cpp server, Ollama, vLLM, LM Studio... anything serving /v1/chat/completions.
+ *
+ * Agents ask for OpenAI model names, which a local server won't have, so
+ * LLM_LOCAL_MODEL (when set) replaces every requested model.
+ */
+export class LocalLLMProvider extends OpenAIProvider {
+  readonly name: LLMProviderName = 'local';
+
+  constructor(
+    private readonly options: { baseURL: string; apiKey?: string; model?: string }
+  ) {
+    // Most local servers ignore the key, but the SDK insists on one
+    super({ baseURL: options.baseURL, apiKey: options.apiKey || 'local' });
+  }
+
+  protected resolveModel(model: LLMModel): string {
+    return this.options.model || model;
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  FIXTURE PROVIDER
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export interface LLMFixture {
+  content: string;
+  model?: string;
+  recordedAt?: string;
+  /** First characters of the user prompt, to find fixtures by eye */
+  promptPreview?: string;
+}
+
+export type LLMFixtureSet = Record<string, LLMFixture>;
+
+export interface FixtureCall {
+  hash: string;
+  request: LLMRequest;
+  hit: boolean;
+}
+
+/**
+ * Replays recorded responses keyed by a hash of the prompt.
+ *
+ * - The hash covers systemPrompt, userPrompt and jsonMode only, so
+ *   re-routing an agent to another model doesn't invalidate its fixtures
+ * - A prompt with no fixture throws (with the hash to record) unless a
+ *   recording provider is given, in which case the live answer is saved
+ * - Every call is recorded in `calls` so tests can assert on prompts
+ */
+export class FixtureLLMProvider implements LLMProvider {
+  readonly name = 'fixture' as const;
+
+  readonly calls: FixtureCall[] = [];
+
+  private fixtures: LLMFixtureSet;
+
+  constructor(
+    private readonly options: {
+      /** JSON file of fixtures; loaded now, written after each recording */
+      path?: string;
+      fixtures?: LLMFixtureSet;
+      /** Answer (and save) unknown prompts with this provider */
+      recordWith?: LLMProvider;
+    } = {}
+  ) {
+    this.fixtures = { ...loadFixtureFile(options.path), ...options.fixtures };
+  }
+
+  static hashPrompt(request: Pick<LLMRequest, 'systemPrompt' | 'userPrompt' | 'jsonMode'>): string {
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify([request.systemPrompt, request.userPrompt, request.jsonMode ?? false]))
+      .digest('hex');
+  }
+
+  /**
+   * Register a response for a prompt (or a precomputed hash)
+   */
+  add(prompt: LLMRequest | string, content: string): string {
+    const hash = typeof prompt === 'string' ? prompt : FixtureLLMProvider.hashPrompt(prompt);
+    this.fixtures[hash] = {
+      content,
+      ...(typeof prompt !== 'string' && { promptPreview: prompt.userPrompt.slice(0, 120) }),
+    };
+    return hash;
+  }
+
+  has(request: LLMRequest): boolean {
+    return FixtureLLMProvider.hashPrompt(request) in this.fixtures;
+  }
+
+  snapshot(): LLMFixtureSet {
+    return { ...this.fixtures };
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const hash = FixtureLLMProvider.hashPrompt(request);
+    const fixture = this.fixtures[hash];
+    this.calls.push({ hash, request, hit: !!fixture });
+
+    if (fixture) {
+      return {
+        content: fixture.content,
+        usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+        model: fixture.model || request.model,
+        provider: this.name,
+      };
+    }
+
+    if (!this.options.recordWith) {
+      throw new Error(
+        `No LLM fixture for prompt ${hash} (model ${request.model}): "${request.userPrompt.slice(0, 80)}". ` +
+          `Record it with LLM_FIXTURE_RECORD_WITH=openai|local.`
+      );
+    }
+
+    const response = await this.options.recordWith.generate(request);
+
+    this.fixtures[hash] = {
+      content: response.content,
+      model: response.model,
+      recordedAt: new Date().toISOString(),
+      promptPreview: request.userPrompt.slice(0, 120),
+    };
+    this.save();
+
+    console.log(`[LLM] Recorded fixture ${hash.slice(0, 12)} from ${response.provider}`);
+
+    return response;
+  }
+
+  /**
+   * Write fixtures to the configured file, sorted by hash for stable diffs
+   */
+  save(): void {
+    if (!this.options.path) return;
+
+    const sorted = Object.fromEntries(
+      Object.keys(this.fixtures)
+        .sort()
+        .map((hash) => [hash, this.fixtures[hash]])
+    );
+
+    fs.mkdirSync(path.dirname(this.options.path), { recursive: true });
+    fs.writeFileSync(this.options.path, JSON.stringify(sorted, null, 2) + '\n');
+  }
+}
+
+function loadFixtureFile(filePath: string | undefined): LLMFixtureSet {
+  if (!filePath || !fs.existsSync(filePath)) return {};
+
+  return JSON.parse(fs.readFileSync(filePath, 'utf8')) as LLMFixtureSet;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  PROVIDER REGISTRY (SINGLETON)
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+let activeProvider: LLMProvider | null = null;
+
+const DEFAULT_FIXTURES_PATH = 'fixtures/llm-fixtures.json';
+
+/**
+ * Which provider LLM_PROVIDER selects (defaults to openai)
+ */
+export function getConfiguredLLMProviderName(): LLMProviderName {
+  const name = process.env.LLM_PROVIDER;
+  return name === 'local' || name === 'fixture' ? name : 'openai';
+}
+
+/**
+ * Whether the configured provider has what it needs to answer
+ * (lets callers fall back to deterministic behaviour up front)
+ */
+export function isLLMConfigured(): boolean {
+  if (activeProvider) return true;
+
+  switch (getConfiguredLLMProviderName()) {
+    case 'local':
+      return !!process.env.LLM_LOCAL_BASE_URL;
+    case 'fixture':
+      return true;
+    default:
+      return !!process.env.OPENAI_API_KEY;
+  }
+}
+
+function createProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case 'local':
+      if (!process.env.LLM_LOCAL_BASE_URL) {
+        throw new Error('LLM_LOCAL_BASE_URL environment variable is required for LLM_PROVIDER=local');
+      }
+      return new LocalLLMProvider({
+        baseURL: process.env.LLM_LOCAL_BASE_URL,
+        apiKey: process.env.LLM_LOCAL_API_KEY,
+        model: process.env.LLM_LOCAL_MODEL,
+      });
+
+    case 'fixture': {
+      const recordWith = process.env.LLM_FIXTURE_RECORD_WITH;
+      return new FixtureLLMProvider({
+        path: process.env.LLM_FIXTURES_PATH || DEFAULT_FIXTURES_PATH,
+        recordWith:
+          recordWith === 'openai' || recordWith === 'local' ? createProvider(recordWith) : undefined,
+      });
+    }
+
+    default:
+      return new OpenAIProvider();
+  }
+}
+
+/**
+ * Get the active LLM provider (lazily created from LLM_PROVIDER)
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    activeProvider = createProvider(getConfiguredLLMProviderName());
+
+    console.log(`🧠 LLM provider initialized: ${activeProvider.name}`);
+  }
+
+  return activeProvider;
+}
+
+/**
+ * Override the active provider (tests, local harnesses).
+ * Pass null to fall back to LLM_PROVIDER on next use.
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  activeProvider = provider;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  CLIENT
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export class LLMClient {
+  constructor(private readonly provider?: LLMProvider) {}
+
+  /**
+   * Generate completion with the configured provider
+   */
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    return await (this.provider ?? getLLMProvider()).generate(request);
+  }
+}
+
 /**
  * Simple helper function for quick AI completions
  */
 export async function runModel(prompt: string): Promise<string> {
-  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
-  const completion = await openai.chat.completions.create({
+  const response = await new LLMClient().generate({
     model: 'gpt-4o-mini',
-    messages: [{ role: 'user', content: prompt }],
+    systemPrompt: '',
+    userPrompt: prompt,
   });
 
-  return completion.choices[0].message.content || '';
+  return response.content;
 }
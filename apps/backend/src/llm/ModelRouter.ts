@@ -1,8 +1,11 @@
 /**
- * ModelRouter - Selects the best LLM model for each agent (OpenAI only)
+ * ModelRouter - Selects the best LLM model for each agent
+ *
+ * Recommendations are OpenAI model names; a local provider maps them to
+ * its own model (see LLM_LOCAL_MODEL in LLMClient).
  */
 
-import type { LLMModel } from './LLMClient';
+import type { LLMModel, OpenAIModel } from './LLMClient';
 
 export class ModelRouter {
   /**
@@ -11,7 +14,7 @@ export class ModelRouter {
   getModelForAgent(
     agentName: string,
     tier: 'CORE' | 'AUTOMATION' | 'ELITE' | 'ADMIN'
-  ): LLMModel {
+  ): OpenAIModel {
     // Elite tier agents get the most powerful models
     if (tier === 'ELITE') {
       return this.getEliteModel(agentName);
@@ -34,7 +37,7 @@ export class ModelRouter {
   /**
    * Get model for Elite tier agents
    */
-  private getEliteModel(agentName: string): LLMModel {
+  private getEliteModel(agentName: string): OpenAIModel {
     const complexAgents = ['RevenueMaximiser', 'AIAdminAssistant'];
 
     if (complexAgents.includes(agentName)) {
@@ -47,7 +50,7 @@ export class ModelRouter {
   /**
    * Get model for Core tier agents
    */
-  private getCoreModel(agentName: string): LLMModel {
+  private getCoreModel(agentName: string): OpenAIModel {
     const simpleAgents = ['DataCleanup', 'DataValidator'];
 
     if (simpleAgents.includes(agentName)) {
@@ -65,7 +68,7 @@ export class ModelRouter {
   /**
    * Get model for Automation tier agents
    */
-  private getAutomationModel(agentName: string): LLMModel {
+  private getAutomationModel(agentName: string): OpenAIModel {
     const analyticalAgents = [
       'Insights',
       'PredictiveLoad',
@@ -93,14 +96,14 @@ export class ModelRouter {
    * Get fallback model if primary fails
    */
   getFallbackModel(primaryModel: LLMModel): LLMModel {
-    const fallbackMap: Record<LLMModel, LLMModel> = {
+    const fallbackMap: Record<OpenAIModel, OpenAIModel> = {
       'gpt-4': 'gpt-4o',
       'gpt-4o': 'gpt-4o-mini',
       'gpt-4o-mini': 'gpt-3.5-turbo',
       'gpt-3.5-turbo': 'gpt-4o-mini',
     };
 
-    return fallbackMap[primaryModel] || 'gpt-4o-mini';
+    return fallbackMap[primaryModel as OpenAIModel] || 'gpt-4o-mini';
   }
 
   /**
@@ -109,7 +112,7 @@ export class ModelRouter {
   estimateCost(model: LLMModel, inputTokens: number, outputTokens: number): number {
     // Approximate costs per 1M tokens (as of 2024)
     const pricing: Record<
-      LLMModel,
+      OpenAIModel,
       { input: number; output: number }
     > = {
       'gpt-4': { input: 30, output: 60 },
@@ -118,7 +121,13 @@ export class ModelRouter {
       'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
     };
 
-    const modelPricing = pricing[model];
+    const modelPricing = pricing[model as OpenAIModel];
+
+    // Local models cost nothing per token
+    if (!modelPricing) {
+      return 0;
+    }
+
     const inputCost = (inputTokens / 1_000_000) * modelPricing.input;
     const outputCost = (outputTokens / 1_000_000) * modelPricing.output;
 
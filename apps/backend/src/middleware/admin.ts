@@ -1,7 +1,16 @@
 import { Response, NextFunction } from 'express';
-import { AuthenticatedRequest } from '../types/express';
+import { AdminContext, AuthenticatedRequest } from '../types/express';
 import { sendError } from '../utils/response';
 import { ERROR_CODES, HTTP_STATUS } from '../utils/constants';
+import { prisma } from '../db';
+import { verifyClientUserToken } from '../utils/jwt';
+import {
+  ADMIN_PERMISSIONS,
+  AdminPermission,
+  isAdminApiKey,
+  isAdminPermission,
+  resolveAdminApiKey,
+} from '../services/AdminApiKeyService';
 
 /**
  * Admin role verification middleware
@@ -63,3 +72,138 @@ export function checkImpersonation(
 
   next();
 }
+
+/**
+ * Authentication for every /api/admin route
+ *
+ * Accepts either:
+ * - Authorization: Bearer <login JWT> of a user whose role is still ADMIN
+ *   (checked against the database, so demotions apply immediately)
+ * - X-Admin-Api-Key: <key>, or Authorization: Bearer <key>, for a key that
+ *   is neither revoked nor expired
+ *
+ * Sets req.admin; use requireAdminPermission on each route.
+ */
+export async function requireAdminAuth(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const credential = extractAdminCredential(req);
+
+  if (!credential) {
+    sendError(
+      res,
+      ERROR_CODES.UNAUTHORIZED,
+      'Admin credentials required',
+      HTTP_STATUS.UNAUTHORIZED
+    );
+    return;
+  }
+
+  try {
+    const admin = await resolveAdmin(credential);
+
+    if (!admin) {
+      console.warn('🚫 [AdminAuth] Rejected admin credentials', {
+        path: req.originalUrl,
+        method: req.method,
+        kind: isAdminApiKey(credential) ? 'API_KEY' : 'JWT',
+      });
+      sendError(
+        res,
+        ERROR_CODES.UNAUTHORIZED,
+        'Invalid, expired or revoked admin credentials',
+        HTTP_STATUS.UNAUTHORIZED
+      );
+      return;
+    }
+
+    req.admin = admin;
+    next();
+  } catch (error) {
+    console.error('[AdminAuth] Admin verification failed:', error);
+    sendError(
+      res,
+      ERROR_CODES.INTERNAL_ERROR,
+      'Admin verification failed',
+      HTTP_STATUS.INTERNAL_SERVER_ERROR
+    );
+  }
+}
+
+/**
+ * Require an admin permission (see AdminApiKeyService.ADMIN_PERMISSIONS).
+ * Must run after requireAdminAuth.
+ */
+export function requireAdminPermission(permission: AdminPermission) {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    if (!req.admin || !req.admin.permissions.includes(permission)) {
+      sendError(
+        res,
+        ERROR_CODES.FORBIDDEN,
+        `This admin credential does not allow this (${permission})`,
+        HTTP_STATUS.FORBIDDEN
+      );
+      return;
+    }
+
+    next();
+  };
+}
+
+function extractAdminCredential(req: AuthenticatedRequest): string | null {
+  const apiKeyHeader = req.headers['x-admin-api-key'];
+
+  if (typeof apiKeyHeader === 'string' && apiKeyHeader) {
+    return apiKeyHeader;
+  }
+
+  const authHeader = req.headers.authorization;
+
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    return authHeader.substring(7);
+  }
+
+  return null;
+}
+
+async function resolveAdmin(credential: string): Promise<AdminContext | null> {
+  if (isAdminApiKey(credential)) {
+    const apiKey = await resolveAdminApiKey(credential);
+
+    if (!apiKey) {
+      return null;
+    }
+
+    return {
+      id: `api_key:${apiKey.id}`,
+      source: 'API_KEY',
+      permissions: apiKey.permissions.filter(isAdminPermission),
+      apiKeyId: apiKey.id,
+      apiKeyName: apiKey.name,
+    };
+  }
+
+  const decoded = verifyClientUserToken(credential);
+
+  if (!decoded || decoded.role !== 'ADMIN') {
+    return null;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: decoded.id },
+    select: { id: true, email: true, role: true },
+  });
+
+  if (!user || user.role !== 'ADMIN') {
+    return null;
+  }
+
+  return {
+    id: user.id,
+    source: 'USER',
+    permissions: [...ADMIN_PERMISSIONS],
+    email: user.email,
+  };
+}
@@ -1,9 +1,8 @@
 import { Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
 import { AuthenticatedRequest } from '../types/express';
 import { sendError } from '../utils/response';
 import { ERROR_CODES, HTTP_STATUS } from '../utils/constants';
-import { env } from '../env';
+import { verifyClientUserToken } from '../utils/jwt';
 
 /**
  * JWT authentication middleware
@@ -28,14 +27,18 @@ export function authenticate(
     }
 
     const token = authHeader.substring(7);
-    const decoded = jwt.verify(token, env.JWT_SECRET) as {
-      id: string;
-      email: string;
-      role: string;
-      clientId?: string;
-    };
+    const decoded = verifyClientUserToken(token);
+
+    if (!decoded) {
+      throw new Error('Invalid token');
+    }
 
-    req.user = decoded;
+    req.user = {
+      id: decoded.id,
+      email: decoded.email,
+      role: decoded.role,
+      clientId: decoded.clientId ?? undefined,
+    };
     next();
   } catch (error) {
     sendError(
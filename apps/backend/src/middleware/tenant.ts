@@ -0,0 +1,187 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest, TenantContext } from '../types/express';
+import { sendError } from '../utils/response';
+import { ERROR_CODES, HTTP_STATUS } from '../utils/constants';
+import {
+  verifyImpersonationToken,
+  verifyClientUserToken,
+  isImpersonationPayload,
+  isTokenExpired,
+} from '../utils/jwt';
+import { ClientPermission, getMembership, hasPermission } from '../services/TeamService';
+
+type ResolvedToken = Omit<TenantContext, 'role'>;
+
+/**
+ * Tenant authentication for /api/client/* routes
+ *
+ * The tenant is derived from the token, never from the request:
+ * - Authorization: Bearer <login JWT>  → CLIENT user's clientId
+ * - Authorization: Bearer <impersonation token>
+ *   or X-Admin-Impersonation: <token> → impersonated clientId
+ *
+ * A clientId query parameter is still accepted for backwards compatibility
+ * but must match the token's tenant; anything else is rejected with 403.
+ *
+ * Login tokens must also belong to a current team member; the role is read
+ * from ClientMembership on every request so removals apply immediately.
+ */
+export async function requireTenant(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const token = extractToken(req);
+
+  if (!token) {
+    sendError(
+      res,
+      ERROR_CODES.UNAUTHORIZED,
+      'No token provided',
+      HTTP_STATUS.UNAUTHORIZED
+    );
+    return;
+  }
+
+  const tenant = resolveTenant(token);
+
+  if (!tenant) {
+    sendError(
+      res,
+      ERROR_CODES.UNAUTHORIZED,
+      'Invalid or expired token',
+      HTTP_STATUS.UNAUTHORIZED
+    );
+    return;
+  }
+
+  if (!tenant.clientId) {
+    sendError(
+      res,
+      ERROR_CODES.FORBIDDEN,
+      'Client access required',
+      HTTP_STATUS.FORBIDDEN
+    );
+    return;
+  }
+
+  const requestedClientId = req.query.clientId;
+
+  if (requestedClientId !== undefined && requestedClientId !== tenant.clientId) {
+    console.warn('🚫 [TenantAuth] Cross-tenant access blocked', {
+      path: req.originalUrl,
+      tokenClientId: tenant.clientId,
+      requestedClientId,
+      source: tenant.source,
+    });
+    sendError(
+      res,
+      ERROR_CODES.FORBIDDEN,
+      'Access to this client is not allowed',
+      HTTP_STATUS.FORBIDDEN
+    );
+    return;
+  }
+
+  if (tenant.source === 'IMPERSONATION') {
+    req.tenant = { ...tenant, role: 'OWNER' };
+    req.isImpersonating = true;
+    req.impersonationToken = token;
+    next();
+    return;
+  }
+
+  try {
+    const membership = await getMembership(tenant.clientId, tenant.userId!);
+
+    if (!membership) {
+      sendError(
+        res,
+        ERROR_CODES.FORBIDDEN,
+        'Not a member of this client',
+        HTTP_STATUS.FORBIDDEN
+      );
+      return;
+    }
+
+    req.tenant = { ...tenant, role: membership.role };
+    next();
+  } catch (error) {
+    console.error('[TenantAuth] Membership lookup failed:', error);
+    sendError(
+      res,
+      ERROR_CODES.INTERNAL_ERROR,
+      'Tenant verification failed',
+      HTTP_STATUS.INTERNAL_SERVER_ERROR
+    );
+  }
+}
+
+/**
+ * Require a team permission (see TeamService.ROLE_PERMISSIONS).
+ * Must run after requireTenant.
+ */
+export function requireClientPermission(permission: ClientPermission) {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    if (!req.tenant || !hasPermission(req.tenant.role, permission)) {
+      sendError(
+        res,
+        ERROR_CODES.FORBIDDEN,
+        `Your team role does not allow this (${permission})`,
+        HTTP_STATUS.FORBIDDEN
+      );
+      return;
+    }
+
+    next();
+  };
+}
+
+function extractToken(req: AuthenticatedRequest): string | null {
+  const authHeader = req.headers.authorization;
+
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    return authHeader.substring(7);
+  }
+
+  const impersonationHeader = req.headers['x-admin-impersonation'];
+
+  if (typeof impersonationHeader === 'string' && impersonationHeader) {
+    return impersonationHeader;
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a token to its tenant. Returns null for invalid/expired tokens;
+ * a valid token with no client binding resolves with an empty clientId.
+ */
+export function resolveTenant(token: string): ResolvedToken | null {
+  if (isImpersonationPayload(token)) {
+    const decoded = verifyImpersonationToken(token);
+
+    if (!decoded || isTokenExpired(decoded)) {
+      return null;
+    }
+
+    return {
+      clientId: decoded.clientId,
+      source: 'IMPERSONATION',
+      adminId: decoded.adminId,
+    };
+  }
+
+  const decoded = verifyClientUserToken(token);
+
+  if (!decoded) {
+    return null;
+  }
+
+  // ADMIN login tokens have no tenant; admins reach client data via impersonation
+  return {
+    clientId: decoded.role === 'CLIENT' && decoded.clientId ? decoded.clientId : '',
+    source: 'USER',
+    userId: decoded.id,
+  };
+}
@@ -1,7 +1,9 @@
 import { prisma } from '../../db';
 import { logger } from '../../utils/logger';
 import { doTimeRangesOverlap, addMinutes } from '../../utils/dateHelpers';
+import { Prisma } from '@prisma/client';
 import type { Booking, BookingStatus } from '@prisma/client';
+import { emitDomainEvent } from '../../services/DomainEvents';
 
 interface CreateBookingParams {
   clientId: string;
@@ -12,6 +14,10 @@ interface CreateBookingParams {
   customerPhone?: string;
   customerEmail?: string;
   notes?: string;
+  /** Technician/van doing the job; only its bookings can conflict */
+  resourceId?: string;
+  /** Job address or postcode */
+  location?: string;
 }
 
 interface AvailabilitySlot {
@@ -20,34 +26,59 @@ interface AvailabilitySlot {
   available: boolean;
 }
 
+/**
+ * Hold the client's booking lock until the transaction ends, so two requests
+ * can't both pass the conflict check for the same time. Per client rather
+ * than per resource, since an unassigned booking conflicts with all of them.
+ */
+export async function lockClientBookings(tx: Prisma.TransactionClient, clientId: string): Promise<void> {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`booking:${clientId}`}))`;
+}
+
 /**
  * Create a new booking
  */
 export async function createBooking(params: CreateBookingParams): Promise<Booking> {
   try {
-    // Check for conflicts
-    const conflicts = await detectConflicts(
-      params.clientId,
-      params.start,
-      params.end
-    );
-
-    if (conflicts.length > 0) {
-      throw new Error('Time slot conflicts with existing booking');
-    }
+    const booking = await prisma.$transaction(async (tx) => {
+      await lockClientBookings(tx, params.clientId);
 
-    const booking = await prisma.booking.create({
-      data: {
-        clientId: params.clientId,
-        customerId: params.customerId,
-        start: params.start,
-        end: params.end,
-        customerName: params.customerName,
-        customerPhone: params.customerPhone,
-        customerEmail: params.customerEmail,
-        notes: params.notes,
-        status: 'CONFIRMED',
-      },
+      // Check for conflicts
+      const conflicts = await detectConflicts(
+        params.clientId,
+        params.start,
+        params.end,
+        undefined,
+        params.resourceId,
+        tx
+      );
+
+      if (conflicts.length > 0) {
+        emitDomainEvent({
+          type: 'booking.conflict',
+          clientId: params.clientId,
+          start: params.start,
+          end: params.end,
+          conflictingBookingIds: conflicts.map((conflict) => conflict.id),
+        });
+        throw new Error('Time slot conflicts with existing booking');
+      }
+
+      return tx.booking.create({
+        data: {
+          clientId: params.clientId,
+          customerId: params.customerId,
+          start: params.start,
+          end: params.end,
+          customerName: params.customerName,
+          customerPhone: params.customerPhone,
+          customerEmail: params.customerEmail,
+          notes: params.notes,
+          resourceId: params.resourceId,
+          location: params.location,
+          status: 'CONFIRMED',
+        },
+      });
     });
 
     logger.info('Created booking', {
@@ -72,41 +103,57 @@ export async function updateBooking(
   data: Partial<CreateBookingParams>
 ): Promise<Booking> {
   try {
-    // If updating time, check for conflicts
-    if (data.start || data.end) {
-      const existing = await prisma.booking.findUnique({
-        where: { id: bookingId },
-      });
-
-      if (!existing) {
-        throw new Error('Booking not found');
-      }
-
-      const newStart = data.start || existing.start;
-      const newEnd = data.end || existing.end;
-
-      const conflicts = await detectConflicts(
-        existing.clientId,
-        newStart,
-        newEnd,
-        bookingId // Exclude this booking from conflict check
-      );
+    const booking = await prisma.$transaction(async (tx) => {
+      // If updating time, check for conflicts
+      if (data.start || data.end) {
+        const existing = await tx.booking.findUnique({
+          where: { id: bookingId },
+        });
+
+        if (!existing) {
+          throw new Error('Booking not found');
+        }
 
-      if (conflicts.length > 0) {
-        throw new Error('Time slot conflicts with existing booking');
+        await lockClientBookings(tx, existing.clientId);
+
+        const newStart = data.start || existing.start;
+        const newEnd = data.end || existing.end;
+
+        const conflicts = await detectConflicts(
+          existing.clientId,
+          newStart,
+          newEnd,
+          bookingId, // Exclude this booking from conflict check
+          data.resourceId ?? existing.resourceId ?? undefined,
+          tx
+        );
+
+        if (conflicts.length > 0) {
+          emitDomainEvent({
+            type: 'booking.conflict',
+            clientId: existing.clientId,
+            bookingId,
+            start: newStart,
+            end: newEnd,
+            conflictingBookingIds: conflicts.map((conflict) => conflict.id),
+          });
+          throw new Error('Time slot conflicts with existing booking');
+        }
       }
-    }
 
-    const booking = await prisma.booking.update({
-      where: { id: bookingId },
-      data: {
-        start: data.start,
-        end: data.end,
-        customerName: data.customerName,
-        customerPhone: data.customerPhone,
-        customerEmail: data.customerEmail,
-        notes: data.notes,
-      },
+      return tx.booking.update({
+        where: { id: bookingId },
+        data: {
+          start: data.start,
+          end: data.end,
+          customerName: data.customerName,
+          customerPhone: data.customerPhone,
+          customerEmail: data.customerEmail,
+          notes: data.notes,
+          resourceId: data.resourceId,
+          location: data.location,
+        },
+      });
     });
 
     logger.info('Updated booking', { bookingId });
@@ -179,19 +226,23 @@ export async function getBookingsByDateRange(
 }
 
 /**
- * Detect booking conflicts
+ * Detect booking conflicts (on one resource's calendar when resourceId is set).
+ * Pass the transaction holding lockClientBookings when a write follows.
  */
 export async function detectConflicts(
   clientId: string,
   start: Date,
   end: Date,
-  excludeBookingId?: string
+  excludeBookingId?: string,
+  resourceId?: string,
+  db: Prisma.TransactionClient = prisma
 ): Promise<Booking[]> {
-  const bookings = await prisma.booking.findMany({
+  const bookings = await db.booking.findMany({
     where: {
       clientId,
       status: 'CONFIRMED',
       ...(excludeBookingId && { id: { not: excludeBookingId } }),
+      ...(resourceId && { resourceId }),
     },
   });
 
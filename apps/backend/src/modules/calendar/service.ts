@@ -1,6 +1,6 @@
 import { prisma } from '../../db';
 import { logger } from '../../utils/logger';
-import { detectConflicts } from '../booking/service';
+import { detectConflicts, lockClientBookings } from '../booking/service';
 import type { Booking } from '@prisma/client';
 
 interface CalendarEvent {
@@ -28,25 +28,29 @@ export async function createCalendarEvent(params: {
   customerEmail?: string;
 }): Promise<Booking> {
   try {
-    // Check for conflicts
-    const conflicts = await detectConflicts(params.clientId, params.start, params.end);
-
-    if (conflicts.length > 0) {
-      throw new Error('Event conflicts with existing booking');
-    }
-
-    const event = await prisma.booking.create({
-      data: {
-        clientId: params.clientId,
-        customerId: params.customerId,
-        start: params.start,
-        end: params.end,
-        customerName: params.customerName,
-        customerPhone: params.customerPhone,
-        customerEmail: params.customerEmail,
-        notes: params.description,
-        status: 'CONFIRMED',
-      },
+    const event = await prisma.$transaction(async (tx) => {
+      await lockClientBookings(tx, params.clientId);
+
+      // Check for conflicts
+      const conflicts = await detectConflicts(params.clientId, params.start, params.end, undefined, undefined, tx);
+
+      if (conflicts.length > 0) {
+        throw new Error('Event conflicts with existing booking');
+      }
+
+      return tx.booking.create({
+        data: {
+          clientId: params.clientId,
+          customerId: params.customerId,
+          start: params.start,
+          end: params.end,
+          customerName: params.customerName,
+          customerPhone: params.customerPhone,
+          customerEmail: params.customerEmail,
+          notes: params.description,
+          status: 'CONFIRMED',
+        },
+      });
     });
 
     logger.info('Created calendar event', {
@@ -77,34 +81,40 @@ export async function updateCalendarEvent(
   }
 ): Promise<Booking> {
   try {
-    // If updating time, check for conflicts
-    if (data.start || data.end) {
-      const existing = await prisma.booking.findUnique({
-        where: { id: eventId },
-      });
-
-      if (!existing) {
-        throw new Error('Event not found');
+    const event = await prisma.$transaction(async (tx) => {
+      // If updating time, check for conflicts
+      if (data.start || data.end) {
+        const existing = await tx.booking.findUnique({
+          where: { id: eventId },
+        });
+
+        if (!existing) {
+          throw new Error('Event not found');
+        }
+
+        await lockClientBookings(tx, existing.clientId);
+
+        const newStart = data.start || existing.start;
+        const newEnd = data.end || existing.end;
+
+        const conflicts = await detectConflicts(
+          existing.clientId,
+          newStart,
+          newEnd,
+          eventId,
+          undefined,
+          tx
+        );
+
+        if (conflicts.length > 0) {
+          throw new Error('Event conflicts with existing booking');
+        }
       }
 
-      const newStart = data.start || existing.start;
-      const newEnd = data.end || existing.end;
-
-      const conflicts = await detectConflicts(
-        existing.clientId,
-        newStart,
-        newEnd,
-        eventId
-      );
-
-      if (conflicts.length > 0) {
-        throw new Error('Event conflicts with existing booking');
-      }
-    }
-
-    const event = await prisma.booking.update({
-      where: { id: eventId },
-      data,
+      return tx.booking.update({
+        where: { id: eventId },
+        data,
+      });
     });
 
     logger.info('Updated calendar event', { eventId });
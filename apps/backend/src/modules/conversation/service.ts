@@ -2,6 +2,8 @@ import { prisma } from '../../db';
 import { logger } from '../../utils/logger';
 import type { Conversation, Message, MessageDirection, MessageType, ConversationMode } from '@prisma/client';
 import { metrics, MetricConversationCreated } from '../../services/Metrics';
+import { initialDeliveryStatus } from '../../services/MessageDeliveryService';
+import { WebSocketGateway } from '../../realtime/WebSocketGateway';
 
 /**
  * Find or create a conversation for a customer
@@ -128,6 +130,7 @@ export async function addMessage(params: {
         body: params.body,
         twilioSid: params.twilioSid,
         metadata: params.metadata || undefined,
+        deliveryStatus: initialDeliveryStatus(params.direction, params.type, params.twilioSid),
       },
     });
 
@@ -145,6 +148,8 @@ export async function addMessage(params: {
       type: params.type,
     });
 
+    publishNewMessage(message);
+
     return message;
   } catch (error) {
     logger.error('Error adding message', error as Error);
@@ -152,6 +157,37 @@ export async function addMessage(params: {
   }
 }
 
+// How far back list endpoints look when counting unread messages
+export const UNREAD_SCAN_LIMIT = 20;
+
+/**
+ * Inbound messages since the business last replied (newest-first input).
+ * There are no per-user read receipts: a reply marks the thread read.
+ */
+export function countUnreadInbound(messagesNewestFirst: Pick<Message, 'direction'>[]): number {
+  const firstReply = messagesNewestFirst.findIndex((message) => message.direction !== 'INBOUND');
+  return firstReply === -1 ? messagesNewestFirst.length : firstReply;
+}
+
+/**
+ * Tell connected dashboards about a stored message (NEW_MESSAGE)
+ * Call once the message is committed; addMessage does this itself.
+ */
+export function publishNewMessage(message: Message): void {
+  WebSocketGateway.broadcastToClient(message.clientId, 'NEW_MESSAGE', {
+    messageId: message.id,
+    conversationId: message.conversationId,
+    customerId: message.customerId,
+    direction: message.direction,
+    type: message.type,
+    body: message.body,
+    deliveryStatus: message.deliveryStatus,
+    createdAt: message.createdAt,
+    // Echo of the sender's optimistic id (dashboard sends only)
+    clientRef: (message.metadata as { clientRef?: string } | null)?.clientRef ?? null,
+  });
+}
+
 /**
  * Get conversation with all messages
  */
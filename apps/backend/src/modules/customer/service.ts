@@ -1,6 +1,7 @@
 import { prisma } from '../../db';
 import { logger } from '../../utils/logger';
 import type { Customer } from '@prisma/client';
+import { emitDomainEvent } from '../../services/DomainEvents';
 
 /**
  * Find or create a customer by phone number
@@ -51,6 +52,8 @@ export async function findOrCreateCustomer(
       clientId,
     });
 
+    emitDomainEvent({ type: 'customer.created', clientId, customerId: customer.id, phone });
+
     return customer;
   } catch (error) {
     logger.error('Error in findOrCreateCustomer', error as Error);
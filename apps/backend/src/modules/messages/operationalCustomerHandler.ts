@@ -11,10 +11,8 @@
 
 import { prisma } from '../../db';
 import { logger } from '../../utils/logger';
-import { sendSMS } from '../../twilio/client';
-import { addMessage } from '../conversation/service';
+import { enqueueSms } from '../../services/OutboundQueue';
 import { metrics, MetricConversationInvariantViolationHandler } from '../../services/Metrics';
-import { MessageDirection, MessageType } from '@prisma/client';
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // TYPE DEFINITIONS
@@ -308,6 +306,34 @@ export async function handleOperationalCustomerReply(params: {
 // DECISION PATH HANDLERS
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
+/**
+ * Queue a reply to the customer from the client's number
+ *
+ * Recorded on the conversation once sent; failed sends retry from the queue.
+ * The customer has just texted us, so quiet hours don't apply.
+ */
+async function queueIntakeReply(
+  client: { twilioNumber: string | null },
+  params: {
+    conversationId: string;
+    clientId: string;
+    customerId: string;
+    customerPhone: string;
+  },
+  body: string
+): Promise<void> {
+  await enqueueSms({
+    to: params.customerPhone,
+    from: client.twilioNumber || process.env.TWILIO_NUMBER!,
+    body,
+    source: 'operational_intake',
+    clientId: params.clientId,
+    customerId: params.customerId,
+    conversationId: params.conversationId,
+    quietHours: false,
+  });
+}
+
 /**
  * PATH 1: Unclear job → Ask for more details
  */
@@ -332,21 +358,7 @@ This helps us help you faster 👍`;
 
   console.log('📤 Sending follow-up question to customer');
 
-  const twilioSid = await sendSMS(
-    params.customerPhone,
-    client.twilioNumber || process.env.TWILIO_NUMBER!,
-    followUpMessage
-  );
-
-  await addMessage({
-    conversationId: params.conversationId,
-    clientId: params.clientId,
-    customerId: params.customerId,
-    direction: MessageDirection.OUTBOUND,
-    type: MessageType.SMS,
-    body: followUpMessage,
-    twilioSid,
-  });
+  await queueIntakeReply(client, params, followUpMessage);
 
   console.log('✅ Follow-up question sent');
 }
@@ -388,11 +400,14 @@ Reply YES to accept or NO to decline.`;
     console.error('🚨 STACK TRACE:', new Error().stack);
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-    await sendSMS(
-      client.phoneNumber,
-      client.twilioNumber || process.env.TWILIO_NUMBER!,
-      clientNotification
-    );
+    await enqueueSms({
+      to: client.phoneNumber,
+      from: client.twilioNumber || process.env.TWILIO_NUMBER!,
+      body: clientNotification,
+      source: 'urgent_job_alert',
+      clientId: params.clientId,
+      quietHours: false,
+    });
 
     console.log('✅ Client notified of urgent job');
   } else {
@@ -408,21 +423,7 @@ Thank you 👍`;
 
   console.log('📤 Sending confirmation to customer');
 
-  const twilioSid = await sendSMS(
-    params.customerPhone,
-    client.twilioNumber || process.env.TWILIO_NUMBER!,
-    customerConfirmation
-  );
-
-  await addMessage({
-    conversationId: params.conversationId,
-    clientId: params.clientId,
-    customerId: params.customerId,
-    direction: MessageDirection.OUTBOUND,
-    type: MessageType.SMS,
-    body: customerConfirmation,
-    twilioSid,
-  });
+  await queueIntakeReply(client, params, customerConfirmation);
 
   console.log('✅ Customer confirmation sent');
 }
@@ -460,21 +461,7 @@ Thank you 👍`;
 
   console.log('📤 Sending booking confirmation to customer');
 
-  const twilioSid = await sendSMS(
-    params.customerPhone,
-    client.twilioNumber || process.env.TWILIO_NUMBER!,
-    bookingMessage
-  );
-
-  await addMessage({
-    conversationId: params.conversationId,
-    clientId: params.clientId,
-    customerId: params.customerId,
-    direction: MessageDirection.OUTBOUND,
-    type: MessageType.SMS,
-    body: bookingMessage,
-    twilioSid,
-  });
+  await queueIntakeReply(client, params, bookingMessage);
 
   console.log('✅ Booking message sent');
 }
@@ -5,6 +5,8 @@ import { logger } from '../../utils/logger';
 import { MessageDirection, MessageType } from '@prisma/client';
 import { sendCustomerMissedCallSms } from '../../utils/onboardingSms';
 import { prisma } from '../../db';
+import { checkRecipientConsent } from '../../services/ConsentService';
+import { emitDomainEvent } from '../../services/DomainEvents';
 
 /**
  * Route inbound SMS message
@@ -40,7 +42,13 @@ export async function routeInboundSMS(params: {
       twilioSid: params.twilioSid,
     });
 
-    // 4. Send placeholder auto-response
+    // 4. Send placeholder auto-response (unless customer texted STOP)
+    const consent = await checkRecipientConsent(params.clientId, params.from, 'inbound_router');
+    if (!consent.allowed) {
+      logger.info('Skipping auto-response - customer opted out', { customerId: customer.id });
+      return;
+    }
+
     const responseBody = 'Thanks for your message — JobRun Phase 2 router active.';
 
     const twilioSid = await sendSMS(params.from, params.to, responseBody);
@@ -123,7 +131,27 @@ export async function routeMissedCall(params: {
       },
     });
 
-    // 5. Send CUSTOMER-FACING missed call SMS (NOT onboarding SMS)
+    const missedCall = {
+      type: 'call.missed' as const,
+      clientId: params.clientId,
+      customerId: customer.id,
+      conversationId: conversation.id,
+      from: params.from,
+      callSid: params.callSid,
+    };
+
+    // 5. Respect STOP - the missed call is still logged above
+    const consent = await checkRecipientConsent(params.clientId, params.from, 'missed_call');
+    if (!consent.allowed) {
+      logger.info('🔕 [OPERATIONAL] Customer opted out - missed call SMS not sent', {
+        customerId: customer.id,
+        conversationId: conversation.id,
+      });
+      emitDomainEvent(missedCall);
+      return;
+    }
+
+    // 6. Send CUSTOMER-FACING missed call SMS (NOT onboarding SMS)
     logger.info('📤 [OPERATIONAL] Sending customer missed call SMS', {
       to: params.from,
       from: params.to,
@@ -136,7 +164,7 @@ export async function routeMissedCall(params: {
       client.businessName
     );
 
-    // 6. Save outbound SMS message to database
+    // 7. Save outbound SMS message to database
     await addMessage({
       conversationId: conversation.id,
       clientId: params.clientId,
@@ -152,6 +180,8 @@ export async function routeMissedCall(params: {
       conversationId: conversation.id,
       smsType: 'CUSTOMER_MISSED_CALL',
     });
+
+    emitDomainEvent(missedCall);
   } catch (error) {
     logger.error('❌ [OPERATIONAL] Error routing missed call', error as Error);
     throw error;
@@ -1,11 +1,32 @@
 /**
  * WebSocket Gateway
  * Phase 13: Real-time event broadcasting for JobRun
+ *
+ * CONNECTING:
+ *   ws://host/?token=<dashboard JWT or impersonation token>[&topics=lead,handover]
+ *   (an Authorization: Bearer header works too for non-browser clients)
+ *   The tenant comes from the token, exactly like /api/client/* routes.
+ *
+ * SUBSCRIPTIONS:
+ *   A socket only receives events for topics it subscribed to:
+ *     { "action": "subscribe", "topics": ["conversation:abc", "handover"] }
+ *     { "action": "unsubscribe", "topics": ["conversation:abc"] }
+ *   Topics are "<kind>" (everything of that kind for the tenant) or
+ *   "<kind>:<id>" (one conversation / lead / handover / booking).
+ *   Events never cross tenants regardless of the topic requested.
+ *
+ * FAN-OUT:
+ *   Events go out through the realtime backplane (see backplane.ts) and are
+ *   delivered to local sockets when they come back, so every replica sees them.
  */
 
 import { Server as HTTPServer } from "http"
 import { WebSocketServer, WebSocket } from "ws"
 import { IncomingMessage } from "http"
+import { TenantContext } from "../types/express"
+import { resolveTenant } from "../middleware/tenant"
+import { getMembership } from "../services/TeamService"
+import { getBackplane, RealtimeEnvelope } from "./backplane"
 
 export type WebSocketEventType =
   | "NEW_MESSAGE"
@@ -15,45 +36,105 @@ export type WebSocketEventType =
   | "BOOKING_UPDATED"
   | "AVAILABILITY_UPDATED"
 
+/** Frames about the socket itself rather than tenant data */
+export type WebSocketControlType = "CONNECTED" | "SUBSCRIBED" | "PONG" | "ERROR"
+
 export interface WebSocketEvent {
-  type: WebSocketEventType
+  type: WebSocketEventType | WebSocketControlType
   data: any
-  timestamp: Date
+  timestamp: Date | string
+  topics?: string[]
+}
+
+export const TOPIC_KINDS = ["conversation", "lead", "handover", "bookings"] as const
+export type TopicKind = (typeof TOPIC_KINDS)[number]
+
+const TOPIC_PATTERN = new RegExp(`^(${TOPIC_KINDS.join("|")})(:[A-Za-z0-9_-]+)?$`)
+
+// Which topic kinds each event is published on, and the data field holding the id
+const EVENT_TOPICS: Record<WebSocketEventType, Array<[TopicKind, string]>> = {
+  NEW_MESSAGE: [["conversation", "conversationId"], ["lead", "customerId"]],
+  NEW_HANDOVER: [["handover", "conversationId"], ["conversation", "conversationId"]],
+  HANDOVER_RESOLVED: [["handover", "conversationId"], ["conversation", "conversationId"]],
+  BOOKING_CREATED: [["bookings", "bookingId"], ["lead", "customerId"]],
+  BOOKING_UPDATED: [["bookings", "bookingId"], ["lead", "customerId"]],
+  AVAILABILITY_UPDATED: [["bookings", ""]],
+}
+
+/**
+ * Topics an event is published on, derived from its payload
+ * e.g. NEW_MESSAGE { conversationId: "c1", customerId: "l1" }
+ *   → conversation, conversation:c1, lead, lead:l1
+ */
+export function eventTopics(type: WebSocketEventType, data: any): string[] {
+  const topics: string[] = []
+
+  for (const [kind, idField] of EVENT_TOPICS[type]) {
+    topics.push(kind)
+    const id = idField ? data?.[idField] : undefined
+    if (id) topics.push(`${kind}:${id}`)
+  }
+
+  return Array.from(new Set(topics))
+}
+
+export function isValidTopic(topic: unknown): topic is string {
+  return typeof topic === "string" && TOPIC_PATTERN.test(topic)
 }
 
 interface ClientConnection {
   ws: WebSocket
   clientId: string
+  tenant: TenantContext
+  topics: Set<string>
   connectedAt: Date
 }
 
 export class WebSocketGateway {
   private static wss: WebSocketServer | null = null
   private static connections: Map<string, ClientConnection[]> = new Map()
+  private static tenants: WeakMap<IncomingMessage, TenantContext> = new WeakMap()
 
   /**
-   * Initialize WebSocket server
+   * Initialize WebSocket server and start listening on the backplane
    */
-  static initialize(httpServer: HTTPServer): void {
-    this.wss = new WebSocketServer({ server: httpServer })
+  static async initialize(httpServer: HTTPServer): Promise<void> {
+    this.wss = new WebSocketServer({
+      server: httpServer,
+      verifyClient: (info, done) => {
+        this.authenticate(info.req)
+          .then((tenant) => {
+            if (!tenant) {
+              console.log("[WebSocket] Rejected: missing or invalid token")
+              return done(false, 401, "Unauthorized")
+            }
+            this.tenants.set(info.req, tenant)
+            done(true)
+          })
+          .catch((error) => {
+            console.error("[WebSocket] Authentication failed:", error)
+            done(false, 500, "Authentication failed")
+          })
+      },
+    })
 
     this.wss.on("connection", (ws: WebSocket, request: IncomingMessage) => {
-      console.log("[WebSocket] New connection attempt")
-
-      // Extract clientId from query params or headers
-      const url = new URL(request.url || "", `http://${request.headers.host}`)
-      const clientId = url.searchParams.get("clientId")
-
-      if (!clientId) {
-        console.log("[WebSocket] Rejected: No clientId provided")
-        ws.close(1008, "clientId required")
+      const tenant = this.tenants.get(request)
+      if (!tenant) {
+        ws.close(1008, "Unauthorized")
         return
       }
 
+      const clientId = tenant.clientId
+      const url = new URL(request.url || "", `http://${request.headers.host}`)
+      const initialTopics = (url.searchParams.get("topics") || "").split(",").filter(isValidTopic)
+
       // Store connection
       const connection: ClientConnection = {
         ws,
         clientId,
+        tenant,
+        topics: new Set(initialTopics),
         connectedAt: new Date(),
       }
 
@@ -65,10 +146,10 @@ export class WebSocketGateway {
       console.log(`[WebSocket] Client connected: ${clientId} (${this.connections.get(clientId)!.length} connections)`)
 
       // Send welcome message
-      this.sendToConnection(ws, {
-        type: "NEW_MESSAGE" as WebSocketEventType,
-        data: { message: "Connected to JobRun WebSocket" },
-        timestamp: new Date(),
+      this.sendControl(ws, "CONNECTED", {
+        clientId,
+        role: tenant.role,
+        topics: Array.from(connection.topics),
       })
 
       // Handle disconnection
@@ -83,21 +164,90 @@ export class WebSocketGateway {
         this.removeConnection(clientId, ws)
       })
 
-      // Handle incoming messages (optional - for future bidirectional communication)
+      // Subscription management
       ws.on("message", (data: any) => {
-        try {
-          const message = JSON.parse(data.toString())
-          console.log(`[WebSocket] Received from ${clientId}:`, message)
-          // Handle incoming messages here if needed
-        } catch (error) {
-          console.error("[WebSocket] Failed to parse message:", error)
-        }
+        this.handleClientMessage(connection, data)
       })
     })
 
+    await getBackplane().start((envelope) => this.deliver(envelope))
+
     console.log("[WebSocket] Gateway initialized")
   }
 
+  /**
+   * Resolve the connecting socket's tenant from its token
+   * Same rules as requireTenant: login tokens need a current membership.
+   */
+  static async authenticate(request: IncomingMessage): Promise<TenantContext | null> {
+    const url = new URL(request.url || "", `http://${request.headers.host}`)
+    const authHeader = request.headers.authorization
+    const token =
+      url.searchParams.get("token") ||
+      (authHeader?.startsWith("Bearer ") ? authHeader.substring(7) : null)
+
+    if (!token) return null
+
+    const resolved = resolveTenant(token)
+    if (!resolved || !resolved.clientId) return null
+
+    const requestedClientId = url.searchParams.get("clientId")
+    if (requestedClientId && requestedClientId !== resolved.clientId) {
+      console.warn("🚫 [WebSocket] Cross-tenant connection blocked", {
+        tokenClientId: resolved.clientId,
+        requestedClientId,
+      })
+      return null
+    }
+
+    if (resolved.source === "IMPERSONATION") {
+      return { ...resolved, role: "OWNER" }
+    }
+
+    const membership = await getMembership(resolved.clientId, resolved.userId!)
+    return membership ? { ...resolved, role: membership.role } : null
+  }
+
+  /**
+   * Handle subscribe / unsubscribe / ping frames from a socket
+   */
+  private static handleClientMessage(connection: ClientConnection, data: any): void {
+    let message: any
+    try {
+      message = JSON.parse(data.toString())
+    } catch (error) {
+      this.sendControl(connection.ws, "ERROR", { message: "Invalid JSON" })
+      return
+    }
+
+    if (message?.action === "ping") {
+      this.sendControl(connection.ws, "PONG", {})
+      return
+    }
+
+    if (message?.action !== "subscribe" && message?.action !== "unsubscribe") {
+      this.sendControl(connection.ws, "ERROR", { message: "Unknown action" })
+      return
+    }
+
+    const topics: unknown[] = Array.isArray(message.topics) ? message.topics : []
+    const invalid = topics.filter((topic) => !isValidTopic(topic))
+    if (invalid.length > 0 || topics.length === 0) {
+      this.sendControl(connection.ws, "ERROR", {
+        message: `Invalid topics. Use <kind> or <kind>:<id> where kind is ${TOPIC_KINDS.join(", ")}`,
+        invalid,
+      })
+      return
+    }
+
+    for (const topic of topics as string[]) {
+      if (message.action === "subscribe") connection.topics.add(topic)
+      else connection.topics.delete(topic)
+    }
+
+    this.sendControl(connection.ws, "SUBSCRIBED", { topics: Array.from(connection.topics) })
+  }
+
   /**
    * Remove a connection from the map
    */
@@ -122,54 +272,76 @@ export class WebSocketGateway {
     }
   }
 
+  private static sendControl(ws: WebSocket, type: WebSocketControlType, data: any): void {
+    this.sendToConnection(ws, { type, data, timestamp: new Date() })
+  }
+
   /**
-   * Broadcast event to all connections of a specific client
+   * Deliver an event from the backplane to matching local sockets
    */
-  static broadcastToClient(clientId: string, type: WebSocketEventType, data: any): void {
-    const connections = this.connections.get(clientId)
-    if (!connections || connections.length === 0) {
-      console.log(`[WebSocket] No connections for client ${clientId}`)
-      return
-    }
+  static deliver(envelope: RealtimeEnvelope): number {
+    const targets =
+      envelope.clientId === null
+        ? Array.from(this.connections.values()).flat()
+        : this.connections.get(envelope.clientId) || []
 
     const event: WebSocketEvent = {
-      type,
-      data,
-      timestamp: new Date(),
+      type: envelope.type as WebSocketEventType,
+      data: envelope.data,
+      timestamp: envelope.timestamp,
+      topics: envelope.topics,
     }
 
     let sentCount = 0
-    connections.forEach((connection) => {
-      if (connection.ws.readyState === WebSocket.OPEN) {
+    targets.forEach((connection) => {
+      const subscribed =
+        envelope.topics.length === 0 || envelope.topics.some((topic) => connection.topics.has(topic))
+
+      if (subscribed && connection.ws.readyState === WebSocket.OPEN) {
         this.sendToConnection(connection.ws, event)
         sentCount++
       }
     })
 
-    console.log(`[WebSocket] Broadcasted ${type} to ${sentCount} connection(s) for client ${clientId}`)
+    if (sentCount > 0) {
+      console.log(`[WebSocket] Delivered ${envelope.type} to ${sentCount} connection(s)${envelope.clientId ? ` for client ${envelope.clientId}` : ""}`)
+    }
+
+    return sentCount
+  }
+
+  /**
+   * Publish event to all subscribed connections of a specific client, on every replica
+   * Topics are derived from the payload (see eventTopics) unless given.
+   */
+  static broadcastToClient(
+    clientId: string,
+    type: WebSocketEventType,
+    data: any,
+    topics: string[] = eventTopics(type, data)
+  ): void {
+    this.publish({ clientId, topics, type, data, timestamp: new Date().toISOString() })
   }
 
   /**
-   * Broadcast event to all connected clients
+   * Broadcast event to all connected clients, on every replica
    */
   static broadcastGlobal(type: WebSocketEventType, data: any): void {
-    const event: WebSocketEvent = {
-      type,
-      data,
-      timestamp: new Date(),
-    }
+    this.publish({ clientId: null, topics: [], type, data, timestamp: new Date().toISOString() })
+  }
 
-    let sentCount = 0
-    this.connections.forEach((connections, clientId) => {
-      connections.forEach((connection) => {
-        if (connection.ws.readyState === WebSocket.OPEN) {
-          this.sendToConnection(connection.ws, event)
-          sentCount++
-        }
-      })
-    })
+  /**
+   * Fire-and-forget: a realtime hiccup must never fail the request that raised the event
+   */
+  private static publish(envelope: RealtimeEnvelope): void {
+    // Scripts and tests that never start the gateway have nobody to tell
+    if (!this.wss) return
 
-    console.log(`[WebSocket] Broadcasted ${type} globally to ${sentCount} connection(s)`)
+    getBackplane()
+      .publish(envelope)
+      .catch((error) => {
+        console.error(`[WebSocket] Failed to publish ${envelope.type}:`, error)
+      })
   }
 
   /**
@@ -190,7 +362,7 @@ export class WebSocketGateway {
   /**
    * Close all connections
    */
-  static close(): void {
+  static async close(): Promise<void> {
     this.connections.forEach((connections) => {
       connections.forEach((connection) => {
         connection.ws.close()
@@ -203,6 +375,8 @@ export class WebSocketGateway {
       this.wss = null
     }
 
+    await getBackplane().stop()
+
     console.log("[WebSocket] Gateway closed")
   }
 }
@@ -0,0 +1,197 @@
+/**
+ * Realtime Backplane
+ *
+ * Carries WebSocket events between replicas. Every event the gateway
+ * publishes goes through the backplane and is delivered to local sockets
+ * when it comes back out, so a browser connected to replica A sees events
+ * raised by a Twilio webhook handled on replica B.
+ *
+ * SELECTION:
+ * - REALTIME_BACKPLANE=postgres (default) → LISTEN/NOTIFY on DATABASE_URL
+ * - REALTIME_BACKPLANE=memory             → this process only (single instance, tests)
+ *
+ * Tests can also inject a backplane directly with setBackplane().
+ */
+
+import { Client } from "pg"
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  TYPES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type BackplaneName = "postgres" | "memory"
+
+export interface RealtimeEnvelope {
+  /** Tenant the event belongs to; null = every connection */
+  clientId: string | null
+  /** Topics the event is published on; empty = every subscriber in scope */
+  topics: string[]
+  type: string
+  data: any
+  timestamp: string
+}
+
+export type EnvelopeHandler = (envelope: RealtimeEnvelope) => void
+
+export interface RealtimeBackplane {
+  readonly name: BackplaneName
+  start(handler: EnvelopeHandler): Promise<void>
+  publish(envelope: RealtimeEnvelope): Promise<void>
+  stop(): Promise<void>
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  IN-MEMORY BACKPLANE
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export class InMemoryBackplane implements RealtimeBackplane {
+  readonly name = "memory" as const
+  private handler: EnvelopeHandler | null = null
+
+  async start(handler: EnvelopeHandler): Promise<void> {
+    this.handler = handler
+  }
+
+  async publish(envelope: RealtimeEnvelope): Promise<void> {
+    this.handler?.(envelope)
+  }
+
+  async stop(): Promise<void> {
+    this.handler = null
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  POSTGRES LISTEN/NOTIFY BACKPLANE
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const REALTIME_CHANNEL = "jobrun_realtime"
+
+// NOTIFY payloads are capped at 8000 bytes by Postgres
+const MAX_NOTIFY_BYTES = 7900
+const RECONNECT_DELAY_MS = 5000
+
+/**
+ * One dedicated pg connection per replica (Prisma cannot LISTEN).
+ * NOTIFY is delivered to the publishing connection too, so local sockets
+ * receive events through the same path as remote ones.
+ */
+export class PostgresBackplane implements RealtimeBackplane {
+  readonly name = "postgres" as const
+  private client: Client | null = null
+  private handler: EnvelopeHandler | null = null
+  private reconnectTimer: NodeJS.Timeout | null = null
+  private stopped = false
+
+  constructor(private readonly connectionString: string) {}
+
+  async start(handler: EnvelopeHandler): Promise<void> {
+    this.handler = handler
+    this.stopped = false
+    await this.connect()
+  }
+
+  async publish(envelope: RealtimeEnvelope): Promise<void> {
+    const payload = JSON.stringify(envelope)
+
+    // Too large for NOTIFY, or not connected: deliver locally rather than drop
+    if (!this.client || Buffer.byteLength(payload) > MAX_NOTIFY_BYTES) {
+      console.warn(`[Backplane] ${envelope.type} delivered to this replica only (${this.client ? "payload too large" : "not connected"})`)
+      this.handler?.(envelope)
+      return
+    }
+
+    try {
+      await this.client.query("SELECT pg_notify($1, $2)", [REALTIME_CHANNEL, payload])
+    } catch (error) {
+      console.error("[Backplane] NOTIFY failed, delivering locally:", error)
+      this.handler?.(envelope)
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+    const client = this.client
+    this.client = null
+    await client?.end().catch(() => {})
+  }
+
+  private async connect(): Promise<void> {
+    const client = new Client({ connectionString: this.connectionString })
+
+    client.on("notification", (message) => {
+      if (message.channel !== REALTIME_CHANNEL || !message.payload) return
+      try {
+        this.handler?.(JSON.parse(message.payload))
+      } catch (error) {
+        console.error("[Backplane] Dropped malformed notification:", error)
+      }
+    })
+
+    client.on("error", (error) => {
+      console.error("[Backplane] Connection error:", error.message)
+      this.scheduleReconnect(client)
+    })
+
+    client.on("end", () => this.scheduleReconnect(client))
+
+    try {
+      await client.connect()
+      await client.query(`LISTEN ${REALTIME_CHANNEL}`)
+      this.client = client
+      console.log(`[Backplane] Listening on ${REALTIME_CHANNEL}`)
+    } catch (error) {
+      console.error("[Backplane] Failed to connect:", error)
+      this.scheduleReconnect(client)
+    }
+  }
+
+  private scheduleReconnect(client: Client): void {
+    if (this.client === client) this.client = null
+    if (this.stopped || this.reconnectTimer) return
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      this.connect()
+    }, RECONNECT_DELAY_MS)
+    client.end().catch(() => {})
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  SELECTION
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+let activeBackplane: RealtimeBackplane | null = null
+
+export function getConfiguredBackplaneName(): BackplaneName {
+  return process.env.REALTIME_BACKPLANE === "memory" ? "memory" : "postgres"
+}
+
+/**
+ * Get the active backplane (lazily created from REALTIME_BACKPLANE)
+ */
+export function getBackplane(): RealtimeBackplane {
+  if (!activeBackplane) {
+    activeBackplane =
+      getConfiguredBackplaneName() === "postgres" && process.env.DATABASE_URL
+        ? new PostgresBackplane(process.env.DATABASE_URL)
+        : new InMemoryBackplane()
+
+    console.log(`📡 Realtime backplane initialized: ${activeBackplane.name}`)
+  }
+
+  return activeBackplane
+}
+
+/**
+ * Override the active backplane (tests, local harnesses).
+ * Pass null to fall back to REALTIME_BACKPLANE on next use.
+ */
+export function setBackplane(backplane: RealtimeBackplane | null): void {
+  activeBackplane = backplane
+}
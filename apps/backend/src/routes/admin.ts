@@ -1,19 +1,74 @@
-import { Router } from "express";
+import { Request, Router } from "express";
 import { prisma } from "../db";
 import { sendSuccess, sendError } from "../utils/response";
 import { StuckClientDetector } from "../services/StuckClientDetector";
 import { isOnboardingComplete } from "../utils/onboardingUtils";
 import { isPaymentValid } from "../utils/billingUtils";
+import { listJobs, getJobRuns, triggerJob, setJobPaused } from "../jobs/scheduler";
+import { ConversationMemory } from "../services/ConversationMemory";
+import {
+  getQueueOverview,
+  listOutboundMessages,
+  retryOutboundMessage,
+  cancelOutboundMessage,
+} from "../services/OutboundQueue";
+import {
+  getWebhookCounts,
+  listWebhookEvents,
+  redriveWebhookEvent,
+} from "../services/WebhookLedger";
+import { requireAdminAuth, requireAdminPermission } from "../middleware/admin";
+import { logAdminAction } from "../services/AdminActions";
+import {
+  ADMIN_PERMISSIONS,
+  createAdminApiKey,
+  listAdminApiKeys,
+  revokeAdminApiKey,
+} from "../services/AdminApiKeyService";
+import { AdminContext, AuthenticatedRequest } from "../types/express";
+import { OutboundMessageStatus, WebhookEventStatus, WebhookProvider } from "@prisma/client";
 
 const router = Router();
 
 /**
- * ⭐ TEMPORARY: Make dashboard stats PUBLIC
- * (The UI cannot authenticate yet — this allows development to continue)
+ * Every /api/admin route needs an ADMIN login token or an admin API key
+ * (middleware/admin.ts), plus the permission named on the route. Every
+ * mutation is written to admin_actions under the caller's adminId.
  */
+router.use(requireAdminAuth);
+
+const canRead = requireAdminPermission("ADMIN_READ");
+const canWriteClients = requireAdminPermission("CLIENTS_WRITE");
+const canImpersonate = requireAdminPermission("CLIENTS_IMPERSONATE");
+const canDeleteClients = requireAdminPermission("CLIENTS_DELETE");
+const canOperate = requireAdminPermission("OPERATIONS_WRITE");
+const canManageKeys = requireAdminPermission("API_KEYS_MANAGE");
+
+function adminOf(req: Request): AdminContext {
+  return (req as AuthenticatedRequest).admin!;
+}
+
+/**
+ * Audit a mutation as the authenticated admin (AdminAction row)
+ */
+async function audit(
+  req: Request,
+  action: string,
+  clientId: string | null,
+  metadata: Record<string, any> = {},
+  reason: string | null = null
+): Promise<void> {
+  const admin = adminOf(req);
+
+  await logAdminAction(admin.id, clientId, action, reason, {
+    ...metadata,
+    via: admin.source,
+    ...(admin.apiKeyName ? { apiKeyName: admin.apiKeyName } : {}),
+  });
+}
 
 // GET /api/admin/dashboard/stats
-router.get("/dashboard/stats", async (req, res) => {
+router.get("/dashboard/stats", canRead, async (req, res) => {
   try {
     // Ensure Prisma connection is active for admin queries
     await prisma.$connect();
@@ -131,7 +186,7 @@ router.get("/dashboard/stats", async (req, res) => {
 });
 
 // GET /api/admin/clients
-router.get("/clients", async (req, res) => {
+router.get("/clients", canRead, async (req, res) => {
   try {
     const clients = await prisma.client.findMany({
       include: {
@@ -154,7 +209,7 @@ router.get("/clients", async (req, res) => {
 });
 
 // GET /api/admin/clients/:id
-router.get("/clients/:id", async (req, res) => {
+router.get("/clients/:id", canRead, async (req, res) => {
   try {
     const { id } = req.params;
 
@@ -194,8 +249,19 @@ router.get("/clients/:id", async (req, res) => {
   }
 });
 
+function pickClientFields(client: {
+  businessName: string;
+  phoneNumber: string | null;
+  twilioNumber: string | null;
+  region: string | null;
+  timezone: string;
+}) {
+  const { businessName, phoneNumber, twilioNumber, region, timezone } = client;
+  return { businessName, phoneNumber, twilioNumber, region, timezone };
+}
+
 // PUT /api/admin/clients/:id
-router.put("/clients/:id", async (req, res) => {
+router.put("/clients/:id", canWriteClients, async (req, res) => {
   try {
     const { id } = req.params;
     const { businessName, phoneNumber, twilioNumber, region, timezone } = req.body;
@@ -230,6 +296,11 @@ router.put("/clients/:id", async (req, res) => {
       }
     });
 
+    await audit(req, "update_client", id, {
+      before: pickClientFields(existingClient),
+      after: pickClientFields(updatedClient),
+    });
+
     sendSuccess(res, { client: updatedClient });
   } catch (error) {
     console.error("Failed to update client:", error);
@@ -238,10 +309,10 @@ router.put("/clients/:id", async (req, res) => {
 });
 
 // POST /api/admin/clients/:id/impersonate
-router.post("/clients/:id/impersonate", async (req, res) => {
+router.post("/clients/:id/impersonate", canImpersonate, async (req, res) => {
   try {
     const { id } = req.params;
-    const adminId = req.body.adminId || "admin"; // TODO: Get from auth session
+    const adminId = adminOf(req).id;
 
     const client = await prisma.client.findUnique({
       where: { id }
@@ -266,6 +337,8 @@ router.post("/clients/:id/impersonate", async (req, res) => {
       }
     });
 
+    await audit(req, "impersonate_client", client.id, { expiresAt: expiresAt.toISOString() });
+
     sendSuccess(res, {
       token,
       clientId: client.id,
@@ -279,7 +352,7 @@ router.post("/clients/:id/impersonate", async (req, res) => {
 });
 
 // GET /api/admin/calendar
-router.get("/calendar", async (req, res) => {
+router.get("/calendar", canRead, async (req, res) => {
   try {
     const bookings = await prisma.booking.findMany({
       take: 100,
@@ -307,7 +380,7 @@ router.get("/calendar", async (req, res) => {
 });
 
 // GET /api/admin/analytics
-router.get("/analytics", async (req, res) => {
+router.get("/analytics", canRead, async (req, res) => {
   try {
     const now = new Date();
     const last30Days = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
@@ -347,7 +420,7 @@ router.get("/analytics", async (req, res) => {
 });
 
 // GET /api/admin/agents
-router.get("/agents", async (req, res) => {
+router.get("/agents", canRead, async (req, res) => {
   try {
     const agentLogs = await prisma.agentLog.findMany({
       take: 100,
@@ -375,7 +448,7 @@ router.get("/agents", async (req, res) => {
 });
 
 // GET /api/admin/agents/:name
-router.get("/agents/:name", async (req, res) => {
+router.get("/agents/:name", canRead, async (req, res) => {
   try {
     const { name } = req.params;
 
@@ -393,7 +466,7 @@ router.get("/agents/:name", async (req, res) => {
 });
 
 // GET /api/admin/messages
-router.get("/messages", async (req, res) => {
+router.get("/messages", canRead, async (req, res) => {
   try {
     const limit = parseInt(req.query.limit as string) || 100;
     const offset = parseInt(req.query.offset as string) || 0;
@@ -443,7 +516,7 @@ router.get("/messages", async (req, res) => {
 });
 
 // GET /api/admin/system
-router.get("/system", async (req, res) => {
+router.get("/system", canRead, async (req, res) => {
   try {
     const [
       clientCount,
@@ -502,7 +575,7 @@ router.get("/system", async (req, res) => {
  *   curl http://localhost:3001/api/admin/stuck-clients?severity=HIGH
  *   curl http://localhost:3001/api/admin/stuck-clients?terminal=true
  */
-router.get("/stuck-clients", async (req, res) => {
+router.get("/stuck-clients", canRead, async (req, res) => {
   try {
     const severityFilter = req.query.severity as string | undefined;
     const terminalFilter = req.query.terminal === "true";
@@ -537,7 +610,7 @@ router.get("/stuck-clients", async (req, res) => {
  *
  * Returns only terminal stuck clients (those requiring manual intervention).
  */
-router.get("/stuck-clients/terminal", async (req, res) => {
+router.get("/stuck-clients/terminal", canRead, async (req, res) => {
   try {
     const clients = await StuckClientDetector.getTerminalStuckClients();
 
@@ -573,7 +646,7 @@ router.get("/stuck-clients/terminal", async (req, res) => {
  *   GET /api/admin/alerts?limit=100&severity=CRITICAL
  *   GET /api/admin/alerts?alertType=PAYMENT_BLOCK
  */
-router.get("/alerts", async (req, res) => {
+router.get("/alerts", canRead, async (req, res) => {
   try {
     const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
     const alertTypeFilter = req.query.alertType as string | undefined;
@@ -619,7 +692,7 @@ router.get("/alerts", async (req, res) => {
  *
  * SAFETY: This does NOT affect data, only alert delivery.
  */
-router.patch("/clients/:id/mute-alerts", async (req, res) => {
+router.patch("/clients/:id/mute-alerts", canWriteClients, async (req, res) => {
   try {
     const { id } = req.params;
     const { muted } = req.body;
@@ -647,6 +720,8 @@ router.patch("/clients/:id/mute-alerts", async (req, res) => {
 
     console.log(`[AdminCockpit] Alerts ${muted ? "MUTED" : "UNMUTED"} for client ${id} (${client.businessName})`);
 
+    await audit(req, muted ? "mute_alerts" : "unmute_alerts", id);
+
     sendSuccess(res, {
       clientId: client.id,
       businessName: client.businessName,
@@ -668,7 +743,7 @@ router.patch("/clients/:id/mute-alerts", async (req, res) => {
  *
  * SAFETY: Does NOT affect payment state or data.
  */
-router.patch("/clients/:id/reset-payment-alert", async (req, res) => {
+router.patch("/clients/:id/reset-payment-alert", canWriteClients, async (req, res) => {
   try {
     const { id } = req.params;
 
@@ -695,6 +770,10 @@ router.patch("/clients/:id/reset-payment-alert", async (req, res) => {
     console.log(`[AdminCockpit] Payment gate alert RESET for client ${id} (${client.businessName})`);
     console.log(`   Previous alert: ${client.controls?.paymentGateAlertedAt?.toISOString() || "never"}`);
 
+    await audit(req, "reset_payment_alert", id, {
+      previousAlertAt: client.controls?.paymentGateAlertedAt ?? null,
+    });
+
     sendSuccess(res, {
       clientId: client.id,
       businessName: client.businessName,
@@ -717,7 +796,7 @@ router.patch("/clients/:id/reset-payment-alert", async (req, res) => {
  *
  * SAFETY: Does NOT affect onboarding state or data.
  */
-router.patch("/clients/:id/reset-stuck", async (req, res) => {
+router.patch("/clients/:id/reset-stuck", canWriteClients, async (req, res) => {
   try {
     const { id } = req.params;
 
@@ -742,6 +821,10 @@ router.patch("/clients/:id/reset-stuck", async (req, res) => {
     console.log(`[AdminCockpit] Stuck detection RESET for client ${id} (${client.businessName})`);
     console.log(`   Previous detection: ${onboardingState.stuckDetectedAt?.toISOString() || "never"}`);
 
+    await audit(req, "reset_stuck_detection", id, {
+      previousDetectedAt: onboardingState.stuckDetectedAt ?? null,
+    });
+
     sendSuccess(res, {
       clientId: id,
       businessName: client.businessName,
@@ -754,6 +837,491 @@ router.patch("/clients/:id/reset-stuck", async (req, res) => {
   }
 });
 
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// OPERATOR COCKPIT V1 — SCHEDULED JOBS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * GET /api/admin/jobs
+ *
+ * Lists every scheduled job with its cron, pause flag, next/last run,
+ * retry state, current lock holder and most recent run.
+ */
+router.get("/jobs", canRead, async (req, res) => {
+  try {
+    const jobs = await listJobs();
+
+    sendSuccess(res, {
+      timestamp: new Date().toISOString(),
+      total: jobs.length,
+      jobs,
+    });
+  } catch (error) {
+    console.error("Failed to list jobs:", error);
+    sendError(res, "INTERNAL_ERROR", "Failed to list jobs", 500);
+  }
+});
+
+/**
+ * GET /api/admin/jobs/:name/runs
+ *
+ * Run history for a job, newest first.
+ *
+ * Query params:
+ * - limit: number of runs to return (default: 20, max: 100)
+ */
+router.get("/jobs/:name/runs", canRead, async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const runs = await getJobRuns(req.params.name, limit);
+
+    if (!runs) {
+      return sendError(res, "NOT_FOUND", "Job not found", 404);
+    }
+
+    sendSuccess(res, {
+      job: req.params.name,
+      showing: runs.length,
+      runs,
+    });
+  } catch (error) {
+    console.error("Failed to fetch job runs:", error);
+    sendError(res, "INTERNAL_ERROR", "Failed to fetch job runs", 500);
+  }
+});
+
+/**
+ * POST /api/admin/jobs/:name/trigger
+ *
+ * Runs a job immediately (also works while paused). Returns 202 once the
+ * run has started; poll /jobs/:name/runs for the outcome.
+ *
+ * Returns 409 if the job is already running on any replica.
+ */
+router.post("/jobs/:name/trigger", canOperate, async (req, res) => {
+  try {
+    const result = await triggerJob(req.params.name);
+
+    if (!result.started) {
+      if (result.reason === "LOCKED") {
+        return sendError(res, "CONFLICT", "Job is already running", 409);
+      }
+      if (result.reason === "NOT_REGISTERED") {
+        return sendError(res, "NOT_FOUND", "Job has no handler registered on this instance", 404);
+      }
+      return sendError(res, "NOT_FOUND", "Job not found", 404);
+    }
+
+    console.log(`[AdminCockpit] Job ${req.params.name} TRIGGERED manually (run ${result.runId})`);
+
+    await audit(req, "trigger_job", null, { job: req.params.name, runId: result.runId });
+
+    sendSuccess(res, { job: req.params.name, runId: result.runId }, 202);
+  } catch (error) {
+    console.error("Failed to trigger job:", error);
+    sendError(res, "INTERNAL_ERROR", "Failed to trigger job", 500);
+  }
+});
+
+/**
+ * PATCH /api/admin/jobs/:name/pause
+ *
+ * Pauses or resumes a job's schedule. A run already in progress finishes.
+ *
+ * Body: { paused: boolean }
+ */
+router.patch("/jobs/:name/pause", canOperate, async (req, res) => {
+  try {
+    const { paused } = req.body;
+
+    if (typeof paused !== "boolean") {
+      return sendError(res, "INVALID_INPUT", "paused must be a boolean", 400);
+    }
+
+    const job = await setJobPaused(req.params.name, paused);
+    if (!job) {
+      return sendError(res, "NOT_FOUND", "Job not found", 404);
+    }
+
+    console.log(`[AdminCockpit] Job ${job.name} ${paused ? "PAUSED" : "RESUMED"}`);
+
+    await audit(req, paused ? "pause_job" : "resume_job", null, { job: job.name });
+
+    sendSuccess(res, {
+      job: job.name,
+      paused: job.paused,
+      nextRunAt: job.nextRunAt,
+    });
+  } catch (error) {
+    console.error("Failed to pause job:", error);
+    sendError(res, "INTERNAL_ERROR", "Failed to update job", 500);
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// OPERATOR COCKPIT V1 — OUTBOUND QUEUE
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * GET /api/admin/outbound
+ *
+ * Outbound SMS queue: counts per status, overdue and abandoned sends, and
+ * the most recent messages matching the filters.
+ *
+ * Query params:
+ * - status: QUEUED | SENDING | SENT | DEAD | CANCELLED (DEAD = dead letters)
+ * - clientId: only this client's messages
+ * - stuck: "true" for overdue QUEUED and abandoned SENDING messages only
+ * - limit: number of messages to return (default: 50, max: 200)
+ */
+router.get("/outbound", canRead, async (req, res) => {
+  try {
+    const status = req.query.status as string | undefined;
+    if (status && !(status in OutboundMessageStatus)) {
+      return sendError(res, "INVALID_INPUT", "Invalid status", 400);
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const [overview, messages] = await Promise.all([
+      getQueueOverview(),
+      listOutboundMessages({
+        status: status as OutboundMessageStatus | undefined,
+        clientId: req.query.clientId as string | undefined,
+        stuck: req.query.stuck === "true",
+        limit,
+      }),
+    ]);
+
+    sendSuccess(res, {
+      timestamp: new Date().toISOString(),
+      ...overview,
+      showing: messages.length,
+      messages,
+    });
+  } catch (error) {
+    console.error("Failed to fetch outbound queue:", error);
+    sendError(res, "INTERNAL_ERROR", "Failed to fetch outbound queue", 500);
+  }
+});
+
+/**
+ * POST /api/admin/outbound/:id/retry
+ *
+ * Requeues a DEAD or CANCELLED message to send now (quiet hours still
+ * apply). For sends dead-lettered as "outcome unknown", check Twilio first.
+ *
+ * Returns 409 if the message is not DEAD or CANCELLED.
+ */
+router.post("/outbound/:id/retry", canOperate, async (req, res) => {
+  try {
+    const result = await retryOutboundMessage(req.params.id);
+
+    if (!result.success) {
+      if (result.reason === "INVALID_STATUS") {
+        return sendError(res, "CONFLICT", "Only DEAD or CANCELLED messages can be retried", 409);
+      }
+      return sendError(res, "NOT_FOUND", "Message not found", 404);
+    }
+
+    console.log(`[AdminCockpit] Outbound message ${req.params.id} REQUEUED`);
+
+    await audit(req, "retry_outbound_message", result.message.clientId, { outboundMessageId: req.params.id });
+
+    sendSuccess(res, { message: result.message });
+  } catch (error) {
+    console.error("Failed to retry outbound message:", error);
+    sendError(res, "INTERNAL_ERROR", "Failed to retry message", 500);
+  }
+});
+
+/**
+ * POST /api/admin/outbound/:id/cancel
+ *
+ * Cancels a QUEUED message before it is sent.
+ *
+ * Returns 409 if the message is no longer QUEUED.
+ */
+router.post("/outbound/:id/cancel", canOperate, async (req, res) => {
+  try {
+    const result = await cancelOutboundMessage(req.params.id);
+
+    if (!result.success) {
+      if (result.reason === "INVALID_STATUS") {
+        return sendError(res, "CONFLICT", "Only QUEUED messages can be cancelled", 409);
+      }
+      return sendError(res, "NOT_FOUND", "Message not found", 404);
+    }
+
+    console.log(`[AdminCockpit] Outbound message ${req.params.id} CANCELLED`);
+
+    await audit(req, "cancel_outbound_message", result.message.clientId, { outboundMessageId: req.params.id });
+
+    sendSuccess(res, { message: result.message });
+  } catch (error) {
+    console.error("Failed to cancel outbound message:", error);
+    sendError(res, "INTERNAL_ERROR", "Failed to cancel message", 500);
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// OPERATOR COCKPIT V1 — WEBHOOK LEDGER
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * GET /api/admin/webhooks
+ *
+ * Inbound Twilio/Stripe webhook ledger: counts per status and the most
+ * recent events matching the filters, with their outcome and last error.
+ *
+ * Query params:
+ * - status: PROCESSING | PROCESSED | FAILED
+ * - provider: TWILIO | STRIPE
+ * - clientId: only this client's events
+ * - limit: number of events to return (default: 50, max: 200)
+ */
+router.get("/webhooks", canRead, async (req, res) => {
+  try {
+    const status = req.query.status as string | undefined;
+    if (status && !(status in WebhookEventStatus)) {
+      return sendError(res, "INVALID_INPUT", "Invalid status", 400);
+    }
+
+    const provider = req.query.provider as string | undefined;
+    if (provider && !(provider in WebhookProvider)) {
+      return sendError(res, "INVALID_INPUT", "Invalid provider", 400);
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const [counts, events] = await Promise.all([
+      getWebhookCounts(),
+      listWebhookEvents({
+        status: status as WebhookEventStatus | undefined,
+        provider: provider as WebhookProvider | undefined,
+        clientId: req.query.clientId as string | undefined,
+        limit,
+      }),
+    ]);
+
+    sendSuccess(res, {
+      timestamp: new Date().toISOString(),
+      counts,
+      showing: events.length,
+      events,
+    });
+  } catch (error) {
+    console.error("Failed to fetch webhook ledger:", error);
+    sendError(res, "INTERNAL_ERROR", "Failed to fetch webhook ledger", 500);
+  }
+});
+
+/**
+ * POST /api/admin/webhooks/:id/redrive
+ *
+ * Replays a FAILED webhook event (or one abandoned mid-processing) through
+ * its normal handler. Side effects that already happened before the
+ * failure may happen again, so check the event's lastError first.
+ *
+ * Returns the event as it stands afterwards (PROCESSED or FAILED again).
+ * Returns 409 if the event is not FAILED.
+ */
+router.post("/webhooks/:id/redrive", canOperate, async (req, res) => {
+  try {
+    const result = await redriveWebhookEvent(req.params.id);
+
+    if (!result.success) {
+      if (result.reason === "INVALID_STATUS") {
+        return sendError(res, "CONFLICT", "Only FAILED events can be re-driven", 409);
+      }
+      if (result.reason === "NO_REDRIVER") {
+        return sendError(res, "CONFLICT", "No re-drive handler registered for this provider", 409);
+      }
+      return sendError(res, "NOT_FOUND", "Webhook event not found", 404);
+    }
+
+    console.log(`[AdminCockpit] Webhook event ${req.params.id} RE-DRIVEN → ${result.event.status}`);
+
+    await audit(req, "redrive_webhook", result.event.clientId, {
+      webhookEventId: req.params.id,
+      provider: result.event.provider,
+      eventType: result.event.eventType,
+      status: result.event.status,
+    });
+
+    sendSuccess(res, { event: result.event });
+  } catch (error) {
+    console.error("Failed to re-drive webhook event:", error);
+    sendError(res, "INTERNAL_ERROR", "Failed to re-drive webhook event", 500);
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// OPERATOR COCKPIT V1 — CONVERSATION MEMORY
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * GET /api/admin/conversations/:id/memory
+ *
+ * What the scheduling brain remembers about a conversation: declined slots,
+ * questions asked, loop/decline/contradiction counts and the handover
+ * silence flag. Shows this instance's cached copy next to the stored row,
+ * so a mismatch between replicas is visible.
+ *
+ * Returns 404 if neither exists (never seen, or expired after 24h idle).
+ */
+router.get("/conversations/:id/memory", canRead, async (req, res) => {
+  try {
+    const snapshot = await ConversationMemory.inspect(req.params.id);
+
+    if (!snapshot.cached && !snapshot.persisted) {
+      return sendError(res, "NOT_FOUND", "No memory for this conversation", 404);
+    }
+
+    sendSuccess(res, snapshot);
+  } catch (error) {
+    console.error("Failed to fetch conversation memory:", error);
+    sendError(res, "INTERNAL_ERROR", "Failed to fetch conversation memory", 500);
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// OPERATOR COCKPIT V1 — API KEYS & AUDIT TRAIL
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * GET /api/admin/api-keys
+ *
+ * All admin API keys, newest first, including revoked and expired ones.
+ * Only the display prefix of each key is returned.
+ */
+router.get("/api-keys", canManageKeys, async (req, res) => {
+  try {
+    const keys = await listAdminApiKeys();
+    sendSuccess(res, { keys });
+  } catch (error) {
+    console.error("Failed to fetch admin API keys:", error);
+    sendError(res, "INTERNAL_ERROR", "Failed to fetch API keys", 500);
+  }
+});
+
+/**
+ * POST /api/admin/api-keys
+ *
+ * Body: { name: string, permissions: AdminPermission[], expiresAt?: ISO date }
+ *
+ * Returns the new key in `key`. It is not stored and can't be shown again.
+ * Returns 403 if asked for a permission the caller doesn't hold.
+ */
+router.post("/api-keys", canManageKeys, async (req, res) => {
+  try {
+    const { name, permissions, expiresAt } = req.body;
+
+    if (!name || typeof name !== "string" || !name.trim()) {
+      return sendError(res, "INVALID_INPUT", "name is required", 400);
+    }
+    if (!Array.isArray(permissions)) {
+      return sendError(res, "INVALID_INPUT", "permissions must be an array", 400);
+    }
+
+    let expiry: Date | null = null;
+    if (expiresAt !== undefined && expiresAt !== null) {
+      expiry = new Date(expiresAt);
+      if (isNaN(expiry.getTime()) || expiry <= new Date()) {
+        return sendError(res, "INVALID_INPUT", "expiresAt must be a future date", 400);
+      }
+    }
+
+    const admin = adminOf(req);
+    const result = await createAdminApiKey({
+      name: name.trim(),
+      permissions,
+      createdBy: admin.id,
+      creatorPermissions: admin.permissions,
+      expiresAt: expiry,
+    });
+
+    if (!result.success) {
+      if (result.reason === "PERMISSION_NOT_HELD") {
+        return sendError(res, "FORBIDDEN", "Cannot grant a permission you don't hold", 403);
+      }
+      return sendError(res, "INVALID_INPUT", "Invalid permissions", 400, { allowed: ADMIN_PERMISSIONS });
+    }
+
+    console.log(`[AdminCockpit] API key ${result.apiKey.id} (${result.apiKey.name}) CREATED`);
+
+    await audit(req, "create_api_key", null, {
+      apiKeyId: result.apiKey.id,
+      name: result.apiKey.name,
+      permissions: result.apiKey.permissions,
+      expiresAt: result.apiKey.expiresAt,
+    });
+
+    sendSuccess(res, { key: result.key, apiKey: result.apiKey }, 201);
+  } catch (error) {
+    console.error("Failed to create admin API key:", error);
+    sendError(res, "INTERNAL_ERROR", "Failed to create API key", 500);
+  }
+});
+
+/**
+ * DELETE /api/admin/api-keys/:id
+ *
+ * Revokes a key. Requests using it are rejected from then on.
+ * Returns 404 if the key doesn't exist or is already revoked.
+ */
+router.delete("/api-keys/:id", canManageKeys, async (req, res) => {
+  try {
+    const result = await revokeAdminApiKey(req.params.id, adminOf(req).id);
+
+    if (!result.success) {
+      return sendError(res, "NOT_FOUND", "API key not found or already revoked", 404);
+    }
+
+    console.log(`[AdminCockpit] API key ${req.params.id} REVOKED`);
+
+    await audit(req, "revoke_api_key", null, { apiKeyId: result.apiKey.id, name: result.apiKey.name });
+
+    sendSuccess(res, { apiKey: result.apiKey });
+  } catch (error) {
+    console.error("Failed to revoke admin API key:", error);
+    sendError(res, "INTERNAL_ERROR", "Failed to revoke API key", 500);
+  }
+});
+
+/**
+ * GET /api/admin/audit
+ *
+ * Admin action audit trail, newest first.
+ *
+ * Query params:
+ * - adminId: ADMIN user id, or api_key:<id>
+ * - clientId: actions affecting this client
+ * - action: e.g. update_client, impersonate_client
+ * - limit: number of actions to return (default: 50, max: 200)
+ */
+router.get("/audit", canRead, async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const adminId = req.query.adminId as string | undefined;
+    const clientId = req.query.clientId as string | undefined;
+    const action = req.query.action as string | undefined;
+
+    const actions = await prisma.adminAction.findMany({
+      where: {
+        ...(adminId ? { adminId } : {}),
+        ...(clientId ? { clientId } : {}),
+        ...(action ? { action } : {}),
+      },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    });
+
+    sendSuccess(res, { showing: actions.length, actions });
+  } catch (error) {
+    console.error("Failed to fetch admin audit trail:", error);
+    sendError(res, "INTERNAL_ERROR", "Failed to fetch audit trail", 500);
+  }
+});
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // OPERATOR COCKPIT V1 — HARD DELETE (DANGEROUS)
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -794,7 +1362,7 @@ router.patch("/clients/:id/reset-stuck", async (req, res) => {
  *
  * CRITICAL: This is IRREVERSIBLE. No backups. No undo.
  */
-router.delete("/clients/:id", async (req, res) => {
+router.delete("/clients/:id", canDeleteClients, async (req, res) => {
   const { id } = req.params;
   const { confirmBusinessName } = req.body;
 
@@ -971,6 +1539,22 @@ router.delete("/clients/:id", async (req, res) => {
       });
       console.log(`   ✅ Deleted client: ${client.businessName}`);
 
+      // STEP 3.11: Audit inside the transaction - no deletion without a record
+      const admin = adminOf(req);
+      await tx.adminAction.create({
+        data: {
+          adminId: admin.id,
+          clientId: id,
+          action: "delete_client",
+          reason: null,
+          metadata: {
+            ...log,
+            via: admin.source,
+            ...(admin.apiKeyName ? { apiKeyName: admin.apiKeyName } : {}),
+          },
+        },
+      });
+
       return log;
     });
 
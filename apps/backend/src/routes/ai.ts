@@ -16,7 +16,7 @@ const router = Router();
  * PHASE 10: Enhanced with safety checks and error handling
  */
 router.post('/scheduling', async (req: Request, res: Response) => {
-  const { message, conversationId, customerPhone, customerName } = req.body;
+  const { message, conversationId, customerPhone, customerName, location } = req.body;
 
   // ═══════════════════════════════════════════════════════════════
   // STEP 1: VALIDATE REQUIRED FIELDS
@@ -57,6 +57,7 @@ router.post('/scheduling', async (req: Request, res: Response) => {
       clientId,
       customerPhone,
       customerName,
+      location: typeof location === 'string' ? location : undefined,
     });
 
     // Return successful response
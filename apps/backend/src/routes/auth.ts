@@ -1,11 +1,13 @@
 import { Router } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import { prisma } from '../db';
-import { env } from '../env';
+import { generateClientUserToken } from '../utils/jwt';
+import { getMembership, findOpenInvitation, acceptInvitation } from '../services/TeamService';
 import { sendSuccess, sendError } from '../utils/response';
 import { ERROR_CODES, HTTP_STATUS } from '../utils/constants';
 import { authenticate } from '../middleware/auth';
+import { requireAdminAuth, requireAdminPermission } from '../middleware/admin';
+import { logAdminAction } from '../services/AdminActions';
 import { AuthenticatedRequest } from '../types/express';
 
 const router = Router();
@@ -61,17 +63,10 @@ router.post('/login', async (req, res) => {
     }
 
     // Generate JWT token
-    const token = jwt.sign(
-      {
-        sub: user.id,
-        id: user.id,
-        email: user.email,
-        role: user.role,
-        clientId: user.clientId,
-      },
-      env.JWT_SECRET,
-      { expiresIn: '7d' }
-    );
+    const token = generateClientUserToken(user);
+
+    // Team role in the active client (drives dashboard permissions)
+    const membership = user.clientId ? await getMembership(user.clientId, user.id) : null;
 
     // Send response
     sendSuccess(res, {
@@ -81,6 +76,7 @@ router.post('/login', async (req, res) => {
         email: user.email,
         role: user.role,
         clientId: user.clientId,
+        teamRole: membership?.role ?? null,
         client: user.client ? {
           id: user.client.id,
           businessName: user.client.businessName,
@@ -171,9 +167,10 @@ router.get('/me', authenticate, async (req: AuthenticatedRequest, res) => {
 
 /**
  * POST /api/auth/register
- * Register a new user (admin use only or open registration)
+ * Create a login (admin only). It carries no team membership: people join a
+ * client team by accepting an invitation.
  */
-router.post('/register', async (req, res) => {
+router.post('/register', requireAdminAuth, requireAdminPermission('CLIENTS_WRITE'), async (req: AuthenticatedRequest, res) => {
   try {
     const { email, password, role = 'CLIENT', clientId } = req.body;
 
@@ -188,6 +185,18 @@ router.post('/register', async (req, res) => {
       return;
     }
 
+    // An ADMIN login is full admin API access: create those with
+    // scripts/create-admin-user.ts, never over HTTP
+    if (role !== 'CLIENT') {
+      sendError(
+        res,
+        ERROR_CODES.VALIDATION_ERROR,
+        'Only CLIENT users can be registered',
+        HTTP_STATUS.BAD_REQUEST
+      );
+      return;
+    }
+
     // Check if user already exists
     const existingUser = await prisma.user.findUnique({
       where: { email },
@@ -211,7 +220,7 @@ router.post('/register', async (req, res) => {
       data: {
         email,
         password: hashedPassword,
-        role,
+        role: 'CLIENT',
         clientId,
       },
       include: {
@@ -219,21 +228,14 @@ router.post('/register', async (req, res) => {
       },
     });
 
-    // Generate JWT token
-    const token = jwt.sign(
-      {
-        sub: user.id,
-        id: user.id,
-        email: user.email,
-        role: user.role,
-        clientId: user.clientId,
-      },
-      env.JWT_SECRET,
-      { expiresIn: '7d' }
-    );
+    await logAdminAction(req.admin!.id, user.clientId, 'register_user', null, {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      via: req.admin!.source,
+    });
 
     sendSuccess(res, {
-      token,
       user: {
         id: user.id,
         email: user.email,
@@ -256,4 +258,107 @@ router.post('/register', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/auth/invitations/:token
+ * Preview a team invitation (business, email, role)
+ */
+router.get('/invitations/:token', async (req, res) => {
+  try {
+    const invitation = await findOpenInvitation(req.params.token);
+
+    if (!invitation) {
+      sendError(
+        res,
+        'INVITATION_INVALID',
+        'Invitation is invalid or has expired',
+        HTTP_STATUS.NOT_FOUND
+      );
+      return;
+    }
+
+    const existingUser = await prisma.user.findUnique({
+      where: { email: invitation.email },
+      select: { id: true },
+    });
+
+    sendSuccess(res, {
+      email: invitation.email,
+      role: invitation.role,
+      expiresAt: invitation.expiresAt,
+      client: invitation.client,
+      // Existing users confirm their password instead of choosing one
+      hasAccount: !!existingUser,
+    });
+  } catch (error) {
+    console.error('Invitation lookup error:', error);
+    sendError(
+      res,
+      ERROR_CODES.INTERNAL_ERROR,
+      'Failed to load invitation',
+      HTTP_STATUS.INTERNAL_SERVER_ERROR
+    );
+  }
+});
+
+/**
+ * POST /api/auth/invitations/:token/accept
+ * Join a client team. Creates the login if the email has none yet.
+ */
+router.post('/invitations/:token/accept', async (req, res) => {
+  try {
+    const { email, password } = req.body;
+
+    if (!email || !password) {
+      sendError(
+        res,
+        ERROR_CODES.VALIDATION_ERROR,
+        'Email and password are required',
+        HTTP_STATUS.BAD_REQUEST
+      );
+      return;
+    }
+
+    if (typeof password !== 'string' || password.length < 8) {
+      sendError(
+        res,
+        ERROR_CODES.VALIDATION_ERROR,
+        'Password must be at least 8 characters',
+        HTTP_STATUS.BAD_REQUEST
+      );
+      return;
+    }
+
+    const result = await acceptInvitation({ token: req.params.token, email, password });
+
+    if (!result.success) {
+      if (result.reason === 'INVALID_PASSWORD') {
+        sendError(res, ERROR_CODES.UNAUTHORIZED, 'Invalid email or password', HTTP_STATUS.UNAUTHORIZED);
+      } else if (result.reason === 'EMAIL_MISMATCH') {
+        sendError(res, ERROR_CODES.FORBIDDEN, 'Invitation was sent to a different email', HTTP_STATUS.FORBIDDEN);
+      } else {
+        sendError(res, 'INVITATION_INVALID', 'Invitation is invalid or has expired', HTTP_STATUS.NOT_FOUND);
+      }
+      return;
+    }
+
+    const token = generateClientUserToken(result.user);
+
+    sendSuccess(res, {
+      token,
+      user: {
+        ...result.user,
+        teamRole: result.membership.role,
+      },
+    });
+  } catch (error) {
+    console.error('Invitation accept error:', error);
+    sendError(
+      res,
+      ERROR_CODES.INTERNAL_ERROR,
+      'Failed to accept invitation',
+      HTTP_STATUS.INTERNAL_SERVER_ERROR
+    );
+  }
+});
+
 export default router;
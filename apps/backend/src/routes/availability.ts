@@ -178,9 +178,10 @@ router.get(
         return;
       }
 
+      // Keep "YYYY-MM-DD" as a calendar day in the client's zone
       const result = await AvailabilityEngine.isTimeAllowed(
         clientId,
-        new Date(date as string),
+        date as string,
         startTime as string,
         endTime as string
       );
@@ -85,8 +85,8 @@ router.get(
 
       const blockedTimes = await BlockedTimeEngine.findBlockedRanges(
         clientId,
-        new Date(start as string),
-        new Date(end as string)
+        start as string,
+        end as string
       );
 
       sendSuccess(res, { blockedTimes });
@@ -136,9 +136,10 @@ router.post(
         return;
       }
 
+      // Keep "YYYY-MM-DD" as a calendar day in the client's zone
       const blockedTime = await BlockedTimeEngine.createBlockedTime(
         clientId,
-        new Date(date),
+        date,
         start,
         end,
         reason
@@ -220,7 +221,7 @@ router.get(
 
       const result = await BlockedTimeEngine.isBlocked(
         clientId,
-        new Date(date as string),
+        date as string,
         start as string | undefined,
         end as string | undefined
       );
@@ -0,0 +1,58 @@
+import { Router, Response } from 'express';
+import { sendSuccess, sendError } from '../utils/response';
+import { BookFromLinkResult, bookFromLink, getBookingPage } from '../services/BookingLinkService';
+
+/**
+ * Public self-service booking page. The token in the URL is the only
+ * credential (customers follow it from a text); links are issued per lead
+ * by the inbound SMS pipeline.
+ */
+const router = Router();
+
+type BookingPageFailureReason = Extract<BookFromLinkResult, { success: false }>['reason'];
+
+const FAILURE_RESPONSES: Record<BookingPageFailureReason, { status: number; message: string }> = {
+  NOT_FOUND: { status: 404, message: 'Booking link not found' },
+  EXPIRED: { status: 410, message: 'This booking link has expired' },
+  ALREADY_BOOKED: { status: 409, message: 'This link has already been used to book' },
+  SLOT_UNAVAILABLE: { status: 409, message: 'That time is no longer available' },
+};
+
+function sendBookingPageFailure(res: Response, reason: BookingPageFailureReason) {
+  const { status, message } = FAILURE_RESPONSES[reason];
+  return sendError(res, reason, message, status);
+}
+
+// GET /api/booking-page/:token
+router.get('/:token', async (req, res) => {
+  try {
+    const result = await getBookingPage(req.params.token);
+    if (!result.success) return sendBookingPageFailure(res, result.reason);
+
+    sendSuccess(res, result.page);
+  } catch (error) {
+    console.error('Failed to load booking page:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to load booking page', 500);
+  }
+});
+
+// POST /api/booking-page/:token/book
+router.post('/:token/book', async (req, res) => {
+  const start = typeof req.body?.start === 'string' ? new Date(req.body.start) : null;
+  if (!start || isNaN(start.getTime())) {
+    return sendError(res, 'VALIDATION_ERROR', 'start must be an ISO date-time', 400);
+  }
+
+  try {
+    const result = await bookFromLink(req.params.token, start);
+    if (!result.success) return sendBookingPageFailure(res, result.reason);
+
+    const { booking, confirmationSent } = result;
+    sendSuccess(res, { booking: { start: booking.start, end: booking.end }, confirmationSent }, 201);
+  } catch (error) {
+    console.error('Failed to book from booking page:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to make booking', 500);
+  }
+});
+
+export default router;
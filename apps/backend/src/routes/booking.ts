@@ -24,6 +24,7 @@ const createBookingSchema = z.object({
   customerPhone: z.string().optional(),
   customerEmail: z.string().email().optional(),
   notes: z.string().optional(),
+  location: z.string().optional(),
 });
 
 const updateBookingSchema = z.object({
@@ -33,6 +34,7 @@ const updateBookingSchema = z.object({
   customerPhone: z.string().optional(),
   customerEmail: z.string().email().optional(),
   notes: z.string().optional(),
+  location: z.string().optional(),
 });
 
 const availabilitySchema = z.object({
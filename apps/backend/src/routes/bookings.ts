@@ -5,23 +5,27 @@ import { AuthenticatedRequest } from "../types/express";
 import { sendSuccess, sendError } from "../utils/response";
 import { ERROR_CODES, HTTP_STATUS } from "../utils/constants";
 import { RecurrenceEngine } from "../lib/calendar/RecurrenceEngine";
-import { AvailabilityEngine } from "../lib/calendar/AvailabilityEngine";
-import { BlockedTimeEngine } from "../lib/calendar/BlockedTimeEngine";
-import { OverlapEngine } from "../lib/calendar/OverlapEngine";
-import { RecurrenceFrequency, BookingStatus } from "@prisma/client";
+import { ZonedTime } from "../lib/calendar/ZonedTime";
+import {
+  BOOKING_STATUSES,
+  createCalendarBooking,
+  isBookingStatus,
+  updateOccurrence,
+} from "../services/CalendarBookingService";
 
 const router = Router();
 
 /**
  * GET /api/bookings/range
  * Get all booking occurrences in a date range (expands recurrence rules)
+ * ?resourceId= limits it to one technician/van
  */
 router.get(
   "/range",
   authenticate,
   async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const { clientId, start, end } = req.query;
+      const { clientId, start, end, resourceId } = req.query;
 
       if (!clientId || !start || !end) {
         sendError(
@@ -52,72 +56,51 @@ router.get(
       const bookings = await prisma.booking.findMany({
         where: {
           clientId: clientId as string,
+          ...(typeof resourceId === "string" && { resourceId }),
           status: {
             notIn: ["CANCELLED"],
           },
         },
         include: {
-          recurrenceRule: true,
+          recurrenceRule: { include: { overrides: true } },
           customer: true,
         },
       });
 
       const occurrences = [];
+      const timeZone = await ZonedTime.forClient(clientId as string);
 
       for (const booking of bookings) {
-        if (booking.recurrenceRule) {
-          const expanded = RecurrenceEngine.expandRule(
-            {
-              frequency: booking.recurrenceRule.frequency,
-              interval: booking.recurrenceRule.interval,
-              byWeekday: booking.recurrenceRule.byWeekday || undefined,
-              byMonthday: booking.recurrenceRule.byMonthday || undefined,
-              endDate: booking.recurrenceRule.endDate || undefined,
-              occurrences: booking.recurrenceRule.occurrences || undefined,
-            },
-            booking.start,
-            booking.end,
-            rangeStart,
-            rangeEnd,
-            booking.id,
-            booking.recurrenceRule.id
-          );
+        const expanded = RecurrenceEngine.expandBooking(
+          booking,
+          rangeStart,
+          rangeEnd,
+          timeZone
+        );
 
-          for (const occ of expanded) {
-            occurrences.push({
-              id: booking.id,
-              start: occ.start,
-              end: occ.end,
-              customerName: booking.customerName,
-              customerPhone: booking.customerPhone,
-              customerEmail: booking.customerEmail,
-              customerId: booking.customerId,
-              status: booking.status,
-              notes: booking.notes,
-              color: booking.color,
-              isAllDay: booking.isAllDay,
-              isRecurring: true,
+        for (const occ of expanded) {
+          occurrences.push({
+            id: booking.id,
+            start: occ.start,
+            end: occ.end,
+            customerName: booking.customerName,
+            customerPhone: booking.customerPhone,
+            customerEmail: booking.customerEmail,
+            customerId: booking.customerId,
+            status: occ.status || booking.status,
+            notes: occ.notes ?? booking.notes,
+            color: booking.color,
+            resourceId: booking.resourceId,
+            location: booking.location,
+            isAllDay: booking.isAllDay,
+            isRecurring: occ.isRecurring,
+            ...(occ.isRecurring && {
               recurrenceRuleId: booking.recurrenceRuleId,
               occurrenceIndex: occ.occurrenceIndex,
-            });
-          }
-        } else {
-          if (booking.start >= rangeStart && booking.start <= rangeEnd) {
-            occurrences.push({
-              id: booking.id,
-              start: booking.start,
-              end: booking.end,
-              customerName: booking.customerName,
-              customerPhone: booking.customerPhone,
-              customerEmail: booking.customerEmail,
-              customerId: booking.customerId,
-              status: booking.status,
-              notes: booking.notes,
-              color: booking.color,
-              isAllDay: booking.isAllDay,
-              isRecurring: false,
-            });
-          }
+              originalStart: occ.originalStart,
+              isOverride: occ.isOverride,
+            }),
+          });
         }
       }
 
@@ -196,6 +179,8 @@ router.get(
 /**
  * POST /api/bookings
  * Create a new booking (with optional recurrence)
+ * With resourceId, hours, time off and overlaps are checked on that
+ * resource's calendar
  */
 router.post(
   "/",
@@ -215,6 +200,8 @@ router.post(
         notes,
         color,
         recurrenceRule,
+        resourceId,
+        location,
       } = req.body;
 
       if (!clientId || !start || !end) {
@@ -240,97 +227,45 @@ router.post(
         return;
       }
 
-      const startDate = new Date(start);
-      const endDate = new Date(end);
-
-      const warnings = [];
-
-      if (!isAllDay) {
-        const startTime = AvailabilityEngine.formatTime(startDate);
-        const endTime = AvailabilityEngine.formatTime(endDate);
-
-        const availabilityCheck = await AvailabilityEngine.isTimeAllowed(
-          clientId,
-          startDate,
-          startTime,
-          endTime
-        );
-
-        if (!availabilityCheck.allowed) {
-          warnings.push({
-            type: "availability",
-            message: availabilityCheck.reason,
-          });
-        }
-
-        const blockedCheck = await BlockedTimeEngine.isBlocked(
-          clientId,
-          startDate,
-          startTime,
-          endTime
+      if (status !== undefined && !isBookingStatus(status)) {
+        sendError(
+          res,
+          ERROR_CODES.VALIDATION_ERROR,
+          `status must be one of: ${BOOKING_STATUSES.join(", ")}`,
+          HTTP_STATUS.BAD_REQUEST
         );
-
-        if (blockedCheck.blocked) {
-          warnings.push({
-            type: "blocked",
-            message: blockedCheck.reason,
-          });
-        }
-      }
-
-      const overlapCheck = await OverlapEngine.findOverlaps(
-        clientId,
-        startDate,
-        endDate
-      );
-
-      if (overlapCheck.length > 0) {
-        warnings.push({
-          type: "overlap",
-          message: `Overlaps with ${overlapCheck.length} existing booking(s)`,
-          overlaps: overlapCheck,
-        });
+        return;
       }
 
-      let recurrenceRuleRecord = null;
+      const result = await createCalendarBooking(clientId, {
+        customerId,
+        customerName,
+        customerPhone,
+        customerEmail,
+        start: new Date(start),
+        end: new Date(end),
+        isAllDay,
+        status,
+        notes,
+        color,
+        recurrenceRule,
+        resourceId,
+        location,
+      });
 
-      if (recurrenceRule) {
-        recurrenceRuleRecord = await prisma.recurrenceRule.create({
-          data: {
-            clientId,
-            frequency: recurrenceRule.frequency as RecurrenceFrequency,
-            interval: recurrenceRule.interval || 1,
-            byWeekday: recurrenceRule.byWeekday,
-            byMonthday: recurrenceRule.byMonthday,
-            endDate: recurrenceRule.endDate
-              ? new Date(recurrenceRule.endDate)
-              : null,
-            occurrences: recurrenceRule.occurrences,
-          },
-        });
+      if (!result.success) {
+        sendError(
+          res,
+          ERROR_CODES.VALIDATION_ERROR,
+          result.reason === "UNKNOWN_RESOURCE"
+            ? "Unknown resourceId"
+            : `Invalid recurrence rule: ${result.detail}`,
+          HTTP_STATUS.BAD_REQUEST
+        );
+        return;
       }
 
-      const booking = await prisma.booking.create({
-        data: {
-          clientId,
-          customerId,
-          customerName,
-          customerPhone,
-          customerEmail,
-          start: startDate,
-          end: endDate,
-          isAllDay: isAllDay || false,
-          status: (status as BookingStatus) || "NEW",
-          notes,
-          color,
-          recurrenceRuleId: recurrenceRuleRecord?.id,
-        },
-        include: {
-          recurrenceRule: true,
-          customer: true,
-        },
-      });
-
+      const { booking, warnings } = result;
       sendSuccess(res, { booking, warnings }, HTTP_STATUS.CREATED);
     } catch (error) {
       console.error("Failed to create booking:", error);
@@ -347,6 +282,7 @@ router.post(
 /**
  * PATCH /api/bookings/:id
  * Edit a booking (supports "single", "following", "all" modes for recurring bookings)
+ * With mode "single" and occurrenceStart, only that occurrence is moved/updated
  */
 router.patch(
   "/:id",
@@ -354,7 +290,7 @@ router.patch(
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const { id } = req.params;
-      const { mode, ...updateData } = req.body;
+      const { mode, occurrenceStart, ...updateData } = req.body;
 
       const booking = await prisma.booking.findUnique({
         where: { id },
@@ -384,6 +320,39 @@ router.patch(
         return;
       }
 
+      if (updateData.status !== undefined && !isBookingStatus(updateData.status)) {
+        sendError(
+          res,
+          ERROR_CODES.VALIDATION_ERROR,
+          `status must be one of: ${BOOKING_STATUSES.join(", ")}`,
+          HTTP_STATUS.BAD_REQUEST
+        );
+        return;
+      }
+
+      // One occurrence of a series: store it as an override of the rule
+      if (mode === "single" && booking.recurrenceRule && occurrenceStart) {
+        const result = await updateOccurrence(booking.clientId, id, occurrenceStart, {
+          start: updateData.start ? new Date(updateData.start) : undefined,
+          end: updateData.end ? new Date(updateData.end) : undefined,
+          status: updateData.status,
+          notes: updateData.notes,
+        });
+
+        if (!result.success) {
+          sendError(
+            res,
+            ERROR_CODES.VALIDATION_ERROR,
+            "occurrenceStart is not an occurrence of this booking",
+            HTTP_STATUS.BAD_REQUEST
+          );
+          return;
+        }
+
+        sendSuccess(res, { override: result.override });
+        return;
+      }
+
       if (mode === "single" && booking.recurrenceRuleId) {
         const newBooking = await prisma.booking.create({
           data: {
@@ -417,6 +386,9 @@ router.patch(
             byMonthday: booking.recurrenceRule.byMonthday,
             endDate: booking.recurrenceRule.endDate,
             occurrences: booking.recurrenceRule.occurrences,
+            rrule: booking.recurrenceRule.rrule,
+            exdates: booking.recurrenceRule.exdates,
+            rdates: booking.recurrenceRule.rdates,
           },
         });
 
@@ -461,6 +433,7 @@ router.patch(
 /**
  * DELETE /api/bookings/:id
  * Delete a booking (supports "single", "following", "all" modes for recurring bookings)
+ * With mode "single" and ?occurrenceStart=, only that occurrence is cancelled
  */
 router.delete(
   "/:id",
@@ -468,7 +441,7 @@ router.delete(
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const { id } = req.params;
-      const { mode } = req.query;
+      const { mode, occurrenceStart } = req.query;
 
       const booking = await prisma.booking.findUnique({
         where: { id },
@@ -498,6 +471,25 @@ router.delete(
         return;
       }
 
+      if (mode === "single" && booking.recurrenceRule && occurrenceStart) {
+        const result = await updateOccurrence(booking.clientId, id, occurrenceStart as string, {
+          isCancelled: true,
+        });
+
+        if (!result.success) {
+          sendError(
+            res,
+            ERROR_CODES.VALIDATION_ERROR,
+            "occurrenceStart is not an occurrence of this booking",
+            HTTP_STATUS.BAD_REQUEST
+          );
+          return;
+        }
+
+        sendSuccess(res, { message: "Occurrence cancelled" });
+        return;
+      }
+
       if (mode === "single" && booking.recurrenceRuleId) {
         await prisma.booking.update({
           where: { id },
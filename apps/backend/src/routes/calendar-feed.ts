@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { buildFeed } from '../services/CalendarSyncService';
+
+/**
+ * Public iCalendar subscription feed. The secret token in the URL is the
+ * only credential (calendar apps can't send auth headers); it is issued and
+ * revoked under /api/client/calendar/feed.
+ */
+const router = Router();
+
+// GET /api/calendar/feed/:token.ics
+router.get('/feed/:token.ics', async (req, res) => {
+  try {
+    const ics = await buildFeed(req.params.token);
+
+    if (!ics) {
+      return res.status(404).type('text/plain').send('Calendar not found');
+    }
+
+    res
+      .status(200)
+      .set('Cache-Control', 'private, max-age=300')
+      .type('text/calendar; charset=utf-8')
+      .send(ics);
+  } catch (error) {
+    console.error('Failed to build calendar feed:', error);
+    res.status(500).type('text/plain').send('Failed to build calendar');
+  }
+});
+
+export default router;
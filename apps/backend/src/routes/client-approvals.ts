@@ -0,0 +1,137 @@
+import { Router, Response } from 'express';
+import { sendSuccess, sendError } from '../utils/response';
+import { requireTenant, requireClientPermission } from '../middleware/tenant';
+import { AuthenticatedRequest } from '../types/express';
+import {
+  ProposalFailureReason,
+  approveProposal,
+  isProposalStatus,
+  listProposals,
+  rejectProposal,
+} from '../agents/ApprovalQueue';
+import { getActionPolicies, parseActionPolicyUpdate, updateActionPolicies } from '../agents/engine/ActionPolicies';
+import type { AgentAction } from '../agents/base/types';
+
+const router = Router();
+
+router.use(requireTenant);
+
+const FAILURE_RESPONSES: Record<ProposalFailureReason, { status: number; message: string }> = {
+  NOT_FOUND: { status: 404, message: 'Proposal not found' },
+  NOT_PENDING: { status: 409, message: 'Proposal has already been decided' },
+  EXPIRED: { status: 409, message: 'Proposal has expired' },
+  INVALID_ACTIONS: { status: 400, message: 'Proposal actions are invalid' },
+  ACTION_NOT_ALLOWED: { status: 403, message: 'Proposal includes an action your policies never allow' },
+};
+
+function sendProposalFailure(res: Response, reason: ProposalFailureReason, detail?: string) {
+  const { status, message } = FAILURE_RESPONSES[reason];
+  return sendError(res, reason, detail ?? message, status);
+}
+
+function decidedBy(req: AuthenticatedRequest): string {
+  const tenant = req.tenant!;
+  return tenant.userId ?? tenant.adminId ?? tenant.source;
+}
+
+/**
+ * Edited actions from an approve body; undefined to run them as proposed
+ */
+function parseEditedActions(body: any): AgentAction[] | undefined | string {
+  if (body?.actions === undefined) return undefined;
+
+  if (!Array.isArray(body.actions) || body.actions.length === 0) {
+    return 'actions must be a non-empty array';
+  }
+
+  for (const action of body.actions) {
+    if (!action || typeof action.type !== 'string' || !action.payload || typeof action.payload !== 'object') {
+      return 'each action needs a type and a payload object';
+    }
+  }
+
+  return body.actions.map((action: any) => ({ type: action.type, payload: action.payload }));
+}
+
+// GET /api/client/approvals/policies  (every action type, defaults filled in)
+router.get('/policies', requireClientPermission('SETTINGS_READ'), async (req: AuthenticatedRequest, res) => {
+  try {
+    sendSuccess(res, await getActionPolicies(req.tenant!.clientId));
+  } catch (error) {
+    console.error('Failed to fetch action policies:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to fetch action policies', 500);
+  }
+});
+
+// PUT /api/client/approvals/policies  { CANCEL_BOOKING: 'auto' | 'review' | 'never', ... }
+router.put('/policies', requireClientPermission('SETTINGS_WRITE'), async (req: AuthenticatedRequest, res) => {
+  const update = parseActionPolicyUpdate(req.body);
+  if (typeof update === 'string') {
+    return sendError(res, 'INVALID_BODY', update, 400);
+  }
+
+  try {
+    sendSuccess(res, await updateActionPolicies(req.tenant!.clientId, update));
+  } catch (error) {
+    console.error('Failed to update action policies:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to update action policies', 500);
+  }
+});
+
+// GET /api/client/approvals?status=PENDING  (newest first)
+router.get('/', requireClientPermission('AGENTS_APPROVE'), async (req: AuthenticatedRequest, res) => {
+  const { status } = req.query;
+
+  if (status !== undefined && !isProposalStatus(status)) {
+    return sendError(res, 'INVALID_STATUS', 'Unknown proposal status', 400);
+  }
+
+  try {
+    sendSuccess(res, await listProposals(req.tenant!.clientId, { status }));
+  } catch (error) {
+    console.error('Failed to fetch proposals:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to fetch proposals', 500);
+  }
+});
+
+// POST /api/client/approvals/:id/approve  { actions? }  (actions replace the proposed ones)
+router.post('/:id/approve', requireClientPermission('AGENTS_APPROVE'), async (req: AuthenticatedRequest, res) => {
+  const actions = parseEditedActions(req.body);
+  if (typeof actions === 'string') {
+    return sendError(res, 'INVALID_BODY', actions, 400);
+  }
+
+  try {
+    const result = await approveProposal(req.tenant!.clientId, req.params.id, {
+      decidedBy: decidedBy(req),
+      via: 'dashboard',
+      actions,
+    });
+    if (!result.success) {
+      return sendProposalFailure(res, result.reason, result.detail);
+    }
+    sendSuccess(res, result.proposal);
+  } catch (error) {
+    console.error('Failed to approve proposal:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to approve proposal', 500);
+  }
+});
+
+// POST /api/client/approvals/:id/reject
+router.post('/:id/reject', requireClientPermission('AGENTS_APPROVE'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const result = await rejectProposal(req.tenant!.clientId, req.params.id, {
+      decidedBy: decidedBy(req),
+      via: 'dashboard',
+    });
+    if (!result.success) {
+      return sendProposalFailure(res, result.reason, result.detail);
+    }
+    sendSuccess(res, result.proposal);
+  } catch (error) {
+    console.error('Failed to reject proposal:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to reject proposal', 500);
+  }
+});
+
+export default router;
@@ -0,0 +1,168 @@
+import { Router, Response } from 'express';
+import { sendSuccess, sendError } from '../utils/response';
+import { requireTenant, requireClientPermission } from '../middleware/tenant';
+import { AuthenticatedRequest } from '../types/express';
+import {
+  BOOKING_STATUSES,
+  CalendarBookingFailureReason,
+  CalendarBookingInput,
+  OccurrenceChanges,
+  createCalendarBooking,
+  isBookingStatus,
+  updateOccurrence,
+} from '../services/CalendarBookingService';
+
+const router = Router();
+
+router.use(requireTenant);
+
+const FAILURE_RESPONSES: Record<CalendarBookingFailureReason, { status: number; message: string }> = {
+  NOT_FOUND: { status: 404, message: 'Booking not found' },
+  NOT_RECURRING: { status: 400, message: 'Booking does not repeat' },
+  NOT_AN_OCCURRENCE: { status: 400, message: 'occurrenceStart is not an occurrence of this booking' },
+  INVALID_RECURRENCE: { status: 400, message: 'Invalid recurrence rule' },
+  UNKNOWN_RESOURCE: { status: 400, message: 'Unknown resourceId' },
+};
+
+function sendBookingFailure(res: Response, reason: CalendarBookingFailureReason, detail?: string) {
+  const { status, message } = FAILURE_RESPONSES[reason];
+  return sendError(res, reason, detail ? `${message}: ${detail}` : message, status);
+}
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+const TEXT_FIELDS = ['customerId', 'customerName', 'customerPhone', 'customerEmail', 'notes', 'color', 'resourceId', 'location'] as const;
+
+/**
+ * Picks the booking fields from a POST body
+ */
+function parseBookingInput(body: any): CalendarBookingInput | string {
+  const start = parseDate(body?.start);
+  const end = parseDate(body?.end);
+  if (!start || !end || start >= end) return 'start and end must be dates with start before end';
+
+  const input: CalendarBookingInput = { start, end };
+
+  for (const field of TEXT_FIELDS) {
+    if (body[field] === undefined || body[field] === null) continue;
+    if (typeof body[field] !== 'string') return `${field} must be a string`;
+    input[field] = body[field];
+  }
+
+  if (body.isAllDay !== undefined) {
+    if (typeof body.isAllDay !== 'boolean') return 'isAllDay must be a boolean';
+    input.isAllDay = body.isAllDay;
+  }
+
+  if (body.status !== undefined) {
+    if (!isBookingStatus(body.status)) return `status must be one of: ${BOOKING_STATUSES.join(', ')}`;
+    input.status = body.status;
+  }
+
+  if (body.recurrenceRule !== undefined && body.recurrenceRule !== null) {
+    if (typeof body.recurrenceRule !== 'object') return 'recurrenceRule must be an object';
+    input.recurrenceRule = body.recurrenceRule;
+  }
+
+  return input;
+}
+
+/**
+ * Picks the occurrence changes from a PATCH body
+ */
+function parseOccurrenceChanges(body: any): OccurrenceChanges | string {
+  const changes: OccurrenceChanges = {};
+
+  for (const field of ['start', 'end'] as const) {
+    if (body?.[field] === undefined) continue;
+    const date = parseDate(body[field]);
+    if (!date) return `${field} must be a date`;
+    changes[field] = date;
+  }
+
+  if (body?.status !== undefined) {
+    if (!isBookingStatus(body.status)) return `status must be one of: ${BOOKING_STATUSES.join(', ')}`;
+    changes.status = body.status;
+  }
+
+  if (body?.notes !== undefined) {
+    if (typeof body.notes !== 'string') return 'notes must be a string';
+    changes.notes = body.notes;
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return 'Nothing to change: send start, end, status or notes';
+  }
+
+  return changes;
+}
+
+// POST /api/client/bookings  { start, end, recurrenceRule?: { rrule, exdates?, rdates? }, resourceId?, ... }
+router.post('/', requireClientPermission('SCHEDULE_MANAGE'), async (req: AuthenticatedRequest, res) => {
+  const input = parseBookingInput(req.body);
+  if (typeof input === 'string') {
+    return sendError(res, 'INVALID_BODY', input, 400);
+  }
+
+  try {
+    const result = await createCalendarBooking(req.tenant!.clientId, input);
+    if (!result.success) {
+      return sendBookingFailure(res, result.reason, result.detail);
+    }
+    sendSuccess(res, { booking: result.booking, warnings: result.warnings }, 201);
+  } catch (error) {
+    console.error('Failed to create booking:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to create booking', 500);
+  }
+});
+
+// PATCH /api/client/bookings/:id/occurrences  { occurrenceStart, start?, end?, status?, notes? }
+router.patch('/:id/occurrences', requireClientPermission('SCHEDULE_MANAGE'), async (req: AuthenticatedRequest, res) => {
+  const { occurrenceStart, ...body } = req.body ?? {};
+  if (typeof occurrenceStart !== 'string') {
+    return sendError(res, 'INVALID_BODY', 'occurrenceStart is required', 400);
+  }
+
+  const changes = parseOccurrenceChanges(body);
+  if (typeof changes === 'string') {
+    return sendError(res, 'INVALID_BODY', changes, 400);
+  }
+
+  try {
+    const result = await updateOccurrence(req.tenant!.clientId, req.params.id, occurrenceStart, changes);
+    if (!result.success) {
+      return sendBookingFailure(res, result.reason);
+    }
+    sendSuccess(res, result.override);
+  } catch (error) {
+    console.error('Failed to update occurrence:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to update occurrence', 500);
+  }
+});
+
+// DELETE /api/client/bookings/:id/occurrences?occurrenceStart=  (skips that one occurrence)
+router.delete('/:id/occurrences', requireClientPermission('SCHEDULE_MANAGE'), async (req: AuthenticatedRequest, res) => {
+  const { occurrenceStart } = req.query;
+  if (typeof occurrenceStart !== 'string') {
+    return sendError(res, 'INVALID_QUERY', 'occurrenceStart is required', 400);
+  }
+
+  try {
+    const result = await updateOccurrence(req.tenant!.clientId, req.params.id, occurrenceStart, {
+      isCancelled: true,
+    });
+    if (!result.success) {
+      return sendBookingFailure(res, result.reason);
+    }
+    sendSuccess(res, result.override);
+  } catch (error) {
+    console.error('Failed to skip occurrence:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to skip occurrence', 500);
+  }
+});
+
+export default router;
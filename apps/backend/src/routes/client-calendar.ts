@@ -0,0 +1,211 @@
+import express, { Router, Response } from 'express';
+import { sendSuccess, sendError } from '../utils/response';
+import { requireTenant, requireClientPermission } from '../middleware/tenant';
+import { AuthenticatedRequest } from '../types/express';
+import {
+  ImportTarget,
+  getFeedStatus,
+  importCalendar,
+  revokeFeedToken,
+  rotateFeedToken,
+} from '../services/CalendarSyncService';
+import {
+  CalDavFailureReason,
+  ConnectionInput,
+  createConnection,
+  deleteConnection,
+  listConnections,
+  syncConnection,
+  updateConnection,
+} from '../services/CalDavSyncService';
+
+const router = Router();
+
+router.use(requireTenant);
+
+const IMPORT_TARGETS: ImportTarget[] = ['BOOKING', 'BLOCKED_TIME'];
+
+const CALDAV_FAILURES: Record<CalDavFailureReason, { status: number; message: string }> = {
+  NOT_FOUND: { status: 404, message: 'Calendar connection not found' },
+  INVALID_URL: { status: 400, message: 'collectionUrl must be a public http(s) URL' },
+  CONNECTION_FAILED: { status: 422, message: 'Could not reach the calendar' },
+};
+
+function sendCalDavFailure(res: Response, reason: CalDavFailureReason, error?: string) {
+  const { status, message } = CALDAV_FAILURES[reason];
+  return sendError(res, reason, error ? `${message}: ${error}` : message, status);
+}
+
+/**
+ * Picks the connection fields from a request body; on create the URL and
+ * credentials are required
+ */
+function parseConnectionInput(body: any, requireAll: boolean): Partial<ConnectionInput> | string {
+  const input: Partial<ConnectionInput> = {};
+
+  for (const field of ['name', 'collectionUrl', 'username', 'password'] as const) {
+    if (body?.[field] === undefined) continue;
+    if (typeof body[field] !== 'string' || (field !== 'name' && !body[field])) return `${field} must be a non-empty string`;
+    input[field] = body[field];
+  }
+
+  for (const field of ['pullEnabled', 'pushEnabled'] as const) {
+    if (body?.[field] === undefined) continue;
+    if (typeof body[field] !== 'boolean') return `${field} must be a boolean`;
+    input[field] = body[field];
+  }
+
+  if (requireAll && (!input.collectionUrl || !input.username || !input.password)) {
+    return 'collectionUrl, username and password are required';
+  }
+
+  return input;
+}
+
+// Raw .ics uploads; JSON bodies ({ ics }) are parsed by the app-wide express.json()
+const icsBody = express.text({
+  type: ['text/calendar', 'text/plain', 'application/octet-stream'],
+  limit: '5mb',
+});
+
+// GET /api/client/calendar/feed
+router.get('/feed', requireClientPermission('SETTINGS_READ'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const status = await getFeedStatus(req.tenant!.clientId);
+    sendSuccess(res, status);
+  } catch (error) {
+    console.error('Failed to fetch calendar feed status:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to fetch calendar feed status', 500);
+  }
+});
+
+// POST /api/client/calendar/feed  (issues or rotates; the URL is only returned here)
+router.post('/feed', requireClientPermission('SETTINGS_WRITE'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const feed = await rotateFeedToken(req.tenant!.clientId);
+    sendSuccess(res, feed, 201);
+  } catch (error) {
+    console.error('Failed to issue calendar feed:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to issue calendar feed', 500);
+  }
+});
+
+// DELETE /api/client/calendar/feed
+router.delete('/feed', requireClientPermission('SETTINGS_WRITE'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const revoked = await revokeFeedToken(req.tenant!.clientId);
+    if (!revoked) {
+      return sendError(res, 'NOT_FOUND', 'Calendar feed is not enabled', 404);
+    }
+    sendSuccess(res, { revoked: true });
+  } catch (error) {
+    console.error('Failed to revoke calendar feed:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to revoke calendar feed', 500);
+  }
+});
+
+// POST /api/client/calendar/import?target=BOOKING|BLOCKED_TIME
+//   body: raw .ics (text/calendar) or JSON { ics, target?, source? }
+router.post('/import', requireClientPermission('SETTINGS_WRITE'), icsBody, async (req: AuthenticatedRequest, res) => {
+  const ics = typeof req.body === 'string' ? req.body : req.body?.ics;
+  const target = String(req.query.target || req.body?.target || 'BLOCKED_TIME').toUpperCase() as ImportTarget;
+  const source = typeof req.query.source === 'string' ? req.query.source : req.body?.source;
+
+  if (typeof ics !== 'string' || !ics.trim()) {
+    return sendError(res, 'INVALID_BODY', 'An .ics file is required', 400);
+  }
+
+  if (!IMPORT_TARGETS.includes(target)) {
+    return sendError(res, 'INVALID_TARGET', `target must be one of: ${IMPORT_TARGETS.join(', ')}`, 400);
+  }
+
+  try {
+    const result = await importCalendar(req.tenant!.clientId, ics, target, typeof source === 'string' ? source : undefined);
+    if (!result.success) {
+      return sendError(res, 'INVALID_ICS', result.error, 422);
+    }
+    sendSuccess(res, { target, ...result.summary });
+  } catch (error) {
+    console.error('Failed to import calendar:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to import calendar', 500);
+  }
+});
+
+// GET /api/client/calendar/connections
+router.get('/connections', requireClientPermission('SETTINGS_READ'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const connections = await listConnections(req.tenant!.clientId);
+    sendSuccess(res, connections);
+  } catch (error) {
+    console.error('Failed to fetch calendar connections:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to fetch calendar connections', 500);
+  }
+});
+
+// POST /api/client/calendar/connections  { collectionUrl, username, password, name?, pullEnabled?, pushEnabled? }
+router.post('/connections', requireClientPermission('SETTINGS_WRITE'), async (req: AuthenticatedRequest, res) => {
+  const input = parseConnectionInput(req.body, true);
+  if (typeof input === 'string') {
+    return sendError(res, 'INVALID_BODY', input, 400);
+  }
+
+  try {
+    const result = await createConnection(req.tenant!.clientId, input as ConnectionInput);
+    if (!result.success) {
+      return sendCalDavFailure(res, result.reason, result.error);
+    }
+    sendSuccess(res, result.connection, 201);
+  } catch (error) {
+    console.error('Failed to create calendar connection:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to create calendar connection', 500);
+  }
+});
+
+// PATCH /api/client/calendar/connections/:id
+router.patch('/connections/:id', requireClientPermission('SETTINGS_WRITE'), async (req: AuthenticatedRequest, res) => {
+  const input = parseConnectionInput(req.body, false);
+  if (typeof input === 'string') {
+    return sendError(res, 'INVALID_BODY', input, 400);
+  }
+
+  try {
+    const result = await updateConnection(req.tenant!.clientId, req.params.id, input);
+    if (!result.success) {
+      return sendCalDavFailure(res, result.reason, result.error);
+    }
+    sendSuccess(res, result.connection);
+  } catch (error) {
+    console.error('Failed to update calendar connection:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to update calendar connection', 500);
+  }
+});
+
+// DELETE /api/client/calendar/connections/:id
+router.delete('/connections/:id', requireClientPermission('SETTINGS_WRITE'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const result = await deleteConnection(req.tenant!.clientId, req.params.id);
+    if (!result.success) {
+      return sendCalDavFailure(res, result.reason);
+    }
+    sendSuccess(res, { deleted: true });
+  } catch (error) {
+    console.error('Failed to delete calendar connection:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to delete calendar connection', 500);
+  }
+});
+
+// POST /api/client/calendar/connections/:id/sync
+router.post('/connections/:id/sync', requireClientPermission('SETTINGS_WRITE'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const result = await syncConnection(req.tenant!.clientId, req.params.id);
+    if (!result.success) {
+      return sendCalDavFailure(res, result.reason);
+    }
+    sendSuccess(res, result.summary);
+  } catch (error) {
+    console.error('Failed to sync calendar connection:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to sync calendar connection', 500);
+  }
+});
+
+export default router;
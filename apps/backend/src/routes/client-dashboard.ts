@@ -1,17 +1,18 @@
 import { Router } from 'express';
 import { prisma } from '../db';
 import { sendSuccess, sendError } from '../utils/response';
+import { requireTenant, requireClientPermission } from '../middleware/tenant';
+import { AuthenticatedRequest } from '../types/express';
 
 const router = Router();
 
-// GET /api/client/dashboard/stats?clientId=xxx
-router.get('/stats', async (req, res) => {
-  try {
-    const { clientId } = req.query;
+router.use(requireTenant);
+router.use(requireClientPermission('DASHBOARD_READ'));
 
-    if (!clientId || typeof clientId !== 'string') {
-      return sendError(res, 'MISSING_CLIENT_ID', 'Client ID is required', 400);
-    }
+// GET /api/client/dashboard/stats
+router.get('/stats', async (req: AuthenticatedRequest, res) => {
+  try {
+    const clientId = req.tenant!.clientId;
 
     const now = new Date();
     const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
@@ -82,14 +83,10 @@ router.get('/stats', async (req, res) => {
   }
 });
 
-// GET /api/client/dashboard/recent-messages?clientId=xxx
-router.get('/recent-messages', async (req, res) => {
+// GET /api/client/dashboard/recent-messages
+router.get('/recent-messages', async (req: AuthenticatedRequest, res) => {
   try {
-    const { clientId } = req.query;
-
-    if (!clientId || typeof clientId !== 'string') {
-      return sendError(res, 'MISSING_CLIENT_ID', 'Client ID is required', 400);
-    }
+    const clientId = req.tenant!.clientId;
 
     const messages = await prisma.message.findMany({
       where: {
@@ -125,14 +122,10 @@ router.get('/recent-messages', async (req, res) => {
   }
 });
 
-// GET /api/client/dashboard/activity?clientId=xxx
-router.get('/activity', async (req, res) => {
+// GET /api/client/dashboard/activity
+router.get('/activity', async (req: AuthenticatedRequest, res) => {
   try {
-    const { clientId } = req.query;
-
-    if (!clientId || typeof clientId !== 'string') {
-      return sendError(res, 'MISSING_CLIENT_ID', 'Client ID is required', 400);
-    }
+    const clientId = req.tenant!.clientId;
 
     const now = new Date();
     const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
@@ -1,18 +1,26 @@
 import { Router } from 'express';
 import { prisma } from '../db';
 import { sendSuccess, sendError } from '../utils/response';
-import { findOrCreateConversation, addMessage } from '../modules/conversation/service';
+import { requireTenant, requireClientPermission } from '../middleware/tenant';
+import { AuthenticatedRequest } from '../types/express';
+import {
+  findOrCreateConversation,
+  addMessage,
+  countUnreadInbound,
+  UNREAD_SCAN_LIMIT,
+} from '../modules/conversation/service';
+import { isDeliveryFailure, describeDeliveryError } from '../services/MessageDeliveryService';
 
 const router = Router();
 
-// GET /api/client/leads?clientId=xxx&state=xxx
-router.get('/', async (req, res) => {
-  try {
-    const { clientId, state } = req.query;
+router.use(requireTenant);
+router.use(requireClientPermission('LEADS_READ'));
 
-    if (!clientId || typeof clientId !== 'string') {
-      return sendError(res, 'MISSING_CLIENT_ID', 'Client ID is required', 400);
-    }
+// GET /api/client/leads?state=xxx
+router.get('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const clientId = req.tenant!.clientId;
+    const { state } = req.query;
 
     const whereClause: any = {
       clientId,
@@ -29,7 +37,7 @@ router.get('/', async (req, res) => {
       },
       include: {
         messages: {
-          take: 1,
+          take: UNREAD_SCAN_LIMIT,
           orderBy: {
             createdAt: 'desc',
           },
@@ -54,7 +62,8 @@ router.get('/', async (req, res) => {
 
       const jobType = hasBooking ? customer.bookings[0].notes || 'General Service' : 'General Service';
 
-      const hasUnread = latestMessage?.direction === 'INBOUND' || false;
+      const unreadCount = countUnreadInbound(customer.messages);
+      const hasUnread = unreadCount > 0;
 
       return {
         id: customer.id,
@@ -66,6 +75,7 @@ router.get('/', async (req, res) => {
         urgency,
         jobType,
         hasUnread,
+        unreadCount,
         createdAt: customer.createdAt.toISOString(),
         updatedAt: customer.updatedAt.toISOString(),
       };
@@ -78,15 +88,11 @@ router.get('/', async (req, res) => {
   }
 });
 
-// GET /api/client/leads/:id?clientId=xxx
-router.get('/:id', async (req, res) => {
+// GET /api/client/leads/:id
+router.get('/:id', async (req: AuthenticatedRequest, res) => {
   try {
     const { id } = req.params;
-    const { clientId } = req.query;
-
-    if (!clientId || typeof clientId !== 'string') {
-      return sendError(res, 'MISSING_CLIENT_ID', 'Client ID is required', 400);
-    }
+    const clientId = req.tenant!.clientId;
 
     const customer = await prisma.customer.findFirst({
       where: {
@@ -141,6 +147,7 @@ router.get('/:id', async (req, res) => {
         direction: msg.direction,
         type: msg.type,
         body: msg.body,
+        deliveryStatus: msg.deliveryStatus,
         createdAt: msg.createdAt.toISOString(),
       })),
       bookings: customer.bookings.map((booking) => ({
@@ -160,14 +167,16 @@ router.get('/:id', async (req, res) => {
   }
 });
 
-// GET /api/client/leads/:id/messages?clientId=xxx
-router.get('/:id/messages', async (req, res) => {
+// GET /api/client/leads/:id/messages?since=<ISO timestamp>
+// `since` returns only newer messages (live inbox backfill after a reconnect)
+router.get('/:id/messages', async (req: AuthenticatedRequest, res) => {
   try {
     const { id } = req.params;
-    const { clientId } = req.query;
+    const clientId = req.tenant!.clientId;
+    const since = typeof req.query.since === 'string' ? new Date(req.query.since) : null;
 
-    if (!clientId || typeof clientId !== 'string') {
-      return sendError(res, 'MISSING_CLIENT_ID', 'Client ID is required', 400);
+    if (since && isNaN(since.getTime())) {
+      return sendError(res, 'INVALID_SINCE', 'since must be an ISO timestamp', 400);
     }
 
     const customer = await prisma.customer.findFirst({
@@ -185,6 +194,7 @@ router.get('/:id/messages', async (req, res) => {
       where: {
         customerId: id,
         clientId,
+        ...(since && { createdAt: { gt: since } }),
       },
       orderBy: {
         createdAt: 'asc',
@@ -197,6 +207,8 @@ router.get('/:id/messages', async (req, res) => {
       direction: msg.direction === 'SYSTEM' ? 'AI' : msg.direction,
       type: msg.type,
       body: msg.body,
+      deliveryStatus: msg.deliveryStatus,
+      deliveryErrorCode: msg.deliveryErrorCode,
       createdAt: msg.createdAt.toISOString(),
       isRead: msg.direction === 'OUTBOUND' || msg.direction === 'SYSTEM',
     }));
@@ -208,16 +220,12 @@ router.get('/:id/messages', async (req, res) => {
   }
 });
 
-// POST /api/client/leads/:id/messages/send?clientId=xxx
-router.post('/:id/messages/send', async (req, res) => {
+// POST /api/client/leads/:id/messages/send
+router.post('/:id/messages/send', requireClientPermission('MESSAGES_SEND'), async (req: AuthenticatedRequest, res) => {
   try {
     const { id } = req.params;
-    const { clientId } = req.query;
-    const { body, type } = req.body;
-
-    if (!clientId || typeof clientId !== 'string') {
-      return sendError(res, 'MISSING_CLIENT_ID', 'Client ID is required', 400);
-    }
+    const clientId = req.tenant!.clientId;
+    const { body, type, clientRef } = req.body;
 
     if (!body || typeof body !== 'string' || body.trim() === '') {
       return sendError(res, 'INVALID_BODY', 'Message body is required', 400);
@@ -246,10 +254,12 @@ router.post('/:id/messages/send', async (req, res) => {
       direction: 'OUTBOUND',
       type: type || 'SMS',
       body: body.trim(),
+      ...(typeof clientRef === 'string' && clientRef && { metadata: { clientRef } }),
     });
 
     const formattedMessage = {
       id: message.id,
+      clientRef: typeof clientRef === 'string' ? clientRef : null,
       direction: message.direction,
       type: message.type,
       body: message.body,
@@ -264,15 +274,11 @@ router.post('/:id/messages/send', async (req, res) => {
   }
 });
 
-// GET /api/client/leads/:id/timeline?clientId=xxx
-router.get('/:id/timeline', async (req, res) => {
+// GET /api/client/leads/:id/timeline
+router.get('/:id/timeline', async (req: AuthenticatedRequest, res) => {
   try {
     const { id } = req.params;
-    const { clientId } = req.query;
-
-    if (!clientId || typeof clientId !== 'string') {
-      return sendError(res, 'MISSING_CLIENT_ID', 'Client ID is required', 400);
-    }
+    const clientId = req.tenant!.clientId;
 
     const customer = await prisma.customer.findFirst({
       where: {
@@ -330,6 +336,16 @@ router.get('/:id/timeline', async (req, res) => {
           timestamp: msg.createdAt.toISOString(),
         });
       }
+
+      if (msg.direction === 'OUTBOUND' && isDeliveryFailure(msg.deliveryStatus)) {
+        events.push({
+          id: `delivery-failed-${msg.id}`,
+          type: 'DELIVERY_FAILED',
+          title: msg.deliveryStatus === 'FAILED' ? 'Message Failed' : 'Message Not Delivered',
+          description: `"${msg.body.substring(0, 60)}" — ${describeDeliveryError(msg.deliveryErrorCode)}`,
+          timestamp: (msg.failedAt || msg.deliveryUpdatedAt || msg.createdAt).toISOString(),
+        });
+      }
     });
 
     customer.bookings.forEach((booking) => {
@@ -1,17 +1,20 @@
 import { Router } from 'express';
 import { prisma } from '../db';
 import { sendSuccess, sendError } from '../utils/response';
+import { requireTenant, requireClientPermission } from '../middleware/tenant';
+import { AuthenticatedRequest } from '../types/express';
+import { countUnreadInbound, UNREAD_SCAN_LIMIT } from '../modules/conversation/service';
 
 const router = Router();
 
-// GET /api/client/messages?clientId=xxx&filter=ALL|UNREAD|INBOUND
-router.get('/', async (req, res) => {
-  try {
-    const { clientId, filter = 'ALL' } = req.query;
+router.use(requireTenant);
+router.use(requireClientPermission('LEADS_READ'));
 
-    if (!clientId || typeof clientId !== 'string') {
-      return sendError(res, 'MISSING_CLIENT_ID', 'Client ID is required', 400);
-    }
+// GET /api/client/messages?filter=ALL|UNREAD|INBOUND
+router.get('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const clientId = req.tenant!.clientId;
+    const { filter = 'ALL' } = req.query;
 
     const customers = await prisma.customer.findMany({
       where: {
@@ -22,7 +25,7 @@ router.get('/', async (req, res) => {
           orderBy: {
             createdAt: 'desc',
           },
-          take: 1,
+          take: UNREAD_SCAN_LIMIT,
         },
         bookings: {
           take: 1,
@@ -40,7 +43,8 @@ router.get('/', async (req, res) => {
       .filter((customer) => customer.messages.length > 0)
       .map((customer) => {
         const latestMessage = customer.messages[0];
-        const hasUnread = latestMessage?.direction === 'INBOUND';
+        const unreadCount = countUnreadInbound(customer.messages);
+        const hasUnread = unreadCount > 0;
         const hasBooking = customer.bookings.length > 0;
         const jobType = hasBooking
           ? customer.bookings[0].notes || 'General Service'
@@ -59,6 +63,7 @@ router.get('/', async (req, res) => {
             createdAt: latestMessage.createdAt.toISOString(),
           },
           hasUnread,
+          unreadCount,
           updatedAt: customer.updatedAt.toISOString(),
         };
       });
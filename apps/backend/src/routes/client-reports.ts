@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { sendSuccess, sendError } from '../utils/response';
+import { requireTenant, requireClientPermission } from '../middleware/tenant';
+import { AuthenticatedRequest } from '../types/express';
+import { getAgentReport, listAgentReports } from '../services/AgentReports';
+
+const router = Router();
+
+router.use(requireTenant);
+router.use(requireClientPermission('DASHBOARD_READ'));
+
+// GET /api/client/reports?reportType=weekly_insights  (newest first, without data)
+router.get('/', async (req: AuthenticatedRequest, res) => {
+  const { reportType } = req.query;
+
+  try {
+    const reports = await listAgentReports(req.tenant!.clientId, {
+      reportType: typeof reportType === 'string' ? reportType : undefined,
+    });
+    sendSuccess(res, reports);
+  } catch (error) {
+    console.error('Failed to fetch reports:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to fetch reports', 500);
+  }
+});
+
+// GET /api/client/reports/:id
+router.get('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const report = await getAgentReport(req.tenant!.clientId, req.params.id);
+    if (!report) {
+      return sendError(res, 'NOT_FOUND', 'Report not found', 404);
+    }
+    sendSuccess(res, report);
+  } catch (error) {
+    console.error('Failed to fetch report:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to fetch report', 500);
+  }
+});
+
+export default router;
@@ -0,0 +1,261 @@
+import { Router, Response } from 'express';
+import { sendSuccess, sendError } from '../utils/response';
+import { requireTenant, requireClientPermission } from '../middleware/tenant';
+import { AuthenticatedRequest } from '../types/express';
+import { AvailabilityRange } from '../lib/calendar/AvailabilityEngine';
+import {
+  RESOURCE_KINDS,
+  ResourceBlockInput,
+  ResourceFailureReason,
+  ResourceInput,
+  addResourceBlock,
+  assignBooking,
+  createResource,
+  deleteResource,
+  getDaySchedule,
+  isResourceKind,
+  listResources,
+  removeResourceBlock,
+  setResourceHours,
+  updateResource,
+} from '../services/ResourceService';
+
+const router = Router();
+
+router.use(requireTenant);
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const FAILURE_RESPONSES: Record<ResourceFailureReason, { status: number; message: string }> = {
+  NOT_FOUND: { status: 404, message: 'Resource not found' },
+  BOOKING_NOT_FOUND: { status: 404, message: 'Booking not found' },
+};
+
+function sendResourceFailure(res: Response, reason: ResourceFailureReason) {
+  const { status, message } = FAILURE_RESPONSES[reason];
+  return sendError(res, reason, message, status);
+}
+
+/**
+ * Picks the resource fields from a request body; name is required on create
+ */
+function parseResourceInput(body: any, requireName: boolean): Partial<ResourceInput> | string {
+  const input: Partial<ResourceInput> = {};
+
+  if (body?.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) return 'name must be a non-empty string';
+    input.name = body.name;
+  }
+
+  if (body?.kind !== undefined) {
+    if (!isResourceKind(body.kind)) return `kind must be one of: ${RESOURCE_KINDS.join(', ')}`;
+    input.kind = body.kind;
+  }
+
+  if (body?.skills !== undefined) {
+    if (!Array.isArray(body.skills) || body.skills.some((skill: unknown) => typeof skill !== 'string')) {
+      return 'skills must be an array of strings';
+    }
+    input.skills = body.skills;
+  }
+
+  if (body?.active !== undefined) {
+    if (typeof body.active !== 'boolean') return 'active must be a boolean';
+    input.active = body.active;
+  }
+
+  if (requireName && !input.name) {
+    return 'name is required';
+  }
+
+  return input;
+}
+
+function parseHours(value: unknown): AvailabilityRange[] | string {
+  if (!Array.isArray(value)) return 'hours must be an array';
+
+  const hours: AvailabilityRange[] = [];
+  for (const range of value) {
+    const { weekday, startTime, endTime } = range ?? {};
+    if (!Number.isInteger(weekday) || weekday < 0 || weekday > 6) {
+      return 'weekday must be between 0 (Sunday) and 6 (Saturday)';
+    }
+    if (!TIME.test(startTime) || !TIME.test(endTime) || startTime >= endTime) {
+      return 'startTime and endTime must be "HH:MM" with startTime before endTime';
+    }
+    hours.push({ weekday, startTime, endTime });
+  }
+  return hours;
+}
+
+function parseBlockInput(body: any): ResourceBlockInput | string {
+  const { date, start, end, reason } = body ?? {};
+
+  if (typeof date !== 'string' || !DATE_ONLY.test(date)) return 'date must be "YYYY-MM-DD"';
+  if ((start === undefined) !== (end === undefined)) return 'start and end go together; omit both for the whole day';
+  if (start !== undefined && (!TIME.test(start) || !TIME.test(end) || start >= end)) {
+    return 'start and end must be "HH:MM" with start before end';
+  }
+  if (reason !== undefined && typeof reason !== 'string') return 'reason must be a string';
+
+  return { date, start, end, reason };
+}
+
+// GET /api/client/resources/schedule?date=YYYY-MM-DD  (per-resource day view)
+router.get('/schedule', requireClientPermission('SCHEDULE_READ'), async (req: AuthenticatedRequest, res) => {
+  const date = req.query.date;
+  if (typeof date !== 'string' || !DATE_ONLY.test(date)) {
+    return sendError(res, 'INVALID_DATE', 'date must be "YYYY-MM-DD"', 400);
+  }
+
+  try {
+    const schedule = await getDaySchedule(req.tenant!.clientId, date);
+    sendSuccess(res, schedule);
+  } catch (error) {
+    console.error('Failed to fetch schedule:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to fetch schedule', 500);
+  }
+});
+
+// PUT /api/client/resources/bookings/:bookingId  { resourceId | null }
+router.put('/bookings/:bookingId', requireClientPermission('SCHEDULE_MANAGE'), async (req: AuthenticatedRequest, res) => {
+  const resourceId = req.body?.resourceId;
+  if (resourceId !== null && (typeof resourceId !== 'string' || !resourceId)) {
+    return sendError(res, 'INVALID_BODY', 'resourceId must be a resource id or null', 400);
+  }
+
+  try {
+    const result = await assignBooking(req.tenant!.clientId, req.params.bookingId, resourceId);
+    if (!result.success) {
+      return sendResourceFailure(res, result.reason);
+    }
+
+    const { overlaps } = result;
+    const warnings = overlaps.length
+      ? [{ type: 'overlap', message: `Overlaps with ${overlaps.length} booking(s) on this resource`, overlaps }]
+      : [];
+    sendSuccess(res, { bookingId: result.bookingId, resourceId: result.resourceId, warnings });
+  } catch (error) {
+    console.error('Failed to assign booking:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to assign booking', 500);
+  }
+});
+
+// GET /api/client/resources
+router.get('/', requireClientPermission('SCHEDULE_READ'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const resources = await listResources(req.tenant!.clientId);
+    sendSuccess(res, resources);
+  } catch (error) {
+    console.error('Failed to fetch resources:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to fetch resources', 500);
+  }
+});
+
+// POST /api/client/resources  { name, kind?, skills?, active? }
+router.post('/', requireClientPermission('SETTINGS_WRITE'), async (req: AuthenticatedRequest, res) => {
+  const input = parseResourceInput(req.body, true);
+  if (typeof input === 'string') {
+    return sendError(res, 'INVALID_BODY', input, 400);
+  }
+
+  try {
+    const resource = await createResource(req.tenant!.clientId, input as ResourceInput);
+    sendSuccess(res, resource, 201);
+  } catch (error) {
+    console.error('Failed to create resource:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to create resource', 500);
+  }
+});
+
+// PATCH /api/client/resources/:id
+router.patch('/:id', requireClientPermission('SETTINGS_WRITE'), async (req: AuthenticatedRequest, res) => {
+  const input = parseResourceInput(req.body, false);
+  if (typeof input === 'string') {
+    return sendError(res, 'INVALID_BODY', input, 400);
+  }
+
+  try {
+    const result = await updateResource(req.tenant!.clientId, req.params.id, input);
+    if (!result.success) {
+      return sendResourceFailure(res, result.reason);
+    }
+    sendSuccess(res, result.resource);
+  } catch (error) {
+    console.error('Failed to update resource:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to update resource', 500);
+  }
+});
+
+// DELETE /api/client/resources/:id
+router.delete('/:id', requireClientPermission('SETTINGS_WRITE'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const result = await deleteResource(req.tenant!.clientId, req.params.id);
+    if (!result.success) {
+      return sendResourceFailure(res, result.reason);
+    }
+    sendSuccess(res, { deleted: true });
+  } catch (error) {
+    console.error('Failed to delete resource:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to delete resource', 500);
+  }
+});
+
+// PUT /api/client/resources/:id/hours  { hours: [{ weekday, startTime, endTime }] }
+router.put('/:id/hours', requireClientPermission('SETTINGS_WRITE'), async (req: AuthenticatedRequest, res) => {
+  const hours = parseHours(req.body?.hours);
+  if (typeof hours === 'string') {
+    return sendError(res, 'INVALID_BODY', hours, 400);
+  }
+
+  try {
+    const result = await setResourceHours(req.tenant!.clientId, req.params.id, hours);
+    if (!result.success) {
+      return sendResourceFailure(res, result.reason);
+    }
+    sendSuccess(res, result.resource);
+  } catch (error) {
+    console.error('Failed to update resource hours:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to update resource hours', 500);
+  }
+});
+
+// POST /api/client/resources/:id/blocked-times  { date, start?, end?, reason? }
+router.post('/:id/blocked-times', requireClientPermission('SCHEDULE_MANAGE'), async (req: AuthenticatedRequest, res) => {
+  const input = parseBlockInput(req.body);
+  if (typeof input === 'string') {
+    return sendError(res, 'INVALID_BODY', input, 400);
+  }
+
+  try {
+    const result = await addResourceBlock(req.tenant!.clientId, req.params.id, input);
+    if (!result.success) {
+      return sendResourceFailure(res, result.reason);
+    }
+    sendSuccess(res, result.blockedTime, 201);
+  } catch (error) {
+    console.error('Failed to block resource time:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to block resource time', 500);
+  }
+});
+
+// DELETE /api/client/resources/:id/blocked-times/:blockedTimeId
+router.delete(
+  '/:id/blocked-times/:blockedTimeId',
+  requireClientPermission('SCHEDULE_MANAGE'),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await removeResourceBlock(req.tenant!.clientId, req.params.id, req.params.blockedTimeId);
+      if (!result.success) {
+        return sendResourceFailure(res, result.reason);
+      }
+      sendSuccess(res, { deleted: true });
+    } catch (error) {
+      console.error('Failed to delete resource blocked time:', error);
+      sendError(res, 'INTERNAL_ERROR', 'Failed to delete resource blocked time', 500);
+    }
+  }
+);
+
+export default router;
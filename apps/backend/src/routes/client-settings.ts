@@ -1,17 +1,20 @@
 import { Router } from 'express';
 import { prisma } from '../db';
 import { sendSuccess, sendError } from '../utils/response';
+import { requireTenant, requireClientPermission } from '../middleware/tenant';
+import { AuthenticatedRequest } from '../types/express';
+import { TravelTime } from '../lib/geo/TravelTime';
+import { MAX_REMINDER_HOURS, getReminderSettings } from '../services/BookingReminderService';
 
 const router = Router();
 
-// GET /api/client/settings?clientId=xxx&tab=business|hours|notifications|assistant|booking
-router.get('/', async (req, res) => {
-  try {
-    const { clientId, tab = 'business' } = req.query;
+router.use(requireTenant);
 
-    if (!clientId || typeof clientId !== 'string') {
-      return sendError(res, 'MISSING_CLIENT_ID', 'Client ID is required', 400);
-    }
+// GET /api/client/settings?tab=business|hours|notifications|assistant|booking
+router.get('/', requireClientPermission('SETTINGS_READ'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const clientId = req.tenant!.clientId;
+    const { tab = 'business' } = req.query;
 
     const client = await prisma.client.findUnique({
       where: { id: clientId },
@@ -58,10 +61,18 @@ router.get('/', async (req, res) => {
         aiBookingStyle: 'conversational',
       });
     } else if (tab === 'booking') {
-      // These fields don't exist on Client model - return defaults
+      // Duration and same-day don't exist on Client model - return defaults
+      const travel = await TravelTime.settingsFor(clientId);
+      const reminders = await getReminderSettings(clientId);
       sendSuccess(res, {
         defaultJobDuration: 60,
         allowSameDayBookings: true,
+        basePostcode: travel.basePostcode,
+        serviceRadiusMiles: travel.serviceRadiusMiles,
+        travelRoadFactor: travel.roadFactor,
+        outOfAreaAction: travel.outOfAreaAction,
+        reminderHoursBefore: reminders.reminderHoursBefore,
+        missedAfterMinutes: reminders.missedAfterMinutes,
       });
     } else {
       return sendError(res, 'INVALID_TAB', 'Invalid settings tab', 400);
@@ -72,14 +83,11 @@ router.get('/', async (req, res) => {
   }
 });
 
-// PUT /api/client/settings?clientId=xxx&tab=business|hours|notifications|assistant|booking
-router.put('/', async (req, res) => {
+// PUT /api/client/settings?tab=business|hours|notifications|assistant|booking
+router.put('/', requireClientPermission('SETTINGS_WRITE'), async (req: AuthenticatedRequest, res) => {
   try {
-    const { clientId, tab = 'business' } = req.query;
-
-    if (!clientId || typeof clientId !== 'string') {
-      return sendError(res, 'MISSING_CLIENT_ID', 'Client ID is required', 400);
-    }
+    const clientId = req.tenant!.clientId;
+    const { tab = 'business' } = req.query;
 
     const client = await prisma.client.findUnique({
       where: { id: clientId },
@@ -110,7 +118,20 @@ router.put('/', async (req, res) => {
       // These fields don't exist on Client model - skip update
       updateData = {};
     } else if (tab === 'booking') {
-      // These fields don't exist on Client model - skip update
+      // Travel, service area and reminders live on ClientSettings
+      const travel = parseTravelSettings(req.body);
+      if (typeof travel === 'string') {
+        return sendError(res, 'INVALID_BODY', travel, 400);
+      }
+      const reminders = parseReminderSettings(req.body);
+      if (typeof reminders === 'string') {
+        return sendError(res, 'INVALID_BODY', reminders, 400);
+      }
+      await prisma.clientSettings.upsert({
+        where: { clientId },
+        create: { clientId, ...travel, ...reminders },
+        update: { ...travel, ...reminders },
+      });
       updateData = {};
     } else {
       return sendError(res, 'INVALID_TAB', 'Invalid settings tab', 400);
@@ -128,6 +149,80 @@ router.put('/', async (req, res) => {
   }
 });
 
+/**
+ * Travel & service area fields from the booking tab; all optional, null
+ * clears the base postcode or radius
+ */
+function parseTravelSettings(body: any) {
+  const { basePostcode, serviceRadiusMiles, travelRoadFactor, outOfAreaAction } = body ?? {};
+  const travel: {
+    basePostcode?: string | null;
+    serviceRadiusMiles?: number | null;
+    travelRoadFactor?: number;
+    outOfAreaAction?: 'FLAG' | 'DECLINE';
+  } = {};
+
+  if (basePostcode !== undefined) {
+    if (basePostcode !== null && (typeof basePostcode !== 'string' || !TravelTime.locate(basePostcode))) {
+      return 'basePostcode must be a UK postcode';
+    }
+    travel.basePostcode = basePostcode ? basePostcode.trim().toUpperCase() : null;
+  }
+
+  if (serviceRadiusMiles !== undefined) {
+    if (serviceRadiusMiles !== null && (typeof serviceRadiusMiles !== 'number' || serviceRadiusMiles <= 0)) {
+      return 'serviceRadiusMiles must be a positive number';
+    }
+    travel.serviceRadiusMiles = serviceRadiusMiles;
+  }
+
+  if (travelRoadFactor !== undefined) {
+    if (typeof travelRoadFactor !== 'number' || travelRoadFactor < 1 || travelRoadFactor > 3) {
+      return 'travelRoadFactor must be between 1 (straight line) and 3';
+    }
+    travel.travelRoadFactor = travelRoadFactor;
+  }
+
+  if (outOfAreaAction !== undefined) {
+    if (outOfAreaAction !== 'FLAG' && outOfAreaAction !== 'DECLINE') {
+      return 'outOfAreaAction must be FLAG or DECLINE';
+    }
+    travel.outOfAreaAction = outOfAreaAction;
+  }
+
+  return travel;
+}
+
+/**
+ * Reminder schedule from the booking tab; an empty list turns reminders
+ * (and so MISSED marking) off
+ */
+function parseReminderSettings(body: any) {
+  const { reminderHoursBefore, missedAfterMinutes } = body ?? {};
+  const reminders: { reminderHoursBefore?: number[]; missedAfterMinutes?: number } = {};
+
+  if (reminderHoursBefore !== undefined) {
+    if (
+      !Array.isArray(reminderHoursBefore) ||
+      !reminderHoursBefore.every(
+        (hours) => Number.isInteger(hours) && hours >= 1 && hours <= MAX_REMINDER_HOURS
+      )
+    ) {
+      return `reminderHoursBefore must be a list of whole hours from 1 to ${MAX_REMINDER_HOURS}`;
+    }
+    reminders.reminderHoursBefore = [...new Set<number>(reminderHoursBefore)].sort((a, b) => b - a);
+  }
+
+  if (missedAfterMinutes !== undefined) {
+    if (!Number.isInteger(missedAfterMinutes) || missedAfterMinutes < 0 || missedAfterMinutes > 1440) {
+      return 'missedAfterMinutes must be a whole number of minutes up to 1440';
+    }
+    reminders.missedAfterMinutes = missedAfterMinutes;
+  }
+
+  return reminders;
+}
+
 function getDefaultOperatingHours() {
   return {
     monday: { enabled: true, open: '09:00', close: '17:00' },
@@ -0,0 +1,116 @@
+import { Router, Response } from 'express';
+import { sendSuccess, sendError } from '../utils/response';
+import { requireTenant, requireClientPermission } from '../middleware/tenant';
+import { AuthenticatedRequest } from '../types/express';
+import { hasPermission } from '../services/TeamService';
+import {
+  TASK_STATUSES,
+  TaskFailureReason,
+  TaskUpdate,
+  isTaskStatus,
+  listTasks,
+  updateTask,
+} from '../services/TaskService';
+
+const router = Router();
+
+router.use(requireTenant);
+
+const FAILURE_RESPONSES: Record<TaskFailureReason, { status: number; message: string }> = {
+  NOT_FOUND: { status: 404, message: 'Task not found' },
+  ASSIGNEE_NOT_MEMBER: { status: 400, message: 'Tasks can only be assigned to team members' },
+  NOT_ALLOWED: { status: 403, message: 'You can only open or complete tasks assigned to you' },
+};
+
+function sendTaskFailure(res: Response, reason: TaskFailureReason) {
+  const { status, message } = FAILURE_RESPONSES[reason];
+  return sendError(res, reason, message, status);
+}
+
+/**
+ * Picks the task fields from a PATCH body
+ */
+function parseTaskUpdate(body: any): TaskUpdate | string {
+  const update: TaskUpdate = {};
+
+  if (body?.title !== undefined) {
+    if (typeof body.title !== 'string' || !body.title.trim()) return 'title must be a non-empty string';
+    update.title = body.title.trim();
+  }
+
+  if (body?.description !== undefined) {
+    if (body.description !== null && typeof body.description !== 'string') return 'description must be a string or null';
+    update.description = body.description;
+  }
+
+  if (body?.status !== undefined) {
+    if (!isTaskStatus(body.status)) return `status must be one of: ${TASK_STATUSES.join(', ')}`;
+    update.status = body.status;
+  }
+
+  if (body?.dueAt !== undefined) {
+    if (body.dueAt !== null && (typeof body.dueAt !== 'string' || Number.isNaN(Date.parse(body.dueAt)))) {
+      return 'dueAt must be an ISO date or null';
+    }
+    update.dueAt = body.dueAt === null ? null : new Date(body.dueAt);
+  }
+
+  if (body?.assigneeId !== undefined) {
+    if (body.assigneeId !== null && (typeof body.assigneeId !== 'string' || !body.assigneeId)) {
+      return 'assigneeId must be a user id or null';
+    }
+    update.assigneeId = body.assigneeId;
+  }
+
+  if (Object.keys(update).length === 0) {
+    return 'Nothing to update';
+  }
+
+  return update;
+}
+
+// GET /api/client/tasks?status=OPEN&assigneeId=...  (assigneeId=me for your own)
+router.get('/', requireClientPermission('LEADS_READ'), async (req: AuthenticatedRequest, res) => {
+  const { status, assigneeId } = req.query;
+
+  if (status !== undefined && !isTaskStatus(status)) {
+    return sendError(res, 'INVALID_STATUS', `status must be one of: ${TASK_STATUSES.join(', ')}`, 400);
+  }
+
+  try {
+    const tasks = await listTasks(req.tenant!.clientId, {
+      status,
+      assigneeId: assigneeId === 'me' ? req.tenant!.userId : typeof assigneeId === 'string' ? assigneeId : undefined,
+    });
+    sendSuccess(res, tasks);
+  } catch (error) {
+    console.error('Failed to fetch tasks:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to fetch tasks', 500);
+  }
+});
+
+// PATCH /api/client/tasks/:id  { title?, description?, status?, dueAt?, assigneeId? }
+router.patch('/:id', requireClientPermission('LEADS_READ'), async (req: AuthenticatedRequest, res) => {
+  const update = parseTaskUpdate(req.body);
+  if (typeof update === 'string') {
+    return sendError(res, 'INVALID_BODY', update, 400);
+  }
+
+  const tenant = req.tenant!;
+
+  try {
+    const result = await updateTask(tenant.clientId, req.params.id, update, {
+      userId: tenant.userId,
+      canManage: hasPermission(tenant.role, 'SCHEDULE_MANAGE'),
+    });
+    if (!result.success) {
+      return sendTaskFailure(res, result.reason);
+    }
+    sendSuccess(res, result.task);
+  } catch (error) {
+    console.error('Failed to update task:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to update task', 500);
+  }
+});
+
+export default router;
@@ -0,0 +1,143 @@
+import { Router, Response } from 'express';
+import { sendSuccess, sendError } from '../utils/response';
+import { requireTenant, requireClientPermission } from '../middleware/tenant';
+import { AuthenticatedRequest } from '../types/express';
+import {
+  ROLE_PERMISSIONS,
+  TeamFailureReason,
+  isClientMemberRole,
+  listTeam,
+  createInvitation,
+  revokeInvitation,
+  updateMemberRole,
+  removeMember,
+} from '../services/TeamService';
+
+const router = Router();
+
+router.use(requireTenant);
+
+const FAILURE_RESPONSES: Record<TeamFailureReason, { status: number; message: string }> = {
+  NOT_FOUND: { status: 404, message: 'Not found' },
+  ALREADY_MEMBER: { status: 409, message: 'This person is already a team member' },
+  LAST_OWNER: { status: 409, message: 'A business must keep at least one owner' },
+  INVITATION_INVALID: { status: 410, message: 'Invitation is invalid or has expired' },
+  EMAIL_MISMATCH: { status: 403, message: 'Invitation was sent to a different email' },
+  INVALID_PASSWORD: { status: 401, message: 'Invalid email or password' },
+};
+
+function sendTeamFailure(res: Response, reason: TeamFailureReason) {
+  const { status, message } = FAILURE_RESPONSES[reason];
+  return sendError(res, reason, message, status);
+}
+
+// GET /api/client/team/me
+router.get('/me', (req: AuthenticatedRequest, res) => {
+  const tenant = req.tenant!;
+
+  sendSuccess(res, {
+    clientId: tenant.clientId,
+    userId: tenant.userId ?? null,
+    role: tenant.role,
+    permissions: ROLE_PERMISSIONS[tenant.role],
+    isImpersonating: tenant.source === 'IMPERSONATION',
+  });
+});
+
+// GET /api/client/team
+router.get('/', requireClientPermission('TEAM_READ'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const team = await listTeam(req.tenant!.clientId);
+    sendSuccess(res, team);
+  } catch (error) {
+    console.error('Failed to fetch team:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to fetch team', 500);
+  }
+});
+
+// POST /api/client/team/invitations  { email, role }
+router.post('/invitations', requireClientPermission('TEAM_MANAGE'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { email, role } = req.body;
+
+    if (!email || typeof email !== 'string' || !email.includes('@')) {
+      return sendError(res, 'INVALID_EMAIL', 'A valid email is required', 400);
+    }
+
+    if (!isClientMemberRole(role)) {
+      return sendError(res, 'INVALID_ROLE', 'Role must be OWNER, DISPATCHER, TECHNICIAN or READ_ONLY', 400);
+    }
+
+    const result = await createInvitation({
+      clientId: req.tenant!.clientId,
+      email,
+      role,
+      invitedById: req.tenant!.userId ?? req.tenant!.adminId,
+    });
+
+    if (!result.success) {
+      return sendTeamFailure(res, result.reason);
+    }
+
+    sendSuccess(res, { invitation: result.invitation, acceptUrl: result.acceptUrl }, 201);
+  } catch (error) {
+    console.error('Failed to create invitation:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to create invitation', 500);
+  }
+});
+
+// DELETE /api/client/team/invitations/:id
+router.delete('/invitations/:id', requireClientPermission('TEAM_MANAGE'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const result = await revokeInvitation(req.tenant!.clientId, req.params.id);
+
+    if (!result.success) {
+      return sendTeamFailure(res, result.reason);
+    }
+
+    sendSuccess(res, { revoked: true });
+  } catch (error) {
+    console.error('Failed to revoke invitation:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to revoke invitation', 500);
+  }
+});
+
+// PATCH /api/client/team/members/:userId  { role }
+router.patch('/members/:userId', requireClientPermission('TEAM_MANAGE'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { role } = req.body;
+
+    if (!isClientMemberRole(role)) {
+      return sendError(res, 'INVALID_ROLE', 'Role must be OWNER, DISPATCHER, TECHNICIAN or READ_ONLY', 400);
+    }
+
+    const result = await updateMemberRole(req.tenant!.clientId, req.params.userId, role);
+
+    if (!result.success) {
+      return sendTeamFailure(res, result.reason);
+    }
+
+    sendSuccess(res, { userId: result.membership.userId, role: result.membership.role });
+  } catch (error) {
+    console.error('Failed to update member role:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to update member role', 500);
+  }
+});
+
+// DELETE /api/client/team/members/:userId
+router.delete('/members/:userId', requireClientPermission('TEAM_MANAGE'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const result = await removeMember(req.tenant!.clientId, req.params.userId);
+
+    if (!result.success) {
+      return sendTeamFailure(res, result.reason);
+    }
+
+    sendSuccess(res, { removed: true });
+  } catch (error) {
+    console.error('Failed to remove member:', error);
+    sendError(res, 'INTERNAL_ERROR', 'Failed to remove member', 500);
+  }
+});
+
+export default router;
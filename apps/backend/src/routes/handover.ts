@@ -38,6 +38,7 @@ router.get('/inbox', async (req: Request, res: Response) => {
     const handovers = await HandoverManager.getActiveHandovers(clientId);
 
     // Enrich with conversation data
+    await Promise.all(handovers.map((handover) => ConversationMemory.load(handover.conversationId)));
     const enrichedHandovers = handovers.map((handover) => {
       const lastMessages = ConversationMemory.getLastNMessages(
         handover.conversationId,
@@ -115,6 +116,7 @@ router.get('/:conversationId', async (req: Request, res: Response) => {
     }
 
     // Get conversation messages
+    await ConversationMemory.load(conversationId);
     const messages = ConversationMemory.getLastNMessages(conversationId, 50);
 
     // Get conversation preferences
@@ -187,7 +189,9 @@ router.post('/:conversationId/close', async (req: Request, res: Response) => {
     await HandoverManager.endHandover(conversationId);
 
     // Un-silence AI for this conversation
+    await ConversationMemory.load(conversationId);
     ConversationMemory.unsilence(conversationId);
+    await ConversationMemory.flush(conversationId);
 
     // Log closure
     AdminLogger.log('handover_closed', conversationId, clientId, {
@@ -284,7 +288,9 @@ router.post('/:conversationId/reply', async (req: Request, res: Response) => {
     });
 
     // Add message to conversation memory
+    await ConversationMemory.load(conversationId);
     ConversationMemory.addMessage(conversationId, message, 'human');
+    await ConversationMemory.flush(conversationId);
 
     return res.json({
       success: true,
@@ -7,7 +7,7 @@
  * CORE PRINCIPLES:
  * - Stripe events NEVER mutate billing.status directly
  * - All transitions go through transitionBillingState()
- * - All events are idempotent via BillingEvent table
+ * - All events are idempotent via the webhook ledger and BillingEvent table
  * - Invalid/out-of-order events are ignored safely
  * - Failures are logged but non-fatal
  *
@@ -22,13 +22,18 @@
 import express from 'express';
 import Stripe from 'stripe';
 import { prisma } from '../db';
-import { BillingStatus, PaymentSource } from '@prisma/client';
+import { BillingStatus, PaymentSource, WebhookEvent } from '@prisma/client';
 import {
   transitionBillingState,
   activateSubscription,
   markDelinquent,
   cancelSubscription,
 } from '../utils/billingTransitions';
+import {
+  claimWebhookEvent,
+  completeWebhookEvent,
+  failWebhookEvent,
+} from '../services/WebhookLedger';
 
 const router = express.Router();
 
@@ -474,25 +479,58 @@ async function handleSubscriptionDeleted(
 //  EVENT INTAKE LAYER (FIREWALL)
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
+/**
+ * Outcome of a Stripe event, recorded on its webhook ledger row.
+ */
+interface StripeEventOutcome {
+  outcome: string;
+  clientId?: string;
+}
+
 /**
  * Process a verified Stripe event.
  *
  * This is the main entry point for all Stripe webhook processing.
  *
  * FLOW:
- * 1. Check idempotency (BillingEvent table)
- * 2. Resolve client ID from event metadata
- * 3. Load current billing state
- * 4. Validate transition is allowed
- * 5. Route to event-specific handler
- * 6. Record event in BillingEvent table
+ * 1. Claim the event in the webhook ledger (duplicates are NO-OPs)
+ * 2. Check idempotency (BillingEvent table)
+ * 3. Resolve client ID from event metadata
+ * 4. Load current billing state
+ * 5. Validate transition is allowed
+ * 6. Route to event-specific handler
+ * 7. Record event in BillingEvent table and the outcome in the ledger
  *
  * SAFETY GUARANTEES:
  * - Idempotent: duplicate events are ignored
  * - Validated: invalid transitions are rejected
  * - Non-fatal: errors are logged but don't block webhook acknowledgement
+ * - Re-drivable: a failed event is left FAILED in the ledger (and out of
+ *   BillingEvent) so an operator can re-drive it
  */
 async function handleStripeEvent(event: Stripe.Event): Promise<void> {
+  const claim = await claimWebhookEvent({
+    provider: 'STRIPE',
+    eventKey: event.id,
+    eventType: event.type,
+    route: '/stripe',
+    payload: event,
+  });
+
+  if (!claim.claimed) {
+    console.log(`[Stripe] ⏭️  Event ${event.id} already ${claim.event.status} in webhook ledger (idempotent NO-OP)`);
+    return;
+  }
+
+  try {
+    const result = await processStripeEvent(event);
+    await completeWebhookEvent(claim.event.id, result);
+  } catch (error) {
+    await failWebhookEvent(claim.event.id, error);
+  }
+}
+
+async function processStripeEvent(event: Stripe.Event): Promise<StripeEventOutcome> {
   const startTime = Date.now();
   const { id: eventId, type: eventType } = event;
 
@@ -506,7 +544,7 @@ async function handleStripeEvent(event: Stripe.Event): Promise<void> {
   if (alreadyProcessed) {
     console.log(`[Stripe] ⏭️  Event ${eventId} already processed (idempotent NO-OP)`);
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
-    return;
+    return { outcome: 'already_processed' };
   }
 
   // GUARD 2: Resolve client ID
@@ -516,7 +554,7 @@ async function handleStripeEvent(event: Stripe.Event): Promise<void> {
     console.error(`[Stripe] Event type: ${eventType}`);
     console.error(`[Stripe] This event will be IGNORED (not retried)`);
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
-    return;
+    return { outcome: 'ignored_unknown_client' };
   }
 
   console.log(`[Stripe] Resolved client ID: ${clientId}`);
@@ -530,7 +568,7 @@ async function handleStripeEvent(event: Stripe.Event): Promise<void> {
     console.error(`[Stripe] ❌ No billing record for client ${clientId}`);
     console.error(`[Stripe] This event will be IGNORED (not retried)`);
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
-    return;
+    return { outcome: 'ignored_no_billing_record', clientId };
   }
 
   console.log(`[Stripe] Current billing status: ${billing.status}`);
@@ -540,7 +578,7 @@ async function handleStripeEvent(event: Stripe.Event): Promise<void> {
   if (!rule) {
     console.log(`[Stripe] ℹ️  Unhandled event type: ${eventType} (ignored)`);
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
-    return;
+    return { outcome: 'ignored_unhandled_type', clientId };
   }
 
   // GUARD 5: Validate current state is allowed
@@ -552,7 +590,7 @@ async function handleStripeEvent(event: Stripe.Event): Promise<void> {
 
     // Still record the event to maintain idempotency
     await recordBillingEvent(clientId, eventId, eventType, event.data.object);
-    return;
+    return { outcome: `ignored_in_state_${billing.status}`, clientId };
   }
 
   console.log(`[Stripe] ✅ Transition allowed: ${billing.status} → ${rule.targetState}`);
@@ -576,11 +614,23 @@ async function handleStripeEvent(event: Stripe.Event): Promise<void> {
     await recordBillingEvent(clientId, eventId, eventType, event.data.object, processingTime);
   } catch (error) {
     console.error(`[Stripe] ❌ Error processing event ${eventId}:`, error);
-    // Still record the event to prevent retry loops
-    await recordBillingEvent(clientId, eventId, eventType, event.data.object);
+    // Not recorded in BillingEvent: Stripe won't retry (we acknowledged
+    // with 200), so the ledger's FAILED row is what gets it re-driven
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
+    throw error;
   }
 
   console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
+  return { outcome: 'processed', clientId };
+}
+
+/**
+ * Replay a stored event from the webhook ledger; its signature was verified
+ * on receipt. Registered as the STRIPE redriver by index.ts, which loads this
+ * module on demand while the route is unmounted.
+ */
+export async function redriveStripeEvent(event: WebhookEvent): Promise<void> {
+  await handleStripeEvent(event.payload as unknown as Stripe.Event);
 }
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -1,8 +1,8 @@
-import { Router } from "express";
+import { Router, Request, Response } from "express";
 import { prisma } from "../db";
 import { resolveCustomer } from "../utils/resolveCustomer";
 import { handleInboundSms } from "../ai/pipelines/inboundSmsPipeline";
-import { findOrCreateConversation, addMessage } from "../modules/conversation/service";
+import { findOrCreateConversation, addMessage, publishNewMessage } from "../modules/conversation/service";
 import {
   isAdminPhone,
   parseAdminCommand,
@@ -30,6 +30,23 @@ import {
 } from "../utils/numberRoleResolver";
 import { TwilioNumberRole } from "@prisma/client";
 import { sendSMS } from "../twilio/client";
+import { applyMessageStatusCallback } from "../services/MessageDeliveryService";
+import { TwilioMessageStatusPayload } from "../twilio/utils/twilioTypes";
+import {
+  parseConsentKeyword,
+  applyConsentKeyword,
+  isOptedOut,
+  getConsent,
+} from "../services/ConsentService";
+import { handleBookingReply } from "../services/BookingReminderService";
+import { handleApprovalReply } from "../agents/ApprovalQueue";
+import { emitDomainEvent } from "../services/DomainEvents";
+import {
+  claimWebhookEvent,
+  completeWebhookEvent,
+  failWebhookEvent,
+  registerWebhookRedriver,
+} from "../services/WebhookLedger";
 
 const router = Router();
 
@@ -57,10 +74,122 @@ function normalizePhoneNumber(input?: string): string | null {
 // ONBOARDING-ONLY NUMBER (NORMALIZED - digits only)
 const ONBOARDING_ONLY_NUMBER = "447476955179";
 
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  WEBHOOK LEDGER (IDEMPOTENCY FOR EVERY TWILIO HANDLER)
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Twilio retries on timeouts and 5xx, and may deliver the same status
+// callback twice. Each handler claims (SID, event type) before acting;
+// a duplicate gets the no-op reply and nothing else runs.
+//
+// The outcome is recorded once the response is sent: a 5xx, or an error
+// a handler swallowed into a 200 (res.locals.webhookError), marks the
+// event FAILED so it can be re-driven from the admin API.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+async function claimTwilioWebhook(
+  req: Request,
+  res: Response,
+  eventKey: string | undefined,
+  eventType: string,
+  replyToDuplicate: () => void
+): Promise<boolean> {
+  if (!eventKey) return true;
+
+  let claim;
+  try {
+    claim = await claimWebhookEvent({
+      provider: "TWILIO",
+      eventKey,
+      eventType,
+      route: req.path,
+      payload: req.body,
+    });
+  } catch (error) {
+    // Ledger unavailable: handle the event rather than drop it
+    console.error("❌ [WebhookLedger] Claim failed, processing without ledger:", { eventKey, eventType, error });
+    return true;
+  }
+
+  if (!claim.claimed) {
+    console.log("⚠️ DUPLICATE WEBHOOK: already processed or in progress", {
+      eventKey,
+      eventType,
+      ledgerId: claim.event.id,
+      status: claim.event.status,
+      firstSeenAt: claim.event.createdAt,
+    });
+    replyToDuplicate();
+    return false;
+  }
+
+  const ledgerId = claim.event.id;
+  // Set by the redriver below; only trusted when it names the row just claimed
+  const redrive = req.get("X-Webhook-Redrive") === ledgerId;
+  if (redrive) {
+    console.log("🔁 [WebhookLedger] Re-driven webhook claimed", {
+      ledgerId,
+      eventKey,
+      eventType,
+      attempt: claim.event.attempts,
+    });
+  }
+
+  res.on("finish", () => {
+    const error = res.locals.webhookError;
+    const recorded =
+      error || res.statusCode >= 500
+        ? failWebhookEvent(ledgerId, error ?? `Responded HTTP ${res.statusCode}`, res.statusCode)
+        : completeWebhookEvent(ledgerId, {
+            responseCode: res.statusCode,
+            outcome: res.locals.webhookOutcome,
+            clientId: res.locals.webhookClientId,
+          });
+
+    if (redrive) {
+      console.log("🔁 [WebhookLedger] Re-driven webhook answered", { ledgerId, statusCode: res.statusCode });
+    }
+    recorded.catch((err) => console.error("❌ [WebhookLedger] Failed to record outcome:", { ledgerId, err }));
+  });
+
+  return true;
+}
+
+// Re-drive: replay the stored form payload through this router, so the
+// handler reclaims the FAILED row and records the new outcome
+registerWebhookRedriver("TWILIO", async (event) => {
+  const port = Number(process.env.PORT) || 3001;
+  const response = await fetch(`http://127.0.0.1:${port}/api/twilio${event.route}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      "X-Webhook-Redrive": event.id,
+    },
+    body: new URLSearchParams(event.payload as Record<string, string>).toString(),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Re-drive of ${event.route} answered HTTP ${response.status}`);
+  }
+});
+
+function sendEmptyTwiml(res: Response) {
+  res.type("text/xml");
+  res.send("<Response></Response>");
+}
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // 1. INCOMING VOICE CALL → Test Call Detection + TwiML
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
+const VOICE_GREETING_TWIML = `
+    <Response>
+      <Say voice="Polly.Joanna">
+        Hello! This is the JobRun automated assistant.
+        We'll send you a text message with next steps. Thank you!
+      </Say>
+      <Hangup/>
+    </Response>
+  `;
+
 router.post("/voice", async (req, res) => {
   console.error("🚨🚨🚨 HIT NEW CODE — JOBRUN VOICE — COMMIT 2026-01-03 🚨🚨🚨");
   console.log("🔥 VOICE HANDLER HIT (REAL ROUTE, NOT ISOLATION)", {
@@ -75,6 +204,13 @@ router.post("/voice", async (req, res) => {
 
   console.log("📞 Incoming voice call:", { from, to });
 
+  // A retried call webhook still needs TwiML, so duplicates get the greeting
+  const claimed = await claimTwilioWebhook(req, res, req.body.CallSid, "call.incoming", () => {
+    res.type("text/xml");
+    res.send(VOICE_GREETING_TWIML);
+  });
+  if (!claimed) return;
+
   // Log client info if we can resolve it
   try {
     const normalizedTo = to?.replace(/\D/g, "") || "";
@@ -152,20 +288,11 @@ router.post("/voice", async (req, res) => {
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
     // NO ONBOARDING LOGIC - Voice callbacks never trigger onboarding
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-    const twiml = `
-    <Response>
-      <Say voice="Polly.Joanna">
-        Hello! This is the JobRun automated assistant.
-        We'll send you a text message with next steps. Thank you!
-      </Say>
-      <Hangup/>
-    </Response>
-  `;
-
     res.type("text/xml");
-    res.send(twiml);
+    res.send(VOICE_GREETING_TWIML);
   } catch (error) {
     console.error("❌ /voice webhook error:", error);
+    res.locals.webhookError = error;
 
     // Return safe TwiML even on error
     const errorTwiml = `
@@ -193,8 +320,20 @@ router.post("/status", async (req, res) => {
   const to = req.body.To;
   const callDuration = req.body.CallDuration || "0";
 
+  // Message status callbacks pointed at /status are delivery receipts, not call events
+  if (!callStatus && req.body.MessageStatus) {
+    return handleMessageStatus(req, res);
+  }
+
   console.log(`📡 Status update: ${callStatus} from ${from} to ${to} (duration: ${callDuration}s)`);
 
+  // Keyed per status: one call posts ringing, in-progress, completed... under
+  // the same CallSid, but each must only route a missed call once
+  const claimed = await claimTwilioWebhook(req, res, req.body.CallSid, `call.status.${callStatus}`, () =>
+    res.sendStatus(200)
+  );
+  if (!claimed) return;
+
   try {
     const normalizedFrom = normalizePhoneNumber(from);
     const normalizedTo = normalizePhoneNumber(to);
@@ -278,6 +417,8 @@ router.post("/status", async (req, res) => {
       });
 
       console.log("✅ [OPERATIONAL] Customer missed call SMS sent");
+      res.locals.webhookOutcome = "missed_call_routed";
+      res.locals.webhookClientId = clientRecord.id;
       console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
       return res.sendStatus(200);
     }
@@ -345,6 +486,7 @@ router.post("/status", async (req, res) => {
         });
 
         console.log("✅ [SYSTEM FAILSAFE] Fail-safe intake SMS sent successfully");
+        res.locals.webhookOutcome = "failsafe_intake_sent";
         console.warn("⚠️  [SYSTEM FAILSAFE] ACTION REQUIRED:");
         console.warn("   - Assign this number to a client in TwilioNumberPool");
         console.warn("   - Or mark it with appropriate role (ONBOARDING/OPERATIONAL/SYSTEM)");
@@ -357,6 +499,7 @@ router.post("/status", async (req, res) => {
           error: error instanceof Error ? error.message : String(error),
         });
         console.error("🚨 CRITICAL: Customer call resulted in NO response (revenue loss)");
+        res.locals.webhookError = error;
 
         // Still increment metric to track failures
         metrics.increment(MetricVoiceCallSystemNumber, {
@@ -382,10 +525,74 @@ router.post("/status", async (req, res) => {
     res.sendStatus(200);
   } catch (error) {
     console.error("❌ /status webhook error:", error);
+    res.locals.webhookError = error;
     res.sendStatus(200); // Always return 200 to Twilio
   }
 });
 
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// 2B. MESSAGE STATUS CALLBACK → Outbound SMS Delivery Tracking
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Twilio posts queued → sent → delivered | undelivered | failed
+// for every outbound SMS sent with a statusCallback URL.
+// Always 200: unknown SIDs and stale statuses are not retryable.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+async function handleMessageStatus(req: Request, res: Response) {
+  const payload: TwilioMessageStatusPayload = req.body;
+  console.log("📬 Message status update:", {
+    messageSid: payload.MessageSid,
+    status: payload.MessageStatus,
+    errorCode: payload.ErrorCode,
+  });
+
+  const claimed = await claimTwilioWebhook(req, res, payload.MessageSid || payload.SmsSid, `message.status.${payload.MessageStatus}`, () =>
+    res.sendStatus(200)
+  );
+  if (!claimed) return;
+
+  try {
+    const result = await applyMessageStatusCallback(payload);
+    console.log("📬 Message status applied:", result);
+    res.locals.webhookOutcome = result.updated ? "delivery_updated" : result.reason;
+  } catch (error) {
+    console.error("❌ /message-status webhook error:", error);
+    res.locals.webhookError = error;
+  }
+
+  res.sendStatus(200);
+}
+
+router.post("/message-status", async (req, res) => {
+  await handleMessageStatus(req, res);
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// OPTED-OUT INBOUND → persist to thread, no automation
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// The business still sees what the customer wrote on the dashboard,
+// but nothing is parsed, escalated or replied to.
+async function recordOptedOutInbound(
+  clientId: string,
+  from: string,
+  body: string,
+  messageSid?: string
+) {
+  const customer = await resolveCustomer({ clientId, phone: from });
+  const conversation = await findOrCreateConversation(clientId, customer.id, 'OPERATIONAL');
+
+  await addMessage({
+    conversationId: conversation.id,
+    clientId,
+    customerId: customer.id,
+    direction: "INBOUND",
+    type: "SMS",
+    body,
+    twilioSid: messageSid,
+    metadata: { optedOut: true },
+  });
+}
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // 3. INBOUND SMS HANDLER — AI PIPELINE
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -402,12 +609,17 @@ router.post("/sms", async (req, res) => {
 
   console.log("💬 Incoming SMS:", { correlationId, from, to, body, messageSid });
 
+  const claimed = await claimTwilioWebhook(req, res, messageSid, "message.inbound", () => sendEmptyTwiml(res));
+  if (!claimed) return;
+
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
   // IDEMPOTENCY CHECK: Prevent duplicate processing of same Twilio message
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
   // Twilio retries webhooks if timeout (>15s) or HTTP 500
   // Customer can press "send" multiple times
   // MessageSid is unique per Twilio message (our deduplication key)
+  // The ledger claim above stops concurrent and processed duplicates; this
+  // also covers a retry of an attempt that failed after storing the message
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
   if (messageSid) {
     const existingMessage = await prisma.message.findUnique({
@@ -425,8 +637,8 @@ router.post("/sms", async (req, res) => {
 
       // Return HTTP 200 with empty TwiML (already processed, don't retry)
       // This is correct behavior - Twilio should not redeliver
-      res.type('text/xml');
-      return res.send('<Response></Response>');
+      res.locals.webhookOutcome = "duplicate_message";
+      return sendEmptyTwiml(res);
     }
   }
 
@@ -438,6 +650,7 @@ router.post("/sms", async (req, res) => {
   // A) Active onboarding state → handleOnboardingSms()                    [EXIT]
   // B) Onboarding-only number → handleOnboardingSms()                    [EXIT]
   // C) Admin command → execute admin command                             [EXIT]
+  // C2) Booking reminder reply (C / R / X) → confirm/reschedule/cancel    [EXIT]
   // D) Operational conversation (mode=OPERATIONAL) → operational handler [EXIT]
   // E) Customer job pipeline (creates mode=OPERATIONAL conversations)    [EXIT]
   //
@@ -490,6 +703,61 @@ router.post("/sms", async (req, res) => {
     });
   }
 
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // SMS CONSENT: STOP / START / HELP (BEFORE ANY PIPELINE BRANCH)
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // Carrier keywords are answered here and never reach the operational
+  // handler or AI pipeline. Messages from an opted-out customer are recorded
+  // and acknowledged with empty TwiML - no reply until they text START.
+  //
+  // Scope: customer-facing numbers only. The onboarding number and the admin
+  // phone are owner traffic with no client/customer consent relationship.
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  if (!isOnboardingAllowed && !isAdminPhone(from)) {
+    const consentClientId = numberInfo.clientId || defaultClientId;
+
+    try {
+      const consentKeyword = parseConsentKeyword(body);
+
+      if (consentKeyword) {
+        console.log("ROUTING_DECISION", {
+          mode: "SMS_CONSENT",
+          reason: `KEYWORD_${consentKeyword.action}`,
+          clientId: consentClientId,
+          to: normalizedTo,
+        });
+
+        const { reply } = await applyConsentKeyword({
+          clientId: consentClientId,
+          phone: from,
+          keyword: consentKeyword,
+          messageSid,
+        });
+
+        res.type("text/xml");
+        return res.send(`<Response><Message>${reply}</Message></Response>`);
+      }
+
+      if (await isOptedOut(consentClientId, from)) {
+        console.warn("🔕 [CONSENT] Inbound SMS from opted-out customer - no reply will be sent", {
+          correlationId,
+          clientId: consentClientId,
+          from: normalizedFrom,
+          messageSid,
+        });
+
+        await recordOptedOutInbound(consentClientId, from, body, messageSid);
+
+        res.type("text/xml");
+        return res.send("<Response></Response>");
+      }
+    } catch (error) {
+      console.error("❌ [CONSENT] Consent handling failed:", error);
+      // Twilio retries on 500; idempotency check prevents double-processing
+      return res.status(500).send("Consent processing failed");
+    }
+  }
+
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
   // TIER 2: CANCELLATION FLOW REMOVED
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -727,6 +995,79 @@ router.post("/sms", async (req, res) => {
     }
   }
 
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // C2) BOOKING REMINDER REPLY (C / R / X)
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // A bare C, R or X from a customer we've sent a booking reminder to
+  // confirms, reschedules (AutoRescheduleAgent) or cancels that booking.
+  // Anything else - or no reminded booking - carries on to D/E as usual.
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  if (!isOnboardingAllowed) {
+    const replyClientId = numberInfo.clientId || defaultClientId;
+
+    try {
+      const bookingReply = await handleBookingReply({
+        clientId: replyClientId,
+        from,
+        body,
+        messageSid,
+      });
+
+      if (bookingReply.handled) {
+        console.log("ROUTING_DECISION", {
+          mode: "BOOKING_REPLY",
+          reason: `REPLY_${bookingReply.reply}`,
+          clientId: replyClientId,
+          bookingId: bookingReply.bookingId,
+          to: normalizedTo,
+        });
+
+        res.type("text/xml");
+        return res.send(`<Response><Message>${bookingReply.message}</Message></Response>`);
+      }
+    } catch (error) {
+      console.error("❌ [BOOKING_REPLY] Reply handling failed:", error);
+      // Twilio retries on 500; idempotency check prevents double-processing
+      return res.status(500).send("Booking reply processing failed");
+    }
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // C3) AGENT APPROVAL REPLY (YES 1234 / NO 1234)
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // The business owner approving or rejecting an agent proposal from the
+  // approval request we texted them (agents/ApprovalQueue.ts). Only the
+  // client's own phone number counts; anyone else carries on to D/E.
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  if (!isOnboardingAllowed) {
+    const replyClientId = numberInfo.clientId || defaultClientId;
+
+    try {
+      const approvalReply = await handleApprovalReply({
+        clientId: replyClientId,
+        from,
+        body,
+      });
+
+      if (approvalReply.handled) {
+        console.log("ROUTING_DECISION", {
+          mode: "APPROVAL_REPLY",
+          reason: `REPLY_${approvalReply.decision}`,
+          clientId: replyClientId,
+          proposalId: approvalReply.proposalId,
+          to: normalizedTo,
+        });
+
+        res.type("text/xml");
+        return res.send(`<Response><Message>${approvalReply.message}</Message></Response>`);
+      }
+    } catch (error) {
+      console.error("❌ [APPROVAL_REPLY] Reply handling failed:", error);
+      // Twilio retries on 500; a proposal is only ever decided once
+      return res.status(500).send("Approval reply processing failed");
+    }
+  }
+
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
   // D) OPERATIONAL CUSTOMER REPLY HANDLER — HARD FORK
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -956,6 +1297,7 @@ router.post("/sms", async (req, res) => {
             type: "SMS",
             body,
             twilioSid: messageSid,
+            deliveryStatus: messageSid ? "RECEIVED" : null,
           },
         });
 
@@ -979,6 +1321,18 @@ router.post("/sms", async (req, res) => {
       inboundMessage = result.inboundMessage;
       replyMessage = result.replyMessage;
 
+      // Committed - now safe to show on dashboards and hand to agents
+      publishNewMessage(inboundMessage);
+      emitDomainEvent({
+        type: "sms.received",
+        clientId: clientRecord.id,
+        customerId: customer.id,
+        conversationId: conversation.id,
+        messageId: inboundMessage.id,
+        from,
+        body,
+      });
+
       console.log("🔍 TWILIO WEBHOOK: replyMessage from pipeline:", replyMessage);
 
     } catch (error) {
@@ -999,9 +1353,17 @@ router.post("/sms", async (req, res) => {
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
     // SYSTEMGATE: Can Send SMS? (OUTBOUND KILL SWITCH)
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-    // Centralized guard check - replaces inline outboundPaused check
+    // Centralized guard check - outboundPaused kill switch + recipient STOP consent
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-    const smsGuard = canSendSMS(clientRecord);
+    const recipientConsent = await getConsent(clientRecord.id, from);
+    const smsGuard = canSendSMS(clientRecord, recipientConsent);
+
+    if (!smsGuard.allowed && recipientConsent?.status === 'OPTED_OUT') {
+      // Opted out mid-flight (STOP arrived while pipeline ran) - no deflection either
+      console.warn(`[SystemGate] SMS_BLOCKED: ${smsGuard.reason}`);
+      res.type("text/xml");
+      return res.send("<Response></Response>");
+    }
 
     if (!smsGuard.allowed) {
       console.warn(`[SystemGate] SMS_BLOCKED: ${smsGuard.reason}`);
@@ -33,7 +33,7 @@ import {
  * @param reason - Operator-provided justification
  * @param metadata - Additional context
  */
-async function logAdminAction(
+export async function logAdminAction(
   adminId: string,
   clientId: string | null,
   action: string,
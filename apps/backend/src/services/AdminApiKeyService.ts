@@ -0,0 +1,160 @@
+/**
+ * Admin API Keys
+ *
+ * /api/admin accepts either an ADMIN user's login JWT or an admin API key.
+ * Keys are for scripts and integrations: each has a name, a fixed set of
+ * permissions and can be revoked or left to expire.
+ *
+ * RULES:
+ * - ADMIN users hold every permission; keys hold only what they were given
+ * - Keys are stored as a SHA-256 hash and shown once, at creation
+ * - A key can't grant more than its creator holds
+ * - Revocation and expiry apply on the next request
+ */
+
+import crypto from 'crypto';
+import { AdminApiKey } from '@prisma/client';
+import { prisma } from '../db';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  PERMISSIONS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type AdminPermission =
+  // Every GET under /api/admin
+  | 'ADMIN_READ'
+  // Edit clients, mute alerts, reset payment/stuck flags
+  | 'CLIENTS_WRITE'
+  | 'CLIENTS_IMPERSONATE'
+  | 'CLIENTS_DELETE'
+  // Jobs, outbound queue, webhook re-drives
+  | 'OPERATIONS_WRITE'
+  | 'API_KEYS_MANAGE';
+
+export const ADMIN_PERMISSIONS: AdminPermission[] = [
+  'ADMIN_READ',
+  'CLIENTS_WRITE',
+  'CLIENTS_IMPERSONATE',
+  'CLIENTS_DELETE',
+  'OPERATIONS_WRITE',
+  'API_KEYS_MANAGE',
+];
+
+export function isAdminPermission(value: unknown): value is AdminPermission {
+  return typeof value === 'string' && (ADMIN_PERMISSIONS as string[]).includes(value);
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  KEYS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Recognisable in configs and secret scanners
+export const ADMIN_API_KEY_PREFIX = 'jra_';
+const DISPLAY_PREFIX_LENGTH = 12;
+// Don't write lastUsedAt on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export type AdminApiKeySummary = Omit<AdminApiKey, 'keyHash'>;
+
+export type AdminApiKeyResult<T> =
+  | ({ success: true } & T)
+  | { success: false; reason: 'NOT_FOUND' | 'INVALID_PERMISSION' | 'PERMISSION_NOT_HELD' };
+
+export function hashAdminApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+export function isAdminApiKey(value: string): boolean {
+  return value.startsWith(ADMIN_API_KEY_PREFIX);
+}
+
+function toSummary(apiKey: AdminApiKey): AdminApiKeySummary {
+  const { keyHash: _keyHash, ...summary } = apiKey;
+  return summary;
+}
+
+/**
+ * Create a key. The returned `key` is the only time the secret is available.
+ */
+export async function createAdminApiKey(params: {
+  name: string;
+  permissions: string[];
+  createdBy: string;
+  // Permissions of whoever is creating it
+  creatorPermissions: AdminPermission[];
+  expiresAt?: Date | null;
+}): Promise<AdminApiKeyResult<{ key: string; apiKey: AdminApiKeySummary }>> {
+  if (params.permissions.length === 0 || !params.permissions.every(isAdminPermission)) {
+    return { success: false, reason: 'INVALID_PERMISSION' };
+  }
+
+  const permissions = [...new Set(params.permissions)] as AdminPermission[];
+  if (!permissions.every((permission) => params.creatorPermissions.includes(permission))) {
+    return { success: false, reason: 'PERMISSION_NOT_HELD' };
+  }
+
+  const key = ADMIN_API_KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+
+  const apiKey = await prisma.adminApiKey.create({
+    data: {
+      name: params.name,
+      keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: hashAdminApiKey(key),
+      permissions,
+      createdBy: params.createdBy,
+      expiresAt: params.expiresAt ?? null,
+    },
+  });
+
+  console.log('[AdminApiKeys] Key created', {
+    id: apiKey.id,
+    name: apiKey.name,
+    permissions,
+    createdBy: params.createdBy,
+  });
+
+  return { success: true, key, apiKey: toSummary(apiKey) };
+}
+
+export async function listAdminApiKeys(): Promise<AdminApiKeySummary[]> {
+  const keys = await prisma.adminApiKey.findMany({ orderBy: { createdAt: 'desc' } });
+  return keys.map(toSummary);
+}
+
+export async function revokeAdminApiKey(
+  id: string,
+  revokedBy: string,
+  now: Date = new Date()
+): Promise<AdminApiKeyResult<{ apiKey: AdminApiKeySummary }>> {
+  const result = await prisma.adminApiKey.updateMany({
+    where: { id, revokedAt: null },
+    data: { revokedAt: now, revokedBy },
+  });
+
+  if (result.count === 0) {
+    return { success: false, reason: 'NOT_FOUND' };
+  }
+
+  console.log('[AdminApiKeys] Key revoked', { id, revokedBy });
+
+  return { success: true, apiKey: toSummary(await prisma.adminApiKey.findUniqueOrThrow({ where: { id } })) };
+}
+
+/**
+ * Look up a presented key. Returns null for unknown, revoked or expired keys.
+ */
+export async function resolveAdminApiKey(key: string, now: Date = new Date()): Promise<AdminApiKey | null> {
+  const apiKey = await prisma.adminApiKey.findUnique({
+    where: { keyHash: hashAdminApiKey(key) },
+  });
+
+  if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= now)) {
+    return null;
+  }
+
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+    await prisma.adminApiKey.update({ where: { id: apiKey.id }, data: { lastUsedAt: now } });
+  }
+
+  return apiKey;
+}
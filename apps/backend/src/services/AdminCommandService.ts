@@ -1,5 +1,7 @@
 import { prisma } from "../db";
 import { getTwilioClient } from "../twilio/client";
+import { getSmsTransport } from "../twilio/transport";
+import { checkRecipientConsent } from "./ConsentService";
 import { Client, ClientSettings, Lead, Customer } from "@prisma/client";
 
 /**
@@ -128,7 +130,13 @@ export async function executeTextCommand(
     return "No active leads found.";
   }
 
-  const twilioClient = getTwilioClient();
+  const consent = await checkRecipientConsent(clientId, lead.customer.phone, "admin_text_command");
+  if (!consent.allowed) {
+    console.warn(`🔕 [ADMIN CMD] TEXT blocked - ${lead.customer.phone} opted out`);
+    return "Customer has opted out of texts (STOP). Message not sent.";
+  }
+
+  const transport = getSmsTransport();
   const twilioNumber = process.env.TWILIO_NUMBER;
 
   if (!twilioNumber) {
@@ -147,7 +155,7 @@ export async function executeTextCommand(
     console.error("🚨 STACK TRACE:", new Error().stack);
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-    await twilioClient.messages.create({
+    await transport.send({
       to: lead.customer.phone,
       from: twilioNumber,
       body: message,
@@ -0,0 +1,74 @@
+/**
+ * Agent Reports - what agents produce with GENERATE_REPORT
+ *
+ * Reports (weekly insights, daily briefings, forecasts) are stored so the
+ * business can read them back from the dashboard rather than only in logs.
+ * Listing leaves out `data`; fetch one report for the full content.
+ */
+
+import { AgentReport, Prisma } from '@prisma/client';
+import { prisma } from '../db';
+
+export interface AgentReportInput {
+  agentName: string;
+  reportType: string;
+  title: string;
+  summary?: string | null;
+  data: Record<string, unknown>;
+  periodStart?: Date | null;
+  periodEnd?: Date | null;
+}
+
+export type AgentReportSummary = Omit<AgentReport, 'data'>;
+
+const SUMMARY_FIELDS = {
+  id: true,
+  createdAt: true,
+  clientId: true,
+  agentName: true,
+  reportType: true,
+  title: true,
+  summary: true,
+  periodStart: true,
+  periodEnd: true,
+} satisfies Prisma.AgentReportSelect;
+
+export async function saveAgentReport(clientId: string, input: AgentReportInput): Promise<AgentReport> {
+  const report = await prisma.agentReport.create({
+    data: {
+      clientId,
+      agentName: input.agentName,
+      reportType: input.reportType,
+      title: input.title,
+      summary: input.summary ?? null,
+      data: input.data as Prisma.InputJsonObject,
+      periodStart: input.periodStart ?? null,
+      periodEnd: input.periodEnd ?? null,
+    },
+  });
+
+  console.log('[AgentReports] Report saved', {
+    clientId,
+    reportId: report.id,
+    agentName: report.agentName,
+    reportType: report.reportType,
+  });
+
+  return report;
+}
+
+export async function listAgentReports(
+  clientId: string,
+  filters: { reportType?: string; limit?: number } = {}
+): Promise<AgentReportSummary[]> {
+  return prisma.agentReport.findMany({
+    where: { clientId, ...(filters.reportType && { reportType: filters.reportType }) },
+    select: SUMMARY_FIELDS,
+    orderBy: { createdAt: 'desc' },
+    take: filters.limit ?? 50,
+  });
+}
+
+export async function getAgentReport(clientId: string, reportId: string): Promise<AgentReport | null> {
+  return prisma.agentReport.findFirst({ where: { id: reportId, clientId } });
+}
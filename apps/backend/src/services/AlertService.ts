@@ -17,7 +17,7 @@
  */
 
 import { prisma } from "../db";
-import twilio from "twilio";
+import { getSmsTransport, getConfiguredTransportName } from "../twilio/transport";
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 //  TYPES
@@ -91,7 +91,11 @@ try {
   validateE164(ALERT_CONFIG.FOUNDER_ALERT_PHONE, "FOUNDER_ALERT_PHONE");
   validateE164(ALERT_CONFIG.TWILIO_OPS_NUMBER, "TWILIO_OPS_NUMBER");
 
-  if (!ALERT_CONFIG.TWILIO_ACCOUNT_SID || !ALERT_CONFIG.TWILIO_AUTH_TOKEN) {
+  // Loopback transport never reaches Twilio, so credentials are optional there
+  if (
+    getConfiguredTransportName() === "twilio" &&
+    (!ALERT_CONFIG.TWILIO_ACCOUNT_SID || !ALERT_CONFIG.TWILIO_AUTH_TOKEN)
+  ) {
     throw new Error(
       "[ALERT] FATAL: TWILIO_ACCOUNT_SID or TWILIO_AUTH_TOKEN not configured"
     );
@@ -309,7 +313,7 @@ export class AlertService {
     }
 
     try {
-      const client = twilio(ALERT_CONFIG.TWILIO_ACCOUNT_SID, ALERT_CONFIG.TWILIO_AUTH_TOKEN);
+      const transport = getSmsTransport();
 
       // Format SMS message (160 char limit consideration)
       const smsBody = this.formatSmsMessage(payload);
@@ -322,13 +326,13 @@ export class AlertService {
       // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
       // Send SMS - ALWAYS from ops number to founder's phone
-      const message = await client.messages.create({
+      const message = await transport.send({
         to: ALERT_CONFIG.FOUNDER_ALERT_PHONE,   // Founder's personal phone
         from: ALERT_CONFIG.TWILIO_OPS_NUMBER,   // Dedicated ops Twilio number
         body: smsBody,
       });
 
-      console.log(`[ALERT] SMS sent successfully (sid=${message.sid})`);
+      console.log(`[ALERT] SMS sent successfully (sid=${message.sid}, transport=${transport.name})`);
       console.log(`[ALERT]   From: ${ALERT_CONFIG.TWILIO_OPS_NUMBER}`);
       console.log(`[ALERT]   To: ${ALERT_CONFIG.FOUNDER_ALERT_PHONE}`);
       return { success: true };
@@ -0,0 +1,229 @@
+/**
+ * BookingLinkService - hosted self-service booking page
+ *
+ * Each lead we send a booking link to gets its own tokenised page
+ * (/book/<token>) offering the client's free slots from SlotFinder. Picking
+ * one creates the Booking, moves the lead to BOOKED and texts the customer a
+ * confirmation; reminders follow (BookingReminderService).
+ *
+ * The token is the only credential, so only its hash is stored and the URL
+ * can't be recovered later; every link sent is a new one.
+ */
+
+import crypto from 'crypto';
+import type { Booking, Lead } from '@prisma/client';
+import { prisma } from '../db';
+import { createBooking } from '../modules/booking/service';
+import { clientDetails, textBookingCustomer } from './BookingReminderService';
+import { MessageTemplates } from './MessageTemplates';
+import { SlotFinder } from './SlotFinder';
+import { transitionLeadState } from './vault';
+
+export const BOOKING_LINK_TTL_DAYS = 14;
+export const BOOKING_PAGE_DAYS_AHEAD = 14;
+// Same default job length as the AI scheduling assistant
+export const BOOKING_DURATION_MINUTES = 60;
+
+export interface BookingPageSlot {
+  start: Date;
+  end: Date;
+}
+
+export interface BookingPage {
+  businessName: string;
+  timeZone: string;
+  customerName: string | null;
+  jobType: string;
+  location: string;
+  expiresAt: Date;
+  /** Free slots; empty once booked */
+  slots: BookingPageSlot[];
+  /** The booking made through this link, if any */
+  booking: BookingPageSlot | null;
+}
+
+export type BookingPageFailure = 'NOT_FOUND' | 'EXPIRED';
+
+export type BookingPageResult =
+  | { success: true; page: BookingPage }
+  | { success: false; reason: BookingPageFailure };
+
+export type BookFromLinkResult =
+  | { success: true; booking: Booking; confirmationSent: boolean }
+  | { success: false; reason: BookingPageFailure | 'ALREADY_BOOKED' | 'SLOT_UNAVAILABLE' };
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  LINKS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export function hashBookingToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function getBookingPageUrl(token: string): string {
+  const baseUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  return `${baseUrl}/book/${token}`;
+}
+
+/**
+ * Issues a new booking page link for a lead
+ */
+export async function issueBookingLink(lead: Pick<Lead, 'id' | 'clientId'>): Promise<{ url: string; expiresAt: Date }> {
+  const token = crypto.randomBytes(24).toString('hex');
+  const expiresAt = new Date(Date.now() + BOOKING_LINK_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  await prisma.bookingLink.create({
+    data: {
+      clientId: lead.clientId,
+      leadId: lead.id,
+      tokenHash: hashBookingToken(token),
+      expiresAt,
+    },
+  });
+
+  console.log('[BookingLink] Link issued', { clientId: lead.clientId, leadId: lead.id });
+  return { url: getBookingPageUrl(token), expiresAt };
+}
+
+async function findLink(token: string) {
+  return prisma.bookingLink.findUnique({
+    where: { tokenHash: hashBookingToken(token) },
+    include: {
+      client: { select: { businessName: true, timezone: true } },
+      lead: { include: { customer: true } },
+      booking: { select: { start: true, end: true } },
+    },
+  });
+}
+
+function isExpired(link: { expiresAt: Date; usedAt: Date | null }): boolean {
+  return !link.usedAt && link.expiresAt <= new Date();
+}
+
+async function findSlots(
+  clientId: string,
+  timeZone: string,
+  location: string,
+  from: Date = new Date(),
+  searchDaysAhead: number = BOOKING_PAGE_DAYS_AHEAD
+) {
+  return SlotFinder.findAvailableSlots({
+    clientId,
+    preferredDate: from,
+    durationMinutes: BOOKING_DURATION_MINUTES,
+    searchDaysAhead,
+    timeZone,
+    location: location || undefined,
+  });
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  BOOKING PAGE
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export async function getBookingPage(token: string): Promise<BookingPageResult> {
+  const link = await findLink(token);
+
+  if (!link) return { success: false, reason: 'NOT_FOUND' };
+  if (isExpired(link)) return { success: false, reason: 'EXPIRED' };
+
+  const { client, lead } = link;
+  const slots = link.usedAt ? [] : await findSlots(link.clientId, client.timezone, lead.location);
+
+  return {
+    success: true,
+    page: {
+      businessName: client.businessName,
+      timeZone: client.timezone,
+      customerName: lead.customer.name,
+      jobType: lead.jobType,
+      location: lead.location,
+      expiresAt: link.expiresAt,
+      slots: slots.map(({ start, end }) => ({ start, end })),
+      booking: link.booking,
+    },
+  };
+}
+
+/**
+ * Books the lead into one of the page's slots. The slot is checked again
+ * against SlotFinder, since the page may have been open for a while.
+ */
+export async function bookFromLink(token: string, start: Date): Promise<BookFromLinkResult> {
+  const link = await findLink(token);
+
+  if (!link) return { success: false, reason: 'NOT_FOUND' };
+  if (isExpired(link)) return { success: false, reason: 'EXPIRED' };
+  if (link.usedAt) return { success: false, reason: 'ALREADY_BOOKED' };
+
+  const { client, lead } = link;
+  const slots = await findSlots(link.clientId, client.timezone, lead.location, start, 0);
+  const slot = slots.find((s) => s.start.getTime() === start.getTime());
+
+  if (!slot) return { success: false, reason: 'SLOT_UNAVAILABLE' };
+
+  // Claim the link first so a double submit can't book twice
+  const claimed = await prisma.bookingLink.updateMany({
+    where: { id: link.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  if (claimed.count === 0) return { success: false, reason: 'ALREADY_BOOKED' };
+
+  let booking: Booking;
+  try {
+    booking = await createBooking({
+      clientId: link.clientId,
+      customerId: lead.customerId,
+      start: slot.start,
+      end: slot.end,
+      customerName: lead.customer.name ?? undefined,
+      customerPhone: lead.customer.phone,
+      customerEmail: lead.customer.email ?? undefined,
+      notes: lead.jobType ? `Booked online: ${lead.jobType}` : 'Booked online',
+      resourceId: slot.resourceId,
+      location: lead.location || undefined,
+    });
+  } catch (error) {
+    await prisma.bookingLink.update({ where: { id: link.id }, data: { usedAt: null } });
+
+    if (error instanceof Error && error.message.includes('conflict')) {
+      return { success: false, reason: 'SLOT_UNAVAILABLE' };
+    }
+    throw error;
+  }
+
+  await prisma.bookingLink.update({ where: { id: link.id }, data: { bookingId: booking.id } });
+  await transitionLeadState({ lead, newState: 'BOOKED' });
+  await prisma.customer.update({ where: { id: lead.customerId }, data: { state: 'BOOKED' } });
+
+  console.log('[BookingLink] Booked', { clientId: link.clientId, leadId: lead.id, bookingId: booking.id });
+
+  const confirmationSent = await sendBookingConfirmation(booking);
+  return { success: true, booking, confirmationSent };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  CONFIRMATION
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export async function sendBookingConfirmation(booking: Booking): Promise<boolean> {
+  try {
+    const { businessName, timeZone } = await clientDetails(booking.clientId);
+    const sent = await textBookingCustomer(
+      booking,
+      MessageTemplates.bookingConfirmed(booking.start, businessName, timeZone),
+      'booking_confirmation',
+      // The customer has just booked on the page, so it goes out straight away
+      { idempotencyKey: `booking-confirmation:${booking.id}`, quietHours: false }
+    );
+
+    if (sent) {
+      await prisma.booking.update({ where: { id: booking.id }, data: { confirmationSentAt: new Date() } });
+    }
+    return sent;
+  } catch (error) {
+    // The booking stands; the customer can still see it on the page
+    console.error('[BookingLink] Failed to send confirmation', { bookingId: booking.id, error });
+    return false;
+  }
+}
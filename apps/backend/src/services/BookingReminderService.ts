@@ -0,0 +1,424 @@
+/**
+ * BookingReminderService - appointment reminders and C/R/X replies
+ *
+ * Customers with a booking get a reminder text at each point in their
+ * client's schedule (ClientSettings.reminderHoursBefore, e.g. 24h and 2h
+ * before). Until they confirm, reminders ask them to reply:
+ *   C → confirm      R → reschedule (AutoRescheduleAgent)      X → cancel
+ * Replies are picked up by the /sms routing state machine. A booking whose
+ * customer was reminded but never confirmed is marked MISSED once it has
+ * been over for missedAfterMinutes; the rest are marked completed at that
+ * point, which emits JOB_COMPLETED for the agents.
+ *
+ * Only one-off bookings are reminded; recurring series are standing jobs.
+ */
+
+import type { Booking } from '@prisma/client';
+import { prisma } from '../db';
+import { AgentService } from '../agents/AgentService';
+import { cancelBooking } from '../modules/booking/service';
+import { addMessage, findOrCreateConversation } from '../modules/conversation/service';
+import { checkRecipientConsent, normalizeConsentPhone } from './ConsentService';
+import { emitDomainEvent } from './DomainEvents';
+import { MessageTemplates } from './MessageTemplates';
+import { enqueueSms } from './OutboundQueue';
+
+export type BookingReply = 'CONFIRM' | 'RESCHEDULE' | 'CANCEL';
+
+export interface ReminderSettings {
+  reminderHoursBefore: number[];
+  missedAfterMinutes: number;
+}
+
+export type BookingReplyResult =
+  | { handled: false }
+  | { handled: true; reply: BookingReply; bookingId: string; message: string };
+
+export const DEFAULT_REMINDER_HOURS = [24, 2];
+export const DEFAULT_MISSED_AFTER_MINUTES = 60;
+// Longest reminder lead time a client can set
+export const MAX_REMINDER_HOURS = 168;
+
+const HOUR_MS = 60 * 60 * 1000;
+// Bookings that can still be reminded, confirmed or go missed
+const OPEN_STATUSES: Booking['status'][] = ['NEW', 'CONFIRMED'];
+
+// "X" only: CANCEL is a carrier opt-out keyword and is handled as STOP
+const REPLY_KEYWORDS: Record<string, BookingReply> = {
+  C: 'CONFIRM',
+  CONFIRM: 'CONFIRM',
+  R: 'RESCHEDULE',
+  RESCHEDULE: 'RESCHEDULE',
+  X: 'CANCEL',
+};
+
+let agentService: AgentService | null = null;
+
+function getAgentService(): AgentService {
+  if (!agentService) {
+    agentService = new AgentService(prisma);
+  }
+  return agentService;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  SETTINGS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export async function getReminderSettings(clientId: string): Promise<ReminderSettings> {
+  const settings = await prisma.clientSettings.findUnique({
+    where: { clientId },
+    select: { reminderHoursBefore: true, missedAfterMinutes: true },
+  });
+
+  return {
+    reminderHoursBefore: settings?.reminderHoursBefore ?? DEFAULT_REMINDER_HOURS,
+    missedAfterMinutes: settings?.missedAfterMinutes ?? DEFAULT_MISSED_AFTER_MINUTES,
+  };
+}
+
+/**
+ * Whether a reminder is due: some point in the schedule has passed since
+ * the last reminder (or since booking, so a late booking isn't sent the
+ * reminders it was made after)
+ */
+export function isReminderDue(
+  booking: Pick<Booking, 'start' | 'createdAt' | 'reminderSentAt'>,
+  reminderHoursBefore: number[],
+  now: Date = new Date()
+): boolean {
+  const since = (booking.reminderSentAt ?? booking.createdAt).getTime();
+
+  return reminderHoursBefore.some((hours) => {
+    const dueAt = booking.start.getTime() - hours * HOUR_MS;
+    return dueAt > since && dueAt <= now.getTime();
+  });
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  CUSTOMER TEXTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Queues a text to a booking's customer (services/OutboundQueue.ts); it is
+ * recorded in their conversation once sent. False when the booking has no
+ * customer to text or they opted out.
+ */
+export async function textBookingCustomer(
+  booking: Booking,
+  body: string,
+  source: string,
+  options: { idempotencyKey?: string; quietHours?: boolean; expiresAt?: Date } = {}
+): Promise<boolean> {
+  if (!booking.customerId || !booking.customerPhone) return false;
+
+  const consent = await checkRecipientConsent(booking.clientId, booking.customerPhone, source);
+  if (!consent.allowed) return false;
+
+  const client = await prisma.client.findUnique({
+    where: { id: booking.clientId },
+    select: { twilioNumber: true },
+  });
+
+  const conversation = await findOrCreateConversation(booking.clientId, booking.customerId, 'OPERATIONAL');
+  await enqueueSms({
+    to: booking.customerPhone,
+    from: client?.twilioNumber || process.env.TWILIO_NUMBER!,
+    body,
+    source,
+    clientId: booking.clientId,
+    customerId: booking.customerId,
+    conversationId: conversation.id,
+    metadata: { bookingId: booking.id },
+    ...options,
+  });
+
+  return true;
+}
+
+export async function clientDetails(clientId: string) {
+  const client = await prisma.client.findUnique({
+    where: { id: clientId },
+    select: { businessName: true, timezone: true },
+  });
+
+  return { businessName: client?.businessName || 'us', timeZone: client?.timezone };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  SWEEPS (jobs/definitions.ts)
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Sends every reminder that has come due. A booking gets at most one text
+ * per run, however many of its reminder points have passed.
+ */
+export async function sendDueReminders(now: Date = new Date()): Promise<{ sent: number; skipped: number }> {
+  const bookings = await prisma.booking.findMany({
+    where: {
+      status: { in: OPEN_STATUSES },
+      recurrenceRuleId: null,
+      customerId: { not: null },
+      customerPhone: { not: null },
+      start: { gt: now, lte: new Date(now.getTime() + MAX_REMINDER_HOURS * HOUR_MS) },
+    },
+    orderBy: { start: 'asc' },
+  });
+
+  const settingsByClient = new Map<string, ReminderSettings>();
+  let sent = 0;
+  let skipped = 0;
+
+  for (const booking of bookings) {
+    if (!settingsByClient.has(booking.clientId)) {
+      settingsByClient.set(booking.clientId, await getReminderSettings(booking.clientId));
+    }
+    const settings = settingsByClient.get(booking.clientId)!;
+
+    if (!isReminderDue(booking, settings.reminderHoursBefore, now)) continue;
+
+    try {
+      const { businessName, timeZone } = await clientDetails(booking.clientId);
+      const queued = await textBookingCustomer(
+        booking,
+        MessageTemplates.bookingReminder(booking.start, businessName, timeZone, !!booking.customerConfirmedAt),
+        'booking_reminder',
+        {
+          // One reminder per window, even if this run dies before marking it
+          idempotencyKey: `booking-reminder:${booking.id}:${(booking.reminderSentAt ?? booking.createdAt).toISOString()}`,
+          // Held by quiet hours until after the appointment → not worth sending
+          expiresAt: booking.start,
+        }
+      );
+
+      // Marked either way so an opted-out customer isn't retried every run
+      await prisma.booking.update({ where: { id: booking.id }, data: { reminderSentAt: now } });
+      if (queued) sent++;
+      else skipped++;
+    } catch (error) {
+      console.error('[BookingReminder] Failed to send reminder', { bookingId: booking.id, error });
+      skipped++;
+    }
+  }
+
+  if (sent + skipped > 0) {
+    console.log('[BookingReminder] Reminders processed', { sent, skipped });
+  }
+  return { sent, skipped };
+}
+
+/**
+ * Marks bookings MISSED whose customer was reminded, never confirmed, and
+ * whose appointment ended more than the client's missedAfterMinutes ago
+ */
+export async function markMissedBookings(now: Date = new Date()): Promise<{ missed: number }> {
+  const candidates = await prisma.booking.findMany({
+    where: {
+      status: { in: OPEN_STATUSES },
+      recurrenceRuleId: null,
+      reminderSentAt: { not: null },
+      customerConfirmedAt: null,
+      end: { lt: now },
+    },
+    select: { id: true, clientId: true, end: true },
+  });
+
+  const settingsByClient = new Map<string, ReminderSettings>();
+  const missedIds: string[] = [];
+
+  for (const booking of candidates) {
+    if (!settingsByClient.has(booking.clientId)) {
+      settingsByClient.set(booking.clientId, await getReminderSettings(booking.clientId));
+    }
+    const { missedAfterMinutes } = settingsByClient.get(booking.clientId)!;
+
+    if (booking.end.getTime() + missedAfterMinutes * 60 * 1000 <= now.getTime()) {
+      missedIds.push(booking.id);
+    }
+  }
+
+  if (missedIds.length === 0) return { missed: 0 };
+
+  // Re-checked in the update in case the customer confirmed meanwhile
+  const { count } = await prisma.booking.updateMany({
+    where: { id: { in: missedIds }, status: { in: OPEN_STATUSES }, customerConfirmedAt: null },
+    data: { status: 'MISSED' },
+  });
+
+  console.log('[BookingReminder] Unconfirmed bookings marked missed', { missed: count });
+  return { missed: count };
+}
+
+/**
+ * Mark bookings that are over and weren't missed as completed, emitting
+ * booking.completed (JOB_COMPLETED) once per booking. Uses the same
+ * missedAfterMinutes window, so run it after markMissedBookings.
+ */
+export async function markCompletedBookings(now: Date = new Date()): Promise<{ completed: number }> {
+  const candidates = await prisma.booking.findMany({
+    where: {
+      status: { in: OPEN_STATUSES },
+      recurrenceRuleId: null,
+      completedAt: null,
+      end: { lt: now },
+    },
+    select: { id: true, clientId: true, customerId: true, end: true, reminderSentAt: true, customerConfirmedAt: true },
+  });
+
+  const settingsByClient = new Map<string, ReminderSettings>();
+  let completed = 0;
+
+  for (const booking of candidates) {
+    // Left for markMissedBookings
+    if (booking.reminderSentAt && !booking.customerConfirmedAt) continue;
+
+    if (!settingsByClient.has(booking.clientId)) {
+      settingsByClient.set(booking.clientId, await getReminderSettings(booking.clientId));
+    }
+    const { missedAfterMinutes } = settingsByClient.get(booking.clientId)!;
+
+    if (booking.end.getTime() + missedAfterMinutes * 60 * 1000 > now.getTime()) continue;
+
+    // Conditional, so an overlapping sweep can't emit twice
+    const { count } = await prisma.booking.updateMany({
+      where: { id: booking.id, status: { in: OPEN_STATUSES }, completedAt: null },
+      data: { completedAt: now },
+    });
+    if (count === 0) continue;
+
+    completed++;
+    emitDomainEvent({
+      type: 'booking.completed',
+      clientId: booking.clientId,
+      bookingId: booking.id,
+      customerId: booking.customerId,
+    });
+  }
+
+  if (completed > 0) {
+    console.log('[BookingReminder] Finished bookings marked completed', { completed });
+  }
+  return { completed };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  REPLIES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Detect a C/R/X reply. Only whole-message matches count, so "can you
+ * come earlier" is never read as a confirmation.
+ */
+export function parseBookingReply(body: string | undefined): BookingReply | null {
+  if (!body) return null;
+
+  const keyword = body.trim().replace(/[.!]+$/, '').toUpperCase();
+  return REPLY_KEYWORDS[keyword] ?? null;
+}
+
+/**
+ * The customer's next open booking that we've texted a reminder about
+ */
+async function findRemindedBooking(clientId: string, phone: string, now: Date): Promise<Booking | null> {
+  return prisma.booking.findFirst({
+    where: {
+      clientId,
+      status: { in: OPEN_STATUSES },
+      reminderSentAt: { not: null },
+      customerId: { not: null },
+      end: { gt: now },
+      OR: [{ customer: { phone } }, { customerPhone: phone }],
+    },
+    orderBy: { start: 'asc' },
+  });
+}
+
+/**
+ * Applies a C/R/X reply to the customer's reminded booking. Not handled
+ * (so routing carries on as usual) when the text isn't a reply keyword or
+ * there's no reminded booking it could be about.
+ */
+export async function handleBookingReply(params: {
+  clientId: string;
+  from: string;
+  body: string;
+  messageSid?: string;
+}): Promise<BookingReplyResult> {
+  const reply = parseBookingReply(params.body);
+  if (!reply) return { handled: false };
+
+  const now = new Date();
+  const booking = await findRemindedBooking(params.clientId, normalizeConsentPhone(params.from), now);
+  if (!booking || !booking.customerId) return { handled: false };
+
+  const customerId = booking.customerId;
+  const conversation = await findOrCreateConversation(booking.clientId, customerId, 'OPERATIONAL');
+
+  await addMessage({
+    conversationId: conversation.id,
+    clientId: booking.clientId,
+    customerId,
+    direction: 'INBOUND',
+    type: 'SMS',
+    body: params.body,
+    twilioSid: params.messageSid,
+    metadata: { bookingId: booking.id, bookingReply: reply },
+  });
+
+  const { timeZone } = await clientDetails(booking.clientId);
+  let message: string;
+
+  if (reply === 'CONFIRM') {
+    await prisma.booking.update({
+      where: { id: booking.id },
+      data: { status: 'CONFIRMED', customerConfirmedAt: now },
+    });
+    message = MessageTemplates.bookingReplyConfirmed(booking.start, timeZone);
+  } else if (reply === 'CANCEL') {
+    await cancelBooking(booking.id);
+    message = MessageTemplates.bookingReplyCancelled(booking.start, timeZone);
+  } else {
+    // The time stays held until the new booking is made
+    await prisma.booking.update({ where: { id: booking.id }, data: { status: 'RESCHEDULED' } });
+    await requestReschedule(booking, customerId, conversation.id, params.body);
+    message = MessageTemplates.bookingReplyReschedule();
+  }
+
+  await addMessage({
+    conversationId: conversation.id,
+    clientId: booking.clientId,
+    customerId,
+    direction: 'OUTBOUND',
+    type: 'SMS',
+    body: message,
+    metadata: { bookingId: booking.id, source: 'booking_reply' },
+  });
+
+  console.log('[BookingReminder] Reply applied', { bookingId: booking.id, reply });
+  return { handled: true, reply, bookingId: booking.id, message };
+}
+
+/**
+ * Hands the booking to AutoRescheduleAgent. Runs in the background (the
+ * agent calls an LLM; Twilio won't wait) and is skipped when the client
+ * has AI switched off, leaving the RESCHEDULED booking for the team.
+ */
+async function requestReschedule(booking: Booking, customerId: string, conversationId: string, message: string) {
+  const controls = await prisma.clientControls.findUnique({
+    where: { clientId: booking.clientId },
+    select: { aiDisabled: true },
+  });
+  if (controls?.aiDisabled) return;
+
+  getAgentService()
+    .processRescheduleRequest({
+      clientId: booking.clientId,
+      customerId,
+      bookingId: booking.id,
+      conversationId,
+      message,
+    })
+    .catch((error) => {
+      console.error('[BookingReminder] AutoReschedule failed', { bookingId: booking.id, error });
+    });
+}
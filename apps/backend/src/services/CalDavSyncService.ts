@@ -0,0 +1,474 @@
+/**
+ * CalDavSyncService - two-way sync with a client's CalDAV calendar
+ *
+ * PULL:
+ * - Events overlapping the next SYNC_HORIZON_DAYS are stored as
+ *   CalendarBusyTime rows (one per occurrence), which SlotFinder and
+ *   OverlapEngine treat as taken
+ * - Transparent ("free") and cancelled events are ignored, as are the
+ *   bookings we pushed there ourselves
+ * - Busy time seen for the first time that overlaps an upcoming booking is
+ *   handed to the ConflictResolver agent, once per busy interval
+ *
+ * PUSH:
+ * - JobRun bookings (not ones imported from another calendar) are PUT as
+ *   VEVENTs whenever they changed since the last push
+ * - Cancelled or deleted bookings are removed from the calendar; past
+ *   bookings are left there
+ *
+ * Runs on a schedule (jobs/definitions.ts) and on demand from
+ * POST /api/client/calendar/connections/:id/sync. Deleting a connection
+ * leaves pushed events on the remote calendar.
+ */
+
+import { CalendarConnection } from '@prisma/client';
+import { prisma } from '../db';
+import { AgentService } from '../agents/AgentService';
+import { CalDavClient, checkCalDavUrl } from '../lib/calendar/CalDavClient';
+import { ICalendar } from '../lib/calendar/ICalendar';
+import { OverlapEngine } from '../lib/calendar/OverlapEngine';
+import { ZonedTime } from '../lib/calendar/ZonedTime';
+import { bookingToEvents, bookingUid, expandSeries, groupByUid } from './CalendarSyncService';
+import { decryptSecret, encryptSecret } from '../utils/secretBox';
+
+const SYNC_HORIZON_DAYS = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// UIDs of bookings we pushed (see CalendarSyncService.bookingUid)
+const OWN_UID_PATTERN = /^booking-.+@jobrun$/;
+
+export type CalDavFailureReason = 'NOT_FOUND' | 'INVALID_URL' | 'CONNECTION_FAILED';
+
+export type CalDavResult<T> =
+  | ({ success: true } & T)
+  | { success: false; reason: CalDavFailureReason; error?: string };
+
+export interface ConnectionInput {
+  name?: string;
+  collectionUrl: string;
+  username: string;
+  password: string;
+  pullEnabled?: boolean;
+  pushEnabled?: boolean;
+}
+
+export interface SyncSummary {
+  /** Busy intervals held after the pull */
+  busyTimes: number;
+  added: number;
+  removed: number;
+  pushed: number;
+  deleted: number;
+  conflicts: number;
+  errors: string[];
+}
+
+let agentService: AgentService | null = null;
+
+function getAgentService(): AgentService {
+  if (!agentService) {
+    agentService = new AgentService(prisma);
+  }
+  return agentService;
+}
+
+function toConnectionSummary(connection: CalendarConnection) {
+  return {
+    id: connection.id,
+    name: connection.name,
+    collectionUrl: connection.collectionUrl,
+    username: connection.username,
+    pullEnabled: connection.pullEnabled,
+    pushEnabled: connection.pushEnabled,
+    lastSyncedAt: connection.lastSyncedAt,
+    lastError: connection.lastError,
+    createdAt: connection.createdAt,
+  };
+}
+
+export type ConnectionSummary = ReturnType<typeof toConnectionSummary>;
+
+function normalizeCollectionUrl(value: string): string | null {
+  try {
+    const url = new URL(value.trim());
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+    if (!url.pathname.endsWith('/')) url.pathname += '/';
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  CONNECTIONS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export async function listConnections(clientId: string): Promise<ConnectionSummary[]> {
+  const connections = await prisma.calendarConnection.findMany({
+    where: { clientId },
+    orderBy: { createdAt: 'asc' },
+  });
+  return connections.map(toConnectionSummary);
+}
+
+/**
+ * Saves a connection after checking the URL is a calendar the credentials
+ * can read
+ */
+export async function createConnection(
+  clientId: string,
+  input: ConnectionInput
+): Promise<CalDavResult<{ connection: ConnectionSummary }>> {
+  const collectionUrl = normalizeCollectionUrl(input.collectionUrl);
+  if (!collectionUrl) {
+    return { success: false, reason: 'INVALID_URL' };
+  }
+
+  const refused = await checkCalDavUrl(collectionUrl);
+  if (refused) {
+    return { success: false, reason: 'INVALID_URL', error: refused };
+  }
+
+  const check = await new CalDavClient({ collectionUrl, username: input.username, password: input.password }).checkCollection();
+  if (!check.ok) {
+    return { success: false, reason: 'CONNECTION_FAILED', error: check.error };
+  }
+
+  const connection = await prisma.calendarConnection.create({
+    data: {
+      clientId,
+      name: input.name || check.displayName || null,
+      collectionUrl,
+      username: input.username,
+      passwordEncrypted: encryptSecret(input.password),
+      pullEnabled: input.pullEnabled ?? true,
+      pushEnabled: input.pushEnabled ?? true,
+    },
+  });
+
+  console.log('[CalDAV] Connection created', { clientId, connectionId: connection.id });
+  return { success: true, connection: toConnectionSummary(connection) };
+}
+
+export async function updateConnection(
+  clientId: string,
+  connectionId: string,
+  input: Partial<ConnectionInput>
+): Promise<CalDavResult<{ connection: ConnectionSummary }>> {
+  const existing = await prisma.calendarConnection.findFirst({ where: { id: connectionId, clientId } });
+  if (!existing) {
+    return { success: false, reason: 'NOT_FOUND' };
+  }
+
+  const collectionUrl = input.collectionUrl !== undefined ? normalizeCollectionUrl(input.collectionUrl) : existing.collectionUrl;
+  if (!collectionUrl) {
+    return { success: false, reason: 'INVALID_URL' };
+  }
+
+  if (input.collectionUrl !== undefined) {
+    const refused = await checkCalDavUrl(collectionUrl);
+    if (refused) {
+      return { success: false, reason: 'INVALID_URL', error: refused };
+    }
+  }
+
+  // New credentials or URL are checked before they replace working ones
+  if (input.collectionUrl !== undefined || input.username !== undefined || input.password !== undefined) {
+    const password = input.password ?? decryptSecret(existing.passwordEncrypted) ?? '';
+    const check = await new CalDavClient({
+      collectionUrl,
+      username: input.username ?? existing.username,
+      password,
+    }).checkCollection();
+
+    if (!check.ok) {
+      return { success: false, reason: 'CONNECTION_FAILED', error: check.error };
+    }
+  }
+
+  const connection = await prisma.calendarConnection.update({
+    where: { id: existing.id },
+    data: {
+      name: input.name,
+      collectionUrl,
+      username: input.username,
+      passwordEncrypted: input.password !== undefined ? encryptSecret(input.password) : undefined,
+      pullEnabled: input.pullEnabled,
+      pushEnabled: input.pushEnabled,
+    },
+  });
+
+  return { success: true, connection: toConnectionSummary(connection) };
+}
+
+export async function deleteConnection(clientId: string, connectionId: string): Promise<CalDavResult<{}>> {
+  const { count } = await prisma.calendarConnection.deleteMany({ where: { id: connectionId, clientId } });
+  if (count === 0) {
+    return { success: false, reason: 'NOT_FOUND' };
+  }
+
+  console.log('[CalDAV] Connection deleted', { clientId, connectionId });
+  return { success: true };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  SYNC
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export async function syncConnection(
+  clientId: string,
+  connectionId: string
+): Promise<CalDavResult<{ summary: SyncSummary }>> {
+  const connection = await prisma.calendarConnection.findFirst({ where: { id: connectionId, clientId } });
+  if (!connection) {
+    return { success: false, reason: 'NOT_FOUND' };
+  }
+
+  return { success: true, summary: await runSync(connection) };
+}
+
+/**
+ * Scheduled sweep over every connection. One failing calendar never stops
+ * the others; its errors are recorded on the connection (lastError).
+ */
+export async function syncAllConnections() {
+  const connections = await prisma.calendarConnection.findMany({
+    where: { OR: [{ pullEnabled: true }, { pushEnabled: true }] },
+  });
+
+  const result = { connections: connections.length, succeeded: 0, failed: 0, conflicts: 0 };
+
+  for (const connection of connections) {
+    try {
+      const summary = await runSync(connection);
+      result.conflicts += summary.conflicts;
+      if (summary.errors.length > 0) result.failed++;
+      else result.succeeded++;
+    } catch (error) {
+      result.failed++;
+      console.error('[CalDAV] Sync crashed', { connectionId: connection.id, error });
+    }
+  }
+
+  return result;
+}
+
+async function runSync(connection: CalendarConnection): Promise<SyncSummary> {
+  const summary: SyncSummary = { busyTimes: 0, added: 0, removed: 0, pushed: 0, deleted: 0, conflicts: 0, errors: [] };
+  const password = decryptSecret(connection.passwordEncrypted);
+
+  if (password === null) {
+    summary.errors.push('Stored password could not be decrypted; re-enter it');
+  } else {
+    const client = new CalDavClient({ collectionUrl: connection.collectionUrl, username: connection.username, password });
+    const timeZone = await ZonedTime.forClient(connection.clientId);
+
+    if (connection.pullEnabled) await pullBusyTime(connection, client, timeZone, summary);
+    if (connection.pushEnabled) await pushBookings(connection, client, timeZone, summary);
+  }
+
+  await prisma.calendarConnection.update({
+    where: { id: connection.id },
+    data: { lastSyncedAt: new Date(), lastError: summary.errors[0] ?? null },
+  });
+
+  console.log('[CalDAV] Sync finished', { connectionId: connection.id, ...summary, errors: summary.errors.length });
+  return summary;
+}
+
+const busyKey = (busy: { uid: string; start: Date }) => `${busy.uid}|${busy.start.getTime()}`;
+
+async function pullBusyTime(
+  connection: CalendarConnection,
+  client: CalDavClient,
+  timeZone: string,
+  summary: SyncSummary
+): Promise<void> {
+  const rangeStart = new Date(Date.now() - DAY_MS);
+  const rangeEnd = new Date(Date.now() + SYNC_HORIZON_DAYS * DAY_MS);
+
+  const result = await client.queryEvents(rangeStart, rangeEnd);
+  if (!result.ok) {
+    summary.errors.push(result.error);
+    return;
+  }
+
+  const wanted = new Map<string, { uid: string; start: Date; end: Date; summary: string | null }>();
+
+  for (const object of result.objects) {
+    const parsed = ICalendar.parse(object.ics, timeZone);
+    if (!parsed.ok) {
+      summary.errors.push(`${object.href}: ${parsed.error}`);
+      continue;
+    }
+
+    for (const series of groupByUid(parsed.calendar.events, [])) {
+      const { event } = series;
+      if (OWN_UID_PATTERN.test(series.uid) || event.status === 'CANCELLED' || event.transparent) continue;
+
+      // Occurrences starting a day early can still run into the window
+      const expanded = expandSeries(series, timeZone, new Date(rangeStart.getTime() - DAY_MS), rangeEnd);
+      if (!expanded.ok) {
+        summary.errors.push(`${series.uid}: ${expanded.error}`);
+        continue;
+      }
+
+      for (const range of expanded.ranges) {
+        if (range.start >= rangeEnd || range.end <= rangeStart) continue;
+        const busy = { uid: series.uid, start: range.start, end: range.end, summary: event.summary || null };
+        wanted.set(busyKey(busy), busy);
+      }
+    }
+  }
+
+  const existing = await prisma.calendarBusyTime.findMany({ where: { connectionId: connection.id } });
+  const stale = existing.filter((row) => wanted.get(busyKey(row))?.end.getTime() !== row.end.getTime());
+  const kept = new Set(existing.filter((row) => !stale.includes(row)).map(busyKey));
+  const added = Array.from(wanted.values()).filter((busy) => !kept.has(busyKey(busy)));
+
+  if (stale.length > 0) {
+    await prisma.calendarBusyTime.deleteMany({ where: { id: { in: stale.map((row) => row.id) } } });
+  }
+  if (added.length > 0) {
+    await prisma.calendarBusyTime.createMany({
+      data: added.map((busy) => ({ ...busy, connectionId: connection.id, clientId: connection.clientId })),
+      skipDuplicates: true,
+    });
+  }
+
+  summary.busyTimes = wanted.size;
+  summary.added = added.length;
+  summary.removed = stale.length;
+
+  for (const busy of added) {
+    if (busy.end <= new Date()) continue;
+    await reportConflicts(connection, busy, summary);
+  }
+}
+
+/**
+ * Hands bookings that clash with newly seen busy time to the
+ * ConflictResolver agent (logged only when the client has AI disabled)
+ */
+async function reportConflicts(
+  connection: CalendarConnection,
+  busy: { uid: string; start: Date; end: Date; summary: string | null },
+  summary: SyncSummary
+): Promise<void> {
+  const overlaps = await OverlapEngine.findOverlaps(connection.clientId, busy.start, busy.end);
+  if (overlaps.length === 0) return;
+
+  const controls = await prisma.clientControls.findUnique({ where: { clientId: connection.clientId } });
+
+  for (const booking of overlaps) {
+    summary.conflicts++;
+    console.warn('[CalDAV] Booking clashes with calendar event', {
+      clientId: connection.clientId,
+      bookingId: booking.id,
+      uid: busy.uid,
+      start: busy.start,
+    });
+
+    if (controls?.aiDisabled) continue;
+
+    try {
+      await getAgentService().handleCalendarConflict({
+        clientId: connection.clientId,
+        bookingId: booking.id,
+        conflictData: {
+          source: 'CALDAV',
+          connectionId: connection.id,
+          calendar: connection.name,
+          externalEvent: { uid: busy.uid, summary: busy.summary, start: busy.start, end: busy.end },
+          booking: { start: booking.start, end: booking.end, customerName: booking.customerName, status: booking.status },
+        },
+      });
+    } catch (error) {
+      summary.errors.push(`Conflict resolver failed for booking ${booking.id}`);
+      console.error('[CalDAV] ConflictResolver failed', { bookingId: booking.id, error });
+    }
+  }
+}
+
+/**
+ * Latest change to a booking, its series or any of its occurrence overrides
+ */
+function bookingVersion(booking: {
+  updatedAt: Date;
+  recurrenceRule: { updatedAt: Date; overrides?: Array<{ updatedAt: Date }> } | null;
+}): Date {
+  const times = [
+    booking.updatedAt,
+    booking.recurrenceRule?.updatedAt,
+    ...(booking.recurrenceRule?.overrides || []).map((o) => o.updatedAt),
+  ].filter((time): time is Date => !!time);
+
+  return new Date(Math.max(...times.map((time) => time.getTime())));
+}
+
+async function pushBookings(
+  connection: CalendarConnection,
+  client: CalDavClient,
+  timeZone: string,
+  summary: SyncSummary
+): Promise<void> {
+  const [bookings, pushed] = await Promise.all([
+    prisma.booking.findMany({
+      where: {
+        clientId: connection.clientId,
+        externalSyncId: null,
+        status: { not: 'CANCELLED' },
+        OR: [{ end: { gte: new Date(Date.now() - DAY_MS) } }, { recurrenceRuleId: { not: null } }],
+      },
+      include: { recurrenceRule: { include: { overrides: true } } },
+    }),
+    prisma.calendarPushedBooking.findMany({ where: { connectionId: connection.id } }),
+  ]);
+
+  const pushedByBooking = new Map(pushed.map((record) => [record.bookingId, record]));
+
+  for (const booking of bookings) {
+    const version = bookingVersion(booking);
+    const record = pushedByBooking.get(booking.id);
+    if (record && record.bookingVersion >= version) continue;
+
+    const ics = ICalendar.serialize({ timeZone, events: bookingToEvents(booking, timeZone) });
+    const result = await client.putEvent(bookingUid(booking), ics, record?.href);
+    if (!result.ok) {
+      summary.errors.push(`Push of booking ${booking.id} failed: ${result.error}`);
+      continue;
+    }
+
+    await prisma.calendarPushedBooking.upsert({
+      where: { connectionId_bookingId: { connectionId: connection.id, bookingId: booking.id } },
+      create: { connectionId: connection.id, bookingId: booking.id, href: result.href, etag: result.etag, bookingVersion: version },
+      update: { href: result.href, etag: result.etag, bookingVersion: version },
+    });
+    summary.pushed++;
+  }
+
+  // Pushed bookings missing from the list are past, cancelled or deleted;
+  // only the last two come off the calendar
+  const activeIds = new Set(bookings.map((booking) => booking.id));
+  const candidates = pushed.filter((record) => !activeIds.has(record.bookingId));
+  if (candidates.length === 0) return;
+
+  const remaining = await prisma.booking.findMany({
+    where: { id: { in: candidates.map((record) => record.bookingId) } },
+    select: { id: true, status: true },
+  });
+  const liveIds = new Set(remaining.filter((booking) => booking.status !== 'CANCELLED').map((booking) => booking.id));
+
+  for (const record of candidates) {
+    if (liveIds.has(record.bookingId)) continue;
+
+    const result = await client.deleteEvent(record.href);
+    if (!result.ok) {
+      summary.errors.push(`Removal of booking ${record.bookingId} failed: ${result.error}`);
+      continue;
+    }
+
+    await prisma.calendarPushedBooking.delete({ where: { id: record.id } });
+    summary.deleted++;
+  }
+}
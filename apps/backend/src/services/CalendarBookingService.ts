@@ -0,0 +1,345 @@
+/**
+ * Calendar bookings - bookings entered on the calendar, one-off or recurring
+ *
+ * RULES:
+ * - A recurring booking is one row plus an RFC 5545 rule ({ rrule, exdates?,
+ *   rdates? }) or the legacy { frequency, interval, ... }
+ * - Date-only exdates/rdates ("2026-12-25") are days in the client's zone;
+ *   a date-only rdate starts at the booking's local start time
+ * - One occurrence is moved, restyled or skipped with an override keyed by
+ *   the start the rule generates for it; the series is left alone
+ * - Hours, blocked time and overlaps are warnings, not errors: the person
+ *   at the calendar decides
+ */
+
+import { Booking, BookingStatus, Prisma, RecurrenceFrequency, RecurrenceOverride, RecurrenceRule } from '@prisma/client';
+import { prisma } from '../db';
+import { AvailabilityEngine } from '../lib/calendar/AvailabilityEngine';
+import { BlockedTimeEngine } from '../lib/calendar/BlockedTimeEngine';
+import { OverlapEngine } from '../lib/calendar/OverlapEngine';
+import { RecurrenceEngine } from '../lib/calendar/RecurrenceEngine';
+import { RRule } from '../lib/calendar/RRule';
+import { ZonedTime } from '../lib/calendar/ZonedTime';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const BOOKING_STATUSES = Object.values(BookingStatus);
+
+export type CalendarBookingFailureReason =
+  | 'NOT_FOUND'
+  | 'NOT_RECURRING'
+  | 'NOT_AN_OCCURRENCE'
+  | 'INVALID_RECURRENCE'
+  | 'UNKNOWN_RESOURCE';
+
+export type CalendarBookingResult<T> =
+  | ({ success: true } & T)
+  | { success: false; reason: CalendarBookingFailureReason; detail?: string };
+
+export type RecurrenceRuleData = Omit<Prisma.RecurrenceRuleUncheckedCreateInput, 'clientId'>;
+
+export interface CalendarBookingInput {
+  start: Date;
+  end: Date;
+  customerId?: string;
+  customerName?: string;
+  customerPhone?: string;
+  customerEmail?: string;
+  isAllDay?: boolean;
+  status?: BookingStatus;
+  notes?: string;
+  color?: string;
+  /** { rrule, exdates?, rdates? } or { frequency, interval, ... } */
+  recurrenceRule?: unknown;
+  /** Technician/van; hours, time off and overlaps are checked on its calendar */
+  resourceId?: string;
+  location?: string;
+}
+
+export interface OccurrenceChanges {
+  start?: Date;
+  end?: Date;
+  isCancelled?: boolean;
+  status?: BookingStatus;
+  notes?: string;
+}
+
+export interface BookingWarning {
+  type: 'availability' | 'blocked' | 'overlap' | 'external';
+  message?: string;
+  overlaps?: unknown[];
+}
+
+export function isBookingStatus(value: unknown): value is BookingStatus {
+  return typeof value === 'string' && BOOKING_STATUSES.includes(value as BookingStatus);
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validate a booking's recurrenceRule body into RecurrenceRule columns
+ */
+export function parseRecurrenceInput(
+  input: any,
+  start: Date,
+  timeZone: string
+): { ok: true; data: RecurrenceRuleData } | { ok: false; error: string } {
+  const toDates = (values: unknown, field: string): Date[] | string => {
+    if (values === undefined || values === null) return [];
+    if (!Array.isArray(values)) return `${field} must be an array`;
+
+    const dates: Date[] = [];
+    for (const value of values) {
+      if (typeof value === 'string' && DATE_ONLY.test(value)) {
+        dates.push(
+          field === 'rdates'
+            ? ZonedTime.toInstant(value, AvailabilityEngine.formatTime(start, timeZone), timeZone)
+            : ZonedTime.startOfDay(value, timeZone)
+        );
+        continue;
+      }
+
+      const date = new Date(value);
+      if (isNaN(date.getTime())) return `Invalid date in ${field}: ${value}`;
+      dates.push(date);
+    }
+    return dates;
+  };
+
+  const exdates = toDates(input.exdates, 'exdates');
+  if (typeof exdates === 'string') return { ok: false, error: exdates };
+  const rdates = toDates(input.rdates, 'rdates');
+  if (typeof rdates === 'string') return { ok: false, error: rdates };
+
+  if (input.rrule) {
+    const parsed = RRule.parse(String(input.rrule));
+    if (!parsed.ok) return { ok: false, error: parsed.error };
+
+    return {
+      ok: true,
+      data: {
+        frequency: parsed.rule.freq,
+        interval: parsed.rule.interval,
+        rrule: RRule.format(parsed.rule),
+        exdates,
+        rdates,
+      },
+    };
+  }
+
+  if (!Object.values(RecurrenceFrequency).includes(input.frequency)) {
+    return { ok: false, error: 'frequency or rrule is required' };
+  }
+
+  return {
+    ok: true,
+    data: {
+      frequency: input.frequency as RecurrenceFrequency,
+      interval: input.interval || 1,
+      byWeekday: input.byWeekday,
+      byMonthday: input.byMonthday,
+      endDate: input.endDate ? new Date(input.endDate) : null,
+      occurrences: input.occurrences,
+      exdates,
+      rdates,
+    },
+  };
+}
+
+/**
+ * Hours, blocked time, overlaps and connected-calendar events the booking runs into
+ */
+async function findBookingWarnings(
+  clientId: string,
+  input: CalendarBookingInput,
+  timeZone: string
+): Promise<BookingWarning[]> {
+  const warnings: BookingWarning[] = [];
+
+  if (!input.isAllDay) {
+    const startTime = AvailabilityEngine.formatTime(input.start, timeZone);
+    const endTime = AvailabilityEngine.formatTime(input.end, timeZone);
+
+    const availabilityCheck = await AvailabilityEngine.isTimeAllowed(
+      clientId,
+      input.start,
+      startTime,
+      endTime,
+      timeZone,
+      input.resourceId
+    );
+    if (!availabilityCheck.allowed) {
+      warnings.push({ type: 'availability', message: availabilityCheck.reason });
+    }
+
+    const blockedCheck = await BlockedTimeEngine.isBlocked(
+      clientId,
+      input.start,
+      startTime,
+      endTime,
+      timeZone,
+      input.resourceId
+    );
+    if (blockedCheck.blocked) {
+      warnings.push({ type: 'blocked', message: blockedCheck.reason });
+    }
+  }
+
+  const overlaps = await OverlapEngine.findOverlaps(clientId, input.start, input.end, undefined, input.resourceId);
+  if (overlaps.length > 0) {
+    warnings.push({
+      type: 'overlap',
+      message: `Overlaps with ${overlaps.length} existing booking(s)`,
+      overlaps,
+    });
+  }
+
+  const externalConflicts = await OverlapEngine.findExternalConflicts(clientId, input.start, input.end);
+  if (externalConflicts.length > 0) {
+    warnings.push({
+      type: 'external',
+      message: `Overlaps with ${externalConflicts.length} event(s) in a connected calendar`,
+      overlaps: externalConflicts,
+    });
+  }
+
+  return warnings;
+}
+
+/**
+ * Create a booking, recurring when input.recurrenceRule is set
+ */
+export async function createCalendarBooking(
+  clientId: string,
+  input: CalendarBookingInput
+): Promise<CalendarBookingResult<{ booking: Booking; warnings: BookingWarning[] }>> {
+  if (input.resourceId) {
+    const resource = await prisma.resource.findFirst({ where: { id: input.resourceId, clientId } });
+    if (!resource) {
+      return { success: false, reason: 'UNKNOWN_RESOURCE' };
+    }
+  }
+
+  // Opening hours, blocks and recurrences are wall-clock times in the
+  // client's zone
+  const timeZone = await ZonedTime.forClient(clientId);
+
+  let recurrenceData: RecurrenceRuleData | null = null;
+  if (input.recurrenceRule) {
+    const parsed = parseRecurrenceInput(input.recurrenceRule, input.start, timeZone);
+    if (!parsed.ok) {
+      return { success: false, reason: 'INVALID_RECURRENCE', detail: parsed.error };
+    }
+    recurrenceData = parsed.data;
+  }
+
+  const warnings = await findBookingWarnings(clientId, input, timeZone);
+
+  const recurrenceRule = recurrenceData
+    ? await prisma.recurrenceRule.create({ data: { clientId, ...recurrenceData } })
+    : null;
+
+  const booking = await prisma.booking.create({
+    data: {
+      clientId,
+      customerId: input.customerId,
+      customerName: input.customerName,
+      customerPhone: input.customerPhone,
+      customerEmail: input.customerEmail,
+      start: input.start,
+      end: input.end,
+      isAllDay: input.isAllDay || false,
+      status: input.status || 'NEW',
+      notes: input.notes,
+      color: input.color,
+      recurrenceRuleId: recurrenceRule?.id,
+      resourceId: input.resourceId || null,
+      location: input.location || null,
+    },
+    include: {
+      recurrenceRule: true,
+      customer: true,
+    },
+  });
+
+  console.log('[Calendar] Booking created', {
+    clientId,
+    bookingId: booking.id,
+    recurring: Boolean(recurrenceRule),
+    warnings: warnings.length,
+  });
+
+  return { success: true, booking, warnings };
+}
+
+/**
+ * Override one occurrence of a series. Null when occurrenceStart isn't an
+ * occurrence the rule generates.
+ */
+async function saveOccurrenceOverride(
+  booking: Booking,
+  recurrenceRule: RecurrenceRule,
+  occurrenceStart: string,
+  changes: OccurrenceChanges
+): Promise<RecurrenceOverride | null> {
+  const originalStart = new Date(occurrenceStart);
+  if (isNaN(originalStart.getTime())) return null;
+
+  const timeZone = await ZonedTime.forClient(booking.clientId);
+  const rule = RecurrenceEngine.fromRecord(recurrenceRule);
+
+  if (!RecurrenceEngine.isOccurrence(rule, booking.start, originalStart, timeZone)) {
+    return null;
+  }
+
+  return prisma.recurrenceOverride.upsert({
+    where: {
+      recurrenceRuleId_originalStart: {
+        recurrenceRuleId: recurrenceRule.id,
+        originalStart,
+      },
+    },
+    create: {
+      recurrenceRuleId: recurrenceRule.id,
+      originalStart,
+      ...changes,
+    },
+    update: changes,
+  });
+}
+
+/**
+ * Move, restyle or cancel (isCancelled) one occurrence of a recurring booking
+ */
+export async function updateOccurrence(
+  clientId: string,
+  bookingId: string,
+  occurrenceStart: string,
+  changes: OccurrenceChanges
+): Promise<CalendarBookingResult<{ override: RecurrenceOverride }>> {
+  const booking = await prisma.booking.findFirst({
+    where: { id: bookingId, clientId },
+    include: { recurrenceRule: true },
+  });
+
+  if (!booking) {
+    return { success: false, reason: 'NOT_FOUND' };
+  }
+  if (!booking.recurrenceRule) {
+    return { success: false, reason: 'NOT_RECURRING' };
+  }
+
+  const override = await saveOccurrenceOverride(booking, booking.recurrenceRule, occurrenceStart, changes);
+  if (!override) {
+    return { success: false, reason: 'NOT_AN_OCCURRENCE' };
+  }
+
+  console.log('[Calendar] Occurrence updated', {
+    clientId,
+    bookingId,
+    originalStart: override.originalStart,
+    cancelled: override.isCancelled,
+  });
+
+  return { success: true, override };
+}
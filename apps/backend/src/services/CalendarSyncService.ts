@@ -0,0 +1,512 @@
+/**
+ * CalendarSyncService - iCalendar feed and .ics import
+ *
+ * FEED:
+ * - One secret subscription URL per client; the token is shown once and
+ *   stored hashed (rotating replaces it, revoking deletes it)
+ * - Exports bookings as VEVENTs: recurring ones as a single event with
+ *   RRULE/EXDATE/RDATE in the client's zone, moved occurrences as
+ *   RECURRENCE-ID exceptions; cancelled bookings are left out
+ * - UID is the booking's externalSyncId when it came from another calendar
+ *
+ * IMPORT:
+ * - Events are de-duplicated by UID into externalSyncId, so re-importing the
+ *   same file updates rather than duplicates
+ * - As bookings: one booking per UID, with RRULE/EXDATE/RDATE and exceptions
+ *   kept as a recurrence rule and overrides
+ * - As blocked time: one BlockedTime per day the event covers, expanded a
+ *   year ahead for recurring events; re-importing replaces a UID's rows
+ */
+
+import crypto from 'crypto';
+import { BookingStatus, Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { ICalendar, ICalEvent, ICalEventInput } from '../lib/calendar/ICalendar';
+import { ParsedRRule, RRule } from '../lib/calendar/RRule';
+import { BookingWithRecurrence, RecurrenceEngine } from '../lib/calendar/RecurrenceEngine';
+import { ZonedTime } from '../lib/calendar/ZonedTime';
+
+const FEED_HISTORY_DAYS = 90;
+const BLOCKED_TIME_HORIZON_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ImportTarget = 'BOOKING' | 'BLOCKED_TIME';
+
+export interface ImportSummary {
+  created: number;
+  updated: number;
+  /** Bookings marked CANCELLED, or blocked times removed, by STATUS:CANCELLED */
+  cancelled: number;
+  skipped: Array<{ uid?: string; error: string }>;
+}
+
+export type ImportResult = { success: true; summary: ImportSummary } | { success: false; error: string };
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  FEED TOKENS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export function hashFeedToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function getFeedUrl(token: string): string {
+  const baseUrl = process.env.BASE_URL || 'http://localhost:3001';
+  return `${baseUrl}/api/calendar/feed/${token}.ics`;
+}
+
+/**
+ * Issues a new feed token, replacing (and so invalidating) any previous one.
+ * The URL can only be shown now; it is not recoverable later.
+ */
+export async function rotateFeedToken(clientId: string): Promise<{ feedUrl: string; issuedAt: Date }> {
+  const token = crypto.randomBytes(32).toString('hex');
+  const tokenHash = hashFeedToken(token);
+
+  const feed = await prisma.calendarFeed.upsert({
+    where: { clientId },
+    create: { clientId, tokenHash },
+    update: { tokenHash, lastFetchedAt: null },
+  });
+
+  console.log('[CalendarSync] Feed token issued', { clientId });
+  return { feedUrl: getFeedUrl(token), issuedAt: feed.updatedAt };
+}
+
+export async function revokeFeedToken(clientId: string): Promise<boolean> {
+  const { count } = await prisma.calendarFeed.deleteMany({ where: { clientId } });
+
+  if (count > 0) {
+    console.log('[CalendarSync] Feed token revoked', { clientId });
+  }
+  return count > 0;
+}
+
+export async function getFeedStatus(clientId: string) {
+  const feed = await prisma.calendarFeed.findUnique({ where: { clientId } });
+
+  return {
+    enabled: !!feed,
+    issuedAt: feed?.updatedAt ?? null,
+    lastFetchedAt: feed?.lastFetchedAt ?? null,
+  };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  EXPORT
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+type FeedBooking = BookingWithRecurrence & {
+  updatedAt: Date;
+  status: BookingStatus;
+  isAllDay: boolean;
+  customerName: string | null;
+  customerPhone: string | null;
+  customerEmail: string | null;
+  notes: string | null;
+  externalSyncId: string | null;
+};
+
+export function bookingUid(booking: { id: string; externalSyncId: string | null }): string {
+  return booking.externalSyncId || `booking-${booking.id}@jobrun`;
+}
+
+function feedStatus(status?: BookingStatus | null): ICalEventInput['status'] {
+  if (status === 'CANCELLED') return 'CANCELLED';
+  return status === 'NEW' ? 'TENTATIVE' : 'CONFIRMED';
+}
+
+function describeBooking(booking: FeedBooking, notes?: string | null): string | undefined {
+  const lines = [booking.customerPhone, booking.customerEmail, notes ?? booking.notes].filter(Boolean);
+  return lines.length > 0 ? lines.join('\n') : undefined;
+}
+
+/**
+ * VEVENTs for one booking: the event itself, or for a series the master
+ * event plus one RECURRENCE-ID event per moved occurrence
+ */
+export function bookingToEvents(booking: FeedBooking, timeZone: string): ICalEventInput[] {
+  const base: ICalEventInput = {
+    uid: bookingUid(booking),
+    stamp: booking.updatedAt,
+    start: booking.start,
+    end: booking.end,
+    allDay: booking.isAllDay,
+    timeZone: booking.isAllDay ? timeZone : undefined,
+    summary: booking.customerName || 'Booking',
+    description: describeBooking(booking),
+    status: feedStatus(booking.status),
+  };
+
+  const rule = booking.recurrenceRule ? RecurrenceEngine.fromRecord(booking.recurrenceRule) : null;
+  const parsed = rule ? RecurrenceEngine.toRRule(rule) : null;
+  if (!rule || !parsed) {
+    return [base];
+  }
+
+  // Stored EXDATEs match a whole local day; the feed names the occurrence on it
+  const localStart = ZonedTime.formatTime(booking.start, timeZone);
+  const exdates = (rule.exdates || []).map((d) =>
+    ZonedTime.toInstant(ZonedTime.dateKey(d, timeZone), localStart, timeZone)
+  );
+  const exceptions: ICalEventInput[] = [];
+  const duration = booking.end.getTime() - booking.start.getTime();
+
+  for (const override of rule.overrides || []) {
+    if (override.isCancelled || override.status === 'CANCELLED') {
+      exdates.push(override.originalStart);
+      continue;
+    }
+
+    const start = override.start ?? override.originalStart;
+    exceptions.push({
+      ...base,
+      timeZone,
+      recurrenceId: override.originalStart,
+      start,
+      end: override.end ?? new Date(start.getTime() + duration),
+      description: describeBooking(booking, override.notes),
+      status: feedStatus(override.status ?? booking.status),
+    });
+  }
+
+  return [{ ...base, timeZone, rrule: RRule.format(parsed), exdates, rdates: rule.rdates }, ...exceptions];
+}
+
+/**
+ * The client's bookings as an iCalendar: recent and upcoming one-off
+ * bookings plus every recurring series
+ */
+export async function buildClientCalendar(clientId: string): Promise<string> {
+  const [client, timeZone] = await Promise.all([
+    prisma.client.findUnique({ where: { id: clientId }, select: { businessName: true } }),
+    ZonedTime.forClient(clientId),
+  ]);
+
+  const bookings = await prisma.booking.findMany({
+    where: {
+      clientId,
+      status: { not: 'CANCELLED' },
+      OR: [{ end: { gte: new Date(Date.now() - FEED_HISTORY_DAYS * DAY_MS) } }, { recurrenceRuleId: { not: null } }],
+    },
+    include: { recurrenceRule: { include: { overrides: true } } },
+    orderBy: { start: 'asc' },
+  });
+
+  return ICalendar.serialize({
+    name: client ? `${client.businessName} bookings` : 'Bookings',
+    timeZone,
+    events: bookings.flatMap((booking) => bookingToEvents(booking, timeZone)),
+  });
+}
+
+/**
+ * Feed for a subscription token, or null if the token is unknown/revoked
+ */
+export async function buildFeed(token: string): Promise<string | null> {
+  const feed = await prisma.calendarFeed.findUnique({ where: { tokenHash: hashFeedToken(token) } });
+  if (!feed) {
+    return null;
+  }
+
+  await prisma.calendarFeed.update({ where: { id: feed.id }, data: { lastFetchedAt: new Date() } });
+  return buildClientCalendar(feed.clientId);
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  IMPORT
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export interface ImportedSeries {
+  uid: string;
+  event: ICalEvent;
+  exceptions: ICalEvent[];
+}
+
+/**
+ * Groups events by UID: the series event plus its RECURRENCE-ID exceptions.
+ * Later duplicates of a UID win.
+ */
+export function groupByUid(events: ICalEvent[], skipped: ImportSummary['skipped']): ImportedSeries[] {
+  const series = new Map<string, ImportedSeries>();
+  const exceptions: ICalEvent[] = [];
+
+  for (const event of events) {
+    if (!event.uid) {
+      skipped.push({ error: 'UID is required' });
+    } else if (event.recurrenceId) {
+      exceptions.push(event);
+    } else {
+      series.set(event.uid, { uid: event.uid, event, exceptions: [] });
+    }
+  }
+
+  for (const exception of exceptions) {
+    const parent = series.get(exception.uid!);
+    if (parent) parent.exceptions.push(exception);
+    else skipped.push({ uid: exception.uid, error: 'RECURRENCE-ID without its series' });
+  }
+
+  return Array.from(series.values());
+}
+
+export async function importCalendar(
+  clientId: string,
+  ics: string,
+  target: ImportTarget,
+  source?: string
+): Promise<ImportResult> {
+  const timeZone = await ZonedTime.forClient(clientId);
+  const parsed = ICalendar.parse(ics, timeZone);
+
+  if (!parsed.ok) {
+    return { success: false, error: parsed.error };
+  }
+
+  const { calendar } = parsed;
+  const summary: ImportSummary = { created: 0, updated: 0, cancelled: 0, skipped: [...calendar.invalid] };
+  const externalCalendar = source || calendar.name || 'ics-import';
+
+  for (const series of groupByUid(calendar.events, summary.skipped)) {
+    const error =
+      target === 'BOOKING'
+        ? await importBooking(clientId, series, externalCalendar, timeZone, summary)
+        : await importBlockedTime(clientId, series, timeZone, summary);
+
+    if (error) {
+      summary.skipped.push({ uid: series.uid, error });
+    }
+  }
+
+  console.log('[CalendarSync] Imported calendar', {
+    clientId,
+    target,
+    externalCalendar,
+    created: summary.created,
+    updated: summary.updated,
+    cancelled: summary.cancelled,
+    skipped: summary.skipped.length,
+  });
+
+  return { success: true, summary };
+}
+
+function eventTimes(event: ICalEvent, timeZone: string): { start: Date; end: Date } | null {
+  const start = event.start.date;
+  const end = ICalendar.endOf(event, timeZone);
+  return end > start ? { start, end } : null;
+}
+
+/**
+ * Times an event occupies: the event itself, or for an RRULE the
+ * occurrences starting in [rangeStart, rangeEnd] with its EXDATEs, RDATEs
+ * and RECURRENCE-ID exceptions applied
+ */
+export function expandSeries(
+  { uid, event, exceptions }: ImportedSeries,
+  timeZone: string,
+  rangeStart: Date,
+  rangeEnd: Date
+): { ok: true; ranges: Array<{ start: Date; end: Date }> } | { ok: false; error: string } {
+  const times = eventTimes(event, timeZone);
+  if (!times) return { ok: false, error: 'Event ends before it starts' };
+  if (!event.rrule) return { ok: true, ranges: [times] };
+
+  const result = RRule.parse(event.rrule);
+  if (!result.ok) return { ok: false, error: `Invalid RRULE: ${result.error}` };
+
+  const occurrences = RecurrenceEngine.expandRule(
+    {
+      frequency: result.rule.freq,
+      interval: result.rule.interval,
+      rrule: event.rrule,
+      exdates: event.exdates.map((d) => d.date),
+      rdates: event.rdates.map((d) => d.date),
+      overrides: exceptions.map((exception) => {
+        const moved = eventTimes(exception, timeZone);
+        return {
+          originalStart: exception.recurrenceId!.date,
+          start: moved?.start,
+          end: moved?.end,
+          isCancelled: exception.status === 'CANCELLED',
+        };
+      }),
+    },
+    times.start,
+    times.end,
+    rangeStart,
+    rangeEnd,
+    uid,
+    undefined,
+    timeZone
+  );
+
+  return { ok: true, ranges: occurrences.map(({ start, end }) => ({ start, end })) };
+}
+
+/**
+ * Upserts one booking by UID. Returns an error message if the event was skipped.
+ */
+async function importBooking(
+  clientId: string,
+  { uid, event, exceptions }: ImportedSeries,
+  externalCalendar: string,
+  timeZone: string,
+  summary: ImportSummary
+): Promise<string | null> {
+  const times = eventTimes(event, timeZone);
+  if (!times) return 'Event ends before it starts';
+
+  let parsedRule: ParsedRRule | null = null;
+  if (event.rrule) {
+    const result = RRule.parse(event.rrule);
+    if (!result.ok) return `Invalid RRULE: ${result.error}`;
+    parsedRule = result.rule;
+  }
+
+  const existing = await prisma.booking.findFirst({ where: { clientId, externalSyncId: uid } });
+  const isCancelled = event.status === 'CANCELLED';
+  const status: BookingStatus = isCancelled
+    ? 'CANCELLED'
+    : existing && existing.status !== 'CANCELLED'
+      ? existing.status
+      : 'CONFIRMED';
+
+  let recurrenceRuleId: string | null = null;
+  if (parsedRule) {
+    const ruleData = {
+      frequency: parsedRule.freq,
+      interval: parsedRule.interval,
+      rrule: RRule.format(parsedRule),
+      exdates: event.exdates.map((d) => d.date),
+      rdates: event.rdates.map((d) => d.date),
+    } satisfies Omit<Prisma.RecurrenceRuleUncheckedCreateInput, 'clientId'>;
+
+    const rule = existing?.recurrenceRuleId
+      ? await prisma.recurrenceRule.update({ where: { id: existing.recurrenceRuleId }, data: ruleData })
+      : await prisma.recurrenceRule.create({ data: { clientId, ...ruleData } });
+    recurrenceRuleId = rule.id;
+
+    // The file is the source of truth for the series' exceptions
+    await prisma.recurrenceOverride.deleteMany({ where: { recurrenceRuleId } });
+    const overrides = exceptions.map((exception) => {
+      const moved = eventTimes(exception, timeZone);
+      return {
+        recurrenceRuleId: rule.id,
+        originalStart: exception.recurrenceId!.date,
+        start: moved?.start ?? null,
+        end: moved?.end ?? null,
+        isCancelled: exception.status === 'CANCELLED',
+        notes: exception.description ?? null,
+      };
+    });
+    if (overrides.length > 0) {
+      await prisma.recurrenceOverride.createMany({ data: overrides, skipDuplicates: true });
+    }
+  }
+
+  const data = {
+    start: times.start,
+    end: times.end,
+    isAllDay: !!event.start.dateKey,
+    status,
+    customerName: event.summary || null,
+    notes: event.description || null,
+    recurrenceRuleId,
+    externalSyncId: uid,
+    externalCalendar,
+  };
+
+  if (existing) {
+    await prisma.booking.update({ where: { id: existing.id }, data });
+    if (isCancelled && existing.status !== 'CANCELLED') summary.cancelled++;
+    else summary.updated++;
+  } else {
+    await prisma.booking.create({ data: { clientId, ...data } });
+    summary.created++;
+  }
+
+  return null;
+}
+
+/**
+ * Splits a time range into per-day blocks in the client's zone: whole days
+ * become all-day blocks, partial days "HH:MM" ranges ("24:00" = midnight)
+ */
+export function toDayBlocks(start: Date, end: Date, timeZone: string): Array<{ dateKey: string; start?: string; end?: string }> {
+  const blocks: Array<{ dateKey: string; start?: string; end?: string }> = [];
+
+  for (let dateKey = ZonedTime.dateKey(start, timeZone); ; dateKey = ZonedTime.addDays(dateKey, 1)) {
+    const dayStart = ZonedTime.startOfDay(dateKey, timeZone);
+    if (dayStart >= end) break;
+
+    const nextDay = ZonedTime.startOfDay(ZonedTime.addDays(dateKey, 1), timeZone);
+    const blockStart = start > dayStart ? start : dayStart;
+    const blockEnd = end < nextDay ? end : nextDay;
+
+    if (blockStart.getTime() === dayStart.getTime() && blockEnd.getTime() === nextDay.getTime()) {
+      blocks.push({ dateKey });
+    } else {
+      blocks.push({
+        dateKey,
+        start: ZonedTime.formatTime(blockStart, timeZone),
+        end: blockEnd.getTime() === nextDay.getTime() ? '24:00' : ZonedTime.formatTime(blockEnd, timeZone),
+      });
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Replaces the blocked times imported for a UID. Returns an error message if
+ * the event was skipped.
+ */
+async function importBlockedTime(
+  clientId: string,
+  series: ImportedSeries,
+  timeZone: string,
+  summary: ImportSummary
+): Promise<string | null> {
+  const { uid, event } = series;
+  if (!eventTimes(event, timeZone)) return 'Event ends before it starts';
+
+  const { count: removed } = await prisma.blockedTime.deleteMany({
+    where: { clientId, OR: [{ externalSyncId: uid }, { externalSyncId: { startsWith: `${uid}/` } }] },
+  });
+
+  if (event.status === 'CANCELLED') {
+    if (removed > 0) summary.cancelled++;
+    return null;
+  }
+
+  const today = ZonedTime.dateKey(new Date(), timeZone);
+  const expanded = expandSeries(
+    series,
+    timeZone,
+    ZonedTime.startOfDay(today, timeZone),
+    ZonedTime.startOfDay(ZonedTime.addDays(today, BLOCKED_TIME_HORIZON_DAYS), timeZone)
+  );
+  if (!expanded.ok) return expanded.error;
+
+  const blocks = expanded.ranges.flatMap((range) => toDayBlocks(range.start, range.end, timeZone));
+  const singleBlock = !event.rrule && blocks.length === 1;
+
+  if (blocks.length > 0) {
+    await prisma.blockedTime.createMany({
+      data: blocks.map((block) => ({
+        clientId,
+        date: ZonedTime.toStorageDate(block.dateKey),
+        start: block.start,
+        end: block.end,
+        reason: event.summary || 'Imported from calendar',
+        externalSyncId: singleBlock ? uid : `${uid}/${block.dateKey}`,
+      })),
+    });
+  }
+
+  if (removed > 0) summary.updated++;
+  else summary.created++;
+
+  return null;
+}
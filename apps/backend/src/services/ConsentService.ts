@@ -0,0 +1,241 @@
+/**
+ * SMS Consent (STOP / START / HELP)
+ *
+ * Carrier opt-out compliance for customer numbers. Consent is tracked per
+ * client + customer phone: a customer who texts STOP to one business can
+ * still be messaged by another.
+ *
+ * RULES:
+ * - Keywords are matched on the whole message (case-insensitive, trimmed)
+ * - STOP-family keywords opt out, START-family keywords opt back in
+ * - HELP never changes consent
+ * - Every keyword received is written to SmsConsentEvent (append-only audit)
+ * - SystemGate.canSendSMS / canMessageRecipient refuse opted-out numbers
+ */
+
+import { SmsConsent, SmsConsentAction, SmsConsentStatus } from '@prisma/client';
+import { prisma } from '../db';
+import { canMessageRecipient, GuardResult, logGuardBlock } from './SystemGate';
+import {
+  metrics,
+  MetricSmsConsentOptOut,
+  MetricSmsConsentOptIn,
+  MetricSmsConsentHelp,
+  MetricSmsConsentBlocked,
+} from './Metrics';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  KEYWORDS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Standard carrier keyword sets (matches Twilio Advanced Opt-Out defaults)
+ */
+const OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'];
+const OPT_IN_KEYWORDS = ['START', 'UNSTOP'];
+const HELP_KEYWORDS = ['HELP', 'INFO'];
+
+export interface ConsentKeyword {
+  action: SmsConsentAction;
+  keyword: string;
+}
+
+/**
+ * Detect a consent keyword. Only exact whole-message matches count,
+ * so "please stop by tomorrow" is never treated as an opt-out.
+ */
+export function parseConsentKeyword(body: string | undefined): ConsentKeyword | null {
+  if (!body) return null;
+
+  const keyword = body.trim().replace(/[.!]+$/, '').toUpperCase();
+
+  if (OPT_OUT_KEYWORDS.includes(keyword)) return { action: 'OPT_OUT', keyword };
+  if (OPT_IN_KEYWORDS.includes(keyword)) return { action: 'OPT_IN', keyword };
+  if (HELP_KEYWORDS.includes(keyword)) return { action: 'HELP', keyword };
+
+  return null;
+}
+
+/**
+ * Normalize a phone number to the E.164 form consent rows are keyed by.
+ * Accepts "+447...", "447..." and UK national "07..." formats.
+ */
+export function normalizeConsentPhone(input: string): string {
+  let digits = input.replace(/\D/g, '');
+
+  if (digits.startsWith('0')) {
+    digits = '44' + digits.substring(1);
+  }
+
+  return `+${digits}`;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  LOOKUPS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export async function getConsent(clientId: string, phone: string): Promise<SmsConsent | null> {
+  return prisma.smsConsent.findUnique({
+    where: {
+      clientId_phone: { clientId, phone: normalizeConsentPhone(phone) },
+    },
+  });
+}
+
+export async function isOptedOut(clientId: string, phone: string): Promise<boolean> {
+  const consent = await getConsent(clientId, phone);
+  return consent?.status === 'OPTED_OUT';
+}
+
+/**
+ * Consent guard for senders that don't hold a full guard-data client
+ * (admin TEXT command, missed-call intake, agent SEND_MESSAGE).
+ * Logs and counts the block; callers decide how to surface it.
+ */
+export async function checkRecipientConsent(
+  clientId: string,
+  phone: string,
+  source: string
+): Promise<GuardResult> {
+  const result = canMessageRecipient(await getConsent(clientId, phone));
+
+  if (!result.allowed) {
+    metrics.increment(MetricSmsConsentBlocked, { source });
+    logGuardBlock('canMessageRecipient', clientId, result);
+  }
+
+  return result;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  KEYWORD HANDLING
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export interface ConsentKeywordResult {
+  action: SmsConsentAction;
+  previousStatus: SmsConsentStatus | null;
+  status: SmsConsentStatus | null;
+  reply: string;
+}
+
+/**
+ * Apply a consent keyword received by SMS and audit it.
+ * Consent upsert and audit event are written in one transaction.
+ */
+export async function applyConsentKeyword(params: {
+  clientId: string;
+  phone: string;
+  keyword: ConsentKeyword;
+  messageSid?: string;
+}): Promise<ConsentKeywordResult> {
+  const { clientId, keyword } = params;
+  const phone = normalizeConsentPhone(params.phone);
+
+  const client = await prisma.client.findUnique({
+    where: { id: clientId },
+    select: { businessName: true, phoneNumber: true },
+  });
+
+  // Customer rows are stored in more than one phone format
+  const customer = await prisma.customer.findFirst({
+    where: {
+      clientId,
+      phone: { in: [params.phone, phone, phone.substring(1)] },
+    },
+    select: { id: true },
+  });
+
+  const existing = await prisma.smsConsent.findUnique({
+    where: { clientId_phone: { clientId, phone } },
+  });
+
+  const previousStatus = existing?.status ?? null;
+  const now = new Date();
+
+  let status: SmsConsentStatus | null = previousStatus;
+
+  await prisma.$transaction(async (tx) => {
+    if (keyword.action !== 'HELP') {
+      status = keyword.action === 'OPT_OUT' ? 'OPTED_OUT' : 'OPTED_IN';
+
+      await tx.smsConsent.upsert({
+        where: { clientId_phone: { clientId, phone } },
+        create: {
+          clientId,
+          customerId: customer?.id,
+          phone,
+          status,
+          lastKeyword: keyword.keyword,
+          ...(status === 'OPTED_OUT' ? { optedOutAt: now } : { optedInAt: now }),
+        },
+        update: {
+          status,
+          lastKeyword: keyword.keyword,
+          ...(customer && !existing?.customerId && { customerId: customer.id }),
+          ...(status === 'OPTED_OUT' ? { optedOutAt: now } : { optedInAt: now }),
+        },
+      });
+    }
+
+    await tx.smsConsentEvent.create({
+      data: {
+        clientId,
+        customerId: customer?.id,
+        phone,
+        action: keyword.action,
+        keyword: keyword.keyword,
+        previousStatus,
+        newStatus: status,
+        messageSid: params.messageSid,
+      },
+    });
+  });
+
+  const metricName =
+    keyword.action === 'OPT_OUT'
+      ? MetricSmsConsentOptOut
+      : keyword.action === 'OPT_IN'
+        ? MetricSmsConsentOptIn
+        : MetricSmsConsentHelp;
+  metrics.increment(metricName, { keyword: keyword.keyword });
+
+  console.log('[CONSENT] Keyword applied', {
+    clientId,
+    customerId: customer?.id,
+    phone,
+    action: keyword.action,
+    keyword: keyword.keyword,
+    previousStatus,
+    status,
+    messageSid: params.messageSid,
+  });
+
+  return {
+    action: keyword.action,
+    previousStatus,
+    status,
+    reply: getConsentReply(keyword.action, client?.businessName, client?.phoneNumber),
+  };
+}
+
+/**
+ * Confirmation text for a consent keyword
+ */
+export function getConsentReply(
+  action: SmsConsentAction,
+  businessName?: string | null,
+  contactPhone?: string | null
+): string {
+  const name = businessName || 'JobRun';
+
+  switch (action) {
+    case 'OPT_OUT':
+      return `You have been unsubscribed from ${name} messages and will receive no further texts. Reply START to resubscribe.`;
+    case 'OPT_IN':
+      return `You have been resubscribed to ${name} messages. Reply STOP to unsubscribe.`;
+    case 'HELP':
+      return contactPhone
+        ? `${name}: for help call ${contactPhone}. Reply STOP to unsubscribe, START to resubscribe.`
+        : `${name}: reply STOP to unsubscribe, START to resubscribe.`;
+  }
+}
@@ -8,8 +8,16 @@
  * - Conversation context
  * - Last interaction timestamp
  * - Recent messages for loop detection
+ *
+ * State is written through to the conversation_memory table so restarts and
+ * other replicas see the same declined slots, loop counts and silence flag.
+ * Reads stay synchronous against the in-process cache; call load() before
+ * handling a message and flush() once done.
  */
 
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db';
+
 export interface ConversationState {
   conversationId: string;
   lastProposedSlot?: Date;
@@ -31,8 +39,22 @@ export interface ConversationState {
   silenced: boolean; // PHASE 11A: AI silenced during handover
 }
 
+export interface ConversationMemorySnapshot {
+  conversationId: string;
+  cached: ConversationState | null;
+  persisted: {
+    state: ConversationState;
+    silenced: boolean;
+    lastInteractionAt: Date;
+    updatedAt: Date;
+  } | null;
+  pendingWrite: boolean;
+}
+
 export class ConversationMemory {
   private static memory: Map<string, ConversationState> = new Map();
+  private static dirty: Set<string> = new Set();
+  private static writes: Map<string, Promise<void>> = new Map();
   private static readonly MAX_AGE_MS = 24 * 60 * 60 * 1000; // 24 hours
   private static readonly RECENT_MESSAGE_LIMIT = 5; // Keep last 5 messages for loop detection
 
@@ -63,7 +85,7 @@ export class ConversationMemory {
       silenced: false,
     };
 
-    this.memory.set(conversationId, state);
+    this.save(state);
     return state;
   }
 
@@ -98,7 +120,7 @@ export class ConversationMemory {
     const state = this.getOrCreate(conversationId);
     state.lastInteraction = Date.now();
     state.updatedAt = new Date();
-    this.memory.set(conversationId, state);
+    this.save(state);
   }
 
   /**
@@ -135,7 +157,7 @@ export class ConversationMemory {
       lastInteraction: Date.now(),
     };
 
-    this.memory.set(conversationId, updated);
+    this.save(updated);
     return updated;
   }
 
@@ -200,7 +222,7 @@ export class ConversationMemory {
     }
 
     state.recentMessages = recentMessages;
-    this.memory.set(conversationId, state);
+    this.save(state);
   }
 
   /**
@@ -208,6 +230,12 @@ export class ConversationMemory {
    * Returns true if user is stuck in a loop
    */
   static detectLoop(conversationId: string, message: string): boolean {
+    const isLoop = this.checkLoop(conversationId, message);
+    this.save(this.getOrCreate(conversationId));
+    return isLoop;
+  }
+
+  private static checkLoop(conversationId: string, message: string): boolean {
     const state = this.getOrCreate(conversationId);
     const normalized = message.toLowerCase().trim();
 
@@ -266,7 +294,7 @@ export class ConversationMemory {
     const state = this.get(conversationId);
     if (state) {
       state.loopCount = 0;
-      this.memory.set(conversationId, state);
+      this.save(state);
     }
   }
 
@@ -275,6 +303,7 @@ export class ConversationMemory {
    */
   static clear(conversationId: string): void {
     this.memory.delete(conversationId);
+    this.schedulePersist(conversationId);
   }
 
   /**
@@ -309,6 +338,150 @@ export class ConversationMemory {
     }
   }
 
+  /**
+   * Drop expired conversations from the cache and the database
+   * Run hourly by the conversation-memory-cleanup job
+   */
+  static async purgeExpired(): Promise<number> {
+    this.cleanup();
+
+    const result = await prisma.conversationMemoryState.deleteMany({
+      where: { lastInteractionAt: { lt: new Date(Date.now() - this.MAX_AGE_MS) } },
+    });
+
+    return result.count;
+  }
+
+  // ═══════════════════════════════════════════════════════════════
+  // PERSISTENCE (conversation_memory table)
+  // ═══════════════════════════════════════════════════════════════
+
+  /**
+   * Refresh the cached state from the database
+   * Another replica may have handled the previous message, so the stored
+   * row wins. If the database is unavailable the cached state is kept.
+   */
+  static async load(conversationId: string): Promise<ConversationState | null> {
+    await this.writes.get(conversationId);
+
+    try {
+      const row = await prisma.conversationMemoryState.findUnique({
+        where: { conversationId },
+      });
+
+      if (row) {
+        this.memory.set(conversationId, this.deserialize(row.state));
+      } else if (!this.dirty.has(conversationId)) {
+        this.memory.delete(conversationId);
+      }
+    } catch (error) {
+      console.error(`[ConversationMemory] Failed to load ${conversationId}, using cached state:`, error);
+    }
+
+    return this.get(conversationId);
+  }
+
+  /**
+   * Wait for pending writes (one conversation, or all of them)
+   */
+  static async flush(conversationId?: string): Promise<void> {
+    if (conversationId) {
+      await this.writes.get(conversationId);
+      return;
+    }
+
+    await Promise.all(this.writes.values());
+  }
+
+  /**
+   * Cached and stored state side by side (admin inspection)
+   */
+  static async inspect(conversationId: string): Promise<ConversationMemorySnapshot> {
+    const row = await prisma.conversationMemoryState.findUnique({
+      where: { conversationId },
+    });
+
+    return {
+      conversationId,
+      cached: this.get(conversationId),
+      persisted: row
+        ? {
+            state: this.deserialize(row.state),
+            silenced: row.silenced,
+            lastInteractionAt: row.lastInteractionAt,
+            updatedAt: row.updatedAt,
+          }
+        : null,
+      pendingWrite: this.writes.has(conversationId),
+    };
+  }
+
+  private static save(state: ConversationState): void {
+    this.memory.set(state.conversationId, state);
+    this.schedulePersist(state.conversationId);
+  }
+
+  /**
+   * Write the latest cached state in the background
+   * One writer per conversation; changes made while a write is in flight are
+   * picked up by the next loop iteration, so rows are never written out of order.
+   */
+  private static schedulePersist(conversationId: string): void {
+    this.dirty.add(conversationId);
+    if (this.writes.has(conversationId)) return;
+
+    const write = (async () => {
+      while (this.dirty.has(conversationId)) {
+        this.dirty.delete(conversationId);
+        const state = this.memory.get(conversationId);
+
+        try {
+          if (state) {
+            const data = {
+              state: this.serialize(state),
+              silenced: state.silenced,
+              lastInteractionAt: new Date(state.lastInteraction),
+            };
+            await prisma.conversationMemoryState.upsert({
+              where: { conversationId },
+              create: { conversationId, ...data },
+              update: data,
+            });
+          } else {
+            await prisma.conversationMemoryState.deleteMany({ where: { conversationId } });
+          }
+        } catch (error) {
+          console.error(`[ConversationMemory] Failed to persist ${conversationId}:`, error);
+        }
+      }
+    })().finally(() => {
+      this.writes.delete(conversationId);
+    });
+
+    this.writes.set(conversationId, write);
+  }
+
+  private static serialize(state: ConversationState): Prisma.InputJsonValue {
+    return JSON.parse(JSON.stringify(state));
+  }
+
+  private static deserialize(json: Prisma.JsonValue): ConversationState {
+    const raw = json as any;
+    const toDate = (value: string | undefined) => (value ? new Date(value) : undefined);
+
+    return {
+      ...raw,
+      lastProposedSlot: toDate(raw.lastProposedSlot),
+      preferredDate: toDate(raw.preferredDate),
+      declinedSlots: (raw.declinedSlots || []).map((slot: string) => new Date(slot)),
+      createdAt: new Date(raw.createdAt),
+      updatedAt: new Date(raw.updatedAt),
+      previousQuestions: raw.previousQuestions || [],
+      recentMessages: raw.recentMessages || [],
+      allMessages: (raw.allMessages || []).map((m: any) => ({ ...m, timestamp: new Date(m.timestamp) })),
+    };
+  }
+
   // ═══════════════════════════════════════════════════════════════
   // PHASE 11A: HANDOVER TRACKING METHODS
   // ═══════════════════════════════════════════════════════════════
@@ -319,7 +492,7 @@ export class ConversationMemory {
   static trackDecline(conversationId: string): void {
     const state = this.getOrCreate(conversationId);
     state.declineCount++;
-    this.memory.set(conversationId, state);
+    this.save(state);
   }
 
   /**
@@ -336,7 +509,7 @@ export class ConversationMemory {
   static trackAmbiguousReply(conversationId: string): void {
     const state = this.getOrCreate(conversationId);
     state.loopCount++;
-    this.memory.set(conversationId, state);
+    this.save(state);
   }
 
   /**
@@ -345,7 +518,7 @@ export class ConversationMemory {
   static trackContradiction(conversationId: string): void {
     const state = this.getOrCreate(conversationId);
     state.contradictionCount++;
-    this.memory.set(conversationId, state);
+    this.save(state);
   }
 
   /**
@@ -378,7 +551,7 @@ export class ConversationMemory {
       sender,
       timestamp: new Date(),
     });
-    this.memory.set(conversationId, state);
+    this.save(state);
   }
 
   /**
@@ -426,7 +599,7 @@ export class ConversationMemory {
   static markSilencedForHandover(conversationId: string): void {
     const state = this.getOrCreate(conversationId);
     state.silenced = true;
-    this.memory.set(conversationId, state);
+    this.save(state);
   }
 
   /**
@@ -436,7 +609,7 @@ export class ConversationMemory {
     const state = this.get(conversationId);
     if (state) {
       state.silenced = false;
-      this.memory.set(conversationId, state);
+      this.save(state);
     }
   }
 
@@ -465,7 +638,3 @@ export class ConversationMemory {
   }
 }
 
-// Run cleanup every hour
-setInterval(() => {
-  ConversationMemory.cleanup();
-}, 60 * 60 * 1000);
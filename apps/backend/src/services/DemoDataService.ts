@@ -0,0 +1,143 @@
+/**
+ * Demo Data - sample customers, conversations and bookings for demos
+ *
+ * Used by the DemoMode agent (CREATE_DEMO_DATA).
+ *
+ * RULES:
+ * - Only for demo clients (Client.demoClient); real businesses never get
+ *   fake records mixed into their data
+ * - Every record is marked: names end in "(Demo)", phones use the
+ *   fictional +1555 range
+ * - Nothing created here triggers a text: bookings carry no customer
+ *   phone (no reminders), past ones are already completed (no review
+ *   request), and threads end on the customer's message (no follow-up).
+ *   No domain events are emitted
+ */
+
+import { prisma } from '../db';
+
+export const DEMO_PHONE_PREFIX = '+1555';
+const DEMO_NAME_SUFFIX = ' (Demo)';
+const DEMO_BOOKING_SPREAD_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FIRST_NAMES = ['Sarah', 'James', 'Priya', 'Tom', 'Aisha', 'Michael', 'Chloe', 'Daniel', 'Fatima', 'Owen'];
+const LAST_NAMES = ['Mitchell', 'Okafor', 'Patel', 'Reed', 'Khan', 'Evans', 'Turner', 'Hughes', 'Ali', 'Price'];
+const JOBS = ['boiler service', 'leaking tap', 'radiator not heating', 'new shower fitting', 'blocked drain'];
+
+export type DemoDataType = 'customers' | 'conversations' | 'bookings' | 'all';
+
+export type DemoDataResult =
+  | { success: true; created: { customers: number; conversations: number; bookings: number } }
+  | { success: false; reason: 'NOT_FOUND' | 'NOT_DEMO_CLIENT' };
+
+function demoPhone(index: number): string {
+  return `${DEMO_PHONE_PREFIX}${String(index).padStart(7, '0')}`;
+}
+
+function demoName(index: number): string {
+  const first = FIRST_NAMES[index % FIRST_NAMES.length];
+  const last = LAST_NAMES[Math.floor(index / FIRST_NAMES.length) % LAST_NAMES.length];
+  return `${first} ${last}${DEMO_NAME_SUFFIX}`;
+}
+
+/**
+ * Creates `count` demo customers; with 'conversations', 'bookings' or
+ * 'all', each one also gets a thread and/or a booking. Bookings are
+ * spread across the 30 days either side of `now`.
+ */
+export async function createDemoData(
+  clientId: string,
+  dataType: DemoDataType,
+  count: number,
+  now: Date = new Date()
+): Promise<DemoDataResult> {
+  const client = await prisma.client.findUnique({
+    where: { id: clientId },
+    select: { demoClient: true },
+  });
+
+  if (!client) return { success: false, reason: 'NOT_FOUND' };
+  if (!client.demoClient) return { success: false, reason: 'NOT_DEMO_CLIENT' };
+
+  const withConversations = dataType === 'conversations' || dataType === 'all';
+  const withBookings = dataType === 'bookings' || dataType === 'all';
+  const created = { customers: 0, conversations: 0, bookings: 0 };
+
+  // Carry on numbering after earlier runs so phones stay unique
+  const existing = await prisma.customer.count({
+    where: { clientId, phone: { startsWith: DEMO_PHONE_PREFIX } },
+  });
+
+  for (let i = 0; i < count; i++) {
+    const index = existing + i + 1;
+    const name = demoName(index);
+    const job = JOBS[index % JOBS.length];
+
+    const customer = await prisma.customer.create({
+      data: {
+        clientId,
+        phone: demoPhone(index),
+        name,
+        state: withBookings ? 'BOOKED' : 'CUSTOMER_REPLIED',
+      },
+    });
+    created.customers++;
+
+    if (withConversations) {
+      const startedAt = new Date(now.getTime() - (index % 7) * DAY_MS - 60 * 60 * 1000);
+      const thread = [
+        { direction: 'INBOUND' as const, body: `Hi, can someone take a look at a ${job}?` },
+        { direction: 'OUTBOUND' as const, body: `Hi ${name.split(' ')[0]}, thanks for getting in touch! When suits you?` },
+        { direction: 'INBOUND' as const, body: 'Any weekday morning works for me.' },
+      ];
+
+      await prisma.conversation.create({
+        data: {
+          clientId,
+          customerId: customer.id,
+          mode: 'OPERATIONAL',
+          messages: {
+            create: thread.map((message, position) => ({
+              clientId,
+              customerId: customer.id,
+              direction: message.direction,
+              type: 'SMS' as const,
+              body: message.body,
+              metadata: { demo: true },
+              createdAt: new Date(startedAt.getTime() + position * 5 * 60 * 1000),
+            })),
+          },
+        },
+      });
+      created.conversations++;
+    }
+
+    if (withBookings) {
+      const dayOffset = ((index * 7) % (DEMO_BOOKING_SPREAD_DAYS * 2 + 1)) - DEMO_BOOKING_SPREAD_DAYS;
+      const start = new Date(now.getTime() + dayOffset * DAY_MS);
+      start.setUTCHours(9 + (index % 8), 0, 0, 0);
+      const end = new Date(start.getTime() + 60 * 60 * 1000);
+      const past = end <= now;
+
+      await prisma.booking.create({
+        data: {
+          clientId,
+          customerId: customer.id,
+          customerName: name,
+          start,
+          end,
+          status: 'CONFIRMED',
+          notes: `Demo booking: ${job}`,
+          completedAt: past ? end : null,
+        },
+      });
+      created.bookings++;
+    }
+  }
+
+  console.log('[DemoData] Demo data created', { clientId, dataType, ...created });
+
+  return { success: true, created };
+}
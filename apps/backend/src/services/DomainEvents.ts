@@ -0,0 +1,139 @@
+/**
+ * DomainEvents - in-process bus for things that happened in the business
+ *
+ * Live paths (missed calls, inbound SMS, bookings, billing) emit what
+ * happened; subscribers such as the agent trigger dispatcher
+ * (agents/AgentTriggers.ts) decide what to do about it.
+ *
+ * RULES:
+ * - Emitting never waits for subscribers and never fails the emitter:
+ *   handlers run on a later tick and their errors are logged
+ * - Emit after the change is committed, so subscribers never see a
+ *   rolled-back message or booking
+ * - Events are not persisted; anything that must happen belongs in the
+ *   emitting path or a sweep, not only in a subscriber
+ */
+
+import type { BillingStatus } from '@prisma/client';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  EVENTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type DomainEvent =
+  | {
+      type: 'call.missed';
+      clientId: string;
+      customerId: string;
+      conversationId: string;
+      from: string;
+      callSid: string;
+    }
+  | {
+      type: 'sms.received';
+      clientId: string;
+      customerId: string;
+      conversationId: string;
+      messageId: string;
+      from: string;
+      body: string;
+    }
+  | {
+      type: 'customer.created';
+      clientId: string;
+      customerId: string;
+      phone: string;
+    }
+  | {
+      // A booking was refused because the slot is taken
+      type: 'booking.conflict';
+      clientId: string;
+      // Set when an existing booking was being moved
+      bookingId?: string;
+      start: Date;
+      end: Date;
+      conflictingBookingIds: string[];
+    }
+  | {
+      type: 'booking.completed';
+      clientId: string;
+      bookingId: string;
+      customerId: string | null;
+    }
+  | {
+      // Our last message in the thread has gone unanswered
+      type: 'conversation.no_reply';
+      clientId: string;
+      conversationId: string;
+      customerId: string | null;
+      lastMessageAt: Date;
+    }
+  | {
+      type: 'billing.status_changed';
+      clientId: string;
+      fromStatus: BillingStatus;
+      toStatus: BillingStatus;
+      reason: string;
+    };
+
+export type DomainEventType = DomainEvent['type'];
+
+export type DomainEventOf<T extends DomainEventType> = Extract<DomainEvent, { type: T }>;
+
+export type DomainEventHandler<T extends DomainEventType> = (event: DomainEventOf<T>) => Promise<void> | void;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  BUS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const handlers = new Map<DomainEventType, Set<DomainEventHandler<any>>>();
+const inFlight = new Set<Promise<void>>();
+
+/**
+ * Subscribe to one event type. Returns the unsubscribe function.
+ */
+export function onDomainEvent<T extends DomainEventType>(type: T, handler: DomainEventHandler<T>): () => void {
+  if (!handlers.has(type)) {
+    handlers.set(type, new Set());
+  }
+  handlers.get(type)!.add(handler);
+
+  return () => {
+    handlers.get(type)?.delete(handler);
+  };
+}
+
+/**
+ * Publish an event. Returns immediately; subscribers run afterwards.
+ */
+export function emitDomainEvent(event: DomainEvent): void {
+  const subscribers = handlers.get(event.type);
+  if (!subscribers || subscribers.size === 0) return;
+
+  for (const handler of subscribers) {
+    const run = new Promise<void>((resolve) => setImmediate(resolve))
+      .then(() => handler(event))
+      .catch((error) => {
+        console.error('[DomainEvents] Handler failed', {
+          type: event.type,
+          clientId: event.clientId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .finally(() => {
+        inFlight.delete(run);
+      });
+
+    inFlight.add(run);
+  }
+}
+
+/**
+ * Wait until every handler started so far (and any events they emitted)
+ * has finished. For graceful shutdown and tests.
+ */
+export async function drainDomainEvents(): Promise<void> {
+  while (inFlight.size > 0) {
+    await Promise.all(inFlight);
+  }
+}
@@ -58,6 +58,11 @@ export class HandoverManager {
         },
       });
 
+      // A resolved handover being reopened is new to the dashboard
+      if (!existing.active) {
+        this.broadcastNewHandover(updated as HandoverState);
+      }
+
       return updated as HandoverState;
     }
 
@@ -75,17 +80,21 @@ export class HandoverManager {
     });
 
     // PHASE 13: Broadcast new handover event
-    WebSocketGateway.broadcastToClient(clientId, 'NEW_HANDOVER', {
-      handoverId: handover.id,
-      conversationId,
-      reason,
-      urgencyScore,
-      triggers,
-    });
+    this.broadcastNewHandover(handover as HandoverState);
 
     return handover as HandoverState;
   }
 
+  private static broadcastNewHandover(handover: HandoverState): void {
+    WebSocketGateway.broadcastToClient(handover.clientId, 'NEW_HANDOVER', {
+      handoverId: handover.id,
+      conversationId: handover.conversationId,
+      reason: handover.reason,
+      urgencyScore: handover.urgencyScore,
+      triggers: handover.triggers,
+    });
+  }
+
   /**
    * End a handover - mark inactive
    */
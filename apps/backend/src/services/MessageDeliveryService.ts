@@ -0,0 +1,175 @@
+/**
+ * Message Delivery Tracking
+ *
+ * Applies Twilio message status callbacks to Message.deliveryStatus so we can
+ * distinguish "customer never received our reply" from "customer ignored us".
+ *
+ * RULES:
+ * - Lookup is by Message.twilioSid (unique)
+ * - Status only moves forward (a late "sent" never overwrites "delivered")
+ * - UNDELIVERED / FAILED are terminal and record the Twilio error code
+ * - Unknown SIDs are acknowledged but ignored (Twilio must not retry)
+ */
+
+import { MessageDeliveryStatus, MessageDirection, MessageType } from '@prisma/client';
+import { prisma } from '../db';
+import { TwilioMessageStatus, TwilioMessageStatusPayload } from '../twilio/utils/twilioTypes';
+import {
+  metrics,
+  MetricSmsDeliveryStatus,
+  MetricSmsDeliveryFailure,
+  MetricSmsDeliveryUnknownSid,
+} from './Metrics';
+
+export interface DeliveryUpdateResult {
+  updated: boolean;
+  messageId?: string;
+  status?: MessageDeliveryStatus;
+  reason?: 'UNKNOWN_SID' | 'UNMAPPED_STATUS' | 'STALE_STATUS';
+}
+
+/**
+ * Twilio MessageStatus → our collapsed delivery status.
+ * "sending"/"accepted" are transient and treated as QUEUED.
+ */
+const TWILIO_STATUS_MAP: Record<TwilioMessageStatus, MessageDeliveryStatus | null> = {
+  accepted: 'QUEUED',
+  queued: 'QUEUED',
+  sending: 'QUEUED',
+  sent: 'SENT',
+  delivered: 'DELIVERED',
+  read: 'DELIVERED',
+  undelivered: 'UNDELIVERED',
+  failed: 'FAILED',
+  canceled: 'FAILED',
+  received: 'RECEIVED',
+};
+
+/**
+ * Progression rank - higher ranks never regress to lower ones.
+ * Terminal failures share the top rank with DELIVERED.
+ */
+const STATUS_RANK: Record<MessageDeliveryStatus, number> = {
+  RECEIVED: 0,
+  QUEUED: 1,
+  SENT: 2,
+  DELIVERED: 3,
+  UNDELIVERED: 3,
+  FAILED: 3,
+};
+
+/**
+ * Common Twilio error codes surfaced on the lead timeline
+ */
+const TWILIO_ERROR_DESCRIPTIONS: Record<string, string> = {
+  '21610': 'Recipient has opted out (STOP)',
+  '21614': 'Not a mobile number',
+  '30003': 'Handset unreachable',
+  '30004': 'Message blocked by recipient or carrier',
+  '30005': 'Unknown or inactive number',
+  '30006': 'Landline or unreachable carrier',
+  '30007': 'Filtered by carrier',
+  '30008': 'Unknown delivery error',
+};
+
+export function mapTwilioMessageStatus(status: string | undefined): MessageDeliveryStatus | null {
+  if (!status) return null;
+  return TWILIO_STATUS_MAP[status.toLowerCase() as TwilioMessageStatus] ?? null;
+}
+
+export function isDeliveryFailure(status: MessageDeliveryStatus | null | undefined): boolean {
+  return status === 'UNDELIVERED' || status === 'FAILED';
+}
+
+export function describeDeliveryError(errorCode: string | null | undefined): string {
+  if (!errorCode) return 'No error code reported';
+  const description = TWILIO_ERROR_DESCRIPTIONS[errorCode];
+  return description ? `${description} (Twilio ${errorCode})` : `Twilio error ${errorCode}`;
+}
+
+/**
+ * Initial delivery status for a newly persisted message.
+ * Only SMS with a Twilio SID are tracked; notes/events/calls stay null.
+ */
+export function initialDeliveryStatus(
+  direction: MessageDirection,
+  type: MessageType,
+  twilioSid?: string | null
+): MessageDeliveryStatus | null {
+  if (type !== 'SMS' || !twilioSid) return null;
+  if (direction === 'INBOUND') return 'RECEIVED';
+  if (direction === 'OUTBOUND') return 'QUEUED';
+  return null;
+}
+
+/**
+ * Apply a Twilio message status callback to the matching Message row
+ */
+export async function applyMessageStatusCallback(
+  payload: TwilioMessageStatusPayload
+): Promise<DeliveryUpdateResult> {
+  const sid = payload.MessageSid || payload.SmsSid;
+  const status = mapTwilioMessageStatus(payload.MessageStatus || payload.SmsStatus);
+
+  if (!status) {
+    console.warn('[DELIVERY] Unmapped Twilio message status', {
+      messageSid: sid,
+      status: payload.MessageStatus,
+    });
+    return { updated: false, reason: 'UNMAPPED_STATUS' };
+  }
+
+  const message = await prisma.message.findUnique({
+    where: { twilioSid: sid },
+    select: { id: true, clientId: true, deliveryStatus: true },
+  });
+
+  if (!message) {
+    metrics.increment(MetricSmsDeliveryUnknownSid);
+    console.warn('[DELIVERY] Status callback for unknown message SID', {
+      messageSid: sid,
+      status,
+    });
+    return { updated: false, reason: 'UNKNOWN_SID' };
+  }
+
+  if (message.deliveryStatus && STATUS_RANK[status] < STATUS_RANK[message.deliveryStatus]) {
+    console.log('[DELIVERY] Ignoring out-of-order status', {
+      messageId: message.id,
+      current: message.deliveryStatus,
+      received: status,
+    });
+    return { updated: false, messageId: message.id, status: message.deliveryStatus, reason: 'STALE_STATUS' };
+  }
+
+  const now = new Date();
+  const failed = isDeliveryFailure(status);
+
+  await prisma.message.update({
+    where: { id: message.id },
+    data: {
+      deliveryStatus: status,
+      deliveryUpdatedAt: now,
+      ...(status === 'DELIVERED' && { deliveredAt: now }),
+      ...(failed && { failedAt: now, deliveryErrorCode: payload.ErrorCode || null }),
+    },
+  });
+
+  metrics.increment(MetricSmsDeliveryStatus, { status });
+
+  if (failed) {
+    metrics.increment(MetricSmsDeliveryFailure, {
+      status,
+      errorCode: payload.ErrorCode || 'none',
+    });
+    console.warn('[DELIVERY] Outbound SMS not delivered', {
+      messageId: message.id,
+      clientId: message.clientId,
+      status,
+      errorCode: payload.ErrorCode,
+      description: describeDeliveryError(payload.ErrorCode),
+    });
+  }
+
+  return { updated: true, messageId: message.id, status };
+}
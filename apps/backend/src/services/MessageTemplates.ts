@@ -2,16 +2,21 @@
  * MessageTemplates - AI Response Templates
  * Tone: Professional, Polite, Efficient
  * PHASE 10: Hard-locked consistency structure
+ *
+ * Slot times are written in the client's time zone (timeZone); without one
+ * the server's zone is used.
  */
 
+import { ZonedTime } from '../lib/calendar/ZonedTime';
+
 export class MessageTemplates {
   /**
    * HARD-LOCKED: Offer a specific time slot
    * EXACT structure enforced
    */
-  static offerSlot(slot: Date): string {
-    const time = this.formatTime(slot);
-    const date = this.formatDate(slot);
+  static offerSlot(slot: Date, timeZone?: string): string {
+    const time = this.formatTime(slot, timeZone);
+    const date = this.formatDate(slot, timeZone);
 
     return `The earliest I can offer is ${time} on ${date}. Does that work for you?`;
   }
@@ -20,9 +25,9 @@ export class MessageTemplates {
    * HARD-LOCKED: Offer next earliest slot after declined
    * EXACT structure enforced
    */
-  static nextSlot(slot: Date): string {
-    const time = this.formatTime(slot);
-    const date = this.formatDate(slot);
+  static nextSlot(slot: Date, timeZone?: string): string {
+    const time = this.formatTime(slot, timeZone);
+    const date = this.formatDate(slot, timeZone);
 
     return `No problem — the next available time is ${time} on ${date}. Does that work?`;
   }
@@ -31,13 +36,61 @@ export class MessageTemplates {
    * HARD-LOCKED: Confirm booking
    * EXACT structure enforced
    */
-  static confirmBooking(slot: Date, customerName?: string): string {
-    const time = this.formatTime(slot);
-    const date = this.formatDate(slot);
+  static confirmBooking(slot: Date, customerName?: string, timeZone?: string): string {
+    const time = this.formatTime(slot, timeZone);
+    const date = this.formatDate(slot, timeZone);
 
     return `Perfect — I've booked you for ${time} on ${date}. See you then!`;
   }
 
+  /**
+   * Booking made on the self-service booking page
+   */
+  static bookingConfirmed(slot: Date, businessName: string, timeZone?: string): string {
+    const time = this.formatTime(slot, timeZone);
+    const date = this.formatDate(slot, timeZone);
+
+    return `You're booked in with ${businessName} for ${date} at ${time}. We'll text you a reminder beforehand.`;
+  }
+
+  /**
+   * Reminder ahead of a booking; asks for C/R/X until the customer confirms
+   */
+  static bookingReminder(slot: Date, businessName: string, timeZone?: string, confirmed: boolean = false): string {
+    const time = this.formatTime(slot, timeZone);
+    const date = this.formatDate(slot, timeZone);
+    const reminder = `Reminder: your appointment with ${businessName} is ${date} at ${time}.`;
+
+    return confirmed ? reminder : `${reminder} Reply C to confirm, R to reschedule or X to cancel.`;
+  }
+
+  /**
+   * Customer replied C to a reminder
+   */
+  static bookingReplyConfirmed(slot: Date, timeZone?: string): string {
+    const time = this.formatTime(slot, timeZone);
+    const date = this.formatDate(slot, timeZone);
+
+    return `Thanks — you're confirmed for ${date} at ${time}. See you then!`;
+  }
+
+  /**
+   * Customer replied R to a reminder
+   */
+  static bookingReplyReschedule(): string {
+    return "No problem — we'll be in touch shortly with some new times.";
+  }
+
+  /**
+   * Customer replied X to a reminder
+   */
+  static bookingReplyCancelled(slot: Date, timeZone?: string): string {
+    const time = this.formatTime(slot, timeZone);
+    const date = this.formatDate(slot, timeZone);
+
+    return `Your appointment for ${date} at ${time} has been cancelled. Text us any time to book again.`;
+  }
+
   /**
    * HARD-LOCKED: Fallback for errors or unclear situations
    * EXACT structure enforced
@@ -119,11 +172,11 @@ export class MessageTemplates {
   /**
    * Urgent slot offer
    */
-  static urgentSlot(slot: Date): string {
-    const time = this.formatTime(slot);
-    const date = this.formatDate(slot);
+  static urgentSlot(slot: Date, timeZone?: string): string {
+    const time = this.formatTime(slot, timeZone);
+    const date = this.formatDate(slot, timeZone);
 
-    if (this.isToday(slot)) {
+    if (this.isToday(slot, timeZone)) {
       return `I can fit you in today at ${time}. Does that work?`;
     }
 
@@ -154,10 +207,10 @@ export class MessageTemplates {
   /**
    * Day is closed
    */
-  static closedDay(requestedDate: Date, nextOpenDay: Date): string {
-    const requested = this.formatDate(requestedDate);
-    const nextOpen = this.formatDate(nextOpenDay);
-    const time = this.formatTime(nextOpenDay);
+  static closedDay(requestedDate: Date, nextOpenDay: Date, timeZone?: string): string {
+    const requested = this.formatDate(requestedDate, timeZone);
+    const nextOpen = this.formatDate(nextOpenDay, timeZone);
+    const time = this.formatTime(nextOpenDay, timeZone);
 
     return `We're closed ${requested} — but I can fit you in on ${nextOpen} at ${time}. Does that work?`;
   }
@@ -165,10 +218,10 @@ export class MessageTemplates {
   /**
    * Day is fully booked
    */
-  static fullyBooked(requestedDate: Date, nextAvailable: Date): string {
-    const requested = this.formatDate(requestedDate);
-    const time = this.formatTime(nextAvailable);
-    const date = this.formatDate(nextAvailable);
+  static fullyBooked(requestedDate: Date, nextAvailable: Date, timeZone?: string): string {
+    const requested = this.formatDate(requestedDate, timeZone);
+    const time = this.formatTime(nextAvailable, timeZone);
+    const date = this.formatDate(nextAvailable, timeZone);
 
     return `We're fully booked ${requested} — but the next available time is ${time} on ${date}. Does that work?`;
   }
@@ -190,9 +243,8 @@ export class MessageTemplates {
   /**
    * Format time in 12-hour format
    */
-  private static formatTime(date: Date): string {
-    const hours = date.getHours();
-    const minutes = date.getMinutes();
+  private static formatTime(date: Date, timeZone?: string): string {
+    const { hour: hours, minute: minutes } = ZonedTime.parts(date, timeZone);
     const ampm = hours >= 12 ? 'PM' : 'AM';
     const displayHours = hours % 12 || 12;
     const displayMinutes = minutes > 0 ? `:${minutes.toString().padStart(2, '0')}` : '';
@@ -203,46 +255,37 @@ export class MessageTemplates {
   /**
    * Format date in human-readable format
    */
-  private static formatDate(date: Date): string {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
+  private static formatDate(date: Date, timeZone?: string): string {
+    const today = ZonedTime.dateKey(new Date(), timeZone);
+    const target = ZonedTime.dateKey(date, timeZone);
 
-    const targetDate = new Date(date);
-    targetDate.setHours(0, 0, 0, 0);
-
-    if (targetDate.getTime() === today.getTime()) {
+    if (target === today) {
       return 'today';
     }
 
-    if (targetDate.getTime() === tomorrow.getTime()) {
+    if (target === ZonedTime.addDays(today, 1)) {
       return 'tomorrow';
     }
 
     // Within next 7 days - use day name
-    const daysUntil = Math.floor((targetDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+    const daysUntil = Math.round(
+      (ZonedTime.toStorageDate(target).getTime() - ZonedTime.toStorageDate(today).getTime()) / (1000 * 60 * 60 * 24)
+    );
     if (daysUntil >= 0 && daysUntil < 7) {
       const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-      return dayNames[targetDate.getDay()];
+      return dayNames[ZonedTime.weekdayOf(target)];
     }
 
     // Otherwise use month + day
     const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-    return `${months[targetDate.getMonth()]} ${targetDate.getDate()}`;
+    const { month, day } = ZonedTime.parseDateKey(target);
+    return `${months[month - 1]} ${day}`;
   }
 
   /**
    * Check if date is today
    */
-  private static isToday(date: Date): boolean {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    const target = new Date(date);
-    target.setHours(0, 0, 0, 0);
-
-    return target.getTime() === today.getTime();
+  private static isToday(date: Date, timeZone?: string): boolean {
+    return ZonedTime.dateKey(date, timeZone) === ZonedTime.dateKey(new Date(), timeZone);
   }
 }
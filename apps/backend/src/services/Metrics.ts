@@ -242,3 +242,33 @@ export const MetricTwilioNumberPoolOrphanedOperational = 'twilio_number_pool.inv
  * Counter: SYSTEM Number Fail-Safe Intake
  */
 export const MetricVoiceCallSystemFailsafeIntake = 'voice.system_failsafe_intake';
+
+/**
+ * Counter: Outbound SMS Delivery (Twilio message status callbacks)
+ */
+export const MetricSmsDeliveryStatus = 'sms.delivery.status';
+export const MetricSmsDeliveryFailure = 'sms.delivery.failure';
+export const MetricSmsDeliveryUnknownSid = 'sms.delivery.unknown_sid';
+
+/**
+ * Counter: SMS Consent (STOP / START / HELP keywords, sends blocked by opt-out)
+ */
+export const MetricSmsConsentOptOut = 'sms.consent.opt_out';
+export const MetricSmsConsentOptIn = 'sms.consent.opt_in';
+export const MetricSmsConsentHelp = 'sms.consent.help';
+export const MetricSmsConsentBlocked = 'sms.consent.blocked';
+
+/**
+ * Counter: Outbound Queue (queued SMS sends, retries, dead letters, throttling)
+ */
+export const MetricSmsOutboundSent = 'sms.outbound.sent';
+export const MetricSmsOutboundRetry = 'sms.outbound.retry';
+export const MetricSmsOutboundDead = 'sms.outbound.dead';
+export const MetricSmsOutboundThrottled = 'sms.outbound.throttled';
+
+/**
+ * Counter: Job Scheduler (cron job runs)
+ */
+export const MetricJobRunSucceeded = 'scheduler.job.succeeded';
+export const MetricJobRunFailed = 'scheduler.job.failed';
+export const MetricJobRetriesExhausted = 'scheduler.job.retries_exhausted';
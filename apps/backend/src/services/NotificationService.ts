@@ -5,11 +5,13 @@
  * Sends notifications to business owner when:
  * - Handover is triggered
  * - Includes customer info, last messages, urgency, reason
+ * - An agent raises something for the owner (SEND_NOTIFICATION)
  */
 
 import { PrismaClient } from '@prisma/client';
 import { ConversationMemory } from './ConversationMemory';
 import { canProcessNotificationRequest } from './SystemGate';
+import { enqueueSms } from './OutboundQueue';
 
 const prisma = new PrismaClient();
 
@@ -25,6 +27,15 @@ export interface NotificationPayload {
   dashboardLink: string;
 }
 
+export interface AgentNotificationPayload {
+  agentName: string;
+  title?: string;
+  message: string;
+  severity: 'INFO' | 'WARNING' | 'CRITICAL';
+  // Free-form label from the agent, e.g. daily_briefing
+  type?: string;
+}
+
 export interface NotificationResult {
   smsSent: boolean;
   emailSent: boolean;
@@ -38,6 +49,39 @@ export class NotificationService {
   static async sendHandoverNotification(
     clientId: string,
     payload: NotificationPayload
+  ): Promise<NotificationResult> {
+    return this.notifyOwner(clientId, payload.reason, {
+      sms: this.formatSMSMessage(payload),
+      subject: this.formatEmailSubject(payload),
+      html: this.formatEmailBody(payload),
+    });
+  }
+
+  /**
+   * Send an agent's notification to the business owner (SMS + Email).
+   * Same gate and recipients as handovers.
+   */
+  static async sendAgentNotification(
+    clientId: string,
+    payload: AgentNotificationPayload
+  ): Promise<NotificationResult> {
+    const title = payload.title || `Update from ${payload.agentName}`;
+    const prefix = payload.severity === 'INFO' ? '' : `[${payload.severity}] `;
+
+    return this.notifyOwner(clientId, title, {
+      sms: `${prefix}${title}\n\n${payload.message}`,
+      subject: `${prefix}${title}`,
+      html: `<h2>${title}</h2>\n<p>${payload.message.replace(/\n/g, '<br>')}</p>\n<p style="color: #999; font-size: 12px;">Sent by your ${payload.agentName} assistant.</p>`,
+    });
+  }
+
+  /**
+   * Gate, look up the owner's contact details and send to each channel
+   */
+  private static async notifyOwner(
+    clientId: string,
+    about: string,
+    content: { sms: string; subject: string; html: string }
   ): Promise<NotificationResult> {
     const result: NotificationResult = {
       smsSent: false,
@@ -68,7 +112,7 @@ export class NotificationService {
 
     if (!notificationGuard.allowed) {
       console.warn(`[SystemGate] NOTIFICATION_BLOCKED: ${notificationGuard.reason}`);
-      console.log(`[SystemGate] Would have notified about: ${payload.reason}`);
+      console.log(`[SystemGate] Would have notified about: ${about}`);
       result.errors.push(notificationGuard.reason || 'Notification blocked');
       return result;
     }
@@ -84,7 +128,7 @@ export class NotificationService {
     // Send SMS notification
     if (settings.smsEnabled && settings.phoneNumber) {
       try {
-        await this.sendSMS(settings.phoneNumber, payload);
+        await this.sendSMS(clientId, settings.phoneNumber, content.sms);
         result.smsSent = true;
       } catch (error) {
         result.errors.push(`SMS failed: ${String(error)}`);
@@ -94,7 +138,7 @@ export class NotificationService {
     // Send Email notification
     if (settings.emailEnabled && settings.email) {
       try {
-        await this.sendEmail(settings.email, payload);
+        await this.sendEmail(settings.email, content.subject, content.html);
         result.emailSent = true;
       } catch (error) {
         result.errors.push(`Email failed: ${String(error)}`);
@@ -137,29 +181,28 @@ export class NotificationService {
   }
 
   /**
-   * Send SMS notification via Twilio
+   * Send SMS notification through the outbound queue, so it shares the
+   * number's throttle and retries. Quiet hours don't apply: the owner wants
+   * a handover or alert when it happens.
    */
   private static async sendSMS(
+    clientId: string,
     phoneNumber: string,
-    payload: NotificationPayload
+    message: string
   ): Promise<void> {
-    const message = this.formatSMSMessage(payload);
-
-    const { getTwilioClient } = await import('../twilio/client');
-    const twilioClient = getTwilioClient();
-
-    // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-    // 🚨 FORENSIC LOGGING - Identify alert spam source
-    // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-    console.error("🚨🚨🚨 TWILIO SEND EXECUTED FROM:", __filename);
-    console.error("🚨 STACK TRACE:", new Error().stack);
-    // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-    await twilioClient.messages.create({
+    const queued = await enqueueSms({
       to: phoneNumber,
       from: process.env.TWILIO_NUMBER!,
       body: message,
+      source: 'owner_notification',
+      clientId,
+      quietHours: false,
     });
+
+    // QUEUED after a failed first attempt is left for the dispatch job to retry
+    if (queued.status === 'CANCELLED' || queued.status === 'DEAD') {
+      throw new Error(queued.lastError || `Message ${queued.status.toLowerCase()}`);
+    }
   }
 
   /**
@@ -167,14 +210,12 @@ export class NotificationService {
    */
   private static async sendEmail(
     email: string,
-    payload: NotificationPayload
+    subject: string,
+    body: string
   ): Promise<void> {
     // TODO: Integrate with email service (SendGrid, AWS SES, etc.)
     // For now, just log to console
 
-    const subject = this.formatEmailSubject(payload);
-    const body = this.formatEmailBody(payload);
-
     console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
     console.log('📧 EMAIL NOTIFICATION');
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
@@ -12,7 +12,7 @@
 
 import { prisma } from "../db";
 import { Client, OnboardingState, ClientBilling } from "@prisma/client";
-import { LLMClient } from "../llm/LLMClient";
+import { LLMClient, isLLMConfigured } from "../llm/LLMClient";
 import { allocateTwilioNumber } from "./TwilioNumberPoolService";
 import { OpenAIFailureTracker } from "./OpenAIFailureTracker";
 import { getPaymentActivationMessage, getTrialUsedMessage } from "../messaging/paymentMessaging";
@@ -381,11 +381,9 @@ Output valid JSON only.`;
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
 async function extractWithOpenAI(context: OnboardingContext): Promise<ExtractionResponse> {
-  const apiKey = process.env.OPENAI_API_KEY;
-
-  // HARDENING: Fallback if API key missing (prevents full onboarding failure)
-  if (!apiKey) {
-    console.error("❌ [OPENAI] OPENAI_API_KEY not configured - using fallback");
+  // HARDENING: Fallback if no LLM is configured (prevents full onboarding failure)
+  if (!isLLMConfigured()) {
+    console.error("❌ [OPENAI] LLM provider not configured - using fallback");
     return {
       action: "REJECT",
       reply: CANONICAL_REPLIES[context.state]?.["REJECT"]?.[0] || "Please try again.",
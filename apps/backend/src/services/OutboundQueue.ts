@@ -0,0 +1,551 @@
+/**
+ * OutboundQueue - persistent queue for outbound SMS
+ *
+ * Sends that don't have to happen inside a webhook request (agent
+ * follow-ups, booking reminders and confirmations, customer replies sent
+ * outside TwiML) are written to outbound_messages and delivered by the
+ * outbound-dispatch job, or straight away when enqueued and already due.
+ *
+ * RULES:
+ * - Quiet hours: a message that respects them only goes out while the
+ *   client is open (Client.businessHours in Client.timezone). Clients with
+ *   no hours set get DEFAULT_SENDING_WINDOW every day.
+ * - Scheduling: sendAt holds a message until then; expiresAt cancels it if
+ *   it can't go out in time
+ * - Throttling: at most OUTBOUND_SMS_PER_MINUTE sends per sending number
+ *   across all replicas (in-flight SENDING rows count); the rest wait for
+ *   the next run
+ * - Idempotency: enqueueing an existing idempotencyKey returns the
+ *   original row and sends nothing
+ * - Failures retry with exponential backoff; permanent Twilio rejections
+ *   and exhausted retries are dead-lettered (DEAD) for an admin to retry
+ * - Consent is re-checked at send time, since a customer may text STOP
+ *   while their message waits out quiet hours
+ * - A row left SENDING by a crashed replica is dead-lettered, not resent:
+ *   Twilio may already have it
+ */
+
+import { OutboundMessage, OutboundMessageStatus, Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { sendSMS } from '../twilio/client';
+import { addMessage } from '../modules/conversation/service';
+import { ZonedTime } from '../lib/calendar/ZonedTime';
+import { checkRecipientConsent } from './ConsentService';
+import {
+  metrics,
+  MetricSmsOutboundSent,
+  MetricSmsOutboundRetry,
+  MetricSmsOutboundDead,
+  MetricSmsOutboundThrottled,
+} from './Metrics';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  TYPES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export interface EnqueueSmsInput {
+  to: string;
+  from: string;
+  body: string;
+  // What is sending it, e.g. booking_reminder, agent
+  source: string;
+  clientId?: string | null;
+  customerId?: string | null;
+  // Recorded on this conversation once sent (needs clientId and customerId)
+  conversationId?: string | null;
+  idempotencyKey?: string;
+  sendAt?: Date;
+  expiresAt?: Date;
+  // Off for replies to a customer who has just texted us
+  quietHours?: boolean;
+  maxAttempts?: number;
+  metadata?: Record<string, unknown>;
+}
+
+export interface SendingDay {
+  enabled: boolean;
+  open: string;
+  close: string;
+}
+
+export interface DispatchSummary {
+  sent: number;
+  retried: number;
+  dead: number;
+  cancelled: number;
+  deferred: number;
+  throttled: number;
+}
+
+export interface QueueOverview {
+  counts: Record<OutboundMessageStatus, number>;
+  // QUEUED and due for longer than STUCK_AFTER_MS
+  overdue: number;
+  oldestOverdueAt: Date | null;
+  // SENDING past their claim (dead-lettered on the next dispatch run)
+  stuckSending: number;
+}
+
+export type OutboundAdminResult =
+  | { success: true; message: OutboundMessage }
+  | { success: false; reason: 'NOT_FOUND' | 'INVALID_STATUS' };
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  CONFIG
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// TCPA-style window for clients that haven't set business hours
+export const DEFAULT_SENDING_WINDOW: SendingDay = { enabled: true, open: '08:00', close: '21:00' };
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const BATCH_SIZE = 200;
+const SEND_LOCK_MS = 2 * 60 * 1000;
+const THROTTLE_WINDOW_MS = 60 * 1000;
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+const STUCK_AFTER_MS = 15 * 60 * 1000;
+
+// Twilio rejections that no retry will fix
+const PERMANENT_ERROR_CODES = new Set([
+  '21211', // Invalid 'To' number
+  '21408', // Region not enabled
+  '21610', // Recipient replied STOP
+  '21612', // Unroutable 'To' number
+  '21614', // Not a mobile number
+]);
+
+const WEEKDAY_KEYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Per-number send limit. Twilio long codes manage about one message a
+ * second; raise it for short codes or messaging services.
+ */
+export function getThrottleLimit(): number {
+  const limit = parseInt(process.env.OUTBOUND_SMS_PER_MINUTE || '', 10);
+  return limit > 0 ? limit : 60;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  QUIET HOURS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Sending window for a weekday from Client.businessHours
+ * ({ monday: { enabled, open, close }, ... })
+ */
+function sendingDayFor(businessHours: unknown, weekday: number): SendingDay {
+  if (!businessHours || typeof businessHours !== 'object') {
+    return DEFAULT_SENDING_WINDOW;
+  }
+
+  const day = (businessHours as Record<string, Partial<SendingDay> | undefined>)[WEEKDAY_KEYS[weekday]];
+  if (!day || typeof day.open !== 'string' || typeof day.close !== 'string') {
+    return { ...DEFAULT_SENDING_WINDOW, enabled: false };
+  }
+
+  return { enabled: day.enabled !== false, open: day.open, close: day.close };
+}
+
+/**
+ * Earliest instant at or after `from` outside the client's quiet hours.
+ * A client closed every day has no window to wait for, so `from` is
+ * returned rather than holding messages forever.
+ */
+export function nextSendableTime(businessHours: unknown, timeZone: string | undefined, from: Date): Date {
+  const today = ZonedTime.dateKey(from, timeZone);
+
+  for (let offset = 0; offset < 8; offset++) {
+    const dateKey = ZonedTime.addDays(today, offset);
+    const day = sendingDayFor(businessHours, ZonedTime.weekdayOf(dateKey));
+    if (!day.enabled) continue;
+
+    const opensAt = ZonedTime.toInstant(dateKey, day.open, timeZone);
+    const closesAt = ZonedTime.toInstant(dateKey, day.close, timeZone);
+
+    if (from < closesAt) {
+      return from > opensAt ? from : opensAt;
+    }
+  }
+
+  return from;
+}
+
+async function sendableTimeFor(clientId: string | null, from: Date): Promise<Date> {
+  if (!clientId) return from;
+
+  const client = await prisma.client.findUnique({
+    where: { id: clientId },
+    select: { businessHours: true, timezone: true },
+  });
+  if (!client) return from;
+
+  const timeZone = ZonedTime.isValidTimeZone(client.timezone) ? client.timezone : ZonedTime.DEFAULT_TIMEZONE;
+  return nextSendableTime(client.businessHours, timeZone, from);
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  ENQUEUE
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Queue an SMS. When it's already due (no sendAt, outside quiet hours and
+ * under the throttle) it is sent before returning, with one attempt; a
+ * failed attempt is left for the dispatch job to retry.
+ */
+export async function enqueueSms(input: EnqueueSmsInput, now: Date = new Date()): Promise<OutboundMessage> {
+  if (input.idempotencyKey) {
+    const existing = await prisma.outboundMessage.findUnique({
+      where: { idempotencyKey: input.idempotencyKey },
+    });
+    if (existing) return existing;
+  }
+
+  const respectQuietHours = input.quietHours ?? true;
+  const requested = input.sendAt && input.sendAt > now ? input.sendAt : now;
+  const sendAfter = respectQuietHours ? await sendableTimeFor(input.clientId ?? null, requested) : requested;
+
+  let message: OutboundMessage;
+  try {
+    message = await prisma.outboundMessage.create({
+      data: {
+        clientId: input.clientId ?? null,
+        customerId: input.customerId ?? null,
+        conversationId: input.conversationId ?? null,
+        to: input.to,
+        from: input.from,
+        body: input.body,
+        source: input.source,
+        idempotencyKey: input.idempotencyKey,
+        metadata: input.metadata as Prisma.InputJsonValue | undefined,
+        respectQuietHours,
+        sendAfter,
+        expiresAt: input.expiresAt,
+        maxAttempts: input.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      },
+    });
+  } catch (error) {
+    // Another request enqueued the same key first
+    if (
+      input.idempotencyKey &&
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002'
+    ) {
+      return prisma.outboundMessage.findUniqueOrThrow({ where: { idempotencyKey: input.idempotencyKey } });
+    }
+    throw error;
+  }
+
+  if (sendAfter > now) {
+    console.log('[OutboundQueue] Message scheduled', {
+      id: message.id,
+      source: message.source,
+      sendAfter: sendAfter.toISOString(),
+    });
+    return message;
+  }
+
+  await deliver(message, now, new Set(), emptySummary());
+  return prisma.outboundMessage.findUniqueOrThrow({ where: { id: message.id } });
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  DISPATCH (jobs/definitions.ts)
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function emptySummary(): DispatchSummary {
+  return { sent: 0, retried: 0, dead: 0, cancelled: 0, deferred: 0, throttled: 0 };
+}
+
+/**
+ * Sends every due message, oldest first. Also expires messages past their
+ * expiresAt and dead-letters sends abandoned mid-flight.
+ */
+export async function dispatchDueMessages(now: Date = new Date()): Promise<DispatchSummary> {
+  const summary = emptySummary();
+
+  const abandoned = await prisma.outboundMessage.updateMany({
+    where: { status: 'SENDING', lockedUntil: { lt: now } },
+    data: {
+      status: 'DEAD',
+      lockedUntil: null,
+      lastError: 'Send outcome unknown: the sender stopped mid-send. Check Twilio before retrying.',
+    },
+  });
+  summary.dead += abandoned.count;
+
+  const expired = await prisma.outboundMessage.updateMany({
+    where: { status: 'QUEUED', expiresAt: { lte: now } },
+    data: { status: 'CANCELLED', lastError: 'EXPIRED' },
+  });
+  summary.cancelled += expired.count;
+
+  const due = await prisma.outboundMessage.findMany({
+    where: { status: 'QUEUED', sendAfter: { lte: now } },
+    orderBy: { sendAfter: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  // Numbers found at their limit; the rest of this run skips them
+  const throttled = new Set<string>();
+
+  for (const message of due) {
+    try {
+      await deliver(message, now, throttled, summary);
+    } catch (error) {
+      console.error('[OutboundQueue] Dispatch failed', { id: message.id, error });
+    }
+  }
+
+  if (abandoned.count > 0) {
+    metrics.increment(MetricSmsOutboundDead, { reason: 'abandoned' }, abandoned.count);
+    console.error('[OutboundQueue] Abandoned sends dead-lettered', { count: abandoned.count });
+  }
+  if (due.length > 0 || expired.count > 0) {
+    console.log('[OutboundQueue] Dispatch complete', summary);
+  }
+  return summary;
+}
+
+/**
+ * Claim a QUEUED message for sending, so it is only ever handed to Twilio by
+ * one replica. Counting the number's recent sends and claiming happen under
+ * a per-number lock, with claimed-but-unsent (SENDING) rows counted, so
+ * replicas dispatching at once can't each fill the limit.
+ */
+async function claimUnderThrottle(
+  message: OutboundMessage,
+  now: Date
+): Promise<'CLAIMED' | 'TAKEN' | 'THROTTLED'> {
+  return prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`outbound:${message.from}`}))`;
+
+    const recent = await tx.outboundMessage.count({
+      where: {
+        from: message.from,
+        OR: [
+          { status: 'SENT', sentAt: { gt: new Date(now.getTime() - THROTTLE_WINDOW_MS) } },
+          { status: 'SENDING', lockedUntil: { gt: now } },
+        ],
+      },
+    });
+    if (recent >= getThrottleLimit()) return 'THROTTLED';
+
+    const { count } = await tx.outboundMessage.updateMany({
+      where: { id: message.id, status: 'QUEUED' },
+      data: {
+        status: 'SENDING',
+        lockedUntil: new Date(now.getTime() + SEND_LOCK_MS),
+        attempts: { increment: 1 },
+      },
+    });
+    return count === 0 ? 'TAKEN' : 'CLAIMED';
+  });
+}
+
+/**
+ * One delivery attempt for a QUEUED message
+ */
+async function deliver(
+  message: OutboundMessage,
+  now: Date,
+  throttled: Set<string>,
+  summary: DispatchSummary
+): Promise<void> {
+  if (message.expiresAt && message.expiresAt <= now) {
+    await prisma.outboundMessage.update({
+      where: { id: message.id },
+      data: { status: 'CANCELLED', lastError: 'EXPIRED' },
+    });
+    summary.cancelled++;
+    return;
+  }
+
+  // Retries can back off into quiet hours, and business hours can change
+  if (message.respectQuietHours) {
+    const sendable = await sendableTimeFor(message.clientId, now);
+    if (sendable > now) {
+      await prisma.outboundMessage.update({ where: { id: message.id }, data: { sendAfter: sendable } });
+      summary.deferred++;
+      return;
+    }
+  }
+
+  if (message.clientId) {
+    const consent = await checkRecipientConsent(message.clientId, message.to, message.source);
+    if (!consent.allowed) {
+      await prisma.outboundMessage.update({
+        where: { id: message.id },
+        data: { status: 'CANCELLED', lastError: consent.reason || 'Recipient has opted out' },
+      });
+      summary.cancelled++;
+      return;
+    }
+  }
+
+  const claim = throttled.has(message.from) ? 'THROTTLED' : await claimUnderThrottle(message, now);
+  if (claim === 'THROTTLED') {
+    throttled.add(message.from);
+    metrics.increment(MetricSmsOutboundThrottled);
+    summary.throttled++;
+    return;
+  }
+  if (claim === 'TAKEN') return;
+
+  const attempt = message.attempts + 1;
+
+  let twilioSid: string;
+  try {
+    twilioSid = await sendSMS(message.to, message.from, message.body, { retries: 1, correlationId: message.id });
+  } catch (error) {
+    await recordFailure(message, attempt, error, now, summary);
+    return;
+  }
+
+  await prisma.outboundMessage.update({
+    where: { id: message.id },
+    data: { status: 'SENT', sentAt: now, twilioSid, lockedUntil: null, lastError: null, lastErrorCode: null },
+  });
+  metrics.increment(MetricSmsOutboundSent, { source: message.source });
+  summary.sent++;
+
+  if (message.conversationId && message.clientId && message.customerId) {
+    try {
+      await addMessage({
+        conversationId: message.conversationId,
+        clientId: message.clientId,
+        customerId: message.customerId,
+        direction: 'OUTBOUND',
+        type: 'SMS',
+        body: message.body,
+        twilioSid,
+        metadata: { ...((message.metadata as Record<string, unknown> | null) ?? {}), source: message.source },
+      });
+    } catch (error) {
+      // The text went out; a missing timeline entry mustn't make us resend it
+      console.error('[OutboundQueue] Sent but failed to record message', { id: message.id, error });
+    }
+  }
+}
+
+async function recordFailure(
+  message: OutboundMessage,
+  attempt: number,
+  error: unknown,
+  now: Date,
+  summary: DispatchSummary
+): Promise<void> {
+  const errorCode = (error as { code?: string | number })?.code;
+  const lastErrorCode = errorCode !== undefined ? String(errorCode) : null;
+  const lastError = error instanceof Error ? error.message : String(error);
+  const permanent = lastErrorCode !== null && PERMANENT_ERROR_CODES.has(lastErrorCode);
+
+  if (permanent || attempt >= message.maxAttempts) {
+    await prisma.outboundMessage.update({
+      where: { id: message.id },
+      data: { status: 'DEAD', lockedUntil: null, lastError, lastErrorCode },
+    });
+    metrics.increment(MetricSmsOutboundDead, { reason: permanent ? 'rejected' : 'retries_exhausted' });
+    console.error('[OutboundQueue] Message dead-lettered', { id: message.id, attempt, lastErrorCode, lastError });
+    summary.dead++;
+    return;
+  }
+
+  // 1, 2, 4, 8... minutes, capped at an hour
+  const delayMs = Math.min(RETRY_BASE_MS * Math.pow(2, attempt - 1), RETRY_MAX_MS);
+  await prisma.outboundMessage.update({
+    where: { id: message.id },
+    data: {
+      status: 'QUEUED',
+      lockedUntil: null,
+      sendAfter: new Date(now.getTime() + delayMs),
+      lastError,
+      lastErrorCode,
+    },
+  });
+  metrics.increment(MetricSmsOutboundRetry);
+  console.warn('[OutboundQueue] Send failed, will retry', { id: message.id, attempt, delayMs, lastErrorCode });
+  summary.retried++;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  ADMIN (routes/admin.ts)
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export async function getQueueOverview(now: Date = new Date()): Promise<QueueOverview> {
+  const overdueBefore = new Date(now.getTime() - STUCK_AFTER_MS);
+
+  const [grouped, overdue, oldestOverdue, stuckSending] = await Promise.all([
+    prisma.outboundMessage.groupBy({ by: ['status'], _count: { _all: true } }),
+    prisma.outboundMessage.count({ where: { status: 'QUEUED', sendAfter: { lt: overdueBefore } } }),
+    prisma.outboundMessage.findFirst({
+      where: { status: 'QUEUED', sendAfter: { lt: overdueBefore } },
+      orderBy: { sendAfter: 'asc' },
+      select: { sendAfter: true },
+    }),
+    prisma.outboundMessage.count({ where: { status: 'SENDING', lockedUntil: { lt: now } } }),
+  ]);
+
+  const counts = Object.fromEntries(
+    Object.values(OutboundMessageStatus).map((status) => [status, 0])
+  ) as Record<OutboundMessageStatus, number>;
+  for (const row of grouped) {
+    counts[row.status] = row._count._all;
+  }
+
+  return { counts, overdue, oldestOverdueAt: oldestOverdue?.sendAfter ?? null, stuckSending };
+}
+
+export async function listOutboundMessages(filter: {
+  status?: OutboundMessageStatus;
+  clientId?: string;
+  // Overdue QUEUED and abandoned SENDING messages only
+  stuck?: boolean;
+  limit?: number;
+}, now: Date = new Date()): Promise<OutboundMessage[]> {
+  const where: Prisma.OutboundMessageWhereInput = {
+    ...(filter.status && { status: filter.status }),
+    ...(filter.clientId && { clientId: filter.clientId }),
+    ...(filter.stuck && {
+      OR: [
+        { status: 'QUEUED', sendAfter: { lt: new Date(now.getTime() - STUCK_AFTER_MS) } },
+        { status: 'SENDING', lockedUntil: { lt: now } },
+      ],
+    }),
+  };
+
+  return prisma.outboundMessage.findMany({
+    where,
+    orderBy: { createdAt: 'desc' },
+    take: filter.limit ?? 50,
+  });
+}
+
+/**
+ * Requeue a dead-lettered or cancelled message for immediate sending
+ * (quiet hours still apply). Attempts start again from zero.
+ */
+export async function retryOutboundMessage(id: string, now: Date = new Date()): Promise<OutboundAdminResult> {
+  const message = await prisma.outboundMessage.findUnique({ where: { id } });
+  if (!message) return { success: false, reason: 'NOT_FOUND' };
+
+  const { count } = await prisma.outboundMessage.updateMany({
+    where: { id, status: { in: ['DEAD', 'CANCELLED'] } },
+    data: { status: 'QUEUED', attempts: 0, sendAfter: now, expiresAt: null, lockedUntil: null },
+  });
+  if (count === 0) return { success: false, reason: 'INVALID_STATUS' };
+
+  return { success: true, message: await prisma.outboundMessage.findUniqueOrThrow({ where: { id } }) };
+}
+
+export async function cancelOutboundMessage(id: string): Promise<OutboundAdminResult> {
+  const message = await prisma.outboundMessage.findUnique({ where: { id } });
+  if (!message) return { success: false, reason: 'NOT_FOUND' };
+
+  const { count } = await prisma.outboundMessage.updateMany({
+    where: { id, status: 'QUEUED' },
+    data: { status: 'CANCELLED', lastError: 'Cancelled by admin' },
+  });
+  if (count === 0) return { success: false, reason: 'INVALID_STATUS' };
+
+  return { success: true, message: await prisma.outboundMessage.findUniqueOrThrow({ where: { id } }) };
+}
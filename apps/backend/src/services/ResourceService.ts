@@ -0,0 +1,323 @@
+/**
+ * Resources - technicians, vans and the jobs assigned to them
+ *
+ * RULES:
+ * - A client without active resources is scheduled as one calendar, as before
+ * - A resource works its own weekly hours, or the business's opening hours
+ *   when it has none; business-wide blocked time applies to every resource
+ * - Skill tags are lower-case; a job needing skills only goes to resources
+ *   that have all of them (SlotFinder)
+ * - A booking is assigned to at most one resource. Deleting a resource
+ *   leaves its bookings unassigned; deactivate it to keep the history
+ */
+
+import { BlockedTime, Resource, ResourceKind, WeeklyAvailability } from '@prisma/client';
+import { prisma } from '../db';
+import { AvailabilityRange } from '../lib/calendar/AvailabilityEngine';
+import { BlockedTimeEngine } from '../lib/calendar/BlockedTimeEngine';
+import { OverlapEngine, OverlappingBooking } from '../lib/calendar/OverlapEngine';
+import { RecurrenceEngine } from '../lib/calendar/RecurrenceEngine';
+import { ZonedTime } from '../lib/calendar/ZonedTime';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const RESOURCE_KINDS: ResourceKind[] = ['STAFF', 'VEHICLE'];
+
+export type ResourceFailureReason = 'NOT_FOUND' | 'BOOKING_NOT_FOUND';
+
+export type ResourceResult<T> = ({ success: true } & T) | { success: false; reason: ResourceFailureReason };
+
+export interface ResourceInput {
+  name: string;
+  kind?: ResourceKind;
+  skills?: string[];
+  active?: boolean;
+}
+
+export interface ResourceBlockInput {
+  /** Calendar day in the client's zone ("YYYY-MM-DD") */
+  date: string;
+  /** "HH:MM"; omit both for the whole day */
+  start?: string;
+  end?: string;
+  reason?: string;
+}
+
+export function isResourceKind(value: unknown): value is ResourceKind {
+  return typeof value === 'string' && RESOURCE_KINDS.includes(value as ResourceKind);
+}
+
+export function normalizeSkills(skills: string[]): string[] {
+  return Array.from(new Set(skills.map((skill) => skill.trim().toLowerCase()).filter(Boolean)));
+}
+
+function toResourceSummary(resource: Resource & { availability: WeeklyAvailability[] }) {
+  return {
+    id: resource.id,
+    name: resource.name,
+    kind: resource.kind,
+    skills: resource.skills,
+    active: resource.active,
+    // Empty: works the business's opening hours
+    hours: resource.availability.map((rule) => ({
+      weekday: rule.weekday,
+      startTime: rule.startTime,
+      endTime: rule.endTime,
+    })),
+    createdAt: resource.createdAt,
+  };
+}
+
+export type ResourceSummary = ReturnType<typeof toResourceSummary>;
+
+const WITH_HOURS = {
+  availability: { orderBy: [{ weekday: 'asc' as const }, { startTime: 'asc' as const }] },
+};
+
+async function findResource(clientId: string, resourceId: string): Promise<Resource | null> {
+  return prisma.resource.findFirst({ where: { id: resourceId, clientId } });
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  RESOURCES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export async function listResources(clientId: string): Promise<ResourceSummary[]> {
+  const resources = await prisma.resource.findMany({
+    where: { clientId },
+    include: WITH_HOURS,
+    orderBy: [{ active: 'desc' }, { name: 'asc' }],
+  });
+  return resources.map(toResourceSummary);
+}
+
+export async function createResource(clientId: string, input: ResourceInput): Promise<ResourceSummary> {
+  const resource = await prisma.resource.create({
+    data: {
+      clientId,
+      name: input.name.trim(),
+      kind: input.kind ?? 'STAFF',
+      skills: normalizeSkills(input.skills ?? []),
+      active: input.active ?? true,
+    },
+    include: WITH_HOURS,
+  });
+
+  console.log('[Resources] Resource created', { clientId, resourceId: resource.id, kind: resource.kind });
+  return toResourceSummary(resource);
+}
+
+export async function updateResource(
+  clientId: string,
+  resourceId: string,
+  input: Partial<ResourceInput>
+): Promise<ResourceResult<{ resource: ResourceSummary }>> {
+  if (!(await findResource(clientId, resourceId))) {
+    return { success: false, reason: 'NOT_FOUND' };
+  }
+
+  const resource = await prisma.resource.update({
+    where: { id: resourceId },
+    data: {
+      name: input.name?.trim(),
+      kind: input.kind,
+      skills: input.skills ? normalizeSkills(input.skills) : undefined,
+      active: input.active,
+    },
+    include: WITH_HOURS,
+  });
+
+  return { success: true, resource: toResourceSummary(resource) };
+}
+
+export async function deleteResource(clientId: string, resourceId: string): Promise<ResourceResult<{}>> {
+  const { count } = await prisma.resource.deleteMany({ where: { id: resourceId, clientId } });
+  if (count === 0) {
+    return { success: false, reason: 'NOT_FOUND' };
+  }
+
+  console.log('[Resources] Resource deleted', { clientId, resourceId });
+  return { success: true };
+}
+
+/**
+ * Replaces the resource's weekly hours; an empty list puts it back on the
+ * business's opening hours
+ */
+export async function setResourceHours(
+  clientId: string,
+  resourceId: string,
+  hours: AvailabilityRange[]
+): Promise<ResourceResult<{ resource: ResourceSummary }>> {
+  if (!(await findResource(clientId, resourceId))) {
+    return { success: false, reason: 'NOT_FOUND' };
+  }
+
+  await prisma.$transaction([
+    prisma.weeklyAvailability.deleteMany({ where: { clientId, resourceId } }),
+    prisma.weeklyAvailability.createMany({
+      data: hours.map((range) => ({ clientId, resourceId, ...range })),
+    }),
+  ]);
+
+  const resource = await prisma.resource.findUniqueOrThrow({ where: { id: resourceId }, include: WITH_HOURS });
+  return { success: true, resource: toResourceSummary(resource) };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  TIME OFF
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export async function addResourceBlock(
+  clientId: string,
+  resourceId: string,
+  input: ResourceBlockInput
+): Promise<ResourceResult<{ blockedTime: BlockedTime }>> {
+  if (!(await findResource(clientId, resourceId))) {
+    return { success: false, reason: 'NOT_FOUND' };
+  }
+
+  const blockedTime = await BlockedTimeEngine.createBlockedTime(
+    clientId,
+    input.date,
+    input.start,
+    input.end,
+    input.reason,
+    undefined,
+    resourceId
+  );
+
+  return { success: true, blockedTime };
+}
+
+export async function removeResourceBlock(
+  clientId: string,
+  resourceId: string,
+  blockedTimeId: string
+): Promise<ResourceResult<{}>> {
+  const { count } = await prisma.blockedTime.deleteMany({ where: { id: blockedTimeId, clientId, resourceId } });
+  if (count === 0) {
+    return { success: false, reason: 'NOT_FOUND' };
+  }
+  return { success: true };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  ASSIGNMENT & DAY VIEW
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Assigns a booking (every occurrence of a series) to a resource, or
+ * unassigns it with null. Clashes on the resource's calendar are returned
+ * for the dispatcher to see, not refused.
+ */
+export async function assignBooking(
+  clientId: string,
+  bookingId: string,
+  resourceId: string | null
+): Promise<ResourceResult<{ bookingId: string; resourceId: string | null; overlaps: OverlappingBooking[] }>> {
+  const booking = await prisma.booking.findFirst({ where: { id: bookingId, clientId } });
+  if (!booking) {
+    return { success: false, reason: 'BOOKING_NOT_FOUND' };
+  }
+
+  if (resourceId && !(await findResource(clientId, resourceId))) {
+    return { success: false, reason: 'NOT_FOUND' };
+  }
+
+  await prisma.booking.update({ where: { id: bookingId }, data: { resourceId } });
+
+  const overlaps = resourceId
+    ? await OverlapEngine.findOverlaps(clientId, booking.start, booking.end, bookingId, resourceId)
+    : [];
+
+  console.log('[Resources] Booking assigned', { clientId, bookingId, resourceId });
+  return { success: true, bookingId, resourceId, overlaps };
+}
+
+/**
+ * One day of the schedule, column per active resource: working hours,
+ * time off and booking occurrences. Bookings without an active resource
+ * are listed as unassigned.
+ */
+export async function getDaySchedule(clientId: string, date: string) {
+  const timeZone = await ZonedTime.forClient(clientId);
+  const dayStart = ZonedTime.startOfDay(date, timeZone);
+  const dayEnd = ZonedTime.startOfDay(ZonedTime.addDays(date, 1), timeZone);
+  const weekday = ZonedTime.weekdayOf(date);
+
+  const [resources, hours, blockedTimes, bookings] = await Promise.all([
+    prisma.resource.findMany({ where: { clientId, active: true }, orderBy: { name: 'asc' } }),
+    prisma.weeklyAvailability.findMany({ where: { clientId }, orderBy: { startTime: 'asc' } }),
+    prisma.blockedTime.findMany({
+      where: {
+        clientId,
+        date: { gte: ZonedTime.toStorageDate(date), lt: ZonedTime.toStorageDate(ZonedTime.addDays(date, 1)) },
+      },
+    }),
+    prisma.booking.findMany({
+      where: {
+        clientId,
+        status: { not: 'CANCELLED' },
+        OR: [
+          { start: { gte: dayStart, lt: dayEnd } },
+          { recurrenceRuleId: { not: null }, start: { lt: dayEnd } },
+        ],
+      },
+      include: { recurrenceRule: { include: { overrides: true } } },
+    }),
+  ]);
+
+  const occurrences = bookings.flatMap((booking) =>
+    RecurrenceEngine.expandBooking(booking, dayStart, dayEnd, timeZone)
+      .filter((occurrence) => occurrence.status !== 'CANCELLED')
+      .map((occurrence) => ({
+        id: booking.id,
+        resourceId: booking.resourceId,
+        start: occurrence.start,
+        end: occurrence.end,
+        customerName: booking.customerName,
+        customerPhone: booking.customerPhone,
+        status: occurrence.status || booking.status,
+        notes: occurrence.notes ?? booking.notes,
+        isRecurring: occurrence.isRecurring,
+        originalStart: occurrence.originalStart,
+      }))
+  );
+  occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  // A resource with hours of its own is off on days they don't cover
+  const windowsFor = (rules: WeeklyAvailability[]) =>
+    rules.filter((rule) => rule.weekday === weekday).map((rule) => ({ start: rule.startTime, end: rule.endTime }));
+  const businessHours = hours.filter((rule) => !rule.resourceId);
+  const resourceIds = new Set(resources.map((resource) => resource.id));
+
+  return {
+    date,
+    timeZone,
+    resources: resources.map((resource) => {
+      const ownHours = hours.filter((rule) => rule.resourceId === resource.id);
+
+      return {
+        id: resource.id,
+        name: resource.name,
+        kind: resource.kind,
+        skills: resource.skills,
+        hours: windowsFor(ownHours.length > 0 ? ownHours : businessHours),
+        blocked: blockedTimes
+          .filter((block) => !block.resourceId || block.resourceId === resource.id)
+          .map((block) => ({
+            id: block.id,
+            start: block.start,
+            end: block.end,
+            reason: block.reason,
+            businessWide: !block.resourceId,
+          })),
+        bookings: occurrences.filter((occurrence) => occurrence.resourceId === resource.id),
+      };
+    }),
+    unassigned: occurrences.filter(
+      (occurrence) => !occurrence.resourceId || !resourceIds.has(occurrence.resourceId)
+    ),
+  };
+}
@@ -1,23 +1,22 @@
 import { checkRuntimeInvariants, formatViolationsForLog } from './HealthCheck';
-import { StuckClientDetector } from './StuckClientDetector';
 import { AlertService, AlertTemplates } from './AlertService';
 
 /**
  * Runtime Invariant Monitor
  *
- * Production-only background monitor that validates bootstrap invariants
- * every 5 minutes. Logs violations but does NOT crash the app.
+ * Production-only check that validates bootstrap invariants.
+ * Logs violations but does NOT crash the app.
+ *
+ * Scheduled every 5 minutes by the job scheduler (jobs/definitions.ts).
+ * Stuck client detection runs as its own job.
  *
  * Purpose: Detect runtime drift within 5 minutes of occurrence.
  */
 
-const MONITOR_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
-let monitorInterval: NodeJS.Timeout | null = null;
-
 /**
  * Run a single invariant check and log results
  */
-async function runInvariantCheck(): Promise<void> {
+export async function runInvariantCheck(): Promise<{ healthy: boolean; violations: number } | { skipped: string }> {
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
   // 🚨 PRODUCTION HOTFIX: Hard disable for runtime invariant alerts
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -27,7 +26,7 @@ async function runInvariantCheck(): Promise<void> {
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
   if (process.env.DISABLE_RUNTIME_INVARIANTS === "true") {
     console.warn("🚨 RUNTIME INVARIANTS DISABLED (production hotfix)");
-    return;
+    return { skipped: "DISABLE_RUNTIME_INVARIANTS" };
   }
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
@@ -57,12 +56,7 @@ async function runInvariantCheck(): Promise<void> {
     console.log(`✅ Runtime invariant check passed at ${result.timestamp}`);
   }
 
-  // Check 2: Stuck client detection (production hardening)
-  try {
-    await StuckClientDetector.detectAndLog();
-  } catch (error) {
-    console.error('❌ Stuck client detection failed:', error);
-  }
+  return { healthy: result.healthy, violations: result.violations.length };
 }
 
 /**
@@ -74,44 +68,3 @@ function emitAlert(violations: any[]): void {
   console.error(`   Violation count: ${violations.length}`);
   console.error('   Integrate external alerting here (PagerDuty, Slack, etc)');
 }
-
-/**
- * Start the runtime monitor (production only)
- */
-export function startRuntimeMonitor(): void {
-  const isProd = process.env.NODE_ENV === 'production';
-
-  if (!isProd) {
-    console.log('⏸️  Runtime monitor disabled (not production)');
-    return;
-  }
-
-  console.log('🔍 Starting runtime invariant monitor...');
-  console.log(`   Check interval: ${MONITOR_INTERVAL_MS / 1000 / 60} minutes`);
-  console.log('🚨 Runtime invariant monitoring:', process.env.DISABLE_RUNTIME_INVARIANTS === "true" ? "DISABLED" : "ENABLED");
-
-  // Run first check immediately
-  runInvariantCheck().catch((error) => {
-    console.error('Runtime monitor check failed:', error);
-  });
-
-  // Schedule recurring checks
-  monitorInterval = setInterval(() => {
-    runInvariantCheck().catch((error) => {
-      console.error('Runtime monitor check failed:', error);
-    });
-  }, MONITOR_INTERVAL_MS);
-
-  console.log('✅ Runtime invariant monitor started');
-}
-
-/**
- * Stop the runtime monitor (for graceful shutdown)
- */
-export function stopRuntimeMonitor(): void {
-  if (monitorInterval) {
-    clearInterval(monitorInterval);
-    monitorInterval = null;
-    console.log('⏸️  Runtime monitor stopped');
-  }
-}
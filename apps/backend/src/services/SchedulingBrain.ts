@@ -8,6 +8,7 @@ import { DateParser } from './DateParser';
 import { TimeParser, TimeWindow } from './TimeParser';
 import { UrgencyClassifier } from './UrgencyClassifier';
 import { SlotFinder } from './SlotFinder';
+import { ZonedTime } from '../lib/calendar/ZonedTime';
 import { ConversationMemory } from './ConversationMemory';
 import { MessageTemplates } from './MessageTemplates';
 import { SafetyFilter } from './SafetyFilter';
@@ -21,6 +22,8 @@ export interface SchedulingRequest {
   conversationId: string;
   clientId: string;
   defaultDurationMinutes?: number;
+  /** Job address or postcode, for travel time between jobs */
+  location?: string;
 }
 
 export interface SchedulingResponse {
@@ -36,7 +39,18 @@ export class SchedulingBrain {
    * PHASE 11A: Added handover detection and escalation
    */
   static async process(request: SchedulingRequest): Promise<SchedulingResponse> {
-    const { message, conversationId, clientId, defaultDurationMinutes = 60 } = request;
+    // Memory may have been written by another replica or before a restart
+    await ConversationMemory.load(request.conversationId);
+
+    try {
+      return await this.handleMessage(request);
+    } finally {
+      await ConversationMemory.flush(request.conversationId);
+    }
+  }
+
+  private static async handleMessage(request: SchedulingRequest): Promise<SchedulingResponse> {
+    const { message, conversationId, clientId, defaultDurationMinutes = 60, location } = request;
 
     // ═══════════════════════════════════════════════════════════════
     // PHASE 11A: CHECK IF IN ACTIVE HANDOVER (FIRST - BEFORE ANYTHING)
@@ -187,12 +201,15 @@ export class SchedulingBrain {
       };
     }
 
+    // Slots are found and described in the client's local time
+    const timeZone = await ZonedTime.forClient(clientId);
+
     // ═══════════════════════════════════════════════════════════════
     // STEP 6: CHECK FOR CONFIRMATION
     // ═══════════════════════════════════════════════════════════════
     if (this.isConfirmation(message)) {
       if (state.lastProposedSlot) {
-        const reply = MessageTemplates.confirmBooking(state.lastProposedSlot);
+        const reply = MessageTemplates.confirmBooking(state.lastProposedSlot, undefined, timeZone);
         AdminLogger.log('booking_success', conversationId, clientId, {
           slot: state.lastProposedSlot,
         });
@@ -217,8 +234,10 @@ export class SchedulingBrain {
             clientId,
             state.lastProposedSlot,
             defaultDurationMinutes,
+            timeZone,
             preferredDate || undefined,
-            timeWindow || undefined
+            timeWindow || undefined,
+            location
           );
 
           if (nextSlot) {
@@ -226,7 +245,7 @@ export class SchedulingBrain {
             AdminLogger.log('slot_chosen', conversationId, clientId, { slot: nextSlot });
 
             return {
-              reply: MessageTemplates.nextSlot(nextSlot),
+              reply: MessageTemplates.nextSlot(nextSlot, timeZone),
               proposedSlot: nextSlot,
               shouldBook: false,
             };
@@ -308,13 +327,20 @@ export class SchedulingBrain {
       if (isUrgent) {
         pathChosen = 'urgent';
         AdminLogger.log('path_chosen', conversationId, clientId, { path: pathChosen });
-        return await this.handleUrgentRequest(clientId, conversationId, defaultDurationMinutes);
+        return await this.handleUrgentRequest(clientId, conversationId, defaultDurationMinutes, timeZone, location);
       }
 
       if (preferredDate && !timeWindow) {
         pathChosen = 'date_only';
         AdminLogger.log('path_chosen', conversationId, clientId, { path: pathChosen });
-        return await this.handleDateOnly(clientId, conversationId, preferredDate, defaultDurationMinutes);
+        return await this.handleDateOnly(
+          clientId,
+          conversationId,
+          preferredDate,
+          defaultDurationMinutes,
+          timeZone,
+          location
+        );
       }
 
       if (timeWindow && !preferredDate) {
@@ -331,7 +357,9 @@ export class SchedulingBrain {
           conversationId,
           preferredDate,
           timeWindow,
-          defaultDurationMinutes
+          defaultDurationMinutes,
+          timeZone,
+          location
         );
       }
 
@@ -339,7 +367,7 @@ export class SchedulingBrain {
       if (!state.lastProposedSlot) {
         pathChosen = 'initial_request';
         AdminLogger.log('path_chosen', conversationId, clientId, { path: pathChosen });
-        return await this.handleInitialRequest(clientId, conversationId, defaultDurationMinutes);
+        return await this.handleInitialRequest(clientId, conversationId, defaultDurationMinutes, timeZone, location);
       }
 
       // Default fallback
@@ -388,7 +416,9 @@ export class SchedulingBrain {
   private static async handleUrgentRequest(
     clientId: string,
     conversationId: string,
-    durationMinutes: number
+    durationMinutes: number,
+    timeZone: string,
+    location?: string
   ): Promise<SchedulingResponse> {
     try {
       const today = new Date();
@@ -398,6 +428,8 @@ export class SchedulingBrain {
         preferredDate: today,
         durationMinutes,
         searchDaysAhead: 1,
+        timeZone,
+        location,
       });
 
       if (slot) {
@@ -405,21 +437,22 @@ export class SchedulingBrain {
         AdminLogger.log('slot_chosen', conversationId, clientId, { slot, urgency: 'high' });
 
         return {
-          reply: MessageTemplates.urgentSlot(slot),
+          reply: MessageTemplates.urgentSlot(slot, timeZone),
           proposedSlot: slot,
           shouldBook: false,
         };
       }
 
-      // Try tomorrow
-      const tomorrow = new Date(today);
-      tomorrow.setDate(tomorrow.getDate() + 1);
+      // Try tomorrow (the client's tomorrow)
+      const tomorrow = ZonedTime.startOfDay(ZonedTime.addDays(ZonedTime.dateKey(today, timeZone), 1), timeZone);
 
       const nextSlot = await SlotFinder.findEarliestSlot({
         clientId,
         preferredDate: tomorrow,
         durationMinutes,
         searchDaysAhead: 1,
+        timeZone,
+        location,
       });
 
       if (nextSlot) {
@@ -427,7 +460,7 @@ export class SchedulingBrain {
         AdminLogger.log('slot_chosen', conversationId, clientId, { slot: nextSlot, urgency: 'high' });
 
         return {
-          reply: MessageTemplates.urgentSlot(nextSlot),
+          reply: MessageTemplates.urgentSlot(nextSlot, timeZone),
           proposedSlot: nextSlot,
           shouldBook: false,
         };
@@ -459,13 +492,15 @@ export class SchedulingBrain {
     clientId: string,
     conversationId: string,
     date: Date,
-    durationMinutes: number
+    durationMinutes: number,
+    timeZone: string,
+    location?: string
   ): Promise<SchedulingResponse> {
     try {
-      const isClosed = await SlotFinder.isDayClosed(clientId, date);
+      const isClosed = await SlotFinder.isDayClosed(clientId, date, timeZone);
 
       if (isClosed) {
-        const nextOpenDay = await SlotFinder.findNextOpenDay(clientId, date);
+        const nextOpenDay = await SlotFinder.findNextOpenDay(clientId, date, timeZone);
 
         if (nextOpenDay) {
           const slot = await SlotFinder.findEarliestSlot({
@@ -473,6 +508,8 @@ export class SchedulingBrain {
             preferredDate: nextOpenDay,
             durationMinutes,
             searchDaysAhead: 1,
+            timeZone,
+            location,
           });
 
           if (slot) {
@@ -480,7 +517,7 @@ export class SchedulingBrain {
             AdminLogger.log('slot_chosen', conversationId, clientId, { slot, reason: 'closed_day' });
 
             return {
-              reply: MessageTemplates.closedDay(date, slot),
+              reply: MessageTemplates.closedDay(date, slot, timeZone),
               proposedSlot: slot,
               shouldBook: false,
             };
@@ -499,6 +536,8 @@ export class SchedulingBrain {
         preferredDate: date,
         durationMinutes,
         searchDaysAhead: 1,
+        timeZone,
+        location,
       });
 
       if (slot) {
@@ -506,21 +545,21 @@ export class SchedulingBrain {
         AdminLogger.log('slot_chosen', conversationId, clientId, { slot });
 
         return {
-          reply: MessageTemplates.offerSlot(slot),
+          reply: MessageTemplates.offerSlot(slot, timeZone),
           proposedSlot: slot,
           shouldBook: false,
         };
       }
 
       // Day is fully booked
-      const nextSlot = await this.findNextSlot(clientId, date, durationMinutes);
+      const nextSlot = await this.findNextSlot(clientId, date, durationMinutes, timeZone, undefined, undefined, location);
 
       if (nextSlot) {
         ConversationMemory.proposeSlot(conversationId, nextSlot);
         AdminLogger.log('slot_chosen', conversationId, clientId, { slot: nextSlot, reason: 'fully_booked' });
 
         return {
-          reply: MessageTemplates.fullyBooked(date, nextSlot),
+          reply: MessageTemplates.fullyBooked(date, nextSlot, timeZone),
           proposedSlot: nextSlot,
           shouldBook: false,
         };
@@ -572,7 +611,9 @@ export class SchedulingBrain {
     conversationId: string,
     date: Date,
     timeWindow: TimeWindow,
-    durationMinutes: number
+    durationMinutes: number,
+    timeZone: string,
+    location?: string
   ): Promise<SchedulingResponse> {
     try {
       const slot = await SlotFinder.findEarliestSlot({
@@ -581,6 +622,8 @@ export class SchedulingBrain {
         timeWindow,
         durationMinutes,
         searchDaysAhead: 1,
+        timeZone,
+        location,
       });
 
       if (slot) {
@@ -588,14 +631,14 @@ export class SchedulingBrain {
         AdminLogger.log('slot_chosen', conversationId, clientId, { slot });
 
         return {
-          reply: MessageTemplates.offerSlot(slot),
+          reply: MessageTemplates.offerSlot(slot, timeZone),
           proposedSlot: slot,
           shouldBook: false,
         };
       }
 
       // No slot in that window
-      const nextSlot = await this.findNextSlot(clientId, date, durationMinutes);
+      const nextSlot = await this.findNextSlot(clientId, date, durationMinutes, timeZone, undefined, undefined, location);
 
       if (nextSlot) {
         ConversationMemory.proposeSlot(conversationId, nextSlot);
@@ -605,7 +648,7 @@ export class SchedulingBrain {
         });
 
         return {
-          reply: `I don't have availability in that time window, but ${MessageTemplates.nextSlot(nextSlot)}`,
+          reply: `I don't have availability in that time window, but ${MessageTemplates.nextSlot(nextSlot, timeZone)}`,
           proposedSlot: nextSlot,
           shouldBook: false,
         };
@@ -636,13 +679,17 @@ export class SchedulingBrain {
   private static async handleInitialRequest(
     clientId: string,
     conversationId: string,
-    durationMinutes: number
+    durationMinutes: number,
+    timeZone: string,
+    location?: string
   ): Promise<SchedulingResponse> {
     try {
       const slot = await SlotFinder.findEarliestSlot({
         clientId,
         durationMinutes,
         searchDaysAhead: 14,
+        timeZone,
+        location,
       });
 
       if (slot) {
@@ -650,7 +697,7 @@ export class SchedulingBrain {
         AdminLogger.log('slot_chosen', conversationId, clientId, { slot, reason: 'initial_request' });
 
         return {
-          reply: MessageTemplates.offerSlot(slot),
+          reply: MessageTemplates.offerSlot(slot, timeZone),
           proposedSlot: slot,
           shouldBook: false,
         };
@@ -682,8 +729,10 @@ export class SchedulingBrain {
     clientId: string,
     afterDate: Date,
     durationMinutes: number,
+    timeZone: string,
     preferredDate?: Date,
-    timeWindow?: TimeWindow
+    timeWindow?: TimeWindow,
+    location?: string
   ): Promise<Date | null> {
     const startDate = new Date(afterDate);
     startDate.setMinutes(startDate.getMinutes() + 15);
@@ -694,6 +743,8 @@ export class SchedulingBrain {
       timeWindow,
       durationMinutes,
       searchDaysAhead: 14,
+      timeZone,
+      location,
     });
   }
 
@@ -7,6 +7,7 @@
 
 import { prisma } from '../db';
 import { SchedulingBrain, SchedulingRequest, SchedulingResponse } from './SchedulingBrain';
+import { SlotFinder } from './SlotFinder';
 import { AdminLogger } from './AdminLogger';
 import { MessageTemplates } from './MessageTemplates';
 import { HandoverManager } from './HandoverManager';
@@ -18,6 +19,8 @@ export interface HandleSchedulingRequest {
   clientId: string;
   customerPhone?: string;
   customerName?: string;
+  /** Job address or postcode; defaults to the customer's lead location */
+  location?: string;
 }
 
 export interface HandleSchedulingResponse {
@@ -39,12 +42,15 @@ export class SchedulingHandler {
     const defaultDurationMinutes = 60; // TODO: Get from client settings
 
     try {
+      const location = request.location || (await this.findLeadLocation(clientId, customerPhone));
+
       // Process through AI brain (safety checks happen inside)
       const schedulingRequest: SchedulingRequest = {
         message,
         conversationId,
         clientId,
         defaultDurationMinutes,
+        location,
       };
 
       const aiResponse: SchedulingResponse = await SchedulingBrain.process(schedulingRequest);
@@ -64,6 +70,7 @@ export class SchedulingHandler {
             customerName,
             start: aiResponse.proposedSlot,
             durationMinutes: defaultDurationMinutes,
+            location,
           });
 
           bookingCreated = true;
@@ -139,8 +146,9 @@ export class SchedulingHandler {
     customerName?: string;
     start: Date;
     durationMinutes: number;
+    location?: string;
   }): Promise<any> {
-    const { clientId, customerPhone, customerName, start, durationMinutes } = params;
+    const { clientId, customerPhone, customerName, start, durationMinutes, location } = params;
 
     const end = new Date(start.getTime() + durationMinutes * 60000);
 
@@ -169,15 +177,20 @@ export class SchedulingHandler {
       customerId = customer.id;
     }
 
+    // Goes to a free technician/van when the client has resources
+    const resourceId = await SlotFinder.findFreeResource({ clientId, start, end, location });
+
     // Create booking
     const booking = await prisma.booking.create({
       data: {
         clientId,
         customerId,
+        resourceId,
         start,
         end,
         status: 'CONFIRMED',
         customerName: customerName || null,
+        location: location || null,
         notes: 'Booked via AI scheduling assistant',
       },
     });
@@ -185,6 +198,20 @@ export class SchedulingHandler {
     return booking;
   }
 
+  /**
+   * Where the customer's job is, as captured on their lead
+   */
+  private static async findLeadLocation(clientId: string, customerPhone?: string): Promise<string | undefined> {
+    if (!customerPhone) return undefined;
+
+    const lead = await prisma.lead.findFirst({
+      where: { clientId, customer: { phone: customerPhone } },
+      select: { location: true },
+    });
+
+    return lead?.location || undefined;
+  }
+
   /**
    * Get conversation history (for future enhancement)
    */
@@ -4,10 +4,20 @@
  * - Availability system (Phase 5)
  * - Blocked times system (Phase 5)
  * - Existing bookings (Phase 3)
+ * - Busy time pulled from connected CalDAV calendars
+ * - Resources (technicians, vans): once a client has any, a slot is offered
+ *   while a qualified resource is free, and carries that resource's id
+ * - Travel time: with a job location, the gap to the bookings either side
+ *   must leave time to drive between them (lib/geo/TravelTime)
  */
 
+import { BlockedTime, WeeklyAvailability } from '@prisma/client';
 import { prisma } from '../db';
 import { TimeWindow } from './TimeParser';
+import { ZonedTime } from '../lib/calendar/ZonedTime';
+import { RecurrenceEngine, BookingOccurrence } from '../lib/calendar/RecurrenceEngine';
+import { TravelTime } from '../lib/geo/TravelTime';
+import { Centroid } from '../lib/geo/postcodeCentroids';
 
 export interface SlotRequest {
   clientId: string;
@@ -15,12 +25,59 @@ export interface SlotRequest {
   timeWindow?: TimeWindow;
   durationMinutes: number;
   searchDaysAhead?: number;
+  /** Client's IANA zone; looked up from the client when omitted */
+  timeZone?: string;
+  /** Skill tags the job needs; only resources with all of them qualify */
+  requiredSkills?: string[];
+  /** Only offer this resource's time */
+  resourceId?: string;
+  /** Where the job is (address or postcode) */
+  location?: string;
 }
 
 export interface AvailableSlot {
   start: Date;
   end: Date;
   isAvailable: boolean;
+  /** Free resource the job would go to (clients with resources only) */
+  resourceId?: string;
+}
+
+export interface ResourceRequest {
+  clientId: string;
+  start: Date;
+  end: Date;
+  requiredSkills?: string[];
+  /** Booking being moved, so it doesn't clash with itself */
+  excludeBookingId?: string;
+  timeZone?: string;
+  location?: string;
+}
+
+type BusyTime = Pick<BookingOccurrence, 'start' | 'end'> & {
+  /** Where the booking is, when it can be placed */
+  site?: Centroid | null;
+};
+
+/**
+ * One calendar slots are cut from: the business as a whole, or one
+ * resource with its hours, time off and assigned bookings
+ */
+interface ScheduleCalendar {
+  resourceId?: string;
+  /** Has the requested skills (and is the requested resource, if any) */
+  qualified: boolean;
+  hours: Array<Pick<WeeklyAvailability, 'weekday' | 'startTime' | 'endTime'>>;
+  blocks: Array<Pick<BlockedTime, 'date' | 'start' | 'end'>>;
+  busy: BusyTime[];
+}
+
+interface Schedule {
+  calendars: ScheduleCalendar[];
+  /** Bookings without a resource; each one takes up a free resource */
+  unassigned: BusyTime[];
+  /** Set when the job's location can be placed */
+  travel?: { site: Centroid; roadFactor: number };
 }
 
 export class SlotFinder {
@@ -34,122 +91,276 @@ export class SlotFinder {
 
   /**
    * Find all available slots matching criteria
+   * Days, opening hours and blocks are read in the client's time zone.
    */
   static async findAvailableSlots(request: SlotRequest): Promise<AvailableSlot[]> {
     const { clientId, preferredDate, timeWindow, durationMinutes, searchDaysAhead = 14 } = request;
+    const timeZone = request.timeZone ?? (await ZonedTime.forClient(clientId));
+
+    const firstDay = ZonedTime.dateKey(preferredDate || new Date(), timeZone);
+    const lastDay = ZonedTime.addDays(firstDay, searchDaysAhead);
 
-    const startDate = preferredDate || new Date();
-    const endDate = new Date(startDate);
-    endDate.setDate(endDate.getDate() + searchDaysAhead);
+    const schedule = await this.loadSchedule(clientId, firstDay, lastDay, timeZone, {
+      requiredSkills: request.requiredSkills,
+      resourceId: request.resourceId,
+      location: request.location,
+    });
+
+    const availableSlots: AvailableSlot[] = [];
 
-    // Get client's availability rules
+    // Search each day
+    for (let dayKey = firstDay; dayKey <= lastDay; dayKey = ZonedTime.addDays(dayKey, 1)) {
+      const dayOfWeek = ZonedTime.weekdayOf(dayKey);
+      const checked = new Set<number>();
+
+      // Each qualified calendar's windows for the day produce slots; a start
+      // time shared by several is only checked once
+      for (const calendar of schedule.calendars.filter((c) => c.qualified)) {
+        for (const rule of calendar.hours.filter((hours) => hours.weekday === dayOfWeek)) {
+          const slots = this.generateSlotsInWindow(
+            dayKey,
+            rule.startTime,
+            rule.endTime,
+            durationMinutes,
+            timeZone,
+            timeWindow
+          );
+
+          for (const slot of slots) {
+            if (checked.has(slot.start.getTime())) continue;
+            checked.add(slot.start.getTime());
+
+            // Must be in future
+            if (slot.start <= new Date()) continue;
+
+            const free = this.findFreeCalendar(schedule, dayKey, slot.start, slot.end, timeZone);
+            if (free) {
+              availableSlots.push(free.resourceId ? { ...slot, resourceId: free.resourceId } : slot);
+            }
+          }
+        }
+      }
+    }
+
+    // Sort by earliest first
+    availableSlots.sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    return availableSlots;
+  }
+
+  /**
+   * A qualified resource free for the whole of start-end, to assign a
+   * booking to. Null when none is free or the client has no resources.
+   */
+  static async findFreeResource(request: ResourceRequest): Promise<string | null> {
+    const { clientId, start, end } = request;
+    const timeZone = request.timeZone ?? (await ZonedTime.forClient(clientId));
+    const dayKey = ZonedTime.dateKey(start, timeZone);
+
+    const schedule = await this.loadSchedule(clientId, dayKey, ZonedTime.dateKey(end, timeZone), timeZone, {
+      requiredSkills: request.requiredSkills,
+      excludeBookingId: request.excludeBookingId,
+      location: request.location,
+    });
+
+    return this.findFreeCalendar(schedule, dayKey, start, end, timeZone)?.resourceId ?? null;
+  }
+
+  /**
+   * Hours, blocks and bookings for [firstDay, lastDay], split into one
+   * calendar per active resource (or a single one for the business)
+   */
+  private static async loadSchedule(
+    clientId: string,
+    firstDay: string,
+    lastDay: string,
+    timeZone: string,
+    options: { requiredSkills?: string[]; resourceId?: string; excludeBookingId?: string; location?: string }
+  ): Promise<Schedule> {
+    const rangeStart = ZonedTime.startOfDay(firstDay, timeZone);
+    const rangeEnd = ZonedTime.startOfDay(ZonedTime.addDays(lastDay, 1), timeZone);
+
+    const resources = await prisma.resource.findMany({
+      where: { clientId, active: true },
+      orderBy: { name: 'asc' },
+    });
+
+    // Get client's availability rules (the business's and each resource's)
     const availabilityRules = await prisma.weeklyAvailability.findMany({
       where: { clientId },
     });
 
-    // Get blocked times in range
+    // Get blocked times in range (stored by calendar day)
     const blockedTimes = await prisma.blockedTime.findMany({
       where: {
         clientId,
         date: {
-          gte: startDate,
-          lte: endDate,
+          gte: ZonedTime.toStorageDate(firstDay),
+          lt: ZonedTime.toStorageDate(ZonedTime.addDays(lastDay, 1)),
         },
       },
     });
 
-    // Get existing bookings in range
-    const existingBookings = await prisma.booking.findMany({
+    // Get existing bookings in range, plus recurring series that may have
+    // occurrences in it
+    const bookings = await prisma.booking.findMany({
       where: {
         clientId,
-        start: {
-          gte: startDate,
-          lte: endDate,
-        },
         status: {
           not: 'CANCELLED',
         },
+        OR: [
+          { start: { gte: rangeStart, lt: rangeEnd } },
+          { recurrenceRuleId: { not: null }, start: { lt: rangeEnd } },
+        ],
+      },
+      include: {
+        recurrenceRule: { include: { overrides: true } },
       },
     });
 
-    const availableSlots: AvailableSlot[] = [];
-    const currentDate = new Date(startDate);
-
-    // Search each day
-    while (currentDate <= endDate) {
-      const dayOfWeek = currentDate.getDay();
-
-      // Get availability for this day
-      const dayAvailability = availabilityRules.filter((rule) => rule.weekday === dayOfWeek);
-
-      if (dayAvailability.length === 0) {
-        // No availability set for this day - skip
-        currentDate.setDate(currentDate.getDate() + 1);
-        continue;
-      }
-
-      // Check each availability window for this day
-      for (const rule of dayAvailability) {
-        const slots = this.generateSlotsInWindow(
-          currentDate,
-          rule.startTime,
-          rule.endTime,
-          durationMinutes,
-          timeWindow
-        );
-
-        for (const slot of slots) {
-          if (
-            !this.isBlocked(slot.start, slot.end, blockedTimes) &&
-            !this.isBooked(slot.start, slot.end, existingBookings) &&
-            slot.start > new Date() // Must be in future
-          ) {
-            availableSlots.push(slot);
-          }
-        }
-      }
+    // Other bookings' locations only matter when this job has one
+    const site = TravelTime.locate(options.location);
+    const travel = site ? { site, roadFactor: (await TravelTime.settingsFor(clientId)).roadFactor } : undefined;
+
+    const existingBookings = bookings
+      .filter((booking) => booking.id !== options.excludeBookingId)
+      .flatMap((booking) => {
+        const bookingSite = travel ? TravelTime.locate(booking.location) : null;
+
+        return RecurrenceEngine.expandBooking(booking, rangeStart, rangeEnd, timeZone).map((occurrence) => ({
+          ...occurrence,
+          resourceId: booking.resourceId,
+          site: bookingSite,
+        }));
+      })
+      .filter((occurrence) => occurrence.status !== 'CANCELLED');
+
+    // Busy time from connected calendars counts like a booking, for everyone
+    const externalBusy = await prisma.calendarBusyTime.findMany({
+      where: {
+        clientId,
+        start: { lt: rangeEnd },
+        end: { gt: rangeStart },
+      },
+      select: { start: true, end: true },
+    });
 
-      currentDate.setDate(currentDate.getDate() + 1);
+    const businessHours = availabilityRules.filter((rule) => !rule.resourceId);
+    const businessBlocks = blockedTimes.filter((block) => !block.resourceId);
+
+    if (resources.length === 0) {
+      return {
+        calendars: [
+          {
+            qualified: true,
+            hours: businessHours,
+            blocks: businessBlocks,
+            busy: [...existingBookings, ...externalBusy],
+          },
+        ],
+        unassigned: [],
+        travel,
+      };
     }
 
-    // Sort by earliest first
-    availableSlots.sort((a, b) => a.start.getTime() - b.start.getTime());
+    const requiredSkills = (options.requiredSkills || []).map((skill) => skill.trim().toLowerCase());
+    const resourceIds = new Set(resources.map((resource) => resource.id));
+
+    return {
+      calendars: resources.map((resource) => {
+        const ownHours = availabilityRules.filter((rule) => rule.resourceId === resource.id);
+
+        return {
+          resourceId: resource.id,
+          qualified:
+            (!options.resourceId || resource.id === options.resourceId) &&
+            requiredSkills.every((skill) => resource.skills.includes(skill)),
+          hours: ownHours.length > 0 ? ownHours : businessHours,
+          blocks: [...businessBlocks, ...blockedTimes.filter((block) => block.resourceId === resource.id)],
+          busy: [...existingBookings.filter((occurrence) => occurrence.resourceId === resource.id), ...externalBusy],
+        };
+      }),
+      // Bookings on a deactivated resource still need someone
+      unassigned: existingBookings.filter(
+        (occurrence) => !occurrence.resourceId || !resourceIds.has(occurrence.resourceId)
+      ),
+      travel,
+    };
+  }
 
-    return availableSlots;
+  /**
+   * First qualified calendar free for start-end, keeping enough free
+   * resources back for the unassigned bookings at that time
+   */
+  private static findFreeCalendar(
+    schedule: Schedule,
+    dayKey: string,
+    start: Date,
+    end: Date,
+    timeZone: string
+  ): ScheduleCalendar | null {
+    const free = schedule.calendars.filter(
+      (calendar) =>
+        this.isWithinHours(dayKey, start, end, calendar.hours, timeZone) &&
+        !this.isBlocked(dayKey, start, end, calendar.blocks, timeZone) &&
+        !this.isBooked(start, end, calendar.busy) &&
+        this.leavesTravelTime(start, end, calendar.busy, schedule.travel)
+    );
+    const waiting = schedule.unassigned.filter((booking) => booking.start < end && booking.end > start).length;
+
+    if (free.length <= waiting) return null;
+    return free.find((calendar) => calendar.qualified) ?? null;
+  }
+
+  /**
+   * Check if a time slot fits inside one of the day's working windows
+   */
+  private static isWithinHours(
+    dayKey: string,
+    slotStart: Date,
+    slotEnd: Date,
+    hours: ScheduleCalendar['hours'],
+    timeZone: string
+  ): boolean {
+    const weekday = ZonedTime.weekdayOf(dayKey);
+
+    return hours.some(
+      (rule) =>
+        rule.weekday === weekday &&
+        ZonedTime.toInstant(dayKey, rule.startTime, timeZone) <= slotStart &&
+        slotEnd <= ZonedTime.toInstant(dayKey, rule.endTime, timeZone)
+    );
   }
 
   /**
    * Generate time slots within a specific window on a given day
    */
   private static generateSlotsInWindow(
-    date: Date,
+    dayKey: string,
     startTime: string,
     endTime: string,
     durationMinutes: number,
+    timeZone: string,
     timeWindow?: TimeWindow
   ): AvailableSlot[] {
     const slots: AvailableSlot[] = [];
 
-    const [startHour, startMinute] = startTime.split(':').map(Number);
-    const [endHour, endMinute] = endTime.split(':').map(Number);
-
-    let currentSlot = new Date(date);
-    currentSlot.setHours(startHour, startMinute, 0, 0);
-
-    const endDateTime = new Date(date);
-    endDateTime.setHours(endHour, endMinute, 0, 0);
+    // Wall-clock hours to instants; stepping in real minutes means a DST
+    // change inside the window shortens or lengthens it, as it would on site
+    let currentSlot = ZonedTime.toInstant(dayKey, startTime, timeZone);
+    const endDateTime = ZonedTime.toInstant(dayKey, endTime, timeZone);
 
     // Generate slots every 15 minutes (or based on duration)
     const slotInterval = 15; // minutes
 
     while (currentSlot < endDateTime) {
-      const slotEnd = new Date(currentSlot);
-      slotEnd.setMinutes(slotEnd.getMinutes() + durationMinutes);
+      const slotEnd = new Date(currentSlot.getTime() + durationMinutes * 60000);
 
       // Check if slot end is within business hours
       if (slotEnd <= endDateTime) {
         // If timeWindow specified, check if slot is in window
-        if (!timeWindow || this.isInTimeWindow(currentSlot, timeWindow)) {
+        if (!timeWindow || this.isInTimeWindow(currentSlot, timeWindow, timeZone)) {
           slots.push({
             start: new Date(currentSlot),
             end: slotEnd,
@@ -158,7 +369,7 @@ export class SlotFinder {
         }
       }
 
-      currentSlot.setMinutes(currentSlot.getMinutes() + slotInterval);
+      currentSlot = new Date(currentSlot.getTime() + slotInterval * 60000);
     }
 
     return slots;
@@ -167,25 +378,24 @@ export class SlotFinder {
   /**
    * Check if a time slot is blocked
    */
-  private static isBlocked(slotStart: Date, slotEnd: Date, blockedTimes: any[]): boolean {
+  private static isBlocked(
+    dayKey: string,
+    slotStart: Date,
+    slotEnd: Date,
+    blockedTimes: ScheduleCalendar['blocks'],
+    timeZone: string
+  ): boolean {
     for (const block of blockedTimes) {
-      const blockDate = new Date(block.date);
-      const slotDate = new Date(slotStart);
-
-      // Normalize dates to compare only date part
-      blockDate.setHours(0, 0, 0, 0);
-      slotDate.setHours(0, 0, 0, 0);
-
       // Check if block is on same date
-      if (blockDate.getTime() !== slotDate.getTime()) continue;
+      if (ZonedTime.fromStorageDate(new Date(block.date)) !== dayKey) continue;
 
       // All-day block (start and end are null)
       if (!block.start && !block.end) return true;
 
       // Time-specific block
       if (block.start && block.end) {
-        const blockStart = this.parseTime(slotStart, block.start);
-        const blockEnd = this.parseTime(slotStart, block.end);
+        const blockStart = ZonedTime.toInstant(dayKey, block.start, timeZone);
+        const blockEnd = ZonedTime.toInstant(dayKey, block.end, timeZone);
 
         // Check if slot overlaps with block
         if (slotStart < blockEnd && slotEnd > blockStart) {
@@ -200,7 +410,7 @@ export class SlotFinder {
   /**
    * Check if a slot overlaps with existing bookings
    */
-  private static isBooked(start: Date, end: Date, bookings: any[]): boolean {
+  private static isBooked(start: Date, end: Date, bookings: BusyTime[]): boolean {
     for (const booking of bookings) {
       const bookingStart = new Date(booking.start);
       const bookingEnd = new Date(booking.end);
@@ -215,45 +425,53 @@ export class SlotFinder {
   }
 
   /**
-   * Check if time is within a time window
+   * Check the gaps to the bookings just before and after a slot leave time
+   * to drive from and to them. A neighbour that can't be placed (or busy
+   * time from a connected calendar) costs no travel.
    */
-  private static isInTimeWindow(time: Date, window: TimeWindow): boolean {
-    const hour = time.getHours();
-    const minute = time.getMinutes();
-    const timeInMinutes = hour * 60 + minute;
-    const startInMinutes = window.startHour * 60 + window.startMinute;
-    const endInMinutes = window.endHour * 60 + window.endMinute;
+  private static leavesTravelTime(start: Date, end: Date, busy: BusyTime[], travel: Schedule['travel']): boolean {
+    if (!travel) return true;
+
+    let before: BusyTime | undefined;
+    let after: BusyTime | undefined;
+    for (const item of busy) {
+      if (item.end <= start && (!before || item.end > before.end)) before = item;
+      if (item.start >= end && (!after || item.start < after.start)) after = item;
+    }
 
-    return timeInMinutes >= startInMinutes && timeInMinutes <= endInMinutes;
-  }
+    const minutesFrom = (neighbour?: BusyTime) =>
+      neighbour?.site ? TravelTime.minutesBetween(neighbour.site, travel.site, travel.roadFactor) : 0;
 
-  /**
-   * Format date as YYYY-MM-DD
-   */
-  private static formatDate(date: Date): string {
-    return date.toISOString().split('T')[0];
+    return (
+      (!before || start.getTime() - before.end.getTime() >= minutesFrom(before) * 60000) &&
+      (!after || after.start.getTime() - end.getTime() >= minutesFrom(after) * 60000)
+    );
   }
 
   /**
-   * Parse time string into Date object on specific date
+   * Check if time is within a time window
    */
-  private static parseTime(date: Date, timeStr: string): Date {
-    const [hours, minutes] = timeStr.split(':').map(Number);
-    const result = new Date(date);
-    result.setHours(hours, minutes, 0, 0);
-    return result;
+  private static isInTimeWindow(time: Date, window: TimeWindow, timeZone: string): boolean {
+    const timeInMinutes = ZonedTime.minutesOfDay(time, timeZone);
+    const startInMinutes = window.startHour * 60 + window.startMinute;
+    const endInMinutes = window.endHour * 60 + window.endMinute;
+
+    return timeInMinutes >= startInMinutes && timeInMinutes <= endInMinutes;
   }
 
   /**
    * Check if a specific day is closed (no availability)
    */
-  static async isDayClosed(clientId: string, date: Date): Promise<boolean> {
-    const dayOfWeek = date.getDay();
+  static async isDayClosed(clientId: string, date: Date | string, timeZone?: string): Promise<boolean> {
+    const zone = timeZone ?? (await ZonedTime.forClient(clientId));
+    const dayOfWeek = ZonedTime.weekdayOf(ZonedTime.dateKey(date, zone));
 
+    // Open when the business or any active resource works that weekday
     const availability = await prisma.weeklyAvailability.findMany({
       where: {
         clientId,
         weekday: dayOfWeek,
+        OR: [{ resourceId: null }, { resource: { active: true } }],
       },
     });
 
@@ -261,18 +479,19 @@ export class SlotFinder {
   }
 
   /**
-   * Find next open day
+   * Find next open day (returned as the start of that day in the client's zone)
    */
-  static async findNextOpenDay(clientId: string, afterDate: Date): Promise<Date | null> {
-    const searchDate = new Date(afterDate);
+  static async findNextOpenDay(clientId: string, afterDate: Date, timeZone?: string): Promise<Date | null> {
+    const zone = timeZone ?? (await ZonedTime.forClient(clientId));
+    let searchDay = ZonedTime.dateKey(afterDate, zone);
     const maxDaysAhead = 30;
 
     for (let i = 0; i < maxDaysAhead; i++) {
-      searchDate.setDate(searchDate.getDate() + 1);
+      searchDay = ZonedTime.addDays(searchDay, 1);
 
-      const isClosed = await this.isDayClosed(clientId, searchDate);
+      const isClosed = await this.isDayClosed(clientId, searchDay, zone);
       if (!isClosed) {
-        return searchDate;
+        return ZonedTime.startOfDay(searchDay, zone);
       }
     }
 
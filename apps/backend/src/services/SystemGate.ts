@@ -21,7 +21,7 @@
  * - Removed all `as any` casts
  */
 
-import { Client, ClientSettings, ClientControls } from '@prisma/client';
+import { Client, ClientSettings, ClientControls, SmsConsent } from '@prisma/client';
 import { ClientWithOnboarding, isOnboardingComplete } from '../utils/onboardingUtils';
 
 /**
@@ -78,11 +78,16 @@ export function canRespondToCustomer(client: ClientWithOnboarding): GuardResult
  * Assumes onboarding is complete (checked by canRespondToCustomer first).
  *
  * HARD BLOCK: outboundPaused kill switch active (return empty TwiML)
+ * HARD BLOCK: Recipient has opted out (STOP) for this client
  *
  * @param client - Client record with onboardingState and controls relations
+ * @param recipientConsent - SmsConsent row for the recipient (omit for owner/admin sends)
  * @returns GuardResult with allowed flag
  */
-export function canSendSMS(client: ClientWithGuardData): GuardResult {
+export function canSendSMS(
+  client: ClientWithGuardData,
+  recipientConsent?: SmsConsent | null
+): GuardResult {
   // First check: onboarding complete
   if (!isOnboardingComplete(client)) {
     console.warn(`[SystemGate] HARD BLOCK: canSendSMS - client ${client.id} onboarding incomplete`);
@@ -104,6 +109,13 @@ export function canSendSMS(client: ClientWithGuardData): GuardResult {
     };
   }
 
+  // Third check: recipient has not opted out
+  const consentCheck = canMessageRecipient(recipientConsent);
+  if (!consentCheck.allowed) {
+    console.warn(`[SystemGate] HARD BLOCK: canSendSMS - client ${client.id} recipient opted out`);
+    return consentCheck;
+  }
+
   return { allowed: true };
 }
 
@@ -204,6 +216,29 @@ export function shouldUseAI(client: ClientWithGuardData): GuardResult {
   return { allowed: true };
 }
 
+/**
+ * GUARD 6: Can Message Recipient
+ *
+ * Checks the recipient's STOP/START consent for this client.
+ * No consent row means the customer never opted out.
+ *
+ * HARD BLOCK: Texting an opted-out number is a carrier compliance violation
+ *
+ * @param consent - SmsConsent row for (clientId, phone), or null if none
+ * @returns GuardResult with allowed flag
+ */
+export function canMessageRecipient(consent: SmsConsent | null | undefined): GuardResult {
+  if (consent?.status === 'OPTED_OUT') {
+    return {
+      allowed: false,
+      reason: 'Recipient opted out of SMS (STOP)',
+      blockType: 'HARD',
+    };
+  }
+
+  return { allowed: true };
+}
+
 /**
  * Logs a guard block for audit trail.
  * Called when a guard blocks an action.
@@ -0,0 +1,166 @@
+/**
+ * Tasks - follow-ups for the business
+ *
+ * Agents raise tasks (CREATE_TASK) when something needs a person: call a
+ * customer back, chase a quote, fix missing settings. The team works them
+ * from the dashboard.
+ *
+ * RULES:
+ * - An assignee must be a member of the client's team
+ * - Managing tasks takes SCHEDULE_MANAGE; an assignee may always move
+ *   their own task between OPEN and DONE
+ * - completedAt is set when a task is marked DONE and cleared if reopened
+ */
+
+import { Prisma, TaskStatus } from '@prisma/client';
+import { prisma } from '../db';
+import { getMembership } from './TeamService';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const TASK_STATUSES: TaskStatus[] = ['OPEN', 'DONE', 'CANCELLED'];
+
+export type TaskFailureReason = 'NOT_FOUND' | 'ASSIGNEE_NOT_MEMBER' | 'NOT_ALLOWED';
+
+export type TaskResult<T> = ({ success: true } & T) | { success: false; reason: TaskFailureReason };
+
+export interface TaskInput {
+  title: string;
+  description?: string | null;
+  dueAt?: Date | null;
+  assigneeId?: string | null;
+  /** Agent name, or the id of the user raising it */
+  createdBy: string;
+  customerId?: string | null;
+  conversationId?: string | null;
+  bookingId?: string | null;
+}
+
+export interface TaskUpdate {
+  title?: string;
+  description?: string | null;
+  status?: TaskStatus;
+  dueAt?: Date | null;
+  assigneeId?: string | null;
+}
+
+/** Who is changing a task (see RULES) */
+export interface TaskActor {
+  userId?: string;
+  canManage: boolean;
+}
+
+const WITH_ASSIGNEE = {
+  assignee: { select: { id: true, email: true } },
+} satisfies Prisma.TaskInclude;
+
+export type TaskWithAssignee = Prisma.TaskGetPayload<{ include: typeof WITH_ASSIGNEE }>;
+
+export function isTaskStatus(value: unknown): value is TaskStatus {
+  return typeof value === 'string' && TASK_STATUSES.includes(value as TaskStatus);
+}
+
+async function isTeamMember(clientId: string, userId: string): Promise<boolean> {
+  return (await getMembership(clientId, userId)) !== null;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  TASKS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export async function createTask(clientId: string, input: TaskInput): Promise<TaskResult<{ task: TaskWithAssignee }>> {
+  if (input.assigneeId && !(await isTeamMember(clientId, input.assigneeId))) {
+    return { success: false, reason: 'ASSIGNEE_NOT_MEMBER' };
+  }
+
+  const task = await prisma.task.create({
+    data: {
+      clientId,
+      title: input.title,
+      description: input.description ?? null,
+      dueAt: input.dueAt ?? null,
+      assigneeId: input.assigneeId ?? null,
+      createdBy: input.createdBy,
+      customerId: input.customerId ?? null,
+      conversationId: input.conversationId ?? null,
+      bookingId: input.bookingId ?? null,
+    },
+    include: WITH_ASSIGNEE,
+  });
+
+  console.log('[Tasks] Task created', {
+    clientId,
+    taskId: task.id,
+    createdBy: task.createdBy,
+    assigneeId: task.assigneeId,
+    dueAt: task.dueAt,
+  });
+
+  return { success: true, task };
+}
+
+/**
+ * Open tasks first, soonest due first; undated tasks after dated ones
+ */
+export async function listTasks(
+  clientId: string,
+  filters: { status?: TaskStatus; assigneeId?: string; limit?: number } = {}
+): Promise<TaskWithAssignee[]> {
+  return prisma.task.findMany({
+    where: {
+      clientId,
+      ...(filters.status && { status: filters.status }),
+      ...(filters.assigneeId && { assigneeId: filters.assigneeId }),
+    },
+    include: WITH_ASSIGNEE,
+    orderBy: [{ status: 'asc' }, { dueAt: { sort: 'asc', nulls: 'last' } }, { createdAt: 'desc' }],
+    take: filters.limit ?? 100,
+  });
+}
+
+export async function updateTask(
+  clientId: string,
+  taskId: string,
+  update: TaskUpdate,
+  actor: TaskActor,
+  now: Date = new Date()
+): Promise<TaskResult<{ task: TaskWithAssignee }>> {
+  const task = await prisma.task.findFirst({ where: { id: taskId, clientId } });
+
+  if (!task) {
+    return { success: false, reason: 'NOT_FOUND' };
+  }
+
+  if (!actor.canManage) {
+    const ownStatusChange =
+      task.assigneeId !== null &&
+      task.assigneeId === actor.userId &&
+      Object.keys(update).every((field) => field === 'status') &&
+      (update.status === 'OPEN' || update.status === 'DONE');
+
+    if (!ownStatusChange) {
+      return { success: false, reason: 'NOT_ALLOWED' };
+    }
+  }
+
+  if (update.assigneeId && !(await isTeamMember(clientId, update.assigneeId))) {
+    return { success: false, reason: 'ASSIGNEE_NOT_MEMBER' };
+  }
+
+  const completedAt =
+    update.status === undefined || update.status === task.status
+      ? undefined
+      : update.status === 'DONE'
+        ? now
+        : null;
+
+  const updated = await prisma.task.update({
+    where: { id: task.id },
+    data: { ...update, ...(completedAt !== undefined && { completedAt }) },
+    include: WITH_ASSIGNEE,
+  });
+
+  console.log('[Tasks] Task updated', { clientId, taskId, fields: Object.keys(update), by: actor.userId ?? null });
+
+  return { success: true, task: updated };
+}
@@ -0,0 +1,355 @@
+/**
+ * Client Teams
+ *
+ * Several people can work in one client dashboard: the owner, an office
+ * dispatcher, engineers in the field and read-only viewers. Access is a
+ * ClientMembership row; new members join through an email-token invitation.
+ *
+ * RULES:
+ * - Permissions are derived from the member role (ROLE_PERMISSIONS), never stored
+ * - Admin impersonation acts as OWNER
+ * - A client always keeps at least one OWNER
+ * - Invitation tokens are single-use, expire after 7 days and are stored hashed
+ */
+
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { ClientInvitation, ClientMemberRole, ClientMembership } from '@prisma/client';
+import { prisma } from '../db';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  ROLES & PERMISSIONS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type ClientPermission =
+  | 'DASHBOARD_READ'
+  | 'LEADS_READ'
+  | 'MESSAGES_SEND'
+  | 'SETTINGS_READ'
+  | 'SETTINGS_WRITE'
+  | 'SCHEDULE_READ'
+  | 'SCHEDULE_MANAGE'
+  | 'TEAM_READ'
+  | 'TEAM_MANAGE'
+  | 'AGENTS_APPROVE';
+
+export const CLIENT_MEMBER_ROLES: ClientMemberRole[] = ['OWNER', 'DISPATCHER', 'TECHNICIAN', 'READ_ONLY'];
+
+export const ROLE_PERMISSIONS: Record<ClientMemberRole, ClientPermission[]> = {
+  OWNER: [
+    'DASHBOARD_READ',
+    'LEADS_READ',
+    'MESSAGES_SEND',
+    'SETTINGS_READ',
+    'SETTINGS_WRITE',
+    'SCHEDULE_READ',
+    'SCHEDULE_MANAGE',
+    'TEAM_READ',
+    'TEAM_MANAGE',
+    'AGENTS_APPROVE',
+  ],
+  DISPATCHER: [
+    'DASHBOARD_READ',
+    'LEADS_READ',
+    'MESSAGES_SEND',
+    'SETTINGS_READ',
+    'SCHEDULE_READ',
+    'SCHEDULE_MANAGE',
+    'TEAM_READ',
+  ],
+  TECHNICIAN: ['LEADS_READ', 'MESSAGES_SEND', 'SCHEDULE_READ'],
+  READ_ONLY: ['DASHBOARD_READ', 'LEADS_READ', 'SETTINGS_READ', 'SCHEDULE_READ'],
+};
+
+export function hasPermission(role: ClientMemberRole, permission: ClientPermission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function isClientMemberRole(value: unknown): value is ClientMemberRole {
+  return typeof value === 'string' && CLIENT_MEMBER_ROLES.includes(value as ClientMemberRole);
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  MEMBERS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type TeamFailureReason =
+  | 'NOT_FOUND'
+  | 'ALREADY_MEMBER'
+  | 'LAST_OWNER'
+  | 'INVITATION_INVALID'
+  | 'EMAIL_MISMATCH'
+  | 'INVALID_PASSWORD';
+
+export type TeamResult<T> = ({ success: true } & T) | { success: false; reason: TeamFailureReason };
+
+export async function getMembership(clientId: string, userId: string): Promise<ClientMembership | null> {
+  return prisma.clientMembership.findUnique({
+    where: { clientId_userId: { clientId, userId } },
+  });
+}
+
+export async function listTeam(clientId: string) {
+  const [members, invitations] = await Promise.all([
+    prisma.clientMembership.findMany({
+      where: { clientId },
+      include: { user: { select: { id: true, email: true } } },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.clientInvitation.findMany({
+      where: { clientId, acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: 'desc' },
+    }),
+  ]);
+
+  return {
+    members: members.map((member) => ({
+      userId: member.userId,
+      email: member.user.email,
+      role: member.role,
+      joinedAt: member.createdAt,
+    })),
+    invitations: invitations.map(toInvitationSummary),
+  };
+}
+
+async function countOwners(clientId: string): Promise<number> {
+  return prisma.clientMembership.count({ where: { clientId, role: 'OWNER' } });
+}
+
+export async function updateMemberRole(
+  clientId: string,
+  userId: string,
+  role: ClientMemberRole
+): Promise<TeamResult<{ membership: ClientMembership }>> {
+  const membership = await getMembership(clientId, userId);
+
+  if (!membership) {
+    return { success: false, reason: 'NOT_FOUND' };
+  }
+
+  if (membership.role === 'OWNER' && role !== 'OWNER' && (await countOwners(clientId)) <= 1) {
+    return { success: false, reason: 'LAST_OWNER' };
+  }
+
+  const updated = await prisma.clientMembership.update({
+    where: { id: membership.id },
+    data: { role },
+  });
+
+  console.log('[Team] Member role changed', { clientId, userId, from: membership.role, to: role });
+
+  return { success: true, membership: updated };
+}
+
+export async function removeMember(clientId: string, userId: string): Promise<TeamResult<{}>> {
+  const membership = await getMembership(clientId, userId);
+
+  if (!membership) {
+    return { success: false, reason: 'NOT_FOUND' };
+  }
+
+  if (membership.role === 'OWNER' && (await countOwners(clientId)) <= 1) {
+    return { success: false, reason: 'LAST_OWNER' };
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.clientMembership.delete({ where: { id: membership.id } });
+
+    // Point the user's login at another business they belong to (or none)
+    const user = await tx.user.findUnique({ where: { id: userId }, select: { clientId: true } });
+    if (user?.clientId === clientId) {
+      const next = await tx.clientMembership.findFirst({
+        where: { userId },
+        orderBy: { createdAt: 'asc' },
+      });
+      await tx.user.update({ where: { id: userId }, data: { clientId: next?.clientId ?? null } });
+    }
+  });
+
+  console.log('[Team] Member removed', { clientId, userId, role: membership.role });
+
+  return { success: true };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  INVITATIONS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function hashInvitationToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function getInvitationAcceptUrl(token: string): string {
+  const baseUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  return `${baseUrl}/invite/${token}`;
+}
+
+function toInvitationSummary(invitation: ClientInvitation) {
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    role: invitation.role,
+    createdAt: invitation.createdAt,
+    expiresAt: invitation.expiresAt,
+  };
+}
+
+function isInvitationOpen(invitation: ClientInvitation, now: Date = new Date()): boolean {
+  return !invitation.acceptedAt && !invitation.revokedAt && invitation.expiresAt > now;
+}
+
+/**
+ * Invite someone to a client team. Re-inviting the same email replaces the
+ * previous pending invitation so only the newest link works.
+ */
+export async function createInvitation(params: {
+  clientId: string;
+  email: string;
+  role: ClientMemberRole;
+  invitedById?: string;
+}): Promise<TeamResult<{ invitation: ReturnType<typeof toInvitationSummary>; acceptUrl: string }>> {
+  const { clientId, role, invitedById } = params;
+  const email = normalizeEmail(params.email);
+
+  const existingMember = await prisma.clientMembership.findFirst({
+    where: { clientId, user: { email } },
+  });
+
+  if (existingMember) {
+    return { success: false, reason: 'ALREADY_MEMBER' };
+  }
+
+  const token = crypto.randomBytes(32).toString('hex');
+  const now = new Date();
+
+  const [, invitation] = await prisma.$transaction([
+    prisma.clientInvitation.updateMany({
+      where: { clientId, email, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: now },
+    }),
+    prisma.clientInvitation.create({
+      data: {
+        clientId,
+        email,
+        role,
+        tokenHash: hashInvitationToken(token),
+        invitedById,
+        expiresAt: new Date(now.getTime() + INVITATION_TTL_MS),
+      },
+    }),
+  ]);
+
+  // No email provider is wired up yet (same as NotificationService), so the
+  // link goes back to the inviter only. It carries the raw token: never log it.
+  console.log('[Team] Invitation created', { clientId, invitationId: invitation.id, email, role });
+
+  return { success: true, invitation: toInvitationSummary(invitation), acceptUrl: getInvitationAcceptUrl(token) };
+}
+
+export async function revokeInvitation(clientId: string, invitationId: string): Promise<TeamResult<{}>> {
+  const result = await prisma.clientInvitation.updateMany({
+    where: { id: invitationId, clientId, acceptedAt: null, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  if (result.count === 0) {
+    return { success: false, reason: 'NOT_FOUND' };
+  }
+
+  console.log('[Team] Invitation revoked', { clientId, invitationId });
+
+  return { success: true };
+}
+
+/**
+ * Look up an open invitation by its raw token (for the accept page)
+ */
+export async function findOpenInvitation(token: string) {
+  const invitation = await prisma.clientInvitation.findUnique({
+    where: { tokenHash: hashInvitationToken(token) },
+    include: { client: { select: { id: true, businessName: true } } },
+  });
+
+  if (!invitation || !isInvitationOpen(invitation)) {
+    return null;
+  }
+
+  return invitation;
+}
+
+/**
+ * Accept an invitation. New users set their password here; existing users
+ * must confirm theirs. Returns the user the caller should log in as.
+ */
+export async function acceptInvitation(params: {
+  token: string;
+  email: string;
+  password: string;
+}): Promise<TeamResult<{ user: { id: string; email: string; role: string; clientId: string | null }; membership: ClientMembership }>> {
+  const invitation = await findOpenInvitation(params.token);
+
+  if (!invitation) {
+    return { success: false, reason: 'INVITATION_INVALID' };
+  }
+
+  const email = normalizeEmail(params.email);
+
+  if (email !== invitation.email) {
+    return { success: false, reason: 'EMAIL_MISMATCH' };
+  }
+
+  let user = await prisma.user.findUnique({ where: { email } });
+
+  if (user && !(await bcrypt.compare(params.password, user.password))) {
+    return { success: false, reason: 'INVALID_PASSWORD' };
+  }
+
+  const passwordHash = user ? null : await bcrypt.hash(params.password, 10);
+
+  const membership = await prisma.$transaction(async (tx) => {
+    if (!user) {
+      user = await tx.user.create({
+        data: { email, password: passwordHash!, role: 'CLIENT', clientId: invitation.clientId },
+      });
+    } else {
+      // Open the business they just joined on next login
+      user = await tx.user.update({ where: { id: user.id }, data: { clientId: invitation.clientId } });
+    }
+
+    await tx.clientInvitation.update({
+      where: { id: invitation.id },
+      data: { acceptedAt: new Date(), acceptedById: user.id },
+    });
+
+    return tx.clientMembership.upsert({
+      where: { clientId_userId: { clientId: invitation.clientId, userId: user.id } },
+      create: {
+        clientId: invitation.clientId,
+        userId: user.id,
+        role: invitation.role,
+        invitedById: invitation.invitedById,
+      },
+      update: { role: invitation.role },
+    });
+  });
+
+  console.log('[Team] Invitation accepted', {
+    clientId: invitation.clientId,
+    invitationId: invitation.id,
+    userId: user!.id,
+    role: invitation.role,
+  });
+
+  return {
+    success: true,
+    user: { id: user!.id, email: user!.email, role: user!.role, clientId: user!.clientId },
+    membership,
+  };
+}
@@ -0,0 +1,297 @@
+/**
+ * WebhookLedger - idempotency and outcomes for inbound provider webhooks
+ *
+ * Every Twilio handler and the Stripe route claim their event here before
+ * doing any work. The key is the provider's id (CallSid, MessageSid, Stripe
+ * event id) plus the event type, since one call produces several status
+ * callbacks under the same CallSid.
+ *
+ * RULES:
+ * - A replay of a PROCESSED event is a no-op
+ * - A replay while the first delivery is still PROCESSING is a no-op too;
+ *   if that delivery fails, it is left FAILED for an operator
+ * - A FAILED event is claimed again by the next delivery (a provider retry
+ *   or an operator re-drive)
+ * - A row left PROCESSING past STALE_PROCESSING_MS (crashed replica) can
+ *   be claimed again
+ * - Re-drives replay the stored payload through the provider's redriver
+ *   (Twilio's is registered by its route module, Stripe's by index.ts since
+ *   that route is off until launch) and wait for the handler's outcome
+ */
+
+import { Prisma, WebhookEvent, WebhookEventStatus, WebhookProvider } from '@prisma/client';
+import { prisma } from '../db';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  TYPES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export interface WebhookEventInput {
+  provider: WebhookProvider;
+  eventKey: string;
+  eventType: string;
+  // Handler path the event arrived on, e.g. /status
+  route: string;
+  clientId?: string | null;
+  payload: unknown;
+}
+
+export type WebhookClaim =
+  | { claimed: true; event: WebhookEvent }
+  // Already processed, or being processed by another delivery
+  | { claimed: false; event: WebhookEvent };
+
+export interface WebhookOutcome {
+  responseCode?: number;
+  outcome?: string;
+  clientId?: string | null;
+}
+
+export type WebhookRedriver = (event: WebhookEvent) => Promise<void>;
+
+export type WebhookAdminResult =
+  | { success: true; event: WebhookEvent }
+  | { success: false; reason: 'NOT_FOUND' | 'INVALID_STATUS' | 'NO_REDRIVER' };
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  CONFIG
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Twilio gives up on a webhook after 15s; anything still PROCESSING long
+// after that belongs to a replica that died mid-request
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+// A redriver returns once the handler has answered, which can be before the
+// handler has written its outcome (Twilio records it on "finish")
+const REDRIVE_SETTLE_MS = 10 * 1000;
+const REDRIVE_POLL_MS = 50;
+const RETENTION_DAYS = 30;
+const MAX_ERROR_LENGTH = 1000;
+
+const redrivers = new Map<WebhookProvider, WebhookRedriver>();
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  CLAIM / OUTCOME
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Claim an inbound event for processing. Only the caller that gets
+ * `claimed: true` may act on it, and must then record the outcome with
+ * completeWebhookEvent or failWebhookEvent.
+ */
+export async function claimWebhookEvent(input: WebhookEventInput, now: Date = new Date()): Promise<WebhookClaim> {
+  try {
+    const event = await prisma.webhookEvent.create({
+      data: {
+        provider: input.provider,
+        eventKey: input.eventKey,
+        eventType: input.eventType,
+        route: input.route,
+        clientId: input.clientId ?? null,
+        payload: toJson(input.payload),
+      },
+    });
+    return { claimed: true, event };
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+      throw error;
+    }
+  }
+
+  // Seen before: replay, concurrent retry or a re-drive
+  const existing = await prisma.webhookEvent.findUniqueOrThrow({
+    where: {
+      provider_eventKey_eventType: {
+        provider: input.provider,
+        eventKey: input.eventKey,
+        eventType: input.eventType,
+      },
+    },
+  });
+
+  if (!isReclaimable(existing, now)) {
+    return { claimed: false, event: existing };
+  }
+
+  // Conditional on the row we read, so only one concurrent delivery wins
+  const { count } = await prisma.webhookEvent.updateMany({
+    where: { id: existing.id, status: existing.status, updatedAt: existing.updatedAt },
+    data: { status: 'PROCESSING', attempts: { increment: 1 } },
+  });
+  const event = await prisma.webhookEvent.findUniqueOrThrow({ where: { id: existing.id } });
+
+  if (count === 0) {
+    return { claimed: false, event };
+  }
+
+  console.log('[WebhookLedger] Reclaimed event', {
+    id: event.id,
+    provider: event.provider,
+    eventKey: event.eventKey,
+    eventType: event.eventType,
+    previousStatus: existing.status,
+    attempts: event.attempts,
+  });
+  return { claimed: true, event };
+}
+
+function isReclaimable(event: WebhookEvent, now: Date): boolean {
+  return (
+    event.status === 'FAILED' ||
+    (event.status === 'PROCESSING' && event.updatedAt.getTime() <= now.getTime() - STALE_PROCESSING_MS)
+  );
+}
+
+export async function completeWebhookEvent(
+  id: string,
+  result: WebhookOutcome = {},
+  now: Date = new Date()
+): Promise<void> {
+  await prisma.webhookEvent.update({
+    where: { id },
+    data: {
+      status: 'PROCESSED',
+      responseCode: result.responseCode ?? null,
+      outcome: result.outcome ?? null,
+      ...(result.clientId ? { clientId: result.clientId } : {}),
+      lastError: null,
+      processedAt: now,
+    },
+  });
+}
+
+export async function failWebhookEvent(id: string, error: unknown, responseCode?: number): Promise<void> {
+  const message = error instanceof Error ? error.message : String(error);
+
+  await prisma.webhookEvent.update({
+    where: { id },
+    data: {
+      status: 'FAILED',
+      responseCode: responseCode ?? null,
+      lastError: message.slice(0, MAX_ERROR_LENGTH),
+    },
+  });
+
+  console.error('[WebhookLedger] Event FAILED', { id, error: message, responseCode });
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  RE-DRIVE
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Register how a provider's stored events are replayed. The redriver must
+ * go through the normal handler, which claims the FAILED row again and
+ * records the new outcome.
+ */
+export function registerWebhookRedriver(provider: WebhookProvider, redriver: WebhookRedriver): void {
+  redrivers.set(provider, redriver);
+}
+
+/**
+ * Replay a FAILED (or abandoned PROCESSING) event. Returns the row as it
+ * stands afterwards: PROCESSED if the replay worked, FAILED with the new
+ * error if not.
+ */
+export async function redriveWebhookEvent(id: string, now: Date = new Date()): Promise<WebhookAdminResult> {
+  const event = await prisma.webhookEvent.findUnique({ where: { id } });
+  if (!event) return { success: false, reason: 'NOT_FOUND' };
+  if (!isReclaimable(event, now)) return { success: false, reason: 'INVALID_STATUS' };
+
+  const redriver = redrivers.get(event.provider);
+  if (!redriver) return { success: false, reason: 'NO_REDRIVER' };
+
+  console.log('[WebhookLedger] Re-driving event', {
+    id,
+    provider: event.provider,
+    route: event.route,
+    eventType: event.eventType,
+  });
+
+  let redriveError: unknown = null;
+  try {
+    await redriver(event);
+  } catch (error) {
+    redriveError = error;
+  }
+
+  const current = await waitForOutcome(event);
+
+  // A handler that reclaimed the row records its own outcome, failures
+  // included; only a re-drive that never reached it is recorded here
+  if (redriveError && current.attempts === event.attempts) {
+    await failWebhookEvent(id, redriveError);
+    return { success: true, event: await prisma.webhookEvent.findUniqueOrThrow({ where: { id } }) };
+  }
+
+  return { success: true, event: current };
+}
+
+/**
+ * The row once the re-driven handler has recorded its outcome (or as it
+ * stands after REDRIVE_SETTLE_MS). A row the handler never reclaimed is
+ * returned straight away.
+ */
+async function waitForOutcome(event: WebhookEvent): Promise<WebhookEvent> {
+  const deadline = Date.now() + REDRIVE_SETTLE_MS;
+  let current = await prisma.webhookEvent.findUniqueOrThrow({ where: { id: event.id } });
+
+  while (current.attempts > event.attempts && current.status === 'PROCESSING' && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, REDRIVE_POLL_MS));
+    current = await prisma.webhookEvent.findUniqueOrThrow({ where: { id: event.id } });
+  }
+
+  return current;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  ADMIN / MAINTENANCE
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export async function getWebhookCounts(): Promise<Record<WebhookEventStatus, number>> {
+  const grouped = await prisma.webhookEvent.groupBy({
+    by: ['status'],
+    _count: { _all: true },
+  });
+
+  const counts = { PROCESSING: 0, PROCESSED: 0, FAILED: 0 } as Record<WebhookEventStatus, number>;
+  for (const row of grouped) {
+    counts[row.status] = row._count._all;
+  }
+  return counts;
+}
+
+export async function listWebhookEvents(filter: {
+  status?: WebhookEventStatus;
+  provider?: WebhookProvider;
+  clientId?: string;
+  limit: number;
+}): Promise<WebhookEvent[]> {
+  return prisma.webhookEvent.findMany({
+    where: {
+      ...(filter.status ? { status: filter.status } : {}),
+      ...(filter.provider ? { provider: filter.provider } : {}),
+      ...(filter.clientId ? { clientId: filter.clientId } : {}),
+    },
+    orderBy: { createdAt: 'desc' },
+    take: filter.limit,
+  });
+}
+
+/**
+ * Drop PROCESSED rows past retention. FAILED rows stay until an operator
+ * deals with them, since they are the only copy of the payload.
+ */
+export async function pruneWebhookEvents(now: Date = new Date()): Promise<{ deleted: number }> {
+  const cutoff = new Date(now.getTime() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+  const { count } = await prisma.webhookEvent.deleteMany({
+    where: { status: 'PROCESSED', createdAt: { lt: cutoff } },
+  });
+
+  return { deleted: count };
+}
+
+function toJson(payload: unknown): Prisma.InputJsonValue {
+  // Round-trip drops prototypes (Express bodies) and undefined values
+  return JSON.parse(JSON.stringify(payload ?? {})) as Prisma.InputJsonValue;
+}
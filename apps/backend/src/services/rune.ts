@@ -23,8 +23,20 @@ export interface FlowData {
   confidence?: number;
 }
 
+export type RuneFlag = "OUT_OF_AREA";
+
+export interface ServiceAreaConfig {
+  /** Job's distance from the client's base */
+  distance_miles: number;
+  radius_miles: number;
+  /** What to do with a job outside the radius */
+  out_of_area: "FLAG" | "DECLINE";
+}
+
 export interface ClientConfig {
   booking_link_enabled: boolean;
+  /** Only set when the client has a radius and the job could be placed */
+  service_area?: ServiceAreaConfig;
 }
 
 export interface RuneInput {
@@ -37,13 +49,40 @@ export interface RuneInput {
 export interface RuneOutput {
   action: RuneAction;
   reason: string;
+  flags?: RuneFlag[];
 }
 
 /**
  * Main RUNE decision function
- * Implements strict decision rules as specified
+ * Out-of-area jobs are declined or flagged (per client), then the job
+ * rules below decide as usual
  */
 export function decideAction(input: RuneInput): RuneOutput {
+  const area = input.config.service_area;
+  const outOfArea = !!area && area.distance_miles > area.radius_miles;
+
+  // RULE 0: Outside the service area and the client doesn't travel that far
+  if (outOfArea && area.out_of_area === "DECLINE" && input.intent !== "NON_LEAD") {
+    return {
+      action: "SEND_POLITE_DECLINE",
+      reason: "out of area",
+      flags: ["OUT_OF_AREA"],
+    };
+  }
+
+  const decision = decideJobAction(input);
+
+  if (outOfArea && decision.action !== "SEND_POLITE_DECLINE") {
+    return { ...decision, flags: ["OUT_OF_AREA"] };
+  }
+
+  return decision;
+}
+
+/**
+ * Implements strict decision rules as specified
+ */
+function decideJobAction(input: RuneInput): RuneOutput {
   const { intent, flow, config } = input;
 
   // RULE 1: NON_LEAD → SEND_POLITE_DECLINE
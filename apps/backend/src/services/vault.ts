@@ -194,6 +194,23 @@ export async function markEscalated(leadId: string): Promise<Lead> {
   return lead;
 }
 
+/**
+ * Note on the lead that the job is outside the client's service area
+ */
+export async function markOutOfArea(lead: Lead, note: string): Promise<Lead> {
+  if (lead.notes.includes(note)) {
+    return lead;
+  }
+
+  const updatedLead = await prisma.lead.update({
+    where: { id: lead.id },
+    data: { notes: lead.notes ? `${lead.notes}\n${note}` : note },
+  });
+
+  console.log(`📦 VAULT: Lead ${lead.id} flagged out of area`);
+  return updatedLead;
+}
+
 /**
  * Close a lead (set state to CLOSED)
  */
@@ -0,0 +1,463 @@
+/**
+ * ReplayHarness - re-run the AI against a client's real history and diff it
+ *
+ * Two targets:
+ * - pipeline: every inbound SMS in the range goes back through
+ *   DIAL → FLOW → RUNE → LYRA (handleInboundSms steps 3-7) with the
+ *   conversation as it stood then, compared to the reply we logged
+ * - a named agent: every AgentLog run of that agent is re-run with its
+ *   logged input, compared to the logged output
+ *
+ * SIDE-EFFECT FREE:
+ * - Reads only: no lead/VAULT updates, no booking links issued, no
+ *   notifications, no AgentLog rows, no actions executed
+ * - SENTINEL isn't re-run; the comparison is about decisions and wording
+ * - Replies ask for the client's own booking URL or a placeholder, and
+ *   links are ignored when comparing replies
+ * - Client settings, controls and policies are today's, not as of the run
+ *
+ * LLM calls go to the configured provider; LLM_PROVIDER=fixture makes a
+ * replay repeatable offline (see ENV_VARS.md).
+ */
+
+import { Message } from '@prisma/client';
+import { prisma } from '../db';
+import { classifyIntent } from '../ai/utils/dial';
+import { extractEntities } from '../ai/utils/flow';
+import { generateReply, getBookingUrl } from '../ai/utils/lyra';
+import { decideAction, RuneInput } from '../services/rune';
+import {
+  DeterministicEntities,
+  classifyIntentDeterministic,
+  extractEntitiesDeterministic,
+  generateReplyDeterministic,
+} from '../services/DeterministicFallback';
+import { shouldUseAI, canProcessBookingRequest } from '../services/SystemGate';
+import { TravelTime } from '../lib/geo/TravelTime';
+import { AgentService } from '../agents/AgentService';
+import type { AgentOutput, AgentTriggerType } from '../agents/base/types';
+
+export const DEFAULT_REPLAY_LIMIT = 200;
+
+// Stands in for a hosted booking link, which replays never issue
+export const REPLAY_BOOKING_URL = 'https://book.jobrun.example/replay';
+
+// The live pipeline reads the last 20 messages
+const HISTORY_SIZE = 20;
+
+// How long after `to` we still look for the reply to a message inside the range
+const REPLY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface ReplayOptions {
+  clientId: string;
+  from: Date;
+  to: Date;
+  /** Replay this agent's logged runs; the inbound SMS pipeline when unset */
+  agent?: string;
+  /** Regenerate pipeline replies with LYRA (default true); agents always reply */
+  replies?: boolean;
+  /** Most cases to replay (default 200) */
+  limit?: number;
+}
+
+export interface ReplayOutcome {
+  /** Rune action, or the agent's action types in order */
+  actions: string[];
+  reply: string | null;
+  intent?: string;
+  confidence?: number;
+  /** Agents only: what the live path would do now (run, review, ...) */
+  gate?: string;
+  error?: string;
+}
+
+export type ReplayChange = 'intent' | 'actions' | 'reply' | 'error';
+
+export interface ReplayCase {
+  /** Inbound message id, or AgentLog id */
+  id: string;
+  at: Date;
+  customerId: string | null;
+  conversationId: string | null;
+  input: string | null;
+  /** null when nothing was logged for it (e.g. blocked, no reply) */
+  recorded: ReplayOutcome | null;
+  replayed: ReplayOutcome;
+  changes: ReplayChange[];
+}
+
+export interface ReplayReport {
+  clientId: string;
+  target: string;
+  from: Date;
+  to: Date;
+  generatedAt: Date;
+  summary: {
+    cases: number;
+    unrecorded: number;
+    changed: number;
+    byChange: Record<ReplayChange, number>;
+    /** "SEND_CLARIFY_QUESTION → SEND_BOOKING_LINK": count */
+    transitions: Record<string, number>;
+  };
+  cases: ReplayCase[];
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  COMPARING
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Reply text for comparison: links, case and spacing don't count
+ */
+function normalizeReply(reply: string | null): string | null {
+  if (!reply) return null;
+  return reply.replace(/https?:\/\/\S+/g, '<link>').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+export function compareOutcomes(
+  recorded: ReplayOutcome | null,
+  replayed: ReplayOutcome,
+  options: { replies: boolean }
+): ReplayChange[] {
+  if (!recorded) return [];
+
+  const changes: ReplayChange[] = [];
+
+  if (Boolean(recorded.error) !== Boolean(replayed.error)) {
+    changes.push('error');
+  }
+  if (recorded.intent && replayed.intent && recorded.intent !== replayed.intent) {
+    changes.push('intent');
+  }
+  if (!replayed.error && recorded.actions.join('+') !== replayed.actions.join('+')) {
+    changes.push('actions');
+  }
+  if (options.replies && !replayed.error && normalizeReply(recorded.reply) !== normalizeReply(replayed.reply)) {
+    changes.push('reply');
+  }
+
+  return changes;
+}
+
+function buildReport(options: ReplayOptions, target: string, cases: ReplayCase[]): ReplayReport {
+  const byChange: Record<ReplayChange, number> = { intent: 0, actions: 0, reply: 0, error: 0 };
+  const transitions: Record<string, number> = {};
+
+  for (const replayCase of cases) {
+    replayCase.changes.forEach((change) => byChange[change]++);
+
+    if (replayCase.changes.includes('actions') && replayCase.recorded) {
+      const key = `${replayCase.recorded.actions.join('+') || 'none'} → ${replayCase.replayed.actions.join('+') || 'none'}`;
+      transitions[key] = (transitions[key] ?? 0) + 1;
+    }
+  }
+
+  return {
+    clientId: options.clientId,
+    target,
+    from: options.from,
+    to: options.to,
+    generatedAt: new Date(),
+    summary: {
+      cases: cases.length,
+      unrecorded: cases.filter((replayCase) => !replayCase.recorded).length,
+      changed: cases.filter((replayCase) => replayCase.changes.length > 0).length,
+      byChange,
+      transitions,
+    },
+    cases,
+  };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  PIPELINE (DIAL / FLOW / RUNE / LYRA)
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * What we logged for an inbound message: the AI reply that followed it
+ * (OUTBOUND with metadata.action) before the customer's next message
+ */
+function recordedReply(following: Message | undefined): ReplayOutcome | null {
+  if (!following || following.direction !== 'OUTBOUND') return null;
+
+  const metadata = following.metadata as Record<string, any> | null;
+  if (!metadata?.action) return null;
+
+  return { actions: [metadata.action], reply: following.body, intent: metadata.intent };
+}
+
+async function replayPipeline(options: ReplayOptions): Promise<ReplayReport> {
+  const replies = options.replies ?? true;
+
+  const [client, clientSettings] = await Promise.all([
+    prisma.client.findUnique({
+      where: { id: options.clientId },
+      include: { onboardingState: true, controls: true },
+    }),
+    prisma.clientSettings.findUnique({ where: { clientId: options.clientId } }),
+  ]);
+  if (!client) throw new Error(`Client ${options.clientId} not found`);
+
+  const useAI = shouldUseAI(client).allowed;
+  const bookingLinkAllowed = canProcessBookingRequest(client, true).allowed;
+
+  const messages = await prisma.message.findMany({
+    where: {
+      clientId: client.id,
+      customerId: { not: null },
+      direction: { in: ['INBOUND', 'OUTBOUND'] },
+      createdAt: { gte: options.from, lt: new Date(options.to.getTime() + REPLY_WINDOW_MS) },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const inbound = messages
+    .filter((message) => message.direction === 'INBOUND' && message.type === 'SMS' && message.createdAt < options.to)
+    .slice(0, options.limit ?? DEFAULT_REPLAY_LIMIT);
+
+  const cases: ReplayCase[] = [];
+
+  for (const message of inbound) {
+    const following = messages.find(
+      (candidate) => candidate.customerId === message.customerId && candidate.createdAt > message.createdAt
+    );
+    const recorded = recordedReply(following);
+
+    let replayed: ReplayOutcome;
+    try {
+      const history = await prisma.message.findMany({
+        where: { clientId: client.id, customerId: message.customerId, createdAt: { lte: message.createdAt } },
+        orderBy: { createdAt: 'desc' },
+        take: HISTORY_SIZE,
+      });
+      const context = history.reverse();
+
+      const intentResult = useAI
+        ? await classifyIntent({ text: message.body, context })
+        : classifyIntentDeterministic(message.body);
+
+      const entities = useAI
+        ? await extractEntities({ text: message.body, context, intent: intentResult.intent })
+        : extractEntitiesDeterministic(message.body);
+
+      const lead = await prisma.lead.findUnique({
+        where: { clientId_customerId: { clientId: client.id, customerId: message.customerId! } },
+        select: { location: true },
+      });
+      const serviceArea = await TravelTime.checkServiceArea(client.id, entities.location || lead?.location);
+
+      const runeInput: RuneInput = {
+        intent: intentResult.intent,
+        certainty: intentResult.confidence,
+        flow: {
+          job_type: entities.jobType,
+          urgency_description: entities.urgency,
+          location: entities.location,
+          requested_time: entities.requestedTime,
+          customer_name: entities.customerName,
+          extra_notes: entities.extraDetails,
+          confidence: intentResult.confidence,
+        },
+        config: {
+          booking_link_enabled: bookingLinkAllowed,
+          ...(serviceArea && {
+            service_area: {
+              distance_miles: serviceArea.distanceMiles,
+              radius_miles: serviceArea.radiusMiles,
+              out_of_area: serviceArea.action,
+            },
+          }),
+        },
+      };
+      const decision = decideAction(runeInput);
+
+      let reply: string | null = null;
+      if (replies) {
+        const bookingUrl = getBookingUrl(clientSettings) ?? REPLAY_BOOKING_URL;
+        reply = useAI
+          ? await generateReply({
+              clientSettings,
+              action: decision.action,
+              entities,
+              recentMessages: context,
+              businessName: client.businessName,
+              bookingUrl,
+              dryRun: true,
+            })
+          : generateReplyDeterministic(decision.action, client.businessName, bookingUrl, entities as DeterministicEntities);
+      }
+
+      replayed = { actions: [decision.action], reply, intent: intentResult.intent, confidence: intentResult.confidence };
+    } catch (error) {
+      replayed = { actions: [], reply: null, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    cases.push({
+      id: message.id,
+      at: message.createdAt,
+      customerId: message.customerId,
+      conversationId: message.conversationId,
+      input: message.body,
+      recorded,
+      replayed,
+      changes: compareOutcomes(recorded, replayed, { replies }),
+    });
+  }
+
+  return buildReport(options, 'pipeline', cases);
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  AGENTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const REPLY_ACTIONS = ['SEND_MESSAGE', 'ASK_FOR_DETAILS', 'SEND_PAYMENT_REMINDER'];
+
+function agentOutcome(output: AgentOutput | null | undefined, error?: string | null): ReplayOutcome {
+  const actions = output?.actions ?? [];
+  const replyAction = actions.find(
+    (action) => REPLY_ACTIONS.includes(action.type) && typeof action.payload?.message === 'string'
+  );
+
+  return {
+    actions: actions.map((action) => action.type),
+    reply: replyAction ? replyAction.payload.message : null,
+    confidence: output?.confidence,
+    ...(error && { error }),
+  };
+}
+
+let agentService: AgentService | null = null;
+
+function getAgentService(): AgentService {
+  if (!agentService) {
+    agentService = new AgentService(prisma);
+  }
+  return agentService;
+}
+
+async function replayAgent(options: ReplayOptions & { agent: string }): Promise<ReplayReport> {
+  const logs = await prisma.agentLog.findMany({
+    where: {
+      clientId: options.clientId,
+      agentName: options.agent,
+      createdAt: { gte: options.from, lt: options.to },
+    },
+    orderBy: { createdAt: 'asc' },
+    take: options.limit ?? DEFAULT_REPLAY_LIMIT,
+  });
+
+  const service = getAgentService();
+  const cases: ReplayCase[] = [];
+
+  for (const log of logs) {
+    const input = (log.input ?? {}) as { message?: string; metadata?: Record<string, any> };
+    const recorded = agentOutcome(log.output as AgentOutput | null, log.error);
+
+    let replayed: ReplayOutcome;
+    try {
+      const result = await service.dryRunAgent(
+        log.agentName,
+        {
+          clientId: log.clientId,
+          trigger: log.trigger as AgentTriggerType,
+          customerId: log.customerId ?? undefined,
+          conversationId: log.conversationId ?? undefined,
+          message: input.message,
+          metadata: input.metadata,
+        },
+        log.createdAt
+      );
+      replayed = { ...agentOutcome(result.output, result.error), gate: result.gate };
+    } catch (error) {
+      replayed = { actions: [], reply: null, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    cases.push({
+      id: log.id,
+      at: log.createdAt,
+      customerId: log.customerId,
+      conversationId: log.conversationId,
+      input: input.message ?? null,
+      recorded,
+      replayed,
+      changes: compareOutcomes(recorded, replayed, { replies: true }),
+    });
+  }
+
+  return buildReport(options, options.agent, cases);
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  ENTRY POINTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export async function runReplay(options: ReplayOptions): Promise<ReplayReport> {
+  if (options.from >= options.to) {
+    throw new Error('Replay range is empty: from must be before to');
+  }
+
+  console.log('[Replay] Starting', {
+    clientId: options.clientId,
+    target: options.agent ?? 'pipeline',
+    from: options.from.toISOString(),
+    to: options.to.toISOString(),
+  });
+
+  const report = options.agent
+    ? await replayAgent({ ...options, agent: options.agent })
+    : await replayPipeline(options);
+
+  console.log('[Replay] Finished', { clientId: options.clientId, target: report.target, ...report.summary });
+
+  return report;
+}
+
+/**
+ * Plain-text diff report: summary, then every changed case
+ */
+export function formatReplayReport(report: ReplayReport): string {
+  const { summary } = report;
+  const lines = [
+    `REPLAY: ${report.target} for client ${report.clientId}`,
+    `Range: ${report.from.toISOString()} → ${report.to.toISOString()}`,
+    '',
+    `Cases:      ${summary.cases} (${summary.unrecorded} with nothing logged to compare)`,
+    `Changed:    ${summary.changed}`,
+    `  intent:   ${summary.byChange.intent}`,
+    `  actions:  ${summary.byChange.actions}`,
+    `  reply:    ${summary.byChange.reply}`,
+    `  error:    ${summary.byChange.error}`,
+  ];
+
+  const transitions = Object.entries(summary.transitions).sort(([, a], [, b]) => b - a);
+  if (transitions.length > 0) {
+    lines.push('', 'Action changes:');
+    transitions.forEach(([transition, count]) => lines.push(`  ${count} × ${transition}`));
+  }
+
+  for (const replayCase of report.cases.filter((candidate) => candidate.changes.length > 0)) {
+    const { recorded, replayed } = replayCase;
+    lines.push(
+      '',
+      `── ${replayCase.id} · ${replayCase.at.toISOString()} · ${replayCase.changes.join(', ')}`,
+      `   input:    ${replayCase.input ?? '(none)'}`
+    );
+
+    if (replayCase.changes.includes('intent')) {
+      lines.push(`   intent:   ${recorded?.intent} → ${replayed.intent}`);
+    }
+    if (replayCase.changes.includes('actions')) {
+      lines.push(`   actions:  ${recorded?.actions.join(', ') || 'none'} → ${replayed.actions.join(', ') || 'none'}`);
+    }
+    if (replayCase.changes.includes('reply')) {
+      lines.push(`   was:      ${recorded?.reply ?? '(no reply)'}`, `   now:      ${replayed.reply ?? '(no reply)'}`);
+    }
+    if (replayCase.changes.includes('error')) {
+      lines.push(`   error:    ${recorded?.error ?? 'none'} → ${replayed.error ?? 'none'}`);
+    }
+  }
+
+  return lines.join('\n');
+}
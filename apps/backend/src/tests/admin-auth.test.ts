@@ -0,0 +1,290 @@
+import express from "express";
+import request from "supertest";
+import bcrypt from "bcryptjs";
+
+jest.mock("../db", () => ({ prisma: jest.requireActual("./support/memoryPrisma").createMemoryPrisma() }));
+
+// Loads AlertService, which refuses to start without ops phone numbers
+jest.mock("../services/StuckClientDetector", () => ({ StuckClientDetector: {} }));
+
+import { prisma } from "../db";
+import { memoryRows, resetMemoryPrisma, seedMemoryPrisma } from "./support/memoryPrisma";
+import adminRoutes from "../routes/admin";
+import authRoutes from "../routes/auth";
+import { generateClientUserToken, generateImpersonationToken } from "../utils/jwt";
+import { createAdminApiKey, ADMIN_PERMISSIONS } from "../services/AdminApiKeyService";
+
+const mockPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+
+const NOW = new Date("2026-01-12T10:00:00Z");
+const apiKeys = () => memoryRows(prisma, "adminApiKey");
+const actions = () => memoryRows(prisma, "adminAction");
+
+function createApp() {
+  const app = express();
+  app.use(express.json());
+  app.use("/api/auth", authRoutes);
+  app.use("/api/admin", adminRoutes);
+  return app;
+}
+
+async function issueKey(permissions: string[], expiresAt: Date | null = null) {
+  const result = await createAdminApiKey({
+    name: "ops script",
+    permissions,
+    createdBy: "admin_1",
+    creatorPermissions: ADMIN_PERMISSIONS,
+    expiresAt,
+  });
+  if (!result.success) throw new Error(result.reason);
+  return result;
+}
+
+const adminToken = () =>
+  generateClientUserToken({ id: "admin_1", email: "founder@jobrun.com", role: "ADMIN" });
+
+describe("Admin API auth", () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: NOW, doNotFake: ["nextTick", "setImmediate"] });
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    resetMemoryPrisma(prisma);
+    await seedMemoryPrisma(prisma, {
+      user: [{ id: "admin_1", email: "founder@jobrun.com", password: "hash", role: "ADMIN" }],
+      client: [{ id: "client_1", businessName: "Ace Plumbing" }],
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe("authentication", () => {
+    it("should reject requests without credentials", async () => {
+      await request(createApp()).get("/api/admin/audit").expect(401);
+      await request(createApp()).delete("/api/admin/clients/client_1").expect(401);
+    });
+
+    it("should accept an ADMIN login token", async () => {
+      await request(createApp()).get("/api/admin/audit").set("Authorization", `Bearer ${adminToken()}`).expect(200);
+    });
+
+    it("should reject a token whose user is no longer ADMIN", async () => {
+      const token = adminToken();
+      await prisma.user.update({ where: { id: "admin_1" }, data: { role: "CLIENT" } });
+
+      await request(createApp()).get("/api/admin/audit").set("Authorization", `Bearer ${token}`).expect(401);
+    });
+
+    it("should reject non-admin and impersonation tokens", async () => {
+      const clientToken = generateClientUserToken({ id: "user_2", email: "owner@ace.com", role: "CLIENT" });
+
+      await request(createApp()).get("/api/admin/audit").set("Authorization", `Bearer ${clientToken}`).expect(401);
+      await request(createApp())
+        .get("/api/admin/audit")
+        .set("Authorization", `Bearer ${generateImpersonationToken("client_1", "admin_1")}`)
+        .expect(401);
+    });
+
+    it("should accept an API key in either header and record its use", async () => {
+      const { key, apiKey } = await issueKey(["ADMIN_READ"]);
+
+      await request(createApp()).get("/api/admin/audit").set("X-Admin-Api-Key", key).expect(200);
+      await request(createApp()).get("/api/admin/audit").set("Authorization", `Bearer ${key}`).expect(200);
+
+      expect(apiKeys()[0].lastUsedAt).toEqual(NOW);
+      expect(apiKeys()[0].keyHash).not.toContain(key);
+      expect(apiKey).not.toHaveProperty("keyHash");
+    });
+
+    it("should reject revoked, expired and unknown keys", async () => {
+      const revoked = await issueKey(["ADMIN_READ"]);
+      await prisma.adminApiKey.update({ where: { id: revoked.apiKey.id }, data: { revokedAt: NOW } });
+      const expired = await issueKey(["ADMIN_READ"], new Date(NOW.getTime() - 1000));
+
+      for (const key of [revoked.key, expired.key, "jra_unknown"]) {
+        await request(createApp()).get("/api/admin/audit").set("X-Admin-Api-Key", key).expect(401);
+      }
+    });
+  });
+
+  describe("dashboard", () => {
+    // As apps/dashboard sends them: the token from /admin/sign-in as a Bearer
+    // header (lib/admin-auth.ts), alongside its JSON content type
+    async function signIn(app: express.Express) {
+      await prisma.user.update({
+        where: { id: "admin_1" },
+        data: { password: await bcrypt.hash("correct horse", 4) },
+      });
+      const res = await request(app)
+        .post("/api/auth/login")
+        .set("Content-Type", "application/json")
+        .send({ email: "founder@jobrun.com", password: "correct horse" })
+        .expect(200);
+
+      expect(res.body.data.user.role).toBe("ADMIN");
+      return { "Content-Type": "application/json", Authorization: `Bearer ${res.body.data.token}` };
+    }
+
+    it("should accept the signed-in dashboard's reads and writes", async () => {
+      const app = createApp();
+      const headers = await signIn(app);
+
+      await request(app).get("/api/admin/clients/client_1").set(headers).expect(200);
+      await request(app)
+        .put("/api/admin/clients/client_1")
+        .set(headers)
+        .send({ businessName: "Ace Plumbing Ltd", phoneNumber: null, twilioNumber: null, region: "UK", timezone: "Europe/London" })
+        .expect(200);
+      // ImpersonateClient posts no body
+      await request(app).post("/api/admin/clients/client_1/impersonate").set(headers).expect(200);
+
+      expect(memoryRows(prisma, "client")[0]).toMatchObject({ businessName: "Ace Plumbing Ltd" });
+      expect(actions().map((action) => action.adminId)).toEqual(["admin_1", "admin_1"]);
+    });
+
+    it("should reject the dashboard's calls before sign-in", async () => {
+      await request(createApp())
+        .put("/api/admin/clients/client_1")
+        .set("Content-Type", "application/json")
+        .send({ businessName: "Ace Plumbing Ltd", timezone: "Europe/London" })
+        .expect(401);
+    });
+  });
+
+  describe("registration", () => {
+    const newUser = { email: "sam@aceplumbing.co.uk", password: "correct horse", clientId: "client_1" };
+
+    it("should refuse registration without admin credentials", async () => {
+      await request(createApp()).post("/api/auth/register").send(newUser).expect(401);
+
+      expect(memoryRows(prisma, "user")).toHaveLength(1);
+    });
+
+    it("should refuse a self-registered ADMIN", async () => {
+      const app = createApp();
+
+      await request(app).post("/api/auth/register").send({ ...newUser, role: "ADMIN" }).expect(401);
+      // Admins can't mint other admins over HTTP either
+      await request(app)
+        .post("/api/auth/register")
+        .set("Authorization", `Bearer ${adminToken()}`)
+        .send({ ...newUser, role: "ADMIN" })
+        .expect(400);
+
+      expect(memoryRows(prisma, "user").map((user) => user.email)).toEqual(["founder@jobrun.com"]);
+      await request(app)
+        .post("/api/auth/login")
+        .send({ email: newUser.email, password: newUser.password })
+        .expect(401);
+    });
+
+    it("should create a login without joining the client's team", async () => {
+      const res = await request(createApp())
+        .post("/api/auth/register")
+        .set("Authorization", `Bearer ${adminToken()}`)
+        .send(newUser)
+        .expect(201);
+
+      expect(res.body.data.token).toBeUndefined();
+      expect(res.body.data.user).toMatchObject({ email: newUser.email, role: "CLIENT", clientId: "client_1" });
+      expect(memoryRows(prisma, "clientMembership")).toEqual([]);
+      expect(actions()).toEqual([
+        expect.objectContaining({ adminId: "admin_1", clientId: "client_1", action: "register_user" }),
+      ]);
+    });
+  });
+
+  describe("permissions", () => {
+    it("should refuse routes outside the key's permissions", async () => {
+      const { key } = await issueKey(["ADMIN_READ"]);
+
+      const res = await request(createApp())
+        .post("/api/admin/clients/client_1/impersonate")
+        .set("X-Admin-Api-Key", key)
+        .expect(403);
+
+      expect(res.body.error.message).toContain("CLIENTS_IMPERSONATE");
+      expect(mockPrisma.impersonationLog.create).not.toHaveBeenCalled();
+    });
+
+    it("should not let a key grant permissions it doesn't hold", async () => {
+      const { key } = await issueKey(["API_KEYS_MANAGE"]);
+
+      await request(createApp())
+        .post("/api/admin/api-keys")
+        .set("X-Admin-Api-Key", key)
+        .send({ name: "escalation", permissions: ["CLIENTS_DELETE"] })
+        .expect(403);
+      await request(createApp())
+        .post("/api/admin/api-keys")
+        .set("X-Admin-Api-Key", key)
+        .send({ name: "typo", permissions: ["CLIENTS_EVERYTHING"] })
+        .expect(400);
+
+      expect(apiKeys()).toHaveLength(1);
+    });
+  });
+
+  describe("audit trail", () => {
+    it("should impersonate and audit as the authenticated admin", async () => {
+      await request(createApp())
+        .post("/api/admin/clients/client_1/impersonate")
+        .set("Authorization", `Bearer ${adminToken()}`)
+        .send({ adminId: "someone_else" })
+        .expect(200);
+
+      expect(mockPrisma.impersonationLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ adminId: "admin_1", clientId: "client_1" }),
+      });
+      expect(actions()).toEqual([
+        expect.objectContaining({
+          adminId: "admin_1",
+          clientId: "client_1",
+          action: "impersonate_client",
+          metadata: expect.objectContaining({ via: "USER" }),
+        }),
+      ]);
+    });
+
+    it("should attribute API key mutations to the key", async () => {
+      const { key, apiKey } = await issueKey(["CLIENTS_IMPERSONATE"]);
+
+      await request(createApp())
+        .post("/api/admin/clients/client_1/impersonate")
+        .set("X-Admin-Api-Key", key)
+        .expect(200);
+
+      expect(actions()[0]).toMatchObject({
+        adminId: `api_key:${apiKey.id}`,
+        metadata: { via: "API_KEY", apiKeyName: "ops script" },
+      });
+    });
+
+    it("should create a key once, audit it, and revoke it", async () => {
+      const app = createApp();
+      const auth = `Bearer ${adminToken()}`;
+
+      const created = await request(app)
+        .post("/api/admin/api-keys")
+        .set("Authorization", auth)
+        .send({ name: "zapier", permissions: ["ADMIN_READ"] })
+        .expect(201);
+
+      const { key, apiKey } = created.body.data;
+      expect(key).toMatch(/^jra_/);
+      expect(apiKey).toMatchObject({ name: "zapier", permissions: ["ADMIN_READ"], createdBy: "admin_1" });
+
+      await request(app).get("/api/admin/audit").set("X-Admin-Api-Key", key).expect(200);
+      await request(app).delete(`/api/admin/api-keys/${apiKey.id}`).set("Authorization", auth).expect(200);
+      await request(app).get("/api/admin/audit").set("X-Admin-Api-Key", key).expect(401);
+      await request(app).delete(`/api/admin/api-keys/${apiKey.id}`).set("Authorization", auth).expect(404);
+
+      expect(actions().map((a) => a.action)).toEqual(["create_api_key", "revoke_api_key"]);
+      expect(apiKeys()[0]).toMatchObject({ revokedAt: NOW, revokedBy: "admin_1" });
+    });
+  });
+});
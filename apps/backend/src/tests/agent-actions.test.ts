@@ -0,0 +1,265 @@
+jest.mock("../db", () => ({ prisma: jest.requireActual("./support/memoryPrisma").createMemoryPrisma() }));
+
+const mockSendAgentNotification = jest.fn();
+jest.mock("../services/NotificationService", () => ({
+  NotificationService: { sendAgentNotification: (...args: unknown[]) => mockSendAgentNotification(...args) },
+}));
+
+const mockFindAvailableSlots = jest.fn();
+jest.mock("../services/SlotFinder", () => ({
+  SlotFinder: { findAvailableSlots: (...args: unknown[]) => mockFindAvailableSlots(...args) },
+}));
+
+import { prisma } from "../db";
+import { memoryRows, resetMemoryPrisma, seedMemoryPrisma } from "./support/memoryPrisma";
+import { ActionExecutor } from "../agents/engine/ActionExecutor";
+import { parseActionPayload } from "../agents/engine/ActionPayloads";
+import { updateTask } from "../services/TaskService";
+import type { AgentContext } from "../agents/base/types";
+
+const mockPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+
+const NOW = new Date("2026-01-12T10:00:00Z");
+const rows = (model: string) => memoryRows(prisma, model);
+
+const context: AgentContext = {
+  clientId: "client_1",
+  customerId: "cust_1",
+  conversationId: "conv_1",
+  trigger: "INBOUND_SMS",
+  input: { message: "Can someone call me back about the quote?" },
+};
+
+describe("Agent actions", () => {
+  const executor = new ActionExecutor(prisma);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: NOW, doNotFake: ["nextTick", "setImmediate"] });
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    resetMemoryPrisma(prisma);
+    await seedMemoryPrisma(prisma, {
+      client: [{ id: "client_1", businessName: "Ace Plumbing" }],
+      clientMembership: [{ clientId: "client_1", userId: "user_tech", role: "TECHNICIAN" }],
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe("payload validation", () => {
+    it("should refuse a bad payload before doing anything", async () => {
+      await expect(
+        executor.executeAction({ type: "CREATE_TASK", payload: { description: "no title" } }, context, "ChatAssistant")
+      ).resolves.toEqual({ success: false, error: "Invalid CREATE_TASK payload: title: Required" });
+      await expect(
+        executor.executeAction({ type: "CREATE_TASK", payload: { title: "Call back", dueDate: "next week" } }, context, "ChatAssistant")
+      ).resolves.toMatchObject({ success: false, error: expect.stringContaining("dueDate: Invalid date") });
+
+      expect(mockPrisma.task.create).not.toHaveBeenCalled();
+    });
+
+    it("should apply defaults and drop fields agents may not write", () => {
+      expect(parseActionPayload({ type: "SUGGEST_SLOTS", payload: {} })).toEqual({
+        success: true,
+        action: { type: "SUGGEST_SLOTS", payload: { durationMinutes: 60, limit: 3 } },
+      });
+      expect(parseActionPayload({ type: "UPDATE_SETTINGS", payload: { updates: { pricing: "£1" } } })).toEqual({
+        success: false,
+        error: "Invalid UPDATE_SETTINGS payload: updates: No supported fields to update",
+      });
+      expect(parseActionPayload({ type: "EXPLODE" as any, payload: {} })).toEqual({
+        success: false,
+        error: "Unknown action type: EXPLODE",
+      });
+    });
+  });
+
+  describe("CREATE_TASK", () => {
+    it("should persist the task with its assignee, due date and source", async () => {
+      const result = await executor.executeAction(
+        {
+          type: "CREATE_TASK",
+          payload: { title: "Call back about quote", dueDate: "2026-01-13T09:00:00Z", assigneeId: "user_tech" },
+        },
+        context,
+        "ChatAssistant"
+      );
+
+      expect(result.success).toBe(true);
+      expect(rows("task")).toEqual([
+        expect.objectContaining({
+          clientId: "client_1",
+          title: "Call back about quote",
+          assigneeId: "user_tech",
+          dueAt: new Date("2026-01-13T09:00:00Z"),
+          createdBy: "ChatAssistant",
+          customerId: "cust_1",
+          conversationId: "conv_1",
+        }),
+      ]);
+    });
+
+    it("should refuse an assignee outside the client's team", async () => {
+      await expect(
+        executor.executeAction(
+          { type: "CREATE_TASK", payload: { title: "Chase invoice", assigneeId: "user_elsewhere" } },
+          context,
+          "Insights"
+        )
+      ).resolves.toEqual({ success: false, error: "Task not created: ASSIGNEE_NOT_MEMBER" });
+      expect(rows("task")).toHaveLength(0);
+    });
+
+    it("should let an assignee complete their own task but nothing more", async () => {
+      await executor.executeAction(
+        { type: "CREATE_TASK", payload: { title: "Fit shower", assigneeId: "user_tech" } },
+        context,
+        "Summariser"
+      );
+      const taskId = rows("task")[0].id;
+      const technician = { userId: "user_tech", canManage: false };
+
+      await expect(updateTask("client_1", taskId, { assigneeId: null }, technician)).resolves.toEqual({
+        success: false,
+        reason: "NOT_ALLOWED",
+      });
+      await expect(updateTask("client_1", taskId, { status: "DONE" }, technician)).resolves.toMatchObject({
+        success: true,
+        task: { status: "DONE", completedAt: NOW },
+      });
+      await expect(
+        updateTask("client_1", taskId, { status: "OPEN" }, { userId: "user_owner", canManage: true })
+      ).resolves.toMatchObject({ task: { status: "OPEN", completedAt: null } });
+      await expect(updateTask("client_2", taskId, { status: "DONE" }, technician)).resolves.toEqual({
+        success: false,
+        reason: "NOT_FOUND",
+      });
+    });
+  });
+
+  describe("GENERATE_REPORT", () => {
+    it("should store the report so it can be read back", async () => {
+      const result = await executor.executeAction(
+        {
+          type: "GENERATE_REPORT",
+          payload: {
+            reportType: "weekly_insights",
+            summary: "Bookings up 12% on last week",
+            data: { bookings: 28, revenue: 3140 },
+            periodStart: "2026-01-05T00:00:00Z",
+          },
+        },
+        context,
+        "Insights"
+      );
+
+      expect(result).toEqual({
+        success: true,
+        result: { reportId: rows("agentReport")[0].id, reportType: "weekly_insights", title: "weekly_insights" },
+      });
+      expect(rows("agentReport")[0]).toMatchObject({
+        clientId: "client_1",
+        agentName: "Insights",
+        summary: "Bookings up 12% on last week",
+        data: { bookings: 28, revenue: 3140 },
+        periodStart: new Date("2026-01-05T00:00:00Z"),
+      });
+    });
+  });
+
+  describe("SEND_NOTIFICATION", () => {
+    it("should notify the owner through NotificationService", async () => {
+      mockSendAgentNotification.mockResolvedValue({ smsSent: true, emailSent: false, errors: [] });
+
+      const result = await executor.executeAction(
+        { type: "SEND_NOTIFICATION", payload: { message: "Calendar is 90% full next week", severity: "WARNING" } },
+        context,
+        "AvailabilityManager"
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockSendAgentNotification).toHaveBeenCalledWith("client_1", {
+        agentName: "AvailabilityManager",
+        message: "Calendar is 90% full next week",
+        severity: "WARNING",
+      });
+    });
+
+    it("should fail when nothing could be sent", async () => {
+      mockSendAgentNotification.mockResolvedValue({
+        smsSent: false,
+        emailSent: false,
+        errors: ["Notifications paused"],
+      });
+
+      await expect(
+        executor.executeAction({ type: "SEND_NOTIFICATION", payload: { message: "Hi" } }, context, "DailyBriefing")
+      ).resolves.toEqual({ success: false, error: "Notifications paused" });
+    });
+  });
+
+  describe("SUGGEST_SLOTS", () => {
+    it("should offer the first free slots from SlotFinder", async () => {
+      const slot = (hour: number) => ({
+        start: new Date(`2026-01-13T${hour}:00:00Z`),
+        end: new Date(`2026-01-13T${hour + 1}:00:00Z`),
+        isAvailable: true,
+      });
+      mockFindAvailableSlots.mockResolvedValue([slot(10), slot(12), slot(14)]);
+
+      const result = await executor.executeAction(
+        { type: "SUGGEST_SLOTS", payload: { durationMinutes: 90, limit: 2, slots: ["made up"] } },
+        context,
+        "BookingCoordinator"
+      );
+
+      expect(mockFindAvailableSlots).toHaveBeenCalledWith({ clientId: "client_1", durationMinutes: 90 });
+      expect(result).toEqual({
+        success: true,
+        result: {
+          slots: [
+            { start: "2026-01-13T10:00:00.000Z", end: "2026-01-13T11:00:00.000Z" },
+            { start: "2026-01-13T12:00:00.000Z", end: "2026-01-13T13:00:00.000Z" },
+          ],
+        },
+      });
+    });
+  });
+
+  describe("CREATE_DEMO_DATA", () => {
+    it("should never add demo records to a real business", async () => {
+      await expect(
+        executor.executeAction({ type: "CREATE_DEMO_DATA", payload: { count: 3 } }, context, "DemoMode")
+      ).resolves.toEqual({ success: false, error: "Demo data not created: NOT_DEMO_CLIENT" });
+      expect(mockPrisma.customer.create).not.toHaveBeenCalled();
+    });
+
+    it("should create marked demo records that won't text anyone", async () => {
+      await prisma.client.update({ where: { id: "client_1" }, data: { demoClient: true } });
+
+      const result = await executor.executeAction(
+        { type: "CREATE_DEMO_DATA", payload: { dataType: "all", count: 3 } },
+        context,
+        "DemoMode"
+      );
+
+      expect(result).toEqual({
+        success: true,
+        result: { dataType: "all", created: { customers: 3, conversations: 3, bookings: 3 } },
+      });
+      expect(rows("customer").every((c) => c.name.endsWith("(Demo)") && c.phone.startsWith("+1555"))).toBe(true);
+      expect(new Set(rows("customer").map((c) => c.phone)).size).toBe(3);
+      for (const booking of rows("booking")) {
+        expect(booking.customerPhone).toBeNull();
+        expect(booking.completedAt).toEqual(booking.end <= NOW ? booking.end : null);
+      }
+      for (const conversation of rows("conversation")) {
+        const messages = rows("message").filter((m) => m.conversationId === conversation.id);
+        expect(messages.at(-1)?.direction).toBe("INBOUND");
+      }
+    });
+  });
+});
@@ -0,0 +1,310 @@
+jest.mock("../db", () => ({
+  prisma: jest.requireActual("./support/memoryPrisma").createMemoryPrisma({
+    // 20260124_add_agent_proposal_reply_code_index
+    partialUniques: [
+      { model: "AgentProposal", fields: ["clientId", "replyCode"], where: (row: any) => row.status === "PENDING" },
+    ],
+  }),
+}));
+
+const mockRandomInt = jest.fn();
+jest.mock("crypto", () => ({
+  ...jest.requireActual("crypto"),
+  randomInt: (...args: unknown[]) => mockRandomInt(...args),
+}));
+
+const mockExecuteAgent = jest.fn();
+jest.mock("../agents/engine/AgentEngine", () => ({
+  AgentEngine: jest.fn().mockImplementation(() => ({ executeAgent: mockExecuteAgent })),
+}));
+
+const mockExecuteActions = jest.fn();
+jest.mock("../agents/engine/ActionExecutor", () => ({
+  ActionExecutor: jest.fn().mockImplementation(() => ({ executeActions: mockExecuteActions })),
+}));
+
+const mockSendAgentNotification = jest.fn();
+jest.mock("../services/NotificationService", () => ({
+  NotificationService: { sendAgentNotification: (...args: unknown[]) => mockSendAgentNotification(...args) },
+}));
+
+import { prisma } from "../db";
+import { memoryRows, resetMemoryPrisma, seedMemoryPrisma } from "./support/memoryPrisma";
+import { Orchestrator } from "../agents/engine/Orchestrator";
+import { BaseAgent } from "../agents/base/BaseAgent";
+import { approveProposal, expireProposals, handleApprovalReply, rejectProposal } from "../agents/ApprovalQueue";
+import type { AgentContext, AgentOutput } from "../agents/base/types";
+
+const NOW = new Date("2026-01-12T10:00:00Z");
+const mockPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+const proposals = () => memoryRows(prisma, "agentProposal");
+const setActionPolicies = (actionPolicies: Record<string, string>) =>
+  prisma.clientSettings.update({ where: { clientId: "client_1" }, data: { actionPolicies } });
+const HOUR_MS = 60 * 60 * 1000;
+
+class FakeAgent extends BaseAgent {
+  constructor(name: string, priority: number) {
+    super({
+      name,
+      tier: "CORE",
+      triggers: ["INBOUND_SMS"],
+      priority,
+      enabled: true,
+      confidenceThreshold: 0.7,
+      llmConfig: { model: "gpt-4o-mini", temperature: 0, maxTokens: 100 },
+    });
+  }
+
+  async execute(): Promise<AgentOutput> {
+    throw new Error("Outputs come from the mocked AgentEngine");
+  }
+}
+
+function output(confidence: number, actions: AgentOutput["actions"]): AgentOutput {
+  return { actions, summary: "Proposed follow-up", confidence, followUpNeeded: false };
+}
+
+const reply = { type: "SEND_MESSAGE" as const, payload: { message: "We can come Thursday morning." } };
+const settingsChange = { type: "UPDATE_SETTINGS" as const, payload: { updates: { availability: "Mon-Sat 8-6" } } };
+
+let messageCount = 0;
+function newContext(): AgentContext {
+  // A fresh message each time so Safety's duplicate check never trips
+  return {
+    clientId: "client_1",
+    customerId: "cust_1",
+    conversationId: "conv_1",
+    trigger: "INBOUND_SMS",
+    input: { message: `Can you come this week? (${++messageCount})` },
+  };
+}
+
+describe("Agent approval queue", () => {
+  let orchestrator: Orchestrator;
+
+  // Agent outputs by name, in the order the orchestrator asks for them
+  const outputs = (byAgent: Record<string, AgentOutput>) =>
+    mockExecuteAgent.mockImplementation(async (agent: BaseAgent) => ({
+      agentName: agent.getName(),
+      success: true,
+      output: byAgent[agent.getName()],
+      executionTimeMs: 1,
+      timestamp: new Date(),
+    }));
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: NOW, doNotFake: ["nextTick", "setImmediate"] });
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    resetMemoryPrisma(prisma);
+    await seedMemoryPrisma(prisma, {
+      client: [{ id: "client_1", businessName: "Ace Plumbing", phoneNumber: "07700 900123" }],
+      clientSettings: [{ clientId: "client_1" }],
+    });
+    mockRandomInt.mockImplementation(jest.requireActual("crypto").randomInt);
+    mockSendAgentNotification.mockResolvedValue({ smsSent: true, emailSent: false, errors: [] });
+    mockExecuteActions.mockImplementation(async (actions: unknown[]) => actions.map(() => ({ success: true })));
+
+    orchestrator = new Orchestrator(prisma as any);
+    orchestrator.getRegistry().register(new FakeAgent("ChatAssistant", 60));
+    orchestrator.getRegistry().register(new FakeAgent("FAQResponder", 50));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  async function queueProposal(): Promise<any> {
+    outputs({ ChatAssistant: output(0.9, [settingsChange]) });
+    const result = await orchestrator.process(newContext(), { agents: ["ChatAssistant"] });
+    return proposals().find((p) => p.id === result.proposalId);
+  }
+
+  describe("Orchestrator gating", () => {
+    it("should hold a review action for the owner instead of running it", async () => {
+      outputs({ ChatAssistant: output(0.9, [settingsChange]) });
+
+      const result = await orchestrator.process(newContext());
+
+      expect(result).toMatchObject({ success: true, agentName: "ChatAssistant", pendingApproval: true, actionsExecuted: 0 });
+      expect(mockExecuteActions).not.toHaveBeenCalled();
+      expect(proposals()).toEqual([
+        expect.objectContaining({
+          id: result.proposalId,
+          reason: "POLICY",
+          status: "PENDING",
+          actions: [settingsChange],
+          context: expect.objectContaining({ clientId: "client_1", conversationId: "conv_1" }),
+          expiresAt: new Date(NOW.getTime() + 24 * HOUR_MS),
+        }),
+      ]);
+      const [, notification] = mockSendAgentNotification.mock.calls[0];
+      expect(notification.message).toContain(`Reply YES ${proposals()[0].replyCode} to approve`);
+    });
+
+    it("should prefer a confident agent and only queue low confidence as a last resort", async () => {
+      outputs({ ChatAssistant: output(0.6, [reply]), FAQResponder: output(0.9, [reply]) });
+
+      const confident = await orchestrator.process(newContext());
+      expect(confident).toMatchObject({ agentName: "FAQResponder", actionsExecuted: 1 });
+      expect(proposals()).toHaveLength(0);
+
+      outputs({ ChatAssistant: output(0.6, [reply]), FAQResponder: output(0.62, [reply]) });
+
+      const unsure = await orchestrator.process(newContext());
+      expect(unsure).toMatchObject({ agentName: "ChatAssistant", pendingApproval: true });
+      expect(proposals()[0]).toMatchObject({ reason: "LOW_CONFIDENCE", confidence: 0.6 });
+      expect(mockExecuteActions).toHaveBeenCalledTimes(1);
+    });
+
+    it("should refuse actions the client never allows and follow client overrides", async () => {
+      await setActionPolicies({ SEND_MESSAGE: "never", UPDATE_SETTINGS: "auto" });
+      outputs({ ChatAssistant: output(0.9, [reply]), FAQResponder: output(0.9, [settingsChange]) });
+
+      const result = await orchestrator.process(newContext());
+
+      expect(result).toMatchObject({ success: true, agentName: "FAQResponder", actionsExecuted: 1 });
+      expect(result.pendingApproval).toBeUndefined();
+      expect(proposals()).toHaveLength(0);
+    });
+
+    it("should gate agents run directly too", async () => {
+      outputs({ ChatAssistant: output(0.9, [settingsChange]) });
+
+      const result = await orchestrator.processWithAgent("ChatAssistant", newContext());
+
+      expect(result).toMatchObject({ pendingApproval: true });
+      expect(mockExecuteActions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("deciding", () => {
+    it("should run approved actions once", async () => {
+      const proposal = await queueProposal();
+
+      const approved = await approveProposal("client_1", proposal.id, { decidedBy: "user_owner", via: "dashboard" });
+
+      expect(approved).toMatchObject({ success: true, proposal: { status: "APPROVED", decidedBy: "user_owner", edited: false } });
+      expect(mockExecuteActions).toHaveBeenCalledWith(
+        [settingsChange],
+        expect.objectContaining({ clientId: "client_1", customerId: "cust_1" }),
+        "ChatAssistant"
+      );
+      await expect(
+        approveProposal("client_1", proposal.id, { decidedBy: "user_owner", via: "dashboard" })
+      ).resolves.toEqual({ success: false, reason: "NOT_PENDING" });
+      await expect(
+        rejectProposal("client_2", proposal.id, { decidedBy: "user_other", via: "dashboard" })
+      ).resolves.toEqual({ success: false, reason: "NOT_FOUND" });
+      expect(mockExecuteActions).toHaveBeenCalledTimes(1);
+    });
+
+    it("should check edited actions before running them", async () => {
+      const proposal = await queueProposal();
+      await setActionPolicies({ SEND_MESSAGE: "never" });
+
+      await expect(
+        approveProposal("client_1", proposal.id, {
+          decidedBy: "user_owner",
+          via: "dashboard",
+          actions: [{ type: "CREATE_TASK", payload: { description: "no title" } }],
+        })
+      ).resolves.toEqual({ success: false, reason: "INVALID_ACTIONS", detail: "Invalid CREATE_TASK payload: title: Required" });
+      await expect(
+        approveProposal("client_1", proposal.id, { decidedBy: "user_owner", via: "dashboard", actions: [reply] })
+      ).resolves.toEqual({ success: false, reason: "ACTION_NOT_ALLOWED" });
+
+      const edited = { type: "UPDATE_SETTINGS" as const, payload: { updates: { availability: "Mon-Fri 9-5" } } };
+      mockExecuteActions.mockResolvedValueOnce([{ success: false, error: "Settings not found" }]);
+
+      const result = await approveProposal("client_1", proposal.id, {
+        decidedBy: "user_owner",
+        via: "dashboard",
+        actions: [edited],
+      });
+
+      expect(result).toMatchObject({
+        success: true,
+        proposal: { status: "FAILED", edited: true, actions: [edited], error: "Settings not found" },
+      });
+    });
+
+    it("should never run a stale proposal", async () => {
+      const first = await queueProposal();
+      const second = await queueProposal();
+      jest.setSystemTime(new Date(NOW.getTime() + 25 * HOUR_MS));
+
+      await expect(
+        approveProposal("client_1", first.id, { decidedBy: "user_owner", via: "dashboard" })
+      ).resolves.toEqual({ success: false, reason: "EXPIRED" });
+      await expect(expireProposals()).resolves.toEqual({ expired: 1 });
+
+      expect(proposals().map((p) => p.status)).toEqual(["EXPIRED", "EXPIRED"]);
+      expect(second.status).toBe("EXPIRED");
+      expect(mockExecuteActions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("SMS replies", () => {
+    it("should take YES/NO codes from the owner's phone only", async () => {
+      const first = await queueProposal();
+      const second = await queueProposal();
+      expect(first.replyCode).not.toBe(second.replyCode);
+
+      await expect(
+        handleApprovalReply({ clientId: "client_1", from: "+447700900999", body: `YES ${first.replyCode}` })
+      ).resolves.toEqual({ handled: false });
+      await expect(
+        handleApprovalReply({ clientId: "client_1", from: "+447700900123", body: "yes please" })
+      ).resolves.toEqual({ handled: false });
+
+      await expect(
+        handleApprovalReply({ clientId: "client_1", from: "+447700900123", body: `yes ${first.replyCode}` })
+      ).resolves.toEqual({
+        handled: true,
+        decision: "APPROVE",
+        proposalId: first.id,
+        message: `Approved ${first.replyCode}. Done.`,
+      });
+      await expect(
+        handleApprovalReply({ clientId: "client_1", from: "+447700900123", body: `NO ${second.replyCode}.` })
+      ).resolves.toMatchObject({ handled: true, decision: "REJECT", proposalId: second.id });
+
+      expect(first).toMatchObject({ status: "APPROVED", decidedVia: "sms", decidedBy: "+447700900123" });
+      expect(second).toMatchObject({ status: "REJECTED", decidedVia: "sms" });
+      expect(mockExecuteActions).toHaveBeenCalledTimes(1);
+    });
+
+    it("should pick another code when a concurrent proposal took it", async () => {
+      const first = await queueProposal();
+      // Queued before the first was visible, and drawing the same code
+      mockPrisma.agentProposal.findMany.mockResolvedValueOnce([]);
+      mockRandomInt.mockReturnValueOnce(Number(first.replyCode));
+
+      const second = await queueProposal();
+
+      expect(mockPrisma.agentProposal.create).toHaveBeenCalledTimes(3);
+      expect(second.replyCode).toMatch(/^\d{4}$/);
+      expect(second.replyCode).not.toBe(first.replyCode);
+      expect(proposals().filter((p) => p.status === "PENDING")).toHaveLength(2);
+    });
+
+    it("should refuse a code that matches more than one proposal", async () => {
+      const first = await queueProposal();
+      mockPrisma.agentProposal.findMany.mockResolvedValueOnce([{ id: first.id }, { id: "proposal_other" }]);
+
+      await expect(
+        handleApprovalReply({ clientId: "client_1", from: "+447700900123", body: `YES ${first.replyCode}` })
+      ).resolves.toEqual({
+        handled: true,
+        decision: "APPROVE",
+        proposalId: null,
+        message: "More than one approval uses that code. Decide it on the dashboard.",
+      });
+      expect(first.status).toBe("PENDING");
+      expect(mockExecuteActions).not.toHaveBeenCalled();
+    });
+  });
+});
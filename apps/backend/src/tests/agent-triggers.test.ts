@@ -0,0 +1,255 @@
+jest.mock("../db", () => ({ prisma: jest.requireActual("./support/memoryPrisma").createMemoryPrisma() }));
+
+const mockProcessTrigger = jest.fn(async () => ({ success: true, agentName: "ReviewManager", executionTimeMs: 1 }));
+jest.mock("../agents/AgentService", () => {
+  const agentsByTrigger: Record<string, string[]> = {
+    INBOUND_SMS: ["LeadHandling", "AutoReschedule", "ChatAssistant", "FAQResponder"],
+    JOB_COMPLETED: ["ReviewManager"],
+    OVERDUE_PAYMENT: ["BillingNudger"],
+  };
+  return {
+    AgentService: jest.fn().mockImplementation(() => ({
+      processTrigger: mockProcessTrigger,
+      getAgentsForTrigger: (trigger: string) => agentsByTrigger[trigger] ?? [],
+    })),
+  };
+});
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "../db";
+import { memoryRows, resetMemoryPrisma, seedMemoryPrisma } from "./support/memoryPrisma";
+import { drainDomainEvents, emitDomainEvent, onDomainEvent } from "../services/DomainEvents";
+import {
+  dispatchAgentTrigger,
+  getEnabledAgents,
+  registerAgentTriggers,
+  toAgentTrigger,
+  unregisterAgentTriggers,
+} from "../agents/AgentTriggers";
+import { markCompletedBookings } from "../services/BookingReminderService";
+import { emitNoReplyTimeouts } from "../jobs/agentCronJobs";
+
+const NOW = new Date("2026-01-12T12:00:00Z");
+const hoursAgo = (hours: number) => new Date(NOW.getTime() - hours * 60 * 60 * 1000);
+const setAgentSettings = (agentSettings: Record<string, { enabled: boolean }> | null) =>
+  prisma.clientSettings.update({ where: { clientId: "client_1" }, data: { agentSettings: agentSettings ?? Prisma.DbNull } });
+
+const completedJob = {
+  type: "booking.completed" as const,
+  clientId: "client_1",
+  bookingId: "b_1",
+  customerId: "cust_1",
+};
+
+describe("Agent triggers", () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    resetMemoryPrisma(prisma);
+    await seedMemoryPrisma(prisma, {
+      client: [{ id: "client_1", businessName: "Ace Plumbing" }],
+      clientSettings: [
+        { clientId: "client_1", agentSettings: { ReviewManager: { enabled: true }, ChatAssistant: { enabled: false } } },
+      ],
+      clientControls: [{ clientId: "client_1" }],
+    });
+  });
+
+  afterEach(async () => {
+    await drainDomainEvents();
+    unregisterAgentTriggers();
+    jest.restoreAllMocks();
+  });
+
+  describe("DomainEvents", () => {
+    it("should run handlers after the emitter has moved on", async () => {
+      const handler = jest.fn();
+      const unsubscribe = onDomainEvent("booking.completed", handler);
+
+      emitDomainEvent(completedJob);
+      expect(handler).not.toHaveBeenCalled();
+
+      await drainDomainEvents();
+      expect(handler).toHaveBeenCalledWith(completedJob);
+
+      unsubscribe();
+      emitDomainEvent(completedJob);
+      await drainDomainEvents();
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it("should keep a failing handler away from the emitter and other handlers", async () => {
+      const healthy = jest.fn();
+      const unsubscribers = [
+        onDomainEvent("booking.completed", () => {
+          throw new Error("agent exploded");
+        }),
+        onDomainEvent("booking.completed", healthy),
+      ];
+
+      expect(() => emitDomainEvent(completedJob)).not.toThrow();
+      await drainDomainEvents();
+
+      expect(healthy).toHaveBeenCalled();
+      expect(console.error).toHaveBeenCalledWith(
+        "[DomainEvents] Handler failed",
+        expect.objectContaining({ type: "booking.completed", error: "agent exploded" })
+      );
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+    });
+  });
+
+  describe("toAgentTrigger", () => {
+    it("should map live events to agent triggers", () => {
+      expect(
+        toAgentTrigger({
+          type: "sms.received",
+          clientId: "client_1",
+          customerId: "cust_1",
+          conversationId: "conv_1",
+          messageId: "msg_1",
+          from: "+447700900123",
+          body: "Can you come Tuesday?",
+        })
+      ).toEqual({
+        trigger: "INBOUND_SMS",
+        customerId: "cust_1",
+        conversationId: "conv_1",
+        message: "Can you come Tuesday?",
+        metadata: { phone: "+447700900123", messageId: "msg_1" },
+      });
+      expect(toAgentTrigger(completedJob)).toMatchObject({ trigger: "JOB_COMPLETED", bookingId: "b_1" });
+    });
+
+    it("should only treat a move to DELINQUENT as an overdue payment", () => {
+      const billing = { type: "billing.status_changed" as const, clientId: "client_1", reason: "Stripe" };
+
+      expect(
+        toAgentTrigger({ ...billing, fromStatus: "ACTIVE", toStatus: "DELINQUENT" })
+      ).toMatchObject({ trigger: "OVERDUE_PAYMENT" });
+      expect(toAgentTrigger({ ...billing, fromStatus: "TRIAL_ACTIVE", toStatus: "ACTIVE" })).toBeNull();
+    });
+  });
+
+  describe("per-client enablement", () => {
+    it("should only count agents switched on explicitly", async () => {
+      await expect(getEnabledAgents("client_1")).resolves.toEqual(["ReviewManager"]);
+
+      await setAgentSettings(null);
+      await expect(getEnabledAgents("client_1")).resolves.toEqual([]);
+    });
+
+    it("should run nothing while AI is disabled", async () => {
+      await prisma.clientControls.update({ where: { clientId: "client_1" }, data: { aiDisabled: true } });
+
+      await expect(dispatchAgentTrigger(completedJob)).resolves.toBeNull();
+      expect(mockProcessTrigger).not.toHaveBeenCalled();
+    });
+
+    it("should restrict the orchestrator to the client's enabled agents", async () => {
+      await setAgentSettings({ LeadHandling: { enabled: false }, FAQResponder: { enabled: true } });
+
+      await dispatchAgentTrigger({
+        type: "sms.received",
+        clientId: "client_1",
+        customerId: "cust_1",
+        conversationId: "conv_1",
+        messageId: "msg_1",
+        from: "+447700900123",
+        body: "How much for a boiler service?",
+      });
+
+      expect(mockProcessTrigger).toHaveBeenCalledWith(
+        expect.objectContaining({ clientId: "client_1", trigger: "INBOUND_SMS" }),
+        ["FAQResponder"]
+      );
+    });
+
+    it("should skip the orchestrator when no enabled agent handles the trigger", async () => {
+      await expect(
+        dispatchAgentTrigger({
+          type: "billing.status_changed",
+          clientId: "client_1",
+          fromStatus: "ACTIVE",
+          toStatus: "DELINQUENT",
+          reason: "payment_failed",
+        })
+      ).resolves.toBeNull();
+      expect(mockProcessTrigger).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("sweeps", () => {
+    beforeEach(() => registerAgentTriggers());
+
+    it("should emit JOB_COMPLETED once for finished bookings that weren't missed", async () => {
+      const booking = (id: string, customerId: string, end: Date, reminderSentAt: Date | null = null) => ({
+        id,
+        clientId: "client_1",
+        customerId,
+        status: "CONFIRMED",
+        start: new Date(end.getTime() - 60 * 60 * 1000),
+        end,
+        reminderSentAt,
+      });
+      await seedMemoryPrisma(prisma, {
+        booking: [
+          booking("b_1", "cust_1", hoursAgo(2)),
+          // Reminded, never confirmed: markMissedBookings' job
+          booking("b_2", "cust_2", hoursAgo(2), hoursAgo(26)),
+          // Still inside the missed window
+          booking("b_3", "cust_3", hoursAgo(0.5)),
+        ],
+      });
+
+      await expect(markCompletedBookings(NOW)).resolves.toEqual({ completed: 1 });
+      await expect(markCompletedBookings(NOW)).resolves.toEqual({ completed: 0 });
+      await drainDomainEvents();
+
+      expect(memoryRows(prisma, "booking")[0].completedAt).toEqual(NOW);
+      expect(mockProcessTrigger).toHaveBeenCalledTimes(1);
+      expect(mockProcessTrigger).toHaveBeenCalledWith(
+        expect.objectContaining({ trigger: "JOB_COMPLETED", bookingId: "b_1", customerId: "cust_1" }),
+        ["ReviewManager"]
+      );
+    });
+
+    it("should emit NO_REPLY_TIMEOUT once per unanswered message", async () => {
+      const handler = jest.fn();
+      const unsubscribe = onDomainEvent("conversation.no_reply", handler);
+      const thread = (id: string, ...messages: Array<[direction: "INBOUND" | "OUTBOUND", hours: number]>) =>
+        prisma.conversation.create({
+          data: {
+            id,
+            clientId: "client_1",
+            customerId: `cust_${id}`,
+            mode: "OPERATIONAL",
+            messages: {
+              create: messages.map(([direction, hours]) => ({
+                clientId: "client_1",
+                direction,
+                type: "SMS" as const,
+                body: "Hi",
+                createdAt: hoursAgo(hours),
+              })),
+            },
+          },
+        });
+
+      await thread("conv_quiet", ["OUTBOUND", 30]);
+      await thread("conv_answered", ["OUTBOUND", 30], ["INBOUND", 20]);
+      await thread("conv_recent", ["OUTBOUND", 30], ["OUTBOUND", 2]);
+
+      await expect(emitNoReplyTimeouts(NOW)).resolves.toEqual({ emitted: 1 });
+      await expect(emitNoReplyTimeouts(NOW)).resolves.toEqual({ emitted: 0 });
+      await drainDomainEvents();
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith(
+        expect.objectContaining({ conversationId: "conv_quiet", lastMessageAt: hoursAgo(30) })
+      );
+      unsubscribe();
+    });
+  });
+});
@@ -0,0 +1,217 @@
+process.env.TZ = "UTC";
+
+import express from "express";
+import request from "supertest";
+
+jest.mock("../db", () => ({ prisma: jest.requireActual("./support/memoryPrisma").createMemoryPrisma() }));
+
+jest.mock("../services/OutboundQueue", () => ({
+  enqueueSms: jest.fn(async (input: any) => ({ id: "out_1", status: "SENT", ...input })),
+}));
+
+jest.mock("../modules/conversation/service", () => ({
+  findOrCreateConversation: jest.fn(async () => ({ id: "conv_1" })),
+  addMessage: jest.fn(async (message: any) => message),
+}));
+
+import { prisma } from "../db";
+import { memoryRows, resetMemoryPrisma, seedMemoryPrisma } from "./support/memoryPrisma";
+import { at } from "./support/fixtures";
+import { enqueueSms } from "../services/OutboundQueue";
+import { hashBookingToken, issueBookingLink } from "../services/BookingLinkService";
+import bookingPageRoutes from "../routes/booking-page";
+
+const mockPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+
+const links = () => memoryRows(prisma, "bookingLink");
+const bookings = () => memoryRows(prisma, "booking");
+
+const app = express();
+app.use(express.json());
+app.use("/api/booking-page", bookingPageRoutes);
+
+async function newLink(): Promise<string> {
+  const { url } = await issueBookingLink({ id: "lead_1", clientId: "client_1" });
+  return url.split("/book/")[1];
+}
+
+describe("Self-service booking page", () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date("2026-01-11T12:00:00Z"), doNotFake: ["nextTick", "setImmediate"] });
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    resetMemoryPrisma(prisma);
+    await seedMemoryPrisma(prisma, {
+      client: [{ id: "client_1", businessName: "Ace Plumbing", timezone: "Europe/London", twilioNumber: "+447700900000" }],
+      weeklyAvailability: [{ clientId: "client_1", weekday: 1, startTime: "09:00", endTime: "12:00" }],
+      customer: [{ id: "cust_1", clientId: "client_1", name: "Sam", phone: "+447700900123" }],
+      lead: [
+        {
+          id: "lead_1",
+          clientId: "client_1",
+          customerId: "cust_1",
+          state: "AWAITING_BOOKING",
+          jobType: "boiler repair",
+          location: "B49 5AB",
+        },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("should issue a page link and store only the token's hash", async () => {
+    const { url, expiresAt } = await issueBookingLink({ id: "lead_1", clientId: "client_1" });
+    const token = url.split("/book/")[1];
+
+    expect(url).toMatch(/\/book\/[0-9a-f]{48}$/);
+    expect(links()[0]).toMatchObject({ leadId: "lead_1", tokenHash: hashBookingToken(token) });
+    expect(JSON.stringify(links()[0])).not.toContain(token);
+    expect(expiresAt).toEqual(new Date("2026-01-25T12:00:00Z"));
+  });
+
+  it("should show the lead's job and the client's free slots", async () => {
+    const token = await newLink();
+
+    const res = await request(app).get(`/api/booking-page/${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({
+      businessName: "Ace Plumbing",
+      timeZone: "Europe/London",
+      customerName: "Sam",
+      jobType: "boiler repair",
+      booking: null,
+    });
+    expect(res.body.data.slots[0]).toEqual({ start: at("09:00").toISOString(), end: at("10:00").toISOString() });
+    expect(mockPrisma.weeklyAvailability.findMany).toHaveBeenCalled();
+  });
+
+  it("should book a slot, move the lead on and text a confirmation", async () => {
+    const token = await newLink();
+
+    const res = await request(app).post(`/api/booking-page/${token}/book`).send({ start: at("10:00").toISOString() });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data).toEqual({
+      booking: { start: at("10:00").toISOString(), end: at("11:00").toISOString() },
+      confirmationSent: true,
+    });
+    expect(mockPrisma.booking.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        clientId: "client_1",
+        customerId: "cust_1",
+        customerPhone: "+447700900123",
+        location: "B49 5AB",
+        status: "CONFIRMED",
+      }),
+    });
+    const [booking] = bookings();
+    expect(links()[0]).toMatchObject({ bookingId: booking.id, usedAt: expect.any(Date) });
+    expect(mockPrisma.lead.update).toHaveBeenCalledWith({ where: { id: "lead_1" }, data: { state: "BOOKED" } });
+    expect(mockPrisma.customer.update).toHaveBeenCalledWith({ where: { id: "cust_1" }, data: { state: "BOOKED" } });
+    expect(enqueueSms).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: "+447700900123",
+        from: "+447700900000",
+        body: "You're booked in with Ace Plumbing for tomorrow at 10 AM. We'll text you a reminder beforehand.",
+        conversationId: "conv_1",
+        idempotencyKey: `booking-confirmation:${booking.id}`,
+        quietHours: false,
+      })
+    );
+    expect(booking.confirmationSentAt).toEqual(expect.any(Date));
+
+    // The page then shows the booking, and the link can't book again
+    const page = await request(app).get(`/api/booking-page/${token}`);
+    expect(page.body.data).toMatchObject({ slots: [], booking: { start: at("10:00").toISOString() } });
+
+    const again = await request(app).post(`/api/booking-page/${token}/book`).send({ start: at("11:00").toISOString() });
+    expect(again.status).toBe(409);
+    expect(again.body.error.code).toBe("ALREADY_BOOKED");
+  });
+
+  it("should refuse times that aren't free", async () => {
+    const token = await newLink();
+    await seedMemoryPrisma(prisma, {
+      booking: [{ clientId: "client_1", start: at("10:00"), end: at("11:00"), status: "CONFIRMED" }],
+    });
+
+    const taken = await request(app).post(`/api/booking-page/${token}/book`).send({ start: at("10:00").toISOString() });
+    const closed = await request(app).post(`/api/booking-page/${token}/book`).send({ start: at("14:00").toISOString() });
+
+    expect(taken.status).toBe(409);
+    expect(taken.body.error.code).toBe("SLOT_UNAVAILABLE");
+    expect(closed.status).toBe(409);
+    expect(mockPrisma.booking.create).not.toHaveBeenCalled();
+    expect(links()[0].usedAt).toBeNull();
+  });
+
+  it("should book a slot once when two leads' links race for it", async () => {
+    await seedMemoryPrisma(prisma, {
+      customer: [{ id: "cust_2", clientId: "client_1", name: "Alex", phone: "+447700900456" }],
+      lead: [{ id: "lead_2", clientId: "client_1", customerId: "cust_2", state: "AWAITING_BOOKING" }],
+    });
+    const first = await newLink();
+    const { url } = await issueBookingLink({ id: "lead_2", clientId: "client_1" });
+    const second = url.split("/book/")[1];
+
+    // Run transactions one after another, as the client's advisory lock does
+    let held = Promise.resolve();
+    const transaction = prisma.$transaction as unknown as jest.Mock;
+    transaction.mockImplementation((fn: (tx: unknown) => Promise<unknown>) => {
+      const run = held.then(() => fn(prisma));
+      held = run.then(
+        () => {},
+        () => {}
+      );
+      return run;
+    });
+
+    const results = await Promise.all(
+      [first, second].map((token) =>
+        request(app).post(`/api/booking-page/${token}/book`).send({ start: at("10:00").toISOString() })
+      )
+    );
+
+    expect(results.map((res) => res.status).sort()).toEqual([201, 409]);
+    expect(bookings()).toHaveLength(1);
+    expect((prisma.$executeRaw as unknown as jest.Mock).mock.calls[0]).toEqual([
+      expect.arrayContaining([expect.stringContaining("pg_advisory_xact_lock")]),
+      "booking:client_1",
+    ]);
+    // The losing link can still be used for another time
+    expect(links().filter((link) => link.usedAt)).toHaveLength(1);
+  });
+
+  it("should reject unknown and expired links", async () => {
+    const token = await newLink();
+    await prisma.bookingLink.updateMany({ data: { expiresAt: new Date("2026-01-11T00:00:00Z") } });
+
+    const expired = await request(app).get(`/api/booking-page/${token}`);
+    const unknown = await request(app).get("/api/booking-page/nope");
+    const invalid = await request(app).post(`/api/booking-page/${token}/book`).send({ start: "soon" });
+
+    expect(expired.status).toBe(410);
+    expect(unknown.status).toBe(404);
+    expect(invalid.status).toBe(400);
+  });
+
+  it("should book without texting customers who opted out", async () => {
+    const token = await newLink();
+    await seedMemoryPrisma(prisma, {
+      smsConsent: [{ clientId: "client_1", phone: "+447700900123", status: "OPTED_OUT" }],
+    });
+
+    const res = await request(app).post(`/api/booking-page/${token}/book`).send({ start: at("09:00").toISOString() });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.confirmationSent).toBe(false);
+    expect(enqueueSms).not.toHaveBeenCalled();
+  });
+});
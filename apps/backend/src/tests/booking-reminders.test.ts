@@ -0,0 +1,265 @@
+process.env.TZ = "UTC";
+
+jest.mock("../db", () => ({ prisma: jest.requireActual("./support/memoryPrisma").createMemoryPrisma() }));
+
+jest.mock("../services/OutboundQueue", () => ({
+  enqueueSms: jest.fn(async (input: any) => ({ id: "out_1", status: "QUEUED", ...input })),
+}));
+
+jest.mock("../modules/conversation/service", () => ({
+  findOrCreateConversation: jest.fn(async () => ({ id: "conv_1" })),
+  addMessage: jest.fn(async (message: any) => message),
+}));
+
+const mockProcessRescheduleRequest = jest.fn(async () => ({}));
+jest.mock("../agents/AgentService", () => ({
+  AgentService: jest.fn().mockImplementation(() => ({
+    processRescheduleRequest: mockProcessRescheduleRequest,
+  })),
+}));
+
+import { prisma } from "../db";
+import { memoryRows, resetMemoryPrisma, seedMemoryPrisma } from "./support/memoryPrisma";
+import { enqueueSms } from "../services/OutboundQueue";
+import { addMessage } from "../modules/conversation/service";
+import {
+  handleBookingReply,
+  isReminderDue,
+  markMissedBookings,
+  parseBookingReply,
+  sendDueReminders,
+} from "../services/BookingReminderService";
+
+const mockPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+
+const NOW = new Date("2026-01-12T08:00:00Z");
+const at = (iso: string) => new Date(`2026-01-${iso}:00.000Z`);
+
+const bookings = () => memoryRows(prisma, "booking");
+const seedBookings = (...rows: Array<ReturnType<typeof booking>>) => seedMemoryPrisma(prisma, { booking: rows });
+const setReminderSettings = (reminderHoursBefore: number[], missedAfterMinutes: number) =>
+  prisma.clientSettings.update({ where: { clientId: "client_1" }, data: { reminderHoursBefore, missedAfterMinutes } });
+
+function booking(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "b_1",
+    clientId: "client_1",
+    customerId: "cust_1",
+    customerPhone: "+447700900123",
+    recurrenceRuleId: null,
+    status: "CONFIRMED",
+    createdAt: at("01T09:00"),
+    start: at("12T10:00"),
+    end: at("12T11:00"),
+    reminderSentAt: null,
+    customerConfirmedAt: null,
+    ...overrides,
+  };
+}
+
+describe("Booking reminders", () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: NOW, doNotFake: ["nextTick", "setImmediate"] });
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    resetMemoryPrisma(prisma);
+    await seedMemoryPrisma(prisma, {
+      client: [{ id: "client_1", businessName: "Ace Plumbing", timezone: "Europe/London", twilioNumber: "+447700900000" }],
+      clientSettings: [{ clientId: "client_1" }],
+      clientControls: [{ clientId: "client_1" }],
+      customer: [{ id: "cust_1", clientId: "client_1", phone: "+447700900123" }],
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe("isReminderDue", () => {
+    const start = at("12T10:00");
+
+    it("should be due once each point in the schedule passes", () => {
+      const createdAt = at("01T09:00");
+
+      expect(isReminderDue({ start, createdAt, reminderSentAt: null }, [24, 2], at("11T09:59"))).toBe(false);
+      expect(isReminderDue({ start, createdAt, reminderSentAt: null }, [24, 2], at("11T10:00"))).toBe(true);
+      expect(isReminderDue({ start, createdAt, reminderSentAt: at("11T10:00") }, [24, 2], at("12T07:00"))).toBe(false);
+      expect(isReminderDue({ start, createdAt, reminderSentAt: at("11T10:00") }, [24, 2], at("12T08:00"))).toBe(true);
+    });
+
+    it("should skip points that passed before the booking was made", () => {
+      const createdAt = at("12T06:00");
+
+      expect(isReminderDue({ start, createdAt, reminderSentAt: null }, [24], at("12T08:00"))).toBe(false);
+      expect(isReminderDue({ start, createdAt, reminderSentAt: null }, [24, 2], at("12T08:00"))).toBe(true);
+    });
+
+    it("should never be due with an empty schedule", () => {
+      expect(isReminderDue({ start, createdAt: at("01T09:00"), reminderSentAt: null }, [], NOW)).toBe(false);
+    });
+  });
+
+  describe("sendDueReminders", () => {
+    it("should text due reminders asking for C/R/X", async () => {
+      await seedBookings(booking(), booking({ id: "b_2", start: at("13T10:00"), end: at("13T11:00") }));
+
+      await expect(sendDueReminders(NOW)).resolves.toEqual({ sent: 1, skipped: 0 });
+
+      expect(enqueueSms).toHaveBeenCalledTimes(1);
+      expect(enqueueSms).toHaveBeenCalledWith({
+        to: "+447700900123",
+        from: "+447700900000",
+        body: "Reminder: your appointment with Ace Plumbing is today at 10 AM. Reply C to confirm, R to reschedule or X to cancel.",
+        source: "booking_reminder",
+        clientId: "client_1",
+        customerId: "cust_1",
+        conversationId: "conv_1",
+        metadata: { bookingId: "b_1" },
+        idempotencyKey: "booking-reminder:b_1:2026-01-01T09:00:00.000Z",
+        expiresAt: at("12T10:00"),
+      });
+      expect(bookings()[0].reminderSentAt).toEqual(NOW);
+      expect(bookings()[1].reminderSentAt).toBeNull();
+      expect(mockPrisma.booking.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ status: { in: ["NEW", "CONFIRMED"] }, recurrenceRuleId: null }),
+        })
+      );
+    });
+
+    it("should follow the client's schedule and drop the prompt once confirmed", async () => {
+      await setReminderSettings([3], 60);
+      await seedBookings(booking({ customerConfirmedAt: at("11T12:00") }));
+
+      await expect(sendDueReminders(at("12T06:59"))).resolves.toEqual({ sent: 0, skipped: 0 });
+      await expect(sendDueReminders(at("12T07:00"))).resolves.toEqual({ sent: 1, skipped: 0 });
+
+      expect((enqueueSms as jest.Mock).mock.calls[0][0].body).toBe(
+        "Reminder: your appointment with Ace Plumbing is today at 10 AM."
+      );
+    });
+
+    it("should mark opted-out customers' reminders without texting", async () => {
+      await seedMemoryPrisma(prisma, {
+        smsConsent: [{ clientId: "client_1", phone: "+447700900123", status: "OPTED_OUT" }],
+      });
+      await seedBookings(booking());
+
+      await expect(sendDueReminders(NOW)).resolves.toEqual({ sent: 0, skipped: 1 });
+
+      expect(enqueueSms).not.toHaveBeenCalled();
+      expect(bookings()[0].reminderSentAt).toEqual(NOW);
+    });
+  });
+
+  describe("markMissedBookings", () => {
+    it("should mark reminded, unconfirmed bookings once the window passes", async () => {
+      await seedBookings(booking({ reminderSentAt: at("12T08:00") }));
+
+      await expect(markMissedBookings(at("12T11:59"))).resolves.toEqual({ missed: 0 });
+      await expect(markMissedBookings(at("12T12:00"))).resolves.toEqual({ missed: 1 });
+
+      expect(bookings()[0].status).toBe("MISSED");
+      expect(mockPrisma.booking.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ["b_1"] }, status: { in: ["NEW", "CONFIRMED"] }, customerConfirmedAt: null },
+        data: { status: "MISSED" },
+      });
+    });
+
+    it("should use the client's missedAfterMinutes", async () => {
+      await setReminderSettings([24], 0);
+      await seedBookings(booking({ reminderSentAt: at("12T08:00") }));
+
+      await expect(markMissedBookings(at("12T11:01"))).resolves.toEqual({ missed: 1 });
+    });
+  });
+
+  describe("parseBookingReply", () => {
+    it.each([
+      ["C", "CONFIRM"],
+      [" confirm. ", "CONFIRM"],
+      ["r", "RESCHEDULE"],
+      ["Reschedule", "RESCHEDULE"],
+      ["X", "CANCEL"],
+    ])("should read %p as %s", (body, reply) => {
+      expect(parseBookingReply(body)).toBe(reply);
+    });
+
+    it.each(["CANCEL", "can you come earlier", "", undefined])("should ignore %p", (body) => {
+      expect(parseBookingReply(body)).toBeNull();
+    });
+  });
+
+  describe("handleBookingReply", () => {
+    const reply = (body: string) =>
+      handleBookingReply({ clientId: "client_1", from: "07700 900123", body, messageSid: "SM_in" });
+
+    beforeEach(async () => {
+      await seedBookings(booking({ status: "NEW", reminderSentAt: at("11T10:00") }));
+    });
+
+    it("should confirm the reminded booking", async () => {
+      await expect(reply("C")).resolves.toEqual({
+        handled: true,
+        reply: "CONFIRM",
+        bookingId: "b_1",
+        message: "Thanks — you're confirmed for today at 10 AM. See you then!",
+      });
+
+      expect(bookings()[0]).toMatchObject({ status: "CONFIRMED", customerConfirmedAt: NOW });
+      expect(mockPrisma.booking.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            OR: [{ customer: { phone: "+447700900123" } }, { customerPhone: "+447700900123" }],
+          }),
+        })
+      );
+      expect(addMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ direction: "INBOUND", body: "C", twilioSid: "SM_in" })
+      );
+    });
+
+    it("should cancel on X", async () => {
+      const result = await reply("x");
+
+      expect(result).toMatchObject({ handled: true, reply: "CANCEL" });
+      expect(bookings()[0].status).toBe("CANCELLED");
+    });
+
+    it("should hand R to AutoRescheduleAgent", async () => {
+      const result = await reply("R");
+
+      expect(result).toMatchObject({
+        handled: true,
+        reply: "RESCHEDULE",
+        message: "No problem — we'll be in touch shortly with some new times.",
+      });
+      expect(bookings()[0].status).toBe("RESCHEDULED");
+      expect(mockProcessRescheduleRequest).toHaveBeenCalledWith({
+        clientId: "client_1",
+        customerId: "cust_1",
+        bookingId: "b_1",
+        conversationId: "conv_1",
+        message: "R",
+      });
+    });
+
+    it("should leave rescheduling to the team when AI is off", async () => {
+      await prisma.clientControls.update({ where: { clientId: "client_1" }, data: { aiDisabled: true } });
+
+      await expect(reply("R")).resolves.toMatchObject({ handled: true, reply: "RESCHEDULE" });
+      expect(mockProcessRescheduleRequest).not.toHaveBeenCalled();
+    });
+
+    it("should not handle other texts or customers without a reminded booking", async () => {
+      await expect(reply("Is 11 ok instead?")).resolves.toEqual({ handled: false });
+
+      await prisma.booking.deleteMany();
+      await expect(reply("C")).resolves.toEqual({ handled: false });
+      expect(addMessage).not.toHaveBeenCalled();
+    });
+  });
+});
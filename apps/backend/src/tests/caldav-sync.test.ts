@@ -0,0 +1,396 @@
+process.env.TZ = "UTC";
+
+import http from "http";
+import { AddressInfo } from "net";
+
+jest.mock("../db", () => ({ prisma: jest.requireActual("./support/memoryPrisma").createMemoryPrisma() }));
+
+const mockHandleCalendarConflict = jest.fn(async () => ({}));
+jest.mock("../agents/AgentService", () => ({
+  AgentService: jest.fn().mockImplementation(() => ({ handleCalendarConflict: mockHandleCalendarConflict })),
+}));
+
+import { prisma } from "../db";
+import { memoryRows, resetMemoryPrisma, seedMemoryPrisma } from "./support/memoryPrisma";
+import { CalDavClient } from "../lib/calendar/CalDavClient";
+import { ICalendar } from "../lib/calendar/ICalendar";
+import { SlotFinder } from "../services/SlotFinder";
+import { createConnection, syncConnection } from "../services/CalDavSyncService";
+import { encryptSecret } from "../utils/secretBox";
+
+const mockPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+
+/**
+ * Just enough of a CalDAV server for the client: one collection at
+ * /cal/jobs/, Basic auth alice:secret, REPORT returns every object.
+ */
+function startFakeCalDav() {
+  const objects = new Map<string, string>();
+  const requests: string[] = [];
+  let etag = 0;
+
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      requests.push(`${req.method} ${req.url}`);
+
+      if (req.url!.startsWith("/moved/")) {
+        res.writeHead(302, { Location: "http://169.254.169.254/latest/meta-data/" }).end();
+        return;
+      }
+
+      if (req.headers.authorization !== `Basic ${Buffer.from("alice:secret").toString("base64")}`) {
+        res.writeHead(401).end();
+        return;
+      }
+
+      if (req.method === "PROPFIND") {
+        res.writeHead(207, { "Content-Type": "application/xml" }).end(
+          `<?xml version="1.0"?><D:multistatus xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">` +
+            `<D:response><D:href>/cal/jobs/</D:href><D:propstat><D:prop>` +
+            `<D:resourcetype><D:collection/><C:calendar/></D:resourcetype><D:displayname>Jobs &amp; diary</D:displayname>` +
+            `</D:prop></D:propstat></D:response></D:multistatus>`
+        );
+      } else if (req.method === "REPORT") {
+        const responses = Array.from(objects, ([href, ics]) =>
+          `<d:response><d:href>${href}</d:href><d:propstat><d:prop><d:getetag>"${href.length}"</d:getetag>` +
+            `<cal:calendar-data>${ics.replace(/&/g, "&amp;").replace(/</g, "&lt;")}</cal:calendar-data></d:prop></d:propstat></d:response>`
+        ).join("");
+        res.writeHead(207).end(`<d:multistatus xmlns:d="DAV:" xmlns:cal="urn:ietf:params:xml:ns:caldav">${responses}</d:multistatus>`);
+      } else if (req.method === "PUT") {
+        objects.set(req.url!, body);
+        res.writeHead(201, { ETag: `"${++etag}"` }).end();
+      } else if (req.method === "DELETE") {
+        res.writeHead(objects.delete(req.url!) ? 204 : 404).end();
+      } else {
+        res.writeHead(405).end();
+      }
+    });
+  });
+
+  return new Promise<{ url: string; objects: Map<string, string>; requests: string[]; close: () => Promise<void> }>((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}/cal/jobs/`,
+        objects,
+        requests,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+function vcalendar(...events: string[][]): string {
+  return ["BEGIN:VCALENDAR", "VERSION:2.0", ...events.flatMap((e) => ["BEGIN:VEVENT", ...e, "END:VEVENT"]), "END:VCALENDAR"].join("\r\n");
+}
+
+const busyTimes = () => memoryRows(prisma, "calendarBusyTime");
+const seedBookings = (...rows: Array<ReturnType<typeof booking>>) => seedMemoryPrisma(prisma, { booking: rows });
+const updateConnection = (data: { pullEnabled?: boolean; pushEnabled?: boolean }) =>
+  prisma.calendarConnection.update({ where: { id: "conn_1" }, data });
+
+function booking(id: string, start: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    clientId: "client_1",
+    start: new Date(start),
+    end: new Date(new Date(start).getTime() + 60 * 60 * 1000),
+    updatedAt: new Date("2026-06-01T00:00:00Z"),
+    status: "CONFIRMED",
+    isAllDay: false,
+    customerName: `Customer ${id}`,
+    customerPhone: null,
+    customerEmail: null,
+    notes: null,
+    externalSyncId: null,
+    ...overrides,
+  };
+}
+
+describe("CalDAV sync", () => {
+  let dav: Awaited<ReturnType<typeof startFakeCalDav>>;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date("2026-06-08T07:00:00Z"), doNotFake: ["nextTick", "setImmediate", "queueMicrotask"] });
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    process.env.CALDAV_ALLOWED_HOSTS = "127.0.0.1";
+    dav = await startFakeCalDav();
+    resetMemoryPrisma(prisma);
+    await seedMemoryPrisma(prisma, {
+      client: [{ id: "client_1", businessName: "Acme Plumbing", timezone: "Europe/London" }],
+      weeklyAvailability: [0, 1, 2, 3, 4, 5, 6].map((weekday) => ({
+        clientId: "client_1",
+        weekday,
+        startTime: "09:00",
+        endTime: "12:00",
+      })),
+      calendarConnection: [
+        {
+          id: "conn_1",
+          clientId: "client_1",
+          name: "Diary",
+          collectionUrl: dav.url,
+          username: "alice",
+          passwordEncrypted: encryptSecret("secret"),
+          pullEnabled: true,
+          pushEnabled: true,
+        },
+      ],
+    });
+  });
+
+  afterEach(async () => {
+    await dav.close();
+    delete process.env.CALDAV_ALLOWED_HOSTS;
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe("CalDavClient", () => {
+    it("should check, write, list and delete calendar objects", async () => {
+      const client = new CalDavClient({ collectionUrl: dav.url.replace(/\/$/, ""), username: "alice", password: "secret" });
+
+      expect(await client.checkCollection()).toEqual({ ok: true, displayName: "Jobs & diary" });
+
+      const put = await client.putEvent("a b@example.com", vcalendar(["UID:a b@example.com", "DTSTART:20260610T090000Z"]));
+      expect(put).toEqual({ ok: true, href: `${dav.url}a%20b%40example.com.ics`, etag: '"1"' });
+
+      const query = await client.queryEvents(new Date("2026-06-01T00:00:00Z"), new Date("2026-07-01T00:00:00Z"));
+      expect(query.ok && query.objects.map((o) => [o.href, o.ics.includes("UID:a b@example.com")])).toEqual([
+        [`${dav.url}a%20b%40example.com.ics`, true],
+      ]);
+
+      expect(await client.deleteEvent(`${dav.url}a%20b%40example.com.ics`)).toEqual({ ok: true });
+      expect(await client.deleteEvent(`${dav.url}a%20b%40example.com.ics`)).toEqual({ ok: true });
+    });
+
+    it("should report bad credentials without throwing", async () => {
+      const client = new CalDavClient({ collectionUrl: dav.url, username: "alice", password: "wrong" });
+
+      expect(await client.checkCollection()).toEqual({ ok: false, status: 401, error: "CalDAV server rejected the credentials" });
+    });
+
+    it("should refuse connections the server rejects", async () => {
+      const result = await createConnection("client_1", { collectionUrl: dav.url, username: "alice", password: "nope" });
+
+      expect(result).toEqual({ success: false, reason: "CONNECTION_FAILED", error: "CalDAV server rejected the credentials" });
+      expect(mockPrisma.calendarConnection.create).not.toHaveBeenCalled();
+    });
+
+    it("should refuse internal addresses unless the host is allowed", async () => {
+      delete process.env.CALDAV_ALLOWED_HOSTS;
+
+      for (const collectionUrl of [dav.url, "http://169.254.169.254/latest/", "https://10.0.0.5/cal/", "http://[::1]:5232/cal/"]) {
+        expect(await createConnection("client_1", { collectionUrl, username: "alice", password: "secret" })).toEqual({
+          success: false,
+          reason: "INVALID_URL",
+          error: "CalDAV server address is not allowed",
+        });
+      }
+      expect(await syncConnection("client_1", "conn_1")).toMatchObject({
+        summary: { errors: ["CalDAV server address is not allowed"] },
+      });
+      expect(dav.requests).toEqual([]);
+    });
+
+    it("should not follow hrefs or redirects to internal addresses", async () => {
+      const client = new CalDavClient({ collectionUrl: dav.url, username: "alice", password: "secret" });
+      const refused = { ok: false, error: "CalDAV server address is not allowed" };
+
+      expect(await client.deleteEvent("http://169.254.169.254/latest/meta-data/")).toEqual(refused);
+      expect(await client.putEvent("a@example.com", "BEGIN:VCALENDAR", "http://192.168.1.1/a.ics")).toEqual(refused);
+
+      const moved = new CalDavClient({ collectionUrl: dav.url.replace("/cal/", "/moved/"), username: "alice", password: "secret" });
+      expect(await moved.checkCollection()).toEqual({
+        ok: false,
+        status: 302,
+        error: "CalDAV server redirected; use the calendar's final URL",
+      });
+      expect(dav.requests).toEqual([`PROPFIND /moved/jobs/`]);
+    });
+
+    it("should store connections with the password encrypted", async () => {
+      const result = await createConnection("client_1", { collectionUrl: dav.url, username: "alice", password: "secret" });
+
+      expect(result).toMatchObject({ success: true, connection: { name: "Jobs & diary", collectionUrl: dav.url } });
+      const { data } = mockPrisma.calendarConnection.create.mock.calls[0][0];
+      expect(data.passwordEncrypted).not.toContain("secret");
+      expect(JSON.stringify(result)).not.toContain("passwordEncrypted");
+    });
+  });
+
+  describe("pull", () => {
+    beforeEach(async () => {
+      await updateConnection({ pushEnabled: false });
+      dav.objects.set(
+        "/cal/jobs/dentist.ics",
+        vcalendar([
+          "UID:dentist@example.com",
+          "DTSTART;TZID=Europe/London:20260610T100000",
+          "DTEND;TZID=Europe/London:20260610T110000",
+          "SUMMARY:Dentist",
+        ])
+      );
+      dav.objects.set(
+        "/cal/jobs/gym.ics",
+        vcalendar([
+          "UID:gym@example.com",
+          "DTSTART;TZID=Europe/London:20260609T070000",
+          "DURATION:PT1H",
+          "RRULE:FREQ=DAILY;COUNT=3",
+          "SUMMARY:Gym",
+        ])
+      );
+      dav.objects.set(
+        "/cal/jobs/ignored.ics",
+        vcalendar(
+          ["UID:booking-b_old@jobrun", "DTSTART:20260610T080000Z", "DTEND:20260610T090000Z"],
+          ["UID:free@example.com", "TRANSP:TRANSPARENT", "DTSTART:20260610T080000Z", "DTEND:20260610T090000Z"],
+          ["UID:cancelled@example.com", "STATUS:CANCELLED", "DTSTART:20260610T080000Z", "DTEND:20260610T090000Z"]
+        )
+      );
+    });
+
+    it("should store busy time, skipping free, cancelled and our own events", async () => {
+      const result = await syncConnection("client_1", "conn_1");
+
+      expect(result).toMatchObject({ success: true, summary: { busyTimes: 4, added: 4, removed: 0, errors: [] } });
+      expect(busyTimes().map((b) => [b.uid, b.start.toISOString()]).sort()).toEqual([
+        ["dentist@example.com", "2026-06-10T09:00:00.000Z"],
+        ["gym@example.com", "2026-06-09T06:00:00.000Z"],
+        ["gym@example.com", "2026-06-10T06:00:00.000Z"],
+        ["gym@example.com", "2026-06-11T06:00:00.000Z"],
+      ]);
+      expect(mockPrisma.calendarConnection.update).toHaveBeenCalledWith({
+        where: { id: "conn_1" },
+        data: { lastSyncedAt: expect.any(Date), lastError: null },
+      });
+    });
+
+    it("should only change what changed on the next pull", async () => {
+      await syncConnection("client_1", "conn_1");
+      dav.objects.delete("/cal/jobs/gym.ics");
+
+      const result = await syncConnection("client_1", "conn_1");
+
+      expect(result).toMatchObject({ success: true, summary: { busyTimes: 1, added: 0, removed: 3 } });
+      expect(busyTimes().map((b) => b.uid)).toEqual(["dentist@example.com"]);
+    });
+
+    it("should send clashes with bookings to the ConflictResolver once", async () => {
+      await seedBookings(booking("b_1", "2026-06-10T09:30:00Z"));
+
+      const first = await syncConnection("client_1", "conn_1");
+      const second = await syncConnection("client_1", "conn_1");
+
+      expect(first).toMatchObject({ summary: { conflicts: 1 } });
+      expect(second).toMatchObject({ summary: { conflicts: 0 } });
+      expect(mockHandleCalendarConflict).toHaveBeenCalledTimes(1);
+      expect(mockHandleCalendarConflict).toHaveBeenCalledWith({
+        clientId: "client_1",
+        bookingId: "b_1",
+        conflictData: expect.objectContaining({
+          source: "CALDAV",
+          externalEvent: expect.objectContaining({ uid: "dentist@example.com", summary: "Dentist" }),
+        }),
+      });
+    });
+
+    it("should keep pulled busy time out of offered slots", async () => {
+      await syncConnection("client_1", "conn_1");
+
+      const slots = await SlotFinder.findAvailableSlots({
+        clientId: "client_1",
+        preferredDate: new Date("2026-06-10T00:00:00Z"),
+        durationMinutes: 60,
+        searchDaysAhead: 0,
+      });
+
+      // Open 09:00-12:00 London; 10:00-11:00 is the dentist
+      expect(slots.map((s) => s.start.toISOString())).toEqual(["2026-06-10T08:00:00.000Z", "2026-06-10T10:00:00.000Z"]);
+    });
+  });
+
+  describe("push", () => {
+    beforeEach(async () => {
+      await updateConnection({ pullEnabled: false });
+    });
+
+    it("should push new and changed bookings, and remove cancelled ones", async () => {
+      await seedBookings(
+        booking("b_1", "2026-06-10T09:00:00Z"),
+        booking("b_imported", "2026-06-11T09:00:00Z", { externalSyncId: "elsewhere@example.com" })
+      );
+
+      const first = await syncConnection("client_1", "conn_1");
+      expect(first).toMatchObject({ summary: { pushed: 1, deleted: 0, errors: [] } });
+      expect(Array.from(dav.objects.keys())).toEqual(["/cal/jobs/booking-b_1%40jobrun.ics"]);
+
+      const ics = ICalendar.parse(dav.objects.get("/cal/jobs/booking-b_1%40jobrun.ics")!);
+      expect(ics.ok && ics.calendar.events[0]).toMatchObject({
+        uid: "booking-b_1@jobrun",
+        summary: "Customer b_1",
+        start: { date: new Date("2026-06-10T09:00:00Z") },
+      });
+
+      // Unchanged: nothing to push
+      dav.requests.length = 0;
+      expect(await syncConnection("client_1", "conn_1")).toMatchObject({ summary: { pushed: 0 } });
+      expect(dav.requests).toEqual([]);
+
+      await prisma.booking.update({ where: { id: "b_1" }, data: { status: "CANCELLED" } });
+      expect(await syncConnection("client_1", "conn_1")).toMatchObject({ summary: { deleted: 1 } });
+      expect(dav.objects.size).toBe(0);
+      expect(memoryRows(prisma, "calendarPushedBooking")).toEqual([]);
+    });
+
+    it("should leave past bookings on the calendar", async () => {
+      await seedMemoryPrisma(prisma, {
+        booking: [booking("b_past", "2026-06-01T09:00:00Z")],
+        calendarPushedBooking: [
+          {
+            connectionId: "conn_1",
+            bookingId: "b_past",
+            href: `${dav.url}booking-b_past%40jobrun.ics`,
+            bookingVersion: new Date(),
+          },
+        ],
+      });
+
+      expect(await syncConnection("client_1", "conn_1")).toMatchObject({ summary: { deleted: 0 } });
+      expect(dav.requests.filter((r) => r.startsWith("DELETE"))).toEqual([]);
+    });
+  });
+});
+
+// Against a real server, e.g. Radicale (see ENV_VARS.md); skipped by default
+const radicale = process.env.CALDAV_TEST_URL ? describe : describe.skip;
+
+radicale("CalDavClient against CALDAV_TEST_URL", () => {
+  const client = new CalDavClient({
+    collectionUrl: process.env.CALDAV_TEST_URL || "",
+    username: process.env.CALDAV_TEST_USER || "jobrun",
+    password: process.env.CALDAV_TEST_PASSWORD || "jobrun",
+  });
+
+  it("should round-trip an event", async () => {
+    const uid = `caldav-test-${Date.now()}@jobrun.test`;
+    const start = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    const ics = ICalendar.serialize({
+      events: [{ uid, stamp: new Date(), start, end: new Date(start.getTime() + 60 * 60 * 1000), summary: "CalDAV test" }],
+    });
+
+    expect(await client.checkCollection()).toMatchObject({ ok: true });
+    const put = await client.putEvent(uid, ics);
+    expect(put.ok).toBe(true);
+
+    const query = await client.queryEvents(new Date(), new Date(start.getTime() + 2 * 60 * 60 * 1000));
+    expect(query.ok && query.objects.some((o) => o.ics.includes(uid))).toBe(true);
+
+    if (put.ok) expect(await client.deleteEvent(put.href)).toEqual({ ok: true });
+  });
+});
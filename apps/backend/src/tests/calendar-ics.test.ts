@@ -0,0 +1,412 @@
+process.env.TZ = "UTC";
+
+import express from "express";
+import request from "supertest";
+import jwt from "jsonwebtoken";
+
+jest.mock("../db", () => {
+  const model = () => ({
+    findUnique: jest.fn(async () => null),
+    findFirst: jest.fn(async () => null),
+    findMany: jest.fn(async () => []),
+    create: jest.fn(async () => ({})),
+    createMany: jest.fn(async () => ({ count: 0 })),
+    update: jest.fn(async () => ({})),
+    upsert: jest.fn(async () => ({})),
+    deleteMany: jest.fn(async () => ({ count: 0 })),
+  });
+  return {
+    prisma: {
+      client: model(),
+      booking: model(),
+      blockedTime: model(),
+      calendarFeed: model(),
+      recurrenceRule: model(),
+      recurrenceOverride: model(),
+      clientMembership: model(),
+    },
+  };
+});
+
+import { ClientMemberRole } from "@prisma/client";
+import { prisma } from "../db";
+import { ICalendar } from "../lib/calendar/ICalendar";
+import { RecurrenceEngine } from "../lib/calendar/RecurrenceEngine";
+import { bookingToEvents, hashFeedToken, toDayBlocks } from "../services/CalendarSyncService";
+import clientCalendarRoutes from "../routes/client-calendar";
+import calendarFeedRoutes from "../routes/calendar-feed";
+
+const JWT_SECRET = process.env.JWT_SECRET || "jobrun-secret-key-change-in-production";
+const CLIENT_ID = "client_a";
+const LONDON = "Europe/London";
+
+const mockPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+
+function buildApp() {
+  const app = express();
+  app.use(express.json());
+  app.use("/api/client/calendar", clientCalendarRoutes);
+  app.use("/api/calendar", calendarFeedRoutes);
+  return app;
+}
+
+function tokenFor(role: ClientMemberRole): string {
+  mockPrisma.clientMembership.findUnique.mockResolvedValue({ id: "m_1", clientId: CLIENT_ID, userId: "user_1", role });
+  return jwt.sign({ id: "user_1", email: "member@example.com", role: "CLIENT", clientId: CLIENT_ID }, JWT_SECRET);
+}
+
+function seriesBooking() {
+  return {
+    id: "b_series",
+    clientId: CLIENT_ID,
+    start: new Date("2026-01-13T09:00:00Z"),
+    end: new Date("2026-01-13T10:00:00Z"),
+    updatedAt: new Date("2026-01-01T00:00:00Z"),
+    status: "CONFIRMED" as const,
+    isAllDay: false,
+    customerName: "Boiler service; Smith, J",
+    customerPhone: "+447700900123",
+    customerEmail: null,
+    notes: null,
+    externalSyncId: null,
+    recurrenceRule: {
+      id: "rule_1",
+      clientId: CLIENT_ID,
+      frequency: "MONTHLY" as const,
+      interval: 1,
+      byWeekday: null,
+      byMonthday: null,
+      endDate: null,
+      occurrences: null,
+      rrule: "FREQ=MONTHLY;BYDAY=2TU;COUNT=6",
+      // Stored as the local day (start of day in London)
+      exdates: [new Date("2026-03-10T00:00:00Z")],
+      rdates: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      overrides: [
+        {
+          id: "o_1",
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          recurrenceRuleId: "rule_1",
+          originalStart: new Date("2026-04-14T08:00:00Z"),
+          start: new Date("2026-04-15T13:00:00Z"),
+          end: new Date("2026-04-15T14:00:00Z"),
+          isCancelled: false,
+          status: null,
+          notes: "Moved to Wednesday",
+        },
+        {
+          id: "o_2",
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          recurrenceRuleId: "rule_1",
+          originalStart: new Date("2026-05-12T08:00:00Z"),
+          start: null,
+          end: null,
+          isCancelled: true,
+          status: null,
+          notes: null,
+        },
+      ],
+    },
+  };
+}
+
+const ICS = [
+  "BEGIN:VCALENDAR",
+  "VERSION:2.0",
+  "X-WR-CALNAME:Holidays",
+  "BEGIN:VEVENT",
+  "UID:trip-1@example.com",
+  "DTSTART;TZID=Europe/London:20260720T140000",
+  "DTEND;TZID=Europe/London:20260722T120000",
+  "SUMMARY:Away\\, family trip",
+  "BEGIN:VALARM",
+  "TRIGGER:-PT15M",
+  "DESCRIPTION:Should not leak into the event",
+  "END:VALARM",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "UID:yoga@example.com",
+  "DTSTART;TZID=Europe/London:20260105T180000",
+  "DURATION:PT1H30M",
+  "RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=3",
+  "DESCRIPTION:Weekly class\\nBring a ma",
+  " t",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "UID:yoga@example.com",
+  "RECURRENCE-ID;TZID=Europe/London:20260112T180000",
+  "STATUS:CANCELLED",
+  "DTSTART;TZID=Europe/London:20260112T180000",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "UID:broken@example.com",
+  "SUMMARY:No start",
+  "END:VEVENT",
+  "END:VCALENDAR",
+].join("\r\n");
+
+describe("iCalendar feed and import", () => {
+  const app = buildApp();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date("2026-01-01T12:00:00Z"), doNotFake: ["nextTick", "setImmediate"] });
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    mockPrisma.client.findUnique.mockResolvedValue({ timezone: LONDON, businessName: "Acme Plumbing" });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe("ICalendar.parse", () => {
+    it("should unfold lines, unescape text, resolve TZIDs and ignore alarms", () => {
+      const result = ICalendar.parse(ICS, "America/New_York");
+
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      const [trip, yoga, exception] = result.calendar.events;
+
+      expect(result.calendar.name).toBe("Holidays");
+      expect(trip).toMatchObject({
+        uid: "trip-1@example.com",
+        summary: "Away, family trip",
+        start: { date: new Date("2026-07-20T13:00:00Z") },
+        end: { date: new Date("2026-07-22T11:00:00Z") },
+      });
+      expect(trip.description).toBeUndefined();
+      expect(yoga).toMatchObject({ rrule: "FREQ=WEEKLY;BYDAY=MO;COUNT=3", durationMs: 90 * 60 * 1000 });
+      expect(yoga.description).toBe("Weekly class\nBring a mat");
+      expect(exception).toMatchObject({ status: "CANCELLED", recurrenceId: { date: new Date("2026-01-12T18:00:00Z") } });
+      expect(result.calendar.invalid).toEqual([{ uid: "broken@example.com", error: "DTSTART is required" }]);
+    });
+
+    it("should read date-only and floating times in the given zone", () => {
+      const result = ICalendar.parse(
+        "BEGIN:VCALENDAR\nBEGIN:VEVENT\nUID:a\nDTSTART;VALUE=DATE:20260601\nEND:VEVENT\n" +
+          "BEGIN:VEVENT\nUID:b\nDTSTART:20260601T090000\nDTEND:20260601T100000Z\nEND:VEVENT\nEND:VCALENDAR",
+        LONDON
+      );
+
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      const [allDay, floating] = result.calendar.events;
+
+      expect(allDay.start).toEqual({ date: new Date("2026-05-31T23:00:00Z"), dateKey: "2026-06-01" });
+      expect(ICalendar.endOf(allDay, LONDON)).toEqual(new Date("2026-06-01T23:00:00Z"));
+      expect(floating.start.date).toEqual(new Date("2026-06-01T08:00:00Z"));
+      expect(floating.end?.date).toEqual(new Date("2026-06-01T10:00:00Z"));
+    });
+
+    it("should reject files that are not calendars", () => {
+      expect(ICalendar.parse("hello", LONDON)).toEqual({ ok: false, error: "Not an iCalendar file (no BEGIN:VCALENDAR)" });
+    });
+  });
+
+  describe("export", () => {
+    it("should write a series as RRULE, EXDATEs and a RECURRENCE-ID exception", () => {
+      const ics = ICalendar.serialize({ name: "Acme", timeZone: LONDON, events: bookingToEvents(seriesBooking(), LONDON) });
+      const lines = ics.split("\r\n");
+
+      expect(lines).toEqual(
+        expect.arrayContaining([
+          "UID:booking-b_series@jobrun",
+          "DTSTART;TZID=Europe/London:20260113T090000",
+          "RRULE:FREQ=MONTHLY;COUNT=6;BYDAY=2TU",
+          "EXDATE;TZID=Europe/London:20260310T090000,20260512T090000",
+          "RECURRENCE-ID;TZID=Europe/London:20260414T090000",
+          "DTSTART;TZID=Europe/London:20260415T140000",
+          "SUMMARY:Boiler service\\; Smith\\, J",
+        ])
+      );
+      expect(lines.every((line) => Buffer.byteLength(line, "utf8") <= 75)).toBe(true);
+    });
+
+    it("should round-trip a series to the same occurrences", () => {
+      const booking = seriesBooking();
+      const ics = ICalendar.serialize({ timeZone: LONDON, events: bookingToEvents(booking, LONDON) });
+      const parsed = ICalendar.parse(ics, LONDON);
+      if (!parsed.ok) throw new Error(parsed.error);
+
+      const [master, exception] = parsed.calendar.events;
+      const rangeEnd = new Date("2027-01-01T00:00:00Z");
+      const expected = RecurrenceEngine.expandBooking(booking, booking.start, rangeEnd, LONDON);
+      const actual = RecurrenceEngine.expandRule(
+        {
+          frequency: "MONTHLY",
+          interval: 1,
+          rrule: master.rrule,
+          exdates: master.exdates.map((d) => d.date),
+          overrides: [{ originalStart: exception.recurrenceId!.date, start: exception.start.date, end: exception.end!.date, isCancelled: false }],
+        },
+        master.start.date,
+        master.end!.date,
+        booking.start,
+        rangeEnd,
+        "b_series",
+        undefined,
+        LONDON
+      );
+
+      expect(actual.map((o) => o.start)).toEqual(expected.map((o) => o.start));
+      expect(actual.map((o) => o.start.toISOString())).toEqual([
+        "2026-01-13T09:00:00.000Z",
+        "2026-02-10T09:00:00.000Z",
+        "2026-04-15T13:00:00.000Z",
+        "2026-06-09T08:00:00.000Z",
+      ]);
+    });
+
+    it("should fold long lines without splitting characters", () => {
+      const ics = ICalendar.serialize({
+        events: [{ uid: "u", stamp: new Date(), start: new Date(), end: new Date(), summary: "Réparation chaudière ".repeat(8) }],
+      });
+      const lines = ics.split("\r\n");
+      const parsed = ICalendar.parse(ics);
+
+      expect(lines.filter((line) => line.startsWith(" ")).length).toBeGreaterThan(1);
+      expect(lines.every((line) => Buffer.byteLength(line, "utf8") <= 75)).toBe(true);
+      expect(parsed.ok && parsed.calendar.events[0].summary).toBe("Réparation chaudière ".repeat(8));
+    });
+  });
+
+  describe("GET /api/calendar/feed/:token.ics", () => {
+    it("should serve the client's bookings for a valid token", async () => {
+      mockPrisma.calendarFeed.findUnique.mockResolvedValueOnce({ id: "feed_1", clientId: CLIENT_ID });
+      mockPrisma.booking.findMany.mockResolvedValueOnce([seriesBooking()]);
+
+      const response = await request(app).get("/api/calendar/feed/secret-token.ics").expect(200);
+
+      expect(response.headers["content-type"]).toMatch(/^text\/calendar/);
+      expect(response.text).toContain("X-WR-CALNAME:Acme Plumbing bookings");
+      expect(response.text).toContain("UID:booking-b_series@jobrun");
+      expect(mockPrisma.calendarFeed.findUnique).toHaveBeenCalledWith({ where: { tokenHash: hashFeedToken("secret-token") } });
+      expect(mockPrisma.booking.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: expect.objectContaining({ clientId: CLIENT_ID, status: { not: "CANCELLED" } }) })
+      );
+    });
+
+    it("should 404 for unknown or revoked tokens", async () => {
+      await request(app).get("/api/calendar/feed/revoked.ics").expect(404);
+      expect(mockPrisma.booking.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("feed tokens", () => {
+    it("should return the feed URL once and store only the hash", async () => {
+      mockPrisma.calendarFeed.upsert.mockResolvedValue({ updatedAt: new Date() });
+      const auth = { Authorization: `Bearer ${tokenFor("OWNER")}` };
+
+      const response = await request(app).post("/api/client/calendar/feed").set(auth).expect(201);
+      const token = /\/api\/calendar\/feed\/([0-9a-f]{64})\.ics$/.exec(response.body.data.feedUrl)?.[1];
+
+      expect(token).toBeDefined();
+      expect(mockPrisma.calendarFeed.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { clientId: CLIENT_ID }, create: { clientId: CLIENT_ID, tokenHash: hashFeedToken(token!) } })
+      );
+    });
+
+    it("should not let dispatchers issue feeds", async () => {
+      const auth = { Authorization: `Bearer ${tokenFor("DISPATCHER")}` };
+
+      await request(app).post("/api/client/calendar/feed").set(auth).expect(403);
+      await request(app).get("/api/client/calendar/feed").set(auth).expect(200);
+    });
+  });
+
+  describe("POST /api/client/calendar/import", () => {
+    it("should import blocked time per local day, expanding recurring events", async () => {
+      const auth = { Authorization: `Bearer ${tokenFor("OWNER")}` };
+
+      const response = await request(app)
+        .post("/api/client/calendar/import?target=BLOCKED_TIME")
+        .set(auth)
+        .set("Content-Type", "text/calendar")
+        .send(ICS)
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({
+        target: "BLOCKED_TIME",
+        created: 2,
+        skipped: [{ uid: "broken@example.com", error: "DTSTART is required" }],
+      });
+
+      const rows = mockPrisma.blockedTime.createMany.mock.calls.flatMap(([args]) => args.data);
+      expect(rows.map((r: any) => [r.externalSyncId, r.date.toISOString().slice(0, 10), r.start, r.end])).toEqual([
+        ["trip-1@example.com/2026-07-20", "2026-07-20", "14:00", "24:00"],
+        ["trip-1@example.com/2026-07-21", "2026-07-21", undefined, undefined],
+        ["trip-1@example.com/2026-07-22", "2026-07-22", "00:00", "12:00"],
+        // 12 January cancelled by its RECURRENCE-ID
+        ["yoga@example.com/2026-01-05", "2026-01-05", "18:00", "19:30"],
+        ["yoga@example.com/2026-01-19", "2026-01-19", "18:00", "19:30"],
+      ]);
+      expect(rows[0].reason).toBe("Away, family trip");
+      expect(mockPrisma.blockedTime.deleteMany).toHaveBeenCalledWith({
+        where: {
+          clientId: CLIENT_ID,
+          OR: [{ externalSyncId: "trip-1@example.com" }, { externalSyncId: { startsWith: "trip-1@example.com/" } }],
+        },
+      });
+    });
+
+    it("should update bookings matched by UID instead of duplicating them", async () => {
+      const auth = { Authorization: `Bearer ${tokenFor("OWNER")}` };
+      mockPrisma.booking.findFirst.mockImplementationOnce(async ({ where }: any) =>
+        where.externalSyncId === "trip-1@example.com"
+          ? { id: "b_existing", status: "CONFIRMED", recurrenceRuleId: null }
+          : null
+      );
+      mockPrisma.recurrenceRule.create.mockResolvedValue({ id: "rule_new" });
+
+      const response = await request(app)
+        .post("/api/client/calendar/import")
+        .set(auth)
+        .send({ ics: ICS, target: "BOOKING" })
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ created: 1, updated: 1 });
+      expect(mockPrisma.booking.update).toHaveBeenCalledWith({
+        where: { id: "b_existing" },
+        data: expect.objectContaining({
+          start: new Date("2026-07-20T13:00:00Z"),
+          externalSyncId: "trip-1@example.com",
+          externalCalendar: "Holidays",
+        }),
+      });
+      expect(mockPrisma.booking.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ clientId: CLIENT_ID, externalSyncId: "yoga@example.com", recurrenceRuleId: "rule_new" }),
+      });
+      expect(mockPrisma.recurrenceOverride.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ recurrenceRuleId: "rule_new", originalStart: new Date("2026-01-12T18:00:00Z"), isCancelled: true })],
+        skipDuplicates: true,
+      });
+    });
+
+    it("should reject bad input", async () => {
+      const auth = { Authorization: `Bearer ${tokenFor("OWNER")}` };
+
+      await request(app).post("/api/client/calendar/import").set(auth).send({ ics: ICS, target: "TASKS" }).expect(400);
+      await request(app).post("/api/client/calendar/import").set(auth).send({}).expect(400);
+      await request(app)
+        .post("/api/client/calendar/import")
+        .set(auth)
+        .set("Content-Type", "text/calendar")
+        .send("not a calendar")
+        .expect(422);
+    });
+  });
+
+  describe("toDayBlocks", () => {
+    it("should treat a DST-length day as a whole day", () => {
+      // 29 March 2026 is 23 hours long in London
+      expect(
+        toDayBlocks(new Date("2026-03-29T00:00:00Z"), new Date("2026-03-29T23:00:00Z"), LONDON)
+      ).toEqual([{ dateKey: "2026-03-29" }]);
+    });
+  });
+});
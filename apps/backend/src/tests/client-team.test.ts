@@ -0,0 +1,188 @@
+import express from "express";
+import request from "supertest";
+import jwt from "jsonwebtoken";
+
+jest.mock("../db", () => {
+  const model = () => ({
+    findUnique: jest.fn(async () => null),
+    findFirst: jest.fn(async () => null),
+    findMany: jest.fn(async () => []),
+    count: jest.fn(async () => 0),
+    update: jest.fn(async () => ({})),
+    updateMany: jest.fn(async () => ({ count: 0 })),
+    create: jest.fn(async () => ({})),
+    delete: jest.fn(async () => ({})),
+    groupBy: jest.fn(async () => []),
+  });
+  return {
+    prisma: {
+      client: model(),
+      customer: model(),
+      message: model(),
+      booking: model(),
+      user: model(),
+      clientMembership: model(),
+      clientInvitation: model(),
+      $transaction: jest.fn(),
+    },
+  };
+});
+
+import { ClientMemberRole } from "@prisma/client";
+import { prisma } from "../db";
+import { createInvitation, hasPermission, removeMember, updateMemberRole } from "../services/TeamService";
+import clientLeadsRoutes from "../routes/client-leads";
+import clientSettingsRoutes from "../routes/client-settings";
+import clientDashboardRoutes from "../routes/client-dashboard";
+import clientTeamRoutes from "../routes/client-team";
+
+const JWT_SECRET = process.env.JWT_SECRET || "jobrun-secret-key-change-in-production";
+const CLIENT_ID = "client_a";
+
+const mockPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+
+function buildApp() {
+  const app = express();
+  app.use(express.json());
+  app.use("/api/client/leads", clientLeadsRoutes);
+  app.use("/api/client/settings", clientSettingsRoutes);
+  app.use("/api/client/dashboard", clientDashboardRoutes);
+  app.use("/api/client/team", clientTeamRoutes);
+  return app;
+}
+
+function tokenFor(role: ClientMemberRole): string {
+  mockPrisma.clientMembership.findUnique.mockResolvedValue({ id: "m_1", clientId: CLIENT_ID, userId: "user_1", role });
+  return jwt.sign({ id: "user_1", email: "member@example.com", role: "CLIENT", clientId: CLIENT_ID }, JWT_SECRET);
+}
+
+describe("Client teams", () => {
+  const app = buildApp();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("role checks on client routes", () => {
+    it("should let technicians work leads but not see the dashboard or settings", async () => {
+      const token = tokenFor("TECHNICIAN");
+      const auth = { Authorization: `Bearer ${token}` };
+
+      await request(app).get("/api/client/leads").set(auth).expect(200);
+      await request(app).get("/api/client/dashboard/stats").set(auth).expect(403);
+      await request(app).get("/api/client/settings").set(auth).expect(403);
+    });
+
+    it("should stop read-only members from sending messages", async () => {
+      const token = tokenFor("READ_ONLY");
+
+      const response = await request(app)
+        .post("/api/client/leads/lead_1/messages/send")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ body: "hello" })
+        .expect(403);
+
+      expect(response.body.error.message).toContain("MESSAGES_SEND");
+    });
+
+    it("should only let owners change settings and manage the team", async () => {
+      const dispatcher = tokenFor("DISPATCHER");
+
+      await request(app).put("/api/client/settings").set("Authorization", `Bearer ${dispatcher}`).expect(403);
+      await request(app)
+        .post("/api/client/team/invitations")
+        .set("Authorization", `Bearer ${dispatcher}`)
+        .send({ email: "new@example.com", role: "TECHNICIAN" })
+        .expect(403);
+      await request(app).get("/api/client/team").set("Authorization", `Bearer ${dispatcher}`).expect(200);
+    });
+
+    it("should report the caller's role and permissions", async () => {
+      const token = tokenFor("DISPATCHER");
+
+      const response = await request(app)
+        .get("/api/client/team/me")
+        .set("Authorization", `Bearer ${token}`)
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ clientId: CLIENT_ID, role: "DISPATCHER" });
+      expect(response.body.data.permissions).not.toContain("TEAM_MANAGE");
+    });
+
+    it("should validate invitation roles", async () => {
+      const token = tokenFor("OWNER");
+
+      await request(app)
+        .post("/api/client/team/invitations")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ email: "new@example.com", role: "ADMIN" })
+        .expect(400);
+    });
+  });
+
+  describe("TeamService", () => {
+    it("should map roles to permissions", () => {
+      expect(hasPermission("OWNER", "TEAM_MANAGE")).toBe(true);
+      expect(hasPermission("DISPATCHER", "MESSAGES_SEND")).toBe(true);
+      expect(hasPermission("TECHNICIAN", "SETTINGS_READ")).toBe(false);
+      expect(hasPermission("READ_ONLY", "LEADS_READ")).toBe(true);
+    });
+
+    it("should never remove or demote the last owner", async () => {
+      mockPrisma.clientMembership.findUnique.mockResolvedValue({ id: "m_1", clientId: CLIENT_ID, userId: "user_1", role: "OWNER" });
+      mockPrisma.clientMembership.count.mockResolvedValue(1);
+
+      await expect(removeMember(CLIENT_ID, "user_1")).resolves.toEqual({ success: false, reason: "LAST_OWNER" });
+      await expect(updateMemberRole(CLIENT_ID, "user_1", "DISPATCHER")).resolves.toEqual({
+        success: false,
+        reason: "LAST_OWNER",
+      });
+      expect(mockPrisma.clientMembership.update).not.toHaveBeenCalled();
+    });
+
+    it("should return the invitation link to the inviter without logging it", async () => {
+      const log = jest.spyOn(console, "log").mockImplementation(() => {});
+      mockPrisma.clientMembership.findFirst.mockResolvedValue(null);
+      mockPrisma.$transaction.mockImplementation(async () => [
+        { count: 0 },
+        {
+          id: "inv_1",
+          clientId: CLIENT_ID,
+          email: "new@example.com",
+          role: "TECHNICIAN",
+          createdAt: new Date(),
+          expiresAt: new Date(Date.now() + 60_000),
+          acceptedAt: null,
+          revokedAt: null,
+        },
+      ]);
+
+      const result = await createInvitation({ clientId: CLIENT_ID, email: "new@example.com", role: "TECHNICIAN" });
+
+      expect(result.success).toBe(true);
+      const { acceptUrl } = result as { acceptUrl: string };
+      const token = acceptUrl.split("/invite/")[1];
+      expect(token).toHaveLength(64);
+      expect(JSON.stringify(log.mock.calls)).not.toContain(token);
+    });
+
+    it("should allow demoting an owner when another owner remains", async () => {
+      mockPrisma.clientMembership.findUnique.mockResolvedValue({ id: "m_1", clientId: CLIENT_ID, userId: "user_1", role: "OWNER" });
+      mockPrisma.clientMembership.count.mockResolvedValue(2);
+      mockPrisma.clientMembership.update.mockResolvedValue({ id: "m_1", userId: "user_1", role: "DISPATCHER" });
+
+      const result = await updateMemberRole(CLIENT_ID, "user_1", "DISPATCHER");
+
+      expect(result.success).toBe(true);
+      expect(mockPrisma.clientMembership.update).toHaveBeenCalledWith({
+        where: { id: "m_1" },
+        data: { role: "DISPATCHER" },
+      });
+    });
+  });
+});
@@ -0,0 +1,273 @@
+import express from "express";
+import request from "supertest";
+import jwt from "jsonwebtoken";
+
+// Every prisma model method resolves to an "empty" result unless a test overrides it
+const mockModels: Record<string, Record<string, jest.Mock>> = {};
+
+function emptyResult(method: string): unknown {
+  if (method === "findMany" || method === "groupBy") return [];
+  if (method === "count") return 0;
+  if (method === "update" || method === "create") return {};
+  return null;
+}
+
+jest.mock("../db", () => ({
+  prisma: new Proxy(
+    {},
+    {
+      get: (_target, model: string) => {
+        mockModels[model] ??= new Proxy(
+          {},
+          {
+            get: (methods: Record<string, jest.Mock>, method: string) => {
+              methods[method] ??= jest.fn(async () => emptyResult(method));
+              return methods[method];
+            },
+          }
+        ) as Record<string, jest.Mock>;
+        return mockModels[model];
+      },
+    }
+  ),
+}));
+
+jest.mock("../modules/conversation/service", () => ({
+  ...jest.requireActual("../modules/conversation/service"),
+  findOrCreateConversation: jest.fn(async () => ({ id: "conv_1" })),
+  addMessage: jest.fn(async () => ({
+    id: "msg_1",
+    direction: "OUTBOUND",
+    type: "SMS",
+    body: "hi",
+    createdAt: new Date(),
+  })),
+}));
+
+import { prisma } from "../db";
+import { addMessage } from "../modules/conversation/service";
+import { generateImpersonationToken } from "../utils/jwt";
+import clientLeadsRoutes from "../routes/client-leads";
+import clientMessagesRoutes from "../routes/client-messages";
+import clientSettingsRoutes from "../routes/client-settings";
+import clientDashboardRoutes from "../routes/client-dashboard";
+
+const JWT_SECRET = process.env.JWT_SECRET || "jobrun-secret-key-change-in-production";
+
+const TENANT_A = "client_a";
+const TENANT_B = "client_b";
+
+// Mirrors the /api/client mounts in index.ts
+function buildApp() {
+  const app = express();
+  app.use(express.json());
+  app.use("/api/client/leads", clientLeadsRoutes);
+  app.use("/api/client/messages", clientMessagesRoutes);
+  app.use("/api/client/settings", clientSettingsRoutes);
+  app.use("/api/client/dashboard", clientDashboardRoutes);
+  return app;
+}
+
+const CLIENT_ROUTES: { method: "get" | "post" | "put"; path: string }[] = [
+  { method: "get", path: "/api/client/leads" },
+  { method: "get", path: "/api/client/leads/lead_1" },
+  { method: "get", path: "/api/client/leads/lead_1/messages" },
+  { method: "post", path: "/api/client/leads/lead_1/messages/send" },
+  { method: "get", path: "/api/client/leads/lead_1/timeline" },
+  { method: "get", path: "/api/client/messages" },
+  { method: "get", path: "/api/client/settings" },
+  { method: "put", path: "/api/client/settings" },
+  { method: "get", path: "/api/client/dashboard/stats" },
+  { method: "get", path: "/api/client/dashboard/recent-messages" },
+  { method: "get", path: "/api/client/dashboard/activity" },
+];
+
+function userToken(payload: { role: string; clientId: string | null }, secret = JWT_SECRET): string {
+  return jwt.sign({ id: "user_1", email: "owner@example.com", ...payload }, secret, { expiresIn: "1h" });
+}
+
+function send(app: express.Express, route: (typeof CLIENT_ROUTES)[number], query = "") {
+  return request(app)[route.method](`${route.path}${query}`).send({ body: "hi" });
+}
+
+describe("Client route tenant authentication", () => {
+  const app = buildApp();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.clientMembership.findUnique as jest.Mock).mockImplementation(async ({ where }) =>
+      where.clientId_userId.clientId === TENANT_A ? { role: "OWNER" } : null
+    );
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe.each(CLIENT_ROUTES)("$method $path", (route) => {
+    it("should reject requests without a token", async () => {
+      const response = await send(app, route, `?clientId=${TENANT_A}`);
+
+      expect(response.status).toBe(401);
+      expect(response.body.error.code).toBe("UNAUTHORIZED");
+    });
+
+    it("should reject tokens not signed by us", async () => {
+      const forged = userToken({ role: "CLIENT", clientId: TENANT_A }, "not-the-real-secret");
+      const response = await send(app, route).set("Authorization", `Bearer ${forged}`);
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should reject a login token asking for another tenant", async () => {
+      const token = userToken({ role: "CLIENT", clientId: TENANT_A });
+      const response = await send(app, route, `?clientId=${TENANT_B}`).set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(403);
+      expect(response.body.error.code).toBe("FORBIDDEN");
+    });
+
+    it("should reject an impersonation token asking for another tenant", async () => {
+      const token = generateImpersonationToken(TENANT_A, "admin_1");
+      const response = await send(app, route, `?clientId=${TENANT_B}`).set("X-Admin-Impersonation", token);
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should reject login tokens with no tenant", async () => {
+      const token = userToken({ role: "ADMIN", clientId: null });
+      const response = await send(app, route).set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should accept a token for its own tenant", async () => {
+      const token = userToken({ role: "CLIENT", clientId: TENANT_A });
+      const response = await send(app, route, `?clientId=${TENANT_A}`).set("Authorization", `Bearer ${token}`);
+
+      expect([401, 403]).not.toContain(response.status);
+    });
+  });
+
+  describe("tenant scoping", () => {
+    it("should scope queries to the token's tenant when no clientId is given", async () => {
+      const token = userToken({ role: "CLIENT", clientId: TENANT_A });
+
+      await request(app).get("/api/client/leads").set("Authorization", `Bearer ${token}`).expect(200);
+
+      expect(prisma.customer.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: expect.objectContaining({ clientId: TENANT_A }) })
+      );
+    });
+
+    it("should accept impersonation tokens as a bearer token", async () => {
+      const token = generateImpersonationToken(TENANT_B, "admin_1");
+
+      await request(app).get("/api/client/messages").set("Authorization", `Bearer ${token}`).expect(200);
+
+      expect(prisma.customer.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { clientId: TENANT_B } })
+      );
+    });
+
+    it("should not send a message to another tenant's lead", async () => {
+      const token = userToken({ role: "CLIENT", clientId: TENANT_A });
+
+      await request(app)
+        .post("/api/client/leads/lead_of_b/messages/send")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ body: "hello" })
+        .expect(404);
+
+      expect(prisma.customer.findFirst).toHaveBeenCalledWith({
+        where: { id: "lead_of_b", clientId: TENANT_A },
+      });
+      expect(addMessage).not.toHaveBeenCalled();
+    });
+
+    it("should reject login tokens for users who are no longer team members", async () => {
+      const token = userToken({ role: "CLIENT", clientId: TENANT_B });
+
+      await request(app).get("/api/client/leads").set("Authorization", `Bearer ${token}`).expect(403);
+    });
+
+    it("should reject expired impersonation tokens", async () => {
+      const expired = jwt.sign(
+        { clientId: TENANT_A, adminId: "admin_1", exp: Math.floor(Date.now() / 1000) - 60 },
+        JWT_SECRET
+      );
+
+      await request(app).get("/api/client/leads").set("X-Admin-Impersonation", expired).expect(401);
+    });
+  });
+  describe("live inbox", () => {
+    const token = () => userToken({ role: "CLIENT", clientId: TENANT_A });
+
+    it("should count inbound messages since the last reply as unread", async () => {
+      (prisma.customer.findMany as jest.Mock).mockResolvedValueOnce([
+        {
+          id: "lead_1",
+          name: "Sam",
+          phone: "+447700900000",
+          state: "CUSTOMER_REPLIED",
+          updatedAt: new Date(),
+          bookings: [],
+          messages: [
+            { id: "m3", direction: "INBOUND", body: "hello?", createdAt: new Date() },
+            { id: "m2", direction: "INBOUND", body: "hi", createdAt: new Date() },
+            { id: "m1", direction: "OUTBOUND", body: "thanks", createdAt: new Date() },
+          ],
+        },
+      ]);
+
+      const response = await request(app)
+        .get("/api/client/messages")
+        .set("Authorization", `Bearer ${token()}`)
+        .expect(200);
+
+      expect(response.body.data[0]).toMatchObject({ hasUnread: true, unreadCount: 2 });
+    });
+
+    it("should only return messages newer than since", async () => {
+      (prisma.customer.findFirst as jest.Mock).mockResolvedValueOnce({ id: "lead_1" });
+      const since = "2026-01-01T10:00:00.000Z";
+
+      await request(app)
+        .get(`/api/client/leads/lead_1/messages?since=${since}`)
+        .set("Authorization", `Bearer ${token()}`)
+        .expect(200);
+
+      expect(prisma.message.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { customerId: "lead_1", clientId: TENANT_A, createdAt: { gt: new Date(since) } },
+        })
+      );
+    });
+
+    it("should reject an invalid since", async () => {
+      (prisma.customer.findFirst as jest.Mock).mockResolvedValueOnce({ id: "lead_1" });
+
+      const response = await request(app)
+        .get("/api/client/leads/lead_1/messages?since=yesterday")
+        .set("Authorization", `Bearer ${token()}`)
+        .expect(400);
+
+      expect(response.body.error.code).toBe("INVALID_SINCE");
+    });
+
+    it("should store and echo the clientRef of an optimistic send", async () => {
+      (prisma.customer.findFirst as jest.Mock).mockResolvedValueOnce({ id: "lead_1" });
+
+      const response = await request(app)
+        .post("/api/client/leads/lead_1/messages/send")
+        .set("Authorization", `Bearer ${token()}`)
+        .send({ body: "On my way", clientRef: "ref_1" })
+        .expect(200);
+
+      expect(addMessage).toHaveBeenCalledWith(expect.objectContaining({ metadata: { clientRef: "ref_1" } }));
+      expect(response.body.data.clientRef).toBe("ref_1");
+    });
+  });
+});
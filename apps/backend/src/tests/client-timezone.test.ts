@@ -0,0 +1,247 @@
+// Run in a zone far from both client zones so host-zone leaks show up
+process.env.TZ = "Pacific/Auckland";
+
+jest.mock("../db", () => ({ prisma: jest.requireActual("./support/memoryPrisma").createMemoryPrisma() }));
+
+import { prisma } from "../db";
+import { resetMemoryPrisma, seedMemoryPrisma } from "./support/memoryPrisma";
+import { ZonedTime } from "../lib/calendar/ZonedTime";
+import { AvailabilityEngine } from "../lib/calendar/AvailabilityEngine";
+import { BlockedTimeEngine } from "../lib/calendar/BlockedTimeEngine";
+import { RecurrenceEngine } from "../lib/calendar/RecurrenceEngine";
+import { SlotFinder } from "../services/SlotFinder";
+import { MessageTemplates } from "../services/MessageTemplates";
+
+const LONDON = "Europe/London";
+const NEW_YORK = "America/New_York";
+
+// 2026 transitions: London 29 Mar / 25 Oct, New York 8 Mar / 1 Nov (all Sundays)
+const everyDay = (startTime: string, endTime: string) =>
+  [0, 1, 2, 3, 4, 5, 6].map((weekday) => ({ weekday, startTime, endTime }));
+
+const setTimezone = (timezone: string) => prisma.client.update({ where: { id: "client_1" }, data: { timezone } });
+
+async function setAvailability(rules: Array<{ weekday: number; startTime: string; endTime: string }>) {
+  await prisma.weeklyAvailability.deleteMany({ where: { clientId: "client_1" } });
+  await seedMemoryPrisma(prisma, { weeklyAvailability: rules.map((rule) => ({ clientId: "client_1", ...rule })) });
+}
+
+describe("Client time zones", () => {
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date("2026-03-01T12:00:00Z") });
+    resetMemoryPrisma(prisma);
+    await seedMemoryPrisma(prisma, {
+      client: [{ id: "client_1", businessName: "Ace Plumbing", timezone: LONDON }],
+      weeklyAvailability: everyDay("08:00", "17:00").map((rule) => ({ clientId: "client_1", ...rule })),
+    });
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe("ZonedTime", () => {
+    it.each([
+      [LONDON, "2026-03-28", "08:00", "2026-03-28T08:00:00.000Z"],
+      [LONDON, "2026-03-29", "08:00", "2026-03-29T07:00:00.000Z"],
+      [LONDON, "2026-10-25", "08:00", "2026-10-25T08:00:00.000Z"],
+      [NEW_YORK, "2026-03-07", "08:00", "2026-03-07T13:00:00.000Z"],
+      [NEW_YORK, "2026-03-08", "08:00", "2026-03-08T12:00:00.000Z"],
+      [NEW_YORK, "2026-11-01", "08:00", "2026-11-01T13:00:00.000Z"],
+    ])("should place %s %s %s at %s", (zone, day, time, expected) => {
+      expect(ZonedTime.toInstant(day, time, zone).toISOString()).toBe(expected);
+    });
+
+    it("should move wall times skipped by spring-forward past the gap", () => {
+      // 01:30 London / 02:30 New York don't exist on those days
+      expect(ZonedTime.toInstant("2026-03-29", "01:30", LONDON).toISOString()).toBe("2026-03-29T01:30:00.000Z");
+      expect(ZonedTime.formatTime(ZonedTime.toInstant("2026-03-29", "01:30", LONDON), LONDON)).toBe("02:30");
+      expect(ZonedTime.toInstant("2026-03-08", "02:30", NEW_YORK).toISOString()).toBe("2026-03-08T07:30:00.000Z");
+    });
+
+    it("should resolve wall times repeated by fall-back to the first occurrence", () => {
+      expect(ZonedTime.toInstant("2026-10-25", "01:30", LONDON).toISOString()).toBe("2026-10-25T00:30:00.000Z");
+      expect(ZonedTime.toInstant("2026-11-01", "01:30", NEW_YORK).toISOString()).toBe("2026-11-01T05:30:00.000Z");
+    });
+
+    it("should read calendar days in the client's zone, keeping bare dates as is", () => {
+      const instant = new Date("2026-03-29T23:30:00Z");
+
+      expect(ZonedTime.dateKey(instant, LONDON)).toBe("2026-03-30");
+      expect(ZonedTime.dateKey(instant, NEW_YORK)).toBe("2026-03-29");
+      expect(ZonedTime.dateKey("2026-03-29", NEW_YORK)).toBe("2026-03-29");
+    });
+
+    it("should fall back to the default zone for an invalid client timezone", async () => {
+      await setTimezone("Mars/Olympus");
+      jest.spyOn(console, "warn").mockImplementation(() => {});
+
+      await expect(ZonedTime.forClient("client_1")).resolves.toBe(ZonedTime.DEFAULT_TIMEZONE);
+    });
+  });
+
+  describe("SlotFinder", () => {
+    const firstSlot = (preferredDate: Date) =>
+      SlotFinder.findEarliestSlot({ clientId: "client_1", preferredDate, durationMinutes: 60, searchDaysAhead: 1 });
+
+    it.each([
+      [LONDON, "2026-03-28T00:00:00Z", "2026-03-28T08:00:00.000Z"],
+      [LONDON, "2026-03-29T00:00:00Z", "2026-03-29T07:00:00.000Z"],
+      [LONDON, "2026-03-30T00:00:00Z", "2026-03-30T07:00:00.000Z"],
+      [LONDON, "2026-10-25T00:00:00Z", "2026-10-25T08:00:00.000Z"],
+      [NEW_YORK, "2026-03-08T12:00:00Z", "2026-03-08T12:00:00.000Z"],
+      [NEW_YORK, "2026-11-01T12:00:00Z", "2026-11-01T13:00:00.000Z"],
+    ])("should open %s at 08:00 local on the day of %s", async (zone, preferred, expected) => {
+      await setTimezone(zone);
+
+      const slot = await firstSlot(new Date(preferred));
+
+      expect(slot?.toISOString()).toBe(expected);
+      expect(ZonedTime.formatTime(slot!, zone)).toBe("08:00");
+    });
+
+    it("should use the client's weekday, not the server's", async () => {
+      // Sunday-only opening; 23:30 UTC Saturday is still Saturday in New York
+      await setTimezone(NEW_YORK);
+      await setAvailability([{ weekday: 0, startTime: "08:00", endTime: "17:00" }]);
+
+      const slot = await firstSlot(new Date("2026-03-07T23:30:00Z"));
+
+      expect(slot?.toISOString()).toBe("2026-03-08T12:00:00.000Z");
+    });
+
+    it("should apply blocked hours on the client's calendar day", async () => {
+      await seedMemoryPrisma(prisma, {
+        blockedTime: [{ clientId: "client_1", date: new Date("2026-03-30T00:00:00Z"), start: "08:00", end: "10:00" }],
+      });
+
+      const slot = await firstSlot(new Date("2026-03-30T00:00:00Z"));
+
+      expect(slot?.toISOString()).toBe("2026-03-30T09:00:00.000Z");
+      expect(prisma.blockedTime.findMany).toHaveBeenCalledWith({
+        where: {
+          clientId: "client_1",
+          date: { gte: new Date("2026-03-30T00:00:00Z"), lt: new Date("2026-04-01T00:00:00Z") },
+        },
+      });
+    });
+
+    it("should return the next open day as local midnight", async () => {
+      await setTimezone(NEW_YORK);
+      await setAvailability([{ weekday: 1, startTime: "08:00", endTime: "17:00" }]);
+
+      const next = await SlotFinder.findNextOpenDay("client_1", new Date("2026-03-07T15:00:00Z"));
+
+      expect(next?.toISOString()).toBe("2026-03-09T04:00:00.000Z");
+    });
+  });
+
+  describe("AvailabilityEngine", () => {
+    it("should check hours against the client's weekday and wall clock", async () => {
+      await setAvailability([{ weekday: 1, startTime: "08:00", endTime: "17:00" }]);
+      const start = new Date("2026-03-30T07:00:00Z");
+
+      const startTime = AvailabilityEngine.formatTime(start, LONDON);
+      const result = await AvailabilityEngine.isTimeAllowed("client_1", start, startTime, "09:00", LONDON);
+
+      expect(startTime).toBe("08:00");
+      expect(result.allowed).toBe(true);
+      expect(prisma.weeklyAvailability.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { clientId: "client_1", weekday: 1, resourceId: null } })
+      );
+    });
+
+    it("should treat a date-only string as that calendar day", async () => {
+      await setTimezone(NEW_YORK);
+      await setAvailability([{ weekday: 0, startTime: "08:00", endTime: "17:00" }]);
+
+      const result = await AvailabilityEngine.isTimeAllowed("client_1", "2026-03-08", "07:00", "08:00");
+
+      expect(result.allowed).toBe(false);
+      expect(prisma.weeklyAvailability.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { clientId: "client_1", weekday: 0, resourceId: null } })
+      );
+    });
+  });
+
+  describe("BlockedTimeEngine", () => {
+    it("should look up blocks for the client's calendar day", async () => {
+      await BlockedTimeEngine.isBlocked("client_1", new Date("2026-03-29T23:30:00Z"), "00:30", "01:30", LONDON);
+
+      expect(prisma.blockedTime.findMany).toHaveBeenCalledWith({
+        where: {
+          clientId: "client_1",
+          date: { gte: new Date("2026-03-30T00:00:00Z"), lt: new Date("2026-03-31T00:00:00Z") },
+          resourceId: null,
+        },
+      });
+    });
+
+    it("should store a date-only block as that calendar day", async () => {
+      await setTimezone(NEW_YORK);
+
+      const block = await BlockedTimeEngine.createBlockedTime("client_1", "2026-11-01");
+
+      expect((block as any).date).toEqual(new Date("2026-11-01T00:00:00Z"));
+    });
+  });
+
+  describe("RecurrenceEngine", () => {
+    const weekly = { frequency: "WEEKLY" as const, interval: 1 };
+
+    it.each([
+      [LONDON, "2026-03-23T09:00:00Z", ["2026-03-23T09:00:00.000Z", "2026-03-30T08:00:00.000Z", "2026-04-06T08:00:00.000Z"]],
+      [LONDON, "2026-10-19T08:00:00Z", ["2026-10-19T08:00:00.000Z", "2026-10-26T09:00:00.000Z", "2026-11-02T09:00:00.000Z"]],
+      [NEW_YORK, "2026-03-02T14:00:00Z", ["2026-03-02T14:00:00.000Z", "2026-03-09T13:00:00.000Z", "2026-03-16T13:00:00.000Z"]],
+      [NEW_YORK, "2026-10-26T13:00:00Z", ["2026-10-26T13:00:00.000Z", "2026-11-02T14:00:00.000Z", "2026-11-09T14:00:00.000Z"]],
+    ])("should keep a weekly %s booking at 09:00 local from %s", (zone, start, expected) => {
+      const baseStart = new Date(start);
+      const baseEnd = new Date(baseStart.getTime() + 60 * 60 * 1000);
+
+      const occurrences = RecurrenceEngine.expandRule(
+        weekly,
+        baseStart,
+        baseEnd,
+        baseStart,
+        new Date(baseStart.getTime() + 15 * 24 * 60 * 60 * 1000),
+        "booking_1",
+        undefined,
+        zone
+      );
+
+      expect(occurrences.map((o) => o.start.toISOString())).toEqual(expected);
+      expect(occurrences.map((o) => ZonedTime.formatTime(o.start, zone))).toEqual(["09:00", "09:00", "09:00"]);
+      expect(occurrences.every((o) => o.end.getTime() - o.start.getTime() === 60 * 60 * 1000)).toBe(true);
+    });
+
+    it("should match weekdays in the client's zone", () => {
+      // Mondays only; 23:30 UTC Sunday is already Monday in London during BST
+      const rule = { ...weekly, byWeekday: "1" };
+
+      expect(RecurrenceEngine.isWithinSeries(new Date("2026-04-05T23:30:00Z"), new Date("2026-03-01"), rule, LONDON)).toBe(true);
+      expect(RecurrenceEngine.isWithinSeries(new Date("2026-04-05T23:30:00Z"), new Date("2026-03-01"), rule, NEW_YORK)).toBe(false);
+    });
+  });
+
+  describe("MessageTemplates", () => {
+    it("should describe slots in the client's local time", () => {
+      const slot = new Date("2026-03-30T07:00:00Z");
+
+      expect(MessageTemplates.offerSlot(slot, LONDON)).toBe(
+        "The earliest I can offer is 8 AM on Mar 30. Does that work for you?"
+      );
+      expect(MessageTemplates.offerSlot(slot, NEW_YORK)).toBe(
+        "The earliest I can offer is 3 AM on Mar 30. Does that work for you?"
+      );
+    });
+
+    it("should decide 'today' by the client's calendar", () => {
+      jest.setSystemTime(new Date("2026-03-29T23:30:00Z"));
+      const slot = new Date("2026-03-30T07:00:00Z");
+
+      expect(MessageTemplates.urgentSlot(slot, LONDON)).toBe("I can fit you in today at 8 AM. Does that work?");
+      expect(MessageTemplates.urgentSlot(slot, NEW_YORK)).toMatch(/^The earliest I can offer is 3 AM/);
+    });
+  });
+});
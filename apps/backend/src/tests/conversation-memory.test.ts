@@ -0,0 +1,122 @@
+import express from "express";
+import request from "supertest";
+
+jest.mock("../db", () => ({ prisma: jest.requireActual("./support/memoryPrisma").createMemoryPrisma() }));
+
+// Loads AlertService, which refuses to start without ops phone numbers
+jest.mock("../services/StuckClientDetector", () => ({ StuckClientDetector: {} }));
+
+import { prisma } from "../db";
+import { memoryRows, resetMemoryPrisma, seedMemoryPrisma } from "./support/memoryPrisma";
+import { ConversationMemory } from "../services/ConversationMemory";
+import adminRoutes from "../routes/admin";
+import { generateClientUserToken } from "../utils/jwt";
+
+// conversation_memory rows, keyed by conversationId
+const storedRow = (conversationId: string) =>
+  memoryRows(prisma, "conversationMemoryState").find((row) => row.conversationId === conversationId);
+
+// Simulates a process restart: the in-process cache is gone, the table is not
+function dropCache() {
+  (ConversationMemory as any).memory.clear();
+}
+
+describe("ConversationMemory persistence", () => {
+  beforeEach(async () => {
+    resetMemoryPrisma(prisma);
+    await seedMemoryPrisma(prisma, {
+      user: [{ id: "admin_1", email: "founder@jobrun.com", password: "hash", role: "ADMIN" }],
+    });
+    dropCache();
+  });
+
+  it("should restore declined slots, questions and counters after a restart", async () => {
+    const slot = new Date("2026-03-02T09:00:00Z");
+
+    ConversationMemory.declineSlot("conv_1", slot);
+    ConversationMemory.askQuestion("conv_1", "what_time");
+    ConversationMemory.trackDecline("conv_1");
+    ConversationMemory.detectLoop("conv_1", "ok");
+    ConversationMemory.markSilencedForHandover("conv_1");
+    await ConversationMemory.flush("conv_1");
+
+    dropCache();
+    expect(ConversationMemory.get("conv_1")).toBeNull();
+
+    const state = await ConversationMemory.load("conv_1");
+
+    expect(state?.declinedSlots).toEqual([slot]);
+    expect(state?.previousQuestions).toEqual(["what_time"]);
+    expect(state?.declineCount).toBe(1);
+    expect(state?.loopCount).toBe(1);
+    expect(ConversationMemory.isSilenced("conv_1")).toBe(true);
+    expect(storedRow("conv_1")?.silenced).toBe(true);
+  });
+
+  it("should prefer the stored row over a stale cache from another replica", async () => {
+    ConversationMemory.trackDecline("conv_2");
+    await ConversationMemory.flush("conv_2");
+
+    // Another replica handled two more declines
+    const { state } = storedRow("conv_2")!;
+    await prisma.conversationMemoryState.update({
+      where: { conversationId: "conv_2" },
+      data: { state: { ...state, declineCount: 3 } },
+    });
+
+    await ConversationMemory.load("conv_2");
+
+    expect(ConversationMemory.getDeclineCount("conv_2")).toBe(3);
+  });
+
+  it("should delete the stored row when a conversation is cleared", async () => {
+    ConversationMemory.addMessage("conv_3", "hello", "customer");
+    await ConversationMemory.flush("conv_3");
+    expect(storedRow("conv_3")).toBeDefined();
+
+    ConversationMemory.clear("conv_3");
+    await ConversationMemory.flush("conv_3");
+
+    expect(storedRow("conv_3")).toBeUndefined();
+  });
+
+  it("should purge conversations idle for more than 24 hours", async () => {
+    ConversationMemory.touch("fresh");
+    ConversationMemory.update("stale", {});
+    (ConversationMemory.get("stale") as any).lastInteraction = Date.now() - 25 * 60 * 60 * 1000;
+    ConversationMemory.resetLoopCount("stale");
+    await ConversationMemory.flush();
+
+    const purged = await ConversationMemory.purgeExpired();
+
+    expect(purged).toBe(1);
+    expect(storedRow("fresh")).toBeDefined();
+    expect(ConversationMemory.get("stale")).toBeNull();
+  });
+
+  describe("GET /api/admin/conversations/:id/memory", () => {
+    const app = express();
+    app.use(express.json());
+    app.use("/api/admin", adminRoutes);
+
+    const auth = `Bearer ${generateClientUserToken({ id: "admin_1", email: "founder@jobrun.com", role: "ADMIN" })}`;
+
+    it("should show the cached and stored state", async () => {
+      ConversationMemory.proposeSlot("conv_4", new Date("2026-03-02T10:00:00Z"));
+      await ConversationMemory.flush("conv_4");
+
+      const response = await request(app)
+        .get("/api/admin/conversations/conv_4/memory")
+        .set("Authorization", auth)
+        .expect(200);
+
+      expect(response.body.data.cached.lastProposedSlot).toBe("2026-03-02T10:00:00.000Z");
+      expect(response.body.data.persisted.state.lastProposedSlot).toBe("2026-03-02T10:00:00.000Z");
+      expect(response.body.data.pendingWrite).toBe(false);
+    });
+
+    it("should 404 for unknown conversations", async () => {
+      await request(app).get("/api/admin/conversations/nope/memory").set("Authorization", auth).expect(404);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { parseCronExpression, nextCronRun, isValidCronExpression } from "../jobs/cron";
+
+const utc = (iso: string) => new Date(iso);
+
+describe("Cron Expressions", () => {
+  describe("parseCronExpression", () => {
+    it("should expand steps, ranges, lists and names", () => {
+      const cron = parseCronExpression("*/15 9-11 1,15 JAN-MAR MON");
+
+      expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+      expect([...cron.hours]).toEqual([9, 10, 11]);
+      expect([...cron.daysOfMonth]).toEqual([1, 15]);
+      expect([...cron.months]).toEqual([1, 2, 3]);
+      expect([...cron.daysOfWeek]).toEqual([1]);
+    });
+
+    it("should reject malformed expressions", () => {
+      expect(isValidCronExpression("* * * *")).toBe(false);
+      expect(isValidCronExpression("60 * * * *")).toBe(false);
+      expect(isValidCronExpression("*/0 * * * *")).toBe(false);
+      expect(isValidCronExpression("@daily")).toBe(true);
+    });
+  });
+
+  describe("nextCronRun", () => {
+    it("should return the next matching minute strictly after the given time", () => {
+      expect(nextCronRun("0 * * * *", utc("2026-01-06T10:00:00Z"))).toEqual(utc("2026-01-06T11:00:00Z"));
+      expect(nextCronRun("*/5 * * * *", utc("2026-01-06T10:02:31Z"))).toEqual(utc("2026-01-06T10:05:00Z"));
+    });
+
+    it("should roll over days, months and years", () => {
+      expect(nextCronRun("0 7 * * *", utc("2026-01-31T08:00:00Z"))).toEqual(utc("2026-02-01T07:00:00Z"));
+      expect(nextCronRun("0 9 1 * *", utc("2026-12-15T00:00:00Z"))).toEqual(utc("2027-01-01T09:00:00Z"));
+    });
+
+    it("should match weekly schedules on the right weekday", () => {
+      // 2026-01-06 is a Tuesday → next Monday is 2026-01-12
+      expect(nextCronRun("0 8 * * MON", utc("2026-01-06T09:00:00Z"))).toEqual(utc("2026-01-12T08:00:00Z"));
+    });
+
+    it("should OR day-of-month and day-of-week when both are restricted", () => {
+      // 15th of the month OR any Friday; 2026-01-09 is a Friday
+      expect(nextCronRun("0 0 15 * FRI", utc("2026-01-06T00:00:00Z"))).toEqual(utc("2026-01-09T00:00:00Z"));
+    });
+
+    it("should AND the day fields when one is a stepped *", () => {
+      // Odd-numbered Mondays, not "any odd day OR any Monday" (2026-01-07 is a Wednesday)
+      expect(nextCronRun("0 0 */2 * MON", utc("2026-01-06T00:00:00Z"))).toEqual(utc("2026-01-19T00:00:00Z"));
+      expect(parseCronExpression("0 0 */2 * MON")).toMatchObject({ dayOfMonthRestricted: false, dayOfWeekRestricted: true });
+    });
+
+    it("should skip months without the requested day", () => {
+      expect(nextCronRun("0 0 31 * *", utc("2026-02-01T00:00:00Z"))).toEqual(utc("2026-03-31T00:00:00Z"));
+    });
+  });
+});
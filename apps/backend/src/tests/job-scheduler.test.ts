@@ -0,0 +1,271 @@
+import express from "express";
+import request from "supertest";
+
+jest.mock("../db", () => ({ prisma: jest.requireActual("./support/memoryPrisma").createMemoryPrisma() }));
+
+// Loads AlertService, which refuses to start without ops phone numbers
+jest.mock("../services/StuckClientDetector", () => ({ StuckClientDetector: {} }));
+
+import { prisma } from "../db";
+import { memoryRows, resetMemoryPrisma, seedMemoryPrisma } from "./support/memoryPrisma";
+import { at } from "./support/fixtures";
+import adminRoutes from "../routes/admin";
+import {
+  JobDefinition,
+  registerJob,
+  resetJobRegistry,
+  runDueJobs,
+  setJobPaused,
+  syncJobDefinitions,
+  triggerJob,
+} from "../jobs/scheduler";
+import { generateClientUserToken } from "../utils/jwt";
+
+const NOW = new Date("2026-01-12T10:00:00Z");
+
+const job = () => memoryRows(prisma, "scheduledJob")[0];
+const runs = () => memoryRows(prisma, "jobRun");
+
+const mockHandler = jest.fn<Promise<unknown>, []>();
+
+async function register(overrides: Partial<JobDefinition> = {}) {
+  registerJob({
+    name: "nightly-report",
+    description: "Send the nightly report",
+    cron: "0 * * * *",
+    handler: mockHandler,
+    ...overrides,
+  });
+  await syncJobDefinitions();
+}
+
+async function runAt(time: string): Promise<string[]> {
+  jest.setSystemTime(at(time));
+  return runDueJobs();
+}
+
+// Handlers run in the background; wait until no run is left RUNNING
+async function settle() {
+  for (let i = 0; i < 20 && runs().some((run) => run.status === "RUNNING"); i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+describe("Job scheduler", () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: NOW, doNotFake: ["nextTick", "setImmediate"] });
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    resetMemoryPrisma(prisma);
+    mockHandler.mockResolvedValue({ sent: 3 });
+  });
+
+  afterEach(() => {
+    resetJobRegistry();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe("locking", () => {
+    it("should start a due job on only one of two runners", async () => {
+      await register();
+      jest.setSystemTime(at("11:00"));
+
+      const [first, second] = await Promise.all([runDueJobs(), runDueJobs()]);
+      await settle();
+
+      expect([...first, ...second]).toEqual(["nightly-report"]);
+      expect(mockHandler).toHaveBeenCalledTimes(1);
+      expect(runs()).toHaveLength(1);
+    });
+
+    it("should wait for a live lock and take over an expired one", async () => {
+      await register();
+      await prisma.scheduledJob.update({
+        where: { name: "nightly-report" },
+        data: { lockedBy: "replica-2", lockedUntil: at("11:10") },
+      });
+      await seedMemoryPrisma(prisma, {
+        jobRun: [{ jobId: job().id, jobName: "nightly-report", trigger: "SCHEDULE", instanceId: "replica-2" }],
+      });
+
+      expect(await runAt("11:00")).toEqual([]);
+      expect(await runAt("11:11")).toEqual(["nightly-report"]);
+      await settle();
+
+      expect(runs().map((run) => [run.instanceId, run.status, run.error])).toEqual([
+        ["replica-2", "FAILED", "Abandoned: lock expired before the run finished"],
+        [expect.not.stringMatching("replica-2"), "SUCCEEDED", null],
+      ]);
+    });
+  });
+
+  describe("runs", () => {
+    it("should record a successful run and schedule the next slot", async () => {
+      await register();
+      expect(job()).toMatchObject({ paused: false, nextRunAt: at("11:00") });
+
+      expect(await runAt("11:00")).toEqual(["nightly-report"]);
+      await settle();
+
+      expect(runs()).toEqual([
+        expect.objectContaining({
+          trigger: "SCHEDULE",
+          status: "SUCCEEDED",
+          attempt: 1,
+          finishedAt: at("11:00"),
+          durationMs: 0,
+          error: null,
+          result: { sent: 3 },
+        }),
+      ]);
+      expect(job()).toMatchObject({
+        lastRunAt: at("11:00"),
+        lastStatus: "SUCCEEDED",
+        lockedBy: null,
+        lockedUntil: null,
+        nextRunAt: at("12:00"),
+        retryAttempt: 0,
+      });
+    });
+
+    it("should retry failures with exponential backoff up to maxRetries", async () => {
+      await register({ maxRetries: 2, retryDelaySeconds: 60 });
+      mockHandler.mockRejectedValue(new Error("SMTP down"));
+
+      await runAt("11:00");
+      await settle();
+      expect(job()).toMatchObject({ lastStatus: "FAILED", retryAttempt: 1, nextRunAt: at("11:01") });
+
+      expect(await runAt("11:00")).toEqual([]);
+      await runAt("11:01");
+      await settle();
+      expect(job()).toMatchObject({ retryAttempt: 2, nextRunAt: at("11:03") });
+
+      await runAt("11:03");
+      await settle();
+      // Retries used up: back to the cron schedule
+      expect(job()).toMatchObject({ retryAttempt: 0, nextRunAt: at("12:00") });
+
+      expect(runs().map((run) => [run.trigger, run.attempt, run.status, run.error])).toEqual([
+        ["SCHEDULE", 1, "FAILED", "SMTP down"],
+        ["RETRY", 2, "FAILED", "SMTP down"],
+        ["RETRY", 3, "FAILED", "SMTP down"],
+      ]);
+    });
+  });
+
+  describe("pause and trigger", () => {
+    it("should skip a paused job but still run it on demand", async () => {
+      await register();
+      await setJobPaused("nightly-report", true);
+
+      expect(await runAt("11:00")).toEqual([]);
+
+      const result = await triggerJob("nightly-report");
+      await settle();
+
+      expect(result).toEqual({ started: true, runId: runs()[0].id });
+      expect(runs()[0]).toMatchObject({ trigger: "MANUAL", attempt: 1, status: "SUCCEEDED" });
+      // Manual runs never move the schedule
+      expect(job()).toMatchObject({ paused: true, nextRunAt: at("11:00") });
+    });
+
+    it("should refuse to trigger a job that is already running", async () => {
+      let finish = () => {};
+      mockHandler.mockImplementation(() => new Promise((resolve) => (finish = () => resolve(null))));
+      await register();
+
+      expect(await triggerJob("nightly-report")).toMatchObject({ started: true });
+      expect(await triggerJob("nightly-report")).toEqual({ started: false, reason: "LOCKED" });
+
+      finish();
+      await settle();
+      expect(await triggerJob("nightly-report")).toMatchObject({ started: true });
+    });
+
+    it("should reschedule from now when resumed", async () => {
+      await register({ maxRetries: 1 });
+      await prisma.scheduledJob.update({ where: { name: "nightly-report" }, data: { retryAttempt: 1 } });
+      await setJobPaused("nightly-report", true);
+
+      jest.setSystemTime(at("15:30"));
+      await setJobPaused("nightly-report", false);
+
+      expect(job()).toMatchObject({ paused: false, retryAttempt: 0, nextRunAt: at("16:00") });
+    });
+
+    it("should report unknown and unregistered jobs", async () => {
+      await seedMemoryPrisma(prisma, { scheduledJob: [{ name: "retired-job", cronExpression: "0 * * * *" }] });
+
+      expect(await triggerJob("nope")).toEqual({ started: false, reason: "NOT_FOUND" });
+      expect(await triggerJob("retired-job")).toEqual({ started: false, reason: "NOT_REGISTERED" });
+    });
+  });
+
+  describe("admin routes", () => {
+    const auth = () => ({
+      Authorization: `Bearer ${generateClientUserToken({ id: "admin_1", email: "founder@jobrun.com", role: "ADMIN" })}`,
+    });
+
+    function createApp() {
+      const app = express();
+      app.use(express.json());
+      app.use("/api/admin", adminRoutes);
+      return app;
+    }
+
+    beforeEach(async () => {
+      await seedMemoryPrisma(prisma, {
+        user: [{ id: "admin_1", email: "founder@jobrun.com", password: "hash", role: "ADMIN" }],
+      });
+      await register();
+    });
+
+    it("should list jobs with their schedule and last run", async () => {
+      await runAt("11:00");
+      await settle();
+
+      const res = await request(createApp()).get("/api/admin/jobs").set(auth()).expect(200);
+
+      expect(res.body.data.jobs).toEqual([
+        expect.objectContaining({
+          name: "nightly-report",
+          registered: true,
+          running: false,
+          paused: false,
+          lastStatus: "SUCCEEDED",
+          lastRun: expect.objectContaining({ status: "SUCCEEDED" }),
+        }),
+      ]);
+
+      const history = await request(createApp()).get("/api/admin/jobs/nightly-report/runs").set(auth()).expect(200);
+      expect(history.body.data).toMatchObject({ job: "nightly-report", showing: 1 });
+      await request(createApp()).get("/api/admin/jobs/nope/runs").set(auth()).expect(404);
+    });
+
+    it("should trigger, pause and resume jobs and audit each change", async () => {
+      const app = createApp();
+      let finish = () => {};
+      mockHandler.mockImplementation(() => new Promise((resolve) => (finish = () => resolve(null))));
+
+      const triggered = await request(app).post("/api/admin/jobs/nightly-report/trigger").set(auth()).expect(202);
+      await request(app).post("/api/admin/jobs/nightly-report/trigger").set(auth()).expect(409);
+      finish();
+      await settle();
+
+      await request(app).patch("/api/admin/jobs/nightly-report/pause").set(auth()).send({ paused: "yes" }).expect(400);
+      await request(app).patch("/api/admin/jobs/nightly-report/pause").set(auth()).send({ paused: true }).expect(200);
+      await request(app).patch("/api/admin/jobs/nightly-report/pause").set(auth()).send({ paused: false }).expect(200);
+      await request(app).patch("/api/admin/jobs/nope/pause").set(auth()).send({ paused: true }).expect(404);
+
+      expect(triggered.body.data).toEqual({ job: "nightly-report", runId: runs()[0].id });
+      expect(memoryRows(prisma, "adminAction").map((action) => [action.action, action.metadata.job])).toEqual([
+        ["trigger_job", "nightly-report"],
+        ["pause_job", "nightly-report"],
+        ["resume_job", "nightly-report"],
+      ]);
+    });
+  });
+});
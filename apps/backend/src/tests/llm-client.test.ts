@@ -0,0 +1,204 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const mockCreate = jest.fn(async (params: any) => ({
+  choices: [{ message: { content: `{"model":"${params.model}"}` } }],
+  usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+}));
+const mockOpenAIOptions: any[] = [];
+
+jest.mock("openai", () => ({
+  __esModule: true,
+  default: class OpenAI {
+    chat = { completions: { create: mockCreate } };
+    constructor(options: any) {
+      mockOpenAIOptions.push(options);
+    }
+  },
+}));
+
+jest.mock("../db", () => ({
+  prisma: { message: { findMany: jest.fn(async () => []) } },
+}));
+
+jest.mock("../services/NotificationService", () => ({
+  NotificationService: { sendHandoverNotification: jest.fn() },
+}));
+
+// Lead persistence is out of scope here; keep the real state machine
+jest.mock("../services/vault", () => {
+  const actual = jest.requireActual("../services/vault");
+  const lead = { id: "lead_1", customerId: "cust_1", state: "NEW", sentBooking: false, askedClarify: false, escalated: false };
+  return {
+    ...actual,
+    getOrCreateLead: jest.fn(async () => ({ ...lead })),
+    updateLeadFromFlow: jest.fn(async ({ lead }) => lead),
+    transitionLeadState: jest.fn(async ({ lead, newState }) => ({ ...lead, state: newState })),
+    markBookingSent: jest.fn(async () => ({ ...lead, sentBooking: true })),
+    markClarificationAsked: jest.fn(async () => ({ ...lead, askedClarify: true })),
+    markEscalated: jest.fn(async () => ({ ...lead, escalated: true })),
+  };
+});
+
+import {
+  FixtureLLMProvider,
+  LLMClient,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LocalLLMProvider,
+  isLLMConfigured,
+  setLLMProvider,
+} from "../llm/LLMClient";
+import { handleInboundSms } from "../ai/pipelines/inboundSmsPipeline";
+
+function request(overrides: Partial<LLMRequest> = {}): LLMRequest {
+  return {
+    model: "gpt-4o-mini",
+    systemPrompt: "Classify the message.",
+    userPrompt: "My boiler has stopped",
+    jsonMode: true,
+    ...overrides,
+  };
+}
+
+// Stands in for a live model when recording: answers each agent by its system prompt
+class ScriptedProvider implements LLMProvider {
+  readonly name = "openai" as const;
+  calls = 0;
+
+  async generate(req: LLMRequest): Promise<LLMResponse> {
+    this.calls++;
+    const content = req.systemPrompt.startsWith("You are SENTINEL")
+      ? '{"allowed":true,"category":"SAFE","reason":"service request"}'
+      : req.systemPrompt.startsWith("You are an intent classification")
+      ? '{"intent":"NORMAL","confidence":0.9}'
+      : req.systemPrompt.startsWith("You are an entity extraction")
+      ? '{"jobType":"boiler repair","location":"Leeds"}'
+      : '{"reply":"Thanks for your message, we can help with your boiler."}';
+
+    return { content, usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 }, model: req.model, provider: this.name };
+  }
+}
+
+describe("LLMClient", () => {
+  const originalEnv = process.env;
+  let tmpDir: string;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.OPENAI_API_KEY;
+    delete process.env.LLM_PROVIDER;
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "llm-fixtures-"));
+    mockOpenAIOptions.length = 0;
+    mockCreate.mockClear();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setLLMProvider(null);
+    process.env = originalEnv;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  describe("provider selection", () => {
+    it("should construct without OPENAI_API_KEY and fail only when generating", async () => {
+      const client = new LLMClient();
+
+      expect(isLLMConfigured()).toBe(false);
+      await expect(client.generate(request())).rejects.toThrow("OPENAI_API_KEY");
+    });
+
+    it("should use the fixture provider when LLM_PROVIDER=fixture", async () => {
+      process.env.LLM_PROVIDER = "fixture";
+      process.env.LLM_FIXTURES_PATH = path.join(tmpDir, "fixtures.json");
+      const fixtures = new FixtureLLMProvider({ path: process.env.LLM_FIXTURES_PATH });
+      fixtures.add(request(), '{"intent":"NORMAL"}');
+      fixtures.save();
+
+      const response = await new LLMClient().generate(request());
+
+      expect(isLLMConfigured()).toBe(true);
+      expect(response).toMatchObject({ content: '{"intent":"NORMAL"}', provider: "fixture" });
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+
+    it("should send local requests to the configured endpoint and model", async () => {
+      const local = new LocalLLMProvider({ baseURL: "http://localhost:11434/v1", model: "llama3.1:8b" });
+
+      const response = await new LLMClient(local).generate(request());
+
+      expect(mockOpenAIOptions[0].baseURL).toBe("http://localhost:11434/v1");
+      expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({ model: "llama3.1:8b" }));
+      expect(response.provider).toBe("local");
+    });
+  });
+
+  describe("FixtureLLMProvider", () => {
+    it("should key fixtures by prompt, not by model", () => {
+      expect(FixtureLLMProvider.hashPrompt(request({ model: "gpt-4o" }))).toBe(
+        FixtureLLMProvider.hashPrompt(request({ model: "llama3.1:8b", temperature: 0 }))
+      );
+      expect(FixtureLLMProvider.hashPrompt(request())).not.toBe(
+        FixtureLLMProvider.hashPrompt(request({ userPrompt: "My boiler has stopped!" }))
+      );
+    });
+
+    it("should throw with the prompt hash when no fixture was recorded", async () => {
+      const provider = new FixtureLLMProvider();
+
+      await expect(provider.generate(request())).rejects.toThrow(FixtureLLMProvider.hashPrompt(request()));
+      expect(provider.calls[0].hit).toBe(false);
+    });
+
+    it("should record unknown prompts and replay them from the file", async () => {
+      const file = path.join(tmpDir, "fixtures.json");
+      const upstream = new ScriptedProvider();
+
+      const recorder = new FixtureLLMProvider({ path: file, recordWith: upstream });
+      const recorded = await recorder.generate(request());
+      await recorder.generate(request());
+
+      const replay = new FixtureLLMProvider({ path: file });
+      const replayed = await replay.generate(request());
+
+      expect(upstream.calls).toBe(1);
+      expect(replayed.content).toBe(recorded.content);
+      expect(JSON.parse(fs.readFileSync(file, "utf8"))[FixtureLLMProvider.hashPrompt(request())]).toMatchObject({
+        content: recorded.content,
+        promptPreview: "My boiler has stopped",
+      });
+    });
+  });
+
+  describe("handleInboundSms offline", () => {
+    const params = {
+      client: { id: "client_1", businessName: "FastFix Plumbing", controls: null } as any,
+      customer: { id: "cust_1", phone: "+447700900123", name: "Sam", state: "NEW" } as any,
+      inboundMessage: { id: "msg_1", body: "Hi, my boiler has stopped working and I'm in Leeds" } as any,
+      clientSettings: null,
+    };
+
+    it("should replay a recorded pipeline run without a live model", async () => {
+      const file = path.join(tmpDir, "pipeline.json");
+      const upstream = new ScriptedProvider();
+
+      setLLMProvider(new FixtureLLMProvider({ path: file, recordWith: upstream }));
+      const recorded = await handleInboundSms(params);
+
+      const replay = new FixtureLLMProvider({ path: file });
+      setLLMProvider(replay);
+      const replayed = await handleInboundSms(params);
+
+      expect(recorded.replyMessage).toBe("Thanks for your message, we can help with your boiler.");
+      expect(replayed).toEqual(recorded);
+      expect(replay.calls.length).toBe(upstream.calls);
+      expect(replay.calls.every((call) => call.hit)).toBe(true);
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,235 @@
+process.env.TZ = "UTC";
+
+jest.mock("../db", () => ({ prisma: jest.requireActual("./support/memoryPrisma").createMemoryPrisma() }));
+
+jest.mock("../twilio/client", () => ({
+  sendSMS: jest.fn(async () => "SM_1"),
+}));
+
+jest.mock("../modules/conversation/service", () => ({
+  addMessage: jest.fn(async (message: any) => message),
+}));
+
+import { prisma } from "../db";
+import { memoryRows, resetMemoryPrisma, seedMemoryPrisma } from "./support/memoryPrisma";
+import { at } from "./support/fixtures";
+import { sendSMS } from "../twilio/client";
+import { addMessage } from "../modules/conversation/service";
+import {
+  cancelOutboundMessage,
+  dispatchDueMessages,
+  enqueueSms,
+  nextSendableTime,
+  retryOutboundMessage,
+} from "../services/OutboundQueue";
+
+const mockSendSMS = sendSMS as jest.Mock;
+
+const WEEKDAYS_9_TO_5 = {
+  monday: { enabled: true, open: "09:00", close: "17:00" },
+  tuesday: { enabled: true, open: "09:00", close: "17:00" },
+  wednesday: { enabled: true, open: "09:00", close: "17:00" },
+  thursday: { enabled: true, open: "09:00", close: "17:00" },
+  friday: { enabled: true, open: "09:00", close: "17:00" },
+  saturday: { enabled: false, open: "09:00", close: "17:00" },
+  sunday: { enabled: false, open: "09:00", close: "17:00" },
+};
+
+const message = {
+  to: "+447700900123",
+  from: "+447700900000",
+  body: "Just checking in about your quote",
+  source: "agent",
+  clientId: "client_1",
+  customerId: "cust_1",
+  conversationId: "conv_1",
+};
+
+const messages = () => memoryRows(prisma, "outboundMessage");
+
+describe("Outbound queue", () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    resetMemoryPrisma(prisma);
+    await seedMemoryPrisma(prisma, {
+      client: [{ id: "client_1", businessName: "Ace Plumbing", businessHours: WEEKDAYS_9_TO_5, timezone: "Europe/London" }],
+    });
+    delete process.env.OUTBOUND_SMS_PER_MINUTE;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("nextSendableTime", () => {
+    it("should hold messages until the client opens", () => {
+      expect(nextSendableTime(WEEKDAYS_9_TO_5, "Europe/London", at("02:00"))).toEqual(at("09:00"));
+      expect(nextSendableTime(WEEKDAYS_9_TO_5, "Europe/London", at("11:30"))).toEqual(at("11:30"));
+      // Friday evening → Monday morning
+      expect(nextSendableTime(WEEKDAYS_9_TO_5, "Europe/London", at("18:00", "16"))).toEqual(at("09:00", "19"));
+    });
+
+    it("should use the client's time zone", () => {
+      // 13:00 UTC is 08:00 in New York
+      expect(nextSendableTime(WEEKDAYS_9_TO_5, "America/New_York", at("13:00"))).toEqual(at("14:00"));
+    });
+
+    it("should fall back to 08:00-21:00 without business hours", () => {
+      expect(nextSendableTime(null, "Europe/London", at("22:00"))).toEqual(at("08:00", "13"));
+      expect(nextSendableTime(null, "Europe/London", at("20:59"))).toEqual(at("20:59"));
+    });
+
+    it("should not hold messages for a client closed every day", () => {
+      const closed = { monday: { enabled: false, open: "09:00", close: "17:00" } };
+
+      expect(nextSendableTime(closed, "Europe/London", at("02:00"))).toEqual(at("02:00"));
+    });
+  });
+
+  describe("enqueueSms", () => {
+    it("should send due messages straight away and record them on the conversation", async () => {
+      const queued = await enqueueSms(message, at("10:00"));
+
+      expect(queued).toMatchObject({ status: "SENT", twilioSid: "SM_1", attempts: 1, sentAt: at("10:00") });
+      expect(mockSendSMS).toHaveBeenCalledWith("+447700900123", "+447700900000", message.body, {
+        retries: 1,
+        correlationId: queued.id,
+      });
+      expect(addMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ conversationId: "conv_1", direction: "OUTBOUND", twilioSid: "SM_1" })
+      );
+    });
+
+    it("should hold messages during quiet hours unless told not to", async () => {
+      const followUp = await enqueueSms(message, at("02:00"));
+      const reply = await enqueueSms({ ...message, quietHours: false }, at("02:00"));
+
+      expect(followUp).toMatchObject({ status: "QUEUED", sendAfter: at("09:00") });
+      expect(reply).toMatchObject({ status: "SENT" });
+      expect(mockSendSMS).toHaveBeenCalledTimes(1);
+    });
+
+    it("should schedule messages for their send time", async () => {
+      const queued = await enqueueSms({ ...message, sendAt: at("15:00") }, at("10:00"));
+
+      expect(queued).toMatchObject({ status: "QUEUED", sendAfter: at("15:00") });
+      expect(mockSendSMS).not.toHaveBeenCalled();
+    });
+
+    it("should send each idempotency key once", async () => {
+      const first = await enqueueSms({ ...message, idempotencyKey: "follow-up:lead_1" }, at("10:00"));
+      const again = await enqueueSms({ ...message, idempotencyKey: "follow-up:lead_1" }, at("10:05"));
+
+      expect(again.id).toBe(first.id);
+      expect(messages()).toHaveLength(1);
+      expect(mockSendSMS).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("dispatchDueMessages", () => {
+    it("should send held messages once they're due", async () => {
+      await enqueueSms(message, at("02:00"));
+
+      await expect(dispatchDueMessages(at("08:59"))).resolves.toMatchObject({ sent: 0 });
+      await expect(dispatchDueMessages(at("09:00"))).resolves.toMatchObject({ sent: 1 });
+      expect(messages()[0]).toMatchObject({ status: "SENT", sentAt: at("09:00") });
+    });
+
+    it("should throttle each sending number", async () => {
+      process.env.OUTBOUND_SMS_PER_MINUTE = "2";
+      for (let i = 0; i < 3; i++) {
+        await enqueueSms({ ...message, sendAt: at("10:00") }, at("09:30"));
+      }
+      await enqueueSms({ ...message, from: "+447700900999", sendAt: at("10:00") }, at("09:30"));
+
+      await expect(dispatchDueMessages(at("10:00"))).resolves.toMatchObject({ sent: 3, throttled: 1 });
+      await expect(dispatchDueMessages(new Date("2026-01-12T10:00:30Z"))).resolves.toMatchObject({ sent: 0, throttled: 1 });
+      await expect(dispatchDueMessages(at("10:01"))).resolves.toMatchObject({ sent: 1, throttled: 0 });
+    });
+
+    it("should count in-flight sends when replicas dispatch at once", async () => {
+      process.env.OUTBOUND_SMS_PER_MINUTE = "2";
+      for (let i = 0; i < 4; i++) {
+        await enqueueSms({ ...message, sendAt: at("10:00") }, at("09:30"));
+      }
+
+      // Transactions run one after another, as the number's advisory lock
+      // makes them; Twilio answers slowly, so claimed rows sit in SENDING
+      let held = Promise.resolve();
+      (prisma.$transaction as unknown as jest.Mock).mockImplementation((fn: (tx: unknown) => Promise<unknown>) => {
+        const run = held.then(() => fn(prisma));
+        held = run.then(
+          () => {},
+          () => {}
+        );
+        return run;
+      });
+      mockSendSMS.mockImplementation(() => new Promise((resolve) => setTimeout(() => resolve("SM_1"), 10)));
+
+      const summaries = await Promise.all([dispatchDueMessages(at("10:00")), dispatchDueMessages(at("10:00"))]);
+
+      expect(summaries[0].sent + summaries[1].sent).toBe(2);
+      expect(mockSendSMS).toHaveBeenCalledTimes(2);
+      expect(messages().filter((m) => m.status === "QUEUED")).toHaveLength(2);
+    });
+
+    it("should retry failures with backoff and dead-letter them when out of attempts", async () => {
+      mockSendSMS.mockRejectedValue(Object.assign(new Error("Service unavailable"), { code: 20503 }));
+      const queued = await enqueueSms({ ...message, maxAttempts: 2 }, at("10:00"));
+
+      expect(queued).toMatchObject({ status: "QUEUED", attempts: 1, sendAfter: at("10:01"), lastErrorCode: "20503" });
+
+      await expect(dispatchDueMessages(new Date("2026-01-12T10:00:30Z"))).resolves.toMatchObject({ retried: 0, dead: 0 });
+      await expect(dispatchDueMessages(at("10:01"))).resolves.toMatchObject({ dead: 1 });
+      expect(messages()[0]).toMatchObject({ status: "DEAD", attempts: 2, lastError: "Service unavailable" });
+    });
+
+    it("should dead-letter permanent rejections without retrying", async () => {
+      mockSendSMS.mockRejectedValueOnce(Object.assign(new Error("Not a mobile number"), { code: 21614 }));
+
+      await expect(enqueueSms(message, at("10:00"))).resolves.toMatchObject({ status: "DEAD", attempts: 1 });
+    });
+
+    it("should dead-letter sends abandoned mid-flight instead of resending them", async () => {
+      await enqueueSms({ ...message, sendAt: at("10:00") }, at("09:00"));
+      Object.assign(messages()[0], { status: "SENDING", lockedUntil: at("10:02") });
+
+      await expect(dispatchDueMessages(at("10:03"))).resolves.toMatchObject({ dead: 1, sent: 0 });
+      expect(messages()[0].lastError).toMatch(/outcome unknown/);
+      expect(mockSendSMS).not.toHaveBeenCalled();
+    });
+
+    it("should cancel expired messages and customers who opted out meanwhile", async () => {
+      await enqueueSms({ ...message, expiresAt: at("08:30") }, at("02:00"));
+      await enqueueSms(message, at("02:00"));
+      await seedMemoryPrisma(prisma, {
+        smsConsent: [{ clientId: "client_1", phone: message.to, status: "OPTED_OUT" }],
+      });
+
+      await expect(dispatchDueMessages(at("09:00"))).resolves.toMatchObject({ cancelled: 2, sent: 0 });
+      expect(messages().map((m) => m.lastError)).toEqual(["EXPIRED", expect.any(String)]);
+    });
+  });
+
+  describe("admin", () => {
+    it("should requeue dead letters and cancel queued messages", async () => {
+      mockSendSMS.mockRejectedValueOnce(Object.assign(new Error("Not a mobile number"), { code: 21614 }));
+      const dead = await enqueueSms(message, at("10:00"));
+      const held = await enqueueSms(message, at("02:00"));
+
+      await expect(retryOutboundMessage(dead.id, at("10:05"))).resolves.toMatchObject({
+        success: true,
+        message: { status: "QUEUED", attempts: 0, sendAfter: at("10:05") },
+      });
+      await expect(cancelOutboundMessage(held.id)).resolves.toMatchObject({
+        success: true,
+        message: { status: "CANCELLED" },
+      });
+      await expect(cancelOutboundMessage(held.id)).resolves.toEqual({ success: false, reason: "INVALID_STATUS" });
+      await expect(retryOutboundMessage("nope")).resolves.toEqual({ success: false, reason: "NOT_FOUND" });
+    });
+  });
+});
@@ -0,0 +1,76 @@
+const mockPrisma = {
+  client: { findUnique: jest.fn() },
+  clientSettings: { findUnique: jest.fn() },
+};
+jest.mock("@prisma/client", () => ({
+  ...jest.requireActual("@prisma/client"),
+  PrismaClient: jest.fn(() => mockPrisma),
+}));
+
+jest.mock("../services/ConversationMemory", () => ({ ConversationMemory: {} }));
+
+jest.mock("../services/SystemGate", () => ({
+  canProcessNotificationRequest: () => ({ allowed: true }),
+}));
+
+const mockEnqueueSms = jest.fn();
+jest.mock("../services/OutboundQueue", () => ({
+  enqueueSms: (...args: unknown[]) => mockEnqueueSms(...args),
+}));
+
+import { NotificationService } from "../services/NotificationService";
+
+const notification = {
+  agentName: "ChatAssistant",
+  title: "Customer wants a callback",
+  message: "Sam asked for a call about the boiler quote",
+  severity: "WARNING" as const,
+};
+
+describe("Owner notifications", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    process.env.TWILIO_NUMBER = "+447700900000";
+    mockPrisma.client.findUnique.mockResolvedValue({ id: "client_1", phoneNumber: "+447700900111" });
+    mockPrisma.clientSettings.findUnique.mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should queue the owner's text without waiting for quiet hours", async () => {
+    mockEnqueueSms.mockResolvedValue({ id: "out_1", status: "SENT" });
+
+    const result = await NotificationService.sendAgentNotification("client_1", notification);
+
+    expect(result).toEqual({ smsSent: true, emailSent: false, errors: [] });
+    expect(mockEnqueueSms).toHaveBeenCalledWith({
+      to: "+447700900111",
+      from: "+447700900000",
+      body: "[WARNING] Customer wants a callback\n\nSam asked for a call about the boiler quote",
+      source: "owner_notification",
+      clientId: "client_1",
+      quietHours: false,
+    });
+  });
+
+  it("should count a throttled or retrying text as sent", async () => {
+    mockEnqueueSms.mockResolvedValue({ id: "out_1", status: "QUEUED" });
+
+    await expect(NotificationService.sendAgentNotification("client_1", notification)).resolves.toMatchObject({
+      smsSent: true,
+    });
+  });
+
+  it("should report a text the queue dropped", async () => {
+    mockEnqueueSms.mockResolvedValue({ id: "out_1", status: "CANCELLED", lastError: "Recipient has opted out" });
+
+    await expect(NotificationService.sendAgentNotification("client_1", notification)).resolves.toEqual({
+      smsSent: false,
+      emailSent: false,
+      errors: ["SMS failed: Error: Recipient has opted out"],
+    });
+  });
+});
@@ -0,0 +1,424 @@
+process.env.TZ = "UTC";
+
+import express from "express";
+import request from "supertest";
+import jwt from "jsonwebtoken";
+
+const mockBookings: any[] = [];
+
+jest.mock("../db", () => ({
+  prisma: {
+    client: {
+      findUnique: jest.fn(async () => ({ timezone: "Europe/London" })),
+    },
+    weeklyAvailability: {
+      findMany: jest.fn(async () =>
+        [0, 1, 2, 3, 4, 5, 6].map((weekday) => ({ weekday, startTime: "08:00", endTime: "17:00" }))
+      ),
+    },
+    blockedTime: {
+      findMany: jest.fn(async () => []),
+    },
+    booking: {
+      findMany: jest.fn(async () => mockBookings),
+      findFirst: jest.fn(async ({ where }: any) =>
+        mockBookings.find((booking) => booking.id === where.id && booking.clientId === where.clientId) ?? null
+      ),
+      create: jest.fn(async ({ data }: any) => ({ id: "booking_new", ...data })),
+    },
+    recurrenceRule: {
+      create: jest.fn(async ({ data }: any) => ({ id: "rule_new", ...data })),
+    },
+    recurrenceOverride: {
+      upsert: jest.fn(async ({ create }: any) => ({ id: "override_1", ...create })),
+    },
+    clientMembership: {
+      findUnique: jest.fn(),
+    },
+
+    calendarBusyTime: {
+      findMany: jest.fn(async () => []),
+    },
+    resource: {
+      findMany: jest.fn(async () => []),
+    },
+  },
+}));
+
+import { prisma } from "../db";
+import { RRule } from "../lib/calendar/RRule";
+import { RecurrenceEngine, RecurrenceRule } from "../lib/calendar/RecurrenceEngine";
+import { OverlapEngine } from "../lib/calendar/OverlapEngine";
+import { SlotFinder } from "../services/SlotFinder";
+import clientBookingsRoutes from "../routes/client-bookings";
+
+const JWT_SECRET = process.env.JWT_SECRET || "jobrun-secret-key-change-in-production";
+const LONDON = "Europe/London";
+const HOUR = 60 * 60 * 1000;
+
+function expand(rule: Partial<RecurrenceRule>, start: string, rangeEnd: string, rangeStart = start) {
+  const baseStart = new Date(start);
+  return RecurrenceEngine.expandRule(
+    { frequency: "CUSTOM", interval: 1, ...rule },
+    baseStart,
+    new Date(baseStart.getTime() + HOUR),
+    new Date(rangeStart),
+    new Date(rangeEnd),
+    "booking_1",
+    "rule_1",
+    LONDON
+  );
+}
+
+const starts = (occurrences: Array<{ start: Date }>) => occurrences.map((o) => o.start.toISOString());
+
+function recurringBooking(rrule: string, start: string, overrides: any[] = []) {
+  return {
+    id: "booking_series",
+    clientId: "client_1",
+    start: new Date(start),
+    end: new Date(new Date(start).getTime() + HOUR),
+    status: "CONFIRMED",
+    customerName: "Servicing customer",
+    recurrenceRuleId: "rule_1",
+    recurrenceRule: {
+      id: "rule_1",
+      frequency: "CUSTOM",
+      interval: 1,
+      byWeekday: null,
+      byMonthday: null,
+      endDate: null,
+      occurrences: null,
+      rrule,
+      exdates: [],
+      rdates: [],
+      overrides,
+    },
+  };
+}
+
+describe("RFC 5545 recurrence", () => {
+  beforeEach(() => {
+    mockBookings.length = 0;
+    jest.clearAllMocks();
+  });
+
+  describe("RRule.parse", () => {
+    it("should parse ordinals, set positions and round-trip", () => {
+      const result = RRule.parse("RRULE:FREQ=MONTHLY;INTERVAL=3;BYDAY=TU,-1FR;BYSETPOS=2;UNTIL=20271231");
+
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.rule).toMatchObject({
+        freq: "MONTHLY",
+        interval: 3,
+        byDay: [{ weekday: 2 }, { weekday: 5, n: -1 }],
+        bySetPos: [2],
+        until: new Date("2027-12-31T23:59:59Z"),
+      });
+      expect(RRule.format(result.rule)).toBe("FREQ=MONTHLY;INTERVAL=3;UNTIL=20271231T235959Z;BYDAY=TU,-1FR;BYSETPOS=2");
+    });
+
+    it.each([
+      ["INTERVAL=2", "FREQ is required"],
+      ["FREQ=HOURLY", 'Unsupported FREQ "HOURLY"'],
+      ["FREQ=DAILY;BYHOUR=9", "BYHOUR is not supported"],
+      ["FREQ=DAILY;COUNT=3;UNTIL=20270101", "COUNT and UNTIL cannot both be set"],
+      ["FREQ=MONTHLY;BYDAY=0TU", 'Invalid BYDAY "0TU"'],
+      ["FREQ=MONTHLY;BYMONTHDAY=32", 'Invalid BYMONTHDAY "32"'],
+    ])("should reject %s", (value, error) => {
+      expect(RRule.parse(value)).toEqual({ ok: false, error });
+    });
+  });
+
+  describe("RecurrenceEngine", () => {
+    it("should expand 'second Tuesday every 3 months except bank holidays'", () => {
+      const occurrences = expand(
+        { rrule: "FREQ=MONTHLY;INTERVAL=3;BYDAY=TU;BYSETPOS=2", exdates: [new Date("2026-04-14T00:00:00+01:00")] },
+        "2026-01-13T09:00:00Z",
+        "2027-01-31T00:00:00Z"
+      );
+
+      // 09:00 London each time (BST from April to October); 14 April excluded
+      expect(starts(occurrences)).toEqual([
+        "2026-01-13T09:00:00.000Z",
+        "2026-07-14T08:00:00.000Z",
+        "2026-10-13T08:00:00.000Z",
+        "2027-01-12T09:00:00.000Z",
+      ]);
+    });
+
+    it("should expand YEARLY with BYMONTH and a negative BYDAY ordinal", () => {
+      const occurrences = expand({ rrule: "FREQ=YEARLY;BYMONTH=3;BYDAY=-1FR" }, "2026-03-27T10:00:00Z", "2028-12-31T00:00:00Z");
+
+      expect(starts(occurrences)).toEqual([
+        "2026-03-27T10:00:00.000Z",
+        "2027-03-26T10:00:00.000Z",
+        "2028-03-31T09:00:00.000Z",
+      ]);
+    });
+
+    it("should pick the last weekday of each month with BYSETPOS=-1", () => {
+      const occurrences = expand(
+        { rrule: "FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1" },
+        "2026-01-30T12:00:00Z",
+        "2026-04-01T00:00:00Z"
+      );
+
+      expect(starts(occurrences)).toEqual([
+        "2026-01-30T12:00:00.000Z",
+        "2026-02-27T12:00:00.000Z",
+        "2026-03-31T11:00:00.000Z",
+      ]);
+    });
+
+    it("should stop after COUNT occurrences and index them", () => {
+      const occurrences = expand({ rrule: "FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4" }, "2026-01-05T09:00:00Z", "2026-03-01T00:00:00Z");
+
+      expect(starts(occurrences)).toEqual([
+        "2026-01-05T09:00:00.000Z",
+        "2026-01-07T09:00:00.000Z",
+        "2026-01-12T09:00:00.000Z",
+        "2026-01-14T09:00:00.000Z",
+      ]);
+      expect(occurrences.map((o) => o.occurrenceIndex)).toEqual([0, 1, 2, 3]);
+    });
+
+    it("should count COUNT from the series start when the range starts later", () => {
+      const occurrences = expand(
+        { rrule: "FREQ=WEEKLY;COUNT=3" },
+        "2026-01-05T09:00:00Z",
+        "2026-03-01T00:00:00Z",
+        "2026-01-10T00:00:00Z"
+      );
+
+      expect(starts(occurrences)).toEqual(["2026-01-12T09:00:00.000Z", "2026-01-19T09:00:00.000Z"]);
+    });
+
+    it("should add RDATEs and apply per-occurrence overrides", () => {
+      const occurrences = expand(
+        {
+          rrule: "FREQ=WEEKLY",
+          rdates: [new Date("2026-01-08T14:00:00Z")],
+          overrides: [
+            // Moved an hour later with a note
+            { originalStart: new Date("2026-01-12T09:00:00Z"), start: new Date("2026-01-12T10:00:00Z"), isCancelled: false, notes: "Customer asked for 10am" },
+            // Cancelled
+            { originalStart: new Date("2026-01-19T09:00:00Z"), isCancelled: true },
+          ],
+        },
+        "2026-01-05T09:00:00Z",
+        "2026-01-27T00:00:00Z"
+      );
+
+      expect(starts(occurrences)).toEqual([
+        "2026-01-05T09:00:00.000Z",
+        "2026-01-08T14:00:00.000Z",
+        "2026-01-12T10:00:00.000Z",
+        "2026-01-26T09:00:00.000Z",
+      ]);
+      expect(occurrences[2]).toMatchObject({
+        originalStart: new Date("2026-01-12T09:00:00Z"),
+        end: new Date("2026-01-12T11:00:00Z"),
+        isOverride: true,
+        notes: "Customer asked for 10am",
+      });
+    });
+
+    it("should include an occurrence moved into the range from outside it", () => {
+      const occurrences = expand(
+        {
+          rrule: "FREQ=WEEKLY",
+          overrides: [
+            { originalStart: new Date("2026-01-19T09:00:00Z"), start: new Date("2026-01-15T09:00:00Z"), isCancelled: false },
+          ],
+        },
+        "2026-01-05T09:00:00Z",
+        "2026-01-16T00:00:00Z",
+        "2026-01-13T00:00:00Z"
+      );
+
+      expect(starts(occurrences)).toEqual(["2026-01-15T09:00:00.000Z"]);
+    });
+
+    it("should keep legacy rules working, with CUSTOM as every `interval` days", () => {
+      const custom = expand({ frequency: "CUSTOM", interval: 3 }, "2026-01-01T09:00:00Z", "2026-01-10T00:00:00Z");
+      const weekly = expand({ frequency: "WEEKLY", interval: 1, byWeekday: "1,3" }, "2026-01-05T09:00:00Z", "2026-01-15T00:00:00Z");
+
+      expect(starts(custom)).toEqual(["2026-01-01T09:00:00.000Z", "2026-01-04T09:00:00.000Z", "2026-01-07T09:00:00.000Z"]);
+      expect(starts(weekly)).toEqual([
+        "2026-01-05T09:00:00.000Z",
+        "2026-01-07T09:00:00.000Z",
+        "2026-01-12T09:00:00.000Z",
+        "2026-01-14T09:00:00.000Z",
+      ]);
+    });
+
+    it("should only accept generated starts as override targets", () => {
+      const rule: RecurrenceRule = { frequency: "MONTHLY", interval: 1, rrule: "FREQ=MONTHLY;BYDAY=2TU" };
+      const base = new Date("2026-01-13T09:00:00Z");
+
+      expect(RecurrenceEngine.isOccurrence(rule, base, new Date("2026-02-10T09:00:00Z"), LONDON)).toBe(true);
+      expect(RecurrenceEngine.isOccurrence(rule, base, new Date("2026-02-17T09:00:00Z"), LONDON)).toBe(false);
+    });
+  });
+
+  describe("conflict checks", () => {
+    it("should find overlaps with later occurrences of a series", async () => {
+      mockBookings.push(recurringBooking("FREQ=MONTHLY;BYDAY=2TU", "2026-01-13T09:00:00Z"));
+
+      const overlaps = await OverlapEngine.findOverlaps(
+        "client_1",
+        new Date("2026-06-09T08:30:00Z"),
+        new Date("2026-06-09T09:30:00Z")
+      );
+
+      expect(overlaps).toEqual([
+        expect.objectContaining({ id: "booking_series", start: new Date("2026-06-09T08:00:00Z") }),
+      ]);
+      expect(prisma.booking.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            OR: expect.arrayContaining([{ recurrenceRuleId: { not: null }, start: { lt: new Date("2026-06-09T09:30:00Z") } }]),
+          }),
+        })
+      );
+    });
+
+    it("should not report cancelled occurrences as overlaps", async () => {
+      mockBookings.push(
+        recurringBooking("FREQ=MONTHLY;BYDAY=2TU", "2026-01-13T09:00:00Z", [
+          { originalStart: new Date("2026-06-09T08:00:00Z"), start: null, end: null, isCancelled: true, status: null, notes: null },
+        ])
+      );
+
+      const overlaps = await OverlapEngine.findOverlaps(
+        "client_1",
+        new Date("2026-06-09T08:30:00Z"),
+        new Date("2026-06-09T09:30:00Z")
+      );
+
+      expect(overlaps).toEqual([]);
+    });
+
+    it("should keep slots clear of recurring occurrences", async () => {
+      jest.useFakeTimers({ now: new Date("2026-06-01T00:00:00Z") });
+      mockBookings.push(recurringBooking("FREQ=MONTHLY;BYDAY=2TU", "2026-01-13T08:00:00Z"));
+
+      const slot = await SlotFinder.findEarliestSlot({
+        clientId: "client_1",
+        preferredDate: new Date("2026-06-09T00:00:00Z"),
+        durationMinutes: 60,
+        searchDaysAhead: 0,
+      });
+
+      // 08:00-09:00 London is taken by the series
+      expect(slot?.toISOString()).toBe("2026-06-09T08:00:00.000Z");
+      jest.useRealTimers();
+    });
+  });
+
+  describe("client bookings API", () => {
+    const app = express();
+    app.use(express.json());
+    app.use("/api/client/bookings", clientBookingsRoutes);
+
+    function tokenFor(role: string): string {
+      (prisma.clientMembership.findUnique as jest.Mock).mockResolvedValue({
+        id: "m_1",
+        clientId: "client_1",
+        userId: "user_1",
+        role,
+      });
+      return jwt.sign({ id: "user_1", email: "owner@example.com", role: "CLIENT", clientId: "client_1" }, JWT_SECRET);
+    }
+
+    beforeEach(() => {
+      jest.spyOn(console, "log").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should create a recurring booking for the token's client", async () => {
+      const response = await request(app)
+        .post("/api/client/bookings")
+        .set("Authorization", `Bearer ${tokenFor("DISPATCHER")}`)
+        .send({
+          clientId: "client_other",
+          start: "2026-01-13T09:00:00Z",
+          end: "2026-01-13T10:00:00Z",
+          customerName: "Servicing customer",
+          recurrenceRule: { rrule: "FREQ=MONTHLY;BYDAY=2TU", exdates: ["2026-12-08"] },
+        })
+        .expect(201);
+
+      expect(prisma.recurrenceRule.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ clientId: "client_1", rrule: "FREQ=MONTHLY;BYDAY=2TU" }),
+      });
+      expect(response.body.data.booking).toMatchObject({ clientId: "client_1", recurrenceRuleId: "rule_new" });
+    });
+
+    it("should reject unknown statuses and bad rules", async () => {
+      const token = tokenFor("OWNER");
+
+      await request(app)
+        .post("/api/client/bookings")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ start: "2026-01-13T09:00:00Z", end: "2026-01-13T10:00:00Z", status: "DONE" })
+        .expect(400);
+      await request(app)
+        .post("/api/client/bookings")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ start: "2026-01-13T09:00:00Z", end: "2026-01-13T10:00:00Z", recurrenceRule: { rrule: "FREQ=SOMETIMES" } })
+        .expect(400);
+
+      mockBookings.push(recurringBooking("FREQ=MONTHLY;BYDAY=2TU", "2026-01-13T09:00:00Z"));
+      await request(app)
+        .patch("/api/client/bookings/booking_series/occurrences")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ occurrenceStart: "2026-02-10T09:00:00Z", status: "DONE" })
+        .expect(400);
+
+      expect(prisma.booking.create).not.toHaveBeenCalled();
+      expect(prisma.recurrenceOverride.upsert).not.toHaveBeenCalled();
+    });
+
+    it("should move and skip single occurrences", async () => {
+      mockBookings.push(recurringBooking("FREQ=MONTHLY;BYDAY=2TU", "2026-01-13T09:00:00Z"));
+      const token = tokenFor("DISPATCHER");
+
+      await request(app)
+        .patch("/api/client/bookings/booking_series/occurrences")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ occurrenceStart: "2026-02-10T09:00:00Z", start: "2026-02-11T09:00:00Z", end: "2026-02-11T10:00:00Z" })
+        .expect(200);
+      await request(app)
+        .delete("/api/client/bookings/booking_series/occurrences")
+        .query({ occurrenceStart: "2026-03-10T09:00:00Z" })
+        .set("Authorization", `Bearer ${token}`)
+        .expect(200);
+      await request(app)
+        .delete("/api/client/bookings/booking_series/occurrences")
+        .query({ occurrenceStart: "2026-03-17T09:00:00Z" })
+        .set("Authorization", `Bearer ${token}`)
+        .expect(400);
+
+      expect(prisma.recurrenceOverride.upsert).toHaveBeenCalledTimes(2);
+      expect(prisma.recurrenceOverride.upsert).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          create: { recurrenceRuleId: "rule_1", originalStart: new Date("2026-03-10T09:00:00Z"), isCancelled: true },
+        })
+      );
+    });
+
+    it("should only let schedule managers change bookings", async () => {
+      await request(app)
+        .delete("/api/client/bookings/booking_series/occurrences")
+        .query({ occurrenceStart: "2026-03-10T09:00:00Z" })
+        .set("Authorization", `Bearer ${tokenFor("TECHNICIAN")}`)
+        .expect(403);
+    });
+  });
+});
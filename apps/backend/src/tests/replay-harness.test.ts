@@ -0,0 +1,210 @@
+jest.mock("../db", () => ({ prisma: jest.requireActual("./support/memoryPrisma").createMemoryPrisma() }));
+
+jest.mock("../services/SystemGate", () => ({
+  shouldUseAI: () => ({ allowed: true }),
+  canProcessBookingRequest: () => ({ allowed: true }),
+}));
+
+jest.mock("../lib/geo/TravelTime", () => ({
+  TravelTime: { checkServiceArea: jest.fn(async () => null) },
+}));
+
+const mockClassifyIntent = jest.fn();
+jest.mock("../ai/utils/dial", () => ({
+  classifyIntent: (...args: unknown[]) => mockClassifyIntent(...args),
+}));
+
+const mockExtractEntities = jest.fn();
+jest.mock("../ai/utils/flow", () => ({
+  extractEntities: (...args: unknown[]) => mockExtractEntities(...args),
+}));
+
+const mockGenerateReply = jest.fn();
+jest.mock("../ai/utils/lyra", () => ({
+  generateReply: (...args: unknown[]) => mockGenerateReply(...args),
+  getBookingUrl: () => null,
+}));
+
+const mockDryRunAgent = jest.fn();
+jest.mock("../agents/AgentService", () => ({
+  AgentService: jest.fn().mockImplementation(() => ({ dryRunAgent: mockDryRunAgent })),
+}));
+
+import { prisma } from "../db";
+import { resetMemoryPrisma, seedMemoryPrisma } from "./support/memoryPrisma";
+import { REPLAY_BOOKING_URL, formatReplayReport, runReplay } from "../testing/ReplayHarness";
+
+const FROM = new Date("2026-03-01T00:00:00Z");
+const TO = new Date("2026-03-08T00:00:00Z");
+
+function message(id: string, customerId: string, at: string, direction: string, body: string, metadata?: object) {
+  return {
+    id,
+    clientId: "client_1",
+    customerId,
+    conversationId: `conv_${customerId}`,
+    direction,
+    type: "SMS",
+    body,
+    metadata: metadata ?? null,
+    createdAt: new Date(at),
+  };
+}
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  resetMemoryPrisma(prisma);
+  await seedMemoryPrisma(prisma, {
+    client: [{ id: "client_1", businessName: "Bob's Plumbing" }],
+    clientSettings: [{ clientId: "client_1" }],
+  });
+});
+
+describe("pipeline replay", () => {
+  beforeEach(async () => {
+    await seedMemoryPrisma(prisma, {
+      message: [
+        message("in_a", "cust_a", "2026-03-02T09:00:00Z", "INBOUND", "My boiler is broken"),
+        message("out_a", "cust_a", "2026-03-02T09:00:05Z", "OUTBOUND", "What's the problem exactly?", {
+          intent: "UNCLEAR",
+          action: "SEND_CLARIFY_QUESTION",
+        }),
+        message("in_b", "cust_b", "2026-03-03T10:00:00Z", "INBOUND", "Can someone fix my tap?"),
+        message("out_b", "cust_b", "2026-03-03T10:00:05Z", "OUTBOUND", "Book here: https://book.example/old", {
+          intent: "NORMAL",
+          action: "SEND_BOOKING_LINK",
+        }),
+        message("in_c", "cust_c", "2026-03-04T11:00:00Z", "INBOUND", "Hello?"),
+        message("in_late", "cust_d", "2026-03-08T01:00:00Z", "INBOUND", "Outside the range"),
+      ],
+    });
+
+    mockClassifyIntent.mockResolvedValue({ intent: "NORMAL", confidence: 0.9 });
+    mockExtractEntities.mockImplementation(async ({ text }: any) => ({
+      jobType: text.includes("boiler") ? "boiler repair" : "tap repair",
+    }));
+    mockGenerateReply.mockImplementation(async ({ bookingUrl }: any) => `Book  here: ${bookingUrl}`);
+  });
+
+  it("reports changed decisions and replies against what was sent, without writing", async () => {
+    const report = await runReplay({ clientId: "client_1", from: FROM, to: TO });
+
+    expect(report.target).toBe("pipeline");
+    expect(report.cases.map((c) => c.id)).toEqual(["in_a", "in_b", "in_c"]);
+    expect(report.summary).toMatchObject({
+      cases: 3,
+      unrecorded: 1,
+      changed: 1,
+      transitions: { "SEND_CLARIFY_QUESTION → SEND_BOOKING_LINK": 1 },
+    });
+
+    const [changed, unchanged, unrecorded] = report.cases;
+    expect(changed.changes).toEqual(["intent", "actions", "reply"]);
+    // Only the booking link differs, so the reply counts as the same
+    expect(unchanged.changes).toEqual([]);
+    expect(unrecorded.recorded).toBeNull();
+
+    expect(mockGenerateReply).toHaveBeenCalledWith(
+      expect.objectContaining({ dryRun: true, bookingUrl: REPLAY_BOOKING_URL })
+    );
+    expect(prisma.message.create).not.toHaveBeenCalled();
+    expect(prisma.agentLog.create).not.toHaveBeenCalled();
+  });
+
+  it("replays the conversation as it stood at each inbound message", async () => {
+    await runReplay({ clientId: "client_1", from: FROM, to: TO });
+
+    const [{ context }] = mockClassifyIntent.mock.calls[0];
+    expect(context.map((m: any) => m.id)).toEqual(["in_a"]);
+  });
+
+  it("compares decisions only when replies are off", async () => {
+    const report = await runReplay({ clientId: "client_1", from: FROM, to: TO, replies: false });
+
+    expect(mockGenerateReply).not.toHaveBeenCalled();
+    expect(report.cases[0].changes).toEqual(["intent", "actions"]);
+  });
+
+  it("records a failed replay as an error change", async () => {
+    mockClassifyIntent.mockRejectedValueOnce(new Error("LLM unavailable"));
+
+    const report = await runReplay({ clientId: "client_1", from: FROM, to: TO, limit: 1 });
+
+    expect(report.cases).toHaveLength(1);
+    expect(report.cases[0].replayed.error).toBe("LLM unavailable");
+    expect(report.cases[0].changes).toEqual(["error"]);
+  });
+
+  it("formats changed cases into the text report", async () => {
+    const text = formatReplayReport(await runReplay({ clientId: "client_1", from: FROM, to: TO }));
+
+    expect(text).toContain("1 × SEND_CLARIFY_QUESTION → SEND_BOOKING_LINK");
+    expect(text).toContain("input:    My boiler is broken");
+    expect(text).toContain("was:      What's the problem exactly?");
+    expect(text).not.toContain("Can someone fix my tap?");
+  });
+});
+
+describe("agent replay", () => {
+  const loggedAt = new Date("2026-03-05T12:00:00Z");
+
+  beforeEach(async () => {
+    await seedMemoryPrisma(prisma, {
+      agentLog: [
+        {
+          id: "log_1",
+          clientId: "client_1",
+          agentName: "ChatAssistant",
+          trigger: "MESSAGE_RECEIVED",
+          customerId: "cust_a",
+          conversationId: "conv_a",
+          input: { message: "Can I move my booking?", metadata: { source: "sms" } },
+          output: {
+            actions: [{ type: "SEND_MESSAGE", payload: { message: "Sure, what time suits?" } }],
+            confidence: 0.8,
+          },
+          error: null,
+          executionTimeMs: 40,
+          createdAt: loggedAt,
+        },
+      ],
+    });
+  });
+
+  it("re-runs each logged execution with its input, as of when it ran", async () => {
+    mockDryRunAgent.mockResolvedValue({
+      success: true,
+      agentName: "ChatAssistant",
+      output: {
+        actions: [{ type: "RESCHEDULE_BOOKING", payload: { bookingId: "b_1" } }],
+        confidence: 0.6,
+      },
+      gate: "LOW_CONFIDENCE",
+      executionTimeMs: 12,
+    });
+
+    const report = await runReplay({ clientId: "client_1", from: FROM, to: TO, agent: "ChatAssistant" });
+
+    expect(mockDryRunAgent).toHaveBeenCalledWith(
+      "ChatAssistant",
+      {
+        clientId: "client_1",
+        trigger: "MESSAGE_RECEIVED",
+        customerId: "cust_a",
+        conversationId: "conv_a",
+        message: "Can I move my booking?",
+        metadata: { source: "sms" },
+      },
+      loggedAt
+    );
+    expect(report.target).toBe("ChatAssistant");
+    expect(report.cases[0].replayed).toMatchObject({ actions: ["RESCHEDULE_BOOKING"], gate: "LOW_CONFIDENCE" });
+    expect(report.cases[0].changes).toEqual(["actions", "reply"]);
+    expect(report.summary.transitions).toEqual({ "SEND_MESSAGE → RESCHEDULE_BOOKING": 1 });
+  });
+
+  it("rejects an empty range", async () => {
+    await expect(runReplay({ clientId: "client_1", from: TO, to: FROM })).rejects.toThrow("Replay range is empty");
+  });
+});
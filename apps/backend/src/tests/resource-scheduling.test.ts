@@ -0,0 +1,209 @@
+process.env.TZ = "UTC";
+
+import express from "express";
+import request from "supertest";
+import jwt from "jsonwebtoken";
+
+jest.mock("../db", () => ({ prisma: jest.requireActual("./support/memoryPrisma").createMemoryPrisma() }));
+
+import { ClientMemberRole } from "@prisma/client";
+import { prisma } from "../db";
+import { resetMemoryPrisma, seedMemoryPrisma } from "./support/memoryPrisma";
+import { at, bookingRow, seedBookings, TEST_DAY } from "./support/fixtures";
+import { ZonedTime } from "../lib/calendar/ZonedTime";
+import { SlotFinder } from "../services/SlotFinder";
+import clientResourceRoutes from "../routes/client-resources";
+
+const JWT_SECRET = process.env.JWT_SECRET || "jobrun-secret-key-change-in-production";
+const CLIENT_ID = "client_1";
+
+const mockPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+
+function resource(id: string, name: string, skills: string[] = []) {
+  return { id, clientId: CLIENT_ID, name, kind: "STAFF", skills, active: true, createdAt: new Date() };
+}
+
+const slotsOn = (options: { requiredSkills?: string[] } = {}) =>
+  SlotFinder.findAvailableSlots({
+    clientId: CLIENT_ID,
+    preferredDate: at("00:00"),
+    durationMinutes: 60,
+    searchDaysAhead: 0,
+    timeZone: "Europe/London",
+    ...options,
+  });
+
+// Slots step every 15 minutes; on-the-hour starts are enough to compare
+const startsOf = (slots: Array<{ start: Date; resourceId?: string }>) =>
+  slots
+    .filter((slot) => slot.start.getUTCMinutes() === 0)
+    .map((slot) => `${ZonedTime.formatTime(slot.start, "UTC")} ${slot.resourceId ?? "-"}`);
+
+const seedBlocked = (...rows: Array<Record<string, unknown>>) => seedMemoryPrisma(prisma, { blockedTime: rows });
+
+async function tokenFor(role: ClientMemberRole): Promise<string> {
+  await prisma.clientMembership.upsert({
+    where: { clientId_userId: { clientId: CLIENT_ID, userId: "user_1" } },
+    create: { clientId: CLIENT_ID, userId: "user_1", role },
+    update: { role },
+  });
+  return jwt.sign({ id: "user_1", email: "member@example.com", role: "CLIENT", clientId: CLIENT_ID }, JWT_SECRET);
+}
+
+describe("Multi-resource scheduling", () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date("2026-01-01T12:00:00Z"), doNotFake: ["nextTick", "setImmediate"] });
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    resetMemoryPrisma(prisma);
+    await seedMemoryPrisma(prisma, {
+      client: [{ id: CLIENT_ID, businessName: "Ace Plumbing", timezone: "Europe/London" }],
+      resource: [resource("alice", "Alice", ["gas"]), resource("bob", "Bob", ["electrical"])],
+      weeklyAvailability: [{ clientId: CLIENT_ID, resourceId: null, weekday: 1, startTime: "09:00", endTime: "12:00" }],
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe("SlotFinder", () => {
+    it("should keep a single business calendar for clients without resources", async () => {
+      await prisma.resource.deleteMany();
+      await seedBookings(prisma, bookingRow("b_1", "09:00", "10:00"));
+
+      expect(startsOf(await slotsOn())).toEqual(["10:00 -", "11:00 -"]);
+    });
+
+    it("should offer a slot while any resource is free", async () => {
+      await seedBookings(
+        prisma,
+        bookingRow("b_1", "09:00", "10:00", { resourceId: "alice" }),
+        bookingRow("b_2", "10:00", "11:00", { resourceId: "alice" }),
+      );
+
+      expect(startsOf(await slotsOn())).toEqual(["09:00 bob", "10:00 bob", "11:00 alice"]);
+    });
+
+    it("should drop a slot once every resource is busy", async () => {
+      await seedBookings(
+        prisma,
+        bookingRow("b_1", "09:00", "10:00", { resourceId: "alice" }),
+        bookingRow("b_2", "09:00", "10:00", { resourceId: "bob" }),
+      );
+
+      expect(startsOf(await slotsOn())).toEqual(["10:00 alice", "11:00 alice"]);
+    });
+
+    it("should only offer resources with every required skill", async () => {
+      await seedBookings(prisma, bookingRow("b_1", "09:00", "10:00", { resourceId: "alice" }));
+
+      expect(startsOf(await slotsOn({ requiredSkills: ["Gas"] }))).toEqual(["10:00 alice", "11:00 alice"]);
+      expect(await slotsOn({ requiredSkills: ["gas", "electrical"] })).toEqual([]);
+    });
+
+    it("should keep a free resource back for each unassigned booking", async () => {
+      await seedBookings(prisma, bookingRow("b_1", "10:00", "11:00"), bookingRow("b_2", "10:00", "11:00", { resourceId: "alice" }));
+
+      expect(startsOf(await slotsOn())).toEqual(["09:00 alice", "11:00 alice"]);
+    });
+
+    it("should use a resource's own hours and time off", async () => {
+      await seedMemoryPrisma(prisma, {
+        weeklyAvailability: [{ clientId: CLIENT_ID, resourceId: "bob", weekday: 1, startTime: "13:00", endTime: "15:00" }],
+      });
+      await seedBlocked({ clientId: CLIENT_ID, resourceId: "alice", date: ZonedTime.toStorageDate(TEST_DAY), start: "10:00", end: "12:00" });
+
+      expect(startsOf(await slotsOn())).toEqual(["09:00 alice", "13:00 bob", "14:00 bob"]);
+    });
+
+    it("should apply business-wide blocks to every resource", async () => {
+      await seedBlocked({ clientId: CLIENT_ID, resourceId: null, date: ZonedTime.toStorageDate(TEST_DAY), start: null, end: null });
+
+      expect(await slotsOn()).toEqual([]);
+    });
+
+    it("should find a free resource to assign a booking to", async () => {
+      await seedBookings(prisma, bookingRow("b_1", "09:00", "10:00", { resourceId: "alice" }));
+      const find = (requiredSkills?: string[]) =>
+        SlotFinder.findFreeResource({ clientId: CLIENT_ID, start: at("09:00"), end: at("10:00"), requiredSkills });
+
+      await expect(find()).resolves.toBe("bob");
+      await expect(find(["gas"])).resolves.toBeNull();
+
+      await prisma.resource.deleteMany();
+      await expect(find()).resolves.toBeNull();
+    });
+  });
+
+  describe("routes", () => {
+    const app = express();
+    app.use(express.json());
+    app.use("/api/client/resources", clientResourceRoutes);
+
+    it("should group the day's jobs by resource", async () => {
+      await seedBookings(prisma, bookingRow("b_1", "09:00", "10:00", { resourceId: "alice" }), bookingRow("b_2", "10:00", "11:00"));
+      await seedBlocked({
+        id: "bt_1",
+        clientId: CLIENT_ID,
+        resourceId: "bob",
+        date: ZonedTime.toStorageDate(TEST_DAY),
+        start: null,
+        end: null,
+        reason: "Holiday",
+      });
+
+      const res = await request(app)
+        .get(`/api/client/resources/schedule?date=${TEST_DAY}`)
+        .set("Authorization", `Bearer ${await tokenFor("TECHNICIAN")}`);
+
+      expect(res.status).toBe(200);
+      const [alice, bob] = res.body.data.resources;
+      expect(alice).toMatchObject({ id: "alice", hours: [{ start: "09:00", end: "12:00" }], blocked: [] });
+      expect(alice.bookings.map((b: any) => b.id)).toEqual(["b_1"]);
+      expect(bob.blocked).toEqual([expect.objectContaining({ id: "bt_1", reason: "Holiday", businessWide: false })]);
+      expect(res.body.data.unassigned.map((b: any) => b.id)).toEqual(["b_2"]);
+    });
+
+    it("should assign a booking and warn about clashes on that resource", async () => {
+      await seedBookings(prisma, bookingRow("b_1", "09:00", "10:00", { resourceId: "alice" }), bookingRow("b_2", "09:30", "10:30"));
+
+      const res = await request(app)
+        .put("/api/client/resources/bookings/b_2")
+        .set("Authorization", `Bearer ${await tokenFor("DISPATCHER")}`)
+        .send({ resourceId: "alice" });
+
+      expect(res.status).toBe(200);
+      expect(mockPrisma.booking.update).toHaveBeenCalledWith({ where: { id: "b_2" }, data: { resourceId: "alice" } });
+      expect(res.body.data.warnings[0].overlaps).toEqual([expect.objectContaining({ id: "b_1" })]);
+    });
+
+    it("should refuse unknown resources and technicians assigning work", async () => {
+      await seedBookings(prisma, bookingRow("b_1", "09:00", "10:00"));
+
+      const unknown = await request(app)
+        .put("/api/client/resources/bookings/b_1")
+        .set("Authorization", `Bearer ${await tokenFor("OWNER")}`)
+        .send({ resourceId: "nobody" });
+      const technician = await request(app)
+        .put("/api/client/resources/bookings/b_1")
+        .set("Authorization", `Bearer ${await tokenFor("TECHNICIAN")}`)
+        .send({ resourceId: "alice" });
+
+      expect(unknown.status).toBe(404);
+      expect(technician.status).toBe(403);
+      expect(mockPrisma.booking.update).not.toHaveBeenCalled();
+    });
+
+    it("should create resources with normalised skill tags", async () => {
+      const res = await request(app)
+        .post("/api/client/resources")
+        .set("Authorization", `Bearer ${await tokenFor("OWNER")}`)
+        .send({ name: " Van 2 ", kind: "VEHICLE", skills: ["Gas", " gas", "Unvented"] });
+
+      expect(res.status).toBe(201);
+      expect(res.body.data).toMatchObject({ name: "Van 2", kind: "VEHICLE", skills: ["gas", "unvented"], hours: [] });
+    });
+  });
+});
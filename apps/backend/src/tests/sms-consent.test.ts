@@ -0,0 +1,67 @@
+import { parseConsentKeyword, normalizeConsentPhone, getConsentReply } from "../services/ConsentService";
+import { canMessageRecipient, canSendSMS } from "../services/SystemGate";
+import type { SmsConsent } from "@prisma/client";
+
+function consent(status: SmsConsent["status"]): SmsConsent {
+  return {
+    id: "consent_1",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    clientId: "client_1",
+    customerId: null,
+    phone: "+447700900001",
+    status,
+    lastKeyword: status === "OPTED_OUT" ? "STOP" : "START",
+    optedOutAt: null,
+    optedInAt: null,
+  };
+}
+
+describe("SMS Consent", () => {
+  describe("parseConsentKeyword", () => {
+    it("should detect opt-out, opt-in and help keywords", () => {
+      expect(parseConsentKeyword("STOP")).toEqual({ action: "OPT_OUT", keyword: "STOP" });
+      expect(parseConsentKeyword(" unsubscribe ")).toEqual({ action: "OPT_OUT", keyword: "UNSUBSCRIBE" });
+      expect(parseConsentKeyword("Start")).toEqual({ action: "OPT_IN", keyword: "START" });
+      expect(parseConsentKeyword("help!")).toEqual({ action: "HELP", keyword: "HELP" });
+    });
+
+    it("should ignore keywords inside a longer message", () => {
+      expect(parseConsentKeyword("Can you stop by tomorrow?")).toBeNull();
+      expect(parseConsentKeyword("")).toBeNull();
+      expect(parseConsentKeyword(undefined)).toBeNull();
+    });
+  });
+
+  describe("normalizeConsentPhone", () => {
+    it("should key every Twilio format to the same E.164 number", () => {
+      expect(normalizeConsentPhone("+447700900001")).toBe("+447700900001");
+      expect(normalizeConsentPhone("447700900001")).toBe("+447700900001");
+      expect(normalizeConsentPhone("07700 900001")).toBe("+447700900001");
+    });
+  });
+
+  describe("SystemGate", () => {
+    const client = {
+      id: "client_1",
+      businessName: "Test Plumbing",
+      onboardingState: { currentState: "COMPLETE" },
+      controls: null,
+    } as any;
+
+    it("should refuse to send to an opted-out number", () => {
+      expect(canMessageRecipient(consent("OPTED_OUT"))).toMatchObject({ allowed: false, blockType: "HARD" });
+      expect(canSendSMS(client, consent("OPTED_OUT")).allowed).toBe(false);
+    });
+
+    it("should allow numbers with no consent row or that opted back in", () => {
+      expect(canMessageRecipient(null).allowed).toBe(true);
+      expect(canSendSMS(client, consent("OPTED_IN")).allowed).toBe(true);
+      expect(canSendSMS(client).allowed).toBe(true);
+    });
+  });
+
+  it("should tell opted-out customers how to resubscribe", () => {
+    expect(getConsentReply("OPT_OUT", "Test Plumbing")).toContain("Reply START");
+  });
+});
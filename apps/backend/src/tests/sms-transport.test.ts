@@ -0,0 +1,94 @@
+import { sendSMS } from "../twilio/client";
+import {
+  LoopbackSmsTransport,
+  getSmsTransport,
+  setSmsTransport,
+} from "../twilio/transport";
+
+describe("SMS Transport", () => {
+  let loopback: LoopbackSmsTransport;
+
+  beforeEach(() => {
+    loopback = new LoopbackSmsTransport();
+    setSmsTransport(loopback);
+  });
+
+  afterAll(() => {
+    setSmsTransport(null);
+  });
+
+  describe("sendSMS via loopback", () => {
+    it("should record the outbound message instead of calling Twilio", async () => {
+      const sid = await sendSMS("+447700900001", "+447414148956", "Hello from JobRun");
+
+      expect(sid).toMatch(/^SM[0-9a-f]{32}$/);
+      expect(loopback.sent).toHaveLength(1);
+      expect(loopback.last()).toMatchObject({
+        sid,
+        to: "+447700900001",
+        from: "+447414148956",
+        body: "Hello from JobRun",
+        status: "queued",
+      });
+    });
+
+    it("should retry when the transport fails", async () => {
+      loopback.failNext(new Error("simulated outage"));
+
+      const sid = await sendSMS("+447700900001", "+447414148956", "Retry me", { retries: 2 });
+
+      expect(loopback.sentTo("+447700900001").map((m) => m.sid)).toEqual([sid]);
+    });
+  });
+
+  describe("delivery receipts", () => {
+    it("should emit Twilio-shaped status callbacks", async () => {
+      const received: string[] = [];
+      loopback.onStatus((payload) => {
+        received.push(payload.MessageStatus);
+      });
+
+      const { sid } = await loopback.send({
+        to: "+447700900001",
+        from: "+447414148956",
+        body: "Status test",
+      });
+
+      const payload = await loopback.simulateStatus(sid, "undelivered", "30003");
+
+      expect(payload).toMatchObject({
+        MessageSid: sid,
+        MessageStatus: "undelivered",
+        ErrorCode: "30003",
+        To: "+447700900001",
+      });
+      expect(received).toEqual(["undelivered"]);
+      expect(loopback.last()?.status).toBe("undelivered");
+    });
+
+    it("should auto-deliver when configured", async () => {
+      const autoLoopback = new LoopbackSmsTransport({ autoDeliver: true });
+
+      await autoLoopback.send({ to: "+447700900001", from: "+447414148956", body: "Hi" });
+
+      expect(autoLoopback.receipts.map((r) => r.MessageStatus)).toEqual(["sent", "delivered"]);
+    });
+  });
+
+  describe("transport registry", () => {
+    it("should return the injected transport", () => {
+      expect(getSmsTransport()).toBe(loopback);
+    });
+
+    it("should build inbound SMS webhook bodies", () => {
+      const payload = loopback.buildInboundSms({
+        from: "+447700900001",
+        to: "+447414148956",
+        body: "Leaking pipe",
+      });
+
+      expect(payload.MessageSid).toMatch(/^SM/);
+      expect(payload.Body).toBe("Leaking pipe");
+    });
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Shared fixtures for scheduling tests
+ *
+ * Times are on TEST_DAY, a Monday in January when Europe/London is on UTC, so
+ * a client"s local times and the UTC times stored in the database agree.
+ *
+ *   await seedBookings(prisma, bookingRow("b_1", "09:00", "10:00", { resourceId: "alice" }));
+ */
+
+import { seedMemoryPrisma } from "./memoryPrisma";
+
+export const TEST_DAY = "2026-01-12";
+
+/** UTC time on TEST_DAY, or on another day of January 2026 (at("09:00", "13")) */
+export function at(time: string, day: string = TEST_DAY.slice(-2)): Date {
+  return new Date(`2026-01-${day}T${time}:00.000Z`);
+}
+
+/** A CONFIRMED booking for client_1 on TEST_DAY */
+export function bookingRow(id: string, start: string, end: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    clientId: "client_1",
+    start: at(start),
+    end: at(end),
+    status: "CONFIRMED",
+    customerName: `Customer ${id}`,
+    resourceId: null,
+    recurrenceRuleId: null,
+    ...overrides,
+  };
+}
+
+export function seedBookings(prisma: unknown, ...rows: Array<ReturnType<typeof bookingRow>>) {
+  return seedMemoryPrisma(prisma, { booking: rows });
+}
@@ -0,0 +1,637 @@
+/**
+ * In-memory Prisma for tests
+ *
+ * One fake for every test that mocks ../db, driven by the generated schema
+ * (Prisma.dmmf) so it behaves like the real client where tests rely on it:
+ * - Defaults: cuid/uuid ids, now(), @updatedAt, literal and enum defaults,
+ *   null for unset optional fields, [] for lists
+ * - @id, @unique and @@unique are enforced (P2002), plus partial unique
+ *   indexes from migrations via options.partialUniques
+ * - Where filters: equality, equals/not/in/notIn/lt/lte/gt/gte,
+ *   contains/startsWith/endsWith (mode: insensitive), has/hasSome/hasEvery,
+ *   AND/OR/NOT, compound unique keys, relation filters (is/isNot/some/
+ *   every/none) and Json path equality
+ * - orderBy (nulls last on asc, like Postgres), skip/take, include/select
+ *   on relations, update operators (set/increment/decrement/multiply/
+ *   divide/push), connect/disconnect and nested create
+ * - Missing rows on update/delete/*OrThrow throw P2025
+ *
+ * Not emulated: transactions are not isolated or rolled back, raw SQL
+ * ($queryRaw/$executeRaw) resolves empty unless a test stubs it, and other
+ * nested writes (createMany, connectOrCreate, upsert) aren't supported.
+ *
+ * Every delegate method is a jest.fn, so tests can still assert calls or
+ * stub a single answer with mockResolvedValueOnce.
+ *
+ *   jest.mock("../db", () => ({ prisma: jest.requireActual("./support/memoryPrisma").createMemoryPrisma() }));
+ *   import { prisma } from "../db";
+ *   beforeEach(() => resetMemoryPrisma(prisma));
+ *   await seedMemoryPrisma(prisma, { client: [{ id: "client_1", businessName: "Ace Plumbing" }] });
+ */
+
+import { Prisma } from '@prisma/client';
+
+type Row = Record<string, any>;
+type Field = Prisma.DMMF.Field;
+type Model = Prisma.DMMF.Model;
+
+export interface PartialUnique {
+  model: string;
+  fields: string[];
+  /** Rows the index applies to, e.g. (row) => row.status === 'PENDING' */
+  where: (row: Row) => boolean;
+}
+
+export interface MemoryPrismaOptions {
+  partialUniques?: PartialUnique[];
+}
+
+interface MemoryState {
+  tables: Map<string, Row[]>;
+  sequence: number;
+  models: Map<string, Model>;
+  partialUniques: PartialUnique[];
+}
+
+const STATE = Symbol('memoryPrisma');
+
+const MODELS: Model[] = Prisma.dmmf.datamodel.models as Model[];
+
+function delegateName(model: string): string {
+  return model.charAt(0).toLowerCase() + model.slice(1);
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  ERRORS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function uniqueViolation(model: string, fields: string[]) {
+  return new Prisma.PrismaClientKnownRequestError(`Unique constraint failed on the fields: (${fields.join(',')})`, {
+    code: 'P2002',
+    clientVersion: 'memory',
+    meta: { modelName: model, target: fields },
+  });
+}
+
+function notFound(model: string, operation: string) {
+  return new Prisma.PrismaClientKnownRequestError(`No ${model} found (${operation})`, {
+    code: 'P2025',
+    clientVersion: 'memory',
+    meta: { modelName: model, cause: 'Record to update not found.' },
+  });
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  VALUES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function clone<T>(value: T): T {
+  if (value instanceof Date) return new Date(value.getTime()) as T;
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, inner]) => [key, clone(inner)])) as T;
+  }
+  return value;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return (a ?? null) === (b ?? null);
+}
+
+function compare(a: any, b: any): number {
+  if (a instanceof Date) a = a.getTime();
+  if (b instanceof Date) b = b.getTime();
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function defaultValue(state: MemoryState, model: Model, field: Field): unknown {
+  if (field.isUpdatedAt) return new Date();
+  if (!field.hasDefaultValue) return field.isList ? [] : null;
+
+  const fallback = field.default as any;
+  if (fallback && typeof fallback === 'object' && 'name' in fallback) {
+    switch (fallback.name) {
+      case 'cuid':
+      case 'uuid':
+        return `${delegateName(model.name)}_${++state.sequence}`;
+      case 'now':
+        return new Date();
+      case 'autoincrement':
+        return ++state.sequence;
+      default:
+        return null;
+    }
+  }
+  if (field.type === 'Json' && typeof fallback === 'string') return JSON.parse(fallback);
+  return clone(fallback);
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  RELATIONS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/** How rows of `field.type` are linked to a row of `model` through `field` */
+function relationKeys(state: MemoryState, model: Model, field: Field): { from: readonly string[]; to: readonly string[] } {
+  if (field.relationFromFields?.length) {
+    return { from: field.relationFromFields, to: field.relationToFields ?? [] };
+  }
+
+  // The other side holds the foreign key
+  const target = state.models.get(field.type)!;
+  const back = target.fields.find(
+    (candidate) => candidate.relationName === field.relationName && candidate.name !== field.name
+  )!;
+  return { from: back.relationToFields ?? [], to: back.relationFromFields ?? [] };
+}
+
+function relatedRows(state: MemoryState, model: Model, field: Field, row: Row): Row[] {
+  const { from, to } = relationKeys(state, model, field);
+  if (from.some((key) => row[key] === null || row[key] === undefined)) return [];
+
+  return (state.tables.get(field.type) ?? []).filter((candidate) =>
+    to.every((key, index) => sameValue(candidate[key], row[from[index]]))
+  );
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  WHERE
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const OPERATORS = new Set([
+  'equals', 'not', 'in', 'notIn', 'lt', 'lte', 'gt', 'gte', 'contains', 'startsWith', 'endsWith',
+  'mode', 'has', 'hasSome', 'hasEvery', 'isEmpty', 'path', 'string_contains',
+]);
+
+function isFilterObject(value: unknown): value is Row {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    !(value instanceof Date) &&
+    !Array.isArray(value) &&
+    Object.keys(value).length > 0 &&
+    Object.keys(value).every((key) => OPERATORS.has(key))
+  );
+}
+
+function matchesScalar(value: any, filter: any, field: Field): boolean {
+  if (filter && typeof filter === 'object' && !(filter instanceof Date) && !Array.isArray(filter) && !Object.keys(filter).length) return true;
+  if (!isFilterObject(filter)) return sameValue(value, filter);
+
+  const insensitive = filter.mode === 'insensitive';
+  const text = (input: any) => (insensitive && typeof input === 'string' ? input.toLowerCase() : input);
+
+  if (filter.path !== undefined) {
+    const path: string[] = Array.isArray(filter.path) ? filter.path : [filter.path];
+    const inner = path.reduce((current, key) => (current == null ? undefined : current[key]), value);
+    const { path: _path, ...rest } = filter;
+    return matchesScalar(inner, Object.keys(rest).length ? rest : { not: null }, field);
+  }
+
+  return Object.entries(filter).every(([operator, operand]: [string, any]) => {
+    switch (operator) {
+      case 'mode':
+        return true;
+      case 'equals':
+        return sameValue(text(value), text(operand));
+      case 'not':
+        return isFilterObject(operand) ? !matchesScalar(value, operand, field) : !sameValue(value, operand);
+      case 'in':
+        return operand.some((candidate: unknown) => sameValue(text(value), text(candidate)));
+      case 'notIn':
+        return !operand.some((candidate: unknown) => sameValue(text(value), text(candidate)));
+      case 'lt':
+        return value != null && compare(value, operand) < 0;
+      case 'lte':
+        return value != null && compare(value, operand) <= 0;
+      case 'gt':
+        return value != null && compare(value, operand) > 0;
+      case 'gte':
+        return value != null && compare(value, operand) >= 0;
+      case 'contains':
+      case 'string_contains':
+        return typeof value === 'string' && text(value).includes(text(operand));
+      case 'startsWith':
+        return typeof value === 'string' && text(value).startsWith(text(operand));
+      case 'endsWith':
+        return typeof value === 'string' && text(value).endsWith(text(operand));
+      case 'has':
+        return Array.isArray(value) && value.some((item) => sameValue(item, operand));
+      case 'hasSome':
+        return Array.isArray(value) && operand.some((item: unknown) => value.some((v) => sameValue(v, item)));
+      case 'hasEvery':
+        return Array.isArray(value) && operand.every((item: unknown) => value.some((v) => sameValue(v, item)));
+      case 'isEmpty':
+        return Array.isArray(value) && (value.length === 0) === operand;
+      default:
+        return false;
+    }
+  });
+}
+
+function matchesWhere(state: MemoryState, model: Model, row: Row, where: Row | undefined): boolean {
+  if (!where) return true;
+
+  return Object.entries(where).every(([key, filter]) => {
+    if (filter === undefined) return true;
+
+    if (key === 'AND') {
+      return (Array.isArray(filter) ? filter : [filter]).every((inner) => matchesWhere(state, model, row, inner));
+    }
+    if (key === 'OR') {
+      return filter.some((inner: Row) => matchesWhere(state, model, row, inner));
+    }
+    if (key === 'NOT') {
+      return !(Array.isArray(filter) ? filter : [filter]).some((inner) => matchesWhere(state, model, row, inner));
+    }
+
+    const field = model.fields.find((candidate) => candidate.name === key);
+
+    // Compound unique key, e.g. clientId_customerId: { clientId, customerId }
+    if (!field) return matchesWhere(state, model, row, filter);
+
+    if (field.kind !== 'object') return matchesScalar(row[key], filter, field);
+
+    const related = relatedRows(state, model, field, row);
+    if (field.isList) {
+      if (filter.some) return related.some((inner) => matchesWhere(state, state.models.get(field.type)!, inner, filter.some));
+      if (filter.every) return related.every((inner) => matchesWhere(state, state.models.get(field.type)!, inner, filter.every));
+      if (filter.none) return !related.some((inner) => matchesWhere(state, state.models.get(field.type)!, inner, filter.none));
+      return true;
+    }
+
+    const target = state.models.get(field.type)!;
+    if (filter === null) return related.length === 0;
+    if ('is' in filter) return filter.is === null ? related.length === 0 : related.some((inner) => matchesWhere(state, target, inner, filter.is));
+    if ('isNot' in filter) return filter.isNot === null ? related.length > 0 : !related.some((inner) => matchesWhere(state, target, inner, filter.isNot));
+    return related.some((inner) => matchesWhere(state, target, inner, filter));
+  });
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  READS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function sortRows(rows: Row[], orderBy: Row | Row[] | undefined): Row[] {
+  if (!orderBy) return rows;
+  const orders = (Array.isArray(orderBy) ? orderBy : [orderBy]).flatMap((order) => Object.entries(order));
+
+  return [...rows].sort((a, b) => {
+    for (const [key, direction] of orders as Array<[string, any]>) {
+      const sort = typeof direction === 'string' ? direction : direction?.sort;
+      if (typeof sort !== 'string') continue;
+
+      const [left, right] = [a[key], b[key]];
+      if (left == null || right == null) {
+        if (left == null && right == null) continue;
+        // Postgres: nulls sort last ascending, first descending
+        return (left == null ? 1 : -1) * (sort === 'desc' ? -1 : 1);
+      }
+
+      const order = compare(left, right) * (sort === 'desc' ? -1 : 1);
+      if (order !== 0) return order;
+    }
+    return 0;
+  });
+}
+
+function findRows(state: MemoryState, model: Model, args: Row = {}): Row[] {
+  return selectRows(state, model, state.tables.get(model.name) ?? [], args);
+}
+
+/** where, orderBy, distinct, skip and take over a set of rows */
+function selectRows(state: MemoryState, model: Model, source: Row[], args: Row): Row[] {
+  let rows = source.filter((row) => matchesWhere(state, model, row, args.where));
+  rows = sortRows(rows, args.orderBy);
+
+  if (args.distinct) {
+    const keys: string[] = Array.isArray(args.distinct) ? args.distinct : [args.distinct];
+    const seen = new Set<string>();
+    rows = rows.filter((row) => {
+      const id = JSON.stringify(keys.map((key) => row[key]));
+      return seen.has(id) ? false : (seen.add(id), true);
+    });
+  }
+
+  const skip = args.skip ?? 0;
+  if (args.take === undefined) return rows.slice(skip);
+  return args.take >= 0 ? rows.slice(skip, skip + args.take) : rows.slice(Math.max(0, rows.length + args.take - skip), rows.length - skip);
+}
+
+/** A copy of the row shaped by include/select, like the real client returns */
+function shape(state: MemoryState, model: Model, row: Row, args: Row = {}): Row {
+  const projection = args.select ?? args.include;
+  const result: Row = {};
+
+  for (const field of model.fields) {
+    if (field.kind === 'object') continue;
+    if (args.select && !args.select[field.name]) continue;
+    result[field.name] = clone(row[field.name]);
+  }
+
+  for (const [key, value] of Object.entries(projection ?? {})) {
+    if (!value) continue;
+
+    if (key === '_count') {
+      const counts: Row = {};
+      for (const [relation, enabled] of Object.entries((value as Row).select ?? {})) {
+        const field = model.fields.find((candidate) => candidate.name === relation)!;
+        const inner = typeof enabled === 'object' ? (enabled as Row).where : undefined;
+        counts[relation] = relatedRows(state, model, field, row).filter((related) =>
+          matchesWhere(state, state.models.get(field.type)!, related, inner)
+        ).length;
+      }
+      result._count = counts;
+      continue;
+    }
+
+    const field = model.fields.find((candidate) => candidate.name === key);
+    if (!field || field.kind !== 'object') continue;
+
+    const target = state.models.get(field.type)!;
+    const nested: Row = value === true ? {} : (value as Row);
+    const related = relatedRows(state, model, field, row);
+
+    if (field.isList) {
+      result[key] = selectRows(state, target, related, nested).map((inner) => shape(state, target, inner, nested));
+    } else {
+      result[key] = related[0] ? shape(state, target, related[0], nested) : null;
+    }
+  }
+
+  return result;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  WRITES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function uniqueKeys(model: Model): string[][] {
+  const keys: string[][] = model.fields.filter((field) => field.isId || field.isUnique).map((field) => [field.name]);
+  if (model.primaryKey) keys.push(model.primaryKey.fields as string[]);
+  return keys.concat(model.uniqueFields as string[][]);
+}
+
+function checkUnique(state: MemoryState, model: Model, row: Row) {
+  const others = (state.tables.get(model.name) ?? []).filter((other) => other !== row);
+
+  for (const fields of uniqueKeys(model)) {
+    // NULLs never collide, as in Postgres
+    if (fields.some((key) => row[key] === null || row[key] === undefined)) continue;
+    if (others.some((other) => fields.every((key) => sameValue(other[key], row[key])))) {
+      throw uniqueViolation(model.name, fields);
+    }
+  }
+
+  for (const index of state.partialUniques.filter((candidate) => candidate.model === model.name)) {
+    if (!index.where(row)) continue;
+    if (others.some((other) => index.where(other) && index.fields.every((key) => sameValue(other[key], row[key])))) {
+      throw uniqueViolation(model.name, index.fields);
+    }
+  }
+}
+
+/**
+ * Apply a create/update data object to a row (scalars, operators, connect).
+ * Returns the nested creates of child rows, to run once the row is stored.
+ */
+function applyData(state: MemoryState, model: Model, row: Row, data: Row): Array<() => void> {
+  const children: Array<() => void> = [];
+
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+
+    const field = model.fields.find((candidate) => candidate.name === key);
+    if (!field) {
+      throw new Error(`memoryPrisma: ${model.name} has no field ${key}`);
+    }
+
+    if (field.kind === 'object') {
+      const target = state.models.get(field.type)!;
+      const { from, to } = relationKeys(state, model, field);
+      const ownsKey = Boolean(field.relationFromFields?.length);
+
+      if (value.connect && ownsKey) {
+        from.forEach((fromKey, index) => (row[fromKey] = value.connect[to[index]]));
+      } else if (value.disconnect && ownsKey) {
+        from.forEach((fromKey) => (row[fromKey] = null));
+      } else if (value.create && ownsKey) {
+        const parent = insert(state, target, value.create);
+        from.forEach((fromKey, index) => (row[fromKey] = parent[to[index]]));
+      } else if (value.create) {
+        const creates: Row[] = Array.isArray(value.create) ? value.create : [value.create];
+        children.push(() => {
+          for (const child of creates) {
+            insert(state, target, { ...child, ...Object.fromEntries(to.map((toKey, index) => [toKey, row[from[index]]])) });
+          }
+        });
+      } else if (value.connectOrCreate || value.createMany || value.upsert) {
+        throw new Error(`memoryPrisma: nested writes on ${model.name}.${key} are not supported`);
+      }
+      continue;
+    }
+
+    if (value && typeof value === 'object' && !(value instanceof Date) && !Array.isArray(value) && field.type !== 'Json') {
+      const current = row[key];
+      if ('set' in value) row[key] = clone(value.set);
+      else if ('increment' in value) row[key] = (current ?? 0) + value.increment;
+      else if ('decrement' in value) row[key] = (current ?? 0) - value.decrement;
+      else if ('multiply' in value) row[key] = (current ?? 0) * value.multiply;
+      else if ('divide' in value) row[key] = (current ?? 0) / value.divide;
+      else if ('push' in value) row[key] = [...(current ?? []), ...(Array.isArray(value.push) ? value.push : [value.push])];
+      continue;
+    }
+
+    row[key] = clone(value);
+  }
+
+  return children;
+}
+
+function insert(state: MemoryState, model: Model, data: Row): Row {
+  const row: Row = {};
+  for (const field of model.fields) {
+    if (field.kind !== 'object') row[field.name] = defaultValue(state, model, field);
+  }
+  const children = applyData(state, model, row, data);
+
+  checkUnique(state, model, row);
+  state.tables.get(model.name)!.push(row);
+  children.forEach((createChildren) => createChildren());
+  return row;
+}
+
+/** The row is out of its table while this runs, so it can't collide with itself */
+function update(state: MemoryState, model: Model, row: Row, data: Row): Row {
+  const next = { ...row };
+  const children = applyData(state, model, next, data);
+  for (const field of model.fields) {
+    if (field.isUpdatedAt && !(field.name in data)) next[field.name] = new Date();
+  }
+
+  checkUnique(state, model, next);
+  Object.assign(row, next);
+  children.forEach((createChildren) => createChildren());
+  return row;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  DELEGATES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function createDelegate(state: MemoryState, model: Model) {
+  const table = () => state.tables.get(model.name)!;
+  const first = (args: Row) => findRows(state, model, args)[0] ?? null;
+  const out = (row: Row | null, args: Row) => (row ? shape(state, model, row, args) : null);
+
+  const updateRow = (row: Row, data: Row) => {
+    const index = table().indexOf(row);
+    table().splice(index, 1);
+    try {
+      return update(state, model, row, data);
+    } finally {
+      table().splice(index, 0, row);
+    }
+  };
+
+  return {
+    findUnique: jest.fn(async (args: Row) => out(first(args), args)),
+    findUniqueOrThrow: jest.fn(async (args: Row) => {
+      const row = first(args);
+      if (!row) throw notFound(model.name, 'findUniqueOrThrow');
+      return out(row, args);
+    }),
+    findFirst: jest.fn(async (args: Row = {}) => out(first(args), args)),
+    findFirstOrThrow: jest.fn(async (args: Row = {}) => {
+      const row = first(args);
+      if (!row) throw notFound(model.name, 'findFirstOrThrow');
+      return out(row, args);
+    }),
+    findMany: jest.fn(async (args: Row = {}) => findRows(state, model, args).map((row) => shape(state, model, row, args))),
+    count: jest.fn(async (args: Row = {}) => findRows(state, model, { where: args.where }).length),
+    create: jest.fn(async (args: Row) => out(insert(state, model, args.data), args)),
+    createMany: jest.fn(async (args: Row) => {
+      let count = 0;
+      for (const data of Array.isArray(args.data) ? args.data : [args.data]) {
+        try {
+          insert(state, model, data);
+          count++;
+        } catch (error) {
+          if (!(args.skipDuplicates && (error as any).code === 'P2002')) throw error;
+        }
+      }
+      return { count };
+    }),
+    update: jest.fn(async (args: Row) => {
+      const row = first({ where: args.where });
+      if (!row) throw notFound(model.name, 'update');
+      return out(updateRow(row, args.data), args);
+    }),
+    updateMany: jest.fn(async (args: Row = {}) => {
+      const rows = findRows(state, model, { where: args.where });
+      rows.forEach((row) => updateRow(row, args.data));
+      return { count: rows.length };
+    }),
+    upsert: jest.fn(async (args: Row) => {
+      const row = first({ where: args.where });
+      return out(row ? updateRow(row, args.update) : insert(state, model, args.create), args);
+    }),
+    delete: jest.fn(async (args: Row) => {
+      const row = first({ where: args.where });
+      if (!row) throw notFound(model.name, 'delete');
+      table().splice(table().indexOf(row), 1);
+      return out(row, args);
+    }),
+    deleteMany: jest.fn(async (args: Row = {}) => {
+      const rows = findRows(state, model, { where: args.where });
+      state.tables.set(model.name, table().filter((row) => !rows.includes(row)));
+      return { count: rows.length };
+    }),
+    groupBy: jest.fn(async (args: Row) => {
+      const groups = new Map<string, Row[]>();
+      for (const row of findRows(state, model, { where: args.where })) {
+        const key = JSON.stringify(args.by.map((field: string) => row[field]));
+        groups.set(key, [...(groups.get(key) ?? []), row]);
+      }
+      return [...groups.values()].map((rows) => ({
+        ...Object.fromEntries(args.by.map((field: string) => [field, clone(rows[0][field])])),
+        ...(args._count && { _count: args._count === true ? rows.length : Object.fromEntries(Object.keys(args._count).map((field) => [field, rows.length])) }),
+      }));
+    }),
+  };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  CLIENT
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export function createMemoryPrisma(options: MemoryPrismaOptions = {}): any {
+  const state: MemoryState = {
+    tables: new Map(MODELS.map((model) => [model.name, []])),
+    sequence: 0,
+    models: new Map(MODELS.map((model) => [model.name, model])),
+    partialUniques: options.partialUniques ?? [],
+  };
+
+  const client: Row = {
+    [STATE]: state,
+    $connect: jest.fn(async () => {}),
+    $disconnect: jest.fn(async () => {}),
+    $queryRaw: jest.fn(async () => []),
+    $queryRawUnsafe: jest.fn(async () => []),
+    $executeRaw: jest.fn(async () => 0),
+    $executeRawUnsafe: jest.fn(async () => 0),
+    $transaction: jest.fn(async (input: any) => {
+      if (typeof input === 'function') return input(client);
+      const results = [];
+      for (const operation of input) results.push(await operation);
+      return results;
+    }),
+  };
+
+  for (const model of MODELS) {
+    client[delegateName(model.name)] = createDelegate(state, model);
+  }
+
+  return client;
+}
+
+function stateOf(prisma: unknown): MemoryState {
+  const state = (prisma as Row)[STATE as any];
+  if (!state) throw new Error('memoryPrisma: not an in-memory client (is ../db mocked with createMemoryPrisma?)');
+  return state;
+}
+
+function modelFor(state: MemoryState, name: string): Model {
+  const model = MODELS.find((candidate) => delegateName(candidate.name) === name || candidate.name === name);
+  if (!model) throw new Error(`memoryPrisma: unknown model ${name}`);
+  return model;
+}
+
+/** Empty every table (ids keep counting up) */
+export function resetMemoryPrisma(prisma: unknown) {
+  const state = stateOf(prisma);
+  for (const name of state.tables.keys()) state.tables.set(name, []);
+}
+
+/** Insert rows with schema defaults, e.g. { client: [{ id: "client_1" }] } */
+export async function seedMemoryPrisma(prisma: unknown, rows: Record<string, Row[]>): Promise<Record<string, Row[]>> {
+  const state = stateOf(prisma);
+  const seeded: Record<string, Row[]> = {};
+  for (const [name, list] of Object.entries(rows)) {
+    const model = modelFor(state, name);
+    seeded[name] = list.map((data) => clone(insert(state, model, data)));
+  }
+  return seeded;
+}
+
+/** The stored rows of a model, for assertions (live: don't mutate) */
+export function memoryRows(prisma: unknown, name: string): Row[] {
+  const state = stateOf(prisma);
+  return state.tables.get(modelFor(state, name).name)!;
+}
@@ -0,0 +1,168 @@
+process.env.TZ = "UTC";
+
+jest.mock("../db", () => ({ prisma: jest.requireActual("./support/memoryPrisma").createMemoryPrisma() }));
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "../db";
+import { resetMemoryPrisma, seedMemoryPrisma } from "./support/memoryPrisma";
+import { at, bookingRow, seedBookings } from "./support/fixtures";
+import { TravelTime } from "../lib/geo/TravelTime";
+import { SlotFinder } from "../services/SlotFinder";
+import { decideAction, RuneInput } from "../services/rune";
+
+const CLIENT_ID = "client_1";
+
+const updateSettings = (data: Prisma.ClientSettingsUpdateInput) =>
+  prisma.clientSettings.update({ where: { clientId: CLIENT_ID }, data });
+
+const firstSlot = (location?: string) =>
+  SlotFinder.findEarliestSlot({
+    clientId: CLIENT_ID,
+    preferredDate: at("00:00"),
+    durationMinutes: 60,
+    searchDaysAhead: 0,
+    timeZone: "Europe/London",
+    location,
+  });
+
+describe("Travel time", () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date("2026-01-01T12:00:00Z") });
+    resetMemoryPrisma(prisma);
+    await seedMemoryPrisma(prisma, {
+      client: [{ id: CLIENT_ID, businessName: "Ace Plumbing", timezone: "Europe/London" }],
+      clientSettings: [{ clientId: CLIENT_ID }],
+      weeklyAvailability: [{ clientId: CLIENT_ID, weekday: 1, startTime: "09:00", endTime: "17:00" }],
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe("TravelTime", () => {
+    it.each([
+      ["B49 5AB", "B"],
+      ["12 High St, Coventry cv1 2ab", "CV"],
+      ["SW1A 1AA", "SW"],
+      ["M1", "M"],
+    ])("should place %s in postcode area %s", (location, area) => {
+      expect(TravelTime.locate(location)).toEqual(TravelTime.locate(`${area}1 1AA`));
+      expect(TravelTime.locate(location)).not.toBeNull();
+    });
+
+    it.each([["123 Main St"], ["Alcester"], [""], [null], ["XX1 1AA"]])("should not place %p", (location) => {
+      expect(TravelTime.locate(location)).toBeNull();
+    });
+
+    it("should estimate drive time from distance and road factor", () => {
+      const birmingham = TravelTime.locate("B1 1AA")!;
+      const coventry = TravelTime.locate("CV1 1AA")!;
+
+      expect(TravelTime.distanceMiles(birmingham, coventry)).toBeCloseTo(17, 0);
+      expect(TravelTime.minutesBetween(birmingham, coventry, 1)).toBe(35);
+      expect(TravelTime.minutesBetween(birmingham, coventry)).toBe(45);
+      expect(TravelTime.minutesBetween(birmingham, birmingham)).toBe(0);
+    });
+
+    it("should check a job against the service radius from the base postcode", async () => {
+      await updateSettings({ basePostcode: "B49 5AB", serviceRadiusMiles: 25, outOfAreaAction: "DECLINE" });
+
+      await expect(TravelTime.checkServiceArea(CLIENT_ID, "CV1 2AB")).resolves.toMatchObject({
+        inArea: true,
+        radiusMiles: 25,
+        action: "DECLINE",
+      });
+      await expect(TravelTime.checkServiceArea(CLIENT_ID, "M1 1AA")).resolves.toMatchObject({ inArea: false });
+      await expect(TravelTime.checkServiceArea(CLIENT_ID, "somewhere nice")).resolves.toBeNull();
+
+      await updateSettings({ serviceRadiusMiles: null });
+      await expect(TravelTime.checkServiceArea(CLIENT_ID, "M1 1AA")).resolves.toBeNull();
+    });
+  });
+
+  describe("SlotFinder", () => {
+    it("should leave time to drive from the previous job", async () => {
+      await seedBookings(prisma, bookingRow("b_1", "09:00", "10:00", { location: "CV1 2AB" }));
+
+      await expect(firstSlot("B1 1AA")).resolves.toEqual(at("10:45"));
+      await expect(firstSlot()).resolves.toEqual(at("10:00"));
+    });
+
+    it("should leave time to drive on to the next job", async () => {
+      await seedBookings(prisma, bookingRow("b_1", "11:00", "12:00", { location: "CV1 2AB" }));
+
+      const slots = await SlotFinder.findAvailableSlots({
+        clientId: CLIENT_ID,
+        preferredDate: at("00:00"),
+        durationMinutes: 60,
+        searchDaysAhead: 0,
+        timeZone: "Europe/London",
+        location: "B1 1AA",
+      });
+      const starts = slots.map((slot) => slot.start.toISOString().slice(11, 16));
+
+      expect(starts).toContain("09:15");
+      expect(starts).not.toContain("09:30");
+      expect(starts).not.toContain("12:00");
+      expect(starts).toContain("12:45");
+    });
+
+    it("should use the client's road factor", async () => {
+      await updateSettings({ travelRoadFactor: 2 });
+      await seedBookings(prisma, bookingRow("b_1", "09:00", "10:00", { location: "CV1 2AB" }));
+
+      // 34 road miles: 70 minutes
+      await expect(firstSlot("B1 1AA")).resolves.toEqual(at("11:15"));
+    });
+
+    it("should not add travel for jobs it can't place", async () => {
+      await seedBookings(prisma, bookingRow("b_1", "09:00", "10:00", { location: "the old mill" }));
+
+      await expect(firstSlot("B1 1AA")).resolves.toEqual(at("10:00"));
+      await expect(firstSlot("round the corner")).resolves.toEqual(at("10:00"));
+    });
+  });
+
+  describe("rune service area", () => {
+    const input = (serviceArea?: RuneInput["config"]["service_area"], intent: RuneInput["intent"] = "NORMAL"): RuneInput => ({
+      intent,
+      certainty: 0.9,
+      flow: { job_type: "boiler repair", location: "M1 1AA" },
+      config: { booking_link_enabled: true, service_area: serviceArea },
+    });
+
+    it("should decline out-of-area jobs when the client asks for it", () => {
+      expect(decideAction(input({ distance_miles: 70, radius_miles: 25, out_of_area: "DECLINE" }))).toEqual({
+        action: "SEND_POLITE_DECLINE",
+        reason: "out of area",
+        flags: ["OUT_OF_AREA"],
+      });
+    });
+
+    it("should flag out-of-area jobs and otherwise decide as usual", () => {
+      expect(decideAction(input({ distance_miles: 70, radius_miles: 25, out_of_area: "FLAG" }))).toEqual({
+        action: "SEND_BOOKING_LINK",
+        reason: "normal booking",
+        flags: ["OUT_OF_AREA"],
+      });
+      expect(decideAction(input({ distance_miles: 70, radius_miles: 25, out_of_area: "FLAG" }, "URGENT"))).toMatchObject({
+        action: "SEND_BOOKING_AND_ALERT",
+        flags: ["OUT_OF_AREA"],
+      });
+    });
+
+    it("should leave in-area and unplaced jobs alone", () => {
+      expect(decideAction(input({ distance_miles: 10, radius_miles: 25, out_of_area: "DECLINE" }))).toEqual({
+        action: "SEND_BOOKING_LINK",
+        reason: "normal booking",
+      });
+      expect(decideAction(input())).toEqual({ action: "SEND_BOOKING_LINK", reason: "normal booking" });
+      expect(decideAction(input({ distance_miles: 70, radius_miles: 25, out_of_area: "DECLINE" }, "NON_LEAD"))).toEqual({
+        action: "SEND_POLITE_DECLINE",
+        reason: "non lead",
+      });
+    });
+  });
+});
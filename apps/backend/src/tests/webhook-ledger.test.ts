@@ -0,0 +1,299 @@
+import express from "express";
+import request from "supertest";
+
+jest.mock("../db", () => ({ prisma: jest.requireActual("./support/memoryPrisma").createMemoryPrisma() }));
+
+jest.mock("../utils/numberRoleResolver", () => ({
+  resolveNumberRole: jest.fn(async () => ({
+    role: "OPERATIONAL",
+    source: "pool",
+    clientId: "client_1",
+    isKnown: true,
+  })),
+  canReceiveVoiceCall: jest.fn(() => true),
+  getNumberRoleDescription: jest.fn(() => "operational"),
+}));
+
+const mockRouteMissedCall = jest.fn(async () => {});
+jest.mock("../modules/messages/router", () => ({
+  routeMissedCall: mockRouteMissedCall,
+}));
+
+const mockApplyMessageStatusCallback = jest.fn(async () => ({ updated: true }));
+jest.mock("../services/MessageDeliveryService", () => ({
+  applyMessageStatusCallback: mockApplyMessageStatusCallback,
+}));
+
+jest.mock("../services/OnboardingService", () => ({
+  handleOnboardingSms: jest.fn(),
+}));
+
+import { prisma } from "../db";
+import { memoryRows, resetMemoryPrisma, seedMemoryPrisma } from "./support/memoryPrisma";
+import twilioRoutes from "../routes/twilio";
+import {
+  claimWebhookEvent,
+  completeWebhookEvent,
+  failWebhookEvent,
+  redriveWebhookEvent,
+  registerWebhookRedriver,
+} from "../services/WebhookLedger";
+
+const mockPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+
+const NOW = new Date("2026-01-12T10:00:00Z");
+
+const events = () => memoryRows(prisma, "webhookEvent");
+
+const input = {
+  provider: "STRIPE" as const,
+  eventKey: "evt_1",
+  eventType: "invoice.payment_failed",
+  route: "/stripe",
+  payload: { id: "evt_1" },
+};
+
+function createApp() {
+  const app = express();
+  app.use(express.urlencoded({ extended: true }));
+  app.use("/api/twilio", twilioRoutes);
+  return app;
+}
+
+// Outcomes are recorded on the response's "finish" event
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("Webhook ledger", () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: NOW, doNotFake: ["nextTick", "setImmediate"] });
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    resetMemoryPrisma(prisma);
+    await seedMemoryPrisma(prisma, {
+      // supertest's form encoding turns the "+" of To into a space
+      client: [{ id: "client_1", businessName: "Ace Plumbing", twilioNumber: "447700900000" }],
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe("claimWebhookEvent", () => {
+    it("should claim a new event once", async () => {
+      const first = await claimWebhookEvent(input);
+      const second = await claimWebhookEvent(input);
+
+      expect(first.claimed).toBe(true);
+      expect(second).toEqual({ claimed: false, event: first.event });
+      expect(events()).toHaveLength(1);
+    });
+
+    it("should treat a replay of a processed event as a no-op", async () => {
+      const { event } = await claimWebhookEvent(input);
+      await completeWebhookEvent(event.id, { outcome: "processed", clientId: "client_1" });
+
+      await expect(claimWebhookEvent(input)).resolves.toMatchObject({ claimed: false });
+      expect(events()[0]).toMatchObject({ status: "PROCESSED", outcome: "processed", clientId: "client_1" });
+    });
+
+    it("should claim a failed event again", async () => {
+      const { event } = await claimWebhookEvent(input);
+      await failWebhookEvent(event.id, new Error("DB timeout"), 500);
+
+      const retry = await claimWebhookEvent(input);
+
+      expect(retry).toMatchObject({ claimed: true, event: { status: "PROCESSING", attempts: 2 } });
+    });
+
+    it("should only reclaim an in-flight event once it is stale", async () => {
+      await claimWebhookEvent(input);
+
+      await expect(claimWebhookEvent(input, new Date(NOW.getTime() + 60 * 1000))).resolves.toMatchObject({
+        claimed: false,
+      });
+      await expect(claimWebhookEvent(input, new Date(NOW.getTime() + 5 * 60 * 1000))).resolves.toMatchObject({
+        claimed: true,
+      });
+    });
+
+    it("should key on event type as well as id", async () => {
+      await claimWebhookEvent(input);
+
+      await expect(claimWebhookEvent({ ...input, eventType: "invoice.payment_succeeded" })).resolves.toMatchObject({
+        claimed: true,
+      });
+    });
+  });
+
+  describe("redriveWebhookEvent", () => {
+    it("should replay failed events through the provider's redriver", async () => {
+      const redriver = jest.fn(async (event: any) => {
+        const claim = await claimWebhookEvent({ ...input, payload: event.payload });
+        if (claim.claimed) await completeWebhookEvent(claim.event.id, { outcome: "processed" });
+      });
+      registerWebhookRedriver("STRIPE", redriver);
+
+      const { event } = await claimWebhookEvent(input);
+      await failWebhookEvent(event.id, "boom");
+
+      const result = await redriveWebhookEvent(event.id);
+
+      expect(redriver).toHaveBeenCalledWith(expect.objectContaining({ id: event.id, payload: { id: "evt_1" } }));
+      expect(result).toMatchObject({ success: true, event: { status: "PROCESSED", attempts: 2, lastError: null } });
+    });
+
+    it("should record a redriver that throws as a new failure", async () => {
+      registerWebhookRedriver("STRIPE", async () => {
+        throw new Error("connection refused");
+      });
+
+      const { event } = await claimWebhookEvent(input);
+      await failWebhookEvent(event.id, "boom");
+
+      await expect(redriveWebhookEvent(event.id)).resolves.toMatchObject({
+        success: true,
+        event: { status: "FAILED", lastError: "connection refused" },
+      });
+    });
+
+    it("should wait for the handler's own outcome and record a failure once", async () => {
+      // Twilio's handler answers 500 before its "finish" listener writes FAILED
+      jest.useRealTimers();
+      registerWebhookRedriver("STRIPE", async (event: any) => {
+        const claim = await claimWebhookEvent({ ...input, payload: event.payload });
+        setTimeout(() => failWebhookEvent(claim.event.id, "handler blew up", 500), 120);
+        throw new Error("Re-drive of /stripe answered HTTP 500");
+      });
+
+      const { event } = await claimWebhookEvent(input);
+      await failWebhookEvent(event.id, "boom");
+      mockPrisma.webhookEvent.update.mockClear();
+
+      const result = await redriveWebhookEvent(event.id);
+
+      expect(result).toMatchObject({
+        success: true,
+        event: { status: "FAILED", attempts: 2, lastError: "handler blew up", responseCode: 500 },
+      });
+      const failures = mockPrisma.webhookEvent.update.mock.calls.filter(([args]) => args.data.status === "FAILED");
+      expect(failures).toHaveLength(1);
+    });
+
+    it("should refuse events that are processed or unknown", async () => {
+      const { event } = await claimWebhookEvent(input);
+      await completeWebhookEvent(event.id);
+
+      await expect(redriveWebhookEvent(event.id)).resolves.toEqual({ success: false, reason: "INVALID_STATUS" });
+      await expect(redriveWebhookEvent("wh_missing")).resolves.toEqual({ success: false, reason: "NOT_FOUND" });
+    });
+  });
+
+  describe("Twilio routes", () => {
+    const missedCall = {
+      CallSid: "CA123",
+      CallStatus: "no-answer",
+      From: "+447700900123",
+      To: "+447700900000",
+    };
+
+    it("should route a retried missed-call status callback only once", async () => {
+      const app = createApp();
+
+      await request(app).post("/api/twilio/status").type("form").send(missedCall).expect(200);
+      await settle();
+      await request(app).post("/api/twilio/status").type("form").send(missedCall).expect(200);
+      await settle();
+
+      expect(mockRouteMissedCall).toHaveBeenCalledTimes(1);
+      expect(events()).toHaveLength(1);
+      expect(events()[0]).toMatchObject({
+        provider: "TWILIO",
+        eventKey: "CA123",
+        eventType: "call.status.no-answer",
+        route: "/status",
+        status: "PROCESSED",
+        responseCode: 200,
+        outcome: "missed_call_routed",
+        clientId: "client_1",
+      });
+    });
+
+    it("should record a swallowed failure so the callback can be re-driven", async () => {
+      mockRouteMissedCall.mockRejectedValueOnce(new Error("Twilio down"));
+      const app = createApp();
+
+      await request(app).post("/api/twilio/status").type("form").send(missedCall).expect(200);
+      await settle();
+
+      expect(events()[0]).toMatchObject({ status: "FAILED", lastError: "Twilio down" });
+
+      await request(app).post("/api/twilio/status").type("form").send(missedCall).expect(200);
+      await settle();
+
+      expect(mockRouteMissedCall).toHaveBeenCalledTimes(2);
+      expect(events()[0]).toMatchObject({ status: "PROCESSED", attempts: 2 });
+    });
+
+    it("should log a re-drive of the claimed row", async () => {
+      mockRouteMissedCall.mockRejectedValueOnce(new Error("Twilio down"));
+      const app = createApp();
+
+      await request(app).post("/api/twilio/status").type("form").send(missedCall).expect(200);
+      await settle();
+      const ledgerId = events()[0].id;
+
+      await request(app)
+        .post("/api/twilio/status")
+        .set("X-Webhook-Redrive", ledgerId)
+        .type("form")
+        .send(missedCall)
+        .expect(200);
+      await settle();
+
+      expect(console.log).toHaveBeenCalledWith(
+        "🔁 [WebhookLedger] Re-driven webhook claimed",
+        expect.objectContaining({ ledgerId, attempt: 2 })
+      );
+      expect(console.log).toHaveBeenCalledWith("🔁 [WebhookLedger] Re-driven webhook answered", {
+        ledgerId,
+        statusCode: 200,
+      });
+    });
+
+    it("should apply each message status once", async () => {
+      const app = createApp();
+      const delivered = { MessageSid: "SM123", MessageStatus: "delivered" };
+
+      await request(app).post("/api/twilio/message-status").type("form").send(delivered).expect(200);
+      await settle();
+      await request(app).post("/api/twilio/message-status").type("form").send(delivered).expect(200);
+      await settle();
+      await request(app)
+        .post("/api/twilio/message-status")
+        .type("form")
+        .send({ MessageSid: "SM123", MessageStatus: "read" })
+        .expect(200);
+      await settle();
+
+      expect(mockApplyMessageStatusCallback).toHaveBeenCalledTimes(2);
+      expect(events().map((e) => e.eventType)).toEqual(["message.status.delivered", "message.status.read"]);
+    });
+
+    it("should answer a retried voice webhook with the greeting only", async () => {
+      const app = createApp();
+      const call = { CallSid: "CA999", From: "+447700900123", To: "+447700900000" };
+
+      await request(app).post("/api/twilio/voice").type("form").send(call).expect(200);
+      await settle();
+      const retry = await request(app).post("/api/twilio/voice").type("form").send(call).expect(200);
+
+      expect(retry.text).toContain("JobRun automated assistant");
+      expect(mockPrisma.webhookEvent.create).toHaveBeenCalledTimes(2);
+      expect(events()).toHaveLength(1);
+    });
+  });
+});
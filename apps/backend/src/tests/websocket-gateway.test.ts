@@ -0,0 +1,252 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { EventEmitter } from "events";
+import jwt from "jsonwebtoken";
+import WebSocket from "ws";
+
+jest.mock("../db", () => ({
+  prisma: {
+    clientMembership: {
+      findUnique: jest.fn(async ({ where }) =>
+        where.clientId_userId.clientId === "client_a" || where.clientId_userId.clientId === "client_b"
+          ? { role: "DISPATCHER" }
+          : null
+      ),
+    },
+  },
+}));
+
+// Minimal pg client: NOTIFY on any instance is heard by every LISTENing instance
+const mockListeners: EventEmitter[] = [];
+jest.mock("pg", () => {
+  const { EventEmitter } = require("events");
+  class Client extends EventEmitter {
+    connect = jest.fn(async () => {});
+    end = jest.fn(async () => {});
+    query = jest.fn(async (sql: string, params?: string[]) => {
+      if (sql.startsWith("LISTEN")) mockListeners.push(this as any);
+      if (sql.startsWith("SELECT pg_notify")) {
+        setImmediate(() =>
+          mockListeners.forEach((client) =>
+            client.emit("notification", { channel: params![0], payload: params![1] })
+          )
+        );
+      }
+      return { rows: [] };
+    });
+  }
+  return { Client };
+});
+
+import { WebSocketGateway, eventTopics } from "../realtime/WebSocketGateway";
+import { InMemoryBackplane, PostgresBackplane, RealtimeEnvelope, setBackplane } from "../realtime/backplane";
+import { generateImpersonationToken } from "../utils/jwt";
+
+const JWT_SECRET = process.env.JWT_SECRET || "jobrun-secret-key-change-in-production";
+
+function loginToken(clientId: string): string {
+  return jwt.sign({ id: "user_1", email: "a@example.com", role: "CLIENT", clientId }, JWT_SECRET);
+}
+
+function envelope(overrides: Partial<RealtimeEnvelope> = {}): RealtimeEnvelope {
+  return {
+    clientId: "client_a",
+    topics: ["lead"],
+    type: "NEW_MESSAGE",
+    data: {},
+    timestamp: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+describe("WebSocketGateway", () => {
+  let server: http.Server;
+  let url: string;
+  const sockets: WebSocket[] = [];
+
+  // Opens a socket and collects every frame it receives
+  async function connect(query: string): Promise<{ ws: WebSocket; frames: any[] }> {
+    const ws = new WebSocket(`${url}/?${query}`);
+    const frames: any[] = [];
+    sockets.push(ws);
+    ws.on("message", (data) => frames.push(JSON.parse(data.toString())));
+    await new Promise((resolve, reject) => {
+      ws.once("open", resolve);
+      ws.once("error", reject);
+    });
+    await waitFor(() => frames.some((frame) => frame.type === "CONNECTED"));
+    return { ws, frames };
+  }
+
+  async function waitFor(condition: () => boolean): Promise<void> {
+    for (let i = 0; i < 50 && !condition(); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+  beforeAll(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    setBackplane(new InMemoryBackplane());
+    server = http.createServer();
+    await WebSocketGateway.initialize(server);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(() => {
+    sockets.splice(0).forEach((ws) => ws.close());
+  });
+
+  afterAll(async () => {
+    await WebSocketGateway.close();
+    await new Promise((resolve) => server.close(resolve));
+    await settle();
+    setBackplane(null);
+    jest.restoreAllMocks();
+  });
+
+  describe("authentication", () => {
+    it("should reject connections without a token", async () => {
+      const ws = new WebSocket(`${url}/?clientId=client_a`);
+      const error = await new Promise<Error>((resolve) => ws.once("error", resolve));
+
+      expect(error.message).toContain("401");
+    });
+
+    it("should reject tokens for a tenant the user is not a member of", async () => {
+      const ws = new WebSocket(`${url}/?token=${loginToken("client_z")}`);
+      const error = await new Promise<Error>((resolve) => ws.once("error", resolve));
+
+      expect(error.message).toContain("401");
+    });
+
+    it("should reject a clientId that does not match the token", async () => {
+      const ws = new WebSocket(`${url}/?token=${loginToken("client_a")}&clientId=client_b`);
+      const error = await new Promise<Error>((resolve) => ws.once("error", resolve));
+
+      expect(error.message).toContain("401");
+    });
+
+    it("should accept login and impersonation tokens", async () => {
+      const login = await connect(`token=${loginToken("client_a")}`);
+      const impersonation = await connect(`token=${generateImpersonationToken("client_b", "admin_1")}`);
+
+      expect(login.frames[0].data).toMatchObject({ clientId: "client_a", role: "DISPATCHER" });
+      expect(impersonation.frames[0].data).toMatchObject({ clientId: "client_b", role: "OWNER" });
+    });
+  });
+
+  describe("subscriptions", () => {
+    it("should only deliver events for subscribed topics", async () => {
+      const { ws, frames } = await connect(`token=${loginToken("client_a")}`);
+
+      ws.send(JSON.stringify({ action: "subscribe", topics: ["conversation:conv_1"] }));
+      await waitFor(() => frames.some((frame) => frame.type === "SUBSCRIBED"));
+
+      WebSocketGateway.broadcastToClient("client_a", "NEW_MESSAGE", { conversationId: "conv_2", customerId: "lead_1" });
+      WebSocketGateway.broadcastToClient("client_a", "NEW_MESSAGE", { conversationId: "conv_1", customerId: "lead_1" });
+      await settle();
+
+      const events = frames.filter((frame) => frame.type === "NEW_MESSAGE");
+      expect(events).toHaveLength(1);
+      expect(events[0].data.conversationId).toBe("conv_1");
+    });
+
+    it("should never deliver another tenant's events", async () => {
+      const a = await connect(`token=${loginToken("client_a")}&topics=handover`);
+      const b = await connect(`token=${loginToken("client_b")}&topics=handover`);
+
+      WebSocketGateway.broadcastToClient("client_b", "NEW_HANDOVER", { conversationId: "conv_9" });
+      await settle();
+
+      expect(a.frames.filter((frame) => frame.type === "NEW_HANDOVER")).toHaveLength(0);
+      expect(b.frames.filter((frame) => frame.type === "NEW_HANDOVER")).toHaveLength(1);
+    });
+
+    it("should stop delivering after unsubscribe", async () => {
+      const { ws, frames } = await connect(`token=${loginToken("client_a")}&topics=bookings`);
+
+      ws.send(JSON.stringify({ action: "unsubscribe", topics: ["bookings"] }));
+      await waitFor(() => frames.some((frame) => frame.type === "SUBSCRIBED"));
+
+      WebSocketGateway.broadcastToClient("client_a", "BOOKING_CREATED", { bookingId: "b_1" });
+      await settle();
+
+      expect(frames.filter((frame) => frame.type === "BOOKING_CREATED")).toHaveLength(0);
+    });
+
+    it("should reject unknown topics", async () => {
+      const { ws, frames } = await connect(`token=${loginToken("client_a")}`);
+
+      ws.send(JSON.stringify({ action: "subscribe", topics: ["billing"] }));
+      await waitFor(() => frames.some((frame) => frame.type === "ERROR"));
+
+      expect(frames.find((frame) => frame.type === "ERROR").data.invalid).toEqual(["billing"]);
+    });
+
+    it("should deliver events arriving from other replicas", async () => {
+      const { frames } = await connect(`token=${loginToken("client_a")}&topics=lead`);
+
+      const delivered = WebSocketGateway.deliver(envelope({ topics: ["lead", "lead:lead_1"] }));
+
+      expect(delivered).toBe(1);
+      await waitFor(() => frames.some((frame) => frame.type === "NEW_MESSAGE"));
+      expect(frames.some((frame) => frame.type === "NEW_MESSAGE")).toBe(true);
+    });
+  });
+
+  describe("eventTopics", () => {
+    it("should publish on both the kind and the specific id", () => {
+      expect(eventTopics("NEW_MESSAGE", { conversationId: "c1", customerId: "l1" })).toEqual([
+        "conversation",
+        "conversation:c1",
+        "lead",
+        "lead:l1",
+      ]);
+      expect(eventTopics("AVAILABILITY_UPDATED", {})).toEqual(["bookings"]);
+    });
+  });
+});
+
+describe("PostgresBackplane", () => {
+  beforeEach(() => {
+    mockListeners.splice(0);
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should fan events out to every replica through NOTIFY", async () => {
+    const replicaA = new PostgresBackplane("postgres://test");
+    const replicaB = new PostgresBackplane("postgres://test");
+    const receivedA: RealtimeEnvelope[] = [];
+    const receivedB: RealtimeEnvelope[] = [];
+    await replicaA.start((e) => receivedA.push(e));
+    await replicaB.start((e) => receivedB.push(e));
+
+    await replicaA.publish(envelope());
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(receivedA).toHaveLength(1);
+    expect(receivedB).toHaveLength(1);
+
+    await replicaA.stop();
+    await replicaB.stop();
+  });
+
+  it("should deliver oversized payloads locally instead of dropping them", async () => {
+    const replica = new PostgresBackplane("postgres://test");
+    const received: RealtimeEnvelope[] = [];
+    await replica.start((e) => received.push(e));
+
+    await replica.publish(envelope({ data: { body: "x".repeat(10000) } }));
+
+    expect(received).toHaveLength(1);
+    await replica.stop();
+  });
+});
@@ -1,4 +1,5 @@
 import twilio from 'twilio';
+import { getSmsTransport } from './transport';
 
 /**
  * Twilio client singleton
@@ -21,13 +22,23 @@ export function getTwilioClient(): twilio.Twilio {
 }
 
 /**
- * Send SMS via Twilio with automatic retry on transient failures
+ * Public URL Twilio should post message status callbacks to.
+ * Returns undefined when BASE_URL is not configured (no delivery tracking).
+ */
+export function getMessageStatusCallbackUrl(): string | undefined {
+  const baseUrl = process.env.BASE_URL;
+  if (!baseUrl) return undefined;
+  return `${baseUrl.replace(/\/$/, '')}/api/twilio/message-status`;
+}
+
+/**
+ * Send SMS via the active SMS transport with automatic retry on transient failures
  *
  * @param to - Recipient phone number (E.164 format)
  * @param from - Sender phone number (E.164 format)
  * @param body - Message body
  * @param options - Optional retry configuration and correlation ID
- * @returns Twilio message SID
+ * @returns Message SID (Twilio or loopback)
  * @throws Error if all retry attempts fail
  */
 export async function sendSMS(
@@ -37,7 +48,7 @@ export async function sendSMS(
   options: { retries?: number; correlationId?: string } = {}
 ): Promise<string> {
   const { retries = 3, correlationId } = options;
-  const client = getTwilioClient();
+  const transport = getSmsTransport();
 
   let lastError: Error | null = null;
 
@@ -52,10 +63,11 @@ export async function sendSMS(
       }
       // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-      const message = await client.messages.create({
+      const message = await transport.send({
         to,
         from,
         body,
+        statusCallback: getMessageStatusCallbackUrl(),
       });
 
       if (attempt > 1) {
@@ -63,6 +75,7 @@ export async function sendSMS(
           correlationId,
           attempt,
           to,
+          transport: transport.name,
           messageSid: message.sid,
         });
       }
@@ -112,7 +125,10 @@ export async function sendSMS(
     errorCode: (lastError as any)?.code,
   });
 
-  throw new Error(`SMS send failed after ${retries} attempts: ${lastError?.message}`);
+  // Keep the Twilio error code so callers can tell permanent rejections apart
+  throw Object.assign(new Error(`SMS send failed after ${retries} attempts: ${lastError?.message}`), {
+    code: (lastError as any)?.code,
+  });
 }
 
 /**
@@ -0,0 +1,247 @@
+import crypto from 'crypto';
+import { getTwilioClient } from './client';
+import { TwilioMessageStatus, TwilioSMSPayload, TwilioMessageStatusPayload } from './utils/twilioTypes';
+
+/**
+ * SMS Transport Layer
+ *
+ * Every outbound SMS in the system goes through a single SmsTransport.
+ * Production uses Twilio; CI and local development can switch to the
+ * in-process loopback transport, which records messages instead of
+ * sending them and simulates Twilio delivery receipts.
+ *
+ * SELECTION:
+ * - SMS_TRANSPORT=twilio   (default) → real Twilio API
+ * - SMS_TRANSPORT=loopback           → in-process recorder, no network
+ *
+ * Tests can also inject a transport directly with setSmsTransport().
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  TYPES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type SmsTransportName = 'twilio' | 'loopback';
+
+export interface OutboundSms {
+  to: string;
+  from: string;
+  body: string;
+  statusCallback?: string;
+}
+
+export interface SmsSendResult {
+  sid: string;
+  status: TwilioMessageStatus;
+}
+
+export interface SmsTransport {
+  readonly name: SmsTransportName;
+  send(message: OutboundSms): Promise<SmsSendResult>;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  TWILIO TRANSPORT
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export class TwilioSmsTransport implements SmsTransport {
+  readonly name = 'twilio' as const;
+
+  async send(message: OutboundSms): Promise<SmsSendResult> {
+    const client = getTwilioClient();
+
+    const created = await client.messages.create({
+      to: message.to,
+      from: message.from,
+      body: message.body,
+      ...(message.statusCallback && { statusCallback: message.statusCallback }),
+    });
+
+    return {
+      sid: created.sid,
+      status: created.status as TwilioMessageStatus,
+    };
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  LOOPBACK TRANSPORT
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export interface LoopbackMessage extends OutboundSms {
+  sid: string;
+  status: TwilioMessageStatus;
+  errorCode?: string;
+  sentAt: Date;
+}
+
+export type LoopbackStatusListener = (payload: TwilioMessageStatusPayload) => void | Promise<void>;
+
+/**
+ * In-process transport that never touches the network.
+ *
+ * - Records every outbound message so tests can assert on it
+ * - Generates Twilio-shaped SIDs (SM + 32 hex chars)
+ * - Simulates delivery receipts (queued → sent → delivered/failed)
+ * - Builds webhook bodies for replaying /api/twilio/sms and /api/twilio/status
+ */
+export class LoopbackSmsTransport implements SmsTransport {
+  readonly name = 'loopback' as const;
+
+  readonly sent: LoopbackMessage[] = [];
+  readonly receipts: TwilioMessageStatusPayload[] = [];
+
+  private listeners: LoopbackStatusListener[] = [];
+  private pendingFailures: Error[] = [];
+
+  constructor(private readonly options: { autoDeliver?: boolean } = {}) {}
+
+  async send(message: OutboundSms): Promise<SmsSendResult> {
+    const failure = this.pendingFailures.shift();
+    if (failure) {
+      throw failure;
+    }
+
+    const record: LoopbackMessage = {
+      ...message,
+      sid: generateSid('SM'),
+      status: 'queued',
+      sentAt: new Date(),
+    };
+
+    this.sent.push(record);
+
+    if (this.options.autoDeliver) {
+      await this.simulateStatus(record.sid, 'sent');
+      await this.simulateStatus(record.sid, 'delivered');
+    }
+
+    return { sid: record.sid, status: 'queued' };
+  }
+
+  /**
+   * Advance a recorded message to a new status and emit the receipt
+   * Twilio would have posted to the status callback.
+   */
+  async simulateStatus(
+    sid: string,
+    status: TwilioMessageStatus,
+    errorCode?: string
+  ): Promise<TwilioMessageStatusPayload> {
+    const record = this.sent.find((m) => m.sid === sid);
+    if (!record) {
+      throw new Error(`Loopback transport has no message with sid ${sid}`);
+    }
+
+    record.status = status;
+    record.errorCode = errorCode;
+
+    const payload: TwilioMessageStatusPayload = {
+      MessageSid: record.sid,
+      SmsSid: record.sid,
+      AccountSid: LOOPBACK_ACCOUNT_SID,
+      From: record.from,
+      To: record.to,
+      MessageStatus: status,
+      SmsStatus: status,
+      ...(errorCode && { ErrorCode: errorCode }),
+    };
+
+    this.receipts.push(payload);
+
+    for (const listener of this.listeners) {
+      await listener(payload);
+    }
+
+    return payload;
+  }
+
+  /**
+   * Register a listener for simulated delivery receipts
+   * (e.g. to POST them to /api/twilio/status via supertest)
+   */
+  onStatus(listener: LoopbackStatusListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  /**
+   * Make the next send() call throw (simulates a Twilio API error)
+   */
+  failNext(error: Error = new Error('Loopback simulated send failure')): void {
+    this.pendingFailures.push(error);
+  }
+
+  /**
+   * Build an inbound SMS webhook body as Twilio would post it to /api/twilio/sms
+   */
+  buildInboundSms(params: { from: string; to: string; body: string }): TwilioSMSPayload {
+    return {
+      MessageSid: generateSid('SM'),
+      AccountSid: LOOPBACK_ACCOUNT_SID,
+      From: params.from,
+      To: params.to,
+      Body: params.body,
+      NumMedia: '0',
+    };
+  }
+
+  sentTo(phone: string): LoopbackMessage[] {
+    return this.sent.filter((m) => m.to === phone);
+  }
+
+  last(): LoopbackMessage | undefined {
+    return this.sent[this.sent.length - 1];
+  }
+
+  reset(): void {
+    this.sent.length = 0;
+    this.receipts.length = 0;
+    this.pendingFailures = [];
+  }
+}
+
+const LOOPBACK_ACCOUNT_SID = 'AC' + '0'.repeat(32);
+
+function generateSid(prefix: string): string {
+  return prefix + crypto.randomBytes(16).toString('hex');
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//  TRANSPORT REGISTRY (SINGLETON)
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+let activeTransport: SmsTransport | null = null;
+
+/**
+ * Which transport SMS_TRANSPORT selects (defaults to twilio)
+ */
+export function getConfiguredTransportName(): SmsTransportName {
+  return process.env.SMS_TRANSPORT === 'loopback' ? 'loopback' : 'twilio';
+}
+
+/**
+ * Get the active SMS transport (lazily created from SMS_TRANSPORT)
+ */
+export function getSmsTransport(): SmsTransport {
+  if (!activeTransport) {
+    activeTransport =
+      getConfiguredTransportName() === 'loopback'
+        ? new LoopbackSmsTransport({ autoDeliver: process.env.SMS_LOOPBACK_AUTO_DELIVER === 'true' })
+        : new TwilioSmsTransport();
+
+    console.log(`📡 SMS transport initialized: ${activeTransport.name}`);
+  }
+
+  return activeTransport;
+}
+
+/**
+ * Override the active transport (tests, local harnesses).
+ * Pass null to fall back to SMS_TRANSPORT on next use.
+ */
+export function setSmsTransport(transport: SmsTransport | null): void {
+  activeTransport = transport;
+}
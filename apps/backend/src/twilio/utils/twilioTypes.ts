@@ -40,3 +40,27 @@ export interface TwilioVoicePayload {
   CallStatus: string;
   [key: string]: string | undefined;
 }
+
+export type TwilioMessageStatus =
+  | 'accepted'
+  | 'queued'
+  | 'sending'
+  | 'sent'
+  | 'delivered'
+  | 'undelivered'
+  | 'failed'
+  | 'received'
+  | 'read'
+  | 'canceled';
+
+export interface TwilioMessageStatusPayload {
+  MessageSid: string;
+  SmsSid?: string;
+  AccountSid: string;
+  From: string;
+  To: string;
+  MessageStatus: TwilioMessageStatus;
+  SmsStatus?: string;
+  ErrorCode?: string;
+  [key: string]: string | undefined;
+}
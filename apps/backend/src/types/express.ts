@@ -1,4 +1,31 @@
 import { Request } from 'express';
+import { ClientMemberRole } from '@prisma/client';
+import type { AdminPermission } from '../services/AdminApiKeyService';
+
+/**
+ * Tenant resolved from a client dashboard token (see middleware/tenant.ts)
+ */
+export interface TenantContext {
+  clientId: string;
+  source: 'USER' | 'IMPERSONATION';
+  // Team role inside this client (impersonating admins act as OWNER)
+  role: ClientMemberRole;
+  userId?: string;
+  adminId?: string;
+}
+
+/**
+ * Caller of an /api/admin route (see middleware/admin.ts)
+ */
+export interface AdminContext {
+  // ADMIN user id, or api_key:<AdminApiKey id>; recorded as AdminAction.adminId
+  id: string;
+  source: 'USER' | 'API_KEY';
+  permissions: AdminPermission[];
+  email?: string;
+  apiKeyId?: string;
+  apiKeyName?: string;
+}
 
 /**
  * Extended Express Request with user authentication
@@ -10,6 +37,8 @@ export interface AuthenticatedRequest extends Request {
     role: string;
     clientId?: string;
   };
+  tenant?: TenantContext;
+  admin?: AdminContext;
   isImpersonating?: boolean;
   impersonationToken?: string;
 }
@@ -17,6 +17,7 @@
 
 import { prisma } from "../db";
 import { BillingStatus, PaymentSource } from "@prisma/client";
+import { emitDomainEvent } from "../services/DomainEvents";
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 //  STATE TRANSITION GRAPH (CANONICAL)
@@ -252,6 +253,8 @@ export async function transitionBillingState(
       timestamp: timestamp.toISOString(),
     });
 
+    emitDomainEvent({ type: "billing.status_changed", clientId, fromStatus, toStatus, reason });
+
     return {
       success: true,
       fromStatus,
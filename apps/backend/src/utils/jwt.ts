@@ -42,3 +42,59 @@ export function verifyImpersonationToken(token: string): ImpersonationToken | nu
 export function isTokenExpired(token: ImpersonationToken): boolean {
   return Date.now() >= token.exp * 1000;
 }
+
+/**
+ * Dashboard login token (issued by /api/auth/login)
+ */
+export interface ClientUserToken {
+  id: string;
+  email: string;
+  role: string;
+  clientId?: string | null;
+  iat: number;
+  exp: number;
+}
+
+/**
+ * Verify a dashboard login token
+ */
+export function verifyClientUserToken(token: string): ClientUserToken | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as ClientUserToken;
+    return decoded;
+  } catch (error) {
+    console.error('JWT verification failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Distinguish an impersonation token from a login token without verifying it.
+ * Impersonation tokens carry adminId; login tokens carry a user id and role.
+ */
+export function isImpersonationPayload(token: string): boolean {
+  const decoded = jwt.decode(token);
+  return !!decoded && typeof decoded === 'object' && typeof decoded.adminId === 'string';
+}
+
+/**
+ * Generate a dashboard login token (7 days)
+ */
+export function generateClientUserToken(user: {
+  id: string;
+  email: string;
+  role: string;
+  clientId?: string | null;
+}): string {
+  return jwt.sign(
+    {
+      sub: user.id,
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      clientId: user.clientId,
+    },
+    JWT_SECRET,
+    { expiresIn: '7d' }
+  );
+}
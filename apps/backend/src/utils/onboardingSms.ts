@@ -10,7 +10,8 @@
  * Any attempt to call from voice logic or operational paths will throw an error.
  */
 
-import { getTwilioClient } from "../twilio/client";
+import { getSmsTransport } from "../twilio/transport";
+import { getMessageStatusCallbackUrl } from "../twilio/client";
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // ONBOARDING SMS ISOLATION GUARD
@@ -147,7 +148,7 @@ This error will crash the application to prevent incorrect behavior.
     throw new Error("TWILIO_NUMBER not configured");
   }
 
-  const client = getTwilioClient();
+  const transport = getSmsTransport();
 
   console.log("ONBOARDING_SMS_SENT", {
     to,
@@ -163,9 +164,9 @@ This error will crash the application to prevent incorrect behavior.
   console.error("🚨 STACK TRACE:", new Error().stack);
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-  const message = await client.messages.create({
+  const message = await transport.send({
     to,
-    from: twilioNumber,
+    from: twilioNumber!,
     body: ONBOARDING_MESSAGE,
   });
 
@@ -215,7 +216,7 @@ export async function sendCustomerMissedCallSms(
     throw new Error("Business name is required for customer SMS");
   }
 
-  const client = getTwilioClient();
+  const transport = getSmsTransport();
   const messageBody = getCustomerMissedCallMessage(businessName);
 
   console.log("CUSTOMER_MISSED_CALL_SMS_SENT", {
@@ -234,10 +235,11 @@ export async function sendCustomerMissedCallSms(
   console.error("🚨 STACK TRACE:", new Error().stack);
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-  const message = await client.messages.create({
+  const message = await transport.send({
     to,
     from,
     body: messageBody,
+    statusCallback: getMessageStatusCallbackUrl(),
   });
 
   console.log(`✅ Customer missed call SMS sent to ${to} (SID: ${message.sid})`);
@@ -1,5 +1,6 @@
-import { Customer } from "@prisma/client";
+import { Customer, Prisma } from "@prisma/client";
 import { prisma } from "../db";
+import { emitDomainEvent } from "../services/DomainEvents";
 
 export interface ResolveCustomerParams {
   clientId: string;
@@ -11,24 +12,40 @@ export async function resolveCustomer(params: ResolveCustomerParams): Promise<Cu
   const { clientId, phone, name } = params;
 
   const normalizedPhone = phone.trim();
+  const where = { clientId_phone: { clientId, phone: normalizedPhone } };
 
-  const customer = await prisma.customer.upsert({
-    where: {
-      clientId_phone: {
+  const existing = await prisma.customer.findUnique({ where });
+  if (existing) {
+    const customer =
+      name && name.trim()
+        ? await prisma.customer.update({ where: { id: existing.id }, data: { name: name.trim() } })
+        : existing;
+
+    console.log(`✅ Resolved customer: ${customer.id} (${customer.state})`);
+    return customer;
+  }
+
+  let customer: Customer;
+  try {
+    customer = await prisma.customer.create({
+      data: {
         clientId,
         phone: normalizedPhone,
+        name: name?.trim() || null,
+        state: "NEW",
       },
-    },
-    update: name && name.trim() ? { name: name.trim() } : {},
-    create: {
-      clientId,
-      phone: normalizedPhone,
-      name: name?.trim() || null,
-      state: "NEW",
-    },
-  });
-
-  console.log(`✅ Resolved customer: ${customer.id} (${customer.state})`);
+    });
+  } catch (error) {
+    // Created by a concurrent webhook for the same number
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return prisma.customer.findUniqueOrThrow({ where });
+    }
+    throw error;
+  }
+
+  console.log(`✅ Resolved customer: ${customer.id} (${customer.state}, new)`);
+
+  emitDomainEvent({ type: "customer.created", clientId, customerId: customer.id, phone: normalizedPhone });
 
   return customer;
 }
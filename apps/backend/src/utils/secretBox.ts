@@ -0,0 +1,43 @@
+import crypto from 'crypto';
+
+/**
+ * Reversible encryption for third-party credentials we must replay (e.g.
+ * CalDAV passwords). AES-256-GCM keyed by CREDENTIALS_ENCRYPTION_KEY, falling
+ * back to JWT_SECRET so local setups work without extra config.
+ *
+ * Format: v1:<iv>:<auth tag>:<ciphertext>, all base64
+ */
+
+const VERSION = 'v1';
+
+function getKey(): Buffer {
+  const secret =
+    process.env.CREDENTIALS_ENCRYPTION_KEY || process.env.JWT_SECRET || 'jobrun-secret-key-change-in-production';
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+/**
+ * Returns null if the value was encrypted with a different key or is corrupt
+ */
+export function decryptSecret(value: string): string | null {
+  const [version, iv, tag, ciphertext] = value.split(':');
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    return null;
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', getKey(), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+  } catch {
+    return null;
+  }
+}
@@ -1,12 +1,16 @@
 import { ImpersonateClient } from "@/components/impersonate/ImpersonateClient";
 import Link from "next/link";
 import { notFound } from "next/navigation";
+import { serverAdminAuthHeaders } from "@/lib/admin-auth-server";
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
 
 async function safeGet(url: string, fallback: any) {
   try {
-    const res = await fetch(`${API_BASE_URL}${url}`, { cache: "no-store" });
+    const res = await fetch(`${API_BASE_URL}${url}`, {
+      cache: "no-store",
+      headers: await serverAdminAuthHeaders(),
+    });
     if (!res.ok) return fallback;
     const response = await res.json();
     return response?.data ?? response ?? fallback;
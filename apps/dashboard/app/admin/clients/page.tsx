@@ -1,11 +1,13 @@
 import Link from "next/link";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { serverAdminAuthHeaders } from "@/lib/admin-auth-server";
 
 async function getClients() {
   try {
     const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/admin/clients`, {
       cache: "no-store",
+      headers: await serverAdminAuthHeaders(),
     });
 
     if (!res.ok) return [];
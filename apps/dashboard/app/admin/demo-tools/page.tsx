@@ -1,6 +1,7 @@
 import { GenerateDemoButton } from "@/components/admin/demo/GenerateDemoButton";
 import { WipeDemoButton } from "@/components/admin/demo/WipeDemoButton";
 import Link from "next/link";
+import { serverAdminAuthHeaders } from "@/lib/admin-auth-server";
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
 
@@ -8,6 +9,7 @@ async function safeGet<T>(endpoint: string, fallback: T): Promise<T> {
   try {
     const res = await fetch(`${API_BASE_URL}${endpoint}`, {
       cache: "no-store",
+      headers: await serverAdminAuthHeaders(),
     });
     if (!res.ok) return fallback;
     const response = await res.json();
@@ -1,4 +1,5 @@
 import { Badge } from "@/components/ui/badge";
+import { serverAdminAuthHeaders } from "@/lib/admin-auth-server";
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
 
@@ -17,7 +18,10 @@ type MessageType = {
 
 async function safeGet(url: string, fallback: any) {
   try {
-    const res = await fetch(`${API_BASE_URL}${url}`, { cache: "no-store" });
+    const res = await fetch(`${API_BASE_URL}${url}`, {
+      cache: "no-store",
+      headers: await serverAdminAuthHeaders(),
+    });
     if (!res.ok) return fallback;
     const response = await res.json();
     return response?.data ?? response ?? fallback;
@@ -1,6 +1,8 @@
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import Link from "next/link";
+import { redirect } from "next/navigation";
+import { hasServerAdminToken, serverAdminAuthHeaders } from "@/lib/admin-auth-server";
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
 
@@ -45,6 +47,7 @@ async function safeGet<T>(endpoint: string, fallback: T): Promise<T> {
   try {
     const res = await fetch(`${API_BASE_URL}${endpoint}`, {
       cache: "no-store",
+      headers: await serverAdminAuthHeaders(),
     });
     if (!res.ok) return fallback;
     const response = await res.json();
@@ -84,6 +87,10 @@ const DEFAULT_STATS: AdminDashboardStats = {
 };
 
 export default async function AdminHomePage() {
+  if (!(await hasServerAdminToken())) {
+    redirect("/admin/sign-in");
+  }
+
   const response = await safeGet<AdminDashboardStats>(
     "/api/admin/dashboard/stats",
     DEFAULT_STATS
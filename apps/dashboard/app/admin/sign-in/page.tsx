@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { setBrowserAdminToken } from "@/lib/admin-auth";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+
+// Matches the backend login token lifetime
+const LOGIN_TOKEN_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+export default function AdminSignInPage() {
+  const router = useRouter();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`${API_BASE_URL}/api/auth/login`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password }),
+      });
+      const response = await res.json().catch(() => null);
+
+      if (!res.ok) {
+        setError(response?.error?.message || "Sign-in failed");
+        return;
+      }
+
+      const data = response?.data ?? response;
+
+      // The admin API checks the role too; this just says so up front
+      if (data.user.role !== "ADMIN") {
+        setError("This account is not an admin");
+        return;
+      }
+
+      setBrowserAdminToken(data.token, LOGIN_TOKEN_MAX_AGE_SECONDS);
+      router.push("/admin");
+      router.refresh();
+    } catch (err) {
+      setError("An error occurred. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-full p-6">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-md bg-white dark:bg-jobrun-grey-dark rounded-xl shadow-card p-8 space-y-6"
+      >
+        <div>
+          <h1 className="page-title">Admin sign-in</h1>
+          <p className="page-subtitle">Sign in with an admin account to manage clients.</p>
+        </div>
+
+        {error && (
+          <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 border border-red-200 dark:border-red-800">
+            {error}
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-semibold text-jobrun-black dark:text-jobrun-grey-light mb-2">
+            Email
+          </label>
+          <input
+            type="email"
+            required
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-jobrun-black dark:text-jobrun-grey-light focus:ring-2 focus:ring-jobrun-green focus:border-transparent transition-all"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-semibold text-jobrun-black dark:text-jobrun-grey-light mb-2">
+            Password
+          </label>
+          <input
+            type="password"
+            required
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-jobrun-black dark:text-jobrun-grey-light focus:ring-2 focus:ring-jobrun-green focus:border-transparent transition-all"
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full px-6 py-3 jobrun-gradient text-white rounded-lg font-semibold hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {submitting ? "Signing in..." : "Sign in"}
+        </button>
+      </form>
+    </div>
+  );
+}
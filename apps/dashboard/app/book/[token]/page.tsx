@@ -0,0 +1,204 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState, use } from "react";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+
+interface Slot {
+  start: string;
+  end: string;
+}
+
+interface BookingPage {
+  businessName: string;
+  timeZone: string;
+  customerName: string | null;
+  jobType: string;
+  location: string;
+  expiresAt: string;
+  slots: Slot[];
+  booking: Slot | null;
+}
+
+function formatDay(iso: string, timeZone: string): string {
+  return new Date(iso).toLocaleDateString("en-GB", { timeZone, weekday: "long", day: "numeric", month: "long" });
+}
+
+function formatTime(iso: string, timeZone: string): string {
+  return new Date(iso).toLocaleTimeString("en-GB", { timeZone, hour: "numeric", minute: "2-digit" });
+}
+
+export default function SelfServiceBookingPage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = use(params);
+  const [page, setPage] = useState<BookingPage | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPage = useCallback(async () => {
+    try {
+      const res = await fetch(`${API_BASE_URL}/api/booking-page/${token}`, { cache: "no-store" });
+      const response = await res.json().catch(() => null);
+
+      if (res.ok) {
+        setPage(response?.data ?? response);
+      } else {
+        setLoadError(response?.error?.message || "This booking link is invalid.");
+      }
+    } catch (err) {
+      console.error("Failed to load booking page:", err);
+      setLoadError("We couldn't load your booking page. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchPage();
+  }, [fetchPage]);
+
+  // Slots grouped by day in the business's time zone
+  const days = useMemo(() => {
+    if (!page) return [];
+
+    const groups = new Map<string, Slot[]>();
+    for (const slot of page.slots) {
+      const day = formatDay(slot.start, page.timeZone);
+      groups.set(day, [...(groups.get(day) ?? []), slot]);
+    }
+    return Array.from(groups.entries());
+  }, [page]);
+
+  const handleBook = async () => {
+    if (!selected) return;
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`${API_BASE_URL}/api/booking-page/${token}/book`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ start: selected }),
+      });
+      const response = await res.json().catch(() => null);
+
+      if (!res.ok) {
+        setError(response?.error?.message || "Failed to make your booking. Please try again.");
+        // Someone may have taken the slot; show what's still free
+        setSelected(null);
+        await fetchPage();
+        return;
+      }
+
+      await fetchPage();
+    } catch (err) {
+      setError("An error occurred. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="h-8 w-8 border-4 border-jobrun-green border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!page) {
+    return (
+      <div className="flex items-center justify-center min-h-screen p-6">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-jobrun-black dark:text-jobrun-grey-light mb-2">
+            Booking link unavailable
+          </h2>
+          <p className="text-jobrun-grey">
+            {loadError} Reply to our text and we&apos;ll send you a new one.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex justify-center min-h-screen bg-jobrun-grey-light dark:bg-jobrun-black p-6">
+      <div className="w-full max-w-lg bg-white dark:bg-jobrun-grey-dark rounded-xl shadow-card p-8 space-y-6 self-start">
+        <div>
+          <h1 className="page-title">Book with {page.businessName}</h1>
+          <p className="page-subtitle">
+            {page.customerName ? `Hi ${page.customerName}, ` : ""}
+            {page.jobType ? `pick a time for your ${page.jobType}` : "pick a time that suits you"}
+            {page.location ? ` at ${page.location}` : ""}.
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 border border-red-200 dark:border-red-800">
+            {error}
+          </div>
+        )}
+
+        {page.booking ? (
+          <div className="p-4 rounded-lg bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200 border border-green-200 dark:border-green-800">
+            <p className="font-semibold">You&apos;re booked in</p>
+            <p className="text-sm mt-1">
+              {formatDay(page.booking.start, page.timeZone)}, {formatTime(page.booking.start, page.timeZone)} –{" "}
+              {formatTime(page.booking.end, page.timeZone)}. We&apos;ve texted you a confirmation.
+            </p>
+          </div>
+        ) : days.length === 0 ? (
+          <p className="text-jobrun-grey">
+            There are no free times in the next two weeks. Reply to our text and we&apos;ll find a time with you.
+          </p>
+        ) : (
+          <>
+            <div className="space-y-5">
+              {days.map(([day, slots]) => (
+                <div key={day}>
+                  <h3 className="text-sm font-semibold text-jobrun-black dark:text-jobrun-grey-light mb-2">{day}</h3>
+                  <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                    {slots.map((slot) => (
+                      <button
+                        key={slot.start}
+                        type="button"
+                        onClick={() => setSelected(slot.start)}
+                        className={`px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                          selected === slot.start
+                            ? "border-jobrun-green bg-jobrun-green text-white"
+                            : "border-gray-300 dark:border-gray-600 text-jobrun-black dark:text-jobrun-grey-light hover:border-jobrun-green"
+                        }`}
+                      >
+                        {formatTime(slot.start, page.timeZone)}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <button
+              type="button"
+              onClick={handleBook}
+              disabled={!selected || submitting}
+              className="w-full px-6 py-3 jobrun-gradient text-white rounded-lg font-semibold hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {submitting
+                ? "Booking..."
+                : selected
+                  ? `Book ${formatDay(selected, page.timeZone)} at ${formatTime(selected, page.timeZone)}`
+                  : "Choose a time"}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
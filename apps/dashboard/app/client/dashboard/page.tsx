@@ -3,6 +3,7 @@ import { Funnel } from "@/components/client/dashboard/Funnel";
 import { RecentMessagesList } from "@/components/client/dashboard/RecentMessagesList";
 import { ActivityFeed } from "@/components/client/dashboard/ActivityFeed";
 import Link from "next/link";
+import { serverClientAuthHeaders } from "@/lib/client-auth-server";
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
 
@@ -14,6 +15,7 @@ async function safeGet<T>(url: string, fallback: T): Promise<T> {
   try {
     const res = await fetch(`${API_BASE_URL}${url}`, {
       cache: "no-store",
+      headers: await serverClientAuthHeaders(),
     });
     if (!res.ok) return fallback;
     const response = await res.json();
@@ -3,33 +3,71 @@
 import { useSearchParams } from "next/navigation";
 import Link from "next/link";
 import { ThemeToggle } from "@/components/ui/theme-toggle";
-import { useEffect, useState } from "react";
+import { useEffect } from "react";
+import { ClientSessionProvider, useClientSession } from "@/context/client-session";
+import { RealtimeProvider } from "@/context/realtime";
+import { clientAuthHeaders } from "@/lib/client-auth";
 
-interface ClientSession {
-  clientId: string;
-  businessName: string;
-  timezone: string;
-  isImpersonating?: boolean;
-}
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
 
 export default function ClientLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <ClientSessionProvider>
+      <RealtimeProvider>
+        <ClientLayoutShell>{children}</ClientLayoutShell>
+      </RealtimeProvider>
+    </ClientSessionProvider>
+  );
+}
+
+function ClientLayoutShell({ children }: { children: React.ReactNode }) {
   const searchParams = useSearchParams();
-  const [session, setSession] = useState<ClientSession | null>(null);
+  const { session, setSession, can } = useClientSession();
 
   useEffect(() => {
     const sessionData = searchParams.get("session");
     const clientId = searchParams.get("clientId");
 
-    if (sessionData && clientId) {
+    if (!clientId) return;
+
+    let baseSession = {
+      clientId,
+      businessName: "Client",
+      timezone: "UTC",
+      twilioNumber: null,
+      region: "",
+      phoneNumber: null,
+      isImpersonating: false,
+    };
+
+    if (sessionData) {
       try {
-        const parsedSession = JSON.parse(decodeURIComponent(sessionData));
-        setSession(parsedSession);
+        baseSession = { ...baseSession, ...JSON.parse(decodeURIComponent(sessionData)) };
       } catch (error) {
         console.error("Failed to parse session:", error);
       }
-    } else if (clientId) {
-      setSession({ clientId, businessName: "Client", timezone: "UTC" });
     }
+
+    setSession({ ...baseSession, userId: null, role: null, permissions: [] });
+
+    // Team role decides which sections and actions are available
+    fetch(`${API_BASE_URL}/api/client/team/me?clientId=${clientId}`, {
+      cache: "no-store",
+      headers: clientAuthHeaders(),
+    })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((response) => {
+        const me = response?.data ?? response;
+        if (!me?.role) return;
+        setSession({
+          ...baseSession,
+          isImpersonating: me.isImpersonating,
+          userId: me.userId,
+          role: me.role,
+          permissions: me.permissions,
+        });
+      })
+      .catch((error) => console.error("Failed to load team role:", error));
   }, [searchParams]);
 
   const clientId = session?.clientId || searchParams.get("clientId");
@@ -49,29 +87,36 @@ export default function ClientLayout({ children }: { children: React.ReactNode }
               {session.businessName}
             </p>
           )}
+          {session?.role && !session.isImpersonating && (
+            <p className="text-xs text-jobrun-grey mt-1">
+              {session.role.replace("_", " ").toLowerCase()}
+            </p>
+          )}
         </div>
 
         <nav className="space-y-2 flex-1">
-          <Link
-            href={`/client/dashboard${clientId ? `?clientId=${clientId}` : ""}`}
-            className="flex items-center gap-2 p-3 rounded-lg hover:bg-green-50 dark:hover:bg-gray-700 hover:text-jobrun-green font-medium transition-all duration-200 text-jobrun-grey-dark dark:text-jobrun-grey-light"
-          >
-            <svg
-              xmlns="http://www.w3.org/2000/svg"
-              className="h-5 w-5"
-              fill="none"
-              viewBox="0 0 24 24"
-              stroke="currentColor"
+          {can("DASHBOARD_READ") && (
+            <Link
+              href={`/client/dashboard${clientId ? `?clientId=${clientId}` : ""}`}
+              className="flex items-center gap-2 p-3 rounded-lg hover:bg-green-50 dark:hover:bg-gray-700 hover:text-jobrun-green font-medium transition-all duration-200 text-jobrun-grey-dark dark:text-jobrun-grey-light"
             >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6"
-              />
-            </svg>
-            Dashboard
-          </Link>
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="h-5 w-5"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6"
+                />
+              </svg>
+              Dashboard
+            </Link>
+          )}
 
           <Link
             href={`/client/leads${clientId ? `?clientId=${clientId}` : ""}`}
@@ -115,53 +160,103 @@ export default function ClientLayout({ children }: { children: React.ReactNode }
             Messages
           </Link>
 
-          <button
-            disabled
-            className="flex items-center gap-2 w-full p-3 rounded-lg text-jobrun-grey cursor-not-allowed opacity-50"
-          >
-            <svg
-              xmlns="http://www.w3.org/2000/svg"
-              className="h-5 w-5"
-              fill="none"
-              viewBox="0 0 24 24"
-              stroke="currentColor"
+          {can("SCHEDULE_READ") && (
+            <Link
+              href={`/client/schedule${clientId ? `?clientId=${clientId}` : ""}`}
+              className="flex items-center gap-2 p-3 rounded-lg hover:bg-green-50 dark:hover:bg-gray-700 hover:text-jobrun-green font-medium transition-all duration-200 text-jobrun-grey-dark dark:text-jobrun-grey-light"
             >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
-              />
-            </svg>
-            Calendar
-          </button>
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="h-5 w-5"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
+                />
+              </svg>
+              Schedule
+            </Link>
+          )}
 
-          <Link
-            href={`/client/settings${clientId ? `?clientId=${clientId}` : ""}`}
-            className="flex items-center gap-2 p-3 rounded-lg hover:bg-green-50 dark:hover:bg-gray-700 hover:text-jobrun-green font-medium transition-all duration-200 text-jobrun-grey-dark dark:text-jobrun-grey-light"
-          >
-            <svg
-              xmlns="http://www.w3.org/2000/svg"
-              className="h-5 w-5"
-              fill="none"
-              viewBox="0 0 24 24"
-              stroke="currentColor"
+          {can("AGENTS_APPROVE") && (
+            <Link
+              href={`/client/approvals${clientId ? `?clientId=${clientId}` : ""}`}
+              className="flex items-center gap-2 p-3 rounded-lg hover:bg-green-50 dark:hover:bg-gray-700 hover:text-jobrun-green font-medium transition-all duration-200 text-jobrun-grey-dark dark:text-jobrun-grey-light"
             >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"
-              />
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
-              />
-            </svg>
-            Settings
-          </Link>
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="h-5 w-5"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z"
+                />
+              </svg>
+              Approvals
+            </Link>
+          )}
+
+          {can("TEAM_READ") && (
+            <Link
+              href={`/client/team${clientId ? `?clientId=${clientId}` : ""}`}
+              className="flex items-center gap-2 p-3 rounded-lg hover:bg-green-50 dark:hover:bg-gray-700 hover:text-jobrun-green font-medium transition-all duration-200 text-jobrun-grey-dark dark:text-jobrun-grey-light"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="h-5 w-5"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z"
+                />
+              </svg>
+              Team
+            </Link>
+          )}
+
+          {can("SETTINGS_READ") && (
+            <Link
+              href={`/client/settings${clientId ? `?clientId=${clientId}` : ""}`}
+              className="flex items-center gap-2 p-3 rounded-lg hover:bg-green-50 dark:hover:bg-gray-700 hover:text-jobrun-green font-medium transition-all duration-200 text-jobrun-grey-dark dark:text-jobrun-grey-light"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="h-5 w-5"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"
+                />
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
+                />
+              </svg>
+              Settings
+            </Link>
+          )}
         </nav>
 
         {session?.isImpersonating && (
@@ -1,9 +1,10 @@
 import { LeadStateBadge } from "@/components/client/LeadStateBadge";
-import { MessageList } from "@/components/client/messages/MessageList";
-import { MessageInput } from "@/components/client/messages/MessageInput";
+import { LiveConversation } from "@/components/client/messages/LiveConversation";
+import type { Message } from "@/components/client/messages/MessageList";
 import { TimelineList } from "@/components/client/timeline/TimelineList";
 import Link from "next/link";
 import { notFound } from "next/navigation";
+import { serverClientAuthHeaders } from "@/lib/client-auth-server";
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
 
@@ -17,9 +18,6 @@ type LeadState =
   | "CONVERTED"
   | "LOST";
 
-type MessageDirection = "INBOUND" | "OUTBOUND" | "AI";
-type MessageType = "SMS" | "WHATSAPP" | "CALL" | "AI_NOTE";
-
 interface Lead {
   id: string;
   name: string;
@@ -36,15 +34,6 @@ interface Lead {
   updatedAt: string;
 }
 
-interface Message {
-  id: string;
-  direction: MessageDirection;
-  type: MessageType;
-  body: string;
-  createdAt: string;
-  isRead: boolean;
-}
-
 interface TimelineEvent {
   id: string;
   type: string;
@@ -62,6 +51,7 @@ async function safeGet<T>(url: string, fallback: T): Promise<T> {
   try {
     const res = await fetch(`${API_BASE_URL}${url}`, {
       cache: "no-store",
+      headers: await serverClientAuthHeaders(),
     });
     if (!res.ok) return fallback;
     const response = await res.json();
@@ -210,8 +200,7 @@ export default async function LeadDetailPage({
         <div className="flex-1 flex flex-col overflow-hidden">
           {tab === "messages" && (
             <>
-              <MessageList messages={messages} />
-              <MessageInput leadId={id} clientId={clientId} />
+              <LiveConversation leadId={id} clientId={clientId} initialMessages={messages} />
             </>
           )}
 
@@ -1,32 +1,10 @@
-import { LeadRow } from "@/components/client/LeadRow";
+import { LiveLeadList } from "@/components/client/LiveLeadList";
+import type { Lead } from "@/components/client/LeadRow";
 import Link from "next/link";
+import { serverClientAuthHeaders } from "@/lib/client-auth-server";
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
 
-type LeadState =
-  | "NEW"
-  | "POST_CALL"
-  | "POST_CALL_REPLIED"
-  | "CUSTOMER_REPLIED"
-  | "QUALIFIED"
-  | "BOOKED"
-  | "CONVERTED"
-  | "LOST";
-
-interface Lead {
-  id: string;
-  name: string;
-  phone: string;
-  latestMessage: string;
-  latestTimestamp: string;
-  state: LeadState;
-  urgency: "HIGH" | "NORMAL";
-  jobType: string;
-  hasUnread: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
-
 interface SearchParams {
   clientId?: string;
   state?: string;
@@ -36,6 +14,7 @@ async function safeGet<T>(url: string, fallback: T): Promise<T> {
   try {
     const res = await fetch(`${API_BASE_URL}${url}`, {
       cache: "no-store",
+      headers: await serverClientAuthHeaders(),
     });
     if (!res.ok) return fallback;
     const response = await res.json();
@@ -100,7 +79,7 @@ export default async function ClientLeadsPage({
         <p className="page-subtitle">Manage and track your customer interactions</p>
       </div>
 
-      <div className="bg-white dark:bg-jobrun-grey-dark rounded-xl shadow-card overflow-hidden">
+      <LiveLeadList initialLeads={leads} clientId={clientId} activeState={activeState}>
         <div className="border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 px-6 py-4">
           <div className="flex items-center gap-2 overflow-x-auto">
             {states.map((state) => {
@@ -127,48 +106,7 @@ export default async function ClientLeadsPage({
             })}
           </div>
         </div>
-
-        <div className="divide-y divide-gray-200 dark:divide-gray-700">
-          {leads.length === 0 ? (
-            <div className="p-12 text-center">
-              <div className="h-16 w-16 rounded-full bg-green-50 dark:bg-gray-800 flex items-center justify-center mx-auto mb-4">
-                <svg
-                  xmlns="http://www.w3.org/2000/svg"
-                  className="h-8 w-8 text-jobrun-green"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  stroke="currentColor"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z"
-                  />
-                </svg>
-              </div>
-              <h3 className="text-lg font-semibold text-jobrun-black dark:text-jobrun-grey-light mb-2">
-                No leads found
-              </h3>
-              <p className="text-sm text-jobrun-grey">
-                {activeState === "ALL"
-                  ? "No leads have been created yet."
-                  : `No leads in "${activeState}" state.`}
-              </p>
-            </div>
-          ) : (
-            leads.map((lead) => <LeadRow key={lead.id} lead={lead} />)
-          )}
-        </div>
-      </div>
-
-      {leads.length > 0 && (
-        <div className="flex items-center justify-between px-6 py-4 bg-white dark:bg-jobrun-grey-dark rounded-xl shadow-card">
-          <p className="text-sm text-jobrun-grey">
-            Showing <span className="font-semibold text-jobrun-black dark:text-jobrun-grey-light">{leads.length}</span> lead{leads.length !== 1 ? "s" : ""}
-          </p>
-        </div>
-      )}
+      </LiveLeadList>
     </div>
   );
 }
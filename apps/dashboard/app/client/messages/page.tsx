@@ -1,35 +1,9 @@
-import { MessageThreadRow } from "@/components/client/messages/MessageThreadRow";
+import { LiveMessageThreads } from "@/components/client/messages/LiveMessageThreads";
+import type { MessageThread } from "@/components/client/messages/MessageThreadRow";
+import { serverClientAuthHeaders } from "@/lib/client-auth-server";
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
 
-type LeadState =
-  | "NEW"
-  | "POST_CALL"
-  | "POST_CALL_REPLIED"
-  | "CUSTOMER_REPLIED"
-  | "QUALIFIED"
-  | "BOOKED"
-  | "CONVERTED"
-  | "LOST";
-
-type MessageDirection = "INBOUND" | "OUTBOUND" | "AI";
-
-interface MessageThread {
-  leadId: string;
-  name: string;
-  phone: string;
-  state: LeadState;
-  jobType: string;
-  latestMessage: {
-    id: string;
-    direction: MessageDirection;
-    body: string;
-    createdAt: string;
-  };
-  hasUnread: boolean;
-  updatedAt: string;
-}
-
 interface SearchParams {
   clientId?: string;
   filter?: string;
@@ -39,6 +13,7 @@ async function safeGet<T>(url: string, fallback: T): Promise<T> {
   try {
     const res = await fetch(`${API_BASE_URL}${url}`, {
       cache: "no-store",
+      headers: await serverClientAuthHeaders(),
     });
     if (!res.ok) return fallback;
     const response = await res.json();
@@ -112,48 +87,7 @@ export default async function ClientMessagesPage({
         </div>
       </div>
 
-      {threads.length === 0 ? (
-        <div className="bg-white dark:bg-jobrun-grey-dark rounded-xl shadow-card p-12">
-          <div className="text-center">
-            <div className="h-16 w-16 rounded-full bg-green-50 dark:bg-gray-800 flex items-center justify-center mx-auto mb-4">
-              <svg
-                xmlns="http://www.w3.org/2000/svg"
-                className="h-8 w-8 text-jobrun-green"
-                fill="none"
-                viewBox="0 0 24 24"
-                stroke="currentColor"
-              >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z"
-                />
-              </svg>
-            </div>
-            <h3 className="text-lg font-semibold text-jobrun-black dark:text-jobrun-grey-light mb-2">
-              No messages found
-            </h3>
-            <p className="text-sm text-jobrun-grey">
-              {filter === "UNREAD"
-                ? "You're all caught up! No unread messages."
-                : filter === "INBOUND"
-                ? "No inbound messages at the moment."
-                : "Start conversations with your leads to see messages here."}
-            </p>
-          </div>
-        </div>
-      ) : (
-        <div className="bg-white dark:bg-jobrun-grey-dark rounded-xl shadow-card overflow-hidden">
-          {threads.map((thread) => (
-            <MessageThreadRow
-              key={thread.leadId}
-              thread={thread}
-              clientId={clientId}
-            />
-          ))}
-        </div>
-      )}
+      <LiveMessageThreads initialThreads={threads} clientId={clientId} filter={filter} />
     </div>
   );
 }
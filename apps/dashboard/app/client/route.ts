@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CLIENT_TOKEN_COOKIE } from "@/lib/client-auth";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+
+// Matches the backend impersonation token lifetime
+const IMPERSONATION_TOKEN_MAX_AGE_SECONDS = 15 * 60;
+
+/**
+ * GET /client?impersonate=TOKEN
+ *
+ * Validates the impersonation token, stores it for /api/client/* calls and
+ * redirects into the client dashboard.
+ */
+export async function GET(request: NextRequest) {
+  const impersonateToken = request.nextUrl.searchParams.get("impersonate");
+
+  if (!impersonateToken) {
+    return NextResponse.redirect(new URL("/sign-in", request.url));
+  }
+
+  const failed = () =>
+    NextResponse.redirect(new URL("/admin?error=impersonation_failed", request.url));
+
+  try {
+    const response = await fetch(
+      `${API_BASE_URL}/api/impersonate/validate?token=${encodeURIComponent(impersonateToken)}`,
+      {
+        cache: "no-store",
+      }
+    );
+
+    if (!response.ok) {
+      return failed();
+    }
+
+    const data = await response.json();
+    const validatedData = data.data || data;
+
+    if (!validatedData.success && !validatedData.clientId) {
+      return failed();
+    }
+
+    const clientId = validatedData.clientId;
+    const client = validatedData.client;
+
+    const destination = new URL(
+      `/client/dashboard?clientId=${clientId}&session=${encodeURIComponent(
+        JSON.stringify({
+          clientId: client.id,
+          businessName: client.businessName,
+          timezone: client.timezone,
+          twilioNumber: client.twilioNumber,
+          region: client.region,
+          phoneNumber: client.phoneNumber,
+          isImpersonating: true,
+        })
+      )}`,
+      request.url
+    );
+
+    const redirect = NextResponse.redirect(destination);
+
+    // Not httpOnly: client components forward it from the browser
+    redirect.cookies.set(CLIENT_TOKEN_COOKIE, impersonateToken, {
+      path: "/",
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: IMPERSONATION_TOKEN_MAX_AGE_SECONDS,
+    });
+
+    return redirect;
+  } catch (error) {
+    console.error("Impersonation validation error:", error);
+    return failed();
+  }
+}
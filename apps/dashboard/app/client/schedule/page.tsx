@@ -0,0 +1,39 @@
+import { ResourceSchedule } from "@/components/client/schedule/ResourceSchedule";
+
+interface SearchParams {
+  clientId?: string;
+}
+
+export default async function ClientSchedulePage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const { clientId } = await searchParams;
+
+  if (!clientId) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-jobrun-black dark:text-jobrun-grey-light mb-2">
+            Missing Client ID
+          </h2>
+          <p className="text-jobrun-grey">
+            Please access this page through the client dashboard.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="page-title">Schedule</h1>
+        <p className="page-subtitle">Jobs per technician and van for the day</p>
+      </div>
+
+      <ResourceSchedule clientId={clientId} />
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import { useEffect, useState, use } from "react";
+import { useRouter } from "next/navigation";
+import { setBrowserClientToken } from "@/lib/client-auth";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+
+// Matches the backend login token lifetime
+const LOGIN_TOKEN_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+interface InvitationPreview {
+  email: string;
+  role: string;
+  expiresAt: string;
+  client: { id: string; businessName: string };
+  hasAccount: boolean;
+}
+
+export default function AcceptInvitationPage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = use(params);
+  const router = useRouter();
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchInvitation() {
+      try {
+        const res = await fetch(`${API_BASE_URL}/api/auth/invitations/${token}`, { cache: "no-store" });
+        if (res.ok) {
+          const response = await res.json();
+          setInvitation(response?.data ?? response);
+        }
+      } catch (err) {
+        console.error("Failed to load invitation:", err);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchInvitation();
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invitation) return;
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`${API_BASE_URL}/api/auth/invitations/${token}/accept`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: invitation.email, password }),
+      });
+      const response = await res.json().catch(() => null);
+
+      if (!res.ok) {
+        setError(response?.error?.message || "Failed to accept invitation");
+        return;
+      }
+
+      const data = response?.data ?? response;
+      setBrowserClientToken(data.token, LOGIN_TOKEN_MAX_AGE_SECONDS);
+
+      // Technicians have no dashboard overview; send them straight to leads
+      const landing = data.user.teamRole === "TECHNICIAN" ? "leads" : "dashboard";
+      router.push(`/client/${landing}?clientId=${invitation.client.id}`);
+    } catch (err) {
+      setError("An error occurred. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="h-8 w-8 border-4 border-jobrun-green border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!invitation) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-jobrun-black dark:text-jobrun-grey-light mb-2">
+            Invitation not found
+          </h2>
+          <p className="text-jobrun-grey">
+            This invitation is invalid or has expired. Ask the business owner to send a new one.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-jobrun-grey-light dark:bg-jobrun-black p-6">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-md bg-white dark:bg-jobrun-grey-dark rounded-xl shadow-card p-8 space-y-6"
+      >
+        <div>
+          <h1 className="page-title">Join {invitation.client.businessName}</h1>
+          <p className="page-subtitle">
+            You&apos;ve been invited as {invitation.role.replace("_", " ").toLowerCase()}.
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 border border-red-200 dark:border-red-800">
+            {error}
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-semibold text-jobrun-black dark:text-jobrun-grey-light mb-2">
+            Email
+          </label>
+          <input
+            type="email"
+            value={invitation.email}
+            readOnly
+            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-800 text-jobrun-grey"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-semibold text-jobrun-black dark:text-jobrun-grey-light mb-2">
+            {invitation.hasAccount ? "Your password" : "Choose a password"}
+          </label>
+          <input
+            type="password"
+            required
+            minLength={8}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-jobrun-black dark:text-jobrun-grey-light focus:ring-2 focus:ring-jobrun-green focus:border-transparent transition-all"
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full px-6 py-3 jobrun-gradient text-white rounded-lg font-semibold hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {submitting ? "Joining..." : "Accept invitation"}
+        </button>
+      </form>
+    </div>
+  );
+}
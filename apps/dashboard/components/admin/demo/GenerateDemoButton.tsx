@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
+import { adminAuthHeaders } from "@/lib/admin-auth";
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
 
@@ -17,7 +18,7 @@ export function GenerateDemoButton() {
     try {
       const res = await fetch(`${API_BASE_URL}/api/admin/demo/generate`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", ...adminAuthHeaders() },
       });
 
       const data = await res.json();
@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
+import { adminAuthHeaders } from "@/lib/admin-auth";
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
 
@@ -19,7 +20,7 @@ export function WipeDemoButton() {
     try {
       const res = await fetch(`${API_BASE_URL}/api/admin/demo/wipe`, {
         method: "DELETE",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", ...adminAuthHeaders() },
       });
 
       const data = await res.json();
@@ -12,7 +12,7 @@ type LeadState =
   | "CONVERTED"
   | "LOST";
 
-interface Lead {
+export interface Lead {
   id: string;
   name: string;
   phone: string;
@@ -22,6 +22,7 @@ interface Lead {
   urgency: "HIGH" | "NORMAL";
   jobType: string;
   hasUnread: boolean;
+  unreadCount?: number;
 }
 
 interface LeadRowProps {
@@ -75,6 +76,11 @@ export function LeadRow({ lead }: LeadRowProps) {
               {lead.hasUnread && (
                 <span className="flex-shrink-0 h-2 w-2 rounded-full bg-jobrun-green animate-pulse"></span>
               )}
+              {lead.unreadCount !== undefined && lead.unreadCount > 1 && (
+                <span className="flex-shrink-0 text-xs font-semibold text-jobrun-green">
+                  {lead.unreadCount} new
+                </span>
+              )}
               {lead.urgency === "HIGH" && (
                 <span className="flex-shrink-0 h-2 w-2 rounded-full bg-amber-500"></span>
               )}
@@ -0,0 +1,120 @@
+"use client";
+
+import React, { ReactNode, useCallback, useState } from "react";
+import { LeadRow, Lead } from "./LeadRow";
+import { LiveStatusBadge } from "./messages/LiveStatusBadge";
+import { useRealtime } from "@/context/realtime";
+import type { NewMessageEventData, RealtimeEvent } from "@/lib/realtime";
+import { clientAuthHeaders } from "@/lib/client-auth";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+
+interface LiveLeadListProps {
+  initialLeads: Lead[];
+  clientId: string;
+  activeState: string;
+  // State filter tabs, rendered at the top of the card
+  children?: ReactNode;
+}
+
+export function LiveLeadList({ initialLeads, clientId, activeState, children }: LiveLeadListProps) {
+  const [leads, setLeads] = useState(initialLeads);
+
+  const refetch = useCallback(async () => {
+    const stateQuery = activeState !== "ALL" ? `&state=${activeState}` : "";
+    try {
+      const res = await fetch(`${API_BASE_URL}/api/client/leads?clientId=${clientId}${stateQuery}`, {
+        cache: "no-store",
+        headers: clientAuthHeaders(),
+      });
+      if (!res.ok) return;
+      const response = await res.json();
+      setLeads(response?.data ?? []);
+    } catch (error) {
+      console.error("Error refreshing leads:", error);
+    }
+  }, [clientId, activeState]);
+
+  const status = useRealtime(["lead"], {
+    onEvent: (event: RealtimeEvent<NewMessageEventData>) => {
+      if (event.type !== "NEW_MESSAGE" || !event.data.customerId) return;
+
+      const message = event.data;
+      const inbound = message.direction === "INBOUND";
+      const existing = leads.find((lead) => lead.id === message.customerId);
+
+      // A lead we aren't showing yet, or an inbound reply that may have moved
+      // the lead into or out of the current state filter: let the server decide
+      if (!existing || (inbound && activeState !== "ALL")) {
+        refetch();
+        return;
+      }
+      if (existing.latestTimestamp === message.createdAt && existing.latestMessage === message.body) return;
+
+      const unreadCount = inbound ? (existing.unreadCount ?? 0) + 1 : 0;
+      const updated: Lead = {
+        ...existing,
+        latestMessage: message.body,
+        latestTimestamp: message.createdAt,
+        hasUnread: unreadCount > 0,
+        unreadCount,
+      };
+
+      setLeads((current) => [updated, ...current.filter((lead) => lead.id !== message.customerId)]);
+    },
+    onResync: refetch,
+  });
+
+  return (
+    <>
+      <div className="bg-white dark:bg-jobrun-grey-dark rounded-xl shadow-card overflow-hidden">
+        {children}
+
+        <div className="flex justify-end px-6 pt-4">
+          <LiveStatusBadge status={status} />
+        </div>
+
+        <div className="divide-y divide-gray-200 dark:divide-gray-700">
+          {leads.length === 0 ? (
+            <div className="p-12 text-center">
+              <div className="h-16 w-16 rounded-full bg-green-50 dark:bg-gray-800 flex items-center justify-center mx-auto mb-4">
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  className="h-8 w-8 text-jobrun-green"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z"
+                  />
+                </svg>
+              </div>
+              <h3 className="text-lg font-semibold text-jobrun-black dark:text-jobrun-grey-light mb-2">
+                No leads found
+              </h3>
+              <p className="text-sm text-jobrun-grey">
+                {activeState === "ALL"
+                  ? "No leads have been created yet."
+                  : `No leads in "${activeState}" state.`}
+              </p>
+            </div>
+          ) : (
+            leads.map((lead) => <LeadRow key={lead.id} lead={lead} />)
+          )}
+        </div>
+      </div>
+
+      {leads.length > 0 && (
+        <div className="flex items-center justify-between px-6 py-4 bg-white dark:bg-jobrun-grey-dark rounded-xl shadow-card">
+          <p className="text-sm text-jobrun-grey">
+            Showing <span className="font-semibold text-jobrun-black dark:text-jobrun-grey-light">{leads.length}</span> lead{leads.length !== 1 ? "s" : ""}
+          </p>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,297 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { clientAuthHeaders } from "@/lib/client-auth";
+import { useClientSession } from "@/context/client-session";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+
+type ProposalStatus = "PENDING" | "APPROVED" | "REJECTED" | "EXPIRED" | "FAILED";
+
+type ActionPolicy = "auto" | "review" | "never";
+
+interface ProposedAction {
+  type: string;
+  payload: Record<string, unknown>;
+}
+
+interface Proposal {
+  id: string;
+  createdAt: string;
+  agentName: string;
+  trigger: string;
+  status: ProposalStatus;
+  reason: "LOW_CONFIDENCE" | "POLICY";
+  confidence: number;
+  summary: string;
+  actions: ProposedAction[];
+  replyCode: string;
+  expiresAt: string;
+  decidedAt: string | null;
+  decidedVia: string | null;
+  edited: boolean;
+  error: string | null;
+}
+
+interface ApprovalQueueProps {
+  clientId: string;
+}
+
+const STATUS_STYLES: Record<ProposalStatus, string> = {
+  PENDING: "bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200",
+  APPROVED: "bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200",
+  REJECTED: "bg-gray-100 dark:bg-gray-800 text-jobrun-grey-dark dark:text-jobrun-grey",
+  EXPIRED: "bg-gray-100 dark:bg-gray-800 text-jobrun-grey-dark dark:text-jobrun-grey",
+  FAILED: "bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200",
+};
+
+const POLICY_LABELS: Record<ActionPolicy, string> = {
+  auto: "Run automatically",
+  review: "Ask me first",
+  never: "Never",
+};
+
+export function ApprovalQueue({ clientId }: ApprovalQueueProps) {
+  const { can } = useClientSession();
+  const canEditPolicies = can("SETTINGS_WRITE");
+
+  const [showAll, setShowAll] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [proposals, setProposals] = useState<Proposal[]>([]);
+  const [policies, setPolicies] = useState<Record<string, ActionPolicy> | null>(null);
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const approvalRequest = useCallback(
+    async (path: string, options: RequestInit = {}) => {
+      const separator = path.includes("?") ? "&" : "?";
+      const res = await fetch(`${API_BASE_URL}/api/client/approvals${path}${separator}clientId=${clientId}`, {
+        cache: "no-store",
+        ...options,
+        headers: { "Content-Type": "application/json", ...clientAuthHeaders() },
+      });
+      const response = await res.json().catch(() => null);
+      if (!res.ok) {
+        throw new Error(response?.error?.message || "Request failed");
+      }
+      return response?.data ?? response;
+    },
+    [clientId]
+  );
+
+  const loadProposals = useCallback(async () => {
+    try {
+      setProposals(await approvalRequest(showAll ? "" : "?status=PENDING"));
+    } catch (error) {
+      console.error("Failed to fetch proposals:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [approvalRequest, showAll]);
+
+  useEffect(() => {
+    loadProposals();
+  }, [loadProposals]);
+
+  useEffect(() => {
+    approvalRequest("/policies")
+      .then(setPolicies)
+      .catch((error) => console.error("Failed to fetch action policies:", error));
+  }, [approvalRequest]);
+
+  const decide = async (proposal: Proposal, decision: "approve" | "reject") => {
+    setMessage(null);
+
+    let body: string | undefined;
+    if (decision === "approve" && editing?.id === proposal.id) {
+      try {
+        body = JSON.stringify({ actions: JSON.parse(editing.text) });
+      } catch {
+        setMessage({ type: "error", text: "Edited actions are not valid JSON" });
+        return;
+      }
+    }
+
+    setBusyId(proposal.id);
+    try {
+      const updated: Proposal = await approvalRequest(`/${proposal.id}/${decision}`, { method: "POST", body });
+      setMessage(
+        updated.status === "FAILED"
+          ? { type: "error", text: updated.error || "Approved, but an action failed" }
+          : { type: "success", text: decision === "approve" ? "Approved" : "Rejected" }
+      );
+      setEditing(null);
+      await loadProposals();
+    } catch (error) {
+      setMessage({ type: "error", text: error instanceof Error ? error.message : "An error occurred" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePolicyChange = async (actionType: string, policy: ActionPolicy) => {
+    setMessage(null);
+    try {
+      setPolicies(await approvalRequest("/policies", { method: "PUT", body: JSON.stringify({ [actionType]: policy }) }));
+    } catch (error) {
+      setMessage({ type: "error", text: error instanceof Error ? error.message : "An error occurred" });
+    }
+  };
+
+  const formatDateTime = (iso: string) =>
+    new Intl.DateTimeFormat("en-GB", { dateStyle: "medium", timeStyle: "short" }).format(new Date(iso));
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <div className="h-8 w-8 border-4 border-jobrun-green border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => setShowAll(false)}
+          className={`px-3 py-2 rounded-lg text-sm font-medium ${
+            showAll ? "text-jobrun-grey-dark dark:text-jobrun-grey-light hover:bg-gray-50 dark:hover:bg-gray-700" : "bg-green-50 dark:bg-gray-700 text-jobrun-green"
+          }`}
+        >
+          Waiting
+        </button>
+        <button
+          onClick={() => setShowAll(true)}
+          className={`px-3 py-2 rounded-lg text-sm font-medium ${
+            showAll ? "bg-green-50 dark:bg-gray-700 text-jobrun-green" : "text-jobrun-grey-dark dark:text-jobrun-grey-light hover:bg-gray-50 dark:hover:bg-gray-700"
+          }`}
+        >
+          History
+        </button>
+      </div>
+
+      {message && (
+        <div
+          className={`p-4 rounded-lg ${
+            message.type === "success"
+              ? "bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200 border border-green-200 dark:border-green-800"
+              : "bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 border border-red-200 dark:border-red-800"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {proposals.length === 0 && (
+        <p className="text-sm text-jobrun-grey">
+          {showAll ? "No proposals yet." : "Nothing waiting for approval."}
+        </p>
+      )}
+
+      <div className="space-y-4">
+        {proposals.map((proposal) => (
+          <div key={proposal.id} className="bg-white dark:bg-jobrun-grey-dark rounded-xl shadow-card p-4 space-y-3">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h2 className="font-semibold text-jobrun-black dark:text-jobrun-grey-light">{proposal.summary}</h2>
+                <p className="text-xs text-jobrun-grey">
+                  {proposal.agentName} · {formatDateTime(proposal.createdAt)} ·{" "}
+                  {proposal.reason === "LOW_CONFIDENCE"
+                    ? `unsure (${Math.round(proposal.confidence * 100)}% confident)`
+                    : "your settings ask for review"}
+                  {proposal.status === "PENDING" && ` · expires ${formatDateTime(proposal.expiresAt)} · SMS code ${proposal.replyCode}`}
+                </p>
+              </div>
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[proposal.status]}`}>
+                {proposal.status.toLowerCase()}
+                {proposal.edited && " (edited)"}
+              </span>
+            </div>
+
+            {editing?.id === proposal.id ? (
+              <textarea
+                value={editing.text}
+                onChange={(e) => setEditing({ id: proposal.id, text: e.target.value })}
+                rows={8}
+                className="w-full px-3 py-2 font-mono text-xs border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-jobrun-black dark:text-white"
+              />
+            ) : (
+              <ul className="space-y-1">
+                {proposal.actions.map((action, index) => (
+                  <li key={index} className="text-sm text-jobrun-grey-dark dark:text-jobrun-grey">
+                    <span className="font-medium">{action.type}</span>
+                    {typeof action.payload.message === "string" && ` — “${action.payload.message}”`}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {proposal.error && <p className="text-sm text-red-700 dark:text-red-300">{proposal.error}</p>}
+
+            {proposal.status === "PENDING" && (
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => decide(proposal, "approve")}
+                  disabled={busyId === proposal.id}
+                  className="px-3 py-2 rounded-lg text-sm font-medium bg-jobrun-green text-white hover:opacity-90 disabled:opacity-50"
+                >
+                  {editing?.id === proposal.id ? "Approve edited" : "Approve"}
+                </button>
+                <button
+                  onClick={() => decide(proposal, "reject")}
+                  disabled={busyId === proposal.id}
+                  className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 text-sm text-jobrun-grey-dark dark:text-jobrun-grey-light hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                >
+                  Reject
+                </button>
+                <button
+                  onClick={() =>
+                    setEditing(
+                      editing?.id === proposal.id
+                        ? null
+                        : { id: proposal.id, text: JSON.stringify(proposal.actions, null, 2) }
+                    )
+                  }
+                  className="px-3 py-2 rounded-lg text-sm font-medium text-jobrun-green hover:bg-green-50 dark:hover:bg-gray-700"
+                >
+                  {editing?.id === proposal.id ? "Cancel edit" : "Edit"}
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {policies && (
+        <div className="bg-white dark:bg-jobrun-grey-dark rounded-xl shadow-card p-4 space-y-3">
+          <div>
+            <h2 className="font-semibold text-jobrun-black dark:text-jobrun-grey-light">What needs approval</h2>
+            <p className="text-xs text-jobrun-grey">
+              Anything an assistant is unsure about always waits for you.
+            </p>
+          </div>
+          <div className="grid gap-2 grid-cols-1 md:grid-cols-2">
+            {Object.entries(policies).map(([actionType, policy]) => (
+              <label key={actionType} className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-jobrun-grey-dark dark:text-jobrun-grey-light">{actionType}</span>
+                <select
+                  value={policy}
+                  disabled={!canEditPolicies}
+                  onChange={(e) => handlePolicyChange(actionType, e.target.value as ActionPolicy)}
+                  className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-jobrun-black dark:text-white"
+                >
+                  {(Object.keys(POLICY_LABELS) as ActionPolicy[]).map((option) => (
+                    <option key={option} value={option}>
+                      {POLICY_LABELS[option]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import React, { useCallback, useState } from "react";
+import { MessageList, Message } from "./MessageList";
+import { MessageInput, SentMessage } from "./MessageInput";
+import { LiveStatusBadge } from "./LiveStatusBadge";
+import { useRealtime } from "@/context/realtime";
+import type { NewMessageEventData, RealtimeEvent } from "@/lib/realtime";
+import { clientAuthHeaders } from "@/lib/client-auth";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+
+// Optimistic messages carry a temporary id until the server confirms them
+type LiveMessage = Message & { clientRef?: string };
+
+interface LiveConversationProps {
+  leadId: string;
+  clientId: string;
+  initialMessages: Message[];
+}
+
+function fromEvent(data: NewMessageEventData): LiveMessage {
+  return {
+    id: data.messageId,
+    clientRef: data.clientRef ?? undefined,
+    direction: data.direction === "SYSTEM" ? "AI" : data.direction,
+    type: data.type as Message["type"],
+    body: data.body,
+    createdAt: data.createdAt,
+    isRead: data.direction !== "INBOUND",
+    deliveryStatus: data.deliveryStatus as Message["deliveryStatus"],
+  };
+}
+
+/**
+ * Add or replace messages, keyed by id, then by clientRef so the server copy
+ * of an optimistic send takes its place instead of appearing twice
+ */
+function merge(current: LiveMessage[], incoming: LiveMessage[]): LiveMessage[] {
+  const next = [...current];
+
+  for (const message of incoming) {
+    const index = next.findIndex(
+      (existing) =>
+        existing.id === message.id || (!!message.clientRef && existing.clientRef === message.clientRef)
+    );
+    if (index >= 0) {
+      next[index] = { ...next[index], ...message, sendState: undefined };
+    } else {
+      next.push(message);
+    }
+  }
+
+  return next.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+}
+
+export function LiveConversation({ leadId, clientId, initialMessages }: LiveConversationProps) {
+  const [messages, setMessages] = useState<LiveMessage[]>(initialMessages);
+
+  // Fetch whatever arrived while the socket was down
+  const backfill = useCallback(async () => {
+    const confirmed = messages.filter((message) => !message.sendState);
+    const since = confirmed.length > 0 ? confirmed[confirmed.length - 1].createdAt : null;
+    const sinceQuery = since ? `&since=${encodeURIComponent(since)}` : "";
+
+    try {
+      const res = await fetch(
+        `${API_BASE_URL}/api/client/leads/${leadId}/messages?clientId=${clientId}${sinceQuery}`,
+        { cache: "no-store", headers: clientAuthHeaders() }
+      );
+      if (!res.ok) return;
+      const response = await res.json();
+      setMessages((current) => merge(current, response?.data ?? []));
+    } catch (error) {
+      console.error("Error backfilling messages:", error);
+    }
+  }, [messages, leadId, clientId]);
+
+  const status = useRealtime([`lead:${leadId}`], {
+    onEvent: (event: RealtimeEvent<NewMessageEventData>) => {
+      if (event.type !== "NEW_MESSAGE") return;
+      setMessages((current) => merge(current, [fromEvent(event.data)]));
+    },
+    onResync: backfill,
+  });
+
+  const handleOptimisticSend = (body: string, clientRef: string) => {
+    setMessages((current) => [
+      ...current,
+      {
+        id: `pending-${clientRef}`,
+        clientRef,
+        direction: "OUTBOUND",
+        type: "SMS",
+        body,
+        createdAt: new Date().toISOString(),
+        isRead: true,
+        sendState: "sending",
+      },
+    ]);
+  };
+
+  const handleSendSettled = (clientRef: string, sent: SentMessage | null) => {
+    if (sent) {
+      setMessages((current) => merge(current, [{ ...sent, clientRef }]));
+    } else {
+      setMessages((current) =>
+        current.map((message) =>
+          message.clientRef === clientRef && message.sendState ? { ...message, sendState: "failed" } : message
+        )
+      );
+    }
+  };
+
+  return (
+    <>
+      <div className="flex justify-end px-6 pt-3">
+        <LiveStatusBadge status={status} />
+      </div>
+      <MessageList messages={messages} />
+      <MessageInput
+        leadId={leadId}
+        clientId={clientId}
+        onOptimisticSend={handleOptimisticSend}
+        onSendSettled={handleSendSettled}
+      />
+    </>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import React, { useCallback, useState } from "react";
+import { MessageThreadRow, MessageThread } from "./MessageThreadRow";
+import { LiveStatusBadge } from "./LiveStatusBadge";
+import { useRealtime } from "@/context/realtime";
+import type { NewMessageEventData, RealtimeEvent } from "@/lib/realtime";
+import { clientAuthHeaders } from "@/lib/client-auth";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+
+interface LiveMessageThreadsProps {
+  initialThreads: MessageThread[];
+  clientId: string;
+  filter: string;
+}
+
+// Mirrors the server-side filter in GET /api/client/messages
+function matchesFilter(thread: MessageThread, filter: string): boolean {
+  if (filter === "UNREAD") return thread.hasUnread;
+  if (filter === "INBOUND") return thread.latestMessage.direction === "INBOUND";
+  return true;
+}
+
+export function LiveMessageThreads({ initialThreads, clientId, filter }: LiveMessageThreadsProps) {
+  const [threads, setThreads] = useState(initialThreads);
+
+  const refetch = useCallback(async () => {
+    try {
+      const res = await fetch(
+        `${API_BASE_URL}/api/client/messages?clientId=${clientId}&filter=${filter}`,
+        { cache: "no-store", headers: clientAuthHeaders() }
+      );
+      if (!res.ok) return;
+      const response = await res.json();
+      setThreads(response?.data ?? []);
+    } catch (error) {
+      console.error("Error refreshing message threads:", error);
+    }
+  }, [clientId, filter]);
+
+  const status = useRealtime(["lead"], {
+    onEvent: (event: RealtimeEvent<NewMessageEventData>) => {
+      if (event.type !== "NEW_MESSAGE" || !event.data.customerId) return;
+
+      const message = event.data;
+      const existing = threads.find((thread) => thread.leadId === message.customerId);
+
+      // First message from a lead we haven't listed (or filtered out): the row
+      // needs name, state and job type, so ask the server
+      if (!existing) {
+        refetch();
+        return;
+      }
+      if (existing.latestMessage.id === message.messageId) return;
+
+      const inbound = message.direction === "INBOUND";
+      const unreadCount = inbound ? (existing.unreadCount ?? 0) + 1 : 0;
+      const updated: MessageThread = {
+        ...existing,
+        latestMessage: {
+          id: message.messageId,
+          direction: message.direction === "SYSTEM" ? "AI" : message.direction,
+          body: message.body,
+          createdAt: message.createdAt,
+        },
+        hasUnread: unreadCount > 0,
+        unreadCount,
+        updatedAt: message.createdAt,
+      };
+
+      setThreads((current) => [
+        ...(matchesFilter(updated, filter) ? [updated] : []),
+        ...current.filter((thread) => thread.leadId !== message.customerId),
+      ]);
+    },
+    onResync: refetch,
+  });
+
+  const totalUnread = threads.reduce((sum, thread) => sum + (thread.unreadCount ?? 0), 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-jobrun-grey">
+          {totalUnread > 0 ? (
+            <>
+              <span className="font-semibold text-jobrun-black dark:text-jobrun-grey-light">{totalUnread}</span> unread
+              message{totalUnread !== 1 ? "s" : ""}
+            </>
+          ) : (
+            "No unread messages"
+          )}
+        </p>
+        <LiveStatusBadge status={status} />
+      </div>
+
+      {threads.length === 0 ? (
+        <div className="bg-white dark:bg-jobrun-grey-dark rounded-xl shadow-card p-12">
+          <div className="text-center">
+            <div className="h-16 w-16 rounded-full bg-green-50 dark:bg-gray-800 flex items-center justify-center mx-auto mb-4">
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="h-8 w-8 text-jobrun-green"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z"
+                />
+              </svg>
+            </div>
+            <h3 className="text-lg font-semibold text-jobrun-black dark:text-jobrun-grey-light mb-2">
+              No messages found
+            </h3>
+            <p className="text-sm text-jobrun-grey">
+              {filter === "UNREAD"
+                ? "You're all caught up! No unread messages."
+                : filter === "INBOUND"
+                ? "No inbound messages at the moment."
+                : "Start conversations with your leads to see messages here."}
+            </p>
+          </div>
+        </div>
+      ) : (
+        <div className="bg-white dark:bg-jobrun-grey-dark rounded-xl shadow-card overflow-hidden">
+          {threads.map((thread) => (
+            <MessageThreadRow key={thread.leadId} thread={thread} clientId={clientId} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
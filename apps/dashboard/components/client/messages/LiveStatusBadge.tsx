@@ -0,0 +1,26 @@
+import React from "react";
+import type { RealtimeStatus } from "@/lib/realtime";
+
+interface LiveStatusBadgeProps {
+  status: RealtimeStatus;
+}
+
+export function LiveStatusBadge({ status }: LiveStatusBadgeProps) {
+  const isLive = status === "open";
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1.5 px-2 py-0.5 text-xs font-semibold rounded-full ${
+        isLive
+          ? "bg-green-50 dark:bg-gray-800 text-jobrun-green"
+          : "bg-amber-50 dark:bg-gray-800 text-amber-600"
+      }`}
+      title={isLive ? "New messages appear automatically" : "Reconnecting to live updates"}
+    >
+      <span
+        className={`h-2 w-2 rounded-full ${isLive ? "bg-jobrun-green animate-pulse" : "bg-amber-500"}`}
+      ></span>
+      {isLive ? "Live" : "Reconnecting..."}
+    </span>
+  );
+}
@@ -2,18 +2,23 @@ import React from "react";
 
 type MessageDirection = "INBOUND" | "OUTBOUND" | "AI";
 type MessageType = "SMS" | "WHATSAPP" | "CALL" | "AI_NOTE";
+type DeliveryStatus = "QUEUED" | "SENT" | "DELIVERED" | "UNDELIVERED" | "FAILED" | "RECEIVED";
 
 interface MessageBubbleProps {
   direction: MessageDirection;
   type: MessageType;
   body: string;
   timestamp: string;
+  deliveryStatus?: DeliveryStatus | null;
+  // Optimistic send state (live inbox)
+  sendState?: "sending" | "failed";
 }
 
-export function MessageBubble({ direction, type, body, timestamp }: MessageBubbleProps) {
+export function MessageBubble({ direction, type, body, timestamp, deliveryStatus, sendState }: MessageBubbleProps) {
   const isInbound = direction === "INBOUND";
   const isOutbound = direction === "OUTBOUND";
   const isAI = direction === "AI";
+  const deliveryFailed = isOutbound && (deliveryStatus === "UNDELIVERED" || deliveryStatus === "FAILED");
 
   const bubbleClasses = isInbound
     ? "bg-gray-100 dark:bg-gray-700 text-jobrun-black dark:text-jobrun-grey-light"
@@ -25,7 +30,11 @@ export function MessageBubble({ direction, type, body, timestamp }: MessageBubbl
 
   return (
     <div className={`flex flex-col ${alignmentClasses} mb-4`}>
-      <div className={`max-w-[70%] rounded-2xl px-4 py-3 shadow-md ${bubbleClasses}`}>
+      <div
+        className={`max-w-[70%] rounded-2xl px-4 py-3 shadow-md ${bubbleClasses} ${
+          sendState === "sending" ? "opacity-60" : ""
+        }`}
+      >
         {isAI && (
           <div className="flex items-center gap-2 mb-1">
             <svg
@@ -57,6 +66,13 @@ export function MessageBubble({ direction, type, body, timestamp }: MessageBubbl
           minute: "2-digit",
           hour12: true,
         })}
+        {deliveryFailed && (
+          <span className="ml-2 font-semibold text-red-500">Not delivered</span>
+        )}
+        {sendState === "sending" && <span className="ml-2">Sending...</span>}
+        {sendState === "failed" && (
+          <span className="ml-2 font-semibold text-red-500">Not sent</span>
+        )}
       </span>
     </div>
   );
@@ -2,45 +2,86 @@
 
 import React, { useState } from "react";
 import { useRouter } from "next/navigation";
+import { clientAuthHeaders } from "@/lib/client-auth";
+import { useClientSession } from "@/context/client-session";
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
 
+export interface SentMessage {
+  id: string;
+  clientRef: string | null;
+  direction: "OUTBOUND";
+  type: "SMS";
+  body: string;
+  createdAt: string;
+  isRead: boolean;
+}
+
 interface MessageInputProps {
   leadId: string;
   clientId: string;
+  // Optimistic mode (live conversation): the message is shown at once and
+  // confirmed or marked failed when the request settles
+  onOptimisticSend?: (body: string, clientRef: string) => void;
+  onSendSettled?: (clientRef: string, message: SentMessage | null) => void;
 }
 
-export function MessageInput({ leadId, clientId }: MessageInputProps) {
+export function MessageInput({ leadId, clientId, onOptimisticSend, onSendSettled }: MessageInputProps) {
   const [message, setMessage] = useState("");
   const [loading, setLoading] = useState(false);
   const router = useRouter();
+  const { can } = useClientSession();
+
+  const postMessage = async (body: string, clientRef?: string): Promise<SentMessage> => {
+    const response = await fetch(
+      `${API_BASE_URL}/api/client/leads/${leadId}/messages/send?clientId=${clientId}`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...clientAuthHeaders(),
+        },
+        body: JSON.stringify({
+          body,
+          type: "SMS",
+          clientRef,
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error("Failed to send message");
+    }
+
+    const result = await response.json();
+    return result?.data ?? result;
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     if (!message.trim() || loading) return;
 
+    const body = message.trim();
+
+    if (onOptimisticSend) {
+      const clientRef = crypto.randomUUID();
+      onOptimisticSend(body, clientRef);
+      setMessage("");
+
+      postMessage(body, clientRef)
+        .then((sent) => onSendSettled?.(clientRef, sent))
+        .catch((error) => {
+          console.error("Error sending message:", error);
+          onSendSettled?.(clientRef, null);
+        });
+      return;
+    }
+
     setLoading(true);
 
     try {
-      const response = await fetch(
-        `${API_BASE_URL}/api/client/leads/${leadId}/messages/send?clientId=${clientId}`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            body: message.trim(),
-            type: "SMS",
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error("Failed to send message");
-      }
-
+      await postMessage(body);
       setMessage("");
       router.refresh();
     } catch (error) {
@@ -51,6 +92,14 @@ export function MessageInput({ leadId, clientId }: MessageInputProps) {
     }
   };
 
+  if (!can("MESSAGES_SEND")) {
+    return (
+      <div className="border-t border-gray-200 dark:border-gray-700 p-4 text-sm text-jobrun-grey">
+        Your team role can view this conversation but not send messages.
+      </div>
+    );
+  }
+
   return (
     <form onSubmit={handleSubmit} className="border-t border-gray-200 dark:border-gray-700 p-4">
       <div className="flex items-end gap-3">
@@ -5,14 +5,17 @@ import { MessageBubble } from "./MessageBubble";
 
 type MessageDirection = "INBOUND" | "OUTBOUND" | "AI";
 type MessageType = "SMS" | "WHATSAPP" | "CALL" | "AI_NOTE";
+type DeliveryStatus = "QUEUED" | "SENT" | "DELIVERED" | "UNDELIVERED" | "FAILED" | "RECEIVED";
 
-interface Message {
+export interface Message {
   id: string;
   direction: MessageDirection;
   type: MessageType;
   body: string;
   createdAt: string;
   isRead: boolean;
+  deliveryStatus?: DeliveryStatus | null;
+  sendState?: "sending" | "failed";
 }
 
 interface MessageListProps {
@@ -66,6 +69,8 @@ export function MessageList({ messages }: MessageListProps) {
           type={message.type}
           body={message.body}
           timestamp={message.createdAt}
+          deliveryStatus={message.deliveryStatus}
+          sendState={message.sendState}
         />
       ))}
       <div ref={bottomRef} />
@@ -14,7 +14,7 @@ type LeadState =
 
 type MessageDirection = "INBOUND" | "OUTBOUND" | "AI";
 
-interface MessageThread {
+export interface MessageThread {
   leadId: string;
   name: string;
   phone: string;
@@ -27,6 +27,7 @@ interface MessageThread {
     createdAt: string;
   };
   hasUnread: boolean;
+  unreadCount?: number;
   updatedAt: string;
 }
 
@@ -97,7 +98,7 @@ export function MessageThreadRow({ thread, clientId }: MessageThreadRowProps) {
               </h3>
               {thread.hasUnread && (
                 <span className="flex-shrink-0 px-2 py-0.5 text-xs font-semibold bg-jobrun-green text-white rounded-full">
-                  New
+                  {thread.unreadCount && thread.unreadCount > 1 ? `${thread.unreadCount} new` : "New"}
                 </span>
               )}
             </div>
@@ -0,0 +1,255 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { clientAuthHeaders } from "@/lib/client-auth";
+import { useClientSession } from "@/context/client-session";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+
+interface ScheduleBooking {
+  id: string;
+  resourceId: string | null;
+  start: string;
+  end: string;
+  customerName: string | null;
+  customerPhone: string | null;
+  status: string;
+  isRecurring: boolean;
+}
+
+interface ScheduleResource {
+  id: string;
+  name: string;
+  kind: "STAFF" | "VEHICLE";
+  skills: string[];
+  hours: Array<{ start: string; end: string }>;
+  blocked: Array<{ id: string; start: string | null; end: string | null; reason: string | null; businessWide: boolean }>;
+  bookings: ScheduleBooking[];
+}
+
+interface DaySchedule {
+  date: string;
+  timeZone: string;
+  resources: ScheduleResource[];
+  unassigned: ScheduleBooking[];
+}
+
+interface ResourceScheduleProps {
+  clientId: string;
+}
+
+function todayIn(timeZone?: string): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone }).format(new Date());
+}
+
+function shiftDate(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+export function ResourceSchedule({ clientId }: ResourceScheduleProps) {
+  const { can } = useClientSession();
+  const canManage = can("SCHEDULE_MANAGE");
+
+  const [date, setDate] = useState(() => todayIn());
+  const [loading, setLoading] = useState(true);
+  const [schedule, setSchedule] = useState<DaySchedule | null>(null);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const resourceRequest = useCallback(
+    async (path: string, options: RequestInit = {}) => {
+      const separator = path.includes("?") ? "&" : "?";
+      const res = await fetch(`${API_BASE_URL}/api/client/resources${path}${separator}clientId=${clientId}`, {
+        cache: "no-store",
+        ...options,
+        headers: { "Content-Type": "application/json", ...clientAuthHeaders() },
+      });
+      const response = await res.json().catch(() => null);
+      if (!res.ok) {
+        throw new Error(response?.error?.message || "Request failed");
+      }
+      return response?.data ?? response;
+    },
+    [clientId]
+  );
+
+  const loadSchedule = useCallback(async () => {
+    try {
+      setSchedule(await resourceRequest(`/schedule?date=${date}`));
+    } catch (error) {
+      console.error("Failed to fetch schedule:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [resourceRequest, date]);
+
+  useEffect(() => {
+    loadSchedule();
+  }, [loadSchedule]);
+
+  const handleAssign = async (bookingId: string, resourceId: string) => {
+    setMessage(null);
+    try {
+      const data = await resourceRequest(`/bookings/${bookingId}`, {
+        method: "PUT",
+        body: JSON.stringify({ resourceId: resourceId || null }),
+      });
+      setMessage(
+        data.warnings?.length
+          ? { type: "error", text: data.warnings[0].message }
+          : { type: "success", text: resourceId ? "Job assigned" : "Job unassigned" }
+      );
+      await loadSchedule();
+    } catch (error) {
+      setMessage({ type: "error", text: error instanceof Error ? error.message : "An error occurred" });
+    }
+  };
+
+  const formatTime = (iso: string) =>
+    new Intl.DateTimeFormat("en-GB", {
+      hour: "2-digit",
+      minute: "2-digit",
+      timeZone: schedule?.timeZone,
+    }).format(new Date(iso));
+
+  const renderBooking = (booking: ScheduleBooking) => (
+    <div
+      key={`${booking.id}-${booking.start}`}
+      className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700"
+    >
+      <p className="text-sm font-medium text-jobrun-black dark:text-jobrun-grey-light">
+        {formatTime(booking.start)}–{formatTime(booking.end)}
+        {booking.isRecurring && <span className="ml-1 text-xs text-jobrun-grey">(repeats)</span>}
+      </p>
+      <p className="text-sm text-jobrun-grey-dark dark:text-jobrun-grey">
+        {booking.customerName || booking.customerPhone || "Customer"}
+      </p>
+      {canManage && schedule && (
+        <select
+          value={booking.resourceId ?? ""}
+          onChange={(e) => handleAssign(booking.id, e.target.value)}
+          className="mt-2 w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-jobrun-black dark:text-white"
+        >
+          <option value="">Unassigned</option>
+          {schedule.resources.map((resource) => (
+            <option key={resource.id} value={resource.id}>
+              {resource.name}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <div className="h-8 w-8 border-4 border-jobrun-green border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => setDate(shiftDate(date, -1))}
+          className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 text-sm text-jobrun-grey-dark dark:text-jobrun-grey-light hover:bg-gray-50 dark:hover:bg-gray-700"
+        >
+          Previous
+        </button>
+        <input
+          type="date"
+          value={date}
+          onChange={(e) => e.target.value && setDate(e.target.value)}
+          className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-jobrun-black dark:text-white text-sm"
+        />
+        <button
+          onClick={() => setDate(shiftDate(date, 1))}
+          className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 text-sm text-jobrun-grey-dark dark:text-jobrun-grey-light hover:bg-gray-50 dark:hover:bg-gray-700"
+        >
+          Next
+        </button>
+        <button
+          onClick={() => setDate(todayIn(schedule?.timeZone))}
+          className="px-3 py-2 rounded-lg text-sm font-medium text-jobrun-green hover:bg-green-50 dark:hover:bg-gray-700"
+        >
+          Today
+        </button>
+      </div>
+
+      {message && (
+        <div
+          className={`p-4 rounded-lg ${
+            message.type === "success"
+              ? "bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200 border border-green-200 dark:border-green-800"
+              : "bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 border border-red-200 dark:border-red-800"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {schedule && schedule.resources.length === 0 && (
+        <p className="text-sm text-jobrun-grey">
+          No technicians or vans yet — every job is on the one business calendar.
+        </p>
+      )}
+
+      <div className="grid gap-4 grid-cols-1 md:grid-cols-2 xl:grid-cols-4">
+        {schedule?.resources.map((resource) => (
+          <div key={resource.id} className="bg-white dark:bg-jobrun-grey-dark rounded-xl shadow-card p-4 space-y-3">
+            <div>
+              <h2 className="font-semibold text-jobrun-black dark:text-jobrun-grey-light">
+                {resource.name}
+                <span className="ml-2 text-xs font-normal text-jobrun-grey">
+                  {resource.kind === "VEHICLE" ? "Van" : "Technician"}
+                </span>
+              </h2>
+              <p className="text-xs text-jobrun-grey">
+                {resource.hours.length
+                  ? resource.hours.map((range) => `${range.start}–${range.end}`).join(", ")
+                  : "Not working"}
+              </p>
+              {resource.skills.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {resource.skills.map((skill) => (
+                    <span
+                      key={skill}
+                      className="px-2 py-0.5 rounded-full text-xs bg-green-50 dark:bg-green-900/20 text-jobrun-green"
+                    >
+                      {skill}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {resource.blocked.map((block) => (
+              <p key={block.id} className="text-xs text-red-700 dark:text-red-300">
+                Off {block.start && block.end ? `${block.start}–${block.end}` : "all day"}
+                {block.reason && ` · ${block.reason}`}
+              </p>
+            ))}
+
+            {resource.bookings.length ? (
+              resource.bookings.map(renderBooking)
+            ) : (
+              <p className="text-sm text-jobrun-grey">No jobs</p>
+            )}
+          </div>
+        ))}
+
+        <div className="bg-white dark:bg-jobrun-grey-dark rounded-xl shadow-card p-4 space-y-3">
+          <h2 className="font-semibold text-jobrun-black dark:text-jobrun-grey-light">Unassigned</h2>
+          {schedule?.unassigned.length ? (
+            schedule.unassigned.map(renderBooking)
+          ) : (
+            <p className="text-sm text-jobrun-grey">Nothing waiting</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
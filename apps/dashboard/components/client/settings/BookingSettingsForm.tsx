@@ -2,12 +2,20 @@
 
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
+import { clientAuthHeaders } from "@/lib/client-auth";
+import { useClientSession } from "@/context/client-session";
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
 
 interface BookingSettings {
   defaultJobDuration: number;
   allowSameDayBookings: boolean;
+  basePostcode: string | null;
+  serviceRadiusMiles: number | null;
+  travelRoadFactor: number;
+  outOfAreaAction: "FLAG" | "DECLINE";
+  reminderHoursBefore: number[];
+  missedAfterMinutes: number;
 }
 
 interface BookingSettingsFormProps {
@@ -16,25 +24,35 @@ interface BookingSettingsFormProps {
 
 export function BookingSettingsForm({ clientId }: BookingSettingsFormProps) {
   const router = useRouter();
+  const { can } = useClientSession();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
   const [settings, setSettings] = useState<BookingSettings>({
     defaultJobDuration: 60,
     allowSameDayBookings: true,
+    basePostcode: null,
+    serviceRadiusMiles: null,
+    travelRoadFactor: 1.3,
+    outOfAreaAction: "FLAG",
+    reminderHoursBefore: [24, 2],
+    missedAfterMinutes: 60,
   });
+  // Edited as text ("24, 2") and parsed on save
+  const [reminderHours, setReminderHours] = useState("24, 2");
 
   useEffect(() => {
     async function fetchSettings() {
       try {
         const res = await fetch(
           `${API_BASE_URL}/api/client/settings?clientId=${clientId}&tab=booking`,
-          { cache: "no-store" }
+          { cache: "no-store", headers: clientAuthHeaders() }
         );
         if (res.ok) {
           const response = await res.json();
           const data = response?.data ?? response;
           setSettings(data);
+          setReminderHours((data.reminderHoursBefore ?? []).join(", "));
         }
       } catch (error) {
         console.error("Failed to fetch booking settings:", error);
@@ -48,16 +66,31 @@ export function BookingSettingsForm({ clientId }: BookingSettingsFormProps) {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setSaving(true);
     setMessage(null);
 
+    const reminderHoursBefore = reminderHours
+      .split(",")
+      .map((value) => value.trim())
+      .filter(Boolean)
+      .map(Number);
+    if (reminderHoursBefore.some((hours) => !Number.isInteger(hours) || hours < 1 || hours > 168)) {
+      setMessage({ type: "error", text: "Reminder times must be whole hours between 1 and 168." });
+      return;
+    }
+
+    setSaving(true);
+
     try {
       const res = await fetch(
         `${API_BASE_URL}/api/client/settings?clientId=${clientId}&tab=booking`,
         {
           method: "PUT",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(settings),
+          headers: { "Content-Type": "application/json", ...clientAuthHeaders() },
+          body: JSON.stringify({
+            ...settings,
+            basePostcode: settings.basePostcode || null,
+            reminderHoursBefore,
+          }),
         }
       );
 
@@ -65,7 +98,11 @@ export function BookingSettingsForm({ clientId }: BookingSettingsFormProps) {
         setMessage({ type: "success", text: "Booking settings saved successfully!" });
         router.refresh();
       } else {
-        setMessage({ type: "error", text: "Failed to save settings. Please try again." });
+        const response = await res.json().catch(() => null);
+        setMessage({
+          type: "error",
+          text: response?.error?.message || "Failed to save settings. Please try again.",
+        });
       }
     } catch (error) {
       setMessage({ type: "error", text: "An error occurred. Please try again." });
@@ -135,10 +172,134 @@ export function BookingSettingsForm({ clientId }: BookingSettingsFormProps) {
         </div>
       </div>
 
+      <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+        <h3 className="text-sm font-semibold text-jobrun-black dark:text-jobrun-grey-light">
+          Travel &amp; Service Area
+        </h3>
+        <p className="text-xs text-jobrun-grey mt-1">
+          Job postcodes are used to leave driving time between back-to-back bookings
+          and to spot jobs outside your area
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-semibold text-jobrun-black dark:text-jobrun-grey-light mb-2">
+            Base Postcode
+          </label>
+          <input
+            type="text"
+            placeholder="e.g. B49 5AB"
+            value={settings.basePostcode ?? ""}
+            onChange={(e) => setSettings({ ...settings, basePostcode: e.target.value })}
+            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-jobrun-black dark:text-jobrun-grey-light focus:ring-2 focus:ring-jobrun-green focus:border-transparent transition-all"
+          />
+          <p className="text-xs text-jobrun-grey mt-1">Where your jobs are dispatched from</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-semibold text-jobrun-black dark:text-jobrun-grey-light mb-2">
+            Service Radius (miles)
+          </label>
+          <input
+            type="number"
+            min="1"
+            placeholder="No limit"
+            value={settings.serviceRadiusMiles ?? ""}
+            onChange={(e) =>
+              setSettings({
+                ...settings,
+                serviceRadiusMiles: e.target.value ? parseFloat(e.target.value) : null,
+              })
+            }
+            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-jobrun-black dark:text-jobrun-grey-light focus:ring-2 focus:ring-jobrun-green focus:border-transparent transition-all"
+          />
+          <p className="text-xs text-jobrun-grey mt-1">Straight-line distance from your base postcode</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-semibold text-jobrun-black dark:text-jobrun-grey-light mb-2">
+            Road Factor
+          </label>
+          <input
+            type="number"
+            min="1"
+            max="3"
+            step="0.1"
+            value={settings.travelRoadFactor}
+            onChange={(e) => setSettings({ ...settings, travelRoadFactor: parseFloat(e.target.value) })}
+            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-jobrun-black dark:text-jobrun-grey-light focus:ring-2 focus:ring-jobrun-green focus:border-transparent transition-all"
+          />
+          <p className="text-xs text-jobrun-grey mt-1">
+            Road miles per straight-line mile (1 = as the crow flies)
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-semibold text-jobrun-black dark:text-jobrun-grey-light mb-2">
+            Out-of-Area Enquiries
+          </label>
+          <select
+            value={settings.outOfAreaAction}
+            onChange={(e) =>
+              setSettings({ ...settings, outOfAreaAction: e.target.value as BookingSettings["outOfAreaAction"] })
+            }
+            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-jobrun-black dark:text-jobrun-grey-light focus:ring-2 focus:ring-jobrun-green focus:border-transparent transition-all"
+          >
+            <option value="FLAG">Reply as usual and flag the lead</option>
+            <option value="DECLINE">Politely decline</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+        <h3 className="text-sm font-semibold text-jobrun-black dark:text-jobrun-grey-light">
+          Appointment Reminders
+        </h3>
+        <p className="text-xs text-jobrun-grey mt-1">
+          Customers are texted before each appointment and can reply C to confirm, R to
+          reschedule or X to cancel
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-semibold text-jobrun-black dark:text-jobrun-grey-light mb-2">
+            Send Reminders (hours before)
+          </label>
+          <input
+            type="text"
+            placeholder="e.g. 24, 2"
+            value={reminderHours}
+            onChange={(e) => setReminderHours(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-jobrun-black dark:text-jobrun-grey-light focus:ring-2 focus:ring-jobrun-green focus:border-transparent transition-all"
+          />
+          <p className="text-xs text-jobrun-grey mt-1">Comma-separated; leave empty to turn reminders off</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-semibold text-jobrun-black dark:text-jobrun-grey-light mb-2">
+            Mark Missed After (minutes)
+          </label>
+          <input
+            type="number"
+            min="0"
+            max="1440"
+            step="15"
+            value={settings.missedAfterMinutes}
+            onChange={(e) => setSettings({ ...settings, missedAfterMinutes: parseInt(e.target.value) || 0 })}
+            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-jobrun-black dark:text-jobrun-grey-light focus:ring-2 focus:ring-jobrun-green focus:border-transparent transition-all"
+          />
+          <p className="text-xs text-jobrun-grey mt-1">
+            Unconfirmed appointments are marked missed this long after they end
+          </p>
+        </div>
+      </div>
+
       <div className="flex justify-end pt-4">
         <button
           type="submit"
-          disabled={saving}
+          disabled={saving || !can("SETTINGS_WRITE")}
           className="px-6 py-3 jobrun-gradient text-white rounded-lg font-semibold hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
         >
           {saving ? "Saving..." : "Save Booking Settings"}
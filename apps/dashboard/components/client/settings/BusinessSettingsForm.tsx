@@ -2,6 +2,8 @@
 
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
+import { clientAuthHeaders } from "@/lib/client-auth";
+import { useClientSession } from "@/context/client-session";
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
 
@@ -30,6 +32,7 @@ const timezones = [
 
 export function BusinessSettingsForm({ clientId }: BusinessSettingsFormProps) {
   const router = useRouter();
+  const { can } = useClientSession();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
@@ -46,7 +49,7 @@ export function BusinessSettingsForm({ clientId }: BusinessSettingsFormProps) {
       try {
         const res = await fetch(
           `${API_BASE_URL}/api/client/settings?clientId=${clientId}&tab=business`,
-          { cache: "no-store" }
+          { cache: "no-store", headers: clientAuthHeaders() }
         );
         if (res.ok) {
           const response = await res.json();
@@ -73,7 +76,7 @@ export function BusinessSettingsForm({ clientId }: BusinessSettingsFormProps) {
         `${API_BASE_URL}/api/client/settings?clientId=${clientId}&tab=business`,
         {
           method: "PUT",
-          headers: { "Content-Type": "application/json" },
+          headers: { "Content-Type": "application/json", ...clientAuthHeaders() },
           body: JSON.stringify(formData),
         }
       );
@@ -189,7 +192,7 @@ export function BusinessSettingsForm({ clientId }: BusinessSettingsFormProps) {
       <div className="flex justify-end pt-4">
         <button
           type="submit"
-          disabled={saving}
+          disabled={saving || !can("SETTINGS_WRITE")}
           className="px-6 py-3 jobrun-gradient text-white rounded-lg font-semibold hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
         >
           {saving ? "Saving..." : "Save Business Settings"}
@@ -0,0 +1,247 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { clientAuthHeaders } from "@/lib/client-auth";
+import { useClientSession, ClientMemberRole } from "@/context/client-session";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+
+const ROLES: Array<{ value: ClientMemberRole; label: string; description: string }> = [
+  { value: "OWNER", label: "Owner", description: "Full access, including settings and team" },
+  { value: "DISPATCHER", label: "Dispatcher", description: "Leads, messages and dashboard" },
+  { value: "TECHNICIAN", label: "Technician", description: "Leads and customer messages" },
+  { value: "READ_ONLY", label: "Read-only", description: "View everything, change nothing" },
+];
+
+interface TeamMember {
+  userId: string;
+  email: string;
+  role: ClientMemberRole;
+  joinedAt: string;
+}
+
+interface PendingInvitation {
+  id: string;
+  email: string;
+  role: ClientMemberRole;
+  expiresAt: string;
+}
+
+interface TeamManagerProps {
+  clientId: string;
+}
+
+export function TeamManager({ clientId }: TeamManagerProps) {
+  const { session, can } = useClientSession();
+  const canManage = can("TEAM_MANAGE");
+
+  const [loading, setLoading] = useState(true);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [invitations, setInvitations] = useState<PendingInvitation[]>([]);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<ClientMemberRole>("TECHNICIAN");
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const teamRequest = useCallback(
+    async (path: string, options: RequestInit = {}) => {
+      const res = await fetch(`${API_BASE_URL}/api/client/team${path}?clientId=${clientId}`, {
+        cache: "no-store",
+        ...options,
+        headers: { "Content-Type": "application/json", ...clientAuthHeaders() },
+      });
+      const response = await res.json().catch(() => null);
+      if (!res.ok) {
+        throw new Error(response?.error?.message || "Request failed");
+      }
+      return response?.data ?? response;
+    },
+    [clientId]
+  );
+
+  const loadTeam = useCallback(async () => {
+    try {
+      const data = await teamRequest("");
+      setMembers(data.members);
+      setInvitations(data.invitations);
+    } catch (error) {
+      console.error("Failed to fetch team:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [teamRequest]);
+
+  useEffect(() => {
+    loadTeam();
+  }, [loadTeam]);
+
+  const run = async (action: () => Promise<unknown>, successText: string) => {
+    setMessage(null);
+    try {
+      await action();
+      setMessage({ type: "success", text: successText });
+      await loadTeam();
+    } catch (error) {
+      setMessage({ type: "error", text: error instanceof Error ? error.message : "An error occurred" });
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await run(async () => {
+      const data = await teamRequest("/invitations", {
+        method: "POST",
+        body: JSON.stringify({ email: inviteEmail, role: inviteRole }),
+      });
+      setInviteLink(data.acceptUrl);
+      setInviteEmail("");
+    }, `Invitation sent to ${inviteEmail}`);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <div className="h-8 w-8 border-4 border-jobrun-green border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {message && (
+        <div
+          className={`p-4 rounded-lg ${
+            message.type === "success"
+              ? "bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200 border border-green-200 dark:border-green-800"
+              : "bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 border border-red-200 dark:border-red-800"
+          }`}
+        >
+          {message.text}
+          {inviteLink && message.type === "success" && (
+            <p className="text-xs mt-2 break-all">Invitation link: {inviteLink}</p>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-jobrun-grey-dark rounded-xl shadow-card p-6">
+        <h2 className="text-lg font-semibold text-jobrun-black dark:text-jobrun-grey-light mb-4">
+          Members
+        </h2>
+        <div className="divide-y divide-gray-200 dark:divide-gray-700">
+          {members.map((member) => (
+            <div key={member.userId} className="flex items-center justify-between py-3 gap-4">
+              <div>
+                <p className="font-medium text-jobrun-black dark:text-jobrun-grey-light">
+                  {member.email}
+                  {member.userId === session?.userId && " (you)"}
+                </p>
+                <p className="text-xs text-jobrun-grey">
+                  Joined {new Date(member.joinedAt).toLocaleDateString()}
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <select
+                  value={member.role}
+                  disabled={!canManage}
+                  onChange={(e) =>
+                    run(
+                      () =>
+                        teamRequest(`/members/${member.userId}`, {
+                          method: "PATCH",
+                          body: JSON.stringify({ role: e.target.value }),
+                        }),
+                      `${member.email} is now ${e.target.value.replace("_", " ").toLowerCase()}`
+                    )
+                  }
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-sm disabled:opacity-60"
+                >
+                  {ROLES.map((role) => (
+                    <option key={role.value} value={role.value}>
+                      {role.label}
+                    </option>
+                  ))}
+                </select>
+                {canManage && (
+                  <button
+                    onClick={() =>
+                      confirm(`Remove ${member.email} from the team?`) &&
+                      run(
+                        () => teamRequest(`/members/${member.userId}`, { method: "DELETE" }),
+                        `${member.email} removed`
+                      )
+                    }
+                    className="text-sm text-red-600 hover:underline"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {canManage && (
+        <div className="bg-white dark:bg-jobrun-grey-dark rounded-xl shadow-card p-6">
+          <h2 className="text-lg font-semibold text-jobrun-black dark:text-jobrun-grey-light mb-4">
+            Invite a team member
+          </h2>
+          <form onSubmit={handleInvite} className="flex flex-col md:flex-row gap-3">
+            <input
+              type="email"
+              required
+              placeholder="name@example.com"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-jobrun-black dark:text-jobrun-grey-light focus:ring-2 focus:ring-jobrun-green focus:border-transparent transition-all"
+            />
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as ClientMemberRole)}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800"
+            >
+              {ROLES.map((role) => (
+                <option key={role.value} value={role.value}>
+                  {role.label} — {role.description}
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              className="px-6 py-2 jobrun-gradient text-white rounded-lg font-semibold hover:opacity-90 transition-opacity"
+            >
+              Send invite
+            </button>
+          </form>
+
+          {invitations.length > 0 && (
+            <div className="mt-6">
+              <h3 className="text-sm font-semibold text-jobrun-grey mb-2">Pending invitations</h3>
+              <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                {invitations.map((invitation) => (
+                  <div key={invitation.id} className="flex items-center justify-between py-2 text-sm">
+                    <span>
+                      {invitation.email} · {invitation.role.replace("_", " ").toLowerCase()} · expires{" "}
+                      {new Date(invitation.expiresAt).toLocaleDateString()}
+                    </span>
+                    <button
+                      onClick={() =>
+                        run(
+                          () => teamRequest(`/invitations/${invitation.id}`, { method: "DELETE" }),
+                          `Invitation for ${invitation.email} revoked`
+                        )
+                      }
+                      className="text-red-600 hover:underline"
+                    >
+                      Revoke
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
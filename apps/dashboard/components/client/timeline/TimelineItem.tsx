@@ -6,7 +6,8 @@ type EventType =
   | "AI_ACTION"
   | "BOOKING"
   | "NOTE"
-  | "LEAD_CREATED";
+  | "LEAD_CREATED"
+  | "DELIVERY_FAILED";
 
 interface TimelineItemProps {
   type: EventType;
@@ -151,6 +152,27 @@ export function TimelineItem({
           bgColor: "bg-gray-400",
           borderColor: "border-gray-400",
         };
+      case "DELIVERY_FAILED":
+        return {
+          icon: (
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className="h-5 w-5"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
+              />
+            </svg>
+          ),
+          bgColor: "bg-red-500",
+          borderColor: "border-red-500",
+        };
       default:
         return {
           icon: null,
@@ -7,7 +7,8 @@ type EventType =
   | "AI_ACTION"
   | "BOOKING"
   | "NOTE"
-  | "LEAD_CREATED";
+  | "LEAD_CREATED"
+  | "DELIVERY_FAILED";
 
 interface TimelineEvent {
   id: string;
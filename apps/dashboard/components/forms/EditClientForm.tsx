@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
+import { adminAuthHeaders } from "@/lib/admin-auth";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
 
@@ -59,7 +60,7 @@ export function EditClientForm({ client }: EditClientFormProps) {
         `${process.env.NEXT_PUBLIC_API_URL}/api/admin/clients/${client.id}`,
         {
           method: "PUT",
-          headers: { "Content-Type": "application/json" },
+          headers: { "Content-Type": "application/json", ...adminAuthHeaders() },
           body: JSON.stringify({
             businessName: formData.businessName.trim(),
             phoneNumber: formData.phoneNumber.trim() || null,
@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
+import { adminAuthHeaders } from "@/lib/admin-auth";
 import { Button } from "@/components/ui/button";
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
@@ -31,10 +32,8 @@ export function ImpersonateClient({ client }: { client: Client }) {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
+            ...adminAuthHeaders(),
           },
-          body: JSON.stringify({
-            adminId: "admin",
-          }),
         }
       );
 
@@ -2,6 +2,21 @@
 
 import { createContext, useContext, useState, ReactNode } from "react";
 
+// Mirrors backend TeamService ROLE_PERMISSIONS
+export type ClientMemberRole = "OWNER" | "DISPATCHER" | "TECHNICIAN" | "READ_ONLY";
+
+export type ClientPermission =
+  | "DASHBOARD_READ"
+  | "LEADS_READ"
+  | "MESSAGES_SEND"
+  | "SETTINGS_READ"
+  | "SETTINGS_WRITE"
+  | "SCHEDULE_READ"
+  | "SCHEDULE_MANAGE"
+  | "TEAM_READ"
+  | "TEAM_MANAGE"
+  | "AGENTS_APPROVE";
+
 export interface ClientSession {
   clientId: string;
   businessName: string;
@@ -10,12 +25,17 @@ export interface ClientSession {
   region: string;
   phoneNumber: string | null;
   isImpersonating: boolean;
+  // Loaded from /api/client/team/me; null until known (or impersonating)
+  userId: string | null;
+  role: ClientMemberRole | null;
+  permissions: ClientPermission[];
 }
 
 interface ClientSessionContextType {
   session: ClientSession | null;
   setSession: (session: ClientSession | null) => void;
   clearSession: () => void;
+  can: (permission: ClientPermission) => boolean;
 }
 
 const ClientSessionContext = createContext<ClientSessionContextType | undefined>(
@@ -29,8 +49,12 @@ export function ClientSessionProvider({ children }: { children: ReactNode }) {
     setSession(null);
   };
 
+  // Unknown role → allow; the backend enforces permissions regardless
+  const can = (permission: ClientPermission) =>
+    !session?.role || session.permissions.includes(permission);
+
   return (
-    <ClientSessionContext.Provider value={{ session, setSession, clearSession }}>
+    <ClientSessionContext.Provider value={{ session, setSession, clearSession, can }}>
       {children}
     </ClientSessionContext.Provider>
   );
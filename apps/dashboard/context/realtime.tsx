@@ -0,0 +1,63 @@
+"use client";
+
+import { createContext, useContext, useEffect, useRef, useState, ReactNode } from "react";
+import { RealtimeClient, RealtimeEvent, RealtimeStatus } from "@/lib/realtime";
+import { getBrowserClientToken } from "@/lib/client-auth";
+
+const RealtimeContext = createContext<RealtimeClient | null>(null);
+
+export function RealtimeProvider({ children }: { children: ReactNode }) {
+  const [client] = useState(() => new RealtimeClient(getBrowserClientToken));
+
+  useEffect(() => {
+    client.start();
+    return () => client.stop();
+  }, [client]);
+
+  return <RealtimeContext.Provider value={client}>{children}</RealtimeContext.Provider>;
+}
+
+interface UseRealtimeOptions {
+  onEvent: (event: RealtimeEvent) => void;
+  // Called after a reconnect: refetch anything that may have been missed
+  onResync?: () => void;
+}
+
+/**
+ * Subscribe to gateway topics for the lifetime of a component.
+ * Callbacks may change every render; the subscription only follows `topics`.
+ */
+export function useRealtime(topics: string[], { onEvent, onResync }: UseRealtimeOptions): RealtimeStatus {
+  const client = useContext(RealtimeContext);
+  const [status, setStatus] = useState<RealtimeStatus>("closed");
+  const handlers = useRef({ onEvent, onResync });
+
+  useEffect(() => {
+    handlers.current = { onEvent, onResync };
+  });
+
+  const topicKey = topics.join(",");
+
+  useEffect(() => {
+    if (!client) return;
+
+    const topicList = topicKey.split(",").filter(Boolean);
+    const unsubscribe = client.subscribe(topicList);
+    const offEvent = client.onEvent((event) => {
+      if (event.topics?.some((topic) => topicList.includes(topic))) {
+        handlers.current.onEvent(event);
+      }
+    });
+    const offResync = client.onResync(() => handlers.current.onResync?.());
+    const offStatus = client.onStatus(setStatus);
+
+    return () => {
+      unsubscribe();
+      offEvent();
+      offResync();
+      offStatus();
+    };
+  }, [client, topicKey]);
+
+  return status;
+}
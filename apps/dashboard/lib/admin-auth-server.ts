@@ -0,0 +1,16 @@
+import { cookies } from "next/headers";
+import { authHeaders } from "./client-auth";
+import { ADMIN_TOKEN_COOKIE } from "./admin-auth";
+
+/**
+ * Auth headers for server-side /api/admin/* fetches
+ */
+export async function serverAdminAuthHeaders(): Promise<Record<string, string>> {
+  const cookieStore = await cookies();
+  return authHeaders(cookieStore.get(ADMIN_TOKEN_COOKIE)?.value);
+}
+
+export async function hasServerAdminToken(): Promise<boolean> {
+  const cookieStore = await cookies();
+  return Boolean(cookieStore.get(ADMIN_TOKEN_COOKIE)?.value);
+}
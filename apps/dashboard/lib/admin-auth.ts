@@ -0,0 +1,35 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// ADMIN DASHBOARD AUTH
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Every /api/admin/* call needs the login token of an ADMIN user
+// (/admin/sign-in). Kept in its own cookie so impersonating a client
+// doesn't replace it.
+
+import { authHeaders } from "./client-auth";
+
+export const ADMIN_TOKEN_COOKIE = "jobrun_admin_token";
+
+/**
+ * Token for browser-side fetches (client components only)
+ */
+export function getBrowserAdminToken(): string | null {
+  if (typeof document === "undefined") return null;
+
+  const match = document.cookie
+    .split("; ")
+    .find((entry) => entry.startsWith(`${ADMIN_TOKEN_COOKIE}=`));
+
+  return match ? decodeURIComponent(match.split("=")[1]) : null;
+}
+
+export function adminAuthHeaders(): Record<string, string> {
+  return authHeaders(getBrowserAdminToken());
+}
+
+/**
+ * Store an admin's login token in the browser (admin sign-in)
+ */
+export function setBrowserAdminToken(token: string, maxAgeSeconds: number): void {
+  const secure = window.location.protocol === "https:" ? "; Secure" : "";
+  document.cookie = `${ADMIN_TOKEN_COOKIE}=${encodeURIComponent(token)}; Path=/; Max-Age=${maxAgeSeconds}; SameSite=Lax${secure}`;
+}
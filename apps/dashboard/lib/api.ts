@@ -2,6 +2,9 @@
 // JOBRUN DASHBOARD API CLIENT
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
+import { adminAuthHeaders } from "./admin-auth";
+import { clientAuthHeaders } from "./client-auth";
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -24,6 +27,14 @@ export type MessageDirection = "INBOUND" | "OUTBOUND" | "SYSTEM";
 
 export type MessageType = "SMS" | "CALL" | "NOTE" | "EVENT";
 
+export type MessageDeliveryStatus =
+  | "QUEUED"
+  | "SENT"
+  | "DELIVERED"
+  | "UNDELIVERED"
+  | "FAILED"
+  | "RECEIVED";
+
 export interface Client {
   id: string;
   createdAt: string;
@@ -64,6 +75,8 @@ export interface Message {
   body: string;
   twilioSid?: string;
   metadata?: any;
+  deliveryStatus?: MessageDeliveryStatus | null;
+  deliveryErrorCode?: string | null;
 }
 
 export interface ClientSettings {
@@ -137,6 +150,11 @@ export interface ClientDashboardStats {
 // API HELPERS
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
+/**
+ * Sends the admin or client token from the browser's cookies. Server
+ * components have no document.cookie, so they pass serverAdminAuthHeaders()
+ * or serverClientAuthHeaders() in options.headers.
+ */
 async function fetchAPI<T>(
   endpoint: string,
   options: RequestInit = {}
@@ -147,6 +165,7 @@ async function fetchAPI<T>(
     ...options,
     headers: {
       "Content-Type": "application/json",
+      ...(endpoint.startsWith("/api/admin/") ? adminAuthHeaders() : clientAuthHeaders()),
       ...options.headers,
     },
   });
@@ -0,0 +1,10 @@
+import { cookies } from "next/headers";
+import { CLIENT_TOKEN_COOKIE, authHeaders } from "./client-auth";
+
+/**
+ * Auth headers for server-side /api/client/* fetches
+ */
+export async function serverClientAuthHeaders(): Promise<Record<string, string>> {
+  const cookieStore = await cookies();
+  return authHeaders(cookieStore.get(CLIENT_TOKEN_COOKIE)?.value);
+}
@@ -0,0 +1,37 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CLIENT DASHBOARD AUTH
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// The backend derives the tenant from this token on every /api/client/*
+// call. It is stored in a cookie so both server pages and client
+// components can forward it.
+
+export const CLIENT_TOKEN_COOKIE = "jobrun_client_token";
+
+export function authHeaders(token: string | null | undefined): Record<string, string> {
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/**
+ * Token for browser-side fetches (client components only)
+ */
+export function getBrowserClientToken(): string | null {
+  if (typeof document === "undefined") return null;
+
+  const match = document.cookie
+    .split("; ")
+    .find((entry) => entry.startsWith(`${CLIENT_TOKEN_COOKIE}=`));
+
+  return match ? decodeURIComponent(match.split("=")[1]) : null;
+}
+
+export function clientAuthHeaders(): Record<string, string> {
+  return authHeaders(getBrowserClientToken());
+}
+
+/**
+ * Store a login token in the browser (invitation accept)
+ */
+export function setBrowserClientToken(token: string, maxAgeSeconds: number): void {
+  const secure = window.location.protocol === "https:" ? "; Secure" : "";
+  document.cookie = `${CLIENT_TOKEN_COOKIE}=${encodeURIComponent(token)}; Path=/; Max-Age=${maxAgeSeconds}; SameSite=Lax${secure}`;
+}
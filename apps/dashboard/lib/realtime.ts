@@ -0,0 +1,246 @@
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// REALTIME CLIENT
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// One WebSocket per tab to the backend gateway
+// (apps/backend/src/realtime/WebSocketGateway.ts).
+//
+// Sockets die quietly while a laptop sleeps or a tab is frozen, so:
+// - a ping every 25s must be answered, otherwise we reconnect
+// - returning to the tab or coming back online checks the socket at once
+// - reconnects back off exponentially (1s → 30s)
+// - every reconnect after the first fires onResync so pages can backfill
+//   whatever they missed over REST
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+const WS_URL = process.env.NEXT_PUBLIC_WS_URL || API_BASE_URL.replace(/^http/, "ws");
+
+const PING_INTERVAL_MS = 25_000;
+const PONG_TIMEOUT_MS = 10_000;
+const MAX_BACKOFF_MS = 30_000;
+
+export type RealtimeStatus = "connecting" | "open" | "closed";
+
+export type RealtimeEventType =
+  | "NEW_MESSAGE"
+  | "NEW_HANDOVER"
+  | "HANDOVER_RESOLVED"
+  | "BOOKING_CREATED"
+  | "BOOKING_UPDATED"
+  | "AVAILABILITY_UPDATED";
+
+export interface RealtimeEvent<T = any> {
+  type: RealtimeEventType;
+  data: T;
+  timestamp: string;
+  topics: string[];
+}
+
+// Payload of NEW_MESSAGE (backend publishNewMessage)
+export interface NewMessageEventData {
+  messageId: string;
+  conversationId: string | null;
+  customerId: string | null;
+  direction: "INBOUND" | "OUTBOUND" | "SYSTEM";
+  type: string;
+  body: string;
+  deliveryStatus: string | null;
+  createdAt: string;
+  clientRef: string | null;
+}
+
+type EventListener = (event: RealtimeEvent) => void;
+
+export class RealtimeClient {
+  private ws: WebSocket | null = null;
+  private topics = new Map<string, number>();
+  private listeners = new Set<EventListener>();
+  private resyncListeners = new Set<() => void>();
+  private statusListeners = new Set<(status: RealtimeStatus) => void>();
+  private status: RealtimeStatus = "closed";
+  private hasConnected = false;
+  private attempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private pongTimer: ReturnType<typeof setTimeout> | null = null;
+  private stopped = true;
+
+  constructor(private readonly getToken: () => string | null) {}
+
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+    window.addEventListener("online", this.checkNow);
+    document.addEventListener("visibilitychange", this.onVisibilityChange);
+    this.connect();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    window.removeEventListener("online", this.checkNow);
+    document.removeEventListener("visibilitychange", this.onVisibilityChange);
+    this.clearTimers();
+    this.ws?.close();
+    this.ws = null;
+    this.setStatus("closed");
+  }
+
+  /**
+   * Subscribe to topics; returns an unsubscribe function.
+   * Topics are reference counted so several components can share one.
+   */
+  subscribe(topics: string[]): () => void {
+    const added = topics.filter((topic) => {
+      const count = this.topics.get(topic) ?? 0;
+      this.topics.set(topic, count + 1);
+      return count === 0;
+    });
+    if (added.length > 0) this.send({ action: "subscribe", topics: added });
+
+    return () => {
+      const removed = topics.filter((topic) => {
+        const count = (this.topics.get(topic) ?? 1) - 1;
+        if (count <= 0) this.topics.delete(topic);
+        else this.topics.set(topic, count);
+        return count <= 0;
+      });
+      if (removed.length > 0) this.send({ action: "unsubscribe", topics: removed });
+    };
+  }
+
+  onEvent(listener: EventListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  onResync(listener: () => void): () => void {
+    this.resyncListeners.add(listener);
+    return () => this.resyncListeners.delete(listener);
+  }
+
+  onStatus(listener: (status: RealtimeStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    listener(this.status);
+    return () => this.statusListeners.delete(listener);
+  }
+
+  private connect(): void {
+    const token = this.getToken();
+    if (!token || this.stopped) {
+      this.setStatus("closed");
+      return;
+    }
+
+    this.setStatus("connecting");
+    const ws = new WebSocket(`${WS_URL}/?${new URLSearchParams({ token })}`);
+    this.ws = ws;
+
+    ws.onmessage = (message) => {
+      let frame: any;
+      try {
+        frame = JSON.parse(message.data);
+      } catch {
+        return;
+      }
+
+      this.clearPongTimer();
+
+      if (frame.type === "CONNECTED") {
+        this.attempt = 0;
+        this.setStatus("open");
+        this.startPing();
+        // Covers topics added while the socket was still connecting
+        if (this.topics.size > 0) this.send({ action: "subscribe", topics: Array.from(this.topics.keys()) });
+        // Anything published while we were away is gone; let pages refetch
+        if (this.hasConnected) this.resyncListeners.forEach((listener) => listener());
+        this.hasConnected = true;
+        return;
+      }
+
+      if (frame.type === "SUBSCRIBED" || frame.type === "PONG" || frame.type === "ERROR") {
+        if (frame.type === "ERROR") console.error("[Realtime]", frame.data);
+        return;
+      }
+
+      this.listeners.forEach((listener) => listener(frame as RealtimeEvent));
+    };
+
+    ws.onclose = () => {
+      if (this.ws !== ws) return;
+      this.ws = null;
+      this.clearTimers();
+      this.setStatus("closed");
+      this.scheduleReconnect();
+    };
+
+    ws.onerror = () => ws.close();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.stopped || this.reconnectTimer) return;
+
+    const delay = Math.min(1000 * 2 ** this.attempt, MAX_BACKOFF_MS);
+    this.attempt++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  // Returning to the tab or the network: don't wait out the backoff or the next ping
+  private checkNow = () => {
+    if (this.stopped) return;
+
+    if (!this.ws) {
+      if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+      this.attempt = 0;
+      this.connect();
+    } else if (this.ws.readyState === WebSocket.OPEN) {
+      this.ping();
+    }
+  };
+
+  private onVisibilityChange = () => {
+    if (document.visibilityState === "visible") this.checkNow();
+  };
+
+  private startPing(): void {
+    if (this.pingTimer) clearInterval(this.pingTimer);
+    this.pingTimer = setInterval(() => this.ping(), PING_INTERVAL_MS);
+  }
+
+  private ping(): void {
+    if (this.pongTimer) return;
+    this.send({ action: "ping" });
+    // No answer: treat the socket as dead even if the browser hasn't noticed
+    this.pongTimer = setTimeout(() => {
+      this.pongTimer = null;
+      this.ws?.close();
+    }, PONG_TIMEOUT_MS);
+  }
+
+  private send(message: object): void {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
+    }
+  }
+
+  private setStatus(status: RealtimeStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach((listener) => listener(status));
+  }
+
+  private clearPongTimer(): void {
+    if (this.pongTimer) clearTimeout(this.pongTimer);
+    this.pongTimer = null;
+  }
+
+  private clearTimers(): void {
+    this.clearPongTimer();
+    if (this.pingTimer) clearInterval(this.pingTimer);
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.pingTimer = null;
+    this.reconnectTimer = null;
+  }
+}